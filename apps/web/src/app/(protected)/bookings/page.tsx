@@ -1,10 +1,11 @@
 'use client';
 
 import { useState, useMemo, useCallback } from 'react';
-import { Plus, Download } from 'lucide-react';
+import { Plus, Download, FileSpreadsheet } from 'lucide-react';
 import { exportToCSV, exportToJSON } from '@/lib/export';
 import { Button } from '@/components/ui/button';
 import { BookingList } from '@/components/booking/BookingList';
+import { BulkImportDialog } from '@/components/bookings/BulkImportDialog';
 import { ImportBookingDialog } from '@/components/bookings/ImportBookingDialog';
 import { SearchFilter, type DateRange, type FilterConfig } from '@/components/ui/search-filter';
 import { useBookings, useDeleteBooking } from '@/lib/queries';
@@ -39,8 +40,9 @@ export default function BookingsPage() {
     try {
       await deleteBooking.mutateAsync(id);
       showSuccess('Booking deleted', 'The booking has been removed');
-    } catch {
-      showError('Failed to delete', 'Could not delete the booking');
+    } catch (error) {
+      // Bookings with a submitted or approved claim are kept; the server says why
+      showError('Failed to delete', error instanceof Error ? error.message : 'Could not delete the booking');
     }
   };
 
@@ -117,6 +119,9 @@ export default function BookingsPage() {
       origin: booking.origin,
       destination: booking.destination,
       finalDelayMinutes: booking.finalDelayMinutes,
+      cancelledAt: booking.cancelledAt,
+      ticketPrice: booking.ticketPrice,
+      ticketCurrency: booking.ticketCurrency,
       createdAt: booking.createdAt,
     }));
     exportToCSV(dataToExport, `bookings-${new Date().toISOString().split('T')[0]}`);
@@ -158,6 +163,14 @@ export default function BookingsPage() {
               </Button>
             </>
           )}
+          <BulkImportDialog
+            trigger={
+              <Button variant="outline" size="sm" className="min-h-[44px]">
+                <FileSpreadsheet className="h-4 w-4 mr-2" />
+                Bulk Import
+              </Button>
+            }
+          />
           <ImportBookingDialog
             trigger={
               <Button className="w-full sm:w-auto min-h-[44px]">
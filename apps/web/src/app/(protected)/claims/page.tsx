@@ -3,13 +3,16 @@
 import { useState, useMemo, useCallback } from 'react';
 import { FileText, Download } from 'lucide-react';
 import { Button } from '@/components/ui/button';
-import { exportToCSV, exportToJSON } from '@/lib/export';
+import { exportBlob, exportToCSV, exportToJSON } from '@/lib/export';
 import { ClaimTable } from '@/components/claims/ClaimTable';
 import { ClaimCard } from '@/components/claims/ClaimCard';
+import { ClaimReplyReviews } from '@/components/claims/ClaimReplyReviews';
+import { ImportClaimReplyDialog } from '@/components/claims/ImportClaimReplyDialog';
 import { EmptyState } from '@/components/ui/empty-state';
 import { SearchFilter, type DateRange, type FilterConfig } from '@/components/ui/search-filter';
 import { useClaims, useMarkClaimSubmitted } from '@/lib/queries';
-import type { ClaimStatus } from '@/lib/api';
+import { showError } from '@/lib/notifications';
+import { fetchClaimsPackPdf, MAX_CLAIM_PACK_CLAIMS, type ClaimStatus } from '@/lib/api';
 
 type ClaimStatusFilter = ClaimStatus | 'all';
 type AmountFilter = 'all' | 'under-50' | '50-100' | 'over-100';
@@ -22,6 +25,7 @@ const STATUS_FILTER_OPTIONS: FilterConfig<ClaimStatusFilter>['options'] = [
   { value: 'approved', label: 'Approved' },
   { value: 'rejected', label: 'Rejected' },
   { value: 'expired', label: 'Expired' },
+  { value: 'withdrawn', label: 'Withdrawn' },
 ];
 
 const AMOUNT_FILTER_OPTIONS: FilterConfig<AmountFilter>['options'] = [
@@ -54,6 +58,7 @@ export default function ClaimsPage() {
   const [statusFilter, setStatusFilter] = useState<ClaimStatusFilter>('all');
   const [amountFilter, setAmountFilter] = useState<AmountFilter>('all');
   const [dateRange, setDateRange] = useState<DateRange>({ from: undefined, to: undefined });
+  const [isExportingPdf, setIsExportingPdf] = useState(false);
 
   const handleSubmit = (id: string) => {
     markSubmitted.mutate(id);
@@ -134,9 +139,11 @@ export default function ClaimsPage() {
       id: claim.id,
       bookingId: claim.bookingId,
       status: claim.status,
+      claimType: claim.claimType,
       delayMinutes: claim.delayMinutes,
       eligibleCashAmount: claim.eligibleCashAmount,
       eligibleVoucherAmount: claim.eligibleVoucherAmount,
+      currency: claim.currency,
       createdAt: claim.createdAt,
       submittedAt: claim.submittedAt,
     }));
@@ -147,6 +154,23 @@ export default function ClaimsPage() {
     exportToJSON(filteredClaims, `claims-${new Date().toISOString().split('T')[0]}`);
   };
 
+  const handleExportPDF = async () => {
+    if (filteredClaims.length > MAX_CLAIM_PACK_CLAIMS) {
+      showError('Too many claims', `Filter the list to at most ${MAX_CLAIM_PACK_CLAIMS} claims to print a claim pack`);
+      return;
+    }
+
+    setIsExportingPdf(true);
+    try {
+      const pdf = await fetchClaimsPackPdf(filteredClaims.map((claim) => claim.id));
+      exportBlob(pdf, `claims-${new Date().toISOString().split('T')[0]}.pdf`);
+    } catch (error) {
+      showError('Failed to export PDF', error instanceof Error ? error.message : 'Please try again');
+    } finally {
+      setIsExportingPdf(false);
+    }
+  };
+
   if (isLoading) {
     return (
       <div className="container py-6 space-y-6">
@@ -200,30 +224,45 @@ export default function ClaimsPage() {
             View and manage your compensation claims
           </p>
         </div>
-        {filteredClaims.length > 0 && (
-          <div className="flex gap-2">
-            <Button
-              variant="outline"
-              size="sm"
-              onClick={handleExportCSV}
-              className="min-h-[44px]"
-            >
-              <Download className="h-4 w-4 mr-2" />
-              CSV
-            </Button>
-            <Button
-              variant="outline"
-              size="sm"
-              onClick={handleExportJSON}
-              className="min-h-[44px]"
-            >
-              <Download className="h-4 w-4 mr-2" />
-              JSON
-            </Button>
-          </div>
-        )}
+        <div className="flex gap-2">
+          <ImportClaimReplyDialog />
+          {filteredClaims.length > 0 && (
+            <>
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={handleExportCSV}
+                className="min-h-[44px]"
+              >
+                <Download className="h-4 w-4 mr-2" />
+                CSV
+              </Button>
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={handleExportJSON}
+                className="min-h-[44px]"
+              >
+                <Download className="h-4 w-4 mr-2" />
+                JSON
+              </Button>
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => void handleExportPDF()}
+                disabled={isExportingPdf}
+                className="min-h-[44px]"
+              >
+                <Download className="h-4 w-4 mr-2" />
+                PDF
+              </Button>
+            </>
+          )}
+        </div>
       </div>
 
+      <ClaimReplyReviews claims={claims} />
+
       {/* Search and Filters */}
       <SearchFilter
         searchPlaceholder="Search by claim or booking ID..."
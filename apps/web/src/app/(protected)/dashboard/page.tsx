@@ -19,7 +19,7 @@ import { Skeleton } from '@/components/ui/skeleton';
 import { Tooltip } from '@/components/ui/tooltip';
 import { BookingList } from '@/components/booking/BookingList';
 import { ClaimList } from '@/components/claim/ClaimList';
-import { useBookings, useClaims } from '@/lib/queries';
+import { useBookings, useClaims, useClaimsSummary } from '@/lib/queries';
 import { cn } from '@/lib/utils';
 
 // Dynamic import for heavy recharts component
@@ -146,6 +146,7 @@ export default function DashboardPage() {
   const { data: claimsData, isLoading: claimsLoading } = useClaims({ limit: 6 });
   const { data: allBookingsData } = useBookings({ limit: 100 });
   const { data: allClaimsData } = useClaims({ limit: 100 });
+  const { data: claimsSummary } = useClaimsSummary();
 
   const bookings = bookingsData?.data ?? [];
   const claims = claimsData?.data ?? [];
@@ -268,7 +269,7 @@ export default function DashboardPage() {
           <h2 className="text-lg font-semibold">Analytics</h2>
           <p className="text-sm text-muted-foreground">Your claims and delays at a glance</p>
         </div>
-        <AnalyticsChart claims={allClaims} bookings={allBookings} />
+        <AnalyticsChart claims={allClaims} bookings={allBookings} summary={claimsSummary} />
       </div>
     </div>
   );
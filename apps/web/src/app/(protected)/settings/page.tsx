@@ -2,12 +2,14 @@
 
 import { useState, useEffect } from 'react';
 import Link from 'next/link';
-import { Settings, Bell, CreditCard, Armchair, ChevronRight } from 'lucide-react';
+import { Settings, Bell, CreditCard, Armchair, ChevronRight, CalendarDays, RefreshCw } from 'lucide-react';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Switch } from '@/components/ui/switch';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
-import { usePreferences, useUpdatePreferences } from '@/lib/queries';
+import { CopyButton } from '@/components/common/CopyButton';
+import { usePreferences, useUpdatePreferences, useCalendarFeed, useResetCalendarFeed } from '@/lib/queries';
+import { showSuccess, showError } from '@/lib/notifications';
 import {
   type SeatPosition,
   type SeatDirection,
@@ -48,6 +50,63 @@ const COMPENSATION_TYPES: { value: CompensationType; label: string }[] = [
   { value: 'voucher', label: 'E-voucher (higher value)' },
 ];
 
+function CalendarSubscription() {
+  const { data } = useCalendarFeed();
+  const resetFeed = useResetCalendarFeed();
+
+  const handleReset = async () => {
+    try {
+      await resetFeed.mutateAsync();
+      showSuccess('Calendar link reset', 'Subscribe again with the new link');
+    } catch (error) {
+      showError('Failed to reset link', error instanceof Error ? error.message : 'Please try again');
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <CalendarDays className="h-5 w-5" />
+          Calendar Subscription
+        </CardTitle>
+        <CardDescription>
+          Your trips, live delays and claim deadlines in Google Calendar, Apple Calendar or Outlook
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="flex items-center gap-2 rounded-lg border bg-muted/50 p-3">
+          <p className="min-w-0 flex-1 truncate font-mono text-sm">
+            {data?.url ?? 'Loading...'}
+          </p>
+          {data && <CopyButton value={data.url} label="Calendar link" />}
+        </div>
+        <p className="text-xs text-muted-foreground">
+          Anyone with this link can see your trips. Reset it to stop old subscriptions updating.
+        </p>
+        <div className="flex flex-wrap gap-2">
+          {data && (
+            <a href={data.url.replace(/^https?:/, 'webcal:')}>
+              <Button variant="outline">
+                <CalendarDays className="mr-2 h-4 w-4" />
+                Subscribe
+              </Button>
+            </a>
+          )}
+          <Button
+            variant="outline"
+            onClick={() => void handleReset()}
+            disabled={resetFeed.isPending}
+          >
+            <RefreshCw className="mr-2 h-4 w-4" />
+            {resetFeed.isPending ? 'Resetting...' : 'Reset link'}
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
+
 export default function SettingsPage() {
   const { data: preferences, isLoading } = usePreferences();
   const updatePreferences = useUpdatePreferences();
@@ -229,6 +288,9 @@ export default function SettingsPage() {
         </CardContent>
       </Card>
 
+      {/* Calendar Subscription */}
+      <CalendarSubscription />
+
       {/* Queue Preferences */}
       <Card>
         <CardHeader>
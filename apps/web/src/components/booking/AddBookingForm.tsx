@@ -7,7 +7,9 @@ import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/com
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Textarea } from '@/components/ui/textarea';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { useCreateBooking } from '@/lib/queries';
+import type { CreateBookingManualRequest, Currency } from '@/lib/api';
 import { showSuccess, showError } from '@/lib/notifications';
 
 export function AddBookingForm() {
@@ -24,6 +26,8 @@ export function AddBookingForm() {
     destination: '',
     coach: '',
     seat: '',
+    ticketPrice: '',
+    currency: 'GBP' as Currency,
   });
 
   const handleEmailSubmit = async (e: React.FormEvent) => {
@@ -53,18 +57,14 @@ export function AddBookingForm() {
       return;
     }
 
+    const ticketPrice = manualForm.ticketPrice ? parseFloat(manualForm.ticketPrice.replace(',', '.')) : null;
+    if (ticketPrice !== null && (!Number.isFinite(ticketPrice) || ticketPrice <= 0)) {
+      showError('Invalid ticket price', 'Please enter the fare you paid, e.g. 120.50');
+      return;
+    }
+
     try {
-      const requestData: {
-        pnr: string;
-        tcn: string;
-        trainNumber: string;
-        journeyDate: string;
-        passengerName: string;
-        origin: string;
-        destination: string;
-        coach?: string;
-        seat?: string;
-      } = {
+      const requestData: CreateBookingManualRequest = {
         pnr: manualForm.pnr.toUpperCase(),
         tcn: manualForm.tcn,
         trainNumber: manualForm.trainNumber,
@@ -80,6 +80,10 @@ export function AddBookingForm() {
       if (manualForm.seat) {
         requestData.seat = manualForm.seat;
       }
+      if (ticketPrice !== null) {
+        requestData.ticketPrice = Math.round(ticketPrice * 100) / 100;
+        requestData.currency = manualForm.currency;
+      }
 
       const booking = await createBooking.mutateAsync(requestData);
       showSuccess('Booking added', `Booking ${booking.pnr} has been added successfully`);
@@ -254,6 +258,41 @@ export function AddBookingForm() {
                     onChange={(e) => setManualForm({ ...manualForm, seat: e.target.value })}
                   />
                 </div>
+
+                <div>
+                  <label htmlFor="ticketPrice" className="text-sm font-medium">
+                    Ticket Price (Optional)
+                  </label>
+                  <Input
+                    id="ticketPrice"
+                    placeholder="120.50"
+                    inputMode="decimal"
+                    className="mt-1.5"
+                    value={manualForm.ticketPrice}
+                    onChange={(e) => setManualForm({ ...manualForm, ticketPrice: e.target.value })}
+                  />
+                  <p className="text-xs text-muted-foreground mt-1">
+                    Fare paid for this passenger, used to calculate compensation
+                  </p>
+                </div>
+
+                <div>
+                  <label htmlFor="currency" className="text-sm font-medium">
+                    Currency
+                  </label>
+                  <Select
+                    value={manualForm.currency}
+                    onValueChange={(value) => setManualForm({ ...manualForm, currency: value as Currency })}
+                  >
+                    <SelectTrigger id="currency" className="mt-1.5">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="GBP">GBP (£)</SelectItem>
+                      <SelectItem value="EUR">EUR (€)</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </div>
               </div>
 
               <Button type="submit" disabled={createBooking.isPending} className="w-full sm:w-auto min-h-[44px]">
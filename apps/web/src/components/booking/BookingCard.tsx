@@ -12,7 +12,9 @@ interface BookingCardProps {
 }
 
 export function BookingCard({ booking }: BookingCardProps) {
-  const delayStatus = booking.finalDelayMinutes
+  const delayStatus = booking.cancelledAt
+    ? 'cancelled'
+    : booking.finalDelayMinutes
     ? booking.finalDelayMinutes >= 60
       ? 'delayed'
       : 'on_time'
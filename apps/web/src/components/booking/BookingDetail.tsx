@@ -1,13 +1,15 @@
 'use client';
 
 import { format } from 'date-fns';
-import { ArrowRight, Clock, Train, User, Armchair } from 'lucide-react';
+import { ArrowRight, ArrowLeftRight, Clock, Train, User, Armchair, Ticket } from 'lucide-react';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { StatusBadge } from '@/components/common/StatusBadge';
 import { CompensationBadge } from '@/components/common/CompensationBadge';
 import { CopyButton } from '@/components/common/CopyButton';
+import { BookingDisruptions } from '@/components/booking/BookingDisruptions';
 import { Button } from '@/components/ui/button';
-import { getStationName, type BookingDetailResponse } from '@/lib/api';
+import { getStationName, getTripLegLabel, type BookingDetailResponse } from '@/lib/api';
+import { useClaimPack } from '@/lib/queries';
 import Link from 'next/link';
 
 interface BookingDetailProps {
@@ -15,7 +17,14 @@ interface BookingDetailProps {
 }
 
 export function BookingDetail({ booking }: BookingDetailProps) {
-  const delayStatus = booking.finalDelayMinutes
+  const isGroup = booking.passengers.length > 1;
+  const { data: claimPack } = useClaimPack(
+    booking.id,
+    isGroup && booking.passengers.some((passenger) => passenger.claim)
+  );
+  const delayStatus = booking.cancelledAt
+    ? 'cancelled'
+    : booking.finalDelayMinutes
     ? booking.finalDelayMinutes >= 60
       ? 'delayed'
       : 'on_time'
@@ -58,8 +67,13 @@ export function BookingDetail({ booking }: BookingDetailProps) {
             <div className="flex items-center gap-2">
               <User className="h-4 w-4 text-muted-foreground" />
               <div>
-                <p className="text-sm text-muted-foreground">Passenger</p>
-                <p className="font-medium">{booking.passengerName}</p>
+                <p className="text-sm text-muted-foreground">
+                  {isGroup ? 'Lead booker' : 'Passenger'}
+                </p>
+                <p className="font-medium">
+                  {booking.passengerName}
+                  {isGroup && ` +${booking.passengers.length - 1}`}
+                </p>
               </div>
             </div>
 
@@ -82,7 +96,9 @@ export function BookingDetail({ booking }: BookingDetailProps) {
               <div>
                 <p className="text-sm text-muted-foreground">Delay</p>
                 <p className="font-medium">
-                  {booking.finalDelayMinutes !== null
+                  {booking.cancelledAt
+                    ? 'Cancelled'
+                    : booking.finalDelayMinutes !== null
                     ? booking.finalDelayMinutes > 0
                       ? `${booking.finalDelayMinutes} minutes`
                       : 'On time'
@@ -90,10 +106,63 @@ export function BookingDetail({ booking }: BookingDetailProps) {
                 </p>
               </div>
             </div>
+
+            {booking.ticketPrice !== null && booking.ticketCurrency && (
+              <div className="flex items-center gap-2">
+                <Ticket className="h-4 w-4 text-muted-foreground" />
+                <div>
+                  <p className="text-sm text-muted-foreground">Fare</p>
+                  <p className="font-medium">
+                    {booking.ticketCurrency === 'GBP' ? '£' : '€'}
+                    {booking.ticketPrice.toFixed(2)}
+                  </p>
+                </div>
+              </div>
+            )}
           </div>
         </CardContent>
       </Card>
 
+      {/* Each leg of a return journey is tracked and claimed separately */}
+      {booking.tripLegs.length > 1 && (
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2 text-base">
+              <ArrowLeftRight className="h-4 w-4" />
+              Round Trip
+            </CardTitle>
+            <CardDescription>
+              Delays are tracked and claimed separately for each leg.
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-3">
+            {booking.tripLegs.map((leg) => (
+              <div key={leg.id} className="flex items-center justify-between gap-4">
+                <div>
+                  <p className="text-sm text-muted-foreground">{getTripLegLabel(leg)}</p>
+                  <p className="font-medium">
+                    {getStationName(leg.origin)} → {getStationName(leg.destination)}
+                  </p>
+                  <p className="text-sm text-muted-foreground">
+                    Train {leg.trainNumber} · {format(new Date(leg.journeyDate), 'dd MMM yyyy')}
+                  </p>
+                </div>
+                {leg.id === booking.id ? (
+                  <span className="text-sm text-muted-foreground">Viewing</span>
+                ) : (
+                  <Link href={`/bookings/${leg.id}`}>
+                    <Button variant="outline" size="sm">View Leg</Button>
+                  </Link>
+                )}
+              </div>
+            ))}
+          </CardContent>
+        </Card>
+      )}
+
+      {/* Disruptions affecting this journey */}
+      <BookingDisruptions bookingId={booking.id} />
+
       {/* TCN Card */}
       <Card>
         <CardHeader>
@@ -107,6 +176,80 @@ export function BookingDetail({ booking }: BookingDetailProps) {
         </CardContent>
       </Card>
 
+      {/* Each traveller has their own ticket and claim */}
+      {isGroup && (
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-base">Passengers</CardTitle>
+            <CardDescription>
+              Eurostar needs a separate claim for each traveller on the booking.
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            {booking.passengers.map((passenger) => (
+              <div
+                key={passenger.id}
+                className="flex items-center justify-between gap-4 border-b pb-4 last:border-0 last:pb-0"
+              >
+                <div>
+                  <p className="font-medium">{passenger.passengerName}</p>
+                  <p className="font-mono text-sm text-muted-foreground">{passenger.tcn}</p>
+                  <p className="text-sm text-muted-foreground">
+                    {passenger.coach && `Coach ${passenger.coach}`}
+                    {passenger.coach && passenger.seat && ', '}
+                    {passenger.seat && `Seat ${passenger.seat}`}
+                    {passenger.ticketPrice !== null && passenger.ticketCurrency && (
+                      <>
+                        {(passenger.coach || passenger.seat) && ' · '}
+                        {passenger.ticketCurrency === 'GBP' ? '£' : '€'}
+                        {passenger.ticketPrice.toFixed(2)}
+                      </>
+                    )}
+                  </p>
+                </div>
+                <div className="flex items-center gap-2">
+                  <CopyButton value={passenger.tcn} label="TCN" />
+                  {passenger.claim && (
+                    <Link href={`/claims/${passenger.claim.id}`}>
+                      <Button variant="outline" size="sm">View Claim</Button>
+                    </Link>
+                  )}
+                </div>
+              </div>
+            ))}
+
+            {claimPack && claimPack.claims.length > 0 && (
+              <div className="rounded-lg bg-muted p-4">
+                <p className="text-sm font-medium">
+                  Claim pack: {claimPack.claims.length} claims
+                </p>
+                <div className="mt-2">
+                  <CompensationBadge
+                    cashAmount={claimPack.totalCashAmount}
+                    voucherAmount={claimPack.totalVoucherAmount}
+                    currency={claimPack.currency}
+                  />
+                </div>
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      )}
+
+      {/* Without a fare we can't work out compensation amounts */}
+      {!booking.eligibility && booking.ticketPrice === null && (booking.finalDelayMinutes !== null || booking.cancelledAt) && (
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-base">Compensation Eligibility</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <p className="text-muted-foreground">
+              Compensation is a share of the fare you paid. Add the ticket price to this booking to see what you can claim.
+            </p>
+          </CardContent>
+        </Card>
+      )}
+
       {/* Eligibility Card */}
       {booking.eligibility && (
         <Card>
@@ -118,7 +261,9 @@ export function BookingDetail({ booking }: BookingDetailProps) {
               <div className="space-y-4">
                 <div className="flex items-center justify-between">
                   <span className="text-sm text-muted-foreground">
-                    You are eligible for compensation
+                    {booking.eligibility.claimType === 'cancellation'
+                      ? 'Your train was cancelled: you can get a full refund or travel on another train'
+                      : 'You are eligible for compensation'}
                   </span>
                   <StatusBadge status="eligible" />
                 </div>
@@ -146,7 +291,9 @@ export function BookingDetail({ booking }: BookingDetailProps) {
                   </Link>
                 ) : (
                   <Button className="w-full" disabled>
-                    Claim will be generated when delay is confirmed
+                    {booking.eligibility.claimType === 'cancellation'
+                      ? 'Refund claim is being prepared'
+                      : 'Claim will be generated when delay is confirmed'}
                   </Button>
                 )}
               </div>
@@ -159,10 +306,31 @@ export function BookingDetail({ booking }: BookingDetailProps) {
                     ? 'Claim window opens 24 hours after journey completion.'
                     : booking.eligibility.reason === 'deadline_expired'
                     ? 'The claim deadline has passed.'
+                    : booking.eligibility.reason === 'extraordinary_circumstances'
+                    ? 'The delay was caused by extreme weather, which is exempt from compensation.'
+                    : booking.eligibility.reason === 'third_party_behaviour'
+                    ? 'The delay was caused by people on the line, an emergency or police activity, which is exempt from compensation.'
                     : 'Not eligible for compensation.'}
                 </p>
+
+                {booking.eligibility.goodwill && (
+                  <div className="mt-4 rounded-md border p-4 space-y-2">
+                    <p className="text-sm font-medium">
+                      Still worth claiming: ask for a goodwill e-voucher of{' '}
+                      {booking.eligibility.goodwill.currency === 'GBP' ? '£' : '€'}
+                      {booking.eligibility.goodwill.voucherAmount.toFixed(2)}
+                    </p>
+                    <p className="text-sm text-muted-foreground">
+                      {booking.eligibility.goodwill.description}
+                    </p>
+                  </div>
+                )}
               </div>
             )}
+
+            <p className="mt-4 text-xs text-muted-foreground">
+              Assessed under {booking.eligibility.policy.name}
+            </p>
           </CardContent>
         </Card>
       )}
@@ -0,0 +1,76 @@
+'use client';
+
+import { format } from 'date-fns';
+import { AlertTriangle, ExternalLink } from 'lucide-react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { useDisruptions } from '@/lib/queries';
+import type { DisruptionResponse } from '@/lib/api';
+
+interface BookingDisruptionsProps {
+  bookingId: string;
+}
+
+function formatLabel(value: string): string {
+  const label = value.replace(/_/g, ' ');
+  return label.charAt(0).toUpperCase() + label.slice(1);
+}
+
+function DisruptionItem({ disruption }: { disruption: DisruptionResponse }) {
+  return (
+    <li className="space-y-1 border-b pb-3 last:border-0 last:pb-0">
+      <div className="flex flex-wrap items-center gap-2">
+        <span className="font-medium">
+          {disruption.header ?? formatLabel(disruption.effect)}
+        </span>
+        <Badge variant={disruption.isActive ? 'warning' : 'secondary'}>
+          {formatLabel(disruption.cause)}
+        </Badge>
+      </div>
+      {disruption.description && (
+        <p className="text-sm text-muted-foreground">{disruption.description}</p>
+      )}
+      <p className="text-xs text-muted-foreground">
+        Reported {format(new Date(disruption.firstSeenAt), 'dd MMM, HH:mm')}
+        {!disruption.isActive && ' · no longer active'}
+      </p>
+      {disruption.url && (
+        <a
+          href={disruption.url}
+          target="_blank"
+          rel="noopener noreferrer"
+          className="inline-flex items-center gap-1 text-sm text-primary hover:underline"
+        >
+          More information
+          <ExternalLink className="h-3 w-3" />
+        </a>
+      )}
+    </li>
+  );
+}
+
+export function BookingDisruptions({ bookingId }: BookingDisruptionsProps) {
+  const { data: disruptions } = useDisruptions(bookingId);
+
+  if (!disruptions || disruptions.length === 0) {
+    return null;
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2 text-base">
+          <AlertTriangle className="h-4 w-4 text-yellow-600" />
+          Service Disruptions
+        </CardTitle>
+      </CardHeader>
+      <CardContent>
+        <ul className="space-y-3">
+          {disruptions.map((disruption) => (
+            <DisruptionItem key={disruption.id} disruption={disruption} />
+          ))}
+        </ul>
+      </CardContent>
+    </Card>
+  );
+}
@@ -6,7 +6,7 @@ import { ArrowRight, Clock, Train, Calendar, Eye, Trash2 } from 'lucide-react';
 import { Card, CardContent } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { StatusBadge, type BookingStatus } from '@/components/common/StatusBadge';
-import { getStationName, type BookingResponse } from '@/lib/api';
+import { getStationName, getTripLegLabel, type BookingResponse } from '@/lib/api';
 
 interface BookingCardProps {
   booking: BookingResponse;
@@ -18,6 +18,10 @@ function getBookingStatus(booking: BookingResponse): BookingStatus {
   const now = new Date();
   const isPastJourney = journeyDate < now;
 
+  if (booking.cancelledAt) {
+    return 'cancelled';
+  }
+
   if (booking.finalDelayMinutes === null) {
     return isPastJourney ? 'monitoring' : 'monitoring';
   }
@@ -35,6 +39,7 @@ function getBookingStatus(booking: BookingResponse): BookingStatus {
 
 export function BookingCard({ booking, onDelete }: BookingCardProps) {
   const status = getBookingStatus(booking);
+  const legLabel = getTripLegLabel(booking);
 
   return (
     <Card className="hover:bg-muted/50 transition-colors">
@@ -69,6 +74,9 @@ export function BookingCard({ booking, onDelete }: BookingCardProps) {
           <div className="flex items-center gap-2 text-sm">
             <Train className="h-4 w-4 text-muted-foreground flex-shrink-0" />
             <span className="font-medium">Train {booking.trainNumber}</span>
+            {legLabel && (
+              <span className="text-xs text-muted-foreground">Round trip · {legLabel}</span>
+            )}
           </div>
 
           <div className="flex items-center gap-2 text-sm">
@@ -14,7 +14,7 @@ import {
 } from '@/components/ui/table';
 import { Button } from '@/components/ui/button';
 import { StatusBadge, type BookingStatus } from '@/components/common/StatusBadge';
-import { getStationName, type BookingResponse } from '@/lib/api';
+import { getStationName, getTripLegLabel, type BookingResponse } from '@/lib/api';
 
 type SortField = 'trainNumber' | 'route' | 'journeyDate' | 'status';
 type SortDirection = 'asc' | 'desc';
@@ -31,6 +31,11 @@ function getBookingStatus(booking: BookingResponse): BookingStatus {
   const now = new Date();
   const isPastJourney = journeyDate < now;
 
+  if (booking.cancelledAt) {
+    // Train cancelled or passenger's stop skipped - refund or re-route
+    return 'cancelled';
+  }
+
   if (booking.finalDelayMinutes === null) {
     // Journey hasn't completed or delay not determined
     return isPastJourney ? 'monitoring' : 'monitoring';
@@ -147,10 +152,16 @@ export function BookingTable({ bookings, onDelete }: BookingTableProps) {
       <TableBody>
         {sortedBookings.map((booking) => {
           const status = getBookingStatus(booking);
+          const legLabel = getTripLegLabel(booking);
           return (
             <TableRow key={booking.id} className="cursor-pointer">
               <TableCell className="font-mono font-medium">
                 {booking.trainNumber}
+                {legLabel && (
+                  <span className="block font-sans text-xs font-normal text-muted-foreground">
+                    Round trip · {legLabel}
+                  </span>
+                )}
               </TableCell>
               <TableCell>
                 <div className="flex items-center gap-2">
@@ -0,0 +1,289 @@
+'use client';
+
+import * as React from 'react';
+import { AlertCircle, CheckCircle2, FileSpreadsheet, Loader2 } from 'lucide-react';
+
+import { Button } from '@/components/ui/button';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from '@/components/ui/dialog';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { showSuccess, showError } from '@/lib/notifications';
+import { useImportBookingsCsv } from '@/lib/queries';
+import {
+  getStationName,
+  type CsvBookingField,
+  type CsvDateFormat,
+  type CsvImportResponse,
+  type ImportBookingsCsvRequest,
+} from '@/lib/api';
+
+// Fields whose column can be named when the agency uses its own headers
+const MAPPABLE_FIELDS: Array<{ field: CsvBookingField; label: string }> = [
+  { field: 'pnr', label: 'Booking reference (PNR)' },
+  { field: 'tcn', label: 'Ticket number (TCN)' },
+  { field: 'trainNumber', label: 'Train number' },
+  { field: 'journeyDate', label: 'Travel date' },
+  { field: 'passengerName', label: 'Passenger' },
+  { field: 'origin', label: 'From' },
+  { field: 'destination', label: 'To' },
+  { field: 'ticketPrice', label: 'Fare' },
+];
+
+const DELIMITERS = [
+  { value: ',', label: 'Comma (,)' },
+  { value: ';', label: 'Semicolon (;)' },
+  { value: '\t', label: 'Tab' },
+];
+
+interface BulkImportDialogProps {
+  trigger?: React.ReactNode;
+}
+
+export function BulkImportDialog({ trigger }: BulkImportDialogProps) {
+  const inputRef = React.useRef<HTMLInputElement>(null);
+  const [open, setOpen] = React.useState(false);
+  const [file, setFile] = React.useState<{ name: string; text: string } | null>(null);
+  const [dateFormat, setDateFormat] = React.useState<CsvDateFormat | 'auto'>('auto');
+  const [delimiter, setDelimiter] = React.useState(',');
+  const [columns, setColumns] = React.useState<Partial<Record<CsvBookingField, string>>>({});
+  const [showColumns, setShowColumns] = React.useState(false);
+  // Result of the dry run the user is reviewing
+  const [preview, setPreview] = React.useState<CsvImportResponse | null>(null);
+
+  const importCsv = useImportBookingsCsv();
+
+  const buildRequest = (csv: string, dryRun: boolean): ImportBookingsCsvRequest => {
+    const mapped = Object.fromEntries(
+      Object.entries(columns).filter(([, header]) => header && header.trim() !== '')
+    ) as Partial<Record<CsvBookingField, string>>;
+    return {
+      csv,
+      dryRun,
+      delimiter,
+      ...(dateFormat !== 'auto' && { dateFormat }),
+      ...(Object.keys(mapped).length > 0 && { columns: mapped }),
+    };
+  };
+
+  // Check the file with the server's importer, without saving anything
+  const handleCheck = async () => {
+    if (!file) return;
+    try {
+      setPreview(await importCsv.mutateAsync(buildRequest(file.text, true)));
+    } catch (error) {
+      showError('Failed to read spreadsheet', error instanceof Error ? error.message : 'An unexpected error occurred');
+    }
+  };
+
+  const handleImport = async () => {
+    if (!file) return;
+    try {
+      const result = await importCsv.mutateAsync(buildRequest(file.text, false));
+      const skipped = result.skipped > 0 ? `, ${result.skipped} already added` : '';
+      showSuccess('Bookings imported', `${result.imported} bookings imported from ${file.name}${skipped}`);
+      setOpen(false);
+    } catch (error) {
+      showError('Failed to import bookings', error instanceof Error ? error.message : 'An unexpected error occurred');
+    }
+  };
+
+  const handleFile = async (files: FileList | null) => {
+    const selected = files?.[0];
+    if (!selected) return;
+    setFile({ name: selected.name, text: await selected.text() });
+    setPreview(null);
+  };
+
+  // Reset when the dialog closes
+  React.useEffect(() => {
+    if (!open) {
+      setFile(null);
+      setPreview(null);
+      setColumns({});
+      setShowColumns(false);
+      setDateFormat('auto');
+      setDelimiter(',');
+    }
+  }, [open]);
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>
+        {trigger ?? (
+          <Button variant="outline">
+            <FileSpreadsheet className="mr-2 h-4 w-4" />
+            Bulk Import
+          </Button>
+        )}
+      </DialogTrigger>
+      <DialogContent className="sm:max-w-[600px] max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Import Bookings from a Spreadsheet</DialogTitle>
+          <DialogDescription>
+            Upload a CSV export from your travel agency, one row per passenger per train. Rows with the same
+            booking reference become one booking.
+          </DialogDescription>
+        </DialogHeader>
+
+        {!preview ? (
+          <div className="space-y-4">
+            <div className="flex items-center gap-3">
+              <Button variant="outline" onClick={() => inputRef.current?.click()}>
+                <FileSpreadsheet className="mr-2 h-4 w-4" />
+                Choose File
+              </Button>
+              <span className="truncate text-sm text-muted-foreground">{file?.name ?? 'No file chosen'}</span>
+              <input
+                ref={inputRef}
+                type="file"
+                accept=".csv,text/csv,.txt,text/plain"
+                className="hidden"
+                onChange={(e) => {
+                  void handleFile(e.target.files);
+                  e.target.value = '';
+                }}
+              />
+            </div>
+
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="csv-date-format">Date format</Label>
+                <Select value={dateFormat} onValueChange={(v) => setDateFormat(v as CsvDateFormat | 'auto')}>
+                  <SelectTrigger id="csv-date-format">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="auto">Automatic</SelectItem>
+                    <SelectItem value="YYYY-MM-DD">YYYY-MM-DD</SelectItem>
+                    <SelectItem value="DD/MM/YYYY">DD/MM/YYYY</SelectItem>
+                    <SelectItem value="MM/DD/YYYY">MM/DD/YYYY</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="csv-delimiter">Separator</Label>
+                <Select value={delimiter} onValueChange={setDelimiter}>
+                  <SelectTrigger id="csv-delimiter">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {DELIMITERS.map(({ value, label }) => (
+                      <SelectItem key={label} value={value}>
+                        {label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+
+            <div className="space-y-2">
+              <button
+                type="button"
+                className="text-sm text-primary hover:underline"
+                onClick={() => setShowColumns(!showColumns)}
+              >
+                {showColumns ? 'Hide column names' : 'My spreadsheet uses different column names'}
+              </button>
+              {showColumns && (
+                <div className="grid grid-cols-2 gap-3 rounded-lg border p-3">
+                  {MAPPABLE_FIELDS.map(({ field, label }) => (
+                    <div key={field} className="space-y-1">
+                      <Label htmlFor={`csv-column-${field}`} className="text-xs">
+                        {label}
+                      </Label>
+                      <Input
+                        id={`csv-column-${field}`}
+                        placeholder="Column header"
+                        value={columns[field] ?? ''}
+                        onChange={(e) => setColumns({ ...columns, [field]: e.target.value })}
+                      />
+                    </div>
+                  ))}
+                </div>
+              )}
+            </div>
+
+            <DialogFooter>
+              <Button onClick={() => void handleCheck()} disabled={!file || importCsv.isPending}>
+                {importCsv.isPending ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : null}
+                Check File
+              </Button>
+            </DialogFooter>
+          </div>
+        ) : (
+          <div className="space-y-4">
+            <div className="rounded-lg border border-green-500/50 bg-green-500/10 p-3">
+              <p className="text-sm text-green-800 dark:text-green-200 flex items-center gap-2">
+                <CheckCircle2 className="h-4 w-4" />
+                {preview.imported} bookings ready to import
+                {preview.skipped > 0 && `, ${preview.skipped} already added`}
+              </p>
+            </div>
+
+            {preview.bookings.length > 0 && (
+              <ul className="max-h-48 divide-y overflow-y-auto rounded-lg border text-sm">
+                {preview.bookings.map((booking) => (
+                  <li key={booking.pnr} className="flex items-center justify-between gap-2 px-3 py-2">
+                    <div className="min-w-0">
+                      <p className="font-mono font-medium">{booking.pnr}</p>
+                      <p className="truncate text-xs text-muted-foreground">
+                        {booking.legs
+                          .map(
+                            (leg) =>
+                              `${leg.journeyDate} ${leg.trainNumber} ${getStationName(leg.origin)} → ${getStationName(leg.destination)}`
+                          )
+                          .join(' · ')}
+                      </p>
+                    </div>
+                    <span className="shrink-0 text-xs text-muted-foreground">
+                      {booking.duplicateOf
+                        ? 'Already added'
+                        : `${booking.passengerCount} passenger${booking.passengerCount === 1 ? '' : 's'}`}
+                    </span>
+                  </li>
+                ))}
+              </ul>
+            )}
+
+            {preview.errors.length > 0 && (
+              <div className="rounded-lg border border-amber-500/50 bg-amber-500/10 p-3 space-y-2">
+                <p className="text-sm font-medium text-amber-800 dark:text-amber-200 flex items-center gap-2">
+                  <AlertCircle className="h-4 w-4" />
+                  {preview.errors.length} problems found; bookings with these rows won&apos;t be imported
+                </p>
+                <ul className="max-h-40 overflow-y-auto text-xs text-amber-800 dark:text-amber-200 space-y-1">
+                  {preview.errors.map((error, index) => (
+                    <li key={index}>
+                      Row {error.row}
+                      {error.field && ` (${error.field})`}: {error.message}
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            )}
+
+            <DialogFooter className="gap-2">
+              <Button variant="outline" onClick={() => setPreview(null)}>
+                Back
+              </Button>
+              <Button onClick={() => void handleImport()} disabled={preview.imported === 0 || importCsv.isPending}>
+                {importCsv.isPending ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : null}
+                Import {preview.imported} Bookings
+              </Button>
+            </DialogFooter>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -9,6 +9,8 @@ import {
   AlertCircle,
   CheckCircle2,
   HelpCircle,
+  Upload,
+  Forward,
 } from 'lucide-react';
 
 import { cn } from '@/lib/utils';
@@ -24,6 +26,7 @@ import {
 } from '@/components/ui/dialog';
 import { Label } from '@/components/ui/label';
 import { Textarea } from '@/components/ui/textarea';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { Calendar } from '@/components/ui/calendar';
 import {
   Popover,
@@ -33,15 +36,25 @@ import {
 import { FormField, useFormField } from '@/components/ui/form-field';
 import { StationSelect } from '@/components/ui/station-select';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { CopyButton } from '@/components/common/CopyButton';
 import { showSuccess, showError } from '@/lib/notifications';
-import { useCreateBooking } from '@/lib/queries';
 import {
-  parseEmailPreview,
-  canImport,
-  getConfidenceColor,
-  type ParsedBookingPreview,
-  type ParsedField,
-} from '@/lib/email-parser';
+  useCreateBooking,
+  useImportBookingEml,
+  useImportBookingPdf,
+  useImportBookingPkpass,
+  useInboundAddress,
+  useParseEmailPreview,
+} from '@/lib/queries';
+import type {
+  CreateBookingManualRequest,
+  Currency,
+  ParsedBookingPreview,
+  ParsedField,
+} from '@/lib/api';
+import { getConfidenceColor, LANGUAGE_NAMES } from '@/lib/email-parser';
+
+type ParsedFieldName = keyof ParsedBookingPreview['fields'];
 
 // Validation functions
 const validatePnr = (value: string) => {
@@ -64,6 +77,13 @@ const validateTrainNumber = (value: string) => {
   return undefined;
 };
 
+const validateTicketPrice = (value: string) => {
+  if (!value) return undefined;
+  const amount = Number(value.replace(',', '.'));
+  if (!Number.isFinite(amount) || amount <= 0) return 'Enter the fare paid, e.g. 120.50';
+  return undefined;
+};
+
 interface ImportBookingDialogProps {
   trigger?: React.ReactNode;
 }
@@ -98,7 +118,7 @@ function ConfidenceBadge({ confidence }: { confidence: ParsedField<unknown>['con
 
 interface ParsedFieldDisplayProps {
   label: string;
-  field: ParsedField<string>;
+  field: ParsedField<string | number>;
   required?: boolean;
 }
 
@@ -110,21 +130,116 @@ function ParsedFieldDisplay({ label, field, required }: ParsedFieldDisplayProps)
           {label}
           {required && <span className="text-destructive ml-0.5">*</span>}
         </span>
-        <p className="text-sm text-muted-foreground">
-          {field.value || <span className="italic">Not detected</span>}
+        <p className="text-sm text-muted-foreground" title={field.snippet ?? undefined}>
+          {field.value ?? <span className="italic">Not detected</span>}
         </p>
+        {field.value !== null && field.issue && (
+          <p className="text-xs text-destructive">{field.issue}</p>
+        )}
       </div>
       <ConfidenceBadge confidence={field.confidence} />
     </div>
   );
 }
 
+interface BookingFileDropZoneProps {
+  onFile: (file: File) => void;
+  isUploading: boolean;
+}
+
+function BookingFileDropZone({ onFile, isUploading }: BookingFileDropZoneProps) {
+  const inputRef = React.useRef<HTMLInputElement>(null);
+  const [isDragging, setIsDragging] = React.useState(false);
+
+  const handleFiles = (files: FileList | null) => {
+    const file = files?.[0];
+    if (file) onFile(file);
+  };
+
+  return (
+    <div
+      role="button"
+      tabIndex={0}
+      aria-disabled={isUploading}
+      onClick={() => !isUploading && inputRef.current?.click()}
+      onKeyDown={(e) => {
+        if ((e.key === 'Enter' || e.key === ' ') && !isUploading) {
+          e.preventDefault();
+          inputRef.current?.click();
+        }
+      }}
+      onDragOver={(e) => {
+        e.preventDefault();
+        setIsDragging(true);
+      }}
+      onDragLeave={() => setIsDragging(false)}
+      onDrop={(e) => {
+        e.preventDefault();
+        setIsDragging(false);
+        if (!isUploading) handleFiles(e.dataTransfer.files);
+      }}
+      className={cn(
+        'flex flex-col items-center justify-center gap-2 rounded-lg border-2 border-dashed p-6 text-center cursor-pointer transition-colors',
+        isDragging ? 'border-primary bg-primary/5' : 'border-border hover:bg-muted/50',
+        isUploading && 'cursor-wait opacity-60'
+      )}
+    >
+      {isUploading ? (
+        <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+      ) : (
+        <Upload className="h-6 w-6 text-muted-foreground" />
+      )}
+      <p className="text-sm font-medium">
+        {isUploading ? 'Importing...' : 'Drop your confirmation email (.eml), e-ticket (.pdf) or Wallet pass here'}
+      </p>
+      <p className="text-xs text-muted-foreground">
+        Save the email from your mail app, or drag it straight in. An e-ticket also fills in coach and seat on a
+        booking you have already added. Click to browse.
+      </p>
+      <input
+        ref={inputRef}
+        type="file"
+        accept=".eml,message/rfc822,.pdf,application/pdf,.pkpass,.pkpasses"
+        className="hidden"
+        onChange={(e) => {
+          handleFiles(e.target.files);
+          e.target.value = '';
+        }}
+      />
+    </div>
+  );
+}
+
+function ForwardingAddress() {
+  const { data } = useInboundAddress();
+
+  if (!data) return null;
+
+  return (
+    <div className="rounded-lg border bg-muted/50 p-3">
+      <div className="flex items-center gap-2">
+        <Forward className="h-4 w-4 shrink-0 text-muted-foreground" />
+        <div className="min-w-0 flex-1">
+          <p className="text-sm font-medium">Forward confirmations to</p>
+          <p className="truncate font-mono text-sm">{data.address}</p>
+        </div>
+        <CopyButton value={data.address} label="Forwarding address" />
+      </div>
+      <p className="mt-1 text-xs text-muted-foreground">
+        Bookings are added automatically and we&apos;ll email you when each one is in.
+      </p>
+    </div>
+  );
+}
+
 export function ImportBookingDialog({ trigger }: ImportBookingDialogProps) {
   const [open, setOpen] = React.useState(false);
   const [activeTab, setActiveTab] = React.useState<'email' | 'manual'>('email');
   const [emailBody, setEmailBody] = React.useState('');
   const [parsedPreview, setParsedPreview] = React.useState<ParsedBookingPreview | null>(null);
   const [showPreview, setShowPreview] = React.useState(false);
+  // Fields filled from the email that the user must check
+  const [reviewFields, setReviewFields] = React.useState<ParsedFieldName[]>([]);
 
   // Manual form state
   const [calendarOpen, setCalendarOpen] = React.useState(false);
@@ -134,6 +249,8 @@ export function ImportBookingDialog({ trigger }: ImportBookingDialogProps) {
   const tcnField = useFormField('', validateTcn);
   const trainNumberField = useFormField('', validateTrainNumber);
   const passengerNameField = useFormField('', (v) => !v ? 'Passenger name is required' : undefined);
+  const ticketPriceField = useFormField('', validateTicketPrice);
+  const [currency, setCurrency] = React.useState<Currency>('GBP');
 
   const [origin, setOrigin] = React.useState('');
   const [originTouched, setOriginTouched] = React.useState(false);
@@ -143,6 +260,13 @@ export function ImportBookingDialog({ trigger }: ImportBookingDialogProps) {
   const [dateTouched, setDateTouched] = React.useState(false);
 
   const createBooking = useCreateBooking();
+  const parseEmail = useParseEmailPreview();
+  const importEml = useImportBookingEml();
+  const importPdf = useImportBookingPdf();
+  const importPkpass = useImportBookingPkpass();
+
+  // A field needing review stays outlined until the user has been through it
+  const needsReview = (name: ParsedFieldName, touched: boolean) => !touched && reviewFields.includes(name);
 
   // Validation helpers
   const originError = originTouched && !origin ? 'Departure station is required' : undefined;
@@ -155,12 +279,13 @@ export function ImportBookingDialog({ trigger }: ImportBookingDialogProps) {
       !validatePnr(pnrField.value) &&
       !validateTcn(tcnField.value) &&
       !validateTrainNumber(trainNumberField.value) &&
+      !validateTicketPrice(ticketPriceField.value) &&
       passengerNameField.value &&
       !!origin &&
       !!destination &&
       !!journeyDate
     );
-  }, [pnrField.value, tcnField.value, trainNumberField.value, passengerNameField.value, origin, destination, journeyDate]);
+  }, [pnrField.value, tcnField.value, trainNumberField.value, ticketPriceField.value, passengerNameField.value, origin, destination, journeyDate]);
 
   // Format handlers
   const handlePnrChange = (value: string) => {
@@ -175,31 +300,71 @@ export function ImportBookingDialog({ trigger }: ImportBookingDialogProps) {
     trainNumberField.handleChange(value.replace(/\D/g, '').slice(0, 4));
   };
 
-  // Parse email when content changes
-  const handleParseEmail = () => {
+  // Parse the pasted email with the server's parser, without saving it
+  const handleParseEmail = async () => {
     if (!emailBody.trim()) {
       showError('Email required', 'Please paste your confirmation email');
       return;
     }
 
-    const preview = parseEmailPreview(emailBody);
-    setParsedPreview(preview);
-    setShowPreview(true);
+    try {
+      const preview = await parseEmail.mutateAsync(emailBody);
+      setParsedPreview(preview);
+      setShowPreview(true);
+    } catch (error) {
+      showError('Failed to read email', error instanceof Error ? error.message : 'An unexpected error occurred');
+    }
+  };
+
+  // Save the booking exactly as previewed, with every passenger and journey
+  const handleImportEmail = async () => {
+    setIsSubmitting(true);
+    try {
+      const booking = await createBooking.mutateAsync({ emailBody });
+      showSuccess('Booking added', `Booking ${booking.pnr} has been imported`);
+      setOpen(false);
+    } catch (error) {
+      showError('Failed to add booking', error instanceof Error ? error.message : 'An unexpected error occurred');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  // Import an uploaded .eml file, PDF e-ticket or Wallet pass directly; the server reads the file
+  const handleBookingFile = async (file: File) => {
+    const name = file.name.toLowerCase();
+    const [importer, kind] =
+      file.type === 'application/pdf' || name.endsWith('.pdf')
+        ? [importPdf, 'e-ticket']
+        : name.endsWith('.pkpass') || name.endsWith('.pkpasses')
+          ? [importPkpass, 'pass']
+          : [importEml, 'email'];
+    try {
+      const booking = await importer.mutateAsync(file);
+      showSuccess('Booking added', `Booking ${booking.pnr} has been imported from ${file.name}`);
+      setOpen(false);
+    } catch (error) {
+      showError(`Failed to import ${kind}`, error instanceof Error ? error.message : 'An unexpected error occurred');
+    }
   };
 
   // Populate manual form from parsed preview
   const populateFromPreview = () => {
     if (!parsedPreview) return;
-
-    if (parsedPreview.pnr.value) pnrField.handleChange(parsedPreview.pnr.value);
-    if (parsedPreview.tcn.value) tcnField.handleChange(parsedPreview.tcn.value);
-    if (parsedPreview.trainNumber.value) trainNumberField.handleChange(parsedPreview.trainNumber.value);
-    if (parsedPreview.passengerName.value) passengerNameField.handleChange(parsedPreview.passengerName.value);
-    if (parsedPreview.origin.value) setOrigin(parsedPreview.origin.value);
-    if (parsedPreview.destination.value) setDestination(parsedPreview.destination.value);
-    if (parsedPreview.journeyDate.value) {
-      setJourneyDate(new Date(parsedPreview.journeyDate.value + 'T00:00:00'));
+    const { fields } = parsedPreview;
+
+    if (fields.pnr.value) pnrField.handleChange(fields.pnr.value);
+    if (fields.tcn.value) tcnField.handleChange(fields.tcn.value);
+    if (fields.trainNumber.value) trainNumberField.handleChange(fields.trainNumber.value);
+    if (fields.passengerName.value) passengerNameField.handleChange(fields.passengerName.value);
+    if (fields.origin.value) setOrigin(fields.origin.value);
+    if (fields.destination.value) setDestination(fields.destination.value);
+    if (fields.journeyDate.value) {
+      setJourneyDate(new Date(fields.journeyDate.value + 'T00:00:00'));
     }
+    if (fields.ticketPrice.value !== null) ticketPriceField.handleChange(fields.ticketPrice.value.toFixed(2));
+    if (fields.currency.value) setCurrency(fields.currency.value);
+    setReviewFields(parsedPreview.needsReview);
 
     setActiveTab('manual');
     setShowPreview(false);
@@ -209,10 +374,13 @@ export function ImportBookingDialog({ trigger }: ImportBookingDialogProps) {
     setEmailBody('');
     setParsedPreview(null);
     setShowPreview(false);
+    setReviewFields([]);
     pnrField.reset();
     tcnField.reset();
     trainNumberField.reset();
     passengerNameField.reset();
+    ticketPriceField.reset();
+    setCurrency('GBP');
     setOrigin('');
     setOriginTouched(false);
     setDestination('');
@@ -230,18 +398,19 @@ export function ImportBookingDialog({ trigger }: ImportBookingDialogProps) {
     const tcnValid = tcnField.validateField();
     const trainValid = trainNumberField.validateField();
     const passengerValid = passengerNameField.validateField();
+    const priceValid = ticketPriceField.validateField();
     setOriginTouched(true);
     setDestinationTouched(true);
     setDateTouched(true);
 
-    if (!pnrValid || !tcnValid || !trainValid || !passengerValid || !origin || !destination || !journeyDate) {
+    if (!pnrValid || !tcnValid || !trainValid || !passengerValid || !priceValid || !origin || !destination || !journeyDate) {
       return;
     }
 
     setIsSubmitting(true);
 
     try {
-      const booking = await createBooking.mutateAsync({
+      const requestData: CreateBookingManualRequest = {
         pnr: pnrField.value,
         tcn: tcnField.value,
         trainNumber: trainNumberField.value,
@@ -249,7 +418,13 @@ export function ImportBookingDialog({ trigger }: ImportBookingDialogProps) {
         passengerName: passengerNameField.value,
         origin,
         destination,
-      });
+      };
+      if (ticketPriceField.value) {
+        requestData.ticketPrice = Math.round(Number(ticketPriceField.value.replace(',', '.')) * 100) / 100;
+        requestData.currency = currency;
+      }
+
+      const booking = await createBooking.mutateAsync(requestData);
 
       showSuccess('Booking added', `Booking ${booking.pnr} has been added successfully`);
       resetForm();
@@ -296,8 +471,13 @@ export function ImportBookingDialog({ trigger }: ImportBookingDialogProps) {
           <TabsContent value="email" className="mt-4 space-y-4">
             {!showPreview ? (
               <>
+                <ForwardingAddress />
+                <BookingFileDropZone
+                  onFile={(file) => void handleBookingFile(file)}
+                  isUploading={importEml.isPending || importPdf.isPending || importPkpass.isPending}
+                />
                 <div className="space-y-2">
-                  <Label htmlFor="emailBody">Paste Confirmation Email</Label>
+                  <Label htmlFor="emailBody">Or Paste Confirmation Email</Label>
                   <Textarea
                     id="emailBody"
                     placeholder="Paste your Eurostar confirmation email here..."
@@ -309,28 +489,68 @@ export function ImportBookingDialog({ trigger }: ImportBookingDialogProps) {
                     We&apos;ll extract booking details automatically. You can review and edit before saving.
                   </p>
                 </div>
-                <Button onClick={handleParseEmail} disabled={!emailBody.trim()} className="w-full">
-                  Parse Email
+                <Button
+                  onClick={() => void handleParseEmail()}
+                  disabled={!emailBody.trim() || parseEmail.isPending}
+                  className="w-full"
+                >
+                  {parseEmail.isPending ? (
+                    <>
+                      <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                      Reading email...
+                    </>
+                  ) : (
+                    'Parse Email'
+                  )}
                 </Button>
               </>
             ) : parsedPreview && (
               <div className="space-y-4">
                 <div className="rounded-lg border bg-muted/50 p-4">
-                  <h4 className="font-medium mb-3">Extracted Details</h4>
+                  <h4 className="font-medium mb-3">
+                    Extracted Details
+                    {parsedPreview.language !== 'en' && (
+                      <span className="ml-2 text-xs font-normal text-muted-foreground">
+                        ({LANGUAGE_NAMES[parsedPreview.language]} email)
+                      </span>
+                    )}
+                  </h4>
                   <div className="space-y-1">
-                    <ParsedFieldDisplay label="PNR" field={parsedPreview.pnr} required />
-                    <ParsedFieldDisplay label="TCN" field={parsedPreview.tcn} required />
-                    <ParsedFieldDisplay label="Train Number" field={parsedPreview.trainNumber} required />
-                    <ParsedFieldDisplay label="Journey Date" field={parsedPreview.journeyDate} required />
-                    <ParsedFieldDisplay label="Passenger Name" field={parsedPreview.passengerName} />
-                    <ParsedFieldDisplay label="Origin" field={parsedPreview.origin} required />
-                    <ParsedFieldDisplay label="Destination" field={parsedPreview.destination} required />
-                    <ParsedFieldDisplay label="Coach" field={parsedPreview.coach} />
-                    <ParsedFieldDisplay label="Seat" field={parsedPreview.seat} />
+                    <ParsedFieldDisplay label="PNR" field={parsedPreview.fields.pnr} required />
+                    <ParsedFieldDisplay label="TCN" field={parsedPreview.fields.tcn} required />
+                    <ParsedFieldDisplay label="Train Number" field={parsedPreview.fields.trainNumber} required />
+                    <ParsedFieldDisplay label="Journey Date" field={parsedPreview.fields.journeyDate} required />
+                    <ParsedFieldDisplay label="Passenger Name" field={parsedPreview.fields.passengerName} required />
+                    <ParsedFieldDisplay label="Origin" field={parsedPreview.fields.origin} required />
+                    <ParsedFieldDisplay label="Destination" field={parsedPreview.fields.destination} required />
+                    <ParsedFieldDisplay label="Coach" field={parsedPreview.fields.coach} />
+                    <ParsedFieldDisplay label="Seat" field={parsedPreview.fields.seat} />
+                    <ParsedFieldDisplay label="Ticket Price" field={parsedPreview.fields.ticketPrice} />
+                    <ParsedFieldDisplay label="Currency" field={parsedPreview.fields.currency} />
                   </div>
+                  {(parsedPreview.passengerCount > 1 || parsedPreview.legCount > 1) && (
+                    <p className="mt-3 text-xs text-muted-foreground">
+                      {parsedPreview.passengerCount} passenger{parsedPreview.passengerCount === 1 ? '' : 's'},{' '}
+                      {parsedPreview.legCount} journey{parsedPreview.legCount === 1 ? '' : 's'}. The details above
+                      are the lead passenger&apos;s first journey.
+                    </p>
+                  )}
                 </div>
 
-                {!canImport(parsedPreview) && (
+                {parsedPreview.duplicates.length > 0 && (
+                  <div className="rounded-lg border border-amber-500/50 bg-amber-500/10 p-3">
+                    <p className="text-sm text-amber-800 dark:text-amber-200 flex items-center gap-2">
+                      <AlertCircle className="h-4 w-4 shrink-0" />
+                      Already in your bookings:{' '}
+                      {parsedPreview.duplicates
+                        .map((booking) => `${booking.pnr} on train ${booking.trainNumber}, ${booking.journeyDate}`)
+                        .join('; ')}
+                      .
+                    </p>
+                  </div>
+                )}
+
+                {!parsedPreview.canImport && (
                   <div className="rounded-lg border border-destructive/50 bg-destructive/10 p-3">
                     <p className="text-sm text-destructive flex items-center gap-2">
                       <AlertCircle className="h-4 w-4" />
@@ -343,9 +563,25 @@ export function ImportBookingDialog({ trigger }: ImportBookingDialogProps) {
                   <Button variant="outline" onClick={() => setShowPreview(false)} className="flex-1">
                     Back
                   </Button>
-                  <Button onClick={populateFromPreview} className="flex-1">
-                    {canImport(parsedPreview) ? 'Review & Confirm' : 'Fill Missing Fields'}
-                  </Button>
+                  {parsedPreview.canImport ? (
+                    <>
+                      <Button variant="outline" onClick={populateFromPreview} className="flex-1">
+                        Edit Details
+                      </Button>
+                      <Button
+                        onClick={() => void handleImportEmail()}
+                        disabled={isSubmitting || parsedPreview.duplicates.length > 0}
+                        className="flex-1"
+                      >
+                        {isSubmitting ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : null}
+                        Import Booking
+                      </Button>
+                    </>
+                  ) : (
+                    <Button onClick={populateFromPreview} className="flex-1">
+                      Fill Missing Fields
+                    </Button>
+                  )}
                 </div>
               </div>
             )}
@@ -353,6 +589,15 @@ export function ImportBookingDialog({ trigger }: ImportBookingDialogProps) {
 
           <TabsContent value="manual" className="mt-4">
             <form onSubmit={(e) => void onSubmit(e)} className="space-y-4">
+              {reviewFields.length > 0 && (
+                <div className="rounded-lg border border-amber-500/50 bg-amber-500/10 p-3">
+                  <p className="text-sm text-amber-800 dark:text-amber-200 flex items-center gap-2">
+                    <AlertCircle className="h-4 w-4" />
+                    Check the highlighted fields: they couldn&apos;t be read reliably from your email.
+                  </p>
+                </div>
+              )}
+
               {/* PNR Field */}
               <FormField
                 label="PNR (Booking Reference)"
@@ -361,6 +606,7 @@ export function ImportBookingDialog({ trigger }: ImportBookingDialogProps) {
                 className="uppercase"
                 helperText="6 characters, e.g., ABC123"
                 showSuccessState
+                highlight={needsReview('pnr', pnrField.touched)}
                 {...pnrField.fieldProps}
                 onChange={handlePnrChange}
               />
@@ -373,6 +619,7 @@ export function ImportBookingDialog({ trigger }: ImportBookingDialogProps) {
                 className="uppercase"
                 helperText="Starts with IV or 15 followed by 9 digits"
                 showSuccessState
+                highlight={needsReview('tcn', tcnField.touched)}
                 {...tcnField.fieldProps}
                 onChange={handleTcnChange}
               />
@@ -385,6 +632,7 @@ export function ImportBookingDialog({ trigger }: ImportBookingDialogProps) {
                 inputMode="numeric"
                 helperText="4-digit train number, e.g., 9024"
                 showSuccessState
+                highlight={needsReview('trainNumber', trainNumberField.touched)}
                 {...trainNumberField.fieldProps}
                 onChange={handleTrainNumberChange}
               />
@@ -401,6 +649,7 @@ export function ImportBookingDialog({ trigger }: ImportBookingDialogProps) {
                       className={cn(
                         'w-full justify-start text-left font-normal',
                         !journeyDate && 'text-muted-foreground',
+                        needsReview('journeyDate', dateTouched) && 'border-amber-500',
                         dateTouched && !journeyDate && 'border-destructive'
                       )}
                       onBlur={() => setDateTouched(true)}
@@ -438,6 +687,7 @@ export function ImportBookingDialog({ trigger }: ImportBookingDialogProps) {
                 required
                 placeholder="John Smith"
                 showSuccessState
+                highlight={needsReview('passengerName', passengerNameField.touched)}
                 {...passengerNameField.fieldProps}
               />
 
@@ -456,6 +706,7 @@ export function ImportBookingDialog({ trigger }: ImportBookingDialogProps) {
                     }}
                     placeholder="Select station"
                     error={!!originError}
+                    className={cn(needsReview('origin', originTouched) && 'border-amber-500')}
                     onBlur={() => setOriginTouched(true)}
                   />
                   <div
@@ -481,6 +732,7 @@ export function ImportBookingDialog({ trigger }: ImportBookingDialogProps) {
                     }}
                     placeholder="Select station"
                     error={!!destinationError}
+                    className={cn(needsReview('destination', destinationTouched) && 'border-amber-500')}
                     onBlur={() => setDestinationTouched(true)}
                   />
                   <div
@@ -494,6 +746,31 @@ export function ImportBookingDialog({ trigger }: ImportBookingDialogProps) {
                 </div>
               </div>
 
+              {/* Fare Fields - Two columns */}
+              <div className="grid grid-cols-2 gap-4">
+                <FormField
+                  label="Ticket Price"
+                  placeholder="120.50"
+                  inputMode="decimal"
+                  helperText="Fare paid for this passenger"
+                  highlight={needsReview('ticketPrice', ticketPriceField.touched)}
+                  {...ticketPriceField.fieldProps}
+                />
+
+                <div className="space-y-2">
+                  <Label htmlFor="currency">Currency</Label>
+                  <Select value={currency} onValueChange={(value) => setCurrency(value as Currency)}>
+                    <SelectTrigger id="currency">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="GBP">GBP (£)</SelectItem>
+                      <SelectItem value="EUR">EUR (€)</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </div>
+              </div>
+
               <DialogFooter className="pt-4">
                 <Button
                   type="button"
@@ -39,11 +39,16 @@ export function ClaimCard({ claim, booking }: ClaimCardProps) {
           <div className="flex items-center justify-between">
             <div className="flex items-center gap-1 text-sm text-muted-foreground">
               <Clock className="h-3 w-3" />
-              <span>{claim.delayMinutes} min delay</span>
+              <span>
+              {claim.claimType === 'cancellation'
+                ? 'Cancelled'
+                : `${claim.delayMinutes} min delay`}
+            </span>
             </div>
             <CompensationBadge
               cashAmount={claim.eligibleCashAmount}
               voucherAmount={claim.eligibleVoucherAmount}
+              currency={claim.currency}
             />
           </div>
 
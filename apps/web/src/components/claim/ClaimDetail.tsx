@@ -9,12 +9,17 @@ import {
   ArrowRight,
   Train,
   AlertTriangle,
+  Ban,
   Banknote,
   Gift,
   Calendar,
   FileSearch,
   CheckCircle2,
   Circle,
+  Send,
+  XCircle,
+  Download,
+  type LucideIcon,
 } from 'lucide-react';
 import { useState } from 'react';
 import {
@@ -34,9 +39,18 @@ import {
   SelectValue,
 } from '@/components/ui/select';
 import { CopyButton } from '@/components/common/CopyButton';
-import { useMarkClaimSubmitted } from '@/lib/queries';
+import { ClaimOutcome } from '@/components/claim/ClaimOutcome';
+import { ClaimEvidence } from '@/components/claim/ClaimEvidence';
+import { useClaimHistory, useMarkClaimSubmitted } from '@/lib/queries';
 import { showSuccess, showError } from '@/lib/notifications';
-import { getStationName, type ClaimDetailResponse } from '@/lib/api';
+import { exportBlob } from '@/lib/export';
+import {
+  fetchClaimPackPdf,
+  getStationName,
+  type ClaimDetailResponse,
+  type ClaimStatus,
+  type ClaimStatusEventResponse,
+} from '@/lib/api';
 import Link from 'next/link';
 import { cn } from '@/lib/utils';
 
@@ -49,9 +63,66 @@ const EUROSTAR_CLAIM_URL =
 
 type CompensationType = 'cash' | 'voucher';
 
+interface TimelineEvent {
+  label: string;
+  date: string | null;
+  detail?: string | null;
+  completed: boolean;
+  icon: LucideIcon;
+}
+
+const STATUS_EVENTS: Record<ClaimStatus, { label: string; icon: LucideIcon }> = {
+  pending: { label: 'Claim pending', icon: FileSearch },
+  eligible: { label: 'Claim eligible', icon: CheckCircle2 },
+  submitted: { label: 'Claim submitted', icon: Send },
+  approved: { label: 'Claim approved', icon: CheckCircle2 },
+  rejected: { label: 'Claim rejected', icon: XCircle },
+  expired: { label: 'Claim expired', icon: Clock },
+  withdrawn: { label: 'Claim withdrawn', icon: Ban },
+};
+
+/**
+ * Turns the claim's status history into timeline entries, followed by the
+ * step still to come for a claim that isn't settled.
+ */
+function buildTimeline(
+  claim: ClaimDetailResponse,
+  history: ClaimStatusEventResponse[]
+): TimelineEvent[] {
+  const events: TimelineEvent[] = [
+    {
+      label: 'Booking added',
+      date: claim.booking.createdAt,
+      completed: true,
+      icon: Calendar,
+    },
+    ...history.map((event) => ({
+      ...STATUS_EVENTS[event.toStatus],
+      date: event.createdAt,
+      detail: [
+        event.note,
+        event.actor === 'user' ? 'by you' : event.actor === 'email' ? "from Eurostar's email" : null,
+      ]
+        .filter(Boolean)
+        .join(' · '),
+      completed: true,
+    })),
+  ];
+
+  if (claim.status === 'pending' || claim.status === 'eligible') {
+    events.push({ label: 'Claim submitted', date: null, completed: false, icon: Circle });
+  } else if (claim.status === 'submitted') {
+    events.push({ label: 'Eurostar decision', date: null, completed: false, icon: Circle });
+  }
+
+  return events;
+}
+
 export function ClaimDetail({ claim }: ClaimDetailProps) {
   const markSubmitted = useMarkClaimSubmitted();
+  const { data: history } = useClaimHistory(claim.id);
   const [allCopied, setAllCopied] = useState(false);
+  const [isDownloadingPdf, setIsDownloadingPdf] = useState(false);
   const [compensationType, setCompensationType] =
     useState<CompensationType>('cash');
 
@@ -91,6 +162,18 @@ export function ClaimDetail({ claim }: ClaimDetailProps) {
     }
   };
 
+  const handleDownloadPdf = async () => {
+    setIsDownloadingPdf(true);
+    try {
+      const pdf = await fetchClaimPackPdf(claim.id);
+      exportBlob(pdf, `eurostar-claim-${claim.booking.pnr}.pdf`);
+    } catch (error) {
+      showError('Failed to download PDF', error instanceof Error ? error.message : 'Please try again');
+    } finally {
+      setIsDownloadingPdf(false);
+    }
+  };
+
   // Calculate compensation percentage based on delay
   const getCompensationPercentage = (delayMinutes: number): number => {
     if (delayMinutes >= 180) return 50; // 3+ hours: 50% voucher, 25% cash
@@ -104,34 +187,9 @@ export function ClaimDetail({ claim }: ClaimDetailProps) {
     compensationType === 'cash'
       ? claim.eligibleCashAmount
       : claim.eligibleVoucherAmount;
+  const currencySymbol = claim.currency === 'GBP' ? '£' : '€';
 
-  // Timeline events
-  const timelineEvents = [
-    {
-      label: 'Booking added',
-      date: claim.booking.createdAt,
-      completed: true,
-      icon: Calendar,
-    },
-    {
-      label: 'Delay detected',
-      date: claim.createdAt,
-      completed: true,
-      icon: FileSearch,
-    },
-    {
-      label: 'Claim eligible',
-      date: claim.createdAt,
-      completed: claim.status !== 'pending',
-      icon: CheckCircle2,
-    },
-    {
-      label: 'Claim submitted',
-      date: claim.submittedAt,
-      completed: !!claim.submittedAt,
-      icon: claim.submittedAt ? CheckCircle2 : Circle,
-    },
-  ];
+  const timelineEvents = buildTimeline(claim, history ?? []);
 
   return (
     <div className="space-y-6">
@@ -167,6 +225,14 @@ export function ClaimDetail({ claim }: ClaimDetailProps) {
                 {format(new Date(claim.createdAt), 'HH:mm')}
               </CardDescription>
             </div>
+            <Button
+              variant="outline"
+              onClick={() => void handleDownloadPdf()}
+              disabled={isDownloadingPdf}
+            >
+              <Download className="mr-2 h-4 w-4" />
+              {isDownloadingPdf ? 'Preparing PDF...' : 'Download PDF'}
+            </Button>
           </div>
         </CardHeader>
       </Card>
@@ -214,10 +280,14 @@ export function ClaimDetail({ claim }: ClaimDetailProps) {
               <AlertTriangle className="h-5 w-5 text-destructive" />
               <div>
                 <p className="font-semibold text-destructive">
-                  {claim.delayMinutes} minute delay
+                  {claim.claimType === 'cancellation'
+                    ? 'Train cancelled'
+                    : `${claim.delayMinutes} minute delay`}
                 </p>
                 <p className="text-sm text-muted-foreground">
-                  {claim.delayMinutes >= 180
+                  {claim.claimType === 'cancellation'
+                    ? 'Full refund, or re-route on another train at no extra cost'
+                    : claim.delayMinutes >= 180
                     ? 'Severe delay (3+ hours)'
                     : claim.delayMinutes >= 120
                       ? 'Major delay (2-3 hours)'
@@ -312,7 +382,7 @@ export function ClaimDetail({ claim }: ClaimDetailProps) {
                 <span className="text-sm font-medium">Cash</span>
               </div>
               <p className="text-2xl font-bold text-green-700 dark:text-green-400">
-                €{claim.eligibleCashAmount.toFixed(2)}
+                {currencySymbol}{claim.eligibleCashAmount.toFixed(2)}
               </p>
             </div>
             <div
@@ -328,7 +398,7 @@ export function ClaimDetail({ claim }: ClaimDetailProps) {
                 <span className="text-sm font-medium">Voucher</span>
               </div>
               <p className="text-2xl font-bold text-blue-700 dark:text-blue-400">
-                €{claim.eligibleVoucherAmount.toFixed(2)}
+                {currencySymbol}{claim.eligibleVoucherAmount.toFixed(2)}
               </p>
             </div>
           </div>
@@ -338,7 +408,7 @@ export function ClaimDetail({ claim }: ClaimDetailProps) {
             <p className="text-sm text-muted-foreground mb-1">
               Your selected compensation
             </p>
-            <p className="text-3xl font-bold">€{selectedAmount.toFixed(2)}</p>
+            <p className="text-3xl font-bold">{currencySymbol}{selectedAmount.toFixed(2)}</p>
             <p className="text-sm text-muted-foreground mt-1">
               {compensationType === 'cash'
                 ? 'Bank transfer or original payment method'
@@ -429,7 +499,12 @@ export function ClaimDetail({ claim }: ClaimDetailProps) {
         </CardContent>
       </Card>
 
-      {/* 5. Timeline/History Section */}
+      {/* 5. Eurostar Decision Card */}
+      {(claim.status === 'submitted' ||
+        claim.status === 'approved' ||
+        claim.status === 'rejected') && <ClaimOutcome claim={claim} />}
+
+      {/* 6. Timeline/History Section */}
       <Card>
         <CardHeader>
           <CardTitle className="flex items-center gap-2 text-base">
@@ -466,6 +541,9 @@ export function ClaimDetail({ claim }: ClaimDetailProps) {
                       >
                         {event.label}
                       </p>
+                      {event.detail && (
+                        <p className="text-sm">{event.detail}</p>
+                      )}
                       {event.date && (
                         <p className="text-sm text-muted-foreground">
                           {format(
@@ -488,6 +566,9 @@ export function ClaimDetail({ claim }: ClaimDetailProps) {
           </div>
         </CardContent>
       </Card>
+
+      {/* 7. Delay Evidence */}
+      <ClaimEvidence claimId={claim.id} />
     </div>
   );
 }
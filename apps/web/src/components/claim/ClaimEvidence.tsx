@@ -0,0 +1,102 @@
+'use client';
+
+import { format } from 'date-fns';
+import { Download, FileText, ShieldCheck } from 'lucide-react';
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { useClaimEvidence } from '@/lib/queries';
+import { exportToJSON, exportToText } from '@/lib/export';
+
+interface ClaimEvidenceProps {
+  claimId: string;
+}
+
+/**
+ * The delay evidence frozen when the claim was created, to download as
+ * JSON or as a readable report if Eurostar disputes the delay.
+ */
+export function ClaimEvidence({ claimId }: ClaimEvidenceProps) {
+  const { data, isLoading, isError } = useClaimEvidence(claimId);
+
+  const filename = `claim-${claimId.slice(0, 8)}-evidence`;
+
+  const handleDownloadJSON = () => {
+    if (!data) return;
+    const { claimId: id, hashAlgorithm, contentHash, evidence } = data;
+    exportToJSON({ claimId: id, hashAlgorithm, contentHash, evidence }, filename);
+  };
+
+  const handleDownloadReport = () => {
+    if (!data) return;
+    exportToText(data.report, filename);
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2 text-base">
+          <ShieldCheck className="h-4 w-4" />
+          Delay Evidence
+        </CardTitle>
+        <CardDescription>
+          The live train data recorded when this claim was created, kept in case Eurostar disputes the delay
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {isLoading ? (
+          <div className="h-16 rounded-lg bg-muted/50 animate-pulse" />
+        ) : isError || !data ? (
+          <p className="text-sm text-muted-foreground">
+            No delay evidence was recorded for this claim.
+          </p>
+        ) : (
+          <>
+            <div className="space-y-3">
+              <div className="flex items-center justify-between text-sm">
+                <span className="text-muted-foreground">Recorded</span>
+                <span className="font-medium">
+                  {format(new Date(data.evidence.capturedAt), 'dd MMM yyyy, HH:mm')}
+                </span>
+              </div>
+              <div className="flex items-center justify-between text-sm">
+                <span className="text-muted-foreground">Live feed updates</span>
+                <span className="font-medium">{data.evidence.feed.observationCount}</span>
+              </div>
+              <div className="flex items-center justify-between text-sm">
+                <span className="text-muted-foreground">Stations</span>
+                <span className="font-medium">{data.evidence.stops.length}</span>
+              </div>
+              <div className="flex items-center justify-between text-sm">
+                <span className="text-muted-foreground">Service alerts</span>
+                <span className="font-medium">{data.evidence.alerts.length}</span>
+              </div>
+              <div className="flex items-center justify-between gap-4 text-sm">
+                <span className="text-muted-foreground">SHA-256</span>
+                <span className="truncate font-mono text-xs" title={data.contentHash}>
+                  {data.contentHash}
+                </span>
+              </div>
+            </div>
+
+            <div className="grid gap-2 sm:grid-cols-2">
+              <Button variant="outline" onClick={handleDownloadReport}>
+                <FileText className="mr-2 h-4 w-4" />
+                Download Report
+              </Button>
+              <Button variant="outline" onClick={handleDownloadJSON}>
+                <Download className="mr-2 h-4 w-4" />
+                Download JSON
+              </Button>
+            </div>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,279 @@
+'use client';
+
+import { format } from 'date-fns';
+import { Banknote, Gift, Scale } from 'lucide-react';
+import { useState } from 'react';
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { useRecordClaimOutcome, useUpdateClaimReference } from '@/lib/queries';
+import { showSuccess, showError } from '@/lib/notifications';
+import type { ClaimResponse, PayoutType } from '@/lib/api';
+import { cn } from '@/lib/utils';
+
+interface ClaimOutcomeProps {
+  claim: ClaimResponse;
+}
+
+type Decision = 'approved' | 'rejected';
+
+/**
+ * Eurostar's case number and decision for a submitted claim: a form while
+ * the claim awaits a decision, then the amount received against the amount
+ * expected.
+ */
+export function ClaimOutcome({ claim }: ClaimOutcomeProps) {
+  const updateReference = useUpdateClaimReference();
+  const recordOutcome = useRecordClaimOutcome();
+  const [reference, setReference] = useState(claim.eurostarReference ?? '');
+  const [decision, setDecision] = useState<Decision>('approved');
+  const [payoutType, setPayoutType] = useState<PayoutType>('cash');
+  const [amount, setAmount] = useState(claim.eligibleCashAmount.toFixed(2));
+  const [rejectionReason, setRejectionReason] = useState('');
+  const [voucherCode, setVoucherCode] = useState('');
+
+  const currencySymbol = claim.currency === 'GBP' ? '£' : '€';
+  const expectedAmount = (type: PayoutType) =>
+    type === 'cash' ? claim.eligibleCashAmount : claim.eligibleVoucherAmount;
+
+  const handlePayoutTypeChange = (value: PayoutType) => {
+    setPayoutType(value);
+    setAmount(expectedAmount(value).toFixed(2));
+  };
+
+  const handleSaveReference = async () => {
+    try {
+      await updateReference.mutateAsync({
+        id: claim.id,
+        eurostarReference: reference.trim() || null,
+      });
+      showSuccess('Case number saved');
+    } catch (error) {
+      showError('Failed to save case number', error instanceof Error ? error.message : 'Please try again');
+    }
+  };
+
+  const handleRecordOutcome = async () => {
+    const receivedAmount = Number(amount);
+    if (decision === 'approved' && (amount.trim() === '' || Number.isNaN(receivedAmount) || receivedAmount < 0)) {
+      showError('Invalid amount', 'Enter the amount Eurostar paid');
+      return;
+    }
+
+    try {
+      await recordOutcome.mutateAsync({
+        id: claim.id,
+        data: {
+          decision,
+          ...(decision === 'approved'
+            ? {
+                receivedAmount,
+                payoutType,
+                ...(payoutType === 'voucher' && voucherCode.trim() ? { voucherCode: voucherCode.trim() } : {}),
+              }
+            : rejectionReason.trim()
+              ? { rejectionReason: rejectionReason.trim() }
+              : {}),
+          ...(reference.trim() ? { eurostarReference: reference.trim() } : {}),
+        },
+      });
+      showSuccess(decision === 'approved' ? 'Payout recorded' : 'Rejection recorded');
+    } catch (error) {
+      showError('Failed to record decision', error instanceof Error ? error.message : 'Please try again');
+    }
+  };
+
+  const isDecided = claim.status === 'approved' || claim.status === 'rejected';
+  const difference =
+    claim.receivedAmount !== null && claim.payoutType !== null
+      ? claim.receivedAmount - expectedAmount(claim.payoutType)
+      : null;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2 text-base">
+          <Scale className="h-4 w-4" />
+          Eurostar Decision
+        </CardTitle>
+        <CardDescription>
+          {isDecided
+            ? 'What Eurostar decided on this claim'
+            : 'Record the outcome once Eurostar replies to your claim'}
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {/* Case number */}
+        <div className="space-y-2">
+          <Label htmlFor="eurostarReference">Eurostar case number</Label>
+          <div className="flex gap-2">
+            <Input
+              id="eurostarReference"
+              value={reference}
+              maxLength={32}
+              placeholder="e.g. 12345678"
+              onChange={(e) => setReference(e.target.value)}
+            />
+            <Button
+              variant="outline"
+              onClick={() => void handleSaveReference()}
+              disabled={
+                updateReference.isPending ||
+                reference.trim() === (claim.eurostarReference ?? '')
+              }
+            >
+              {updateReference.isPending ? 'Saving...' : 'Save'}
+            </Button>
+          </div>
+        </div>
+
+        {claim.status === 'submitted' && (
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label>Decision</Label>
+              <Select value={decision} onValueChange={(value: Decision) => setDecision(value)}>
+                <SelectTrigger className="w-full">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="approved">Approved</SelectItem>
+                  <SelectItem value="rejected">Rejected</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+
+            {decision === 'approved' ? (
+              <div className="grid gap-4 sm:grid-cols-2">
+                <div className="space-y-2">
+                  <Label>Paid as</Label>
+                  <Select value={payoutType} onValueChange={handlePayoutTypeChange}>
+                    <SelectTrigger className="w-full">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="cash">Cash refund</SelectItem>
+                      <SelectItem value="voucher">Eurostar voucher</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="receivedAmount">Amount received ({claim.currency})</Label>
+                  <Input
+                    id="receivedAmount"
+                    type="number"
+                    min="0"
+                    step="0.01"
+                    value={amount}
+                    onChange={(e) => setAmount(e.target.value)}
+                  />
+                </div>
+                {payoutType === 'voucher' && (
+                  <div className="space-y-2 sm:col-span-2">
+                    <Label htmlFor="voucherCode">Voucher code</Label>
+                    <Input
+                      id="voucherCode"
+                      value={voucherCode}
+                      maxLength={32}
+                      placeholder="Optional"
+                      onChange={(e) => setVoucherCode(e.target.value)}
+                    />
+                  </div>
+                )}
+              </div>
+            ) : (
+              <div className="space-y-2">
+                <Label htmlFor="rejectionReason">Reason given</Label>
+                <Textarea
+                  id="rejectionReason"
+                  value={rejectionReason}
+                  maxLength={1000}
+                  placeholder="Optional"
+                  onChange={(e) => setRejectionReason(e.target.value)}
+                />
+              </div>
+            )}
+
+            <Button
+              className="w-full"
+              onClick={() => void handleRecordOutcome()}
+              disabled={recordOutcome.isPending}
+            >
+              {recordOutcome.isPending ? 'Saving...' : 'Record Decision'}
+            </Button>
+          </div>
+        )}
+
+        {claim.status === 'approved' && claim.receivedAmount !== null && claim.payoutType !== null && (
+          <div className="space-y-3">
+            <div className="flex items-center justify-between text-sm">
+              <span className="flex items-center gap-2 text-muted-foreground">
+                {claim.payoutType === 'cash' ? (
+                  <Banknote className="h-4 w-4 text-green-600" />
+                ) : (
+                  <Gift className="h-4 w-4 text-blue-600" />
+                )}
+                Received as {claim.payoutType === 'cash' ? 'cash' : 'a voucher'}
+              </span>
+              <span className="font-medium">
+                {currencySymbol}{claim.receivedAmount.toFixed(2)}
+              </span>
+            </div>
+            <div className="flex items-center justify-between text-sm">
+              <span className="text-muted-foreground">Expected</span>
+              <span className="font-medium">
+                {currencySymbol}{expectedAmount(claim.payoutType).toFixed(2)}
+              </span>
+            </div>
+            {claim.voucherCode && (
+              <div className="flex items-center justify-between text-sm">
+                <span className="text-muted-foreground">Voucher code</span>
+                <span className="font-mono font-medium">{claim.voucherCode}</span>
+              </div>
+            )}
+            {difference !== null && Math.abs(difference) >= 0.005 && (
+              <p
+                className={cn(
+                  'rounded-lg p-3 text-sm',
+                  difference < 0
+                    ? 'bg-destructive/10 text-destructive'
+                    : 'bg-green-50 text-green-700 dark:bg-green-950 dark:text-green-400'
+                )}
+              >
+                {difference < 0
+                  ? `Eurostar paid ${currencySymbol}${Math.abs(difference).toFixed(2)} less than expected`
+                  : `Eurostar paid ${currencySymbol}${difference.toFixed(2)} more than expected`}
+              </p>
+            )}
+          </div>
+        )}
+
+        {claim.status === 'rejected' && (
+          <p className="text-sm">
+            {claim.rejectionReason ?? 'Eurostar gave no reason for the rejection.'}
+          </p>
+        )}
+
+        {claim.decidedAt && (
+          <p className="text-sm text-center text-muted-foreground">
+            Decided on {format(new Date(claim.decidedAt), 'dd MMM yyyy')}
+          </p>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
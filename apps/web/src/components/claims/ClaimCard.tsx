@@ -26,6 +26,7 @@ const statusConfig: Record<ClaimStatus, { label: string; variant: 'default' | 's
   approved: { label: 'Approved', variant: 'success' },
   rejected: { label: 'Rejected', variant: 'destructive' },
   expired: { label: 'Expired', variant: 'secondary' },
+  withdrawn: { label: 'Withdrawn', variant: 'outline' },
 };
 
 function ClaimStatusBadge({ status }: { status: ClaimStatus }) {
@@ -58,11 +59,16 @@ export function ClaimCard({ claim, onSubmit, isSubmitting }: ClaimCardProps) {
         <div className="flex items-center justify-between">
           <div className="flex items-center gap-1 text-sm text-muted-foreground">
             <Clock className="h-3 w-3" />
-            <span>{claim.delayMinutes} min delay</span>
+            <span>
+              {claim.claimType === 'cancellation'
+                ? 'Cancelled'
+                : `${claim.delayMinutes} min delay`}
+            </span>
           </div>
           <CompensationBadge
             cashAmount={claim.eligibleCashAmount}
             voucherAmount={claim.eligibleVoucherAmount}
+            currency={claim.currency}
           />
         </div>
 
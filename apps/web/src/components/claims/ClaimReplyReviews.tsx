@@ -0,0 +1,228 @@
+'use client';
+
+import { useState } from 'react';
+import { format } from 'date-fns';
+import { Inbox } from 'lucide-react';
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { useApplyClaimReplyReview, useClaimReplyReviews, useDismissClaimReplyReview } from '@/lib/queries';
+import { showSuccess, showError } from '@/lib/notifications';
+import type {
+  ClaimReplyReviewReason,
+  ClaimReplyReviewResponse,
+  ClaimResponse,
+  Currency,
+  PayoutType,
+} from '@/lib/api';
+
+const REASON_LABELS: Record<ClaimReplyReviewReason, string> = {
+  no_match: "We couldn't find the claim this reply is about.",
+  ambiguous: 'This reply could be about more than one of your claims.',
+  incomplete: "The email doesn't say how much Eurostar paid, or how.",
+  invalid_status: "The claim's status doesn't allow this reply to be applied.",
+  unverified_sender: "We couldn't confirm this email came from Eurostar. Check it before applying it.",
+};
+
+const KIND_LABELS: Record<ClaimReplyReviewResponse['reply']['kind'], string> = {
+  acknowledged: 'Claim acknowledged',
+  approved: 'Claim approved',
+  rejected: 'Claim rejected',
+};
+
+const AWAITING_DECISION = ['pending', 'eligible', 'submitted'];
+
+const formatAmount = (amount: number, currency: Currency) =>
+  `${currency === 'GBP' ? '£' : '€'}${amount.toFixed(2)}`;
+
+interface ClaimReplyReviewsProps {
+  // Offered when a reply matched none of the user's claims
+  claims: ClaimResponse[];
+}
+
+/**
+ * Eurostar replies that couldn't be applied automatically, each waiting for
+ * the user to pick its claim or dismiss it.
+ */
+export function ClaimReplyReviews({ claims }: ClaimReplyReviewsProps) {
+  const { data: reviews } = useClaimReplyReviews();
+
+  if (!reviews || reviews.length === 0) {
+    return null;
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2 text-base">
+          <Inbox className="h-4 w-4" />
+          Eurostar Replies to Review
+        </CardTitle>
+        <CardDescription>
+          These replies couldn&apos;t be matched to a claim automatically
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="divide-y">
+        {reviews.map((review) => (
+          <ClaimReplyReviewItem key={review.id} review={review} claims={claims} />
+        ))}
+      </CardContent>
+    </Card>
+  );
+}
+
+interface ClaimReplyReviewItemProps {
+  review: ClaimReplyReviewResponse;
+  claims: ClaimResponse[];
+}
+
+function ClaimReplyReviewItem({ review, claims }: ClaimReplyReviewItemProps) {
+  const applyReview = useApplyClaimReplyReview();
+  const dismissReview = useDismissClaimReplyReview();
+  const { reply } = review;
+
+  const options =
+    review.candidates.length > 0
+      ? review.candidates.map((candidate) => ({
+          id: candidate.claimId,
+          label: `${candidate.passengerName} (${candidate.pnr}) · ${formatAmount(candidate.eligibleCashAmount, candidate.currency)}`,
+        }))
+      : claims
+          .filter((claim) => AWAITING_DECISION.includes(claim.status))
+          .map((claim) => ({
+            id: claim.id,
+            label: `${format(new Date(claim.createdAt), 'dd MMM yyyy')} · ${claim.delayMinutes} min delay · ${formatAmount(claim.eligibleCashAmount, claim.currency)}`,
+          }));
+
+  const [claimId, setClaimId] = useState(options.length === 1 ? options[0]!.id : '');
+  const [payoutType, setPayoutType] = useState<PayoutType>(reply.payoutType ?? 'cash');
+  const [amount, setAmount] = useState(reply.amount !== null ? reply.amount.toFixed(2) : '');
+
+  // An approval needs the payout the email didn't give
+  const needsPayout = review.reason === 'incomplete';
+
+  const handleApply = async () => {
+    const receivedAmount = Number(amount);
+    if (needsPayout && (amount.trim() === '' || Number.isNaN(receivedAmount) || receivedAmount < 0)) {
+      showError('Invalid amount', 'Enter the amount Eurostar paid');
+      return;
+    }
+
+    try {
+      await applyReview.mutateAsync({
+        id: review.id,
+        data: { claimId, ...(needsPayout && { receivedAmount, payoutType }) },
+      });
+      showSuccess('Claim updated', "The claim now shows Eurostar's reply");
+    } catch (error) {
+      showError('Failed to apply reply', error instanceof Error ? error.message : 'Please try again');
+    }
+  };
+
+  const handleDismiss = async () => {
+    try {
+      await dismissReview.mutateAsync(review.id);
+    } catch (error) {
+      showError('Failed to dismiss reply', error instanceof Error ? error.message : 'Please try again');
+    }
+  };
+
+  return (
+    <div className="space-y-3 py-4 first:pt-0 last:pb-0">
+      <div>
+        <p className="text-sm font-medium">
+          {KIND_LABELS[reply.kind]}
+          {reply.caseReference && ` · case ${reply.caseReference}`}
+          {reply.pnr && ` · booking ${reply.pnr}`}
+        </p>
+        <p className="text-sm text-muted-foreground">
+          {review.subject ? `${review.subject} · ` : ''}
+          received {format(new Date(review.createdAt), 'dd MMM yyyy')}
+        </p>
+        <p className="text-sm text-muted-foreground">{REASON_LABELS[review.reason]}</p>
+      </div>
+
+      {options.length > 0 ? (
+        <div className="space-y-2">
+          <Label>Claim</Label>
+          <Select value={claimId} onValueChange={setClaimId}>
+            <SelectTrigger className="w-full">
+              <SelectValue placeholder="Choose the claim" />
+            </SelectTrigger>
+            <SelectContent>
+              {options.map((option) => (
+                <SelectItem key={option.id} value={option.id}>
+                  {option.label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      ) : (
+        <p className="text-sm text-muted-foreground">None of your claims are awaiting a decision.</p>
+      )}
+
+      {needsPayout && (
+        <div className="grid gap-4 sm:grid-cols-2">
+          <div className="space-y-2">
+            <Label>Paid as</Label>
+            <Select value={payoutType} onValueChange={(value: PayoutType) => setPayoutType(value)}>
+              <SelectTrigger className="w-full">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="cash">Cash refund</SelectItem>
+                <SelectItem value="voucher">Eurostar voucher</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor={`reply-amount-${review.id}`}>Amount received</Label>
+            <Input
+              id={`reply-amount-${review.id}`}
+              type="number"
+              min="0"
+              step="0.01"
+              value={amount}
+              onChange={(e) => setAmount(e.target.value)}
+            />
+          </div>
+        </div>
+      )}
+
+      <div className="flex justify-end gap-2">
+        <Button
+          variant="outline"
+          size="sm"
+          onClick={() => void handleDismiss()}
+          disabled={dismissReview.isPending}
+        >
+          Dismiss
+        </Button>
+        {options.length > 0 && (
+          <Button
+            size="sm"
+            onClick={() => void handleApply()}
+            disabled={!claimId || applyReview.isPending}
+          >
+            {applyReview.isPending ? 'Applying...' : 'Apply to Claim'}
+          </Button>
+        )}
+      </div>
+    </div>
+  );
+}
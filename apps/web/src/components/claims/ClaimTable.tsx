@@ -36,6 +36,7 @@ const statusConfig: Record<ClaimStatus, { label: string; variant: 'default' | 's
   approved: { label: 'Approved', variant: 'success' },
   rejected: { label: 'Rejected', variant: 'destructive' },
   expired: { label: 'Expired', variant: 'secondary' },
+  withdrawn: { label: 'Withdrawn', variant: 'outline' },
 };
 
 function ClaimStatusBadge({ status }: { status: ClaimStatus }) {
@@ -158,12 +159,15 @@ export function ClaimTable({ claims, onSubmit, isSubmitting }: ClaimTableProps)
               )}
             </TableCell>
             <TableCell>
-              <span className="font-medium">{claim.delayMinutes} min</span>
+              <span className="font-medium">
+                {claim.claimType === 'cancellation' ? 'Cancelled' : `${claim.delayMinutes} min`}
+              </span>
             </TableCell>
             <TableCell>
               <CompensationBadge
                 cashAmount={claim.eligibleCashAmount}
                 voucherAmount={claim.eligibleVoucherAmount}
+                currency={claim.currency}
               />
             </TableCell>
             <TableCell>
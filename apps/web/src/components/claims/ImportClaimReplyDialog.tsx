@@ -0,0 +1,95 @@
+'use client';
+
+import * as React from 'react';
+import { Loader2, MailOpen } from 'lucide-react';
+
+import { Button } from '@/components/ui/button';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from '@/components/ui/dialog';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { showSuccess, showError } from '@/lib/notifications';
+import { useImportClaimReply } from '@/lib/queries';
+
+interface ImportClaimReplyDialogProps {
+  trigger?: React.ReactNode;
+}
+
+export function ImportClaimReplyDialog({ trigger }: ImportClaimReplyDialogProps) {
+  const [open, setOpen] = React.useState(false);
+  const [content, setContent] = React.useState('');
+
+  const importReply = useImportClaimReply();
+
+  const handleImport = async () => {
+    try {
+      const result = await importReply.mutateAsync(content);
+      if (result.status === 'updated') {
+        showSuccess('Claim updated', "The claim now shows Eurostar's reply");
+      } else if (result.status === 'unchanged') {
+        showSuccess('Already up to date', 'The claim already shows what this email says');
+      } else {
+        showSuccess('Reply needs your review', 'Pick the claim it is about from the list on this page');
+      }
+      setOpen(false);
+    } catch (error) {
+      showError('Failed to read email', error instanceof Error ? error.message : 'An unexpected error occurred');
+    }
+  };
+
+  // Reset when the dialog closes
+  React.useEffect(() => {
+    if (!open) {
+      setContent('');
+    }
+  }, [open]);
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>
+        {trigger ?? (
+          <Button variant="outline" size="sm" className="min-h-[44px]">
+            <MailOpen className="h-4 w-4 mr-2" />
+            Eurostar Reply
+          </Button>
+        )}
+      </DialogTrigger>
+      <DialogContent className="sm:max-w-[600px] max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Import a Reply from Eurostar</DialogTitle>
+          <DialogDescription>
+            Paste an email from Eurostar customer care acknowledging, approving or rejecting a claim. The claim it is
+            about is updated for you. Emails forwarded to your inbound address are handled the same way.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="claim-reply-content">Email</Label>
+            <Textarea
+              id="claim-reply-content"
+              rows={10}
+              value={content}
+              placeholder="Paste the whole email, including the booking reference and case number"
+              onChange={(e) => setContent(e.target.value)}
+            />
+          </div>
+
+          <DialogFooter>
+            <Button onClick={() => void handleImport()} disabled={!content.trim() || importReply.isPending}>
+              {importReply.isPending ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : null}
+              Import Reply
+            </Button>
+          </DialogFooter>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
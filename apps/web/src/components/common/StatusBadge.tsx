@@ -1,7 +1,7 @@
 import { Badge } from '@/components/ui/badge';
 import type { ClaimStatus } from '@/lib/api';
 
-export type BookingStatus = 'monitoring' | 'delayed' | 'eligible' | 'claimed';
+export type BookingStatus = 'monitoring' | 'delayed' | 'eligible' | 'claimed' | 'cancelled';
 
 interface StatusBadgeProps {
   status: ClaimStatus | BookingStatus | 'on_time' | 'unknown';
@@ -15,12 +15,14 @@ const statusConfig: Record<string, StatusConfig> = {
   delayed: { label: 'Delayed', variant: 'warning' },
   eligible: { label: 'Eligible', variant: 'success' },
   claimed: { label: 'Claimed', variant: 'purple' },
+  cancelled: { label: 'Cancelled', variant: 'destructive' },
   // Claim statuses
   pending: { label: 'Pending', variant: 'secondary' },
   submitted: { label: 'Submitted', variant: 'info' },
   approved: { label: 'Approved', variant: 'success' },
   rejected: { label: 'Rejected', variant: 'destructive' },
   expired: { label: 'Expired', variant: 'secondary' },
+  withdrawn: { label: 'Withdrawn', variant: 'outline' },
   // Other statuses
   on_time: { label: 'On Time', variant: 'success' },
   unknown: { label: 'Unknown', variant: 'outline' },
@@ -15,11 +15,13 @@ import {
 } from 'recharts';
 import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '@/components/ui/card';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
-import type { ClaimResponse, BookingResponse } from '@/lib/api';
+import type { ClaimResponse, BookingResponse, ClaimsSummaryResponse } from '@/lib/api';
 
 interface AnalyticsChartProps {
   claims: ClaimResponse[];
   bookings: BookingResponse[];
+  /** Totals converted into one currency by the API */
+  summary?: ClaimsSummaryResponse | undefined;
 }
 
 interface MonthlyData {
@@ -74,14 +76,14 @@ function aggregateDelayFrequency(bookings: BookingResponse[]): DelayData[] {
   }));
 }
 
-export function AnalyticsChart({ claims, bookings }: AnalyticsChartProps) {
+export function AnalyticsChart({ claims, bookings, summary }: AnalyticsChartProps) {
   const monthlyData = useMemo(() => aggregateClaimsByMonth(claims), [claims]);
   const delayData = useMemo(() => aggregateDelayFrequency(bookings), [bookings]);
 
-  const totalCompensation = useMemo(
-    () => claims.reduce((sum, c) => sum + c.eligibleCashAmount, 0),
-    [claims]
-  );
+  // Claims can be in EUR or GBP, so only show a total once the API has converted them
+  const totalCompensation = summary?.totalCashAmount ?? 0;
+  const totalSymbol = summary?.currency === 'GBP' ? '£' : '€';
+  const payouts = summary?.payouts;
 
   const hasData = claims.length > 0 || bookings.some((b) => b.finalDelayMinutes !== null && b.finalDelayMinutes > 0);
 
@@ -109,7 +111,17 @@ export function AnalyticsChart({ claims, bookings }: AnalyticsChartProps) {
           Track your claims and compensation over time
           {totalCompensation > 0 && (
             <span className="ml-2 text-green-600 dark:text-green-400 font-medium">
-              Total: €{totalCompensation.toFixed(2)}
+              Total: {totalSymbol}{totalCompensation.toFixed(2)}
+            </span>
+          )}
+          {payouts && payouts.count > 0 && (
+            <span className="block mt-1">
+              Received {totalSymbol}{payouts.receivedAmount.toFixed(2)} of {totalSymbol}
+              {payouts.expectedAmount.toFixed(2)} expected across {payouts.count} paid{' '}
+              {payouts.count === 1 ? 'claim' : 'claims'}
+              {payouts.underpaidCount > 0 && (
+                <span className="ml-1 text-destructive">({payouts.underpaidCount} underpaid)</span>
+              )}
             </span>
           )}
         </CardDescription>
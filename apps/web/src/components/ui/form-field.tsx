@@ -16,6 +16,8 @@ export interface FormFieldProps extends Omit<InputProps, 'onChange'> {
   onChange?: ((value: string) => void) | undefined;
   onBlur?: (() => void) | undefined;
   touched?: boolean | undefined;
+  /** Outline the field for the user to check, e.g. a value guessed from an email */
+  highlight?: boolean | undefined;
   rightElement?: React.ReactNode | undefined;
 }
 
@@ -33,6 +35,7 @@ const FormField = React.forwardRef<HTMLInputElement, FormFieldProps>(
       onChange,
       onBlur,
       touched = false,
+      highlight = false,
       rightElement,
       ...props
     },
@@ -63,6 +66,7 @@ const FormField = React.forwardRef<HTMLInputElement, FormFieldProps>(
             className={cn(
               showError && 'border-destructive focus-visible:ring-destructive pr-10',
               showSuccess && 'border-green-500 focus-visible:ring-green-500 pr-10',
+              highlight && !showError && !showSuccess && 'border-amber-500 focus-visible:ring-amber-500',
               rightElement && 'pr-10',
               className
             )}
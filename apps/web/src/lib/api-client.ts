@@ -29,6 +29,8 @@ export interface RequestOptions extends Omit<RequestInit, 'body'> {
   body?: unknown;
   params?: Record<string, string | number | boolean | undefined>;
   timeoutMs?: number;
+  // Files such as PDFs are read as a Blob instead of the JSON envelope
+  responseType?: 'json' | 'blob';
 }
 
 interface ApiResponse<T> {
@@ -120,25 +122,28 @@ async function request<T>(
   options: RequestOptions = {},
   retryOnAuth = true
 ): Promise<ApiResponse<T>> {
-  const { body, params, timeoutMs = DEFAULT_TIMEOUT_MS, ...fetchOptions } = options;
+  const { body, params, timeoutMs = DEFAULT_TIMEOUT_MS, responseType = 'json', ...fetchOptions } = options;
 
   const url = buildUrl(endpoint, params);
 
   const controller = new AbortController();
   const timeoutId = setTimeout(() => controller.abort(), timeoutMs);
 
+  // Blobs (file uploads) are sent as-is with their own content type
+  const isBlob = body instanceof Blob;
+
   const config: RequestInit = {
     ...fetchOptions,
     credentials: 'include',
     signal: controller.signal,
     headers: {
-      'Content-Type': 'application/json',
+      'Content-Type': isBlob ? body.type || 'application/octet-stream' : 'application/json',
       ...fetchOptions.headers,
     },
   };
 
   if (body !== undefined) {
-    config.body = JSON.stringify(body);
+    config.body = isBlob ? body : JSON.stringify(body);
   }
 
   let response: Response;
@@ -199,6 +204,10 @@ async function request<T>(
     return { data: undefined as T };
   }
 
+  if (responseType === 'blob') {
+    return { data: (await response.blob()) as T };
+  }
+
   return response.json() as Promise<ApiResponse<T>>;
 }
 
@@ -241,6 +250,19 @@ export const apiClient = {
   delete<T>(endpoint: string) {
     return request<T>(endpoint, { method: 'DELETE' });
   },
+
+  upload<T>(endpoint: string, file: Blob, contentType?: string) {
+    const body = contentType ? new Blob([file], { type: contentType }) : file;
+    return request<T>(endpoint, { method: 'POST', body });
+  },
+
+  download(endpoint: string, params?: Record<string, string | number | boolean | undefined>) {
+    const options: RequestOptions = { method: 'GET', responseType: 'blob' };
+    if (params) {
+      options.params = params;
+    }
+    return request<Blob>(endpoint, options);
+  },
 };
 
 export default apiClient;
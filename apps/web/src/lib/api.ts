@@ -34,7 +34,13 @@ export interface BookingResponse {
   coach: string | null;
   seat: string | null;
   finalDelayMinutes: number | null;
+  cancelledAt: string | null;
+  ticketPrice: number | null;
+  ticketCurrency: Currency | null;
   trainId: string | null;
+  // Shared by the legs of a return journey (tripLeg 0 is outbound)
+  tripGroupId: string | null;
+  tripLeg: number | null;
   createdAt: string;
   updatedAt: string;
 }
@@ -42,11 +48,33 @@ export interface BookingResponse {
 export interface EligibilityStatus {
   eligible: boolean;
   reason: string;
+  claimType: ClaimType;
   failedChecks: string[];
   compensation: CompensationResult | null;
   deadline: string | null;
   daysUntilDeadline: number | null;
   claimWindowOpen: boolean;
+  policy: AppliedPolicy;
+  goodwill: GoodwillAssessment | null;
+}
+
+// Goodwill request worth filing when the delay cause excludes compensation
+export interface GoodwillAssessment {
+  reason: 'extraordinary_circumstances' | 'third_party_behaviour';
+  delayCause: {
+    causes: string[];
+    source: 'manual' | 'alert';
+  };
+  voucherAmount: number;
+  currency: Currency;
+  description: string;
+}
+
+// Compensation policy an eligibility check was assessed under
+export interface AppliedPolicy {
+  id: string;
+  version: number;
+  name: string;
 }
 
 export interface CompensationResult {
@@ -60,32 +88,72 @@ export interface CompensationResult {
     cashPercentage: number;
     voucherPercentage: number;
   } | null;
-  currency: 'EUR' | 'GBP';
+  currency: Currency;
   ticketPrice: number;
   delayMinutes: number;
 }
 
+// A traveller on the booking (position 0 is the lead booker)
+export interface PassengerResponse {
+  id: string;
+  position: number;
+  passengerName: string;
+  tcn: string;
+  coach: string | null;
+  seat: string | null;
+  ticketPrice: number | null;
+  ticketCurrency: Currency | null;
+  claim: ClaimResponse | null;
+}
+
 export interface BookingDetailResponse extends BookingResponse {
   eligibility: EligibilityStatus | null;
   claim: ClaimResponse | null;
+  passengers: PassengerResponse[];
+  tripLegs: BookingResponse[];
 }
 
 // Claim types
-export type ClaimStatus = 'pending' | 'eligible' | 'submitted' | 'approved' | 'rejected' | 'expired';
+export type ClaimStatus = 'pending' | 'eligible' | 'submitted' | 'approved' | 'rejected' | 'expired' | 'withdrawn';
+export type ClaimType = 'delay' | 'cancellation';
+export type Currency = 'EUR' | 'GBP';
+export type PayoutType = 'cash' | 'voucher';
 
 export interface ClaimResponse {
   id: string;
   bookingId: string;
+  passengerId: string;
+  claimType: ClaimType;
   delayMinutes: number;
   eligibleCashAmount: number;
   eligibleVoucherAmount: number;
+  currency: Currency;
   status: ClaimStatus;
   submittedAt: string | null;
+  eurostarReference: string | null;
+  decidedAt: string | null;
+  // In the claim currency
+  receivedAmount: number | null;
+  payoutType: PayoutType | null;
+  rejectionReason: string | null;
+  voucherCode: string | null;
   createdAt: string;
   updatedAt: string;
 }
 
+export interface ClaimStatusEventResponse {
+  id: string;
+  // Null for the claim being created
+  fromStatus: ClaimStatus | null;
+  toStatus: ClaimStatus;
+  // 'email' for updates from a Eurostar reply the user forwarded
+  actor: 'user' | 'system' | 'email';
+  note: string | null;
+  createdAt: string;
+}
+
 export interface ClaimFormData {
+  claimType: ClaimType;
   pnr: string;
   tcn: string;
   firstName: string;
@@ -98,6 +166,7 @@ export interface ClaimFormData {
   delayMinutes: number;
   eligibleCashAmount: number;
   eligibleVoucherAmount: number;
+  currency: Currency;
 }
 
 export interface ClaimDetailResponse extends ClaimResponse {
@@ -106,6 +175,160 @@ export interface ClaimDetailResponse extends ClaimResponse {
   booking: BookingResponse;
 }
 
+// Every passenger's claim on a booking, for the lead booker
+export interface ClaimPackResponse {
+  bookingId: string;
+  pnr: string;
+  leadPassengerName: string;
+  email: string;
+  claims: Array<ClaimResponse & { formData: ClaimFormData; claimPortalUrl: string }>;
+  currency: Currency;
+  totalCashAmount: number;
+  totalVoucherAmount: number;
+}
+
+// Claim counts and totals, converted into one currency at journey-date rates
+export interface ClaimsSummaryResponse {
+  total: number;
+  byStatus: Record<ClaimStatus, number>;
+  currency: Currency;
+  totalCashAmount: number;
+  totalVoucherAmount: number;
+  // Approved claims with a recorded payout: expected vs received
+  payouts: {
+    count: number;
+    expectedAmount: number;
+    receivedAmount: number;
+    difference: number;
+    underpaidCount: number;
+  };
+}
+
+// Eurostar's decision on a submitted claim
+export interface RecordClaimOutcomeRequest {
+  decision: 'approved' | 'rejected';
+  receivedAmount?: number;
+  payoutType?: PayoutType;
+  rejectionReason?: string;
+  eurostarReference?: string;
+  voucherCode?: string;
+}
+
+// Delay evidence frozen when the claim was created (timestamps as ISO strings)
+export interface ClaimEvidenceResponse {
+  claimId: string;
+  hashAlgorithm: 'sha256';
+  // Hash of the evidence serialized as JSON with its keys sorted
+  contentHash: string;
+  evidence: {
+    capturedAt: string;
+    booking: { pnr: string; trainNumber: string; journeyDate: string; origin: string; destination: string };
+    claim: { claimType: ClaimType; delayMinutes: number };
+    train: {
+      tripId: string;
+      trainNumber: string;
+      date: string;
+      scheduledDeparture: string;
+      scheduledArrival: string;
+      delayMinutes: number | null;
+      scheduleRelationship: 'scheduled' | 'added' | 'canceled';
+      delayCauseOverride: string | null;
+    } | null;
+    feed: {
+      observationCount: number;
+      firstObservedAt: string | null;
+      lastObservedAt: string | null;
+      firstFeedTimestamp: string | null;
+      lastFeedTimestamp: string | null;
+    };
+    stops: Array<{
+      stationCode: string;
+      stopSequence: number | null;
+      scheduledArrival: string | null;
+      history: Array<{
+        observedAt: string;
+        feedTimestamp: string | null;
+        scheduleRelationship: 'scheduled' | 'skipped' | 'no_data';
+        arrivalDelayMinutes: number;
+        departureDelayMinutes: number;
+      }>;
+    }>;
+    alerts: Array<{
+      alertId: string;
+      cause: string;
+      effect: string;
+      headerText: Array<{ text: string; language: string | null }>;
+      descriptionText: Array<{ text: string; language: string | null }>;
+      url: string | null;
+      activePeriods: Array<{ start: string | null; end: string | null }>;
+      firstSeenAt: string;
+      lastSeenAt: string;
+    }>;
+  };
+  // The evidence as a plain text report
+  report: string;
+}
+
+// Eurostar replies to claims: what was read, and the queue of replies to review
+export type ClaimReplyKind = 'acknowledged' | 'approved' | 'rejected';
+export type ClaimReplyReviewReason = 'no_match' | 'ambiguous' | 'incomplete' | 'invalid_status' | 'unverified_sender';
+
+export interface ClaimReplyImportResponse {
+  status: 'updated' | 'unchanged' | 'needs_review';
+  claimId: string | null;
+  reviewId: string | null;
+}
+
+export interface ClaimReplyReviewResponse {
+  id: string;
+  reason: ClaimReplyReviewReason;
+  subject: string | null;
+  reply: {
+    kind: ClaimReplyKind;
+    caseReference: string | null;
+    pnr: string | null;
+    amount: number | null;
+    currency: Currency | null;
+    payoutType: PayoutType | null;
+    voucherCode: string | null;
+    rejectionReason: string | null;
+  };
+  // Claims the reply might be about; empty when none matched
+  candidates: Array<{
+    claimId: string;
+    pnr: string;
+    passengerName: string;
+    status: ClaimStatus;
+    eligibleCashAmount: number;
+    eligibleVoucherAmount: number;
+    currency: Currency;
+  }>;
+  createdAt: string;
+}
+
+export interface ApplyClaimReplyReviewRequest {
+  claimId: string;
+  receivedAmount?: number;
+  payoutType?: PayoutType;
+}
+
+// Disruption types (GTFS-RT service alerts)
+export interface DisruptionResponse {
+  id: string;
+  alertId: string;
+  cause: string;
+  effect: string;
+  header: string | null;
+  description: string | null;
+  url: string | null;
+  activePeriods: Array<{ start: string | null; end: string | null }>;
+  affectedTripIds: string[];
+  affectedStops: string[];
+  isActive: boolean;
+  firstSeenAt: string;
+  lastSeenAt: string;
+}
+
 // Request types
 export interface CreateBookingFromEmailRequest {
   emailBody: string;
@@ -121,10 +344,23 @@ export interface CreateBookingManualRequest {
   destination: string;
   coach?: string;
   seat?: string;
+  ticketPrice?: number;
+  currency?: Currency;
 }
 
 export type CreateBookingRequest = CreateBookingFromEmailRequest | CreateBookingManualRequest;
 
+// Only the fields given are changed; passenger, coach and seat are the lead booker's
+export interface UpdateBookingRequest {
+  trainNumber?: string;
+  journeyDate?: string;
+  origin?: string;
+  destination?: string;
+  passengerName?: string;
+  coach?: string | null;
+  seat?: string | null;
+}
+
 // API functions
 export async function fetchBookings(params?: { page?: number; limit?: number }): Promise<SuccessResponse<BookingResponse[]>> {
   const response = await apiClient.get<BookingResponse[]>('/bookings', params);
@@ -140,11 +376,155 @@ export async function fetchBooking(id: string): Promise<BookingDetailResponse> {
   return response.data;
 }
 
+export async function fetchClaimPack(bookingId: string): Promise<ClaimPackResponse> {
+  const response = await apiClient.get<ClaimPackResponse>(`/bookings/${bookingId}/claim-pack`);
+  return response.data;
+}
+
 export async function createBooking(data: CreateBookingRequest): Promise<BookingResponse> {
   const response = await apiClient.post<BookingResponse>('/bookings', data);
   return response.data;
 }
 
+export type EmailLanguage = 'en' | 'fr' | 'nl' | 'de';
+
+// One field read from a confirmation email, with how sure the parser is of it
+export interface ParsedField<T> {
+  value: T | null;
+  confidence: 'high' | 'medium' | 'low' | 'none';
+  pattern: string | null;
+  // The line of the email the value was read from
+  snippet: string | null;
+  // Why the value can't be used as it is
+  issue: string | null;
+}
+
+export interface ParsedBookingPreview {
+  language: EmailLanguage;
+  fields: {
+    pnr: ParsedField<string>;
+    tcn: ParsedField<string>;
+    trainNumber: ParsedField<string>;
+    journeyDate: ParsedField<string>;
+    passengerName: ParsedField<string>;
+    origin: ParsedField<string>;
+    destination: ParsedField<string>;
+    coach: ParsedField<string>;
+    seat: ParsedField<string>;
+    ticketPrice: ParsedField<number>;
+    currency: ParsedField<Currency>;
+  };
+  // Fields that are missing, guessed or invalid
+  needsReview: Array<keyof ParsedBookingPreview['fields']>;
+  // Whether the email would be imported as it is
+  canImport: boolean;
+  passengerCount: number;
+  legCount: number;
+  error: { code: string; message: string; field: string | null } | null;
+  // Existing bookings the import would duplicate
+  duplicates: BookingResponse[];
+}
+
+export async function parseEmailPreview(emailBody: string): Promise<ParsedBookingPreview> {
+  // Dry run of the server's parser; nothing is saved
+  const response = await apiClient.post<ParsedBookingPreview>('/bookings/parse-preview', { emailBody });
+  return response.data;
+}
+
+export async function importBookingEml(file: Blob): Promise<BookingResponse> {
+  // Browsers often leave the type of .eml files empty, so set it explicitly
+  const response = await apiClient.upload<BookingResponse>('/bookings/import/eml', file, 'message/rfc822');
+  return response.data;
+}
+
+export async function importBookingPdf(file: Blob): Promise<BookingResponse> {
+  // Imports a new booking, or fills in coach and seat on an existing one with the same PNR
+  const response = await apiClient.upload<BookingResponse>('/bookings/import/pdf', file, 'application/pdf');
+  return response.data;
+}
+
+export async function importBookingPkpass(file: Blob, bundle = false): Promise<BookingResponse> {
+  const contentType = bundle ? 'application/vnd.apple.pkpasses' : 'application/vnd.apple.pkpass';
+  const response = await apiClient.upload<BookingResponse>('/bookings/import/pkpass', file, contentType);
+  return response.data;
+}
+
+export type CsvDateFormat = 'YYYY-MM-DD' | 'DD/MM/YYYY' | 'MM/DD/YYYY';
+
+export type CsvBookingField =
+  | 'pnr'
+  | 'tcn'
+  | 'trainNumber'
+  | 'journeyDate'
+  | 'passengerName'
+  | 'origin'
+  | 'destination'
+  | 'coach'
+  | 'seat'
+  | 'ticketPrice'
+  | 'currency';
+
+export interface ImportBookingsCsvRequest {
+  csv: string;
+  // Header of the column holding a field, where it isn't a usual name
+  columns?: Partial<Record<CsvBookingField, string>>;
+  dateFormat?: CsvDateFormat;
+  delimiter?: string;
+  // Check the file without saving anything
+  dryRun?: boolean;
+}
+
+export interface CsvImportBooking {
+  // Spreadsheet rows the booking was read from, the header being row 1
+  rows: number[];
+  pnr: string;
+  tcn: string;
+  passengerName: string;
+  passengerCount: number;
+  legs: Array<{ trainNumber: string; journeyDate: string; origin: string; destination: string }>;
+  // The created booking, or null on a dry run or for a duplicate
+  id: string | null;
+  // The booking already in the account with the same PNR and TCN
+  duplicateOf: string | null;
+}
+
+export interface CsvRowError {
+  row: number;
+  code: string;
+  message: string;
+  field: string | null;
+  value: string | null;
+}
+
+export interface CsvImportResponse {
+  dryRun: boolean;
+  imported: number;
+  skipped: number;
+  bookings: CsvImportBooking[];
+  errors: CsvRowError[];
+}
+
+export async function importBookingsCsv(data: ImportBookingsCsvRequest): Promise<CsvImportResponse> {
+  // Rows with errors are left out; the rest are created together
+  const response = await apiClient.post<CsvImportResponse>('/bookings/import/csv', data);
+  return response.data;
+}
+
+export interface InboundAddressResponse {
+  address: string;
+}
+
+export async function fetchInboundAddress(): Promise<InboundAddressResponse> {
+  const response = await apiClient.get<InboundAddressResponse>('/inbound/address');
+  return response.data;
+}
+
+export async function updateBooking(id: string, data: UpdateBookingRequest): Promise<BookingResponse> {
+  // A new train or date re-checks the delay and recalculates open claims
+  const response = await apiClient.patch<BookingResponse>(`/bookings/${id}`, data);
+  return response.data;
+}
+
 export async function deleteBooking(id: string): Promise<void> {
   await apiClient.delete(`/bookings/${id}`);
 }
@@ -158,16 +538,78 @@ export async function fetchClaims(params?: { page?: number; limit?: number; stat
   return result;
 }
 
+export async function fetchClaimsSummary(currency?: Currency): Promise<ClaimsSummaryResponse> {
+  const response = await apiClient.get<ClaimsSummaryResponse>('/claims/summary', { currency });
+  return response.data;
+}
+
 export async function fetchClaim(id: string): Promise<ClaimDetailResponse> {
   const response = await apiClient.get<ClaimDetailResponse>(`/claims/${id}`);
   return response.data;
 }
 
+export async function fetchClaimHistory(id: string): Promise<ClaimStatusEventResponse[]> {
+  const response = await apiClient.get<ClaimStatusEventResponse[]>(`/claims/${id}/history`);
+  return response.data;
+}
+
+export async function fetchClaimEvidence(id: string): Promise<ClaimEvidenceResponse> {
+  const response = await apiClient.get<ClaimEvidenceResponse>(`/claims/${id}/evidence`);
+  return response.data;
+}
+
+// The most claims the API puts in one combined claim pack
+export const MAX_CLAIM_PACK_CLAIMS = 50;
+
+export async function fetchClaimPackPdf(id: string): Promise<Blob> {
+  const response = await apiClient.download(`/claims/${id}/pack.pdf`);
+  return response.data;
+}
+
+export async function fetchClaimsPackPdf(ids: string[]): Promise<Blob> {
+  const response = await apiClient.download('/claims/pack.pdf', { ids: ids.join(',') });
+  return response.data;
+}
+
 export async function markClaimSubmitted(id: string): Promise<ClaimResponse> {
   const response = await apiClient.patch<ClaimResponse>(`/claims/${id}/submitted`);
   return response.data;
 }
 
+export async function updateClaimReference(id: string, eurostarReference: string | null): Promise<ClaimResponse> {
+  const response = await apiClient.patch<ClaimResponse>(`/claims/${id}`, { eurostarReference });
+  return response.data;
+}
+
+export async function recordClaimOutcome(id: string, data: RecordClaimOutcomeRequest): Promise<ClaimResponse> {
+  const response = await apiClient.post<ClaimResponse>(`/claims/${id}/outcome`, data);
+  return response.data;
+}
+
+export async function importClaimReply(content: string): Promise<ClaimReplyImportResponse> {
+  const response = await apiClient.post<ClaimReplyImportResponse>('/claim-replies', { content });
+  return response.data;
+}
+
+export async function fetchClaimReplyReviews(): Promise<ClaimReplyReviewResponse[]> {
+  const response = await apiClient.get<ClaimReplyReviewResponse[]>('/claim-replies/reviews');
+  return response.data;
+}
+
+export async function applyClaimReplyReview(id: string, data: ApplyClaimReplyReviewRequest): Promise<ClaimResponse> {
+  const response = await apiClient.post<ClaimResponse>(`/claim-replies/reviews/${id}/apply`, data);
+  return response.data;
+}
+
+export async function dismissClaimReplyReview(id: string): Promise<void> {
+  await apiClient.post(`/claim-replies/reviews/${id}/dismiss`);
+}
+
+export async function fetchDisruptions(params?: { bookingId?: string; lang?: string }): Promise<DisruptionResponse[]> {
+  const response = await apiClient.get<DisruptionResponse[]>('/disruptions', params);
+  return response.data;
+}
+
 // Station name mapping
 export const STATION_NAMES: Record<string, string> = {
   GBSPX: 'London St Pancras',
@@ -186,6 +628,14 @@ export function getStationName(code: string): string {
   return STATION_NAMES[code] || code;
 }
 
+// Label for a leg of a return journey, null for one-way bookings
+export function getTripLegLabel(booking: BookingResponse): string | null {
+  if (booking.tripLeg === null) {
+    return null;
+  }
+  return booking.tripLeg === 0 ? 'Outbound' : 'Return';
+}
+
 // User preferences types
 export type SeatPosition = 'window' | 'aisle' | 'middle';
 export type SeatDirection = 'forward' | 'backward' | 'any';
@@ -230,6 +680,22 @@ export async function updatePreferences(data: UpdatePreferencesRequest): Promise
   return response.data;
 }
 
+// Calendar API functions
+export interface CalendarFeedResponse {
+  url: string;
+}
+
+export async function fetchCalendarFeed(): Promise<CalendarFeedResponse> {
+  const response = await apiClient.get<CalendarFeedResponse>('/calendar/feed');
+  return response.data;
+}
+
+export async function resetCalendarFeed(): Promise<CalendarFeedResponse> {
+  // The old URL stops working, so existing subscriptions must be re-added
+  const response = await apiClient.post<CalendarFeedResponse>('/calendar/feed/reset');
+  return response.data;
+}
+
 // Terminal name mapping
 export const TERMINAL_NAMES: Record<Terminal, string> = {
   st_pancras: 'London St Pancras',
@@ -32,11 +32,32 @@ export function exportToCSV<T extends Record<string, unknown>>(
 /**
  * Export data to JSON format and trigger download
  */
-export function exportToJSON<T>(data: T[], filename: string): void {
+export function exportToJSON<T>(data: T, filename: string): void {
   const jsonContent = JSON.stringify(data, null, 2);
   downloadFile(jsonContent, `${filename}.json`, 'application/json');
 }
 
+/**
+ * Export plain text and trigger download
+ */
+export function exportToText(content: string, filename: string): void {
+  downloadFile(content, `${filename}.txt`, 'text/plain;charset=utf-8;');
+}
+
+/**
+ * Save a file fetched from the API, such as a PDF, and trigger download
+ */
+export function exportBlob(blob: Blob, filename: string): void {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  URL.revokeObjectURL(url);
+}
+
 /**
  * Escape a value for CSV format
  */
@@ -71,13 +92,5 @@ function downloadFile(
   filename: string,
   mimeType: string
 ): void {
-  const blob = new Blob([content], { type: mimeType });
-  const url = URL.createObjectURL(blob);
-  const link = document.createElement('a');
-  link.href = url;
-  link.download = filename;
-  document.body.appendChild(link);
-  link.click();
-  document.body.removeChild(link);
-  URL.revokeObjectURL(url);
+  exportBlob(new Blob([content], { type: mimeType }), filename);
 }
@@ -4,15 +4,40 @@ import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
 import {
   fetchBookings,
   fetchBooking,
+  fetchClaimPack,
   createBooking,
+  parseEmailPreview,
+  importBookingEml,
+  importBookingPdf,
+  importBookingPkpass,
+  importBookingsCsv,
+  fetchInboundAddress,
+  updateBooking,
   deleteBooking,
   fetchClaims,
+  fetchClaimsSummary,
   fetchClaim,
+  fetchClaimHistory,
+  fetchClaimEvidence,
   markClaimSubmitted,
+  updateClaimReference,
+  recordClaimOutcome,
+  importClaimReply,
+  fetchClaimReplyReviews,
+  applyClaimReplyReview,
+  dismissClaimReplyReview,
+  fetchDisruptions,
   fetchPreferences,
   updatePreferences,
+  fetchCalendarFeed,
+  resetCalendarFeed,
   type CreateBookingRequest,
+  type UpdateBookingRequest,
+  type ImportBookingsCsvRequest,
   type ClaimStatus,
+  type Currency,
+  type RecordClaimOutcomeRequest,
+  type ApplyClaimReplyReviewRequest,
   type UpdatePreferencesRequest,
 } from './api';
 
@@ -20,9 +45,17 @@ import {
 export const queryKeys = {
   bookings: ['bookings'] as const,
   booking: (id: string) => ['bookings', id] as const,
+  claimPack: (bookingId: string) => ['bookings', bookingId, 'claim-pack'] as const,
+  inboundAddress: ['inbound-address'] as const,
   claims: ['claims'] as const,
   claim: (id: string) => ['claims', id] as const,
+  claimHistory: (id: string) => ['claims', id, 'history'] as const,
+  claimEvidence: (id: string) => ['claims', id, 'evidence'] as const,
+  claimsSummary: (currency?: Currency) => ['claims', 'summary', currency ?? 'EUR'] as const,
+  claimReplyReviews: ['claim-replies', 'reviews'] as const,
   preferences: ['preferences'] as const,
+  calendarFeed: ['calendar-feed'] as const,
+  disruptions: (bookingId?: string) => ['disruptions', bookingId ?? 'current'] as const,
 };
 
 // Booking hooks
@@ -41,6 +74,14 @@ export function useBooking(id: string) {
   });
 }
 
+export function useClaimPack(bookingId: string, enabled = true) {
+  return useQuery({
+    queryKey: queryKeys.claimPack(bookingId),
+    queryFn: () => fetchClaimPack(bookingId),
+    enabled: !!bookingId && enabled,
+  });
+}
+
 export function useCreateBooking() {
   const queryClient = useQueryClient();
 
@@ -52,13 +93,89 @@ export function useCreateBooking() {
   });
 }
 
+export function useInboundAddress() {
+  return useQuery({
+    queryKey: queryKeys.inboundAddress,
+    queryFn: fetchInboundAddress,
+    // The forwarding routes are off on servers without an inbound domain
+    retry: false,
+    staleTime: Infinity,
+  });
+}
+
+export function useParseEmailPreview() {
+  return useMutation({
+    mutationFn: (emailBody: string) => parseEmailPreview(emailBody),
+  });
+}
+
+export function useImportBookingEml() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (file: File) => importBookingEml(file),
+    onSuccess: () => {
+      void queryClient.invalidateQueries({ queryKey: queryKeys.bookings });
+    },
+  });
+}
+
+export function useImportBookingPdf() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (file: File) => importBookingPdf(file),
+    onSuccess: () => {
+      void queryClient.invalidateQueries({ queryKey: queryKeys.bookings });
+    },
+  });
+}
+
+export function useImportBookingPkpass() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (file: File) => importBookingPkpass(file, file.name.toLowerCase().endsWith('.pkpasses')),
+    onSuccess: () => {
+      void queryClient.invalidateQueries({ queryKey: queryKeys.bookings });
+    },
+  });
+}
+
+export function useImportBookingsCsv() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (data: ImportBookingsCsvRequest) => importBookingsCsv(data),
+    onSuccess: (result) => {
+      if (!result.dryRun) {
+        void queryClient.invalidateQueries({ queryKey: queryKeys.bookings });
+      }
+    },
+  });
+}
+
+export function useUpdateBooking() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ id, data }: { id: string; data: UpdateBookingRequest }) => updateBooking(id, data),
+    onSuccess: () => {
+      void queryClient.invalidateQueries({ queryKey: queryKeys.bookings });
+      void queryClient.invalidateQueries({ queryKey: queryKeys.claims });
+    },
+  });
+}
+
 export function useDeleteBooking() {
   const queryClient = useQueryClient();
 
   return useMutation({
     mutationFn: (id: string) => deleteBooking(id),
     onSuccess: () => {
+      // Claims are deleted with their booking
       void queryClient.invalidateQueries({ queryKey: queryKeys.bookings });
+      void queryClient.invalidateQueries({ queryKey: queryKeys.claims });
     },
   });
 }
@@ -71,6 +188,13 @@ export function useClaims(params?: { page?: number; limit?: number; status?: Cla
   });
 }
 
+export function useClaimsSummary(currency?: Currency) {
+  return useQuery({
+    queryKey: queryKeys.claimsSummary(currency),
+    queryFn: () => fetchClaimsSummary(currency),
+  });
+}
+
 export function useClaim(id: string) {
   return useQuery({
     queryKey: queryKeys.claim(id),
@@ -79,6 +203,25 @@ export function useClaim(id: string) {
   });
 }
 
+export function useClaimHistory(id: string) {
+  return useQuery({
+    queryKey: queryKeys.claimHistory(id),
+    queryFn: () => fetchClaimHistory(id),
+    enabled: !!id,
+  });
+}
+
+// Evidence never changes once recorded
+export function useClaimEvidence(id: string) {
+  return useQuery({
+    queryKey: queryKeys.claimEvidence(id),
+    queryFn: () => fetchClaimEvidence(id),
+    enabled: !!id,
+    staleTime: Infinity,
+    retry: false,
+  });
+}
+
 export function useMarkClaimSubmitted() {
   const queryClient = useQueryClient();
 
@@ -91,6 +234,85 @@ export function useMarkClaimSubmitted() {
   });
 }
 
+export function useUpdateClaimReference() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ id, eurostarReference }: { id: string; eurostarReference: string | null }) =>
+      updateClaimReference(id, eurostarReference),
+    onSuccess: (_, { id }) => {
+      void queryClient.invalidateQueries({ queryKey: queryKeys.claims });
+      void queryClient.invalidateQueries({ queryKey: queryKeys.claim(id) });
+    },
+  });
+}
+
+export function useRecordClaimOutcome() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ id, data }: { id: string; data: RecordClaimOutcomeRequest }) => recordClaimOutcome(id, data),
+    onSuccess: (_, { id }) => {
+      void queryClient.invalidateQueries({ queryKey: queryKeys.claims });
+      void queryClient.invalidateQueries({ queryKey: queryKeys.claim(id) });
+      void queryClient.invalidateQueries({ queryKey: queryKeys.claimHistory(id) });
+    },
+  });
+}
+
+// Claim reply hooks
+export function useClaimReplyReviews() {
+  return useQuery({
+    queryKey: queryKeys.claimReplyReviews,
+    queryFn: fetchClaimReplyReviews,
+  });
+}
+
+export function useImportClaimReply() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (content: string) => importClaimReply(content),
+    onSuccess: () => {
+      void queryClient.invalidateQueries({ queryKey: queryKeys.claims });
+      void queryClient.invalidateQueries({ queryKey: queryKeys.claimReplyReviews });
+    },
+  });
+}
+
+export function useApplyClaimReplyReview() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ id, data }: { id: string; data: ApplyClaimReplyReviewRequest }) =>
+      applyClaimReplyReview(id, data),
+    onSuccess: () => {
+      void queryClient.invalidateQueries({ queryKey: queryKeys.claims });
+      void queryClient.invalidateQueries({ queryKey: queryKeys.claimReplyReviews });
+    },
+  });
+}
+
+export function useDismissClaimReplyReview() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: dismissClaimReplyReview,
+    onSuccess: () => {
+      void queryClient.invalidateQueries({ queryKey: queryKeys.claimReplyReviews });
+    },
+  });
+}
+
+// Disruption hooks
+export function useDisruptions(bookingId?: string) {
+  return useQuery({
+    queryKey: queryKeys.disruptions(bookingId),
+    queryFn: () => fetchDisruptions(bookingId ? { bookingId } : undefined),
+    refetchInterval: 60_000,
+  });
+}
+
 // Preferences hooks
 export function usePreferences() {
   return useQuery({
@@ -109,3 +331,23 @@ export function useUpdatePreferences() {
     },
   });
 }
+
+// Calendar hooks
+export function useCalendarFeed() {
+  return useQuery({
+    queryKey: queryKeys.calendarFeed,
+    queryFn: fetchCalendarFeed,
+    staleTime: Infinity,
+  });
+}
+
+export function useResetCalendarFeed() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: () => resetCalendarFeed(),
+    onSuccess: (data) => {
+      queryClient.setQueryData(queryKeys.calendarFeed, data);
+    },
+  });
+}
@@ -2,10 +2,30 @@
  * API integration tests.
  */
 
-import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import { describe, it, expect, beforeAll, afterAll, beforeEach, afterEach, vi } from 'vitest';
 import type { FastifyInstance } from 'fastify';
 import { createTestApp, createTestToken } from '../app.js';
 import {
+  toBookingResponse,
+  toClaimResponse,
+  toClaimStatusEventResponse,
+  toCsvImportResponse,
+  toDisruptionResponse,
+  toParsePreviewResponse,
+} from '../types.js';
+import { buildParseReport, parseBookingCsv } from '../../email-parser/index.js';
+import { ClaimGeneratorService, createClaimGeneratorError } from '../../claim-generator/index.js';
+import type { DelayMonitorService } from '../../delay-monitor/index.js';
+import { ok } from '@eurostar/core/result';
+import { getBookingChanges } from '../routes/bookings.js';
+import { toClaimException } from '../routes/claims.js';
+import { ApiException } from '../middleware/error-handler.js';
+import { createMockTrain } from '../../delay-monitor/__tests__/fixtures.js';
+import {
+  createMockBooking,
+  createMockClaim,
+  createMockDb,
+  createMockPassenger,
   validEmailBody,
   invalidEmailBody,
   testJwtPayload,
@@ -100,6 +120,15 @@ describe('API Integration Tests', () => {
 
       expect(response.statusCode).toBe(404);
     });
+
+    it('should return 404 for disruptions routes when no db', async () => {
+      const response = await app.inject({
+        method: 'GET',
+        url: '/api/v1/disruptions',
+      });
+
+      expect(response.statusCode).toBe(404);
+    });
   });
 });
 
@@ -193,6 +222,525 @@ describe('API Types', () => {
   });
 });
 
+describe('Fare in responses', () => {
+  it('exposes the booking fare as a number with its currency', () => {
+    const response = toBookingResponse(
+      createMockBooking({ ticketPrice: '120.50', ticketCurrency: 'GBP' })
+    );
+
+    expect(response.ticketPrice).toBe(120.5);
+    expect(response.ticketCurrency).toBe('GBP');
+  });
+
+  it('returns null fare when the booking has none', () => {
+    const response = toBookingResponse(
+      createMockBooking({ ticketPrice: null, ticketCurrency: null })
+    );
+
+    expect(response.ticketPrice).toBeNull();
+    expect(response.ticketCurrency).toBeNull();
+  });
+
+  it('includes the claim currency', () => {
+    expect(toClaimResponse(createMockClaim({ currency: 'GBP' })).currency).toBe('GBP');
+  });
+});
+
+describe('toDisruptionResponse', () => {
+  const alert = {
+    id: '11111111-1111-4111-8111-111111111111',
+    alertId: 'alert-001',
+    cause: 'technical_problem',
+    effect: 'significant_delays',
+    headerText: [
+      { text: 'Signalling fault near Lille', language: 'en' },
+      { text: 'Panne de signalisation près de Lille', language: 'fr' },
+    ],
+    descriptionText: [],
+    url: null,
+    activePeriods: [{ start: '2026-01-05T08:00:00.000Z', end: '2026-01-05T12:00:00.000Z' }],
+    informedEntities: [
+      { agencyId: null, routeId: null, tripId: '9007-0105', stopId: null },
+      { agencyId: null, routeId: null, tripId: '9007-0105', stopId: 'FRLIL' },
+    ],
+    firstSeenAt: new Date('2026-01-05T08:00:00Z'),
+    lastSeenAt: new Date('2026-01-05T09:00:00Z'),
+  };
+
+  it('picks the header in the requested language', () => {
+    const response = toDisruptionResponse(alert, 'fr', new Date('2026-01-05T10:00:00Z'));
+
+    expect(response.header).toBe('Panne de signalisation près de Lille');
+    expect(response.description).toBeNull();
+  });
+
+  it('flattens informed entities and reports active state', () => {
+    const response = toDisruptionResponse(alert, 'en', new Date('2026-01-05T13:00:00Z'));
+
+    expect(response.affectedTripIds).toEqual(['9007-0105']);
+    expect(response.affectedStops).toEqual(['FRLIL']);
+    expect(response.isActive).toBe(false);
+    expect(response.lastSeenAt).toBe('2026-01-05T09:00:00.000Z');
+  });
+});
+
+describe('toClaimStatusEventResponse', () => {
+  it('serialises a status change with its actor and note', () => {
+    const response = toClaimStatusEventResponse({
+      id: '22222222-2222-4222-8222-222222222222',
+      claimId: 'claim-001',
+      fromStatus: 'eligible',
+      toStatus: 'submitted',
+      actor: 'user',
+      actorUserId: 'user-001',
+      note: 'Submitted on the Eurostar portal',
+      createdAt: new Date('2026-01-08T09:30:00Z'),
+    });
+
+    expect(response).toEqual({
+      id: '22222222-2222-4222-8222-222222222222',
+      fromStatus: 'eligible',
+      toStatus: 'submitted',
+      actor: 'user',
+      note: 'Submitted on the Eurostar portal',
+      createdAt: '2026-01-08T09:30:00.000Z',
+    });
+  });
+});
+
+describe('toClaimException', () => {
+  it('maps claim service errors to HTTP errors', () => {
+    const missing = toClaimException(
+      createClaimGeneratorError('MISSING_DATA', 'Amount needed', { field: 'receivedAmount' })
+    );
+    const transition = toClaimException(createClaimGeneratorError('INVALID_STATUS_TRANSITION', 'Not submitted'));
+
+    expect(missing.statusCode).toBe(400);
+    expect(missing.code).toBe('VALIDATION_ERROR');
+    expect(transition.statusCode).toBe(422);
+    expect(toClaimException(createClaimGeneratorError('CLAIM_NOT_FOUND', 'Claim not found')).statusCode).toBe(404);
+    expect(toClaimException(createClaimGeneratorError('EVIDENCE_NOT_FOUND', 'No evidence')).code).toBe('NOT_FOUND');
+    expect(toClaimException(createClaimGeneratorError('DATABASE_ERROR', 'Failed')).statusCode).toBe(500);
+  });
+});
+
+describe('toParsePreviewResponse', () => {
+  const emailBody = validEmailBody
+    .replace('From: London St Pancras', 'Departs: London St Pancras 08:01')
+    .replace('To: Paris Gare du Nord', 'Arrives: Paris Gare du Nord 11:17');
+
+  beforeEach(() => {
+    // Journey dates must be within a year of today
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date('2026-06-01T12:00:00Z'));
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('returns the fields found with dates as YYYY-MM-DD', () => {
+    const response = toParsePreviewResponse(buildParseReport(emailBody), []);
+
+    expect(response.fields.pnr).toMatchObject({ value: 'ABC123', confidence: 'high' });
+    expect(response.fields.journeyDate).toMatchObject({
+      value: '2024-06-15',
+      issue: 'Journey date must be within one year of today',
+    });
+    expect(response.canImport).toBe(false);
+    expect(response.needsReview).toEqual(['journeyDate']);
+    expect(response.error?.code).toBe('VALIDATION_FAILED');
+  });
+
+  it('lists duplicate bookings', () => {
+    const report = buildParseReport(emailBody.replace('15 June 2024', '15 June 2026'));
+    const response = toParsePreviewResponse(report, [createMockBooking({ pnr: 'ABC123' })]);
+
+    expect(response.canImport).toBe(true);
+    expect(response.passengerCount).toBe(1);
+    expect(response.legCount).toBe(1);
+    expect(response.error).toBeNull();
+    expect(response.duplicates.map((booking) => booking.pnr)).toEqual(['ABC123']);
+  });
+});
+
+describe('toCsvImportResponse', () => {
+  const parsed = parseBookingCsv(
+    [
+      'PNR,TCN,Train,Date,Passenger,From,To',
+      'CSV123,15123456789,9014,2026-03-12,Mr John Smith,London,Paris',
+      'CSV123,15123456790,9014,2026-03-12,Mrs Jane Smith,London,Paris',
+      'DUP123,15123456791,9047,2026-03-15,Mr Bob Jones,Paris,London',
+      'BAD123,15123456792,9047,2026-03-15,Mr Tom Brown,Paris,Nowhere',
+    ].join('\n')
+  ).unwrap();
+
+  it('counts imported and skipped bookings and lists row errors', () => {
+    const [created, duplicate] = parsed.bookings;
+    const response = toCsvImportResponse(
+      [
+        { booking: created!, id: 'booking-1', duplicateOf: null },
+        { booking: duplicate!, id: null, duplicateOf: 'booking-0' },
+      ],
+      parsed.errors,
+      false
+    );
+
+    expect(response).toMatchObject({ dryRun: false, imported: 1, skipped: 1 });
+    expect(response.bookings[0]).toEqual({
+      rows: [2, 3],
+      pnr: 'CSV123',
+      tcn: '15123456789',
+      passengerName: 'Mr John Smith',
+      passengerCount: 2,
+      legs: [{ trainNumber: '9014', journeyDate: '2026-03-12', origin: 'GBSPX', destination: 'FRPLY' }],
+      id: 'booking-1',
+      duplicateOf: null,
+    });
+    expect(response.errors).toEqual([
+      {
+        row: 5,
+        code: 'VALIDATION_FAILED',
+        message: 'Unknown station "Nowhere"',
+        field: 'destination',
+        value: 'Nowhere',
+      },
+    ]);
+  });
+});
+
+describe('getBookingChanges', () => {
+  const booking = createMockBooking();
+
+  it('keeps only the values that differ', () => {
+    const changes = getBookingChanges(booking, {
+      trainNumber: '9007',
+      origin: 'gbspx',
+      coach: '8',
+      seat: null,
+    });
+
+    expect(changes.values).toEqual({ coach: '8', seat: null });
+    expect(changes.journeyChanged).toBe(false);
+  });
+
+  it('flags a new train, date or station as a journey change', () => {
+    expect(getBookingChanges(booking, { trainNumber: '9011' }).journeyChanged).toBe(true);
+    expect(getBookingChanges(booking, { journeyDate: '2024-06-16' }).values).toEqual({
+      journeyDate: new Date('2024-06-16'),
+    });
+    expect(getBookingChanges(booking, { destination: 'BEBMI' }).journeyChanged).toBe(true);
+    expect(getBookingChanges(booking, { passengerName: 'Jane Doe' }).journeyChanged).toBe(false);
+  });
+
+  it('rejects the same origin and destination', () => {
+    expect(() => getBookingChanges(booking, { destination: 'GBSPX' })).toThrow(ApiException);
+  });
+});
+
+describe('PATCH /api/v1/bookings/:id', () => {
+  const bookingId = '3c9d5e2a-1f4b-4a6c-8d7e-90a1b2c3d4e5';
+  const booking = createMockBooking({
+    id: bookingId,
+    trainId: '7a8b9c0d-1e2f-4a3b-8c4d-5e6f7a8b9c0d',
+    finalDelayMinutes: 90,
+    cancelledAt: new Date('2024-06-15T09:00:00Z'),
+  });
+  const moved = createMockBooking({ id: bookingId, trainNumber: '9011' });
+
+  async function patchBooking(
+    results: unknown[],
+    body: object,
+    options: { completed?: boolean; claimService?: ClaimGeneratorService } = {}
+  ) {
+    const { db, writes } = createMockDb(results);
+    const checkBooking = vi.fn(async () => options.completed ?? false);
+    const claimService = options.claimService ?? new ClaimGeneratorService();
+    const reevaluateClaims = options.claimService
+      ? vi.spyOn(claimService, 'reevaluateClaims')
+      : vi
+          .spyOn(claimService, 'reevaluateClaims')
+          .mockResolvedValue(ok({ updated: [], withdrawn: [] }));
+    const app = await createTestApp({
+      db,
+      mockUser: testJwtPayload,
+      services: { claimService, delayMonitor: { checkBooking } as unknown as DelayMonitorService },
+    });
+    const response = await app.inject({
+      method: 'PATCH',
+      url: `/api/v1/bookings/${bookingId}`,
+      payload: body,
+    });
+    await app.close();
+    return { response, writes, checkBooking, reevaluateClaims };
+  }
+
+  it("clears the old train's delay, matches the new train and re-evaluates claims", async () => {
+    // The booking, no filed claims, no duplicate, then the update
+    const { response, writes, checkBooking, reevaluateClaims } = await patchBooking(
+      [[booking], [], [], [moved]],
+      { trainNumber: '9011' }
+    );
+
+    expect(response.statusCode).toBe(200);
+    expect(response.json().data).toMatchObject({ trainNumber: '9011', trainId: null, cancelledAt: null });
+    expect(writes).toEqual([
+      {
+        kind: 'set',
+        value: {
+          trainNumber: '9011',
+          trainId: null,
+          finalDelayMinutes: null,
+          cancelledAt: null,
+          delayCauseOverride: null,
+        },
+      },
+    ]);
+    expect(checkBooking).toHaveBeenCalledWith(moved, expect.anything());
+    expect(reevaluateClaims).toHaveBeenCalledWith(moved, expect.anything());
+  });
+
+  it('re-evaluates claims against the delay of a new train that has already run', async () => {
+    const checked = {
+      ...moved,
+      trainId: '0d9c8b7a-6f5e-4d3c-8b2a-1f0e9d8c7b6a',
+      finalDelayMinutes: 45,
+    };
+    const { response, reevaluateClaims } = await patchBooking(
+      [[booking], [], [], [moved], [checked]],
+      { trainNumber: '9011' },
+      { completed: true }
+    );
+
+    expect(response.statusCode).toBe(200);
+    expect(response.json().data.finalDelayMinutes).toBe(45);
+    expect(reevaluateClaims).toHaveBeenCalledWith(checked, expect.anything());
+  });
+
+  it('withdraws a claim the new journey is not eligible for, recording why', async () => {
+    const claim = createMockClaim({ bookingId, status: 'eligible' });
+    const { response, writes } = await patchBooking(
+      [
+        [booking],
+        [],
+        [],
+        [moved],
+        [{ claim, passenger: createMockPassenger({ bookingId }) }],
+        [{ ...claim, status: 'withdrawn' }],
+      ],
+      { trainNumber: '9011' },
+      { claimService: new ClaimGeneratorService() }
+    );
+
+    expect(response.statusCode).toBe(200);
+    expect(writes.slice(1)).toEqual([
+      { kind: 'set', value: { status: 'withdrawn' } },
+      {
+        kind: 'values',
+        value: expect.objectContaining({
+          claimId: claim.id,
+          fromStatus: 'eligible',
+          toStatus: 'withdrawn',
+          note: "Booking changed; its delay isn't known yet",
+        }),
+      },
+    ]);
+    expect(writes.some((write) => write.kind === 'delete')).toBe(false);
+  });
+
+  it('refuses to change the journey once a claim has been submitted', async () => {
+    const { response, writes, checkBooking } = await patchBooking(
+      [[booking], [{ id: 'claim-123', status: 'submitted' }]],
+      { trainNumber: '9011' }
+    );
+
+    expect(response.statusCode).toBe(409);
+    expect(response.json().error).toMatchObject({
+      code: 'CLAIM_SUBMITTED',
+      details: { claimId: 'claim-123', status: 'submitted' },
+    });
+    expect(writes).toEqual([]);
+    expect(checkBooking).not.toHaveBeenCalled();
+  });
+
+  it('still changes the seat once a claim has been submitted', async () => {
+    const { response, writes, checkBooking } = await patchBooking(
+      [[booking], [{ ...booking, seat: '12' }]],
+      { seat: '12' }
+    );
+
+    expect(response.statusCode).toBe(200);
+    expect(writes).toEqual([
+      { kind: 'set', value: { seat: '12' } },
+      { kind: 'set', value: { seat: '12' } },
+    ]);
+    expect(checkBooking).not.toHaveBeenCalled();
+  });
+});
+
+describe('DELETE /api/v1/bookings/:id', () => {
+  const bookingId = '3c9d5e2a-1f4b-4a6c-8d7e-90a1b2c3d4e5';
+
+  async function deleteBooking(results: unknown[]) {
+    const { db, writes } = createMockDb(results);
+    const app = await createTestApp({ db, mockUser: testJwtPayload });
+    const response = await app.inject({ method: 'DELETE', url: `/api/v1/bookings/${bookingId}` });
+    await app.close();
+    return { response, writes };
+  }
+
+  it('deletes a booking whose claims are open or settled without payment', async () => {
+    const { response, writes } = await deleteBooking([[{ id: bookingId }], []]);
+
+    expect(response.statusCode).toBe(204);
+    expect(writes).toEqual([{ kind: 'delete', value: null }]);
+  });
+
+  it('keeps a booking whose claim is submitted or approved', async () => {
+    const { response, writes } = await deleteBooking([
+      [{ id: bookingId }],
+      [{ id: 'claim-123', status: 'approved' }],
+    ]);
+
+    expect(response.statusCode).toBe(409);
+    expect(response.json().error).toMatchObject({
+      code: 'CLAIM_SUBMITTED',
+      details: { claimId: 'claim-123', status: 'approved' },
+    });
+    expect(writes).toEqual([]);
+  });
+
+  it("returns 404 for another user's booking", async () => {
+    const { response, writes } = await deleteBooking([[]]);
+
+    expect(response.statusCode).toBe(404);
+    expect(writes).toEqual([]);
+  });
+});
+
+describe('PATCH /api/v1/bookings/:id/delay-cause', () => {
+  const bookingId = '3c9d5e2a-1f4b-4a6c-8d7e-90a1b2c3d4e5';
+  const booking = createMockBooking({
+    id: bookingId,
+    trainId: '7a8b9c0d-1e2f-4a3b-8c4d-5e6f7a8b9c0d',
+    finalDelayMinutes: 90,
+  });
+
+  async function patchCause(
+    results: unknown[],
+    cause: string | null,
+    claimService: ClaimGeneratorService = new ClaimGeneratorService()
+  ) {
+    const { db, writes } = createMockDb(results);
+    const reevaluateClaims = vi.spyOn(claimService, 'reevaluateClaims');
+    const app = await createTestApp({ db, mockUser: testJwtPayload, services: { claimService } });
+    const response = await app.inject({
+      method: 'PATCH',
+      url: `/api/v1/bookings/${bookingId}/delay-cause`,
+      payload: { cause },
+    });
+    await app.close();
+    return { response, writes, reevaluateClaims };
+  }
+
+  it("sets the booking's cause and re-evaluates its claims with it", async () => {
+    const updated = { ...booking, delayCauseOverride: 'weather' };
+    // The update, then no open claims to re-evaluate
+    const { response, writes, reevaluateClaims } = await patchCause([[updated], []], 'weather');
+
+    expect(response.statusCode).toBe(200);
+    expect(response.json().data).toEqual({
+      bookingId,
+      delayCauseOverride: 'weather',
+      delayCause: { causes: ['weather'], source: 'manual' },
+    });
+    expect(writes).toEqual([{ kind: 'set', value: { delayCauseOverride: 'weather' } }]);
+    expect(reevaluateClaims).toHaveBeenCalledWith(updated, expect.anything());
+  });
+
+  it('withdraws a claim an excluded cause makes ineligible', async () => {
+    const updated = { ...booking, delayCauseOverride: 'weather' };
+    const claim = createMockClaim({ bookingId, status: 'eligible' });
+    const { response, writes } = await patchCause(
+      [
+        [updated],
+        [{ claim, passenger: createMockPassenger({ bookingId }) }],
+        [{ ...claim, status: 'withdrawn' }],
+      ],
+      'weather'
+    );
+
+    expect(response.statusCode).toBe(200);
+    expect(writes.slice(1)).toEqual([
+      { kind: 'set', value: { status: 'withdrawn' } },
+      {
+        kind: 'values',
+        value: expect.objectContaining({
+          claimId: claim.id,
+          fromStatus: 'eligible',
+          toStatus: 'withdrawn',
+          note: 'Booking changed and is no longer eligible',
+        }),
+      },
+    ]);
+  });
+
+  it("clears the cause, falling back to the train's alerts", async () => {
+    const claimService = new ClaimGeneratorService();
+    vi.spyOn(claimService, 'reevaluateClaims').mockResolvedValue(ok({ updated: [], withdrawn: [] }));
+    const { response } = await patchCause(
+      [[booking], [createMockTrain({ id: booking.trainId! })], [{ cause: 'strike' }]],
+      null,
+      claimService
+    );
+
+    expect(response.statusCode).toBe(200);
+    expect(response.json().data).toMatchObject({
+      delayCauseOverride: null,
+      delayCause: { causes: ['strike'], source: 'alert' },
+    });
+  });
+
+  it('rejects causes that do not classify a delay', async () => {
+    const { response, writes, reevaluateClaims } = await patchCause([], 'unknown_cause');
+
+    expect(response.statusCode).toBe(400);
+    expect(response.json().error.code).toBe('VALIDATION_ERROR');
+    expect(writes).toEqual([]);
+    expect(reevaluateClaims).not.toHaveBeenCalled();
+  });
+
+  it("returns 404 for another user's booking", async () => {
+    const { response, reevaluateClaims } = await patchCause([[]], 'weather');
+
+    expect(response.statusCode).toBe(404);
+    expect(reevaluateClaims).not.toHaveBeenCalled();
+  });
+});
+
+describe('POST /api/v1/calendar/feed/reset', () => {
+  it('replaces the feed token with a new random one', async () => {
+    const { db, writes } = createMockDb([
+      [{ calendarToken: 'feedfeedfeedfeedfeedfeedfeedfeed' }],
+      [{ calendarToken: 'beefbeefbeefbeefbeefbeefbeefbeef' }],
+    ]);
+    const app = await createTestApp({ db, mockUser: testJwtPayload });
+
+    const response = await app.inject({ method: 'POST', url: '/api/v1/calendar/feed/reset' });
+    await app.inject({ method: 'POST', url: '/api/v1/calendar/feed/reset' });
+    await app.close();
+
+    expect(response.statusCode).toBe(200);
+    expect(response.json().data.url).toMatch(/\/api\/v1\/calendar\/feeds\/feedfeedfeedfeedfeedfeedfeedfeed\.ics$/);
+
+    const tokens = writes.map((write) => (write.value as { calendarToken: unknown }).calendarToken);
+    expect(tokens).toHaveLength(2);
+    expect(tokens[0]).toMatch(/^[0-9a-f]{32}$/);
+    expect(tokens[1]).toMatch(/^[0-9a-f]{32}$/);
+    expect(tokens[0]).not.toBe(tokens[1]);
+  });
+});
+
 describe('Response format consistency', () => {
   let app: FastifyInstance;
 
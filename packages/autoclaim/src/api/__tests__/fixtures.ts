@@ -2,7 +2,14 @@
  * Test fixtures for API tests.
  */
 
-import type { Booking, Claim, User, ClaimStatus } from '@eurostar/core/db';
+import type {
+  Booking,
+  BookingPassenger,
+  Claim,
+  Database,
+  User,
+  ClaimStatus,
+} from '@eurostar/core/db';
 
 /**
  * Create a mock user.
@@ -14,6 +21,8 @@ export function createMockUser(overrides: Partial<User> = {}): User {
     passwordHash: null,
     emailVerified: false,
     verificationToken: null,
+    inboundEmailToken: 'a1b2c3d4e5f60718293a4b5c6d7e8f90',
+    calendarToken: '0f1e2d3c4b5a69788796a5b4c3d2e1f0',
     createdAt: new Date('2024-01-01T00:00:00Z'),
     updatedAt: new Date('2024-01-01T00:00:00Z'),
     ...overrides,
@@ -38,6 +47,34 @@ export function createMockBooking(overrides: Partial<Booking> = {}): Booking {
     coach: '7',
     seat: '42',
     finalDelayMinutes: null,
+    cancelledAt: null,
+    delayCauseOverride: null,
+    ticketPrice: '100.00',
+    ticketCurrency: 'EUR',
+    tripGroupId: null,
+    tripLeg: null,
+    createdAt: new Date('2024-01-01T00:00:00Z'),
+    updatedAt: new Date('2024-01-01T00:00:00Z'),
+    ...overrides,
+  };
+}
+
+/**
+ * Create a mock booking passenger.
+ */
+export function createMockPassenger(
+  overrides: Partial<BookingPassenger> = {}
+): BookingPassenger {
+  return {
+    id: 'passenger-123',
+    bookingId: 'booking-123',
+    position: 0,
+    passengerName: 'John Doe',
+    tcn: 'IV123456789',
+    coach: '7',
+    seat: '42',
+    ticketPrice: '100.00',
+    ticketCurrency: 'EUR',
     createdAt: new Date('2024-01-01T00:00:00Z'),
     updatedAt: new Date('2024-01-01T00:00:00Z'),
     ...overrides,
@@ -51,11 +88,20 @@ export function createMockClaim(overrides: Partial<Claim> = {}): Claim {
   return {
     id: 'claim-123',
     bookingId: 'booking-123',
+    passengerId: 'passenger-123',
+    claimType: 'delay',
     delayMinutes: 75,
     eligibleCashAmount: '25.00',
     eligibleVoucherAmount: '60.00',
+    currency: 'EUR',
     status: 'eligible' as ClaimStatus,
     submittedAt: null,
+    eurostarReference: null,
+    decidedAt: null,
+    receivedAmount: null,
+    payoutType: null,
+    rejectionReason: null,
+    voucherCode: null,
     createdAt: new Date('2024-01-01T00:00:00Z'),
     updatedAt: new Date('2024-01-01T00:00:00Z'),
     ...overrides,
@@ -121,3 +167,66 @@ export const testJwtPayload = {
   userId: 'user-123',
   email: 'test@example.com',
 };
+
+/**
+ * A write made through the mock database.
+ */
+export interface MockDbWrite {
+  kind: 'set' | 'values' | 'delete';
+  value: unknown;
+}
+
+/**
+ * Create a database stand-in for route tests.
+ *
+ * Each query, however it is built, resolves to the next of the given
+ * results in the order queries are awaited (inserts and updates included);
+ * transactions run on the same queue. What set() and values() were given
+ * is kept in `writes`, and each delete() adds an entry too.
+ */
+export function createMockDb(results: unknown[]): { db: Database; writes: MockDbWrite[] } {
+  const queue = [...results];
+  const writes: MockDbWrite[] = [];
+
+  const query: object = new Proxy(
+    {},
+    {
+      get(_target, prop) {
+        if (prop === 'then') {
+          return (resolve: (value: unknown) => void, reject: (reason: unknown) => void) =>
+            Promise.resolve(queue.length > 0 ? queue.shift() : []).then(resolve, reject);
+        }
+        if (prop === 'set' || prop === 'values') {
+          return (value: unknown) => {
+            writes.push({ kind: prop, value });
+            return query;
+          };
+        }
+        return () => query;
+      },
+    }
+  );
+
+  const db: object = new Proxy(
+    {},
+    {
+      get(_target, prop) {
+        if (prop === 'then') {
+          return undefined;
+        }
+        if (prop === 'transaction') {
+          return (run: (tx: object) => Promise<unknown>) => run(db);
+        }
+        if (prop === 'delete') {
+          return () => {
+            writes.push({ kind: 'delete', value: null });
+            return query;
+          };
+        }
+        return () => query;
+      },
+    }
+  );
+
+  return { db: db as Database, writes };
+}
@@ -6,16 +6,26 @@ import Fastify, { type FastifyInstance, type FastifyServerOptions } from 'fastif
 import cors from '@fastify/cors';
 import rateLimit from '@fastify/rate-limit';
 import type { Database } from '@eurostar/core/db';
+import {
+  DatabaseExchangeRateProvider,
+  type ExchangeRateProvider,
+} from '@eurostar/core/exchange-rates';
 import { getFastifyLoggerOptions, type LoggerConfig } from '@eurostar/core/logging';
 import type { Redis } from 'ioredis';
 import { EligibilityService } from '../eligibility/index.js';
 import { ClaimGeneratorService } from '../claim-generator/index.js';
+import type { DelayMonitorService } from '../delay-monitor/index.js';
+import { NotificationService } from '../notifications/index.js';
 import { registerAuth, type AuthOptions, type JwtPayload } from './middleware/auth.js';
 import { registerErrorHandler, registerNotFoundHandler } from './middleware/error-handler.js';
 import { registerSanitization } from './middleware/sanitize.js';
 import { registerHealthRoutes } from './routes/health.js';
 import { registerBookingRoutes } from './routes/bookings.js';
 import { registerClaimsRoutes } from './routes/claims.js';
+import { registerClaimReplyRoutes } from './routes/claim-replies.js';
+import { registerDisruptionRoutes } from './routes/disruptions.js';
+import { registerCalendarRoutes } from './routes/calendar.js';
+import { registerInboundEmailRoutes } from './routes/inbound-email.js';
 import { registerSeatRoutes } from './handlers/seats.handler.js';
 import { registerQueueRoutes } from './handlers/queue.handler.js';
 import { registerAuthRoutes } from './handlers/auth.handler.js';
@@ -27,6 +37,24 @@ import { registerPreferencesRoutes } from './handlers/preferences.handler.js';
 export interface AppServices {
   eligibilityService?: EligibilityService;
   claimService?: ClaimGeneratorService;
+  /** Re-checks the delay of bookings whose journey is changed */
+  delayMonitor?: DelayMonitorService;
+  /** Historical EUR/GBP rates (defaults to the exchange_rates table when a db is given) */
+  exchangeRates?: ExchangeRateProvider;
+  /** Sends inbound email replies (defaults to one using RESEND_API_KEY) */
+  notificationService?: NotificationService;
+}
+
+/**
+ * Inbound email (forwarded booking) configuration.
+ */
+export interface InboundEmailOptions {
+  /** Domain that receives forwarded mail, e.g. "in.eurostar.tools" */
+  domain: string;
+  /** Shared secret the mail provider sends with each webhook call */
+  secret: string;
+  /** Authserv-ids of the provider's Authentication-Results headers, e.g. "mx.postmarkapp.com" */
+  authservIds?: readonly string[] | undefined;
 }
 
 /**
@@ -50,6 +78,8 @@ export interface CreateAppOptions {
   } | undefined;
   /** Logger configuration */
   loggerConfig?: LoggerConfig | undefined;
+  /** Inbound email configuration (forwarding routes are disabled if omitted) */
+  inboundEmail?: InboundEmailOptions | undefined;
 }
 
 /**
@@ -64,6 +94,7 @@ export async function createApp(options: CreateAppOptions = {}): Promise<Fastify
     fastifyOptions = {},
     cors: corsOptions = {},
     loggerConfig = {},
+    inboundEmail,
   } = options;
 
   // Create Fastify instance with structured logging and request size limits
@@ -85,6 +116,20 @@ export async function createApp(options: CreateAppOptions = {}): Promise<Fastify
     }
   });
 
+  // Raw email uploads (.eml) are kept as bytes for the MIME parser; inline images make them larger than JSON bodies
+  app.addContentTypeParser('message/rfc822', { parseAs: 'buffer', bodyLimit: 10 * 1024 * 1024 }, (_req, body, done) => {
+    done(null, body);
+  });
+
+  // PDF e-tickets and Wallet passes (single or bundled) are read as bytes too
+  app.addContentTypeParser(
+    ['application/pdf', 'application/vnd.apple.pkpass', 'application/vnd.apple.pkpasses'],
+    { parseAs: 'buffer', bodyLimit: 10 * 1024 * 1024 },
+    (_req, body, done) => {
+      done(null, body);
+    }
+  );
+
   // Register CORS
   await app.register(cors, {
     origin: corsOptions.origin ?? true,
@@ -120,7 +165,11 @@ export async function createApp(options: CreateAppOptions = {}): Promise<Fastify
 
   // Create services
   const eligibilityService = services.eligibilityService ?? new EligibilityService();
-  const claimService = services.claimService ?? new ClaimGeneratorService();
+  const exchangeRates =
+    services.exchangeRates ?? (db ? new DatabaseExchangeRateProvider(db) : undefined);
+  const claimService =
+    services.claimService ??
+    new ClaimGeneratorService({ eligibilityService, exchangeRates });
 
   // Register health routes (no auth required)
   await registerHealthRoutes(app, { db, redis });
@@ -141,6 +190,9 @@ export async function createApp(options: CreateAppOptions = {}): Promise<Fastify
     await registerBookingRoutes(app, {
       db,
       eligibilityService,
+      claimService,
+      delayMonitor: services.delayMonitor,
+      exchangeRates,
     });
 
     await registerClaimsRoutes(app, {
@@ -148,7 +200,22 @@ export async function createApp(options: CreateAppOptions = {}): Promise<Fastify
       claimService,
     });
 
+    await registerClaimReplyRoutes(app, { db, claimService });
+
+    await registerDisruptionRoutes(app, { db });
+
+    await registerCalendarRoutes(app, { db });
+
     await registerPreferencesRoutes(app, { db });
+
+    if (inboundEmail) {
+      await registerInboundEmailRoutes(app, {
+        db,
+        ...inboundEmail,
+        claimService,
+        notificationService: services.notificationService ?? new NotificationService(),
+      });
+    }
   }
 
   return app;
@@ -3,7 +3,13 @@
  */
 
 // App factory
-export { createApp, createTestApp, type CreateAppOptions, type AppServices } from './app.js';
+export {
+  createApp,
+  createTestApp,
+  type CreateAppOptions,
+  type AppServices,
+  type InboundEmailOptions,
+} from './app.js';
 
 // Types
 export {
@@ -18,11 +24,15 @@ export {
   type BookingDetailResponse,
   type ClaimResponse,
   type ClaimDetailResponse,
+  type ClaimStatusEventResponse,
+  type DisruptionResponse,
   type HealthResponse,
   type ReadinessResponse,
   type LivenessResponse,
   toBookingResponse,
   toClaimResponse,
+  toClaimStatusEventResponse,
+  toDisruptionResponse,
 } from './types.js';
 
 // Schemas
@@ -35,9 +45,12 @@ export {
   ListQuerySchema,
   ListBookingsQuerySchema,
   ListClaimsQuerySchema,
+  ListDisruptionsQuerySchema,
   ErrorResponseSchema,
   BookingResponseSchema,
   ClaimResponseSchema,
+  ClaimStatusEventResponseSchema,
+  DisruptionResponseSchema,
   HealthResponseSchema,
   ReadinessResponseSchema,
   LivenessResponseSchema,
@@ -51,6 +64,7 @@ export {
   type ListQuery,
   type ListBookingsQuery,
   type ListClaimsQuery,
+  type ListDisruptionsQuery,
 } from './schemas.js';
 
 // Middleware
@@ -61,3 +75,10 @@ export { createTestToken, type JwtPayload, type AuthOptions } from './middleware
 export { registerHealthRoutes, type HealthRoutesOptions } from './routes/health.js';
 export { registerBookingRoutes, type BookingRoutesOptions } from './routes/bookings.js';
 export { registerClaimsRoutes, type ClaimsRoutesOptions } from './routes/claims.js';
+export { registerClaimReplyRoutes, type ClaimReplyRoutesOptions } from './routes/claim-replies.js';
+export { registerDisruptionRoutes, type DisruptionRoutesOptions } from './routes/disruptions.js';
+export { registerCalendarRoutes, type CalendarRoutesOptions } from './routes/calendar.js';
+export {
+  registerInboundEmailRoutes,
+  type InboundEmailRoutesOptions,
+} from './routes/inbound-email.js';
@@ -71,7 +71,7 @@ export class ApiException extends Error {
    */
   static conflict(
     message: string,
-    code = ApiErrorCode.ALREADY_EXISTS,
+    code: string = ApiErrorCode.ALREADY_EXISTS,
     details?: unknown
   ): ApiException {
     return new ApiException(409, code, message, details);
@@ -57,7 +57,8 @@ export function sanitizeEmail(email: string): string {
 export function registerSanitization(app: FastifyInstance): void {
   // Sanitize request body before validation
   app.addHook('preValidation', async (request: FastifyRequest) => {
-    if (request.body && typeof request.body === 'object') {
+    // Raw uploads are parsed as buffers and left untouched
+    if (request.body && typeof request.body === 'object' && !Buffer.isBuffer(request.body)) {
       request.body = sanitizeObject(request.body);
     }
     if (request.query && typeof request.query === 'object') {
@@ -2,22 +2,56 @@
  * Booking routes.
  */
 
+import { randomUUID } from 'node:crypto';
 import type { FastifyInstance, FastifyRequest, FastifyReply } from 'fastify';
-import { eq, and, desc, isNotNull, isNull, gt, count } from 'drizzle-orm';
-import type { Database } from '@eurostar/core/db';
-import { bookings, claims } from '@eurostar/core/db';
-import { parseBookingEmail, type ParsedBooking } from '../../email-parser/index.js';
-import { EligibilityService } from '../../eligibility/index.js';
+import { eq, and, or, asc, desc, inArray, isNotNull, isNull, gt, count } from 'drizzle-orm';
+import type { Booking, ClaimStatus, Database } from '@eurostar/core/db';
+import { bookings, bookingPassengers, claims } from '@eurostar/core/db';
+import type { ExchangeRateProvider } from '@eurostar/core/exchange-rates';
+import {
+  buildParseReport,
+  parseBookingEml,
+  parseBookingPkpass,
+  parseBookingCsv,
+  extractETickets,
+  buildETicketBooking,
+  splitJourneyLegs,
+  type ParsedBooking,
+  type ParsedETicket,
+  type ParseError,
+  type ParseReport,
+} from '../../email-parser/index.js';
+import {
+  CLASSIFIED_DELAY_CAUSES,
+  EligibilityService,
+  isClassifiedCause,
+  resolveEurToGbpRate,
+} from '../../eligibility/index.js';
+import { findDelayCause, DelayMonitorService } from '../../delay-monitor/index.js';
+import { ClaimGeneratorService, FILED_CLAIM_STATUSES } from '../../claim-generator/index.js';
 import type { EligibilityStatus } from '../../eligibility/types.js';
 import {
   BookingParamsSchema,
   type BookingParams,
   CreateBookingSchema,
   type CreateBooking,
+  CreateBookingFromEmailSchema,
+  type CreateBookingFromEmail,
+  UpdateBookingSchema,
+  type UpdateBooking,
+  UpdateBookingDelayCauseSchema,
+  type UpdateBookingDelayCause,
+  ImportCsvSchema,
+  type ImportCsv,
   ListBookingsQuerySchema,
   type ListBookingsQuery,
   isEmailRequest,
   BookingResponseSchema,
+  BookingDetailResponseSchema,
+  BookingDelayCauseResponseSchema,
+  ClaimPackResponseSchema,
+  CsvImportResponseSchema,
+  ParsePreviewResponseSchema,
   SuccessResponseSchema,
   SuccessListResponseSchema,
   ErrorResponseSchema,
@@ -26,9 +60,18 @@ import {
   createSuccessResponse,
   toBookingResponse,
   toClaimResponse,
+  toClaimPackResponse,
+  toPassengerResponse,
+  toParsePreviewResponse,
+  toCsvImportResponse,
   ApiErrorCode,
   type BookingResponse,
   type BookingDetailResponse,
+  type BookingDelayCauseResponse,
+  type ClaimPackResponse,
+  type CsvImportOutcome,
+  type CsvImportResponse,
+  type ParsePreviewResponse,
   type SuccessResponse,
   type PaginationMeta,
 } from '../types.js';
@@ -40,6 +83,382 @@ import { ApiException } from '../middleware/error-handler.js';
 export interface BookingRoutesOptions {
   db: Database;
   eligibilityService?: EligibilityService;
+  claimService?: ClaimGeneratorService;
+  /** Re-checks the delay of bookings whose train or date is changed */
+  delayMonitor?: DelayMonitorService | undefined;
+  /** Historical EUR/GBP rates for the minimum payout (fixed fallback rate if omitted) */
+  exchangeRates?: ExchangeRateProvider | undefined;
+}
+
+/**
+ * Converts a parser error into a 400 response. For pasted emails the
+ * response includes the parse report, so the fields that were found can
+ * be used to fill in a form.
+ */
+export function toParseException(error: ParseError, report?: ParseReport): ApiException {
+  return ApiException.badRequest(error.message, 'PARSE_ERROR', {
+    field: error.field,
+    rawValue: error.rawValue,
+    ...(report && { fields: report.fields, needsReview: report.needsReview }),
+  });
+}
+
+/**
+ * Finds the user's bookings with a PNR, and the TCN if known, on any of the
+ * given journeys; with no journeys, on any train.
+ */
+async function findDuplicateBookings(
+  db: Database,
+  userId: string,
+  pnr: string,
+  tcn: string | null,
+  journeys: Array<{ trainNumber: string; journeyDate: Date }>
+): Promise<Booking[]> {
+  return db
+    .select()
+    .from(bookings)
+    .where(
+      and(
+        eq(bookings.userId, userId),
+        eq(bookings.pnr, pnr),
+        tcn === null ? undefined : eq(bookings.tcn, tcn),
+        journeys.length === 0
+          ? undefined
+          : or(
+              ...journeys.map((journey) =>
+                and(eq(bookings.trainNumber, journey.trainNumber), eq(bookings.journeyDate, journey.journeyDate))
+              )
+            )
+      )
+    )
+    .orderBy(asc(bookings.journeyDate));
+}
+
+/** A database transaction */
+type Transaction = Parameters<Parameters<Database['transaction']>[0]>[0];
+
+/**
+ * Inserts one booking per journey leg, linked by a trip group, each with a
+ * record per passenger.
+ *
+ * @param tx - Transaction to insert in
+ * @param userId - Owner of the bookings
+ * @param legs - Single-leg bookings, outbound first
+ * @returns The outbound booking
+ */
+async function insertBookingLegs(
+  tx: Transaction,
+  userId: string,
+  legs: ParsedBooking[]
+): Promise<Booking | undefined> {
+  const tripGroupId = legs.length > 1 ? randomUUID() : null;
+  const created: Booking[] = [];
+  for (const [tripLeg, leg] of legs.entries()) {
+    const [booking] = await tx
+      .insert(bookings)
+      .values({
+        userId,
+        pnr: leg.pnr,
+        tcn: leg.tcn,
+        trainNumber: leg.trainNumber,
+        journeyDate: leg.journeyDate,
+        passengerName: leg.passengerName,
+        origin: leg.origin,
+        destination: leg.destination,
+        coach: leg.coach,
+        seat: leg.seat,
+        ticketPrice: leg.ticketPrice?.toFixed(2),
+        ticketCurrency: leg.currency,
+        tripGroupId,
+        tripLeg: tripGroupId ? tripLeg : null,
+      })
+      .returning();
+
+    if (!booking) {
+      return undefined;
+    }
+
+    await tx.insert(bookingPassengers).values(
+      leg.passengers.map((passenger, position) => ({
+        bookingId: booking.id,
+        position,
+        passengerName: passenger.passengerName,
+        tcn: passenger.tcn,
+        coach: passenger.coach,
+        seat: passenger.seat,
+        ticketPrice: passenger.ticketPrice?.toFixed(2),
+        ticketCurrency: passenger.currency,
+      }))
+    );
+    created.push(booking);
+  }
+
+  // The outbound leg stands for the trip
+  return created[0];
+}
+
+/**
+ * Creates the bookings for a parsed confirmation: one per journey leg, each
+ * with a record per passenger.
+ *
+ * @param db - Database connection
+ * @param userId - Owner of the bookings
+ * @param parsed - The parsed booking
+ * @returns The outbound booking
+ * @throws ApiException if the fare is incomplete or the journey is already booked
+ */
+export async function createBookings(
+  db: Database,
+  userId: string,
+  parsed: ParsedBooking
+): Promise<Booking> {
+  // A fare is only usable with its currency
+  if ((parsed.ticketPrice === undefined) !== (parsed.currency === undefined)) {
+    throw ApiException.badRequest(
+      'ticketPrice and currency must be provided together',
+      ApiErrorCode.VALIDATION_ERROR,
+      { field: parsed.ticketPrice === undefined ? 'ticketPrice' : 'currency' }
+    );
+  }
+
+  // One booking per journey leg; the legs of a return trip share a PNR and TCN
+  const legs = splitJourneyLegs(parsed);
+
+  // Check for duplicate booking
+  const existing = await findDuplicateBookings(db, userId, parsed.pnr, parsed.tcn, legs);
+
+  if (existing.length > 0) {
+    throw ApiException.conflict(
+      'A booking with this PNR and TCN already exists for this journey',
+      ApiErrorCode.ALREADY_EXISTS,
+      { existingId: existing[0]!.id }
+    );
+  }
+
+  const newBooking = await db.transaction((tx) => insertBookingLegs(tx, userId, legs));
+
+  if (!newBooking) {
+    throw ApiException.internal('Failed to create booking');
+  }
+
+  return newBooking;
+}
+
+/**
+ * Compares passenger names ignoring case and titles ("Mr", "Mrs", ...).
+ */
+function isSamePassenger(a: string, b: string): boolean {
+  const normalize = (name: string) =>
+    name.toLowerCase().replace(/^(?:mr|mrs|ms|miss|dr|prof)\.?\s+/, '').replace(/\s+/g, ' ').trim();
+  return normalize(a) === normalize(b);
+}
+
+/**
+ * Whether a ticket is for a booking's train.
+ */
+function isTicketForBooking(booking: Booking, ticket: ParsedETicket): boolean {
+  return (
+    booking.trainNumber === ticket.trainNumber &&
+    booking.journeyDate.getTime() === ticket.journeyDate.getTime()
+  );
+}
+
+/**
+ * Picks the ticket for a passenger: by TCN, or by name when the TCN differs.
+ */
+function findTicket(
+  tickets: ParsedETicket[],
+  passenger: { tcn: string; passengerName: string }
+): ParsedETicket | undefined {
+  return (
+    tickets.find((ticket) => ticket.tcn === passenger.tcn) ??
+    tickets.find((ticket) => isSamePassenger(ticket.passengerName, passenger.passengerName))
+  );
+}
+
+/**
+ * Gets the coach and seat a ticket adds to a record, keeping values already set.
+ */
+function missingSeatFields(
+  record: { coach: string | null; seat: string | null },
+  ticket: ParsedETicket
+): { coach?: string; seat?: string } | null {
+  const update: { coach?: string; seat?: string } = {};
+  if (!record.coach && ticket.coach) update.coach = ticket.coach;
+  if (!record.seat && ticket.seat) update.seat = ticket.seat;
+  return Object.keys(update).length > 0 ? update : null;
+}
+
+/**
+ * Fills in missing coach and seat numbers on existing bookings from their
+ * e-tickets. Tickets are matched to bookings by PNR, train and date, and to
+ * passengers by TCN or name. Values already on the booking are kept.
+ *
+ * @param db - Database connection
+ * @param userId - Owner of the bookings
+ * @param tickets - Tickets from one e-ticket file, all with the same PNR
+ * @returns The earliest matched booking, or null if the user has no booking with this PNR
+ * @throws ApiException if the PNR is booked but not on any of the tickets' trains
+ */
+export async function mergeETickets(
+  db: Database,
+  userId: string,
+  tickets: ParsedETicket[]
+): Promise<Booking | null> {
+  const pnr = tickets[0]?.pnr;
+  if (!pnr) {
+    return null;
+  }
+
+  const existing = await db
+    .select()
+    .from(bookings)
+    .where(and(eq(bookings.userId, userId), eq(bookings.pnr, pnr)))
+    .orderBy(asc(bookings.journeyDate));
+
+  if (existing.length === 0) {
+    return null;
+  }
+
+  const matched = existing.filter((booking) =>
+    tickets.some((ticket) => isTicketForBooking(booking, ticket))
+  );
+  if (matched.length === 0) {
+    throw ApiException.conflict(
+      `Booking ${pnr} is already in your account, but not for the trains on these tickets`,
+      ApiErrorCode.ALREADY_EXISTS,
+      { existingId: existing[0]!.id }
+    );
+  }
+
+  const passengers = await db
+    .select()
+    .from(bookingPassengers)
+    .where(inArray(bookingPassengers.bookingId, matched.map((booking) => booking.id)));
+
+  const updated = await db.transaction(async (tx) => {
+    const results: Booking[] = [];
+    for (const booking of matched) {
+      const legTickets = tickets.filter((ticket) => isTicketForBooking(booking, ticket));
+
+      for (const passenger of passengers.filter((p) => p.bookingId === booking.id)) {
+        const ticket = findTicket(legTickets, passenger);
+        const update = ticket && missingSeatFields(passenger, ticket);
+        if (update) {
+          await tx.update(bookingPassengers).set(update).where(eq(bookingPassengers.id, passenger.id));
+        }
+      }
+
+      // The booking's own coach and seat are the lead booker's
+      const leadTicket = findTicket(legTickets, booking);
+      const update = leadTicket && missingSeatFields(booking, leadTicket);
+      if (update) {
+        const [row] = await tx.update(bookings).set(update).where(eq(bookings.id, booking.id)).returning();
+        results.push(row ?? booking);
+      } else {
+        results.push(booking);
+      }
+    }
+    return results;
+  });
+
+  return updated[0] ?? null;
+}
+
+/**
+ * What an update request changes on a booking.
+ */
+export interface BookingChanges {
+  /** Columns to set, only those whose value differs */
+  values: Partial<
+    Pick<Booking, 'trainNumber' | 'journeyDate' | 'origin' | 'destination' | 'passengerName' | 'coach' | 'seat'>
+  >;
+  /** Whether the train, date or stations changed, so the delay must be found again */
+  journeyChanged: boolean;
+}
+
+/**
+ * Works out the changes an update request makes to a booking.
+ *
+ * @param booking - The booking as stored
+ * @param update - The update request
+ * @returns The changed values
+ * @throws ApiException if the date is invalid or the stations would be the same
+ */
+export function getBookingChanges(booking: Booking, update: UpdateBooking): BookingChanges {
+  const values: BookingChanges['values'] = {};
+
+  if (update.trainNumber !== undefined && update.trainNumber !== booking.trainNumber) {
+    values.trainNumber = update.trainNumber;
+  }
+  if (update.journeyDate !== undefined) {
+    const journeyDate = new Date(update.journeyDate);
+    if (Number.isNaN(journeyDate.getTime())) {
+      throw ApiException.badRequest('Invalid journey date', ApiErrorCode.VALIDATION_ERROR, {
+        field: 'journeyDate',
+      });
+    }
+    if (journeyDate.getTime() !== booking.journeyDate.getTime()) {
+      values.journeyDate = journeyDate;
+    }
+  }
+  if (update.origin !== undefined && update.origin.toUpperCase() !== booking.origin) {
+    values.origin = update.origin.toUpperCase();
+  }
+  if (update.destination !== undefined && update.destination.toUpperCase() !== booking.destination) {
+    values.destination = update.destination.toUpperCase();
+  }
+  if ((values.origin ?? booking.origin) === (values.destination ?? booking.destination)) {
+    throw ApiException.badRequest(
+      'Origin and destination must be different stations',
+      ApiErrorCode.VALIDATION_ERROR,
+      { field: values.destination ? 'destination' : 'origin' }
+    );
+  }
+
+  if (update.passengerName !== undefined && update.passengerName !== booking.passengerName) {
+    values.passengerName = update.passengerName;
+  }
+  if (update.coach !== undefined && update.coach !== booking.coach) {
+    values.coach = update.coach;
+  }
+  if (update.seat !== undefined && update.seat !== booking.seat) {
+    values.seat = update.seat;
+  }
+
+  const journeyChanged =
+    values.trainNumber !== undefined ||
+    values.journeyDate !== undefined ||
+    values.origin !== undefined ||
+    values.destination !== undefined;
+
+  return { values, journeyChanged };
+}
+
+/** Claims still being settled, whose booking can't be deleted */
+const UNSETTLED_CLAIM_STATUSES: ClaimStatus[] = ['submitted', 'approved'];
+
+/**
+ * Throws if any of a booking's claims is in one of the given statuses.
+ */
+async function assertNoClaimsIn(
+  db: Database,
+  bookingId: string,
+  statuses: ClaimStatus[],
+  message: string
+): Promise<void> {
+  const [claim] = await db
+    .select({ id: claims.id, status: claims.status })
+    .from(claims)
+    .where(and(eq(claims.bookingId, bookingId), inArray(claims.status, statuses)))
+    .limit(1);
+
+  if (claim) {
+    throw ApiException.conflict(message, ApiErrorCode.CLAIM_SUBMITTED, {
+      claimId: claim.id,
+      status: claim.status,
+    });
+  }
 }
 
 /**
@@ -52,6 +471,9 @@ export async function registerBookingRoutes(
   const {
     db,
     eligibilityService = new EligibilityService(),
+    exchangeRates,
+    claimService = new ClaimGeneratorService({ eligibilityService, exchangeRates }),
+    delayMonitor = new DelayMonitorService(),
   } = options;
 
   /**
@@ -80,78 +502,289 @@ export async function registerBookingRoutes(
 
       // Parse booking data
       if (isEmailRequest(request.body)) {
-        const result = parseBookingEmail(request.body.emailBody);
-        if (result.isErr()) {
-          throw ApiException.badRequest(
-            result.error.message,
-            'PARSE_ERROR',
-            { field: result.error.field, rawValue: result.error.rawValue }
-          );
+        const report = buildParseReport(request.body.emailBody);
+        if (!report.booking) {
+          throw toParseException(report.error!, report);
         }
-        parsed = result.value;
+        parsed = report.booking;
       } else {
-        // Manual entry - construct parsed booking
-        parsed = {
-          pnr: request.body.pnr.toUpperCase(),
+        // Manual entry - construct parsed booking for a single passenger
+        const lead = {
+          passengerName: request.body.passengerName,
           tcn: request.body.tcn,
+          coach: request.body.coach,
+          seat: request.body.seat,
+          ticketPrice: request.body.ticketPrice,
+          currency: request.body.currency,
+        };
+        const leg = {
           trainNumber: request.body.trainNumber,
           journeyDate: new Date(request.body.journeyDate),
-          passengerName: request.body.passengerName,
           origin: request.body.origin.toUpperCase(),
           destination: request.body.destination.toUpperCase(),
           coach: request.body.coach,
           seat: request.body.seat,
         };
+        parsed = {
+          ...lead,
+          ...leg,
+          pnr: request.body.pnr.toUpperCase(),
+          passengers: [lead],
+          legs: [leg],
+        };
       }
 
-      // Check for duplicate booking
-      const existing = await db
-        .select({ id: bookings.id })
-        .from(bookings)
-        .where(
-          and(
-            eq(bookings.userId, userId),
-            eq(bookings.pnr, parsed.pnr),
-            eq(bookings.tcn, parsed.tcn)
-          )
-        )
-        .limit(1);
+      const newBooking = await createBookings(db, userId, parsed);
+
+      return reply.status(201).send(
+        createSuccessResponse(toBookingResponse(newBooking))
+      );
+    }
+  );
+
+  /**
+   * POST /api/v1/bookings/parse-preview - Parse a confirmation email without saving it
+   */
+  app.post<{
+    Body: CreateBookingFromEmail;
+    Reply: SuccessResponse<ParsePreviewResponse>;
+  }>(
+    '/api/v1/bookings/parse-preview',
+    {
+      preHandler: [app.authenticate],
+      schema: {
+        body: CreateBookingFromEmailSchema,
+        response: {
+          200: SuccessResponseSchema(ParsePreviewResponseSchema),
+          400: ErrorResponseSchema,
+          401: ErrorResponseSchema,
+        },
+      },
+    },
+    async (request: FastifyRequest<{ Body: CreateBookingFromEmail }>, reply: FastifyReply) => {
+      const userId = request.jwtUser!.userId;
+      const report = buildParseReport(request.body.emailBody);
+      const { pnr, tcn, trainNumber, journeyDate } = report.fields;
+
+      // Warn about the bookings an import would duplicate, or that share what was found of it
+      let duplicates: Booking[] = [];
+      if (report.booking) {
+        const { booking } = report;
+        duplicates = await findDuplicateBookings(db, userId, booking.pnr, booking.tcn, booking.legs);
+      } else if (pnr.value !== null && pnr.issue === null) {
+        const journeys =
+          trainNumber.value !== null && journeyDate.value !== null
+            ? [{ trainNumber: trainNumber.value, journeyDate: journeyDate.value }]
+            : [];
+        duplicates = await findDuplicateBookings(db, userId, pnr.value, tcn.value, journeys);
+      }
+
+      return reply.send(createSuccessResponse(toParsePreviewResponse(report, duplicates)));
+    }
+  );
+
+  /**
+   * POST /api/v1/bookings/import/eml - Create booking from an uploaded .eml file
+   */
+  app.post<{
+    Body: Buffer;
+    Reply: SuccessResponse<BookingResponse>;
+  }>(
+    '/api/v1/bookings/import/eml',
+    {
+      preHandler: [app.authenticate],
+      schema: {
+        response: {
+          201: SuccessResponseSchema(BookingResponseSchema),
+          400: ErrorResponseSchema,
+          401: ErrorResponseSchema,
+          409: ErrorResponseSchema,
+        },
+      },
+    },
+    async (request: FastifyRequest<{ Body: Buffer }>, reply: FastifyReply) => {
+      const userId = request.jwtUser!.userId;
 
-      if (existing.length > 0) {
-        throw ApiException.conflict(
-          'A booking with this PNR and TCN already exists',
-          ApiErrorCode.ALREADY_EXISTS,
-          { existingId: existing[0]!.id }
+      if (!Buffer.isBuffer(request.body)) {
+        throw ApiException.badRequest(
+          'Upload the email file with Content-Type: message/rfc822',
+          ApiErrorCode.INVALID_REQUEST
         );
       }
 
-      // Create booking
-      const [newBooking] = await db
-        .insert(bookings)
-        .values({
-          userId,
-          pnr: parsed.pnr,
-          tcn: parsed.tcn,
-          trainNumber: parsed.trainNumber,
-          journeyDate: parsed.journeyDate,
-          passengerName: parsed.passengerName,
-          origin: parsed.origin,
-          destination: parsed.destination,
-          coach: parsed.coach,
-          seat: parsed.seat,
-        })
-        .returning();
+      const result = parseBookingEml(request.body);
+      if (result.isErr()) {
+        throw toParseException(result.error);
+      }
+
+      const newBooking = await createBookings(db, userId, result.value);
+
+      return reply.status(201).send(
+        createSuccessResponse(toBookingResponse(newBooking))
+      );
+    }
+  );
+
+  /**
+   * POST /api/v1/bookings/import/pdf - Import a PDF e-ticket
+   *
+   * Creates the booking (201), or when the PNR is already in the account
+   * fills in missing coach and seat numbers on it (200).
+   */
+  app.post<{
+    Body: Buffer;
+    Reply: SuccessResponse<BookingResponse>;
+  }>(
+    '/api/v1/bookings/import/pdf',
+    {
+      preHandler: [app.authenticate],
+      schema: {
+        response: {
+          200: SuccessResponseSchema(BookingResponseSchema),
+          201: SuccessResponseSchema(BookingResponseSchema),
+          400: ErrorResponseSchema,
+          401: ErrorResponseSchema,
+          409: ErrorResponseSchema,
+        },
+      },
+    },
+    async (request: FastifyRequest<{ Body: Buffer }>, reply: FastifyReply) => {
+      const userId = request.jwtUser!.userId;
+
+      if (!Buffer.isBuffer(request.body)) {
+        throw ApiException.badRequest(
+          'Upload the e-ticket with Content-Type: application/pdf',
+          ApiErrorCode.INVALID_REQUEST
+        );
+      }
+
+      const tickets = extractETickets(request.body);
+      if (tickets.isErr()) {
+        throw toParseException(tickets.error);
+      }
+
+      const merged = await mergeETickets(db, userId, tickets.value);
+      if (merged) {
+        return reply.send(createSuccessResponse(toBookingResponse(merged)));
+      }
+
+      const parsed = buildETicketBooking(tickets.value);
+      if (parsed.isErr()) {
+        throw toParseException(parsed.error);
+      }
+
+      const newBooking = await createBookings(db, userId, parsed.value);
+
+      return reply.status(201).send(
+        createSuccessResponse(toBookingResponse(newBooking))
+      );
+    }
+  );
+
+  /**
+   * POST /api/v1/bookings/import/pkpass - Create booking from a Wallet pass
+   */
+  app.post<{
+    Body: Buffer;
+    Reply: SuccessResponse<BookingResponse>;
+  }>(
+    '/api/v1/bookings/import/pkpass',
+    {
+      preHandler: [app.authenticate],
+      schema: {
+        response: {
+          201: SuccessResponseSchema(BookingResponseSchema),
+          400: ErrorResponseSchema,
+          401: ErrorResponseSchema,
+          409: ErrorResponseSchema,
+        },
+      },
+    },
+    async (request: FastifyRequest<{ Body: Buffer }>, reply: FastifyReply) => {
+      const userId = request.jwtUser!.userId;
+
+      if (!Buffer.isBuffer(request.body)) {
+        throw ApiException.badRequest(
+          'Upload the pass with Content-Type: application/vnd.apple.pkpass',
+          ApiErrorCode.INVALID_REQUEST
+        );
+      }
 
-      if (!newBooking) {
-        throw ApiException.internal('Failed to create booking');
+      const result = parseBookingPkpass(request.body);
+      if (result.isErr()) {
+        throw toParseException(result.error);
       }
 
+      const newBooking = await createBookings(db, userId, result.value);
+
       return reply.status(201).send(
         createSuccessResponse(toBookingResponse(newBooking))
       );
     }
   );
 
+  /**
+   * POST /api/v1/bookings/import/csv - Import bookings from a spreadsheet
+   *
+   * Creates every readable booking in one transaction, skipping those already
+   * in the account with the same PNR and TCN, and lists the rows that
+   * couldn't be read. With dryRun nothing is saved (200).
+   */
+  app.post<{
+    Body: ImportCsv;
+    Reply: SuccessResponse<CsvImportResponse>;
+  }>(
+    '/api/v1/bookings/import/csv',
+    {
+      preHandler: [app.authenticate],
+      schema: {
+        body: ImportCsvSchema,
+        response: {
+          200: SuccessResponseSchema(CsvImportResponseSchema),
+          201: SuccessResponseSchema(CsvImportResponseSchema),
+          400: ErrorResponseSchema,
+          401: ErrorResponseSchema,
+        },
+      },
+    },
+    async (request: FastifyRequest<{ Body: ImportCsv }>, reply: FastifyReply) => {
+      const userId = request.jwtUser!.userId;
+      const { csv, columns, dateFormat, delimiter, dryRun = false } = request.body;
+
+      const result = parseBookingCsv(csv, { columns, dateFormat, delimiter });
+      if (result.isErr()) {
+        throw toParseException(result.error);
+      }
+
+      const outcomes: CsvImportOutcome[] = [];
+      for (const booking of result.value.bookings) {
+        const outbound = booking.legs[0]!;
+        const [existing] = await findDuplicateBookings(db, userId, outbound.pnr, outbound.tcn, booking.legs);
+        outcomes.push({ booking, id: null, duplicateOf: existing?.id ?? null });
+      }
+
+      const toCreate = outcomes.filter((outcome) => outcome.duplicateOf === null);
+      if (dryRun || toCreate.length === 0) {
+        return reply.send(createSuccessResponse(toCsvImportResponse(outcomes, result.value.errors, dryRun)));
+      }
+
+      // All or nothing: a failed insert rolls back the whole file
+      await db.transaction(async (tx) => {
+        for (const outcome of toCreate) {
+          const created = await insertBookingLegs(tx, userId, outcome.booking.legs);
+          if (!created) {
+            throw ApiException.internal('Failed to create booking');
+          }
+          outcome.id = created.id;
+        }
+      });
+
+      return reply.status(201).send(
+        createSuccessResponse(toCsvImportResponse(outcomes, result.value.errors, false))
+      );
+    }
+  );
+
   /**
    * GET /api/v1/bookings - List user's bookings
    */
@@ -189,7 +822,8 @@ export async function registerBookingRoutes(
       } else if (statusFilter === 'pending') {
         whereCondition = and(
           whereCondition,
-          isNull(bookings.finalDelayMinutes)
+          isNull(bookings.finalDelayMinutes),
+          isNull(bookings.cancelledAt)
         )!;
       } else if (statusFilter === 'with_delay') {
         whereCondition = and(
@@ -197,6 +831,11 @@ export async function registerBookingRoutes(
           isNotNull(bookings.finalDelayMinutes),
           gt(bookings.finalDelayMinutes, 0)
         )!;
+      } else if (statusFilter === 'cancelled') {
+        whereCondition = and(
+          whereCondition,
+          isNotNull(bookings.cancelledAt)
+        )!;
       }
 
       // Get total count
@@ -212,7 +851,7 @@ export async function registerBookingRoutes(
         .select()
         .from(bookings)
         .where(whereCondition)
-        .orderBy(desc(bookings.createdAt))
+        .orderBy(desc(bookings.createdAt), asc(bookings.tripLeg))
         .limit(limit)
         .offset(offset);
 
@@ -242,7 +881,7 @@ export async function registerBookingRoutes(
       schema: {
         params: BookingParamsSchema,
         response: {
-          200: SuccessResponseSchema(BookingResponseSchema),
+          200: SuccessResponseSchema(BookingDetailResponseSchema),
           401: ErrorResponseSchema,
           404: ErrorResponseSchema,
         },
@@ -271,30 +910,371 @@ export async function registerBookingRoutes(
         );
       }
 
-      // Get claim if exists
-      const [claim] = await db
-        .select()
-        .from(claims)
-        .where(eq(claims.bookingId, bookingId))
-        .limit(1);
+      // Get passengers, lead booker first, with their claims if they exist
+      const passengers = await db
+        .select({ passenger: bookingPassengers, claim: claims })
+        .from(bookingPassengers)
+        .leftJoin(claims, eq(claims.passengerId, bookingPassengers.id))
+        .where(eq(bookingPassengers.bookingId, bookingId))
+        .orderBy(asc(bookingPassengers.position));
+      const claim = passengers[0]?.claim ?? null;
 
-      // Calculate eligibility if journey is complete
-      let eligibility: EligibilityStatus | null = null;
-      if (booking.finalDelayMinutes !== null) {
-        eligibility = eligibilityService.checkEligibility(
-          booking,
-          booking.finalDelayMinutes,
-          100 // Placeholder ticket price - would come from booking data
-        );
-      }
+      // Get every leg of a return journey, outbound first
+      const tripLegs = booking.tripGroupId
+        ? await db
+            .select()
+            .from(bookings)
+            .where(
+              and(
+                eq(bookings.tripGroupId, booking.tripGroupId),
+                eq(bookings.userId, userId)
+              )
+            )
+            .orderBy(asc(bookings.tripLeg))
+        : [];
+
+      // Calculate eligibility from the fare paid once the journey is complete
+      // or cancelled (null until the booking has a ticket price). Delay causes
+      // only matter for delay compensation, not cancellation refunds.
+      const delayCause =
+        booking.finalDelayMinutes !== null && !booking.cancelledAt
+          ? await findDelayCause(booking, db)
+          : null;
+      const eligibility: EligibilityStatus | null =
+        eligibilityService.checkBookingEligibility(booking, {
+          exchangeRate: await resolveEurToGbpRate(exchangeRates, booking.journeyDate),
+          delayCause,
+        });
 
       const response: BookingDetailResponse = {
         ...toBookingResponse(booking),
         eligibility,
         claim: claim ? toClaimResponse(claim) : null,
+        passengers: passengers.map(({ passenger, claim: passengerClaim }) =>
+          toPassengerResponse(passenger, passengerClaim)
+        ),
+        tripLegs: tripLegs.map(toBookingResponse),
       };
 
       return reply.send(createSuccessResponse(response));
     }
   );
+
+  /**
+   * PATCH /api/v1/bookings/:id - Correct a booking's journey or lead passenger
+   *
+   * A new train, date or station clears the delay and cause found for the
+   * old one, matches the booking to its train again and re-evaluates open
+   * claims.
+   */
+  app.patch<{
+    Params: BookingParams;
+    Body: UpdateBooking;
+    Reply: SuccessResponse<BookingResponse>;
+  }>(
+    '/api/v1/bookings/:id',
+    {
+      preHandler: [app.authenticate],
+      schema: {
+        params: BookingParamsSchema,
+        body: UpdateBookingSchema,
+        response: {
+          200: SuccessResponseSchema(BookingResponseSchema),
+          400: ErrorResponseSchema,
+          401: ErrorResponseSchema,
+          404: ErrorResponseSchema,
+          409: ErrorResponseSchema,
+        },
+      },
+    },
+    async (
+      request: FastifyRequest<{ Params: BookingParams; Body: UpdateBooking }>,
+      reply: FastifyReply
+    ) => {
+      const userId = request.jwtUser!.userId;
+      const bookingId = request.params.id;
+
+      const [booking] = await db
+        .select()
+        .from(bookings)
+        .where(
+          and(
+            eq(bookings.id, bookingId),
+            eq(bookings.userId, userId)
+          )
+        )
+        .limit(1);
+
+      if (!booking) {
+        throw ApiException.notFound(
+          'Booking not found',
+          'BOOKING_NOT_FOUND'
+        );
+      }
+
+      const { values, journeyChanged } = getBookingChanges(booking, request.body);
+      if (Object.keys(values).length === 0) {
+        return reply.send(createSuccessResponse(toBookingResponse(booking)));
+      }
+
+      // Filed claims were made for this journey and passenger; coach and seat can still change
+      if (journeyChanged || values.passengerName !== undefined) {
+        await assertNoClaimsIn(
+          db,
+          bookingId,
+          FILED_CLAIM_STATUSES,
+          'The journey and passenger of a booking cannot be changed once a claim has been submitted'
+        );
+      }
+
+      if (journeyChanged) {
+        const journey = {
+          trainNumber: values.trainNumber ?? booking.trainNumber,
+          journeyDate: values.journeyDate ?? booking.journeyDate,
+        };
+        const existing = (
+          await findDuplicateBookings(db, userId, booking.pnr, booking.tcn, [journey])
+        ).filter((duplicate) => duplicate.id !== bookingId);
+
+        if (existing.length > 0) {
+          throw ApiException.conflict(
+            'A booking with this PNR and TCN already exists for this journey',
+            ApiErrorCode.ALREADY_EXISTS,
+            { existingId: existing[0]!.id }
+          );
+        }
+      }
+
+      let updated = await db.transaction(async (tx) => {
+        const [row] = await tx
+          .update(bookings)
+          .set({
+            ...values,
+            ...(journeyChanged && {
+              trainId: null,
+              finalDelayMinutes: null,
+              cancelledAt: null,
+              delayCauseOverride: null,
+            }),
+          })
+          .where(eq(bookings.id, bookingId))
+          .returning();
+
+        // The lead booker's record carries the booking's passenger, coach and seat
+        const { passengerName, coach, seat } = values;
+        const lead = {
+          ...(passengerName !== undefined && { passengerName }),
+          ...(coach !== undefined && { coach }),
+          ...(seat !== undefined && { seat }),
+        };
+        if (Object.keys(lead).length > 0) {
+          await tx
+            .update(bookingPassengers)
+            .set(lead)
+            .where(and(eq(bookingPassengers.bookingId, bookingId), eq(bookingPassengers.position, 0)));
+        }
+
+        return row;
+      });
+
+      if (!updated) {
+        throw ApiException.internal('Failed to update booking');
+      }
+
+      if (journeyChanged) {
+        // Match the new train, recording its delay if it has already run
+        const completed = await delayMonitor.checkBooking(updated, db);
+        if (completed) {
+          const [checked] = await db.select().from(bookings).where(eq(bookings.id, bookingId)).limit(1);
+          updated = checked ?? updated;
+        }
+
+        const reevaluated = await claimService.reevaluateClaims(updated, db);
+        if (reevaluated.isErr()) {
+          throw ApiException.internal(reevaluated.error.message);
+        }
+      }
+
+      return reply.send(createSuccessResponse(toBookingResponse(updated)));
+    }
+  );
+
+  /**
+   * PATCH /api/v1/bookings/:id/delay-cause - Set or clear the cause of a booking's delay
+   *
+   * The cause wins over the train's when eligibility is checked, and only
+   * applies to this booking. Open claims are re-evaluated with it.
+   */
+  app.patch<{
+    Params: BookingParams;
+    Body: UpdateBookingDelayCause;
+    Reply: SuccessResponse<BookingDelayCauseResponse>;
+  }>(
+    '/api/v1/bookings/:id/delay-cause',
+    {
+      preHandler: [app.authenticate],
+      schema: {
+        params: BookingParamsSchema,
+        body: UpdateBookingDelayCauseSchema,
+        response: {
+          200: SuccessResponseSchema(BookingDelayCauseResponseSchema),
+          400: ErrorResponseSchema,
+          401: ErrorResponseSchema,
+          404: ErrorResponseSchema,
+        },
+      },
+    },
+    async (
+      request: FastifyRequest<{ Params: BookingParams; Body: UpdateBookingDelayCause }>,
+      reply: FastifyReply
+    ) => {
+      const userId = request.jwtUser!.userId;
+      const bookingId = request.params.id;
+      const { cause } = request.body;
+
+      if (cause !== null && !isClassifiedCause(cause)) {
+        throw ApiException.badRequest(
+          `Unknown delay cause: ${cause}`,
+          ApiErrorCode.VALIDATION_ERROR,
+          { allowed: CLASSIFIED_DELAY_CAUSES }
+        );
+      }
+
+      const [updated] = await db
+        .update(bookings)
+        .set({ delayCauseOverride: cause })
+        .where(
+          and(
+            eq(bookings.id, bookingId),
+            eq(bookings.userId, userId)
+          )
+        )
+        .returning();
+
+      if (!updated) {
+        throw ApiException.notFound(
+          'Booking not found',
+          'BOOKING_NOT_FOUND'
+        );
+      }
+
+      const reevaluated = await claimService.reevaluateClaims(updated, db);
+      if (reevaluated.isErr()) {
+        throw ApiException.internal(reevaluated.error.message);
+      }
+
+      return reply.send(
+        createSuccessResponse({
+          bookingId,
+          delayCauseOverride: updated.delayCauseOverride,
+          delayCause: await findDelayCause(updated, db),
+        })
+      );
+    }
+  );
+
+  /**
+   * DELETE /api/v1/bookings/:id - Delete a booking with its passengers and claims
+   */
+  app.delete<{
+    Params: BookingParams;
+  }>(
+    '/api/v1/bookings/:id',
+    {
+      preHandler: [app.authenticate],
+      schema: {
+        params: BookingParamsSchema,
+        response: {
+          401: ErrorResponseSchema,
+          404: ErrorResponseSchema,
+          409: ErrorResponseSchema,
+        },
+      },
+    },
+    async (request: FastifyRequest<{ Params: BookingParams }>, reply: FastifyReply) => {
+      const userId = request.jwtUser!.userId;
+      const bookingId = request.params.id;
+
+      const [booking] = await db
+        .select({ id: bookings.id })
+        .from(bookings)
+        .where(
+          and(
+            eq(bookings.id, bookingId),
+            eq(bookings.userId, userId)
+          )
+        )
+        .limit(1);
+
+      if (!booking) {
+        throw ApiException.notFound(
+          'Booking not found',
+          'BOOKING_NOT_FOUND'
+        );
+      }
+
+      // Keep the booking behind a claim Eurostar is handling or paying out
+      await assertNoClaimsIn(
+        db,
+        bookingId,
+        UNSETTLED_CLAIM_STATUSES,
+        'A booking cannot be deleted while its claim is submitted or approved'
+      );
+
+      // Passengers and their claims are deleted with the booking
+      await db.delete(bookings).where(eq(bookings.id, bookingId));
+
+      return reply.status(204).send();
+    }
+  );
+
+  /**
+   * GET /api/v1/bookings/:id/claim-pack - Every passenger's claim for the lead booker
+   */
+  app.get<{
+    Params: BookingParams;
+    Reply: SuccessResponse<ClaimPackResponse>;
+  }>(
+    '/api/v1/bookings/:id/claim-pack',
+    {
+      preHandler: [app.authenticate],
+      schema: {
+        params: BookingParamsSchema,
+        response: {
+          200: SuccessResponseSchema(ClaimPackResponseSchema),
+          401: ErrorResponseSchema,
+          404: ErrorResponseSchema,
+        },
+      },
+    },
+    async (request: FastifyRequest<{ Params: BookingParams }>, reply: FastifyReply) => {
+      const userId = request.jwtUser!.userId;
+      const bookingId = request.params.id;
+
+      const [booking] = await db
+        .select({ id: bookings.id })
+        .from(bookings)
+        .where(
+          and(
+            eq(bookings.id, bookingId),
+            eq(bookings.userId, userId)
+          )
+        )
+        .limit(1);
+
+      if (!booking) {
+        throw ApiException.notFound(
+          'Booking not found',
+          'BOOKING_NOT_FOUND'
+        );
+      }
+
+      const result = await claimService.getClaimPack(bookingId, db);
+      if (result.isErr()) {
+        throw ApiException.internal(result.error.message);
+      }
+
+      return reply.send(createSuccessResponse(toClaimPackResponse(result.value)));
+    }
+  );
 }
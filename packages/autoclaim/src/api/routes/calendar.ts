@@ -0,0 +1,175 @@
+/**
+ * Calendar feed routes.
+ *
+ * Each user has a secret feed URL that calendar apps subscribe to. The
+ * feed route is public, so anyone with the URL can read the trips in it;
+ * resetting the token revokes the old URL.
+ */
+
+import { randomBytes } from 'node:crypto';
+import type { FastifyInstance, FastifyRequest, FastifyReply } from 'fastify';
+import { eq } from 'drizzle-orm';
+import type { Database } from '@eurostar/core/db';
+import { users } from '@eurostar/core/db';
+import { buildCalendarFeed, loadCalendarTrips } from '../../calendar/index.js';
+import {
+  CalendarFeedParamsSchema,
+  type CalendarFeedParams,
+  CalendarFeedSchema,
+  type CalendarFeed,
+} from '../schemas/calendar.schema.js';
+import { SuccessResponseSchema, ErrorResponseSchema } from '../schemas.js';
+import {
+  createSuccessResponse,
+  ApiErrorCode,
+  type SuccessResponse,
+} from '../types.js';
+import { ApiException } from '../middleware/error-handler.js';
+
+/** Tokens are 128 random bits as lowercase hex, like the users table default */
+const TOKEN_PATTERN = /^[a-f0-9]{32}$/;
+
+/**
+ * Calendar routes options.
+ */
+export interface CalendarRoutesOptions {
+  db: Database;
+}
+
+/**
+ * Builds the feed URL for a token on the host the request came in on.
+ */
+function getFeedUrl(request: FastifyRequest, token: string): string {
+  return `${request.protocol}://${request.host}/api/v1/calendar/feeds/${token}.ics`;
+}
+
+/**
+ * Register calendar feed routes.
+ */
+export async function registerCalendarRoutes(
+  app: FastifyInstance,
+  options: CalendarRoutesOptions
+): Promise<void> {
+  const { db } = options;
+
+  /**
+   * GET /api/v1/calendar/feed - Get the user's calendar feed URL
+   */
+  app.get<{
+    Reply: SuccessResponse<CalendarFeed>;
+  }>(
+    '/api/v1/calendar/feed',
+    {
+      preHandler: [app.authenticate],
+      schema: {
+        response: {
+          200: SuccessResponseSchema(CalendarFeedSchema),
+          401: ErrorResponseSchema,
+          404: ErrorResponseSchema,
+        },
+      },
+    },
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      const userId = request.jwtUser!.userId;
+
+      const [user] = await db
+        .select({ calendarToken: users.calendarToken })
+        .from(users)
+        .where(eq(users.id, userId))
+        .limit(1);
+
+      if (!user) {
+        throw ApiException.notFound(
+          'User not found',
+          ApiErrorCode.USER_NOT_FOUND
+        );
+      }
+
+      return reply.send(
+        createSuccessResponse({ url: getFeedUrl(request, user.calendarToken) })
+      );
+    }
+  );
+
+  /**
+   * POST /api/v1/calendar/feed/reset - Replace the feed URL, revoking the old one
+   */
+  app.post<{
+    Reply: SuccessResponse<CalendarFeed>;
+  }>(
+    '/api/v1/calendar/feed/reset',
+    {
+      preHandler: [app.authenticate],
+      schema: {
+        response: {
+          200: SuccessResponseSchema(CalendarFeedSchema),
+          401: ErrorResponseSchema,
+          404: ErrorResponseSchema,
+        },
+      },
+    },
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      const userId = request.jwtUser!.userId;
+
+      const [user] = await db
+        .update(users)
+        .set({
+          calendarToken: randomBytes(16).toString('hex'),
+        })
+        .where(eq(users.id, userId))
+        .returning({ calendarToken: users.calendarToken });
+
+      if (!user) {
+        throw ApiException.notFound(
+          'User not found',
+          ApiErrorCode.USER_NOT_FOUND
+        );
+      }
+
+      return reply.send(
+        createSuccessResponse({ url: getFeedUrl(request, user.calendarToken) })
+      );
+    }
+  );
+
+  /**
+   * GET /api/v1/calendar/feeds/:token.ics - The calendar feed (no auth; the token is the secret)
+   */
+  app.get<{
+    Params: CalendarFeedParams;
+  }>(
+    '/api/v1/calendar/feeds/:file',
+    {
+      schema: {
+        params: CalendarFeedParamsSchema,
+      },
+    },
+    async (
+      request: FastifyRequest<{ Params: CalendarFeedParams }>,
+      reply: FastifyReply
+    ) => {
+      const token = request.params.file.replace(/\.ics$/, '');
+      if (!TOKEN_PATTERN.test(token)) {
+        throw ApiException.notFound('Calendar not found');
+      }
+
+      const [user] = await db
+        .select({ id: users.id })
+        .from(users)
+        .where(eq(users.calendarToken, token))
+        .limit(1);
+
+      if (!user) {
+        throw ApiException.notFound('Calendar not found');
+      }
+
+      const trips = await loadCalendarTrips(db, user.id);
+
+      return reply
+        .header('Content-Type', 'text/calendar; charset=utf-8')
+        .header('Content-Disposition', 'inline; filename="eurostar-trips.ics"')
+        .header('Cache-Control', 'private, max-age=300')
+        .send(buildCalendarFeed(trips));
+    }
+  );
+}
@@ -0,0 +1,289 @@
+/**
+ * Eurostar claim reply routes.
+ *
+ * Replies from Eurostar customer care, pasted here or forwarded to the
+ * user's inbound address, update the claims they are about. Replies that
+ * can't be applied automatically wait in a review queue until the user
+ * picks their claim or dismisses them.
+ */
+
+import type { FastifyInstance, FastifyRequest, FastifyReply } from 'fastify';
+import { and, desc, eq, inArray } from 'drizzle-orm';
+import type { Database } from '@eurostar/core/db';
+import { bookingPassengers, bookings, claimReplyReviews, claims } from '@eurostar/core/db';
+import { ClaimGeneratorService } from '../../claim-generator/index.js';
+import { parseClaimReplyEmail, type ParsedClaimReply } from '../../reply-parser/index.js';
+import {
+  ImportClaimReplySchema,
+  type ImportClaimReply,
+  ClaimReplyReviewParamsSchema,
+  type ClaimReplyReviewParams,
+  ApplyClaimReplyReviewSchema,
+  type ApplyClaimReplyReview,
+  ClaimReplyImportSchema,
+  type ClaimReplyImportResult,
+  ClaimReplyReviewSchema,
+  type ClaimReplyReviewResponse,
+} from '../schemas/claim-reply.schema.js';
+import {
+  ClaimResponseSchema,
+  SuccessResponseSchema,
+  SuccessListResponseSchema,
+  ErrorResponseSchema,
+} from '../schemas.js';
+import {
+  createSuccessResponse,
+  toClaimResponse,
+  ApiErrorCode,
+  type ClaimResponse,
+  type SuccessResponse,
+} from '../types.js';
+import { ApiException } from '../middleware/error-handler.js';
+import { toParseException } from './bookings.js';
+import { toClaimException } from './claims.js';
+
+/**
+ * Claim reply routes options.
+ */
+export interface ClaimReplyRoutesOptions {
+  db: Database;
+  claimService?: ClaimGeneratorService;
+}
+
+/**
+ * Register Eurostar claim reply routes.
+ */
+export async function registerClaimReplyRoutes(
+  app: FastifyInstance,
+  options: ClaimReplyRoutesOptions
+): Promise<void> {
+  const { db, claimService = new ClaimGeneratorService() } = options;
+
+  /**
+   * POST /api/v1/claim-replies - Import a pasted Eurostar reply
+   */
+  app.post<{
+    Body: ImportClaimReply;
+    Reply: SuccessResponse<ClaimReplyImportResult>;
+  }>(
+    '/api/v1/claim-replies',
+    {
+      preHandler: [app.authenticate],
+      schema: {
+        body: ImportClaimReplySchema,
+        response: {
+          200: SuccessResponseSchema(ClaimReplyImportSchema),
+          400: ErrorResponseSchema,
+          401: ErrorResponseSchema,
+        },
+      },
+    },
+    async (request: FastifyRequest<{ Body: ImportClaimReply }>, reply: FastifyReply) => {
+      const userId = request.jwtUser!.userId;
+
+      const parsed = parseClaimReplyEmail(request.body.content);
+      if (parsed.isErr()) {
+        throw toParseException(parsed.error);
+      }
+
+      const result = await claimService.importClaimReply(
+        userId,
+        parsed.value,
+        db,
+        request.body.subject ?? null
+      );
+
+      return reply.send(createSuccessResponse(result));
+    }
+  );
+
+  /**
+   * GET /api/v1/claim-replies/reviews - Replies waiting for the user
+   */
+  app.get<{
+    Reply: SuccessResponse<ClaimReplyReviewResponse[]>;
+  }>(
+    '/api/v1/claim-replies/reviews',
+    {
+      preHandler: [app.authenticate],
+      schema: {
+        response: {
+          200: SuccessListResponseSchema(ClaimReplyReviewSchema),
+          401: ErrorResponseSchema,
+        },
+      },
+    },
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      const userId = request.jwtUser!.userId;
+
+      const reviews = await db
+        .select()
+        .from(claimReplyReviews)
+        .where(and(eq(claimReplyReviews.userId, userId), eq(claimReplyReviews.status, 'pending')))
+        .orderBy(desc(claimReplyReviews.createdAt));
+
+      const candidateIds = [...new Set(reviews.flatMap((review) => review.candidateClaimIds))];
+      const candidates =
+        candidateIds.length === 0
+          ? []
+          : await db
+              .select({
+                claim: claims,
+                pnr: bookings.pnr,
+                passengerName: bookingPassengers.passengerName,
+              })
+              .from(claims)
+              .innerJoin(bookings, eq(claims.bookingId, bookings.id))
+              .innerJoin(bookingPassengers, eq(claims.passengerId, bookingPassengers.id))
+              .where(and(inArray(claims.id, candidateIds), eq(bookings.userId, userId)));
+      const candidatesById = new Map(
+        candidates.map(({ claim, pnr, passengerName }) => [
+          claim.id,
+          {
+            claimId: claim.id,
+            pnr,
+            passengerName,
+            status: claim.status,
+            eligibleCashAmount: claim.eligibleCashAmount ? parseFloat(claim.eligibleCashAmount) : 0,
+            eligibleVoucherAmount: claim.eligibleVoucherAmount
+              ? parseFloat(claim.eligibleVoucherAmount)
+              : 0,
+            currency: claim.currency,
+          },
+        ])
+      );
+
+      return reply.send(
+        createSuccessResponse(
+          reviews.map((review) => ({
+            id: review.id,
+            reason: review.reason,
+            subject: review.subject,
+            reply: review.reply,
+            // Claims deleted since the reply arrived drop out
+            candidates: review.candidateClaimIds.flatMap((id) => candidatesById.get(id) ?? []),
+            createdAt: review.createdAt.toISOString(),
+          }))
+        )
+      );
+    }
+  );
+
+  /**
+   * POST /api/v1/claim-replies/reviews/:id/apply - Apply a reviewed reply to a claim
+   */
+  app.post<{
+    Params: ClaimReplyReviewParams;
+    Body: ApplyClaimReplyReview;
+    Reply: SuccessResponse<ClaimResponse>;
+  }>(
+    '/api/v1/claim-replies/reviews/:id/apply',
+    {
+      preHandler: [app.authenticate],
+      schema: {
+        params: ClaimReplyReviewParamsSchema,
+        body: ApplyClaimReplyReviewSchema,
+        response: {
+          200: SuccessResponseSchema(ClaimResponseSchema),
+          400: ErrorResponseSchema,
+          401: ErrorResponseSchema,
+          404: ErrorResponseSchema,
+          422: ErrorResponseSchema,
+        },
+      },
+    },
+    async (
+      request: FastifyRequest<{ Params: ClaimReplyReviewParams; Body: ApplyClaimReplyReview }>,
+      reply: FastifyReply
+    ) => {
+      const userId = request.jwtUser!.userId;
+      const { claimId, receivedAmount, payoutType } = request.body;
+
+      const [review] = await db
+        .select()
+        .from(claimReplyReviews)
+        .where(
+          and(
+            eq(claimReplyReviews.id, request.params.id),
+            eq(claimReplyReviews.userId, userId),
+            eq(claimReplyReviews.status, 'pending')
+          )
+        )
+        .limit(1);
+
+      if (!review) {
+        throw ApiException.notFound('Review not found', ApiErrorCode.NOT_FOUND);
+      }
+
+      const [owned] = await db
+        .select({ currency: claims.currency })
+        .from(claims)
+        .innerJoin(bookings, eq(claims.bookingId, bookings.id))
+        .where(and(eq(claims.id, claimId), eq(bookings.userId, userId)))
+        .limit(1);
+
+      if (!owned) {
+        throw ApiException.notFound('Claim not found', ApiErrorCode.CLAIM_NOT_FOUND);
+      }
+
+      // The user's amount is in the claim currency
+      const replyDetails: ParsedClaimReply = {
+        ...review.reply,
+        ...(receivedAmount !== undefined && { amount: receivedAmount, currency: owned.currency }),
+        ...(payoutType && { payoutType }),
+      };
+
+      const result = await claimService.applyClaimReply(claimId, replyDetails, db);
+      if (result.isErr()) {
+        throw toClaimException(result.error);
+      }
+
+      await db
+        .update(claimReplyReviews)
+        .set({ status: 'applied', claimId, reply: replyDetails, resolvedAt: new Date() })
+        .where(eq(claimReplyReviews.id, review.id));
+
+      return reply.send(createSuccessResponse(toClaimResponse(result.value)));
+    }
+  );
+
+  /**
+   * POST /api/v1/claim-replies/reviews/:id/dismiss - Dismiss a reviewed reply
+   */
+  app.post<{
+    Params: ClaimReplyReviewParams;
+  }>(
+    '/api/v1/claim-replies/reviews/:id/dismiss',
+    {
+      preHandler: [app.authenticate],
+      schema: {
+        params: ClaimReplyReviewParamsSchema,
+        response: {
+          401: ErrorResponseSchema,
+          404: ErrorResponseSchema,
+        },
+      },
+    },
+    async (request: FastifyRequest<{ Params: ClaimReplyReviewParams }>, reply: FastifyReply) => {
+      const userId = request.jwtUser!.userId;
+
+      const [dismissed] = await db
+        .update(claimReplyReviews)
+        .set({ status: 'dismissed', resolvedAt: new Date() })
+        .where(
+          and(
+            eq(claimReplyReviews.id, request.params.id),
+            eq(claimReplyReviews.userId, userId),
+            eq(claimReplyReviews.status, 'pending')
+          )
+        )
+        .returning({ id: claimReplyReviews.id });
+
+      if (!dismissed) {
+        throw ApiException.notFound('Review not found', ApiErrorCode.NOT_FOUND);
+      }
+
+      return reply.status(204).send();
+    }
+  );
+}
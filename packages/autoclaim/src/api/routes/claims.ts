@@ -3,16 +3,34 @@
  */
 
 import type { FastifyInstance, FastifyRequest, FastifyReply } from 'fastify';
-import { eq, and, desc, count } from 'drizzle-orm';
+import { eq, and, desc, count, inArray } from 'drizzle-orm';
 import type { Database } from '@eurostar/core/db';
-import { claims, bookings, users } from '@eurostar/core/db';
-import { ClaimGeneratorService, buildClaimFormData, generateClaimPortalUrl } from '../../claim-generator/index.js';
+import { claims, bookings, bookingPassengers, users } from '@eurostar/core/db';
+import {
+  ClaimGeneratorService,
+  ClaimGeneratorErrorCode,
+  buildClaimFormData,
+  generateClaimPortalUrl,
+  renderClaimPackPdf,
+  type ClaimGeneratorError,
+} from '../../claim-generator/index.js';
 import {
   ClaimParamsSchema,
   type ClaimParams,
   ListClaimsQuerySchema,
   type ListClaimsQuery,
+  ClaimsSummaryQuerySchema,
+  type ClaimsSummaryQuery,
+  ClaimPackQuerySchema,
+  type ClaimPackQuery,
+  UpdateClaimSchema,
+  type UpdateClaim,
+  RecordClaimOutcomeSchema,
+  type RecordClaimOutcome,
   ClaimResponseSchema,
+  ClaimStatusEventResponseSchema,
+  ClaimEvidenceResponseSchema,
+  ClaimsSummaryResponseSchema,
   SuccessResponseSchema,
   SuccessListResponseSchema,
   ErrorResponseSchema,
@@ -20,15 +38,23 @@ import {
 import {
   createSuccessResponse,
   toClaimResponse,
+  toClaimStatusEventResponse,
+  toClaimEvidenceResponse,
   toBookingResponse,
   ApiErrorCode,
   type ClaimResponse,
   type ClaimDetailResponse,
+  type ClaimStatusEventResponse,
+  type ClaimEvidenceResponse,
+  type ClaimsSummaryResponse,
   type SuccessResponse,
   type PaginationMeta,
 } from '../types.js';
 import { ApiException } from '../middleware/error-handler.js';
 
+/** Most claims one combined claim pack PDF may hold */
+const MAX_CLAIM_PACK_CLAIMS = 50;
+
 /**
  * Claims routes options.
  */
@@ -37,6 +63,28 @@ export interface ClaimsRoutesOptions {
   claimService?: ClaimGeneratorService;
 }
 
+/**
+ * Converts a claim service error into an API error.
+ */
+export function toClaimException(error: ClaimGeneratorError): ApiException {
+  switch (error.code) {
+    case ClaimGeneratorErrorCode.CLAIM_NOT_FOUND:
+      return ApiException.notFound(error.message, ApiErrorCode.CLAIM_NOT_FOUND);
+    case ClaimGeneratorErrorCode.INVALID_STATUS_TRANSITION:
+      return ApiException.unprocessable(
+        error.message,
+        ApiErrorCode.INVALID_STATUS_TRANSITION,
+        error.details
+      );
+    case ClaimGeneratorErrorCode.MISSING_DATA:
+      return ApiException.badRequest(error.message, ApiErrorCode.VALIDATION_ERROR, error.details);
+    case ClaimGeneratorErrorCode.EVIDENCE_NOT_FOUND:
+      return ApiException.notFound(error.message, ApiErrorCode.NOT_FOUND);
+    default:
+      return ApiException.internal(error.message);
+  }
+}
+
 /**
  * Register claims routes.
  */
@@ -46,6 +94,51 @@ export async function registerClaimsRoutes(
 ): Promise<void> {
   const { db, claimService = new ClaimGeneratorService() } = options;
 
+  /**
+   * Throws a 404 unless the claim exists and belongs to the user.
+   */
+  async function verifyClaimOwner(claimId: string, userId: string): Promise<void> {
+    const [verification] = await db
+      .select({ claimId: claims.id })
+      .from(claims)
+      .innerJoin(bookings, eq(claims.bookingId, bookings.id))
+      .where(
+        and(
+          eq(claims.id, claimId),
+          eq(bookings.userId, userId)
+        )
+      )
+      .limit(1);
+
+    if (!verification) {
+      throw ApiException.notFound(
+        'Claim not found',
+        'CLAIM_NOT_FOUND'
+      );
+    }
+  }
+
+  /**
+   * Renders claims as a claim pack PDF and sends it as a download.
+   */
+  async function sendClaimPack(
+    reply: FastifyReply,
+    claimIds: string[],
+    filename: string
+  ): Promise<FastifyReply> {
+    const result = await claimService.getPrintableClaims(claimIds, db);
+
+    if (result.isErr()) {
+      throw toClaimException(result.error);
+    }
+
+    return reply
+      .header('Content-Type', 'application/pdf')
+      .header('Content-Disposition', `attachment; filename="${filename}"`)
+      .header('Cache-Control', 'private, no-store')
+      .send(renderClaimPackPdf(result.value));
+  }
+
   /**
    * GET /api/v1/claims - List user's claims
    */
@@ -115,6 +208,102 @@ export async function registerClaimsRoutes(
     }
   );
 
+  /**
+   * GET /api/v1/claims/summary - Claim counts and totals in one currency
+   */
+  app.get<{
+    Querystring: ClaimsSummaryQuery;
+    Reply: SuccessResponse<ClaimsSummaryResponse>;
+  }>(
+    '/api/v1/claims/summary',
+    {
+      preHandler: [app.authenticate],
+      schema: {
+        querystring: ClaimsSummaryQuerySchema,
+        response: {
+          200: SuccessResponseSchema(ClaimsSummaryResponseSchema),
+          401: ErrorResponseSchema,
+        },
+      },
+    },
+    async (request: FastifyRequest<{ Querystring: ClaimsSummaryQuery }>, reply: FastifyReply) => {
+      const userId = request.jwtUser!.userId;
+      const summary = await claimService.getUserClaimsSummary(
+        userId,
+        db,
+        request.query.currency ?? 'EUR'
+      );
+
+      return reply.send(createSuccessResponse(summary));
+    }
+  );
+
+  /**
+   * GET /api/v1/claims/pack.pdf - Combined claim pack PDF of several claims
+   */
+  app.get<{
+    Querystring: ClaimPackQuery;
+  }>(
+    '/api/v1/claims/pack.pdf',
+    {
+      preHandler: [app.authenticate],
+      schema: {
+        querystring: ClaimPackQuerySchema,
+        response: {
+          400: ErrorResponseSchema,
+          401: ErrorResponseSchema,
+          404: ErrorResponseSchema,
+        },
+      },
+    },
+    async (request: FastifyRequest<{ Querystring: ClaimPackQuery }>, reply: FastifyReply) => {
+      const userId = request.jwtUser!.userId;
+      const { status } = request.query;
+      const requestedIds = request.query.ids ? [...new Set(request.query.ids.split(','))] : null;
+
+      if (requestedIds && requestedIds.length > MAX_CLAIM_PACK_CLAIMS) {
+        throw ApiException.badRequest(
+          `A claim pack can hold at most ${MAX_CLAIM_PACK_CLAIMS} claims`,
+          ApiErrorCode.VALIDATION_ERROR
+        );
+      }
+
+      let whereCondition = eq(bookings.userId, userId);
+      if (requestedIds) {
+        whereCondition = and(whereCondition, inArray(claims.id, requestedIds))!;
+      }
+      if (status) {
+        whereCondition = and(whereCondition, eq(claims.status, status))!;
+      }
+
+      const owned = await db
+        .select({ id: claims.id })
+        .from(claims)
+        .innerJoin(bookings, eq(claims.bookingId, bookings.id))
+        .where(whereCondition)
+        .orderBy(desc(claims.createdAt))
+        .limit(MAX_CLAIM_PACK_CLAIMS + 1);
+
+      if (requestedIds && owned.length < requestedIds.length) {
+        throw ApiException.notFound('Claim not found', ApiErrorCode.CLAIM_NOT_FOUND);
+      }
+      if (owned.length === 0) {
+        throw ApiException.notFound('No claims to include in the claim pack', ApiErrorCode.NOT_FOUND);
+      }
+      if (owned.length > MAX_CLAIM_PACK_CLAIMS) {
+        throw ApiException.badRequest(
+          `A claim pack can hold at most ${MAX_CLAIM_PACK_CLAIMS} claims; choose which to include with ids`,
+          ApiErrorCode.VALIDATION_ERROR
+        );
+      }
+
+      // Requested claims keep the order they were asked for
+      const claimIds = requestedIds ?? owned.map(({ id }) => id);
+
+      return sendClaimPack(reply, claimIds, 'eurostar-claim-pack.pdf');
+    }
+  );
+
   /**
    * GET /api/v1/claims/:id - Get claim with pre-filled form data
    */
@@ -138,15 +327,17 @@ export async function registerClaimsRoutes(
       const userId = request.jwtUser!.userId;
       const claimId = request.params.id;
 
-      // Get claim with booking and user
+      // Get claim with booking, passenger and user
       const result = await db
         .select({
           claim: claims,
           booking: bookings,
+          passenger: bookingPassengers,
           userEmail: users.email,
         })
         .from(claims)
         .innerJoin(bookings, eq(claims.bookingId, bookings.id))
+        .innerJoin(bookingPassengers, eq(claims.passengerId, bookingPassengers.id))
         .innerJoin(users, eq(bookings.userId, users.id))
         .where(
           and(
@@ -163,11 +354,11 @@ export async function registerClaimsRoutes(
         );
       }
 
-      const { claim, booking, userEmail } = result[0]!;
+      const { claim, booking, passenger, userEmail } = result[0]!;
 
       // Build form data
-      const formData = buildClaimFormData(booking, claim, userEmail);
-      const claimPortalUrl = generateClaimPortalUrl();
+      const formData = buildClaimFormData(booking, passenger, claim, userEmail);
+      const claimPortalUrl = generateClaimPortalUrl(claim.claimType);
 
       const response: ClaimDetailResponse = {
         ...toClaimResponse(claim),
@@ -180,6 +371,97 @@ export async function registerClaimsRoutes(
     }
   );
 
+  /**
+   * GET /api/v1/claims/:id/history - Claim status changes, oldest first
+   */
+  app.get<{
+    Params: ClaimParams;
+    Reply: SuccessResponse<ClaimStatusEventResponse[]>;
+  }>(
+    '/api/v1/claims/:id/history',
+    {
+      preHandler: [app.authenticate],
+      schema: {
+        params: ClaimParamsSchema,
+        response: {
+          200: SuccessListResponseSchema(ClaimStatusEventResponseSchema),
+          401: ErrorResponseSchema,
+          404: ErrorResponseSchema,
+        },
+      },
+    },
+    async (request: FastifyRequest<{ Params: ClaimParams }>, reply: FastifyReply) => {
+      const claimId = request.params.id;
+      await verifyClaimOwner(claimId, request.jwtUser!.userId);
+
+      const result = await claimService.getClaimHistory(claimId, db);
+
+      if (result.isErr()) {
+        throw toClaimException(result.error);
+      }
+
+      return reply.send(createSuccessResponse(result.value.map(toClaimStatusEventResponse)));
+    }
+  );
+
+  /**
+   * GET /api/v1/claims/:id/evidence - Delay evidence frozen when the claim was created
+   */
+  app.get<{
+    Params: ClaimParams;
+    Reply: SuccessResponse<ClaimEvidenceResponse>;
+  }>(
+    '/api/v1/claims/:id/evidence',
+    {
+      preHandler: [app.authenticate],
+      schema: {
+        params: ClaimParamsSchema,
+        response: {
+          200: SuccessResponseSchema(ClaimEvidenceResponseSchema),
+          401: ErrorResponseSchema,
+          404: ErrorResponseSchema,
+        },
+      },
+    },
+    async (request: FastifyRequest<{ Params: ClaimParams }>, reply: FastifyReply) => {
+      const claimId = request.params.id;
+      await verifyClaimOwner(claimId, request.jwtUser!.userId);
+
+      const result = await claimService.getClaimEvidence(claimId, db);
+
+      if (result.isErr()) {
+        throw toClaimException(result.error);
+      }
+
+      return reply.send(createSuccessResponse(toClaimEvidenceResponse(result.value)));
+    }
+  );
+
+  /**
+   * GET /api/v1/claims/:id/pack.pdf - Claim pack PDF of one claim
+   */
+  app.get<{
+    Params: ClaimParams;
+  }>(
+    '/api/v1/claims/:id/pack.pdf',
+    {
+      preHandler: [app.authenticate],
+      schema: {
+        params: ClaimParamsSchema,
+        response: {
+          401: ErrorResponseSchema,
+          404: ErrorResponseSchema,
+        },
+      },
+    },
+    async (request: FastifyRequest<{ Params: ClaimParams }>, reply: FastifyReply) => {
+      const claimId = request.params.id;
+      await verifyClaimOwner(claimId, request.jwtUser!.userId);
+
+      return sendClaimPack(reply, [claimId], `eurostar-claim-${claimId.slice(0, 8)}.pdf`);
+    }
+  );
+
   /**
    * POST /api/v1/claims/:id/submitted - Mark claim as submitted by user
    */
@@ -201,42 +483,99 @@ export async function registerClaimsRoutes(
       },
     },
     async (request: FastifyRequest<{ Params: ClaimParams }>, reply: FastifyReply) => {
-      const userId = request.jwtUser!.userId;
       const claimId = request.params.id;
+      await verifyClaimOwner(claimId, request.jwtUser!.userId);
 
-      // Verify claim belongs to user
-      const [verification] = await db
-        .select({ claimId: claims.id })
-        .from(claims)
-        .innerJoin(bookings, eq(claims.bookingId, bookings.id))
-        .where(
-          and(
-            eq(claims.id, claimId),
-            eq(bookings.userId, userId)
-          )
-        )
-        .limit(1);
+      // Mark as submitted
+      const result = await claimService.markAsSubmitted(claimId, db);
 
-      if (!verification) {
-        throw ApiException.notFound(
-          'Claim not found',
-          'CLAIM_NOT_FOUND'
-        );
+      if (result.isErr()) {
+        throw toClaimException(result.error);
       }
 
-      // Mark as submitted
-      const result = await claimService.markAsSubmitted(claimId, db);
+      return reply.send(createSuccessResponse(toClaimResponse(result.value)));
+    }
+  );
+
+  /**
+   * PATCH /api/v1/claims/:id - Record the Eurostar case number
+   */
+  app.patch<{
+    Params: ClaimParams;
+    Body: UpdateClaim;
+    Reply: SuccessResponse<ClaimResponse>;
+  }>(
+    '/api/v1/claims/:id',
+    {
+      preHandler: [app.authenticate],
+      schema: {
+        params: ClaimParamsSchema,
+        body: UpdateClaimSchema,
+        response: {
+          200: SuccessResponseSchema(ClaimResponseSchema),
+          400: ErrorResponseSchema,
+          401: ErrorResponseSchema,
+          404: ErrorResponseSchema,
+          422: ErrorResponseSchema,
+        },
+      },
+    },
+    async (
+      request: FastifyRequest<{ Params: ClaimParams; Body: UpdateClaim }>,
+      reply: FastifyReply
+    ) => {
+      const claimId = request.params.id;
+      await verifyClaimOwner(claimId, request.jwtUser!.userId);
+
+      const reference = request.body.eurostarReference?.trim() || null;
+      const result = await claimService.setEurostarReference(claimId, reference, db);
+
+      if (result.isErr()) {
+        throw toClaimException(result.error);
+      }
+
+      return reply.send(createSuccessResponse(toClaimResponse(result.value)));
+    }
+  );
+
+  /**
+   * POST /api/v1/claims/:id/outcome - Record Eurostar's decision on a submitted claim
+   */
+  app.post<{
+    Params: ClaimParams;
+    Body: RecordClaimOutcome;
+    Reply: SuccessResponse<ClaimResponse>;
+  }>(
+    '/api/v1/claims/:id/outcome',
+    {
+      preHandler: [app.authenticate],
+      schema: {
+        params: ClaimParamsSchema,
+        body: RecordClaimOutcomeSchema,
+        response: {
+          200: SuccessResponseSchema(ClaimResponseSchema),
+          400: ErrorResponseSchema,
+          401: ErrorResponseSchema,
+          404: ErrorResponseSchema,
+          422: ErrorResponseSchema,
+        },
+      },
+    },
+    async (
+      request: FastifyRequest<{ Params: ClaimParams; Body: RecordClaimOutcome }>,
+      reply: FastifyReply
+    ) => {
+      const userId = request.jwtUser!.userId;
+      const claimId = request.params.id;
+      await verifyClaimOwner(claimId, userId);
+
+      const result = await claimService.recordOutcome(claimId, request.body, db, {
+        actor: 'user',
+        actorUserId: userId,
+      });
 
       if (result.isErr()) {
-        const error = result.error;
-        if (error.code === 'INVALID_STATUS_TRANSITION') {
-          throw ApiException.unprocessable(
-            error.message,
-            ApiErrorCode.INVALID_STATUS_TRANSITION,
-            error.details
-          );
-        }
-        throw ApiException.internal(error.message);
+        throw toClaimException(result.error);
       }
 
       return reply.send(createSuccessResponse(toClaimResponse(result.value)));
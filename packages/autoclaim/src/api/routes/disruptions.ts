@@ -0,0 +1,177 @@
+/**
+ * Disruption routes (GTFS-RT service alerts).
+ */
+
+import type { FastifyInstance, FastifyRequest, FastifyReply } from 'fastify';
+import { eq, and, desc, gte } from 'drizzle-orm';
+import type { Database } from '@eurostar/core/db';
+import {
+  bookings,
+  serviceAlerts,
+  trainAlerts,
+  type Booking,
+  type ServiceAlert,
+} from '@eurostar/core/db';
+import { isAlertActive, isAlertActiveBetween } from '@eurostar/core/gtfs';
+import { matchBookingToTrain, resolveStationCode } from '../../delay-monitor/index.js';
+import {
+  ListDisruptionsQuerySchema,
+  type ListDisruptionsQuery,
+  DisruptionResponseSchema,
+  SuccessListResponseSchema,
+  ErrorResponseSchema,
+} from '../schemas.js';
+import {
+  createSuccessResponse,
+  toDisruptionResponse,
+  type DisruptionResponse,
+  type SuccessResponse,
+} from '../types.js';
+import { ApiException } from '../middleware/error-handler.js';
+
+/**
+ * Alerts not seen in the feed for this long are no longer current.
+ */
+const ALERT_FRESHNESS_MS = 15 * 60 * 1000;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Disruption routes options.
+ */
+export interface DisruptionRoutesOptions {
+  db: Database;
+}
+
+/**
+ * Finds alerts relevant to a booking:
+ * - alerts linked to the booking's train, and
+ * - stop-level or network-wide alerts active on the journey date that
+ *   affect the booking's origin or destination.
+ */
+async function findBookingDisruptions(
+  db: Database,
+  booking: Booking
+): Promise<ServiceAlert[]> {
+  const alerts = new Map<string, ServiceAlert>();
+
+  const match = await matchBookingToTrain(booking, db);
+  if (match.train) {
+    const linked = await db
+      .select({ alert: serviceAlerts })
+      .from(trainAlerts)
+      .innerJoin(serviceAlerts, eq(trainAlerts.alertId, serviceAlerts.id))
+      .where(eq(trainAlerts.trainId, match.train.id));
+
+    for (const { alert } of linked) {
+      alerts.set(alert.id, alert);
+    }
+  }
+
+  const dayStart = new Date(booking.journeyDate);
+  dayStart.setUTCHours(0, 0, 0, 0);
+  const dayEnd = new Date(dayStart.getTime() + DAY_MS);
+  const stations = new Set([
+    resolveStationCode(booking.origin),
+    resolveStationCode(booking.destination),
+  ]);
+
+  const candidates = await db
+    .select()
+    .from(serviceAlerts)
+    .where(gte(serviceAlerts.lastSeenAt, dayStart));
+
+  for (const alert of candidates) {
+    const affectsJourney = alert.informedEntities.some(
+      (entity) =>
+        entity.tripId === null &&
+        entity.routeId === null &&
+        (entity.stopId === null || stations.has(entity.stopId))
+    );
+
+    if (affectsJourney && isAlertActiveBetween(alert, dayStart, dayEnd)) {
+      alerts.set(alert.id, alert);
+    }
+  }
+
+  return [...alerts.values()].sort(
+    (a, b) => b.lastSeenAt.getTime() - a.lastSeenAt.getTime()
+  );
+}
+
+/**
+ * Register disruption routes.
+ */
+export async function registerDisruptionRoutes(
+  app: FastifyInstance,
+  options: DisruptionRoutesOptions
+): Promise<void> {
+  const { db } = options;
+
+  /**
+   * GET /api/v1/disruptions - Current disruptions, or those affecting a booking
+   */
+  app.get<{
+    Querystring: ListDisruptionsQuery;
+    Reply: SuccessResponse<DisruptionResponse[]>;
+  }>(
+    '/api/v1/disruptions',
+    {
+      preHandler: [app.authenticate],
+      schema: {
+        querystring: ListDisruptionsQuerySchema,
+        response: {
+          200: SuccessListResponseSchema(DisruptionResponseSchema),
+          401: ErrorResponseSchema,
+          404: ErrorResponseSchema,
+        },
+      },
+    },
+    async (request: FastifyRequest<{ Querystring: ListDisruptionsQuery }>, reply: FastifyReply) => {
+      const userId = request.jwtUser!.userId;
+      const { bookingId, lang = 'en' } = request.query;
+      const now = new Date();
+
+      if (bookingId) {
+        const [booking] = await db
+          .select()
+          .from(bookings)
+          .where(
+            and(
+              eq(bookings.id, bookingId),
+              eq(bookings.userId, userId)
+            )
+          )
+          .limit(1);
+
+        if (!booking) {
+          throw ApiException.notFound(
+            'Booking not found',
+            'BOOKING_NOT_FOUND'
+          );
+        }
+
+        const alerts = await findBookingDisruptions(db, booking);
+
+        return reply.send(
+          createSuccessResponse(alerts.map((alert) => toDisruptionResponse(alert, lang, now)))
+        );
+      }
+
+      // Current disruptions: still in the feed and within an active period
+      const recent = await db
+        .select()
+        .from(serviceAlerts)
+        .where(gte(serviceAlerts.lastSeenAt, new Date(now.getTime() - ALERT_FRESHNESS_MS)))
+        .orderBy(desc(serviceAlerts.lastSeenAt));
+
+      return reply.send(
+        createSuccessResponse(
+          recent
+            .filter((alert) => isAlertActive(alert, now))
+            .map((alert) => toDisruptionResponse(alert, lang, now))
+        )
+      );
+    }
+  );
+}
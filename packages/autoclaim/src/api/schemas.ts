@@ -2,7 +2,7 @@
  * TypeBox schemas for API request validation.
  */
 
-import { Type, type Static } from '@sinclair/typebox';
+import { Type, type Static, type TSchema } from '@sinclair/typebox';
 
 // ============================================================================
 // Common Schemas
@@ -56,6 +56,22 @@ export const StationCodeSchema = Type.String({
   maxLength: 10,
 });
 
+/**
+ * Fare currency enum.
+ */
+export const CurrencySchema = Type.Union([
+  Type.Literal('EUR'),
+  Type.Literal('GBP'),
+]);
+
+/**
+ * Ticket price (fare paid for one passenger).
+ */
+export const TicketPriceSchema = Type.Number({
+  exclusiveMinimum: 0,
+  maximum: 100000,
+});
+
 /**
  * Claim status enum.
  */
@@ -66,6 +82,7 @@ export const ClaimStatusSchema = Type.Union([
   Type.Literal('approved'),
   Type.Literal('rejected'),
   Type.Literal('expired'),
+  Type.Literal('withdrawn'),
 ]);
 
 // ============================================================================
@@ -117,6 +134,8 @@ export const CreateBookingManualSchema = Type.Object({
   destination: StationCodeSchema,
   coach: Type.Optional(Type.String({ maxLength: 3 })),
   seat: Type.Optional(Type.String({ maxLength: 5 })),
+  ticketPrice: Type.Optional(TicketPriceSchema),
+  currency: Type.Optional(CurrencySchema),
 });
 
 export type CreateBookingManual = Static<typeof CreateBookingManualSchema>;
@@ -131,6 +150,110 @@ export const CreateBookingSchema = Type.Union([
 
 export type CreateBooking = Static<typeof CreateBookingSchema>;
 
+// ============================================================================
+// Update Booking Schemas
+// ============================================================================
+
+/**
+ * Update booking request. Only the fields given are changed; null clears
+ * the coach or seat. Passenger, coach and seat apply to the lead booker.
+ */
+export const UpdateBookingSchema = Type.Object({
+  trainNumber: Type.Optional(TrainNumberSchema),
+  journeyDate: Type.Optional(DateStringSchema),
+  origin: Type.Optional(StationCodeSchema),
+  destination: Type.Optional(StationCodeSchema),
+  passengerName: Type.Optional(Type.String({ minLength: 1, maxLength: 255 })),
+  coach: Type.Optional(Type.Union([Type.String({ maxLength: 3 }), Type.Null()])),
+  seat: Type.Optional(Type.Union([Type.String({ maxLength: 5 }), Type.Null()])),
+});
+
+export type UpdateBooking = Static<typeof UpdateBookingSchema>;
+
+/**
+ * Set or clear (null) the delay cause of a booking's journey.
+ */
+export const UpdateBookingDelayCauseSchema = Type.Object({
+  cause: Type.Union([Type.String({ minLength: 1, maxLength: 32 }), Type.Null()]),
+});
+
+export type UpdateBookingDelayCause = Static<typeof UpdateBookingDelayCauseSchema>;
+
+// ============================================================================
+// Bulk Import Schemas
+// ============================================================================
+
+const CsvColumnSchema = Type.Optional(Type.String({ minLength: 1, maxLength: 100 }));
+
+/**
+ * Bulk import from a spreadsheet exported as CSV. Columns are found by their
+ * usual headers; `columns` names the header for fields where they differ.
+ * With `dryRun` the file is checked but nothing is saved.
+ */
+export const ImportCsvSchema = Type.Object({
+  csv: Type.String({ minLength: 1, maxLength: 900000 }),
+  columns: Type.Optional(
+    Type.Object({
+      pnr: CsvColumnSchema,
+      tcn: CsvColumnSchema,
+      trainNumber: CsvColumnSchema,
+      journeyDate: CsvColumnSchema,
+      passengerName: CsvColumnSchema,
+      origin: CsvColumnSchema,
+      destination: CsvColumnSchema,
+      coach: CsvColumnSchema,
+      seat: CsvColumnSchema,
+      ticketPrice: CsvColumnSchema,
+      currency: CsvColumnSchema,
+    })
+  ),
+  dateFormat: Type.Optional(
+    Type.Union([Type.Literal('YYYY-MM-DD'), Type.Literal('DD/MM/YYYY'), Type.Literal('MM/DD/YYYY')])
+  ),
+  delimiter: Type.Optional(Type.String({ minLength: 1, maxLength: 1 })),
+  dryRun: Type.Optional(Type.Boolean()),
+});
+
+export type ImportCsv = Static<typeof ImportCsvSchema>;
+
+// ============================================================================
+// Claim Outcome Schemas
+// ============================================================================
+
+/**
+ * Whether compensation was paid as cash or a voucher.
+ */
+export const PayoutTypeSchema = Type.Union([Type.Literal('cash'), Type.Literal('voucher')]);
+
+/**
+ * Eurostar case number for a claim.
+ */
+export const EurostarReferenceSchema = Type.String({ minLength: 1, maxLength: 32 });
+
+/**
+ * Update a claim's Eurostar case number (null clears it).
+ */
+export const UpdateClaimSchema = Type.Object({
+  eurostarReference: Type.Union([EurostarReferenceSchema, Type.Null()]),
+});
+
+export type UpdateClaim = Static<typeof UpdateClaimSchema>;
+
+/**
+ * Eurostar's decision on a submitted claim. Approvals need the amount
+ * received (in the claim currency) and payout type.
+ */
+export const RecordClaimOutcomeSchema = Type.Object({
+  decision: Type.Union([Type.Literal('approved'), Type.Literal('rejected')]),
+  receivedAmount: Type.Optional(Type.Number({ minimum: 0, maximum: 100000 })),
+  payoutType: Type.Optional(PayoutTypeSchema),
+  rejectionReason: Type.Optional(Type.String({ minLength: 1, maxLength: 1000 })),
+  eurostarReference: Type.Optional(EurostarReferenceSchema),
+  voucherCode: Type.Optional(Type.String({ minLength: 1, maxLength: 32 })),
+});
+
+export type RecordClaimOutcome = Static<typeof RecordClaimOutcomeSchema>;
+
 // ============================================================================
 // List Query Schemas
 // ============================================================================
@@ -155,6 +278,7 @@ export const ListBookingsQuerySchema = Type.Intersect([
       Type.Literal('pending'),
       Type.Literal('completed'),
       Type.Literal('with_delay'),
+      Type.Literal('cancelled'),
     ])),
   }),
 ]);
@@ -173,6 +297,43 @@ export const ListClaimsQuerySchema = Type.Intersect([
 
 export type ListClaimsQuery = Static<typeof ListClaimsQuerySchema>;
 
+/**
+ * Claim pack query parameters: the claims to include as comma-separated
+ * IDs, or else all of the user's claims (optionally with one status).
+ */
+export const ClaimPackQuerySchema = Type.Object({
+  ids: Type.Optional(
+    Type.String({
+      pattern:
+        '^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}' +
+        '(,[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12})*$',
+    })
+  ),
+  status: Type.Optional(ClaimStatusSchema),
+});
+
+export type ClaimPackQuery = Static<typeof ClaimPackQuerySchema>;
+
+/**
+ * Claims summary query parameters.
+ */
+export const ClaimsSummaryQuerySchema = Type.Object({
+  currency: Type.Optional(CurrencySchema),
+});
+
+export type ClaimsSummaryQuery = Static<typeof ClaimsSummaryQuerySchema>;
+
+/**
+ * List disruptions query parameters.
+ * Without a bookingId, returns disruptions that are currently active.
+ */
+export const ListDisruptionsQuerySchema = Type.Object({
+  bookingId: Type.Optional(UuidSchema),
+  lang: Type.Optional(Type.String({ pattern: '^[a-zA-Z]{2}(-[a-zA-Z]{2})?$' })),
+});
+
+export type ListDisruptionsQuery = Static<typeof ListDisruptionsQuerySchema>;
+
 // ============================================================================
 // Response Schemas
 // ============================================================================
@@ -237,7 +398,12 @@ export const BookingResponseSchema = Type.Object({
   coach: Type.Union([Type.String(), Type.Null()]),
   seat: Type.Union([Type.String(), Type.Null()]),
   finalDelayMinutes: Type.Union([Type.Integer(), Type.Null()]),
+  cancelledAt: Type.Union([Type.String(), Type.Null()]),
+  ticketPrice: Type.Union([Type.Number(), Type.Null()]),
+  ticketCurrency: Type.Union([CurrencySchema, Type.Null()]),
   trainId: Type.Union([UuidSchema, Type.Null()]),
+  tripGroupId: Type.Union([UuidSchema, Type.Null()]),
+  tripLeg: Type.Union([Type.Integer(), Type.Null()]),
   createdAt: Type.String(),
   updatedAt: Type.String(),
 });
@@ -248,15 +414,354 @@ export const BookingResponseSchema = Type.Object({
 export const ClaimResponseSchema = Type.Object({
   id: UuidSchema,
   bookingId: UuidSchema,
+  passengerId: UuidSchema,
+  claimType: Type.Union([Type.Literal('delay'), Type.Literal('cancellation')]),
   delayMinutes: Type.Integer(),
   eligibleCashAmount: Type.Number(),
   eligibleVoucherAmount: Type.Number(),
+  currency: CurrencySchema,
   status: ClaimStatusSchema,
   submittedAt: Type.Union([Type.String(), Type.Null()]),
+  eurostarReference: Type.Union([Type.String(), Type.Null()]),
+  decidedAt: Type.Union([Type.String(), Type.Null()]),
+  receivedAmount: Type.Union([Type.Number(), Type.Null()]),
+  payoutType: Type.Union([PayoutTypeSchema, Type.Null()]),
+  rejectionReason: Type.Union([Type.String(), Type.Null()]),
+  voucherCode: Type.Union([Type.String(), Type.Null()]),
   createdAt: Type.String(),
   updatedAt: Type.String(),
 });
 
+/**
+ * Claim status history entry schema.
+ */
+export const ClaimStatusEventResponseSchema = Type.Object({
+  id: UuidSchema,
+  fromStatus: Type.Union([ClaimStatusSchema, Type.Null()]),
+  toStatus: ClaimStatusSchema,
+  actor: Type.Union([Type.Literal('user'), Type.Literal('system'), Type.Literal('email')]),
+  note: Type.Union([Type.String(), Type.Null()]),
+  createdAt: Type.String(),
+});
+
+const AlertTextSchema = Type.Object({
+  text: Type.String(),
+  language: Type.Union([Type.String(), Type.Null()]),
+});
+
+/**
+ * Claim delay evidence snapshot schema.
+ */
+export const ClaimEvidenceSnapshotSchema = Type.Object({
+  capturedAt: Type.String(),
+  booking: Type.Object({
+    pnr: Type.String(),
+    trainNumber: Type.String(),
+    journeyDate: Type.String(),
+    origin: Type.String(),
+    destination: Type.String(),
+  }),
+  claim: Type.Object({
+    claimType: Type.Union([Type.Literal('delay'), Type.Literal('cancellation')]),
+    delayMinutes: Type.Integer(),
+  }),
+  train: Type.Union([
+    Type.Object({
+      tripId: Type.String(),
+      trainNumber: Type.String(),
+      date: Type.String(),
+      scheduledDeparture: Type.String(),
+      scheduledArrival: Type.String(),
+      delayMinutes: Type.Union([Type.Integer(), Type.Null()]),
+      scheduleRelationship: Type.Union([
+        Type.Literal('scheduled'),
+        Type.Literal('added'),
+        Type.Literal('canceled'),
+      ]),
+      delayCauseOverride: Type.Union([Type.String(), Type.Null()]),
+    }),
+    Type.Null(),
+  ]),
+  feed: Type.Object({
+    observationCount: Type.Integer(),
+    firstObservedAt: Type.Union([Type.String(), Type.Null()]),
+    lastObservedAt: Type.Union([Type.String(), Type.Null()]),
+    firstFeedTimestamp: Type.Union([Type.String(), Type.Null()]),
+    lastFeedTimestamp: Type.Union([Type.String(), Type.Null()]),
+  }),
+  stops: Type.Array(
+    Type.Object({
+      stationCode: Type.String(),
+      stopSequence: Type.Union([Type.Integer(), Type.Null()]),
+      scheduledArrival: Type.Union([Type.String(), Type.Null()]),
+      history: Type.Array(
+        Type.Object({
+          observedAt: Type.String(),
+          feedTimestamp: Type.Union([Type.String(), Type.Null()]),
+          scheduleRelationship: Type.Union([
+            Type.Literal('scheduled'),
+            Type.Literal('skipped'),
+            Type.Literal('no_data'),
+          ]),
+          arrivalDelayMinutes: Type.Integer(),
+          departureDelayMinutes: Type.Integer(),
+        })
+      ),
+    })
+  ),
+  alerts: Type.Array(
+    Type.Object({
+      alertId: Type.String(),
+      cause: Type.String(),
+      effect: Type.String(),
+      headerText: Type.Array(AlertTextSchema),
+      descriptionText: Type.Array(AlertTextSchema),
+      url: Type.Union([Type.String(), Type.Null()]),
+      activePeriods: Type.Array(
+        Type.Object({
+          start: Type.Union([Type.String(), Type.Null()]),
+          end: Type.Union([Type.String(), Type.Null()]),
+        })
+      ),
+      firstSeenAt: Type.String(),
+      lastSeenAt: Type.String(),
+    })
+  ),
+});
+
+/**
+ * Claim delay evidence response schema.
+ */
+export const ClaimEvidenceResponseSchema = Type.Object({
+  claimId: UuidSchema,
+  hashAlgorithm: Type.Literal('sha256'),
+  contentHash: Type.String(),
+  evidence: ClaimEvidenceSnapshotSchema,
+  report: Type.String(),
+});
+
+/**
+ * Booking passenger response schema.
+ */
+export const PassengerResponseSchema = Type.Object({
+  id: UuidSchema,
+  position: Type.Integer(),
+  passengerName: Type.String(),
+  tcn: Type.String(),
+  coach: Type.Union([Type.String(), Type.Null()]),
+  seat: Type.Union([Type.String(), Type.Null()]),
+  ticketPrice: Type.Union([Type.Number(), Type.Null()]),
+  ticketCurrency: Type.Union([CurrencySchema, Type.Null()]),
+  claim: Type.Union([ClaimResponseSchema, Type.Null()]),
+});
+
+/**
+ * Booking detail response schema.
+ */
+export const BookingDetailResponseSchema = Type.Object({
+  ...BookingResponseSchema.properties,
+  eligibility: Type.Unknown(),
+  claim: Type.Union([ClaimResponseSchema, Type.Null()]),
+  passengers: Type.Array(PassengerResponseSchema),
+  tripLegs: Type.Array(BookingResponseSchema),
+});
+
+/**
+ * Parse report field schema factory.
+ */
+function ParsedFieldSchema<T extends TSchema>(valueSchema: T) {
+  return Type.Object({
+    value: Type.Union([valueSchema, Type.Null()]),
+    confidence: Type.Union([
+      Type.Literal('high'),
+      Type.Literal('medium'),
+      Type.Literal('low'),
+      Type.Literal('none'),
+    ]),
+    pattern: Type.Union([Type.String(), Type.Null()]),
+    snippet: Type.Union([Type.String(), Type.Null()]),
+    issue: Type.Union([Type.String(), Type.Null()]),
+  });
+}
+
+/**
+ * Email parse preview response schema.
+ */
+export const ParsePreviewResponseSchema = Type.Object({
+  language: Type.Union([Type.Literal('en'), Type.Literal('fr'), Type.Literal('nl'), Type.Literal('de')]),
+  fields: Type.Object({
+    pnr: ParsedFieldSchema(Type.String()),
+    tcn: ParsedFieldSchema(Type.String()),
+    trainNumber: ParsedFieldSchema(Type.String()),
+    journeyDate: ParsedFieldSchema(Type.String()),
+    passengerName: ParsedFieldSchema(Type.String()),
+    origin: ParsedFieldSchema(Type.String()),
+    destination: ParsedFieldSchema(Type.String()),
+    coach: ParsedFieldSchema(Type.String()),
+    seat: ParsedFieldSchema(Type.String()),
+    ticketPrice: ParsedFieldSchema(Type.Number()),
+    currency: ParsedFieldSchema(CurrencySchema),
+  }),
+  needsReview: Type.Array(Type.String()),
+  canImport: Type.Boolean(),
+  passengerCount: Type.Integer(),
+  legCount: Type.Integer(),
+  error: Type.Union([
+    Type.Object({
+      code: Type.String(),
+      message: Type.String(),
+      field: Type.Union([Type.String(), Type.Null()]),
+    }),
+    Type.Null(),
+  ]),
+  duplicates: Type.Array(BookingResponseSchema),
+});
+
+/**
+ * A problem with one row of an imported spreadsheet.
+ */
+export const CsvRowErrorSchema = Type.Object({
+  row: Type.Integer(),
+  code: Type.String(),
+  message: Type.String(),
+  field: Type.Union([Type.String(), Type.Null()]),
+  value: Type.Union([Type.String(), Type.Null()]),
+});
+
+/**
+ * Result of a bulk spreadsheet import.
+ */
+export const CsvImportResponseSchema = Type.Object({
+  dryRun: Type.Boolean(),
+  imported: Type.Integer(),
+  skipped: Type.Integer(),
+  bookings: Type.Array(
+    Type.Object({
+      rows: Type.Array(Type.Integer()),
+      pnr: Type.String(),
+      tcn: Type.String(),
+      passengerName: Type.String(),
+      passengerCount: Type.Integer(),
+      legs: Type.Array(
+        Type.Object({
+          trainNumber: Type.String(),
+          journeyDate: Type.String(),
+          origin: Type.String(),
+          destination: Type.String(),
+        })
+      ),
+      id: Type.Union([Type.String(), Type.Null()]),
+      duplicateOf: Type.Union([Type.String(), Type.Null()]),
+    })
+  ),
+  errors: Type.Array(CsvRowErrorSchema),
+});
+
+/**
+ * Pre-filled claim form schema.
+ */
+export const ClaimFormDataSchema = Type.Object({
+  claimType: Type.Union([Type.Literal('delay'), Type.Literal('cancellation')]),
+  pnr: Type.String(),
+  tcn: Type.String(),
+  firstName: Type.String(),
+  lastName: Type.String(),
+  email: Type.String(),
+  trainNumber: Type.String(),
+  journeyDate: Type.String(),
+  origin: Type.String(),
+  destination: Type.String(),
+  delayMinutes: Type.Integer(),
+  eligibleCashAmount: Type.Number(),
+  eligibleVoucherAmount: Type.Number(),
+  currency: CurrencySchema,
+});
+
+/**
+ * Claim pack response schema.
+ */
+export const ClaimPackResponseSchema = Type.Object({
+  bookingId: UuidSchema,
+  pnr: Type.String(),
+  leadPassengerName: Type.String(),
+  email: Type.String(),
+  claims: Type.Array(
+    Type.Object({
+      ...ClaimResponseSchema.properties,
+      formData: ClaimFormDataSchema,
+      claimPortalUrl: Type.String(),
+    })
+  ),
+  currency: CurrencySchema,
+  totalCashAmount: Type.Number(),
+  totalVoucherAmount: Type.Number(),
+});
+
+/**
+ * Claims summary response schema.
+ */
+export const ClaimsSummaryResponseSchema = Type.Object({
+  total: Type.Integer(),
+  byStatus: Type.Object({
+    pending: Type.Integer(),
+    eligible: Type.Integer(),
+    submitted: Type.Integer(),
+    approved: Type.Integer(),
+    rejected: Type.Integer(),
+    expired: Type.Integer(),
+    withdrawn: Type.Integer(),
+  }),
+  currency: CurrencySchema,
+  totalCashAmount: Type.Number(),
+  totalVoucherAmount: Type.Number(),
+  payouts: Type.Object({
+    count: Type.Integer(),
+    expectedAmount: Type.Number(),
+    receivedAmount: Type.Number(),
+    difference: Type.Number(),
+    underpaidCount: Type.Integer(),
+  }),
+});
+
+/**
+ * Disruption (service alert) response schema.
+ */
+export const DisruptionResponseSchema = Type.Object({
+  id: UuidSchema,
+  alertId: Type.String(),
+  cause: Type.String(),
+  effect: Type.String(),
+  header: Type.Union([Type.String(), Type.Null()]),
+  description: Type.Union([Type.String(), Type.Null()]),
+  url: Type.Union([Type.String(), Type.Null()]),
+  activePeriods: Type.Array(
+    Type.Object({
+      start: Type.Union([Type.String(), Type.Null()]),
+      end: Type.Union([Type.String(), Type.Null()]),
+    })
+  ),
+  affectedTripIds: Type.Array(Type.String()),
+  affectedStops: Type.Array(Type.String()),
+  isActive: Type.Boolean(),
+  firstSeenAt: Type.String(),
+  lastSeenAt: Type.String(),
+});
+
+/**
+ * Booking delay cause response schema.
+ */
+export const BookingDelayCauseResponseSchema = Type.Object({
+  bookingId: UuidSchema,
+  delayCauseOverride: Type.Union([Type.String(), Type.Null()]),
+  delayCause: Type.Union([
+    Type.Object({
+      causes: Type.Array(Type.String()),
+      source: Type.Union([Type.Literal('manual'), Type.Literal('alert')]),
+    }),
+    Type.Null(),
+  ]),
+});
+
 /**
  * Health response schema.
  */
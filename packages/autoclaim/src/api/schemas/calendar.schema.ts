@@ -0,0 +1,23 @@
+/**
+ * TypeBox schemas for the calendar feed API.
+ */
+
+import { Type, type Static } from '@sinclair/typebox';
+
+/**
+ * Calendar feed file parameter, e.g. "0f1e2d3c4b5a69788796a5b4c3d2e1f0.ics".
+ */
+export const CalendarFeedParamsSchema = Type.Object({
+  file: Type.String({ maxLength: 100 }),
+});
+
+export type CalendarFeedParams = Static<typeof CalendarFeedParamsSchema>;
+
+/**
+ * A user's calendar feed subscription URL.
+ */
+export const CalendarFeedSchema = Type.Object({
+  url: Type.String(),
+});
+
+export type CalendarFeed = Static<typeof CalendarFeedSchema>;
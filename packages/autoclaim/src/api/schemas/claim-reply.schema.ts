@@ -0,0 +1,116 @@
+/**
+ * TypeBox schemas for the Eurostar claim reply API.
+ */
+
+import { Type, type Static } from '@sinclair/typebox';
+import {
+  ClaimStatusSchema,
+  CurrencySchema,
+  PayoutTypeSchema,
+  UuidSchema,
+} from '../schemas.js';
+
+// ============================================================================
+// Request Schemas
+// ============================================================================
+
+/**
+ * A pasted Eurostar reply.
+ */
+export const ImportClaimReplySchema = Type.Object({
+  content: Type.String({ minLength: 1, maxLength: 500000 }),
+  subject: Type.Optional(Type.String({ maxLength: 998 })),
+});
+
+export type ImportClaimReply = Static<typeof ImportClaimReplySchema>;
+
+/**
+ * Review path parameters.
+ */
+export const ClaimReplyReviewParamsSchema = Type.Object({
+  id: UuidSchema,
+});
+
+export type ClaimReplyReviewParams = Static<typeof ClaimReplyReviewParamsSchema>;
+
+/**
+ * The claim a reviewed reply is about, with the payout details the email
+ * didn't give.
+ */
+export const ApplyClaimReplyReviewSchema = Type.Object({
+  claimId: UuidSchema,
+  receivedAmount: Type.Optional(Type.Number({ minimum: 0, maximum: 100000 })),
+  payoutType: Type.Optional(PayoutTypeSchema),
+});
+
+export type ApplyClaimReplyReview = Static<typeof ApplyClaimReplyReviewSchema>;
+
+// ============================================================================
+// Response Schemas
+// ============================================================================
+
+/**
+ * What importing a reply did.
+ */
+export const ClaimReplyImportSchema = Type.Object({
+  status: Type.Union([
+    Type.Literal('updated'),
+    Type.Literal('unchanged'),
+    Type.Literal('needs_review'),
+  ]),
+  claimId: Type.Union([UuidSchema, Type.Null()]),
+  reviewId: Type.Union([UuidSchema, Type.Null()]),
+});
+
+export type ClaimReplyImportResult = Static<typeof ClaimReplyImportSchema>;
+
+/**
+ * What was read from a reply.
+ */
+export const ClaimReplyDetailsSchema = Type.Object({
+  kind: Type.Union([
+    Type.Literal('acknowledged'),
+    Type.Literal('approved'),
+    Type.Literal('rejected'),
+  ]),
+  caseReference: Type.Union([Type.String(), Type.Null()]),
+  pnr: Type.Union([Type.String(), Type.Null()]),
+  amount: Type.Union([Type.Number(), Type.Null()]),
+  currency: Type.Union([CurrencySchema, Type.Null()]),
+  payoutType: Type.Union([PayoutTypeSchema, Type.Null()]),
+  voucherCode: Type.Union([Type.String(), Type.Null()]),
+  rejectionReason: Type.Union([Type.String(), Type.Null()]),
+});
+
+/**
+ * A claim a reviewed reply might be about.
+ */
+export const ClaimReplyCandidateSchema = Type.Object({
+  claimId: UuidSchema,
+  pnr: Type.String(),
+  passengerName: Type.String(),
+  status: ClaimStatusSchema,
+  eligibleCashAmount: Type.Number(),
+  eligibleVoucherAmount: Type.Number(),
+  currency: CurrencySchema,
+});
+
+/**
+ * A reply waiting for the user to pick its claim or dismiss it.
+ */
+export const ClaimReplyReviewSchema = Type.Object({
+  id: UuidSchema,
+  reason: Type.Union([
+    Type.Literal('no_match'),
+    Type.Literal('ambiguous'),
+    Type.Literal('incomplete'),
+    Type.Literal('invalid_status'),
+    Type.Literal('unverified_sender'),
+  ]),
+  subject: Type.Union([Type.String(), Type.Null()]),
+  reply: ClaimReplyDetailsSchema,
+  candidates: Type.Array(ClaimReplyCandidateSchema),
+  createdAt: Type.String(),
+});
+
+export type ClaimReplyReviewResponse = Static<typeof ClaimReplyReviewSchema>;
@@ -0,0 +1,59 @@
+/**
+ * TypeBox schemas for the inbound email API.
+ */
+
+import { Type, type Static } from '@sinclair/typebox';
+
+// ============================================================================
+// Request Body Schemas
+// ============================================================================
+
+/**
+ * Inbound-mail webhook body.
+ *
+ * Field names differ between providers, so any JSON object is accepted and
+ * normalised by the route.
+ */
+export const InboundEmailWebhookBodySchema = Type.Record(Type.String(), Type.Unknown());
+
+export type InboundEmailWebhookBody = Static<typeof InboundEmailWebhookBodySchema>;
+
+// ============================================================================
+// Response Schemas
+// ============================================================================
+
+/**
+ * Outcome of processing an inbound email.
+ */
+export const InboundEmailStatusSchema = Type.Union([
+  Type.Literal('created'),
+  Type.Literal('duplicate'),
+  Type.Literal('claim_updated'),
+  Type.Literal('claim_unchanged'),
+  Type.Literal('claim_needs_review'),
+  Type.Literal('parse_failed'),
+  Type.Literal('unknown_recipient'),
+]);
+
+export type InboundEmailStatus = Static<typeof InboundEmailStatusSchema>;
+
+/**
+ * Webhook response.
+ */
+export const InboundEmailResultSchema = Type.Object({
+  status: InboundEmailStatusSchema,
+  bookingId: Type.Union([Type.String({ format: 'uuid' }), Type.Null()]),
+  /** The claim a Eurostar reply updated, when the email was one */
+  claimId: Type.Optional(Type.Union([Type.String({ format: 'uuid' }), Type.Null()])),
+});
+
+export type InboundEmailResult = Static<typeof InboundEmailResultSchema>;
+
+/**
+ * A user's forwarding address.
+ */
+export const InboundAddressSchema = Type.Object({
+  address: Type.String(),
+});
+
+export type InboundAddress = Static<typeof InboundAddressSchema>;
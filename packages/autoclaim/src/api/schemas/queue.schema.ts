@@ -104,8 +104,10 @@ export const PeakHoursResponseSchema = Type.Object({
 export const TerminalInfoResponseSchema = Type.Object({
   code: TerminalSchema,
   name: Type.String(),
+  stationCode: Type.String(),
   timezone: Type.String(),
   checkInOpenMinutes: Type.Integer(),
+  checkInCloseMinutes: Type.Integer(),
   peakHours: PeakHoursResponseSchema,
 });
 
@@ -2,8 +2,34 @@
  * API types for request/response formatting.
  */
 
-import type { Booking, Claim, ClaimStatus } from '@eurostar/core/db';
-import type { ClaimFormData, EligibilityStatus } from '../index.js';
+import type {
+  Booking,
+  BookingPassenger,
+  Claim,
+  ClaimEvidence,
+  ClaimEvidenceSnapshot,
+  ClaimEventActor,
+  ClaimStatus,
+  ClaimStatusEvent,
+  ClaimType,
+  CompensationType,
+  Currency,
+  ServiceAlert,
+} from '@eurostar/core/db';
+import { isAlertActive, pickTranslation } from '@eurostar/core/gtfs';
+import type {
+  ClaimFormData,
+  ClaimPack,
+  DelayCauseClassification,
+  EligibilityStatus,
+  FieldConfidence,
+  ParseReport,
+  UserClaimsSummary,
+  EmailLanguage,
+  CsvBooking,
+  CsvRowError,
+} from '../index.js';
+import { formatClaimEvidenceReport } from '../claim-generator/evidence.js';
 
 /**
  * Standard error response format.
@@ -62,6 +88,7 @@ export const ApiErrorCode = {
   ALREADY_EXISTS: 'ALREADY_EXISTS',
   NOT_ELIGIBLE: 'NOT_ELIGIBLE',
   INVALID_STATUS_TRANSITION: 'INVALID_STATUS_TRANSITION',
+  CLAIM_SUBMITTED: 'CLAIM_SUBMITTED',
   PARSE_ERROR: 'PARSE_ERROR',
 
   // Server errors
@@ -125,6 +152,8 @@ export interface CreateBookingManualRequest {
   destination: string;
   coach?: string;
   seat?: string;
+  ticketPrice?: number;
+  currency?: Currency;
 }
 
 /**
@@ -169,17 +198,120 @@ export interface BookingResponse {
   coach: string | null;
   seat: string | null;
   finalDelayMinutes: number | null;
+  cancelledAt: string | null;
+  ticketPrice: number | null;
+  ticketCurrency: Currency | null;
   trainId: string | null;
+  /** Shared by the legs of a return journey, null for one-way */
+  tripGroupId: string | null;
+  /** Leg within the trip group, 0 = outbound */
+  tripLeg: number | null;
   createdAt: string;
   updatedAt: string;
 }
 
+/**
+ * Passenger on a booking with their claim.
+ */
+export interface PassengerResponse {
+  id: string;
+  /** Order on the confirmation, 0 = lead booker */
+  position: number;
+  passengerName: string;
+  tcn: string;
+  coach: string | null;
+  seat: string | null;
+  ticketPrice: number | null;
+  ticketCurrency: Currency | null;
+  claim: ClaimResponse | null;
+}
+
 /**
  * Booking with eligibility info.
  */
 export interface BookingDetailResponse extends BookingResponse {
+  /** Lead booker's eligibility */
   eligibility: EligibilityStatus | null;
+  /** Lead booker's claim */
   claim: ClaimResponse | null;
+  passengers: PassengerResponse[];
+  /** Every leg of a return journey, outbound first (empty for one-way) */
+  tripLegs: BookingResponse[];
+}
+
+/**
+ * One field of an email parse preview.
+ */
+export interface ParsedFieldResponse<T> {
+  value: T | null;
+  confidence: FieldConfidence;
+  pattern: string | null;
+  snippet: string | null;
+  issue: string | null;
+}
+
+/**
+ * Dry-run result of parsing a confirmation email.
+ */
+export interface ParsePreviewResponse {
+  language: EmailLanguage;
+  fields: {
+    [K in keyof ParseReport['fields']]: ParsedFieldResponse<
+      K extends 'journeyDate' ? string : NonNullable<ParseReport['fields'][K]['value']>
+    >;
+  };
+  needsReview: string[];
+  /** Whether the email would be imported as it is */
+  canImport: boolean;
+  passengerCount: number;
+  legCount: number;
+  error: { code: string; message: string; field: string | null } | null;
+  /** Existing bookings the import would duplicate */
+  duplicates: BookingResponse[];
+}
+
+/**
+ * What happened to one booking read from a spreadsheet.
+ */
+export interface CsvImportOutcome {
+  booking: CsvBooking;
+  /** The created outbound booking, or null on a dry run or for a duplicate */
+  id: string | null;
+  /** The booking already in the account with the same PNR and TCN */
+  duplicateOf: string | null;
+}
+
+/**
+ * A problem with one row of an imported spreadsheet.
+ */
+export interface CsvRowErrorResponse {
+  row: number;
+  code: string;
+  message: string;
+  field: string | null;
+  value: string | null;
+}
+
+/**
+ * Result of a bulk spreadsheet import.
+ */
+export interface CsvImportResponse {
+  dryRun: boolean;
+  /** Bookings created, or that would be on a dry run */
+  imported: number;
+  /** Bookings already in the account */
+  skipped: number;
+  bookings: Array<{
+    rows: number[];
+    pnr: string;
+    tcn: string;
+    passengerName: string;
+    passengerCount: number;
+    legs: Array<{ trainNumber: string; journeyDate: string; origin: string; destination: string }>;
+    id: string | null;
+    duplicateOf: string | null;
+  }>;
+  errors: CsvRowErrorResponse[];
 }
 
 /**
@@ -188,15 +320,52 @@ export interface BookingDetailResponse extends BookingResponse {
 export interface ClaimResponse {
   id: string;
   bookingId: string;
+  passengerId: string;
+  claimType: ClaimType;
   delayMinutes: number;
   eligibleCashAmount: number;
   eligibleVoucherAmount: number;
+  currency: Currency;
   status: ClaimStatus;
   submittedAt: string | null;
+  eurostarReference: string | null;
+  decidedAt: string | null;
+  /** Amount Eurostar paid, in the claim currency */
+  receivedAmount: number | null;
+  payoutType: CompensationType | null;
+  rejectionReason: string | null;
+  /** E-voucher code, for claims paid as a voucher */
+  voucherCode: string | null;
   createdAt: string;
   updatedAt: string;
 }
 
+/**
+ * One status change in a claim's history.
+ */
+export interface ClaimStatusEventResponse {
+  id: string;
+  /** Null for the claim being created */
+  fromStatus: ClaimStatus | null;
+  toStatus: ClaimStatus;
+  actor: ClaimEventActor;
+  note: string | null;
+  createdAt: string;
+}
+
+/**
+ * Claim delay evidence response.
+ */
+export interface ClaimEvidenceResponse {
+  claimId: string;
+  hashAlgorithm: 'sha256';
+  /** Hash of the evidence serialized as JSON with its keys sorted */
+  contentHash: string;
+  evidence: ClaimEvidenceSnapshot;
+  /** The evidence as a plain text report */
+  report: string;
+}
+
 /**
  * Claim with form data response.
  */
@@ -206,6 +375,57 @@ export interface ClaimDetailResponse extends ClaimResponse {
   booking: BookingResponse;
 }
 
+/**
+ * Claim with form data, as listed in a claim pack.
+ */
+export interface ClaimPackItemResponse extends ClaimResponse {
+  formData: ClaimFormData;
+  claimPortalUrl: string;
+}
+
+/**
+ * Every passenger's claim on a booking, for the lead booker.
+ */
+export interface ClaimPackResponse extends Omit<ClaimPack, 'claims'> {
+  claims: ClaimPackItemResponse[];
+}
+
+/**
+ * Claim counts and totals in a single currency.
+ */
+export type ClaimsSummaryResponse = UserClaimsSummary;
+
+/**
+ * Disruption (service alert) response.
+ */
+export interface DisruptionResponse {
+  id: string;
+  alertId: string;
+  cause: string;
+  effect: string;
+  /** Header in the requested language (falls back to English) */
+  header: string | null;
+  description: string | null;
+  url: string | null;
+  activePeriods: Array<{ start: string | null; end: string | null }>;
+  affectedTripIds: string[];
+  affectedStops: string[];
+  isActive: boolean;
+  firstSeenAt: string;
+  lastSeenAt: string;
+}
+
+/**
+ * A booking's delay cause: the user's override and the classification
+ * eligibility checks use.
+ */
+export interface BookingDelayCauseResponse {
+  bookingId: string;
+  delayCauseOverride: string | null;
+  /** Null when no specific cause is known */
+  delayCause: DelayCauseClassification | null;
+}
+
 /**
  * Health check response.
  */
@@ -253,12 +473,109 @@ export function toBookingResponse(booking: Booking): BookingResponse {
     coach: booking.coach,
     seat: booking.seat,
     finalDelayMinutes: booking.finalDelayMinutes,
+    cancelledAt: booking.cancelledAt?.toISOString() ?? null,
+    ticketPrice: booking.ticketPrice ? parseFloat(booking.ticketPrice) : null,
+    ticketCurrency: booking.ticketCurrency,
     trainId: booking.trainId,
+    tripGroupId: booking.tripGroupId,
+    tripLeg: booking.tripLeg,
     createdAt: booking.createdAt.toISOString(),
     updatedAt: booking.updatedAt.toISOString(),
   };
 }
 
+/**
+ * Transform an email parse report to API response format.
+ */
+export function toParsePreviewResponse(report: ParseReport, duplicates: Booking[]): ParsePreviewResponse {
+  const { journeyDate, ...fields } = report.fields;
+
+  return {
+    language: report.language,
+    fields: {
+      ...fields,
+      journeyDate: { ...journeyDate, value: journeyDate.value?.toISOString().split('T')[0] ?? null },
+    },
+    needsReview: report.needsReview,
+    canImport: report.booking !== null,
+    passengerCount: report.booking?.passengers.length ?? 0,
+    legCount: report.booking?.legs.length ?? 0,
+    error: report.error
+      ? { code: report.error.code, message: report.error.message, field: report.error.field ?? null }
+      : null,
+    duplicates: duplicates.map(toBookingResponse),
+  };
+}
+
+/**
+ * Transform a spreadsheet row error to API response format.
+ */
+export function toCsvRowErrorResponse(error: CsvRowError): CsvRowErrorResponse {
+  return {
+    row: error.row,
+    code: error.code,
+    message: error.message,
+    field: error.field ?? null,
+    value: error.rawValue ?? null,
+  };
+}
+
+/**
+ * Transform the outcome of a bulk spreadsheet import to API response format.
+ */
+export function toCsvImportResponse(
+  outcomes: CsvImportOutcome[],
+  errors: CsvRowError[],
+  dryRun: boolean
+): CsvImportResponse {
+  const skipped = outcomes.filter((outcome) => outcome.duplicateOf !== null).length;
+
+  return {
+    dryRun,
+    imported: outcomes.length - skipped,
+    skipped,
+    bookings: outcomes.map(({ booking, id, duplicateOf }) => {
+      const outbound = booking.legs[0]!;
+      return {
+        rows: booking.rows,
+        pnr: outbound.pnr,
+        tcn: outbound.tcn,
+        passengerName: outbound.passengerName,
+        passengerCount: new Set(booking.legs.flatMap((leg) => leg.passengers.map((p) => p.tcn))).size,
+        legs: booking.legs.map((leg) => ({
+          trainNumber: leg.trainNumber,
+          journeyDate: leg.journeyDate.toISOString().split('T')[0]!,
+          origin: leg.origin,
+          destination: leg.destination,
+        })),
+        id,
+        duplicateOf,
+      };
+    }),
+    errors: errors.map(toCsvRowErrorResponse),
+  };
+}
+
+/**
+ * Transform a booking passenger database record to API response format.
+ */
+export function toPassengerResponse(
+  passenger: BookingPassenger,
+  claim: Claim | null
+): PassengerResponse {
+  return {
+    id: passenger.id,
+    position: passenger.position,
+    passengerName: passenger.passengerName,
+    tcn: passenger.tcn,
+    coach: passenger.coach,
+    seat: passenger.seat,
+    ticketPrice: passenger.ticketPrice ? parseFloat(passenger.ticketPrice) : null,
+    ticketCurrency: passenger.ticketCurrency,
+    claim: claim ? toClaimResponse(claim) : null,
+  };
+}
+
 /**
  * Transform a claim database record to API response format.
  */
@@ -266,6 +583,8 @@ export function toClaimResponse(claim: Claim): ClaimResponse {
   return {
     id: claim.id,
     bookingId: claim.bookingId,
+    passengerId: claim.passengerId,
+    claimType: claim.claimType,
     delayMinutes: claim.delayMinutes,
     eligibleCashAmount: claim.eligibleCashAmount
       ? parseFloat(claim.eligibleCashAmount)
@@ -273,9 +592,85 @@ export function toClaimResponse(claim: Claim): ClaimResponse {
     eligibleVoucherAmount: claim.eligibleVoucherAmount
       ? parseFloat(claim.eligibleVoucherAmount)
       : 0,
+    currency: claim.currency,
     status: claim.status,
     submittedAt: claim.submittedAt?.toISOString() ?? null,
+    eurostarReference: claim.eurostarReference,
+    decidedAt: claim.decidedAt?.toISOString() ?? null,
+    receivedAmount: claim.receivedAmount !== null ? parseFloat(claim.receivedAmount) : null,
+    payoutType: claim.payoutType,
+    rejectionReason: claim.rejectionReason,
+    voucherCode: claim.voucherCode,
     createdAt: claim.createdAt.toISOString(),
     updatedAt: claim.updatedAt.toISOString(),
   };
 }
+
+/**
+ * Transform a claim status event to API response format.
+ */
+export function toClaimStatusEventResponse(event: ClaimStatusEvent): ClaimStatusEventResponse {
+  return {
+    id: event.id,
+    fromStatus: event.fromStatus,
+    toStatus: event.toStatus,
+    actor: event.actor,
+    note: event.note,
+    createdAt: event.createdAt.toISOString(),
+  };
+}
+
+/**
+ * Transform claim evidence to API response format.
+ */
+export function toClaimEvidenceResponse(evidence: ClaimEvidence): ClaimEvidenceResponse {
+  return {
+    claimId: evidence.claimId,
+    hashAlgorithm: 'sha256',
+    contentHash: evidence.contentHash,
+    evidence: evidence.snapshot,
+    report: formatClaimEvidenceReport(evidence.snapshot, evidence.contentHash),
+  };
+}
+
+/**
+ * Transform a claim pack to API response format.
+ */
+export function toClaimPackResponse(pack: ClaimPack): ClaimPackResponse {
+  return {
+    ...pack,
+    claims: pack.claims.map(({ claim, formData, claimPortalUrl }) => ({
+      ...toClaimResponse(claim),
+      formData,
+      claimPortalUrl,
+    })),
+  };
+}
+
+/**
+ * Transform a service alert database record to API response format.
+ */
+export function toDisruptionResponse(
+  alert: ServiceAlert,
+  language = 'en',
+  now: Date = new Date()
+): DisruptionResponse {
+  const unique = (values: Array<string | null>) =>
+    [...new Set(values.filter((value): value is string => value !== null))];
+
+  return {
+    id: alert.id,
+    alertId: alert.alertId,
+    cause: alert.cause,
+    effect: alert.effect,
+    header: pickTranslation(alert.headerText, language),
+    description: pickTranslation(alert.descriptionText, language),
+    url: alert.url,
+    activePeriods: alert.activePeriods,
+    affectedTripIds: unique(alert.informedEntities.map((entity) => entity.tripId)),
+    affectedStops: unique(alert.informedEntities.map((entity) => entity.stopId)),
+    isActive: isAlertActive(alert, now),
+    firstSeenAt: alert.firstSeenAt.toISOString(),
+    lastSeenAt: alert.lastSeenAt.toISOString(),
+  };
+}
@@ -0,0 +1,222 @@
+/**
+ * Tests for the calendar feed of trips and claim deadlines.
+ */
+
+import { describe, it, expect } from 'vitest';
+import type { Booking } from '@eurostar/core/db';
+import {
+  buildCalendarFeed,
+  describeTripStatus,
+  findTerminal,
+} from '../feed.js';
+import { escapeIcsText, foldIcsLine, serializeCalendar } from '../ics.js';
+import type { CalendarTrip } from '../types.js';
+
+const NOW = new Date('2026-03-10T12:00:00Z');
+
+function createBooking(overrides: Partial<Booking> = {}): Booking {
+  return {
+    id: 'booking-1',
+    userId: 'user-1',
+    pnr: 'ABC123',
+    tcn: 'IV123456789',
+    trainNumber: '9014',
+    trainId: null,
+    journeyDate: new Date('2026-03-12'),
+    passengerName: 'Mr John Smith',
+    origin: 'GBSPX',
+    destination: 'FRPLY',
+    coach: '5',
+    seat: '61',
+    finalDelayMinutes: null,
+    cancelledAt: null,
+    ticketPrice: null,
+    ticketCurrency: null,
+    tripGroupId: null,
+    tripLeg: null,
+    createdAt: new Date('2026-01-01T00:00:00Z'),
+    updatedAt: new Date('2026-01-01T00:00:00Z'),
+    ...overrides,
+  };
+}
+
+function createTrip(overrides: Partial<CalendarTrip> = {}): CalendarTrip {
+  return {
+    booking: createBooking(),
+    departure: new Date('2026-03-12T08:01:00Z'),
+    arrival: new Date('2026-03-12T10:17:00Z'),
+    liveDelayMinutes: null,
+    liveUpdatedAt: null,
+    ...overrides,
+  };
+}
+
+/**
+ * Unfolds a feed and splits it into its events' property lines.
+ */
+function parseEvents(feed: string): string[][] {
+  return feed
+    .replace(/\r\n /g, '')
+    .split('BEGIN:VEVENT\r\n')
+    .slice(1)
+    .map((event) => event.split('\r\n'));
+}
+
+describe('ics', () => {
+  it('escapes text values', () => {
+    expect(escapeIcsText('Coach 5, Seat 61; row\nnext\\')).toBe(
+      'Coach 5\\, Seat 61\\; row\\nnext\\\\'
+    );
+  });
+
+  it('folds long lines at 75 octets', () => {
+    const folded = foldIcsLine(`DESCRIPTION:${'é'.repeat(60)}`);
+    const lines = folded.split('\r\n');
+
+    expect(lines.length).toBeGreaterThan(1);
+    expect(lines.every((line) => Buffer.byteLength(line) <= 75)).toBe(true);
+    expect(lines.slice(1).every((line) => line.startsWith(' '))).toBe(true);
+    expect(
+      lines.map((line, i) => (i === 0 ? line : line.slice(1))).join('')
+    ).toBe(`DESCRIPTION:${'é'.repeat(60)}`);
+  });
+
+  it('ends all-day events on the next day', () => {
+    const feed = serializeCalendar(
+      {
+        name: 'Test',
+        events: [
+          {
+            uid: 'a',
+            start: new Date('2026-03-13T08:00:00Z'),
+            allDay: true,
+            summary: 'A',
+          },
+        ],
+      },
+      NOW
+    );
+
+    expect(feed).toContain(
+      'DTSTART;VALUE=DATE:20260313\r\nDTEND;VALUE=DATE:20260314\r\n'
+    );
+    expect(feed.startsWith('BEGIN:VCALENDAR\r\n')).toBe(true);
+    expect(feed.endsWith('END:VCALENDAR\r\n')).toBe(true);
+  });
+});
+
+describe('findTerminal', () => {
+  it('finds the terminal of a station code or name', () => {
+    expect(findTerminal('GBSPX')?.code).toBe('st-pancras');
+    expect(findTerminal('Paris Gare du Nord')?.code).toBe('gare-du-nord');
+    expect(findTerminal('FRLIL')).toBeNull();
+  });
+});
+
+describe('describeTripStatus', () => {
+  it('prefers the final delay over the live one', () => {
+    expect(describeTripStatus(createTrip())).toBe('No live status yet');
+    expect(describeTripStatus(createTrip({ liveDelayMinutes: 45 }))).toBe(
+      'Running 45 min late'
+    );
+    expect(describeTripStatus(createTrip({ liveDelayMinutes: 0 }))).toBe(
+      'Running on time'
+    );
+    expect(
+      describeTripStatus(
+        createTrip({
+          booking: createBooking({ finalDelayMinutes: 72 }),
+          liveDelayMinutes: 45,
+        })
+      )
+    ).toBe('Arrived 72 min late');
+    expect(
+      describeTripStatus(
+        createTrip({ booking: createBooking({ cancelledAt: NOW }) })
+      )
+    ).toBe('Cancelled');
+  });
+});
+
+describe('buildCalendarFeed', () => {
+  it('publishes a booking at its scheduled times with seat and check-in times', () => {
+    const [event] = parseEvents(
+      buildCalendarFeed([createTrip({ liveDelayMinutes: 20 })], { now: NOW })
+    );
+
+    expect(event).toContain('UID:booking-booking-1@eurostar.tools');
+    expect(event).toContain('DTSTART:20260312T080100Z');
+    expect(event).toContain('DTEND:20260312T101700Z');
+    expect(event).toContain(
+      'SUMMARY:Eurostar 9014 London St Pancras → Paris Gare du Nord'
+    );
+    expect(event).toContain('STATUS:CONFIRMED');
+    expect(event).toContain(
+      'DESCRIPTION:Status: Running 20 min late\\nBooking reference: ABC123\\nCoach 5\\, Seat 61\\n' +
+        'Check-in opens 06:01 and closes 07:31'
+    );
+  });
+
+  it('uses the departure terminal local time for check-in', () => {
+    const trip = createTrip({
+      booking: createBooking({ origin: 'FRPLY', destination: 'GBSPX' }),
+      departure: new Date('2026-03-12T16:13:00Z'),
+    });
+    const [event] = parseEvents(buildCalendarFeed([trip], { now: NOW }));
+
+    expect(event!.find((line) => line.startsWith('DESCRIPTION:'))).toContain(
+      'Check-in opens 15:13 and closes 16:43'
+    );
+  });
+
+  it('falls back to an all-day event without timetable times', () => {
+    const [event] = parseEvents(
+      buildCalendarFeed([createTrip({ departure: null, arrival: null })], {
+        now: NOW,
+      })
+    );
+
+    expect(event).toContain('DTSTART;VALUE=DATE:20260312');
+    expect(event!.some((line) => line.includes('Check-in'))).toBe(false);
+  });
+
+  it('adds claim window and deadline events for a delayed trip', () => {
+    const trip = createTrip({
+      booking: createBooking({ finalDelayMinutes: 75 }),
+    });
+    const events = parseEvents(buildCalendarFeed([trip], { now: NOW }));
+
+    expect(events).toHaveLength(3);
+    expect(events[1]).toContain(
+      'SUMMARY:Claim window opens: Eurostar 9014 (ABC123)'
+    );
+    expect(events[1]).toContain('DTSTART;VALUE=DATE:20260313');
+    expect(events[2]).toContain(
+      'SUMMARY:Claim deadline: Eurostar 9014 (ABC123)'
+    );
+    expect(events[2]).toContain('DTSTART;VALUE=DATE:20260612');
+  });
+
+  it('adds no claim events for a trip on time or not yet run', () => {
+    const onTime = createTrip({
+      booking: createBooking({ finalDelayMinutes: 10 }),
+    });
+
+    expect(
+      parseEvents(buildCalendarFeed([onTime, createTrip()], { now: NOW }))
+    ).toHaveLength(2);
+  });
+
+  it('marks a cancelled trip and adds its claim events', () => {
+    const trip = createTrip({
+      booking: createBooking({ cancelledAt: new Date('2026-03-12T07:00:00Z') }),
+    });
+    const events = parseEvents(buildCalendarFeed([trip], { now: NOW }));
+
+    expect(events[0]).toContain('STATUS:CANCELLED');
+    expect(events[0]).toContain(
+      'SUMMARY:Cancelled: Eurostar 9014 London St Pancras → Paris Gare du Nord'
+    );
+    expect(events).toHaveLength(3);
+  });
+});
@@ -0,0 +1,218 @@
+/**
+ * Calendar feed of a user's trips and claim deadlines.
+ *
+ * Each booking is an event at its scheduled times, with its live delay
+ * status, coach and seat and the check-in times of the departure terminal
+ * in the description. Delayed or cancelled trips also get all-day events
+ * for the day the claim window opens and the claim deadline.
+ */
+
+import { terminalConfig, type TerminalConfig } from '@eurostar/euroqueue';
+import { resolveStationCode } from '../delay-monitor/matcher.js';
+import { getStationDisplayName } from '../claim-generator/form-data.js';
+import {
+  defaultPolicyRegistry,
+  type CompensationPolicyRegistry,
+} from '../eligibility/policies.js';
+import {
+  getClaimDeadline,
+  getClaimWindowOpenTime,
+} from '../eligibility/deadline.js';
+import { serializeCalendar } from './ics.js';
+import type { CalendarTrip, IcsEvent } from './types.js';
+
+/** Domain part of event UIDs */
+const UID_DOMAIN = 'eurostar.tools';
+
+/** How often calendar clients are asked to re-fetch the feed */
+const REFRESH_MINUTES = 60;
+
+/**
+ * Options for building a calendar feed.
+ */
+export interface CalendarFeedOptions {
+  /** Calendar name (default: "Eurostar trips") */
+  name?: string | undefined;
+  /** Generation time (defaults to now, injectable for testing) */
+  now?: Date | undefined;
+  /** Compensation policies for claim dates (default: built-in policies) */
+  policyRegistry?: CompensationPolicyRegistry | undefined;
+}
+
+/**
+ * Finds the check-in configuration of the terminal a station belongs to.
+ *
+ * @param station - Station code or name
+ * @returns The terminal, or null for stations without Eurostar check-in data
+ */
+export function findTerminal(station: string): TerminalConfig | null {
+  const code = resolveStationCode(station);
+  return (
+    Object.values(terminalConfig).find(
+      (terminal) => terminal.stationCode === code
+    ) ?? null
+  );
+}
+
+/**
+ * Formats a time as "HH:mm" in a terminal's local time.
+ */
+function formatLocalTime(date: Date, timeZone: string): string {
+  return new Intl.DateTimeFormat('en-GB', {
+    hour: '2-digit',
+    minute: '2-digit',
+    hourCycle: 'h23',
+    timeZone,
+  }).format(date);
+}
+
+/**
+ * Describes the live status of a trip, e.g. "Running 45 min late".
+ */
+export function describeTripStatus(trip: CalendarTrip): string {
+  const { booking, liveDelayMinutes } = trip;
+
+  if (booking.cancelledAt) {
+    return 'Cancelled';
+  }
+  if (booking.finalDelayMinutes !== null) {
+    return booking.finalDelayMinutes > 0
+      ? `Arrived ${booking.finalDelayMinutes} min late`
+      : 'Arrived on time';
+  }
+  if (liveDelayMinutes !== null) {
+    return liveDelayMinutes > 0
+      ? `Running ${liveDelayMinutes} min late`
+      : 'Running on time';
+  }
+  return 'No live status yet';
+}
+
+/**
+ * Builds the event for the train journey itself. Without timetable times
+ * it is an all-day event on the journey date.
+ */
+function buildJourneyEvent(trip: CalendarTrip): IcsEvent {
+  const { booking, departure, arrival } = trip;
+  const origin = getStationDisplayName(resolveStationCode(booking.origin));
+  const destination = getStationDisplayName(
+    resolveStationCode(booking.destination)
+  );
+  const cancelled = booking.cancelledAt !== null;
+
+  const description = [
+    `Status: ${describeTripStatus(trip)}`,
+    `Booking reference: ${booking.pnr}`,
+  ];
+  if (booking.coach || booking.seat) {
+    description.push(
+      [
+        booking.coach && `Coach ${booking.coach}`,
+        booking.seat && `Seat ${booking.seat}`,
+      ]
+        .filter(Boolean)
+        .join(', ')
+    );
+  }
+
+  const terminal = findTerminal(booking.origin);
+  if (terminal && departure) {
+    const opens = new Date(
+      departure.getTime() - terminal.checkInOpenMinutes * 60 * 1000
+    );
+    const closes = new Date(
+      departure.getTime() - terminal.checkInCloseMinutes * 60 * 1000
+    );
+    description.push(
+      `Check-in opens ${formatLocalTime(opens, terminal.timezone)} and closes ${formatLocalTime(closes, terminal.timezone)}`
+    );
+  }
+
+  const lastModified = [booking.updatedAt, trip.liveUpdatedAt]
+    .filter((date): date is Date => date !== null)
+    .reduce((latest, date) => (date > latest ? date : latest));
+
+  return {
+    uid: `booking-${booking.id}@${UID_DOMAIN}`,
+    start: departure ?? booking.journeyDate,
+    end: arrival ?? undefined,
+    allDay: departure === null,
+    summary: `${cancelled ? 'Cancelled: ' : ''}Eurostar ${booking.trainNumber} ${origin} → ${destination}`,
+    description: description.join('\n'),
+    location: origin,
+    status: cancelled ? 'CANCELLED' : 'CONFIRMED',
+    lastModified,
+  };
+}
+
+/**
+ * Builds the claim window and deadline events for a trip that was delayed
+ * enough to claim, or cancelled.
+ */
+function buildClaimEvents(
+  trip: CalendarTrip,
+  registry: CompensationPolicyRegistry
+): IcsEvent[] {
+  const { booking } = trip;
+  const policy = registry.findPolicy(booking.journeyDate);
+  const delay = booking.finalDelayMinutes ?? trip.liveDelayMinutes;
+  const claimable =
+    booking.cancelledAt !== null ||
+    (delay !== null && delay >= (policy?.minimumDelayMinutes ?? Infinity));
+
+  if (!policy || !claimable) {
+    return [];
+  }
+
+  const train = `Eurostar ${booking.trainNumber} (${booking.pnr})`;
+  const reason = booking.cancelledAt
+    ? 'The train was cancelled'
+    : `The train was ${delay} min late`;
+
+  return [
+    {
+      uid: `booking-${booking.id}-claim-opens@${UID_DOMAIN}`,
+      start: getClaimWindowOpenTime(
+        booking.journeyDate,
+        policy.claimWindowHours
+      ),
+      allDay: true,
+      summary: `Claim window opens: ${train}`,
+      description: `${reason}. Compensation can be claimed from today.`,
+    },
+    {
+      uid: `booking-${booking.id}-claim-deadline@${UID_DOMAIN}`,
+      start: getClaimDeadline(booking.journeyDate, policy.claimDeadlineMonths),
+      allDay: true,
+      summary: `Claim deadline: ${train}`,
+      description: `${reason}. Today is the last day to claim compensation.`,
+    },
+  ];
+}
+
+/**
+ * Builds a user's calendar feed.
+ *
+ * @param trips - The user's bookings with their train times and status
+ * @param options - Calendar name, generation time and policies
+ * @returns iCalendar text
+ */
+export function buildCalendarFeed(
+  trips: CalendarTrip[],
+  options: CalendarFeedOptions = {}
+): string {
+  const registry = options.policyRegistry ?? defaultPolicyRegistry;
+  const events = trips.flatMap((trip) => [
+    buildJourneyEvent(trip),
+    ...buildClaimEvents(trip, registry),
+  ]);
+
+  return serializeCalendar(
+    {
+      name: options.name ?? 'Eurostar trips',
+      refreshMinutes: REFRESH_MINUTES,
+      events,
+    },
+    options.now
+  );
+}
@@ -0,0 +1,132 @@
+/**
+ * iCalendar (RFC 5545) serialization.
+ *
+ * Only what the trip feed needs: timed events in UTC, all-day events and
+ * a few calendar properties. Lines are folded at 75 octets.
+ */
+
+import type { IcsCalendar, IcsEvent } from './types.js';
+
+/** Longest line allowed before folding, in octets */
+const MAX_LINE_OCTETS = 75;
+
+/**
+ * Escapes a TEXT value: backslashes, semicolons, commas and newlines.
+ */
+export function escapeIcsText(text: string): string {
+  return text
+    .replace(/\\/g, '\\\\')
+    .replace(/;/g, '\\;')
+    .replace(/,/g, '\\,')
+    .replace(/\r?\n/g, '\\n');
+}
+
+/**
+ * Formats an instant as a UTC DATE-TIME, e.g. "20260312T080100Z".
+ */
+export function formatIcsDateTime(date: Date): string {
+  return date
+    .toISOString()
+    .replace(/[-:]/g, '')
+    .replace(/\.\d{3}/, '');
+}
+
+/**
+ * Formats the UTC calendar day of a date as a DATE, e.g. "20260312".
+ */
+export function formatIcsDate(date: Date): string {
+  return date.toISOString().slice(0, 10).replace(/-/g, '');
+}
+
+/**
+ * Folds a content line so no line exceeds 75 octets, without splitting a
+ * multi-byte character.
+ */
+export function foldIcsLine(line: string): string {
+  const parts: string[] = [];
+  let current = '';
+  let octets = 0;
+
+  for (const char of line) {
+    const size = Buffer.byteLength(char);
+    // Continuation lines start with a space, which counts towards the limit
+    const limit = parts.length === 0 ? MAX_LINE_OCTETS : MAX_LINE_OCTETS - 1;
+    if (octets + size > limit) {
+      parts.push(current);
+      current = '';
+      octets = 0;
+    }
+    current += char;
+    octets += size;
+  }
+  parts.push(current);
+
+  return parts.join('\r\n ');
+}
+
+function serializeEvent(event: IcsEvent, stamp: Date): string[] {
+  const lines = [
+    'BEGIN:VEVENT',
+    `UID:${event.uid}`,
+    `DTSTAMP:${formatIcsDateTime(stamp)}`,
+  ];
+
+  if (event.allDay) {
+    const nextDay = new Date(event.start.getTime() + 24 * 60 * 60 * 1000);
+    lines.push(`DTSTART;VALUE=DATE:${formatIcsDate(event.start)}`);
+    lines.push(`DTEND;VALUE=DATE:${formatIcsDate(nextDay)}`);
+    lines.push('TRANSP:TRANSPARENT');
+  } else {
+    lines.push(`DTSTART:${formatIcsDateTime(event.start)}`);
+    lines.push(`DTEND:${formatIcsDateTime(event.end ?? event.start)}`);
+  }
+
+  lines.push(`SUMMARY:${escapeIcsText(event.summary)}`);
+  if (event.description) {
+    lines.push(`DESCRIPTION:${escapeIcsText(event.description)}`);
+  }
+  if (event.location) {
+    lines.push(`LOCATION:${escapeIcsText(event.location)}`);
+  }
+  if (event.status) {
+    lines.push(`STATUS:${event.status}`);
+  }
+  if (event.lastModified) {
+    lines.push(`LAST-MODIFIED:${formatIcsDateTime(event.lastModified)}`);
+  }
+  lines.push('END:VEVENT');
+
+  return lines;
+}
+
+/**
+ * Serializes a calendar to iCalendar text with CRLF line endings.
+ *
+ * @param calendar - Calendar name, refresh interval and events
+ * @param stamp - When the feed was generated (DTSTAMP of each event)
+ */
+export function serializeCalendar(
+  calendar: IcsCalendar,
+  stamp: Date = new Date()
+): string {
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    'PRODID:-//Eurostar Tools//Trip Calendar//EN',
+    'CALSCALE:GREGORIAN',
+    'METHOD:PUBLISH',
+    `X-WR-CALNAME:${escapeIcsText(calendar.name)}`,
+  ];
+
+  if (calendar.refreshMinutes) {
+    lines.push(`REFRESH-INTERVAL;VALUE=DURATION:PT${calendar.refreshMinutes}M`);
+    lines.push(`X-PUBLISHED-TTL:PT${calendar.refreshMinutes}M`);
+  }
+
+  for (const event of calendar.events) {
+    lines.push(...serializeEvent(event, stamp));
+  }
+  lines.push('END:VCALENDAR');
+
+  return lines.map(foldIcsLine).join('\r\n') + '\r\n';
+}
@@ -0,0 +1,19 @@
+/**
+ * Calendar module: iCalendar feed of trips and claim deadlines.
+ */
+
+export type { CalendarTrip, IcsCalendar, IcsEvent } from './types.js';
+export {
+  escapeIcsText,
+  formatIcsDate,
+  formatIcsDateTime,
+  foldIcsLine,
+  serializeCalendar,
+} from './ics.js';
+export {
+  buildCalendarFeed,
+  describeTripStatus,
+  findTerminal,
+  type CalendarFeedOptions,
+} from './feed.js';
+export { loadCalendarTrips } from './trips.js';
@@ -0,0 +1,97 @@
+/**
+ * Loads a user's bookings with their timetable times and live status.
+ */
+
+import { and, asc, eq, gte } from 'drizzle-orm';
+import type { Database } from '@eurostar/core/db';
+import { bookings, type Booking } from '@eurostar/core/db';
+import { findScheduledTrip, type ScheduledTrip } from '@eurostar/core/gtfs';
+import {
+  buildTripId,
+  findDestinationStopEvent,
+  matchBookingToTrain,
+  resolveStationCode,
+} from '../delay-monitor/matcher.js';
+import type { CalendarTrip } from './types.js';
+
+/** Past trips stay in the feed this long, covering every claim deadline */
+const HISTORY_DAYS = 365;
+
+/**
+ * Finds the scheduled times at the booking's own stations, falling back to
+ * the train's first departure and last arrival.
+ */
+function getStationTimes(
+  booking: Booking,
+  schedule: ScheduledTrip | null
+): { departure: Date | null; arrival: Date | null } {
+  if (!schedule) {
+    return { departure: null, arrival: null };
+  }
+
+  const origin = resolveStationCode(booking.origin);
+  const destination = resolveStationCode(booking.destination);
+  const stop = (code: string) => schedule.stops.find((s) => s.stopId === code);
+
+  return {
+    departure: stop(origin)?.departure ?? schedule.scheduledDeparture,
+    arrival: stop(destination)?.arrival ?? schedule.scheduledArrival,
+  };
+}
+
+/**
+ * Loads the trips in a user's calendar feed: upcoming bookings and those
+ * from the past year.
+ *
+ * @param db - Database connection
+ * @param userId - Owner of the bookings
+ * @param now - Current time (defaults to now, injectable for testing)
+ * @returns Trips in journey date order
+ */
+export async function loadCalendarTrips(
+  db: Database,
+  userId: string,
+  now: Date = new Date()
+): Promise<CalendarTrip[]> {
+  const since = new Date(now.getTime() - HISTORY_DAYS * 24 * 60 * 60 * 1000);
+  const userBookings = await db
+    .select()
+    .from(bookings)
+    .where(and(eq(bookings.userId, userId), gte(bookings.journeyDate, since)))
+    .orderBy(asc(bookings.journeyDate));
+
+  const trips: CalendarTrip[] = [];
+  for (const booking of userBookings) {
+    const schedule = await findScheduledTrip(db, {
+      tripId: buildTripId(booking.trainNumber, booking.journeyDate),
+      trainNumber: booking.trainNumber,
+      date: booking.journeyDate,
+    });
+    let { departure, arrival } = getStationTimes(booking, schedule);
+
+    const { train } = await matchBookingToTrain(booking, db);
+    let liveDelayMinutes: number | null = null;
+    if (train) {
+      // Trains from the live feed carry scheduled times even without a timetable
+      departure ??= train.scheduledDeparture;
+      arrival ??= train.scheduledArrival;
+      const destinationStop = await findDestinationStopEvent(
+        booking,
+        train.id,
+        db
+      );
+      liveDelayMinutes =
+        destinationStop?.arrivalDelayMinutes ?? train.delayMinutes;
+    }
+
+    trips.push({
+      booking,
+      departure,
+      arrival,
+      liveDelayMinutes,
+      liveUpdatedAt: train?.updatedAt ?? null,
+    });
+  }
+
+  return trips;
+}
@@ -0,0 +1,49 @@
+/**
+ * Types for the calendar feed of trips and claim deadlines.
+ */
+
+import type { Booking } from '@eurostar/core/db';
+
+/**
+ * An event in an iCalendar feed.
+ */
+export interface IcsEvent {
+  /** Stable across feed refreshes, so calendars update the event in place */
+  uid: string;
+  start: Date;
+  /** End of a timed event (default: its start) */
+  end?: Date | undefined;
+  /** All-day event on the UTC day of start */
+  allDay?: boolean | undefined;
+  summary: string;
+  description?: string | undefined;
+  location?: string | undefined;
+  status?: 'CONFIRMED' | 'CANCELLED' | undefined;
+  lastModified?: Date | undefined;
+}
+
+/**
+ * An iCalendar feed.
+ */
+export interface IcsCalendar {
+  /** Shown as the calendar's name when subscribing */
+  name: string;
+  /** How often clients should re-fetch the feed */
+  refreshMinutes?: number | undefined;
+  events: IcsEvent[];
+}
+
+/**
+ * A booking with what is known of its train.
+ */
+export interface CalendarTrip {
+  booking: Booking;
+  /** Scheduled departure from the booking's origin, if in the timetable */
+  departure: Date | null;
+  /** Scheduled arrival at the booking's destination, if in the timetable */
+  arrival: Date | null;
+  /** Latest delay reported at the destination by the live feed, if any */
+  liveDelayMinutes: number | null;
+  /** When the train's live status last changed */
+  liveUpdatedAt: Date | null;
+}
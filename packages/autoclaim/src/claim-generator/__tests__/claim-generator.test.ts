@@ -8,6 +8,8 @@ import {
   formatForClipboard,
   formatAsJson,
   validateFormData,
+  buildClaimPack,
+  formatClaimPackForClipboard,
 } from '../form-data.js';
 import {
   ClaimEventEmitter,
@@ -15,13 +17,17 @@ import {
 } from '../events.js';
 import {
   EUROSTAR_CLAIM_PORTAL_URL,
+  EUROSTAR_REFUND_PORTAL_URL,
   ClaimGeneratorErrorCode,
   createClaimGeneratorError,
 } from '../types.js';
 import {
   createMockBooking,
+  createMockPassenger,
+  createLeadPassenger,
   createMockClaim,
   createMockEligibilityStatus,
+  createMockCompensationResult,
   createIneligibleStatus,
   TEST_USER_EMAIL,
   PASSENGER_NAMES,
@@ -30,7 +36,27 @@ import {
   JOURNEY_DATES,
   EXPECTED_FORMATTED_DATES,
 } from './fixtures.js';
+import { ClaimGeneratorService } from '../service.js';
+import { summarizeClaims } from '../summary.js';
+import { reviseClaim } from '../revision.js';
+import { canTransitionClaim } from '../status.js';
+import { matchClaimReply, planClaimReply } from '../replies.js';
+import type { ParsedClaimReply } from '../../reply-parser/types.js';
+import {
+  buildClaimEvidence,
+  formatClaimEvidenceReport,
+  hashClaimEvidence,
+  toCanonicalJson,
+} from '../evidence.js';
+import { buildCompensationBreakdown, renderClaimPackPdf } from '../pdf.js';
+import { createMockStopEvent, createMockTrain } from '../../delay-monitor/__tests__/fixtures.js';
+import { createMockDb } from '../../api/__tests__/fixtures.js';
+import { defaultPolicyRegistry } from '../../eligibility/policies.js';
+import { getClaimDeadline } from '../../eligibility/deadline.js';
+import { extractPdfText } from '@eurostar/core/formats';
+import { InMemoryExchangeRateProvider } from '@eurostar/core/exchange-rates';
 import { EligibilityReason } from '../../eligibility/types.js';
+import type { ClaimEvidenceSnapshot, Database } from '@eurostar/core/db';
 
 describe('Form Data Utilities', () => {
   describe('parsePassengerName', () => {
@@ -110,7 +136,7 @@ describe('Form Data Utilities', () => {
       const booking = createMockBooking();
       const claim = createMockClaim();
 
-      const formData = buildClaimFormData(booking, claim, TEST_USER_EMAIL);
+      const formData = buildClaimFormData(booking, createLeadPassenger(booking), claim, TEST_USER_EMAIL);
 
       expect(formData.pnr).toBe('ABC123');
       expect(formData.tcn).toBe('IV123456789');
@@ -134,7 +160,7 @@ describe('Form Data Utilities', () => {
         eligibleVoucherAmount: null,
       });
 
-      const formData = buildClaimFormData(booking, claim, TEST_USER_EMAIL);
+      const formData = buildClaimFormData(booking, createLeadPassenger(booking), claim, TEST_USER_EMAIL);
 
       expect(formData.eligibleCashAmount).toBe(0);
       expect(formData.eligibleVoucherAmount).toBe(0);
@@ -147,6 +173,10 @@ describe('Form Data Utilities', () => {
       const url = generateClaimPortalUrl();
       expect(url).toBe(EUROSTAR_CLAIM_PORTAL_URL);
     });
+
+    it('returns manage-booking URL for cancellations', () => {
+      expect(generateClaimPortalUrl('cancellation')).toBe(EUROSTAR_REFUND_PORTAL_URL);
+    });
   });
 
   describe('formatForClipboard', () => {
@@ -154,7 +184,7 @@ describe('Form Data Utilities', () => {
     it('formats form data for clipboard with all fields', () => {
       const booking = createMockBooking();
       const claim = createMockClaim();
-      const formData = buildClaimFormData(booking, claim, TEST_USER_EMAIL);
+      const formData = buildClaimFormData(booking, createLeadPassenger(booking), claim, TEST_USER_EMAIL);
 
       const clipboard = formatForClipboard(formData);
 
@@ -174,7 +204,7 @@ describe('Form Data Utilities', () => {
     it('has proper section headers', () => {
       const booking = createMockBooking();
       const claim = createMockClaim();
-      const formData = buildClaimFormData(booking, claim, TEST_USER_EMAIL);
+      const formData = buildClaimFormData(booking, createLeadPassenger(booking), claim, TEST_USER_EMAIL);
 
       const clipboard = formatForClipboard(formData);
 
@@ -184,6 +214,37 @@ describe('Form Data Utilities', () => {
       expect(clipboard).toContain('Delay Information');
       expect(clipboard).toContain('Compensation Eligible');
     });
+
+    it('formats cancellations as refund/re-route', () => {
+      const booking = createMockBooking();
+      const claim = createMockClaim({
+        claimType: 'cancellation',
+        delayMinutes: 0,
+        eligibleCashAmount: '100.00',
+        eligibleVoucherAmount: '0.00',
+      });
+      const formData = buildClaimFormData(booking, createLeadPassenger(booking), claim, TEST_USER_EMAIL);
+
+      const clipboard = formatForClipboard(formData);
+
+      expect(clipboard).toContain('Cancellation Refund / Re-route');
+      expect(clipboard).toContain('€100.00');
+      expect(clipboard).not.toContain('Delay Information');
+      expect(clipboard).toContain(EUROSTAR_REFUND_PORTAL_URL);
+    });
+
+    it('uses the currency of the fare paid', () => {
+      const booking = createMockBooking({ ticketPrice: '100.00', ticketCurrency: 'GBP' });
+      const claim = createMockClaim({ currency: 'GBP' });
+      const formData = buildClaimFormData(booking, createLeadPassenger(booking), claim, TEST_USER_EMAIL);
+
+      const clipboard = formatForClipboard(formData);
+
+      expect(formData.currency).toBe('GBP');
+      expect(clipboard).toContain('£25.00');
+      expect(clipboard).toContain('£60.00');
+      expect(clipboard).not.toContain('€');
+    });
   });
 
   describe('formatAsJson', () => {
@@ -191,7 +252,7 @@ describe('Form Data Utilities', () => {
     it('returns valid JSON string', () => {
       const booking = createMockBooking();
       const claim = createMockClaim();
-      const formData = buildClaimFormData(booking, claim, TEST_USER_EMAIL);
+      const formData = buildClaimFormData(booking, createLeadPassenger(booking), claim, TEST_USER_EMAIL);
 
       const json = formatAsJson(formData);
       const parsed = JSON.parse(json);
@@ -206,7 +267,7 @@ describe('Form Data Utilities', () => {
     it('returns valid for complete form data', () => {
       const booking = createMockBooking();
       const claim = createMockClaim();
-      const formData = buildClaimFormData(booking, claim, TEST_USER_EMAIL);
+      const formData = buildClaimFormData(booking, createLeadPassenger(booking), claim, TEST_USER_EMAIL);
 
       const result = validateFormData(formData);
 
@@ -217,6 +278,7 @@ describe('Form Data Utilities', () => {
     // Test 19: Missing required fields
     it('identifies missing required fields', () => {
       const formData = {
+        claimType: 'delay' as const,
         pnr: '',
         tcn: 'IV123456789',
         firstName: '',
@@ -243,13 +305,21 @@ describe('Form Data Utilities', () => {
     it('flags zero or negative delay', () => {
       const booking = createMockBooking();
       const claim = createMockClaim({ delayMinutes: 0 });
-      const formData = buildClaimFormData(booking, claim, TEST_USER_EMAIL);
+      const formData = buildClaimFormData(booking, createLeadPassenger(booking), claim, TEST_USER_EMAIL);
 
       const result = validateFormData(formData);
 
       expect(result.valid).toBe(false);
       expect(result.missingFields).toContain('delayMinutes');
     });
+
+    it('accepts zero delay for cancellations', () => {
+      const booking = createMockBooking();
+      const claim = createMockClaim({ claimType: 'cancellation', delayMinutes: 0 });
+      const formData = buildClaimFormData(booking, createLeadPassenger(booking), claim, TEST_USER_EMAIL);
+
+      expect(validateFormData(formData).valid).toBe(true);
+    });
   });
 });
 
@@ -268,7 +338,7 @@ describe('Events', () => {
 
       const claim = createMockClaim();
       const booking = createMockBooking();
-      const formData = buildClaimFormData(booking, claim, TEST_USER_EMAIL);
+      const formData = buildClaimFormData(booking, createLeadPassenger(booking), claim, TEST_USER_EMAIL);
 
       emitter.emitClaimCreated({
         claim,
@@ -349,6 +419,7 @@ describe('Events', () => {
         bookingId: 'booking-001',
         formData: buildClaimFormData(
           createMockBooking(),
+          createMockPassenger(),
           createMockClaim(),
           TEST_USER_EMAIL
         ),
@@ -371,6 +442,7 @@ describe('Events', () => {
         bookingId: 'booking-001',
         formData: buildClaimFormData(
           createMockBooking(),
+          createMockPassenger(),
           createMockClaim(),
           TEST_USER_EMAIL
         ),
@@ -393,6 +465,7 @@ describe('Events', () => {
         bookingId: 'booking-001',
         formData: buildClaimFormData(
           createMockBooking(),
+          createMockPassenger(),
           createMockClaim(),
           TEST_USER_EMAIL
         ),
@@ -405,6 +478,909 @@ describe('Events', () => {
   });
 });
 
+describe('ClaimGeneratorService', () => {
+  describe('generateClaimsForBooking', () => {
+    it('rejects bookings where no passenger has a ticket price', async () => {
+      const service = new ClaimGeneratorService();
+      const booking = createMockBooking({ ticketPrice: null, ticketCurrency: null });
+
+      const result = await service.generateClaimsForBooking(
+        booking,
+        [createLeadPassenger(booking)],
+        TEST_USER_EMAIL,
+        {} as Database
+      );
+
+      expect(result.isErr()).toBe(true);
+      if (result.isErr()) {
+        expect(result.error.code).toBe(ClaimGeneratorErrorCode.MISSING_DATA);
+      }
+    });
+
+    it('rejects bookings whose delay is not known yet', async () => {
+      const service = new ClaimGeneratorService();
+      const booking = createMockBooking({ finalDelayMinutes: null });
+
+      const result = await service.generateClaimsForBooking(
+        booking,
+        [createLeadPassenger(booking)],
+        TEST_USER_EMAIL,
+        {} as Database
+      );
+
+      expect(result.isErr()).toBe(true);
+      if (result.isErr()) {
+        expect(result.error.code).toBe(ClaimGeneratorErrorCode.NOT_ELIGIBLE);
+      }
+    });
+  });
+
+  describe('status changes', () => {
+    /**
+     * A database whose lookup finds the given claim and whose transaction
+     * records the status update and history event. A stale claim's update
+     * matches no row, as if its status changed after the lookup.
+     */
+    function createStatusDb(claim: ReturnType<typeof createMockClaim>, stale = false) {
+      const lookup = {
+        from: () => lookup,
+        innerJoin: () => lookup,
+        where: () => lookup,
+        limit: async () => [{ claim, booking: createMockBooking() }],
+      };
+      const inserted: unknown[] = [];
+      const tx = {
+        update: () => ({
+          set: (values: object) => ({
+            where: () => ({ returning: async () => (stale ? [] : [{ ...claim, ...values }]) }),
+          }),
+        }),
+        insert: () => ({
+          values: async (values: unknown) => {
+            inserted.push(values);
+          },
+        }),
+      };
+      const transaction = vi.fn(async (fn: (t: typeof tx) => Promise<unknown>) => fn(tx));
+
+      return { db: { select: () => lookup, transaction } as unknown as Database, transaction, inserted };
+    }
+
+    it('records the change in the claim history', async () => {
+      const service = new ClaimGeneratorService();
+      const { db, inserted } = createStatusDb(createMockClaim({ status: 'submitted' }));
+
+      const result = await service.updateStatus('claim-001', 'approved', db, {
+        note: 'Approval email from Eurostar',
+      });
+
+      expect(result.isOk()).toBe(true);
+      expect(inserted).toEqual([
+        {
+          claimId: 'claim-001',
+          fromStatus: 'submitted',
+          toStatus: 'approved',
+          actor: 'system',
+          actorUserId: null,
+          note: 'Approval email from Eurostar',
+        },
+      ]);
+    });
+
+    it('records an approval with the amount and payout type received', async () => {
+      const service = new ClaimGeneratorService();
+      const { db, inserted } = createStatusDb(createMockClaim({ status: 'submitted' }));
+      const decidedAt = new Date('2026-02-10T09:00:00Z');
+
+      const result = await service.recordOutcome(
+        'claim-001',
+        { decision: 'approved', receivedAmount: 60, payoutType: 'voucher', eurostarReference: 'CAS-12345', decidedAt },
+        db
+      );
+
+      expect(result.isOk()).toBe(true);
+      if (result.isOk()) {
+        expect(result.value).toMatchObject({
+          status: 'approved',
+          receivedAmount: '60.00',
+          payoutType: 'voucher',
+          rejectionReason: null,
+          eurostarReference: 'CAS-12345',
+          decidedAt,
+        });
+      }
+      expect(inserted).toEqual([
+        expect.objectContaining({ toStatus: 'approved', note: 'Paid 60.00 EUR as a voucher' }),
+      ]);
+    });
+
+    it('requires the amount received for an approval', async () => {
+      const service = new ClaimGeneratorService();
+
+      const result = await service.recordOutcome(
+        'claim-001',
+        { decision: 'approved', payoutType: 'cash' },
+        {} as Database
+      );
+
+      expect(result.isErr()).toBe(true);
+      if (result.isErr()) {
+        expect(result.error.code).toBe(ClaimGeneratorErrorCode.MISSING_DATA);
+      }
+    });
+
+    it('rejects transitions the state machine does not allow', async () => {
+      const service = new ClaimGeneratorService();
+      const { db, transaction } = createStatusDb(createMockClaim({ status: 'eligible' }));
+
+      const result = await service.updateStatus('claim-001', 'approved', db);
+
+      expect(result.isErr()).toBe(true);
+      if (result.isErr()) {
+        expect(result.error.code).toBe(ClaimGeneratorErrorCode.INVALID_STATUS_TRANSITION);
+      }
+      expect(transaction).not.toHaveBeenCalled();
+    });
+
+    it('rejects the change if the status changed after the claim was read', async () => {
+      const service = new ClaimGeneratorService();
+      const { db, inserted } = createStatusDb(createMockClaim({ status: 'submitted' }), true);
+
+      const result = await service.updateStatus('claim-001', 'approved', db);
+
+      expect(result.isErr()).toBe(true);
+      if (result.isErr()) {
+        expect(result.error.code).toBe(ClaimGeneratorErrorCode.INVALID_STATUS_TRANSITION);
+      }
+      expect(inserted).toEqual([]);
+    });
+  });
+  describe('reevaluateClaims', () => {
+    const booking = createMockBooking();
+    const passenger = createLeadPassenger(booking);
+    const options = {
+      currentTime: new Date('2026-01-10T12:00:00Z'),
+      exchangeRate: 0.85,
+      delayCause: null,
+    };
+
+    it('recalculates a claim and takes its evidence again for the new train', async () => {
+      const service = new ClaimGeneratorService();
+      const claim = createMockClaim({ status: 'eligible' });
+      const revised = { ...claim, delayMinutes: 150 };
+      // The claim, then the new train with its stop events and alerts
+      const { db, writes } = createMockDb([
+        [{ claim, passenger }],
+        [createMockTrain({ trainNumber: '9007' })],
+        [],
+        [],
+        [revised],
+      ]);
+
+      const result = await service.reevaluateClaims(
+        createMockBooking({ finalDelayMinutes: 150 }),
+        db,
+        options
+      );
+
+      expect(result.isOk()).toBe(true);
+      if (result.isOk()) {
+        expect(result.value.updated).toEqual([revised]);
+      }
+      expect(writes[0]).toEqual({
+        kind: 'set',
+        value: expect.objectContaining({ delayMinutes: 150 }),
+      });
+      const evidence = writes[1]?.value as {
+        claimId: string;
+        snapshot: ClaimEvidenceSnapshot;
+        contentHash: string;
+      };
+      expect(evidence.claimId).toBe('claim-001');
+      expect(evidence.snapshot.claim).toEqual({ claimType: 'delay', delayMinutes: 150 });
+      expect(evidence.contentHash).toBe(hashClaimEvidence(evidence.snapshot));
+    });
+
+    it("withdraws a claim while the new train's delay isn't known, keeping its history", async () => {
+      const service = new ClaimGeneratorService();
+      const claim = createMockClaim({ status: 'eligible' });
+      const { db, writes } = createMockDb([
+        [{ claim, passenger }],
+        [{ ...claim, status: 'withdrawn' }],
+      ]);
+
+      const result = await service.reevaluateClaims(
+        createMockBooking({ trainId: null, finalDelayMinutes: null }),
+        db,
+        options
+      );
+
+      expect(result.isOk()).toBe(true);
+      if (result.isOk()) {
+        expect(result.value.updated).toEqual([]);
+        expect(result.value.withdrawn).toEqual([expect.objectContaining({ status: 'withdrawn' })]);
+      }
+      expect(writes).toEqual([
+        { kind: 'set', value: { status: 'withdrawn' } },
+        {
+          kind: 'values',
+          value: expect.objectContaining({
+            fromStatus: 'eligible',
+            toStatus: 'withdrawn',
+            note: "Booking changed; its delay isn't known yet",
+          }),
+        },
+      ]);
+    });
+
+    it('makes a withdrawn claim eligible again with evidence for the new train', async () => {
+      const service = new ClaimGeneratorService();
+      const claim = createMockClaim({ status: 'withdrawn' });
+      const { db, writes } = createMockDb([
+        [{ claim, passenger }],
+        [createMockTrain({ trainNumber: '9007' })],
+        [],
+        [],
+        [{ ...claim, status: 'eligible', delayMinutes: 150 }],
+      ]);
+
+      const result = await service.reevaluateClaims(
+        createMockBooking({ finalDelayMinutes: 150 }),
+        db,
+        options
+      );
+
+      expect(result.isOk()).toBe(true);
+      if (result.isOk()) {
+        expect(result.value.updated).toEqual([
+          expect.objectContaining({ status: 'eligible', delayMinutes: 150 }),
+        ]);
+      }
+      expect(writes.map(({ value }) => value)).toEqual([
+        expect.objectContaining({ status: 'eligible', delayMinutes: 150 }),
+        expect.objectContaining({
+          fromStatus: 'withdrawn',
+          toStatus: 'eligible',
+          note: 'Booking changed and is eligible again',
+        }),
+        expect.objectContaining({ claimId: 'claim-001', contentHash: expect.any(String) }),
+      ]);
+    });
+
+    it('leaves a withdrawn claim alone while its passenger is still not eligible', async () => {
+      const service = new ClaimGeneratorService();
+      const claim = createMockClaim({ status: 'withdrawn' });
+      const { db, writes } = createMockDb([[{ claim, passenger }]]);
+
+      const result = await service.reevaluateClaims(
+        createMockBooking({ finalDelayMinutes: 20 }),
+        db,
+        options
+      );
+
+      expect(result.isOk()).toBe(true);
+      if (result.isOk()) {
+        expect(result.value).toEqual({ updated: [], withdrawn: [] });
+      }
+      expect(writes).toEqual([]);
+    });
+
+    it('leaves a claim alone if its status changed after it was read', async () => {
+      const service = new ClaimGeneratorService();
+      const claim = createMockClaim({ status: 'eligible' });
+      // The update matches no row, as if the claim was just submitted
+      const { db, writes } = createMockDb([
+        [{ claim, passenger }],
+        [createMockTrain({ trainNumber: '9007' })],
+        [],
+        [],
+        [],
+      ]);
+
+      const result = await service.reevaluateClaims(
+        createMockBooking({ finalDelayMinutes: 150 }),
+        db,
+        options
+      );
+
+      expect(result.isOk()).toBe(true);
+      if (result.isOk()) {
+        expect(result.value).toEqual({ updated: [], withdrawn: [] });
+      }
+      expect(writes).toEqual([
+        { kind: 'set', value: expect.objectContaining({ delayMinutes: 150 }) },
+      ]);
+    });
+  });
+
+  describe('setEurostarReference', () => {
+    it('records the case number of a filed claim', async () => {
+      const service = new ClaimGeneratorService();
+      const claim = createMockClaim({ status: 'submitted' });
+      const { db } = createMockDb([[{ ...claim, eurostarReference: 'CAS-12345' }]]);
+
+      const result = await service.setEurostarReference('claim-001', 'CAS-12345', db);
+
+      expect(result.isOk()).toBe(true);
+      if (result.isOk()) {
+        expect(result.value.eurostarReference).toBe('CAS-12345');
+      }
+    });
+
+    it('rejects a case number for a claim not yet filed', async () => {
+      const service = new ClaimGeneratorService();
+      const { db } = createMockDb([[], [{ status: 'eligible' }]]);
+
+      const result = await service.setEurostarReference('claim-001', 'CAS-12345', db);
+
+      expect(result.isErr()).toBe(true);
+      if (result.isErr()) {
+        expect(result.error.code).toBe(ClaimGeneratorErrorCode.INVALID_STATUS_TRANSITION);
+      }
+    });
+
+    it('reports a missing claim', async () => {
+      const service = new ClaimGeneratorService();
+      const { db } = createMockDb([[], []]);
+
+      const result = await service.setEurostarReference('claim-001', 'CAS-12345', db);
+
+      expect(result.isErr()).toBe(true);
+      if (result.isErr()) {
+        expect(result.error.code).toBe(ClaimGeneratorErrorCode.CLAIM_NOT_FOUND);
+      }
+    });
+  });
+});
+
+describe('canTransitionClaim', () => {
+  it('allows submitting open claims and settling submitted ones', () => {
+    expect(canTransitionClaim('eligible', 'submitted')).toBe(true);
+    expect(canTransitionClaim('pending', 'submitted')).toBe(true);
+    expect(canTransitionClaim('submitted', 'approved')).toBe(true);
+    expect(canTransitionClaim('submitted', 'rejected')).toBe(true);
+    expect(canTransitionClaim('eligible', 'expired')).toBe(true);
+  });
+
+  it('never changes a settled claim or skips submission', () => {
+    expect(canTransitionClaim('eligible', 'approved')).toBe(false);
+    expect(canTransitionClaim('submitted', 'eligible')).toBe(false);
+    expect(canTransitionClaim('approved', 'rejected')).toBe(false);
+    expect(canTransitionClaim('expired', 'submitted')).toBe(false);
+  });
+
+  it('withdraws open claims and lets withdrawn ones become eligible again', () => {
+    expect(canTransitionClaim('pending', 'withdrawn')).toBe(true);
+    expect(canTransitionClaim('eligible', 'withdrawn')).toBe(true);
+    expect(canTransitionClaim('withdrawn', 'eligible')).toBe(true);
+    expect(canTransitionClaim('submitted', 'withdrawn')).toBe(false);
+    expect(canTransitionClaim('withdrawn', 'submitted')).toBe(false);
+  });
+});
+
+describe('Claim replies', () => {
+  const reply = (overrides: Partial<ParsedClaimReply> = {}): ParsedClaimReply => ({
+    kind: 'approved',
+    caseReference: 'CAS-1',
+    pnr: 'ABC123',
+    amount: 25,
+    currency: 'EUR',
+    payoutType: 'cash',
+    voucherCode: null,
+    rejectionReason: null,
+    ...overrides,
+  });
+
+  describe('matchClaimReply', () => {
+    it('matches the claim holding the case number', () => {
+      const tagged = createMockClaim({ id: 'claim-2', eurostarReference: 'CAS-1' });
+      const match = matchClaimReply(reply(), [
+        { claim: createMockClaim(), pnr: 'ABC123' },
+        { claim: tagged, pnr: 'ABC123' },
+      ]);
+
+      expect(match).toEqual({ matched: true, claim: tagged });
+    });
+
+    it('narrows claims on the booking to those awaiting a decision, then by amount', () => {
+      const paid = createMockClaim({ id: 'claim-1', status: 'submitted', eligibleCashAmount: '25.00' });
+      const candidates = [
+        { claim: paid, pnr: 'ABC123' },
+        { claim: createMockClaim({ id: 'claim-2', status: 'submitted', eligibleCashAmount: '40.00' }), pnr: 'ABC123' },
+        { claim: createMockClaim({ id: 'claim-3', status: 'approved' }), pnr: 'ABC123' },
+      ];
+
+      expect(matchClaimReply(reply(), candidates)).toEqual({ matched: true, claim: paid });
+
+      const unsure = matchClaimReply(reply({ amount: null }), candidates);
+      expect(unsure.matched).toBe(false);
+      if (!unsure.matched) {
+        expect(unsure.reason).toBe('ambiguous');
+        expect(unsure.candidates.map((claim) => claim.id)).toEqual(['claim-1', 'claim-2']);
+      }
+    });
+
+    it('leaves out claims tied to another case and reports no match', () => {
+      const otherCase = createMockClaim({ eurostarReference: 'CAS-9' });
+
+      expect(matchClaimReply(reply(), [{ claim: otherCase, pnr: 'ABC123' }])).toEqual({
+        matched: false,
+        reason: 'no_match',
+        candidates: [],
+      });
+      expect(matchClaimReply(reply({ pnr: null, caseReference: null }), []).matched).toBe(false);
+    });
+  });
+
+  describe('planClaimReply', () => {
+    it('applies replies to claims awaiting a decision', () => {
+      expect(planClaimReply(createMockClaim(), reply())).toEqual({ action: 'apply' });
+      expect(planClaimReply(createMockClaim({ status: 'submitted' }), reply({ kind: 'rejected' }))).toEqual({
+        action: 'apply',
+      });
+      expect(planClaimReply(createMockClaim(), reply({ kind: 'acknowledged' }))).toEqual({ action: 'apply' });
+    });
+
+    it('changes nothing for a reply the claim already records', () => {
+      expect(planClaimReply(createMockClaim({ status: 'approved' }), reply())).toEqual({ action: 'unchanged' });
+      expect(
+        planClaimReply(
+          createMockClaim({ status: 'submitted', eurostarReference: 'CAS-1' }),
+          reply({ kind: 'acknowledged' })
+        )
+      ).toEqual({ action: 'unchanged' });
+    });
+
+    it('queues approvals without the amount and replies a settled claim cannot take', () => {
+      expect(planClaimReply(createMockClaim(), reply({ amount: null }))).toEqual({
+        action: 'review',
+        reason: 'incomplete',
+      });
+      expect(planClaimReply(createMockClaim(), reply({ currency: 'GBP' }))).toEqual({
+        action: 'review',
+        reason: 'incomplete',
+      });
+      expect(planClaimReply(createMockClaim({ status: 'expired' }), reply())).toEqual({
+        action: 'review',
+        reason: 'invalid_status',
+      });
+      expect(planClaimReply(createMockClaim({ status: 'approved' }), reply({ kind: 'rejected' }))).toEqual({
+        action: 'review',
+        reason: 'invalid_status',
+      });
+    });
+  });
+
+  describe('applyClaimReply', () => {
+    it('marks an unsubmitted claim submitted and approved in one transaction', async () => {
+      const service = new ClaimGeneratorService();
+      const claim = createMockClaim({ status: 'eligible' });
+      const { db: queued, writes } = createMockDb([
+        [claim],
+        [{ userId: 'user-001' }],
+        [{ ...claim, status: 'submitted' }],
+        [],
+        [{ ...claim, status: 'approved', receivedAmount: '25.00' }],
+      ]);
+      const transaction = vi.fn(async (run: (tx: Database) => Promise<unknown>) => run(queued));
+      const db = { select: queued.select, transaction } as unknown as Database;
+      const changes: string[] = [];
+      service.getEventEmitter().onStatusChanged(({ previousStatus, newStatus }) => {
+        changes.push(`${previousStatus}->${newStatus}`);
+      });
+
+      const result = await service.applyClaimReply('claim-001', reply(), db);
+
+      expect(result.isOk()).toBe(true);
+      expect(transaction).toHaveBeenCalledTimes(1);
+      expect(writes.map(({ value }) => value)).toEqual([
+        expect.objectContaining({ status: 'submitted', submittedAt: expect.any(Date) }),
+        expect.objectContaining({ fromStatus: 'eligible', toStatus: 'submitted', actor: 'email' }),
+        expect.objectContaining({ status: 'approved', receivedAmount: '25.00', payoutType: 'cash' }),
+        expect.objectContaining({ fromStatus: 'submitted', toStatus: 'approved', actor: 'email' }),
+      ]);
+      expect(changes).toEqual(['eligible->submitted', 'submitted->approved']);
+    });
+  });
+
+  describe('importClaimReply', () => {
+    it('queues a reply not known to be from Eurostar for the user to confirm', async () => {
+      const service = new ClaimGeneratorService();
+      const claim = createMockClaim({ status: 'submitted', eurostarReference: 'CAS-1' });
+      const { db, writes } = createMockDb([[{ claim, pnr: 'ABC123' }], [{ id: 'review-001' }]]);
+
+      const imported = await service.importClaimReply('user-001', reply(), db, 'Re: your claim', false);
+
+      expect(imported).toEqual({ status: 'needs_review', claimId: null, reviewId: 'review-001' });
+      expect(writes).toEqual([
+        {
+          kind: 'values',
+          value: expect.objectContaining({
+            reason: 'unverified_sender',
+            candidateClaimIds: ['claim-001'],
+            subject: 'Re: your claim',
+          }),
+        },
+      ]);
+    });
+  });
+});
+
+describe('Delay evidence', () => {
+  const capturedAt = new Date(Date.UTC(2026, 0, 5, 14, 0));
+  const poll = (minute: number) => ({
+    observedAt: new Date(Date.UTC(2026, 0, 5, 10, minute)),
+    feedTimestamp: new Date(Date.UTC(2026, 0, 5, 10, minute - 1)),
+  });
+
+  function buildEvidence(stopEvents = [
+    createMockStopEvent({ stationCode: 'FRLIL', stopSequence: 2, arrivalDelayMinutes: 20, ...poll(0) }),
+    createMockStopEvent({ stationCode: 'GBSPX', stopSequence: 3, arrivalDelayMinutes: 25, ...poll(0) }),
+    createMockStopEvent({ stationCode: 'FRLIL', stopSequence: 2, arrivalDelayMinutes: 20, ...poll(5) }),
+    createMockStopEvent({ stationCode: 'GBSPX', stopSequence: 3, arrivalDelayMinutes: 75, ...poll(5) }),
+  ]) {
+    return buildClaimEvidence({
+      booking: createMockBooking(),
+      claim: { claimType: 'delay', delayMinutes: 75 },
+      train: createMockTrain({ delayMinutes: 75 }),
+      stopEvents,
+      alerts: [],
+      capturedAt,
+    });
+  }
+
+  it('keeps only the polls where a station delay changed', () => {
+    const evidence = buildEvidence();
+
+    expect(evidence.stops.map((stop) => stop.stationCode)).toEqual(['FRLIL', 'GBSPX']);
+    expect(evidence.stops[0]!.history).toHaveLength(1);
+    expect(evidence.stops[1]!.history.map((entry) => entry.arrivalDelayMinutes)).toEqual([25, 75]);
+    expect(evidence.stops[1]!.history[1]!.feedTimestamp).toBe('2026-01-05T10:04:00.000Z');
+  });
+
+  it('summarizes the polls and feed timestamps it came from', () => {
+    const { feed, train, capturedAt: captured } = buildEvidence();
+
+    expect(feed).toEqual({
+      observationCount: 2,
+      firstObservedAt: '2026-01-05T10:00:00.000Z',
+      lastObservedAt: '2026-01-05T10:05:00.000Z',
+      firstFeedTimestamp: '2026-01-05T09:59:00.000Z',
+      lastFeedTimestamp: '2026-01-05T10:04:00.000Z',
+    });
+    expect(train?.tripId).toBe('9007-0105');
+    expect(captured).toBe('2026-01-05T14:00:00.000Z');
+  });
+
+  it('records a booking that never matched a train', () => {
+    const evidence = buildClaimEvidence({
+      booking: createMockBooking(),
+      claim: { claimType: 'delay', delayMinutes: 75 },
+      train: null,
+      stopEvents: [],
+      alerts: [],
+      capturedAt,
+    });
+
+    expect(evidence.train).toBeNull();
+    expect(evidence.feed.observationCount).toBe(0);
+    expect(formatClaimEvidenceReport(evidence, 'abc')).toContain(
+      'The booking was not matched to a train in the live feed.'
+    );
+  });
+
+  it('hashes the same snapshot the same way whatever its key order', () => {
+    const evidence = buildEvidence();
+    // As jsonb might return it: same values, keys in another order
+    const reverseKeys = (value: unknown): unknown =>
+      Array.isArray(value)
+        ? value.map(reverseKeys)
+        : value !== null && typeof value === 'object'
+          ? Object.fromEntries(Object.entries(value).reverse().map(([k, v]) => [k, reverseKeys(v)]))
+          : value;
+    const reordered = reverseKeys(evidence) as typeof evidence;
+
+    expect(toCanonicalJson({ b: 1, a: { d: 2, c: 3 } })).toBe('{"a":{"c":3,"d":2},"b":1}');
+    expect(hashClaimEvidence(evidence)).toMatch(/^[0-9a-f]{64}$/);
+    expect(hashClaimEvidence(reordered)).toBe(hashClaimEvidence(evidence));
+    expect(hashClaimEvidence(buildEvidence([]))).not.toBe(hashClaimEvidence(evidence));
+  });
+
+  it('reports each station delay with the hash', () => {
+    const report = formatClaimEvidenceReport(buildEvidence(), 'abc123');
+
+    expect(report).toContain('London St Pancras (GBSPX)');
+    expect(report).toContain('arrival +75 min');
+    expect(report).toContain('2026-01-05 10:04:00 UTC');
+    expect(report).toContain('SHA-256 (canonical JSON of the snapshot): abc123');
+  });
+});
+
+describe('Claim packs', () => {
+  const booking = createMockBooking();
+  const lead = createLeadPassenger(booking);
+  const companion = createMockPassenger({
+    id: 'passenger-002',
+    position: 1,
+    passengerName: 'Jane Doe',
+    tcn: 'IV987654321',
+    seat: '24',
+    ticketPrice: '80.00',
+  });
+  const leadClaim = createMockClaim();
+  const companionClaim = createMockClaim({
+    id: 'claim-002',
+    passengerId: 'passenger-002',
+    eligibleCashAmount: '20.00',
+    eligibleVoucherAmount: '48.00',
+  });
+
+  const entries = [
+    {
+      claim: leadClaim,
+      formData: buildClaimFormData(booking, lead, leadClaim, TEST_USER_EMAIL),
+      claimPortalUrl: EUROSTAR_CLAIM_PORTAL_URL,
+    },
+    {
+      claim: companionClaim,
+      formData: buildClaimFormData(booking, companion, companionClaim, TEST_USER_EMAIL),
+      claimPortalUrl: EUROSTAR_CLAIM_PORTAL_URL,
+    },
+  ];
+
+  it("fills each claim form with that passenger's name and TCN", () => {
+    expect(entries[1]!.formData.firstName).toBe('Jane');
+    expect(entries[1]!.formData.tcn).toBe('IV987654321');
+    // Shared booking details and the lead booker's email
+    expect(entries[1]!.formData.pnr).toBe('ABC123');
+    expect(entries[1]!.formData.email).toBe(TEST_USER_EMAIL);
+  });
+
+  it('totals compensation across passengers', () => {
+    const pack = buildClaimPack(booking, TEST_USER_EMAIL, entries);
+
+    expect(pack.leadPassengerName).toBe('John Doe');
+    expect(pack.claims).toHaveLength(2);
+    expect(pack.currency).toBe('EUR');
+    expect(pack.totalCashAmount).toBe(45);
+    expect(pack.totalVoucherAmount).toBe(108);
+  });
+
+  it('formats one section per passenger for the clipboard', () => {
+    const text = formatClaimPackForClipboard(buildClaimPack(booking, TEST_USER_EMAIL, entries));
+
+    expect(text).toContain('ABC123');
+    expect(text).toContain('IV123456789');
+    expect(text).toContain('IV987654321');
+    expect(text).toContain('€45.00');
+  });
+
+  it('uses the booking currency when there are no claims yet', () => {
+    const pack = buildClaimPack(
+      createMockBooking({ ticketCurrency: 'GBP' }),
+      TEST_USER_EMAIL,
+      []
+    );
+
+    expect(pack.currency).toBe('GBP');
+    expect(pack.totalCashAmount).toBe(0);
+  });
+});
+
+describe('Claim pack PDFs', () => {
+  const booking = createMockBooking();
+  const passenger = createLeadPassenger(booking);
+  const policy = defaultPolicyRegistry.getPolicy(booking.journeyDate);
+  const generatedAt = new Date(Date.UTC(2026, 0, 6, 12, 0));
+
+  function printable(claim = createMockClaim(), evidenceSnapshot: ReturnType<typeof buildClaimEvidence> | null = null) {
+    return {
+      claim,
+      formData: buildClaimFormData(booking, passenger, claim, TEST_USER_EMAIL),
+      claimPortalUrl: generateClaimPortalUrl(claim.claimType),
+      breakdown: buildCompensationBreakdown(passenger, claim, policy),
+      deadline: getClaimDeadline(booking.journeyDate, policy.claimDeadlineMonths),
+      evidence: evidenceSnapshot && {
+        id: 'evidence-001',
+        claimId: claim.id,
+        snapshot: evidenceSnapshot,
+        contentHash: hashClaimEvidence(evidenceSnapshot),
+        createdAt: generatedAt,
+      },
+    };
+  }
+
+  it('works out the tier and fare under the policy in force', () => {
+    const breakdown = buildCompensationBreakdown(passenger, createMockClaim(), policy);
+
+    expect(breakdown.policy.id).toBe(policy.id);
+    expect(breakdown.ticketPrice).toBe(100);
+    expect(breakdown.tier?.name).toBe('Standard');
+    expect(
+      buildCompensationBreakdown(passenger, createMockClaim({ claimType: 'cancellation' }), policy).tier
+    ).toBeNull();
+  });
+
+  it('prints the claim form, compensation breakdown and deadline', () => {
+    const { pages } = extractPdfText(renderClaimPackPdf([printable()], generatedAt));
+    const text = pages.join('\n');
+
+    expect(pages).toHaveLength(1);
+    expect(text).toContain('Eurostar Delay Compensation Claim');
+    expect(text).toContain('Booking Reference (PNR) ABC123');
+    expect(text).toContain('Ticket Control Number IV123456789');
+    expect(text).toContain(`Policy ${policy.name}, version ${policy.version}`);
+    expect(text).toContain('Tier Standard (60-119 min)');
+    expect(text).toContain('Cash 25% of €100.00 = €25.00');
+    expect(text).toContain('Voucher 60% of €100.00 = €60.00');
+    expect(text).toContain('Claim Deadline 05/04/2026 (90 days left)');
+    expect(text).toContain('No delay evidence was recorded for this claim.');
+  });
+
+  it('prints the delay evidence with its hash', () => {
+    const snapshot = buildClaimEvidence({
+      booking,
+      claim: { claimType: 'delay', delayMinutes: 90 },
+      train: createMockTrain({ delayMinutes: 90 }),
+      stopEvents: [
+        createMockStopEvent({
+          stationCode: 'GBSPX',
+          stopSequence: 3,
+          arrivalDelayMinutes: 90,
+          observedAt: new Date(Date.UTC(2026, 0, 5, 10, 0)),
+          feedTimestamp: new Date(Date.UTC(2026, 0, 5, 9, 59)),
+        }),
+      ],
+      alerts: [],
+      capturedAt: generatedAt,
+    });
+
+    const text = extractPdfText(renderClaimPackPdf([printable(createMockClaim(), snapshot)], generatedAt)).text;
+
+    expect(text).toContain('Trip 9007-0105');
+    expect(text).toContain('London St Pancras 2026-01-05 10:00:00 UTC 2026-01-05 09:59:00 UTC +90 min');
+    expect(text).toContain(hashClaimEvidence(snapshot).slice(0, 16));
+  });
+
+  it('opens a pack of several claims with a summary and totals', () => {
+    const companionClaim = createMockClaim({
+      id: 'claim-002',
+      eligibleCashAmount: '20.00',
+      eligibleVoucherAmount: '48.00',
+      status: 'submitted',
+    });
+
+    const { pages } = extractPdfText(
+      renderClaimPackPdf([printable(), printable(companionClaim)], generatedAt)
+    );
+
+    expect(pages).toHaveLength(3);
+    expect(pages[0]).toContain('Eurostar Claim Pack');
+    expect(pages[0]).toContain('Total Cash (EUR) €45.00');
+    expect(pages[0]).toContain('Total Voucher (EUR) €108.00');
+    expect(pages[2]).toContain('Status Submitted to Eurostar');
+    expect(pages[2]).toContain('Page 3 of 3');
+  });
+});
+
+describe('reviseClaim', () => {
+  it('recalculates the claim from the new eligibility', () => {
+    const eligibility = createMockEligibilityStatus({
+      compensation: createMockCompensationResult({ cashAmount: 50, voucherAmount: 120, delayMinutes: 150 }),
+    });
+
+    expect(reviseClaim(eligibility)).toEqual({
+      claimType: 'delay',
+      delayMinutes: 150,
+      eligibleCashAmount: '50',
+      eligibleVoucherAmount: '120',
+      currency: 'EUR',
+    });
+  });
+
+  it('withdraws the claim when the passenger is no longer eligible', () => {
+    expect(reviseClaim(createIneligibleStatus())).toBeNull();
+    expect(reviseClaim(null)).toBeNull();
+  });
+});
+
+describe('summarizeClaims', () => {
+  const exchangeRates = new InMemoryExchangeRateProvider([
+    { date: new Date(Date.UTC(2026, 0, 5)), currency: 'GBP', rate: 0.8 },
+    { date: new Date(Date.UTC(2026, 1, 2)), currency: 'GBP', rate: 0.9 },
+  ]);
+
+  const entries = [
+    {
+      claim: createMockClaim({ id: 'claim-eur', eligibleCashAmount: '25.00', eligibleVoucherAmount: '60.00' }),
+      journeyDate: new Date(Date.UTC(2026, 0, 5)),
+    },
+    {
+      claim: createMockClaim({
+        id: 'claim-gbp',
+        eligibleCashAmount: '18.00',
+        eligibleVoucherAmount: '45.00',
+        currency: 'GBP',
+        status: 'submitted',
+      }),
+      journeyDate: new Date(Date.UTC(2026, 1, 2)),
+    },
+    {
+      claim: createMockClaim({ id: 'claim-rejected', eligibleCashAmount: '50.00', status: 'rejected' }),
+      journeyDate: new Date(Date.UTC(2026, 0, 5)),
+    },
+  ];
+
+  it('converts each claim at the rate for its journey date', async () => {
+    const summary = await summarizeClaims(entries, 'EUR', exchangeRates);
+
+    // £18 / 0.9 = €20, £45 / 0.9 = €50
+    expect(summary.currency).toBe('EUR');
+    expect(summary.totalCashAmount).toBe(45);
+    expect(summary.totalVoucherAmount).toBe(110);
+  });
+
+  it('reports totals in GBP', async () => {
+    const summary = await summarizeClaims(entries, 'GBP', exchangeRates);
+
+    // €25 * 0.8 = £20, €60 * 0.8 = £48
+    expect(summary.totalCashAmount).toBe(38);
+    expect(summary.totalVoucherAmount).toBe(93);
+  });
+
+  it('counts every claim by status but excludes closed claims from totals', async () => {
+    const summary = await summarizeClaims(entries, 'EUR', exchangeRates);
+
+    expect(summary.total).toBe(3);
+    expect(summary.byStatus.eligible).toBe(1);
+    expect(summary.byStatus.submitted).toBe(1);
+    expect(summary.byStatus.rejected).toBe(1);
+  });
+
+  it('uses the fallback rate without a provider', async () => {
+    const summary = await summarizeClaims([entries[1]!], 'EUR');
+
+    // £18 / 0.85
+    expect(summary.totalCashAmount).toBe(21.18);
+  });
+
+  it('reconciles approved claims against the payout type received', async () => {
+    const approved = [
+      {
+        // Expected €60 voucher, paid in full
+        claim: createMockClaim({ status: 'approved', receivedAmount: '60.00', payoutType: 'voucher' }),
+        journeyDate: new Date(Date.UTC(2026, 0, 5)),
+      },
+      {
+        // Expected £18 cash = €20, paid £9 = €10
+        claim: createMockClaim({
+          status: 'approved',
+          eligibleCashAmount: '18.00',
+          currency: 'GBP',
+          receivedAmount: '9.00',
+          payoutType: 'cash',
+        }),
+        journeyDate: new Date(Date.UTC(2026, 1, 2)),
+      },
+      {
+        // Approved but the payout isn't recorded yet
+        claim: createMockClaim({ status: 'approved' }),
+        journeyDate: new Date(Date.UTC(2026, 0, 5)),
+      },
+    ];
+
+    const { payouts } = await summarizeClaims([...entries, ...approved], 'EUR', exchangeRates);
+
+    expect(payouts).toEqual({
+      count: 2,
+      expectedAmount: 80,
+      receivedAmount: 70,
+      difference: -10,
+      underpaidCount: 1,
+    });
+  });
+});
+
 describe('Error Types', () => {
   // Test 28: Create error without details
   it('creates error without details', () => {
@@ -475,7 +1451,7 @@ describe('Integration Scenarios', () => {
       eligibleVoucherAmount: '60.00',
     });
 
-    const formData = buildClaimFormData(booking, claim, 'marie@example.com');
+    const formData = buildClaimFormData(booking, createLeadPassenger(booking), claim, 'marie@example.com');
     const clipboard = formatForClipboard(formData);
     const url = generateClaimPortalUrl();
     const validation = validateFormData(formData);
@@ -501,7 +1477,7 @@ describe('Integration Scenarios', () => {
       eligibleCashAmount: '25.00',
       eligibleVoucherAmount: '60.00',
     });
-    const standardForm = buildClaimFormData(booking, standardClaim, TEST_USER_EMAIL);
+    const standardForm = buildClaimFormData(booking, createLeadPassenger(booking), standardClaim, TEST_USER_EMAIL);
     expect(standardForm.eligibleCashAmount).toBe(25);
     expect(standardForm.eligibleVoucherAmount).toBe(60);
 
@@ -511,7 +1487,7 @@ describe('Integration Scenarios', () => {
       eligibleCashAmount: '50.00',
       eligibleVoucherAmount: '60.00',
     });
-    const extendedForm = buildClaimFormData(booking, extendedClaim, TEST_USER_EMAIL);
+    const extendedForm = buildClaimFormData(booking, createLeadPassenger(booking), extendedClaim, TEST_USER_EMAIL);
     expect(extendedForm.eligibleCashAmount).toBe(50);
     expect(extendedForm.delayMinutes).toBe(150);
 
@@ -521,7 +1497,7 @@ describe('Integration Scenarios', () => {
       eligibleCashAmount: '50.00',
       eligibleVoucherAmount: '75.00',
     });
-    const severeForm = buildClaimFormData(booking, severeClaim, TEST_USER_EMAIL);
+    const severeForm = buildClaimFormData(booking, createLeadPassenger(booking), severeClaim, TEST_USER_EMAIL);
     expect(severeForm.eligibleVoucherAmount).toBe(75);
   });
 
@@ -532,7 +1508,7 @@ describe('Integration Scenarios', () => {
       destination: 'DECGN', // Cologne
     });
     const claim = createMockClaim();
-    const formData = buildClaimFormData(booking, claim, TEST_USER_EMAIL);
+    const formData = buildClaimFormData(booking, createLeadPassenger(booking), claim, TEST_USER_EMAIL);
 
     expect(formData.origin).toBe('Amsterdam Centraal');
     expect(formData.destination).toBe('Cologne Hbf');
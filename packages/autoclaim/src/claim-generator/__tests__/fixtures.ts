@@ -2,9 +2,10 @@
  * Test fixtures for claim generator tests.
  */
 
-import type { Booking, Claim } from '@eurostar/core/db';
+import type { Booking, BookingPassenger, Claim } from '@eurostar/core/db';
 import type { EligibilityStatus, CompensationResult } from '../../eligibility/types.js';
 import { EligibilityReason, Currency } from '../../eligibility/types.js';
+import { EUROSTAR_2021_782_POLICY, toAppliedPolicy } from '../../eligibility/policies.js';
 
 /**
  * Creates a mock booking for testing.
@@ -26,12 +27,59 @@ export function createMockBooking(overrides: Partial<Booking> = {}): Booking {
     coach: '5',
     seat: '23',
     finalDelayMinutes: 90,
+    cancelledAt: null,
+    delayCauseOverride: null,
+    ticketPrice: '100.00',
+    ticketCurrency: 'EUR',
+    tripGroupId: null,
+    tripLeg: null,
     createdAt: new Date(),
     updatedAt: new Date(),
     ...overrides,
   };
 }
 
+/**
+ * Creates a mock booking passenger for testing.
+ */
+export function createMockPassenger(
+  overrides: Partial<BookingPassenger> = {}
+): BookingPassenger {
+  return {
+    id: 'passenger-001',
+    bookingId: 'booking-001',
+    position: 0,
+    passengerName: 'John Doe',
+    tcn: 'IV123456789',
+    coach: '5',
+    seat: '23',
+    ticketPrice: '100.00',
+    ticketCurrency: 'EUR',
+    createdAt: new Date(),
+    updatedAt: new Date(),
+    ...overrides,
+  };
+}
+
+/**
+ * Creates the lead passenger record for a mock booking.
+ */
+export function createLeadPassenger(
+  booking: Booking,
+  overrides: Partial<BookingPassenger> = {}
+): BookingPassenger {
+  return createMockPassenger({
+    bookingId: booking.id,
+    passengerName: booking.passengerName,
+    tcn: booking.tcn,
+    coach: booking.coach,
+    seat: booking.seat,
+    ticketPrice: booking.ticketPrice,
+    ticketCurrency: booking.ticketCurrency,
+    ...overrides,
+  });
+}
+
 /**
  * Creates a mock claim for testing.
  */
@@ -39,11 +87,20 @@ export function createMockClaim(overrides: Partial<Claim> = {}): Claim {
   return {
     id: 'claim-001',
     bookingId: 'booking-001',
+    passengerId: 'passenger-001',
+    claimType: 'delay',
     delayMinutes: 90,
     eligibleCashAmount: '25.00',
     eligibleVoucherAmount: '60.00',
+    currency: 'EUR',
     status: 'eligible',
     submittedAt: null,
+    eurostarReference: null,
+    decidedAt: null,
+    receivedAmount: null,
+    payoutType: null,
+    rejectionReason: null,
+    voucherCode: null,
     createdAt: new Date(),
     updatedAt: new Date(),
     ...overrides,
@@ -83,11 +140,14 @@ export function createMockEligibilityStatus(
   return {
     eligible: true,
     reason: EligibilityReason.ELIGIBLE,
+    claimType: 'delay',
     failedChecks: [],
     compensation: createMockCompensationResult(),
     deadline: new Date(Date.UTC(2026, 3, 5)), // April 5, 2026
     daysUntilDeadline: 90,
     claimWindowOpen: true,
+    policy: toAppliedPolicy(EUROSTAR_2021_782_POLICY),
+    goodwill: null,
     ...overrides,
   };
 }
@@ -101,11 +161,14 @@ export function createIneligibleStatus(
   return {
     eligible: false,
     reason,
+    claimType: 'delay',
     failedChecks: [reason],
     compensation: null,
     deadline: new Date(Date.UTC(2026, 3, 5)),
     daysUntilDeadline: 90,
     claimWindowOpen: true,
+    policy: toAppliedPolicy(EUROSTAR_2021_782_POLICY),
+    goodwill: null,
   };
 }
 
@@ -0,0 +1,328 @@
+/**
+ * Delay evidence for claims.
+ *
+ * The trains table only holds the latest delay from the live feed, so when a
+ * claim is created everything known about its train is frozen into an
+ * evidence snapshot: each station's delays as they changed across polls, the
+ * feed timestamps they came from and the service alerts linked to the train.
+ * The snapshot's hash shows it hasn't been altered since.
+ */
+
+import { createHash } from 'node:crypto';
+import { asc, eq } from 'drizzle-orm';
+import type { Database } from '@eurostar/core/db';
+import {
+  serviceAlerts,
+  trainAlerts,
+  trainStopEvents,
+  trains,
+  type Booking,
+  type Claim,
+  type ClaimEvidenceAlert,
+  type ClaimEvidenceSnapshot,
+  type ClaimEvidenceStop,
+  type ServiceAlert,
+  type Train,
+  type TrainStopEvent,
+} from '@eurostar/core/db';
+import { pickTranslation } from '@eurostar/core/gtfs';
+import { matchBookingToTrain } from '../delay-monitor/matcher.js';
+import { getStationDisplayName } from './form-data.js';
+
+/**
+ * What an evidence snapshot is built from.
+ */
+export interface ClaimEvidenceSource {
+  booking: Booking;
+  claim: Pick<Claim, 'claimType' | 'delayMinutes'>;
+  train: Train | null;
+  /** The train's stop events, oldest first */
+  stopEvents: TrainStopEvent[];
+  alerts: ServiceAlert[];
+  capturedAt: Date;
+}
+
+const toIsoDate = (date: Date): string => date.toISOString().slice(0, 10);
+
+/**
+ * Builds an evidence snapshot from a claim's train data.
+ *
+ * Each station keeps its first observation and every later one whose delays
+ * or stop status differ from the one before, so the history shows how the
+ * delay developed without repeating identical polls. Stations are in stop
+ * order.
+ *
+ * @param source - The claim, its booking and what was recorded about its train
+ * @returns The snapshot to store with the claim
+ */
+export function buildClaimEvidence(source: ClaimEvidenceSource): ClaimEvidenceSnapshot {
+  const { booking, claim, train, stopEvents, alerts, capturedAt } = source;
+
+  const stops = new Map<string, ClaimEvidenceStop>();
+  for (const event of stopEvents) {
+    let stop = stops.get(event.stationCode);
+    if (!stop) {
+      stop = {
+        stationCode: event.stationCode,
+        stopSequence: event.stopSequence,
+        scheduledArrival: event.scheduledArrival?.toISOString() ?? null,
+        history: [],
+      };
+      stops.set(event.stationCode, stop);
+    }
+
+    const previous = stop.history[stop.history.length - 1];
+    if (
+      previous &&
+      previous.scheduleRelationship === event.scheduleRelationship &&
+      previous.arrivalDelayMinutes === event.arrivalDelayMinutes &&
+      previous.departureDelayMinutes === event.departureDelayMinutes
+    ) {
+      continue;
+    }
+
+    stop.history.push({
+      observedAt: event.observedAt.toISOString(),
+      feedTimestamp: event.feedTimestamp?.toISOString() ?? null,
+      scheduleRelationship: event.scheduleRelationship,
+      arrivalDelayMinutes: event.arrivalDelayMinutes,
+      departureDelayMinutes: event.departureDelayMinutes,
+    });
+  }
+
+  const feedTimestamps = stopEvents
+    .map((event) => event.feedTimestamp)
+    .filter((timestamp): timestamp is Date => timestamp !== null)
+    .sort((a, b) => a.getTime() - b.getTime());
+  const first = stopEvents[0];
+  const last = stopEvents[stopEvents.length - 1];
+
+  return {
+    capturedAt: capturedAt.toISOString(),
+    booking: {
+      pnr: booking.pnr,
+      trainNumber: booking.trainNumber,
+      journeyDate: toIsoDate(booking.journeyDate),
+      origin: booking.origin,
+      destination: booking.destination,
+    },
+    claim: {
+      claimType: claim.claimType,
+      delayMinutes: claim.delayMinutes,
+    },
+    train: train && {
+      tripId: train.tripId,
+      trainNumber: train.trainNumber,
+      date: toIsoDate(train.date),
+      scheduledDeparture: train.scheduledDeparture.toISOString(),
+      scheduledArrival: train.scheduledArrival.toISOString(),
+      delayMinutes: train.delayMinutes,
+      scheduleRelationship: train.scheduleRelationship,
+      delayCauseOverride: train.delayCauseOverride,
+    },
+    feed: {
+      observationCount: new Set(stopEvents.map((event) => event.observedAt.getTime())).size,
+      firstObservedAt: first?.observedAt.toISOString() ?? null,
+      lastObservedAt: last?.observedAt.toISOString() ?? null,
+      firstFeedTimestamp: feedTimestamps[0]?.toISOString() ?? null,
+      lastFeedTimestamp: feedTimestamps[feedTimestamps.length - 1]?.toISOString() ?? null,
+    },
+    stops: [...stops.values()].sort(
+      (a, b) => (a.stopSequence ?? Infinity) - (b.stopSequence ?? Infinity)
+    ),
+    alerts: alerts.map(
+      (alert): ClaimEvidenceAlert => ({
+        alertId: alert.alertId,
+        cause: alert.cause,
+        effect: alert.effect,
+        headerText: alert.headerText,
+        descriptionText: alert.descriptionText,
+        url: alert.url,
+        activePeriods: alert.activePeriods,
+        firstSeenAt: alert.firstSeenAt.toISOString(),
+        lastSeenAt: alert.lastSeenAt.toISOString(),
+      })
+    ),
+  };
+}
+
+/**
+ * Serializes a value as JSON with object keys sorted, so the same snapshot
+ * always gives the same text however its keys were ordered (jsonb reorders
+ * them on storage).
+ */
+export function toCanonicalJson(value: unknown): string {
+  return JSON.stringify(value, (_key, nested: unknown) =>
+    nested !== null && typeof nested === 'object' && !Array.isArray(nested)
+      ? Object.fromEntries(
+          Object.entries(nested).sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0))
+        )
+      : nested
+  );
+}
+
+/**
+ * Hashes an evidence snapshot: the hex SHA-256 of its canonical JSON.
+ */
+export function hashClaimEvidence(snapshot: ClaimEvidenceSnapshot): string {
+  return createHash('sha256').update(toCanonicalJson(snapshot)).digest('hex');
+}
+
+/**
+ * Loads what is recorded about a booking's train and builds the evidence
+ * snapshot for a claim on it.
+ *
+ * @param booking - The booking the claim is for
+ * @param claim - The claim's type and delay
+ * @param db - Database connection
+ * @param capturedAt - When the snapshot is taken
+ * @returns The snapshot, with no train if the booking matches none
+ */
+export async function collectClaimEvidence(
+  booking: Booking,
+  claim: Pick<Claim, 'claimType' | 'delayMinutes'>,
+  db: Database,
+  capturedAt: Date = new Date()
+): Promise<ClaimEvidenceSnapshot> {
+  let train: Train | null = null;
+  if (booking.trainId) {
+    const [found] = await db.select().from(trains).where(eq(trains.id, booking.trainId)).limit(1);
+    train = found ?? null;
+  } else {
+    train = (await matchBookingToTrain(booking, db)).train;
+  }
+
+  if (!train) {
+    return buildClaimEvidence({ booking, claim, train, stopEvents: [], alerts: [], capturedAt });
+  }
+
+  const stopEvents = await db
+    .select()
+    .from(trainStopEvents)
+    .where(eq(trainStopEvents.trainId, train.id))
+    .orderBy(asc(trainStopEvents.observedAt));
+
+  const alerts = await db
+    .select({ alert: serviceAlerts })
+    .from(trainAlerts)
+    .innerJoin(serviceAlerts, eq(trainAlerts.alertId, serviceAlerts.id))
+    .where(eq(trainAlerts.trainId, train.id))
+    .orderBy(asc(serviceAlerts.firstSeenAt));
+
+  return buildClaimEvidence({
+    booking,
+    claim,
+    train,
+    stopEvents,
+    alerts: alerts.map(({ alert }) => alert),
+    capturedAt,
+  });
+}
+
+/**
+ * Formats an ISO timestamp from an evidence snapshot, e.g. "2024-03-15 10:12:00 UTC".
+ */
+export function formatEvidenceTimestamp(iso: string): string {
+  return `${iso.slice(0, 10)} ${iso.slice(11, 19)} UTC`;
+}
+
+/**
+ * Formats a delay in minutes with its sign, e.g. "+75 min".
+ */
+export function formatEvidenceDelay(minutes: number): string {
+  return `${minutes >= 0 ? '+' : ''}${minutes} min`;
+}
+
+/**
+ * Formats an evidence snapshot as a plain text report.
+ *
+ * @param snapshot - The evidence snapshot
+ * @param contentHash - The snapshot's hash, printed so the report can be checked against it
+ */
+export function formatClaimEvidenceReport(
+  snapshot: ClaimEvidenceSnapshot,
+  contentHash: string
+): string {
+  const { booking, claim, train, feed } = snapshot;
+
+  const lines = [
+    '=== Eurostar Delay Evidence ===',
+    '',
+    'Booking Reference (PNR): ' + booking.pnr,
+    'Train Number: ' + booking.trainNumber,
+    'Journey Date: ' + booking.journeyDate,
+    'From: ' + getStationDisplayName(booking.origin),
+    'To: ' + getStationDisplayName(booking.destination),
+    'Claim: ' +
+      (claim.claimType === 'cancellation'
+        ? 'Train cancelled or stop not served'
+        : `Arrived ${claim.delayMinutes} minutes late`),
+    '',
+    '--- Train ---',
+    ...(train
+      ? [
+          'Trip: ' + train.tripId,
+          'Scheduled Departure: ' + formatEvidenceTimestamp(train.scheduledDeparture),
+          'Scheduled Arrival: ' + formatEvidenceTimestamp(train.scheduledArrival),
+          'Final Delay: ' + (train.delayMinutes === null ? 'unknown' : formatEvidenceDelay(train.delayMinutes)),
+          ...(train.scheduleRelationship === 'canceled' ? ['Status: Cancelled'] : []),
+          ...(train.delayCauseOverride ? ['Delay Cause (classified): ' + train.delayCauseOverride] : []),
+        ]
+      : ['The booking was not matched to a train in the live feed.']),
+    '',
+    '--- Delays by Station ---',
+  ];
+
+  if (snapshot.stops.length === 0) {
+    lines.push('No station delays were recorded.');
+  }
+  for (const stop of snapshot.stops) {
+    lines.push(
+      `${getStationDisplayName(stop.stationCode)} (${stop.stationCode})` +
+        (stop.scheduledArrival ? `, scheduled ${formatEvidenceTimestamp(stop.scheduledArrival)}` : '')
+    );
+    for (const entry of stop.history) {
+      const status = entry.scheduleRelationship === 'scheduled' ? '' : ` [${entry.scheduleRelationship}]`;
+      const source = entry.feedTimestamp ? ` (feed of ${formatEvidenceTimestamp(entry.feedTimestamp)})` : '';
+      lines.push(
+        `  ${formatEvidenceTimestamp(entry.observedAt)}${source}: arrival ${formatEvidenceDelay(entry.arrivalDelayMinutes)}, ` +
+          `departure ${formatEvidenceDelay(entry.departureDelayMinutes)}${status}`
+      );
+    }
+  }
+
+  lines.push('', '--- Live Feed ---', 'Polls Recorded: ' + feed.observationCount);
+  if (feed.firstObservedAt && feed.lastObservedAt) {
+    lines.push(
+      `Observed: ${formatEvidenceTimestamp(feed.firstObservedAt)} to ${formatEvidenceTimestamp(feed.lastObservedAt)}`
+    );
+  }
+  if (feed.firstFeedTimestamp && feed.lastFeedTimestamp) {
+    lines.push(
+      `Feed Timestamps: ${formatEvidenceTimestamp(feed.firstFeedTimestamp)} to ${formatEvidenceTimestamp(feed.lastFeedTimestamp)}`
+    );
+  }
+
+  lines.push('', '--- Service Alerts ---');
+  if (snapshot.alerts.length === 0) {
+    lines.push('No service alerts were linked to the train.');
+  }
+  for (const alert of snapshot.alerts) {
+    lines.push(`${pickTranslation(alert.headerText) ?? alert.alertId} [${alert.cause}, ${alert.effect}]`);
+    const description = pickTranslation(alert.descriptionText);
+    if (description) {
+      lines.push('  ' + description);
+    }
+    lines.push(
+      `  First seen ${formatEvidenceTimestamp(alert.firstSeenAt)}, last seen ${formatEvidenceTimestamp(alert.lastSeenAt)}`
+    );
+  }
+
+  lines.push(
+    '',
+    'Captured: ' + formatEvidenceTimestamp(snapshot.capturedAt),
+    'SHA-256 (canonical JSON of the snapshot): ' + contentHash
+  );
+
+  return lines.join('\n');
+}
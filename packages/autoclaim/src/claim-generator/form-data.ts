@@ -2,9 +2,14 @@
  * Form data utilities for claim generation.
  */
 
-import type { Booking, Claim } from '@eurostar/core/db';
-import type { ClaimFormData } from './types.js';
-import { STATION_NAMES, EUROSTAR_CLAIM_PORTAL_URL } from './types.js';
+import type { Booking, BookingPassenger, Claim, ClaimType } from '@eurostar/core/db';
+import type { ClaimFormData, ClaimPack, ClaimWithFormData } from './types.js';
+import { formatCompensationAmount } from '../eligibility/calculator.js';
+import {
+  STATION_NAMES,
+  EUROSTAR_CLAIM_PORTAL_URL,
+  EUROSTAR_REFUND_PORTAL_URL,
+} from './types.js';
 
 /**
  * Parses a full passenger name into first and last name.
@@ -68,23 +73,26 @@ export function getStationDisplayName(stationCode: string): string {
 }
 
 /**
- * Builds claim form data from a booking and claim record.
+ * Builds claim form data from a booking, passenger and claim record.
  *
  * @param booking - The booking associated with the claim
+ * @param passenger - The traveller the claim is for
  * @param claim - The claim record
- * @param email - The passenger email address
+ * @param email - The lead booker's email address
  * @returns Complete form data for the Eurostar claim portal
  */
 export function buildClaimFormData(
   booking: Booking,
+  passenger: BookingPassenger,
   claim: Claim,
   email: string
 ): ClaimFormData {
-  const { firstName, lastName } = parsePassengerName(booking.passengerName);
+  const { firstName, lastName } = parsePassengerName(passenger.passengerName);
 
   return {
+    claimType: claim.claimType,
     pnr: booking.pnr,
-    tcn: booking.tcn,
+    tcn: passenger.tcn,
     firstName,
     lastName,
     email,
@@ -95,16 +103,20 @@ export function buildClaimFormData(
     delayMinutes: claim.delayMinutes,
     eligibleCashAmount: Number(claim.eligibleCashAmount ?? 0),
     eligibleVoucherAmount: Number(claim.eligibleVoucherAmount ?? 0),
+    currency: claim.currency,
   };
 }
 
 /**
  * Generates the Eurostar claim portal URL.
  * Note: Eurostar's form doesn't support URL parameters for pre-filling,
- * so we return the base URL.
+ * so we return the base URL. Cancellations are handled through
+ * manage-booking (refund or exchange) rather than the delay form.
  */
-export function generateClaimPortalUrl(): string {
-  return EUROSTAR_CLAIM_PORTAL_URL;
+export function generateClaimPortalUrl(claimType: ClaimType = 'delay'): string {
+  return claimType === 'cancellation'
+    ? EUROSTAR_REFUND_PORTAL_URL
+    : EUROSTAR_CLAIM_PORTAL_URL;
 }
 
 /**
@@ -112,8 +124,13 @@ export function generateClaimPortalUrl(): string {
  * Useful for users who want to manually fill the form.
  */
 export function formatForClipboard(formData: ClaimFormData): string {
+  const cancelled = formData.claimType === 'cancellation';
+  const cash = formatCompensationAmount(formData.eligibleCashAmount, formData.currency);
+  const voucher = formatCompensationAmount(formData.eligibleVoucherAmount, formData.currency);
   const lines = [
-    '=== Eurostar Delay Compensation Claim ===',
+    cancelled
+      ? '=== Eurostar Cancellation Refund / Re-route ==='
+      : '=== Eurostar Delay Compensation Claim ===',
     '',
     'Booking Reference (PNR): ' + formData.pnr,
     'Ticket Control Number: ' + formData.tcn,
@@ -129,20 +146,112 @@ export function formatForClipboard(formData: ClaimFormData): string {
     'From: ' + formData.origin,
     'To: ' + formData.destination,
     '',
-    '--- Delay Information ---',
-    'Delay: ' + formData.delayMinutes + ' minutes',
-    '',
-    '--- Compensation Eligible ---',
-    `Cash: €${formData.eligibleCashAmount.toFixed(2)}`,
-    `Voucher: €${formData.eligibleVoucherAmount.toFixed(2)}`,
+    ...(cancelled
+      ? [
+          '--- Cancellation ---',
+          'Train cancelled or stop not served',
+          'Options: full refund, or re-route on a later train at no extra cost',
+          '',
+          '--- Refund Eligible ---',
+          'Cash: ' + cash,
+        ]
+      : [
+          '--- Delay Information ---',
+          'Delay: ' + formData.delayMinutes + ' minutes',
+          '',
+          '--- Compensation Eligible ---',
+          'Cash: ' + cash,
+          'Voucher: ' + voucher,
+        ]),
     '',
     'Submit your claim at:',
-    EUROSTAR_CLAIM_PORTAL_URL,
+    generateClaimPortalUrl(formData.claimType),
   ];
 
   return lines.join('\n');
 }
 
+/**
+ * Combines the claims on a booking into a claim pack for the lead booker.
+ * Totals are summed in cents to avoid floating point drift.
+ *
+ * @param booking - The booking the claims are for
+ * @param email - The lead booker's email address
+ * @param claims - One claim per passenger, in booking order
+ */
+export function buildClaimPack(
+  booking: Booking,
+  email: string,
+  claims: ClaimWithFormData[]
+): ClaimPack {
+  let cashCents = 0;
+  let voucherCents = 0;
+  for (const { formData } of claims) {
+    cashCents += Math.round(formData.eligibleCashAmount * 100);
+    voucherCents += Math.round(formData.eligibleVoucherAmount * 100);
+  }
+
+  return {
+    bookingId: booking.id,
+    pnr: booking.pnr,
+    leadPassengerName: booking.passengerName,
+    email,
+    claims,
+    currency: claims[0]?.claim.currency ?? booking.ticketCurrency ?? 'EUR',
+    totalCashAmount: cashCents / 100,
+    totalVoucherAmount: voucherCents / 100,
+  };
+}
+
+/**
+ * Formats a claim pack as text, so the lead booker can submit every
+ * passenger's claim in one go.
+ */
+export function formatClaimPackForClipboard(pack: ClaimPack): string {
+  const first = pack.claims[0]?.formData;
+  const lines = [
+    '=== Eurostar Claim Pack ===',
+    '',
+    'Booking Reference (PNR): ' + pack.pnr,
+    'Lead Booker: ' + pack.leadPassengerName,
+    'Email: ' + pack.email,
+  ];
+
+  if (first) {
+    lines.push(
+      '',
+      '--- Journey Details ---',
+      'Train Number: ' + first.trainNumber,
+      'Journey Date: ' + first.journeyDate,
+      'From: ' + first.origin,
+      'To: ' + first.destination
+    );
+  }
+
+  pack.claims.forEach(({ formData }, i) => {
+    lines.push(
+      '',
+      `--- Passenger ${i + 1} of ${pack.claims.length} ---`,
+      'Name: ' + [formData.firstName, formData.lastName].filter(Boolean).join(' '),
+      'Ticket Control Number: ' + formData.tcn,
+      'Cash: ' + formatCompensationAmount(formData.eligibleCashAmount, formData.currency),
+      'Voucher: ' + formatCompensationAmount(formData.eligibleVoucherAmount, formData.currency)
+    );
+  });
+
+  lines.push(
+    '',
+    '--- Total ---',
+    'Cash: ' + formatCompensationAmount(pack.totalCashAmount, pack.currency),
+    'Voucher: ' + formatCompensationAmount(pack.totalVoucherAmount, pack.currency),
+    '',
+    'Submit each claim at:',
+    generateClaimPortalUrl(first?.claimType)
+  );
+
+  return lines.join('\n');
+}
+
 /**
  * Formats claim form data as JSON for API responses.
  */
@@ -167,7 +276,9 @@ export function validateFormData(formData: ClaimFormData): {
   if (!formData.journeyDate) missingFields.push('journeyDate');
   if (!formData.origin) missingFields.push('origin');
   if (!formData.destination) missingFields.push('destination');
-  if (formData.delayMinutes <= 0) missingFields.push('delayMinutes');
+  if (formData.claimType === 'delay' && formData.delayMinutes <= 0) {
+    missingFields.push('delayMinutes');
+  }
 
   return {
     valid: missingFields.length === 0,
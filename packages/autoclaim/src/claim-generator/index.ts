@@ -13,13 +13,22 @@ export {
   type ClaimFormData,
   type ClaimGenerationResult,
   type ClaimWithFormData,
+  type ClaimPack,
+  type CompensationBreakdown,
+  type PrintableClaim,
+  type ClaimReevaluationResult,
   type ClaimGeneratorError,
+  type ClaimStatusChange,
+  type ClaimOutcome,
+  type PayoutReconciliation,
+  type ClaimReplyImport,
   type ListClaimsOptions,
   type UserClaimsSummary,
   ClaimGeneratorErrorCode,
   createClaimGeneratorError,
   STATION_NAMES,
   EUROSTAR_CLAIM_PORTAL_URL,
+  EUROSTAR_REFUND_PORTAL_URL,
 } from './types.js';
 
 // Form data utilities
@@ -27,6 +36,8 @@ export {
   buildClaimFormData,
   generateClaimPortalUrl,
   formatForClipboard,
+  buildClaimPack,
+  formatClaimPackForClipboard,
   formatAsJson,
   validateFormData,
   parsePassengerName,
@@ -51,8 +62,45 @@ export {
   claimEvents,
 } from './events.js';
 
+// Summary
+export { summarizeClaims, type ClaimForSummary } from './summary.js';
+
+// Revisions
+export {
+  reviseClaim,
+  FILED_CLAIM_STATUSES,
+  OPEN_CLAIM_STATUSES,
+  type ClaimRevision,
+} from './revision.js';
+
+// Status transitions
+export { CLAIM_STATUS_TRANSITIONS, canTransitionClaim } from './status.js';
+
+// Replies
+export {
+  matchClaimReply,
+  planClaimReply,
+  type ClaimReplyCandidate,
+  type ClaimReplyMatch,
+  type ClaimReplyPlan,
+} from './replies.js';
+
+// Delay evidence
+export {
+  buildClaimEvidence,
+  collectClaimEvidence,
+  hashClaimEvidence,
+  toCanonicalJson,
+  formatClaimEvidenceReport,
+  type ClaimEvidenceSource,
+} from './evidence.js';
+
+// Claim pack PDFs
+export { buildCompensationBreakdown, renderClaimPackPdf } from './pdf.js';
+
 // Service
 export {
   ClaimGeneratorService,
   createClaimGeneratorService,
+  type ClaimGeneratorServiceOptions,
 } from './service.js';
@@ -0,0 +1,390 @@
+/**
+ * Printable claim packs.
+ *
+ * A claim pack PDF holds everything needed to submit a claim, or to back it
+ * up if Eurostar disputes it: the claim form fields, how the compensation
+ * was worked out, the deadline and the delay evidence frozen when the claim
+ * was created. A pack of several claims opens with a summary page and gives
+ * each claim its own pages.
+ */
+
+import type {
+  BookingPassenger,
+  Claim,
+  ClaimEvidence,
+  ClaimStatus,
+  Currency,
+} from '@eurostar/core/db';
+import { writePdf, type PdfBlock, type PdfField } from '@eurostar/core/formats';
+import { pickTranslation } from '@eurostar/core/gtfs';
+import type { CompensationPolicy, CompensationTier } from '../eligibility/types.js';
+import { getTierForDelay } from '../eligibility/tiers.js';
+import { toAppliedPolicy } from '../eligibility/policies.js';
+import { formatCompensationAmount } from '../eligibility/calculator.js';
+import { formatJourneyDate, getStationDisplayName } from './form-data.js';
+import { formatEvidenceDelay, formatEvidenceTimestamp } from './evidence.js';
+import { OPEN_CLAIM_STATUSES } from './revision.js';
+import type { CompensationBreakdown, PrintableClaim } from './types.js';
+
+const STATUS_LABELS: Record<ClaimStatus, string> = {
+  pending: 'Pending',
+  eligible: 'Ready to submit',
+  submitted: 'Submitted to Eurostar',
+  approved: 'Approved',
+  rejected: 'Rejected',
+  expired: 'Expired',
+  withdrawn: 'Withdrawn',
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Works out how a claim's compensation was calculated under the policy in
+ * force on its journey date.
+ *
+ * @param passenger - The traveller the claim is for
+ * @param claim - The claim
+ * @param policy - The policy in force on the journey date
+ */
+export function buildCompensationBreakdown(
+  passenger: BookingPassenger,
+  claim: Claim,
+  policy: CompensationPolicy
+): CompensationBreakdown {
+  return {
+    policy: toAppliedPolicy(policy),
+    ticketPrice: passenger.ticketPrice === null ? null : parseFloat(passenger.ticketPrice),
+    tier: claim.claimType === 'cancellation' ? null : getTierForDelay(claim.delayMinutes, policy.tiers),
+  };
+}
+
+/**
+ * Describes a tier with its delay range, e.g. "Standard (60-119 min)".
+ */
+function describeTier(tier: CompensationTier): string {
+  const range =
+    tier.maxDelayMinutes === null
+      ? `${tier.minDelayMinutes}+`
+      : `${tier.minDelayMinutes}-${tier.maxDelayMinutes - 1}`;
+  return `${tier.name} (${range} min)`;
+}
+
+const formatShare = (share: number) => `${Math.round(share * 100)}%`;
+
+const formatPassengerName = ({ firstName, lastName }: PrintableClaim['formData']) =>
+  [firstName, lastName].filter(Boolean).join(' ');
+
+function claimFormFields(printable: PrintableClaim): PdfField[] {
+  const { formData } = printable;
+  const amount = (value: number) => formatCompensationAmount(value, formData.currency);
+
+  return [
+    { label: 'Booking Reference (PNR)', value: formData.pnr },
+    { label: 'Ticket Control Number', value: formData.tcn },
+    { label: 'First Name', value: formData.firstName },
+    { label: 'Last Name', value: formData.lastName },
+    { label: 'Email', value: formData.email },
+    { label: 'Train Number', value: formData.trainNumber },
+    { label: 'Journey Date', value: formData.journeyDate },
+    { label: 'From', value: formData.origin },
+    { label: 'To', value: formData.destination },
+    ...(formData.claimType === 'cancellation'
+      ? [
+          { label: 'Cancellation', value: 'Train cancelled or stop not served' },
+          { label: 'Refund', value: amount(formData.eligibleCashAmount) },
+        ]
+      : [
+          { label: 'Delay', value: `${formData.delayMinutes} minutes` },
+          { label: 'Cash', value: amount(formData.eligibleCashAmount) },
+          { label: 'Voucher', value: amount(formData.eligibleVoucherAmount) },
+        ]),
+  ];
+}
+
+function compensationFields(printable: PrintableClaim): PdfField[] {
+  const { formData, breakdown } = printable;
+  const amount = (value: number) => formatCompensationAmount(value, formData.currency);
+  const { tier, ticketPrice } = breakdown;
+
+  const fields: PdfField[] = [
+    { label: 'Policy', value: `${breakdown.policy.name}, version ${breakdown.policy.version}` },
+    { label: 'Ticket Price', value: ticketPrice === null ? 'Unknown' : amount(ticketPrice) },
+  ];
+
+  if (formData.claimType === 'cancellation') {
+    fields.push(
+      { label: 'Refund', value: `Full ticket price: ${amount(formData.eligibleCashAmount)}` },
+      { label: 'Options', value: 'Full refund, or re-route on a later train at no extra cost' }
+    );
+    return fields;
+  }
+
+  const share = (percentage: number, value: number) =>
+    ticketPrice === null
+      ? amount(value)
+      : `${formatShare(percentage)} of ${amount(ticketPrice)} = ${amount(value)}`;
+
+  fields.push(
+    { label: 'Delay', value: `${formData.delayMinutes} minutes` },
+    { label: 'Tier', value: tier ? describeTier(tier) : 'None' },
+    {
+      label: 'Cash',
+      value: tier ? share(tier.cashPercentage, formData.eligibleCashAmount) : amount(formData.eligibleCashAmount),
+    },
+    {
+      label: 'Voucher',
+      value: tier
+        ? share(tier.voucherPercentage, formData.eligibleVoucherAmount)
+        : amount(formData.eligibleVoucherAmount),
+    }
+  );
+  return fields;
+}
+
+function statusFields(printable: PrintableClaim, generatedAt: Date): PdfField[] {
+  const { claim, deadline, formData } = printable;
+  const amount = (value: string) => formatCompensationAmount(parseFloat(value), formData.currency);
+
+  let deadlineText = formatJourneyDate(deadline);
+  if (OPEN_CLAIM_STATUSES.includes(claim.status)) {
+    const daysLeft = Math.ceil((deadline.getTime() - generatedAt.getTime()) / DAY_MS);
+    deadlineText +=
+      daysLeft < 0 ? ' (passed)' : ` (${daysLeft} ${daysLeft === 1 ? 'day' : 'days'} left)`;
+  }
+
+  return [
+    { label: 'Claim Deadline', value: deadlineText },
+    { label: 'Status', value: STATUS_LABELS[claim.status] },
+    ...(claim.submittedAt ? [{ label: 'Submitted', value: formatJourneyDate(claim.submittedAt) }] : []),
+    ...(claim.eurostarReference ? [{ label: 'Eurostar Case Number', value: claim.eurostarReference }] : []),
+    ...(claim.decidedAt ? [{ label: 'Decided', value: formatJourneyDate(claim.decidedAt) }] : []),
+    ...(claim.receivedAmount !== null
+      ? [
+          {
+            label: 'Received',
+            value: amount(claim.receivedAmount) + (claim.payoutType ? ` (${claim.payoutType})` : ''),
+          },
+        ]
+      : []),
+    ...(claim.voucherCode ? [{ label: 'Voucher Code', value: claim.voucherCode }] : []),
+    ...(claim.rejectionReason ? [{ label: 'Rejection Reason', value: claim.rejectionReason }] : []),
+    { label: 'Claim ID', value: claim.id },
+  ];
+}
+
+function evidenceBlocks(evidence: ClaimEvidence | null): PdfBlock[] {
+  const blocks: PdfBlock[] = [{ type: 'heading', text: 'Delay Evidence' }];
+
+  if (!evidence) {
+    blocks.push({ type: 'paragraph', text: 'No delay evidence was recorded for this claim.', muted: true });
+    return blocks;
+  }
+
+  const { snapshot, contentHash } = evidence;
+  const { train, feed } = snapshot;
+
+  const fields: PdfField[] = [{ label: 'Recorded', value: formatEvidenceTimestamp(snapshot.capturedAt) }];
+  if (train) {
+    fields.push(
+      { label: 'Trip', value: train.tripId },
+      { label: 'Scheduled Departure', value: formatEvidenceTimestamp(train.scheduledDeparture) },
+      { label: 'Scheduled Arrival', value: formatEvidenceTimestamp(train.scheduledArrival) },
+      {
+        label: 'Final Delay',
+        value: train.delayMinutes === null ? 'Unknown' : formatEvidenceDelay(train.delayMinutes),
+      },
+      ...(train.scheduleRelationship === 'canceled' ? [{ label: 'Train Status', value: 'Cancelled' }] : []),
+      ...(train.delayCauseOverride
+        ? [{ label: 'Delay Cause (classified)', value: train.delayCauseOverride }]
+        : [])
+    );
+  }
+  fields.push({ label: 'Polls Recorded', value: String(feed.observationCount) });
+  if (feed.firstObservedAt && feed.lastObservedAt) {
+    fields.push({
+      label: 'Observed',
+      value: `${formatEvidenceTimestamp(feed.firstObservedAt)} to ${formatEvidenceTimestamp(feed.lastObservedAt)}`,
+    });
+  }
+  if (feed.firstFeedTimestamp && feed.lastFeedTimestamp) {
+    fields.push({
+      label: 'Feed Timestamps',
+      value: `${formatEvidenceTimestamp(feed.firstFeedTimestamp)} to ${formatEvidenceTimestamp(feed.lastFeedTimestamp)}`,
+    });
+  }
+  blocks.push({ type: 'fields', fields });
+
+  if (!train) {
+    blocks.push({ type: 'paragraph', text: 'The booking was not matched to a train in the live feed.' });
+  }
+
+  if (snapshot.stops.length > 0) {
+    blocks.push({
+      type: 'table',
+      columns: [
+        { header: 'Station', width: 2.4 },
+        { header: 'Observed', width: 3 },
+        { header: 'Feed Timestamp', width: 3 },
+        { header: 'Arrival', width: 1.3, align: 'right' },
+        { header: 'Departure', width: 1.5, align: 'right' },
+        { header: 'Stop', width: 1.1 },
+      ],
+      rows: snapshot.stops.flatMap((stop) =>
+        stop.history.map((entry, i) => [
+          i === 0 ? getStationDisplayName(stop.stationCode) : '',
+          formatEvidenceTimestamp(entry.observedAt),
+          entry.feedTimestamp ? formatEvidenceTimestamp(entry.feedTimestamp) : '',
+          formatEvidenceDelay(entry.arrivalDelayMinutes),
+          formatEvidenceDelay(entry.departureDelayMinutes),
+          entry.scheduleRelationship === 'scheduled' ? '' : entry.scheduleRelationship,
+        ])
+      ),
+    });
+  }
+
+  if (snapshot.alerts.length === 0) {
+    blocks.push({ type: 'paragraph', text: 'No service alerts were linked to the train.' });
+  }
+  for (const alert of snapshot.alerts) {
+    blocks.push({
+      type: 'paragraph',
+      text: `${pickTranslation(alert.headerText) ?? alert.alertId} [${alert.cause}, ${alert.effect}]`,
+    });
+    const description = pickTranslation(alert.descriptionText);
+    if (description) {
+      blocks.push({ type: 'paragraph', text: description });
+    }
+    blocks.push({
+      type: 'paragraph',
+      text: `First seen ${formatEvidenceTimestamp(alert.firstSeenAt)}, last seen ${formatEvidenceTimestamp(alert.lastSeenAt)}`,
+      muted: true,
+    });
+  }
+
+  blocks.push({
+    type: 'paragraph',
+    text: `SHA-256 (canonical JSON of the snapshot): ${contentHash}`,
+    muted: true,
+  });
+  return blocks;
+}
+
+/**
+ * Lays out one claim's pages.
+ */
+function claimBlocks(printable: PrintableClaim, generatedAt: Date): PdfBlock[] {
+  const { formData } = printable;
+
+  return [
+    {
+      type: 'heading',
+      level: 1,
+      text:
+        formData.claimType === 'cancellation'
+          ? 'Eurostar Cancellation Refund / Re-route'
+          : 'Eurostar Delay Compensation Claim',
+    },
+    {
+      type: 'paragraph',
+      text: `${formatPassengerName(formData)}, booking ${formData.pnr}, train ${formData.trainNumber} on ${formData.journeyDate}`,
+      muted: true,
+    },
+    { type: 'heading', text: 'Claim Form' },
+    { type: 'fields', fields: claimFormFields(printable) },
+    { type: 'paragraph', text: `Submit the claim at: ${printable.claimPortalUrl}` },
+    { type: 'heading', text: 'Compensation' },
+    { type: 'fields', fields: compensationFields(printable) },
+    { type: 'heading', text: 'Deadline and Status' },
+    { type: 'fields', fields: statusFields(printable, generatedAt) },
+    ...evidenceBlocks(printable.evidence),
+  ];
+}
+
+/**
+ * Lays out the summary page of a pack of several claims, with totals per
+ * currency summed in cents.
+ */
+function summaryBlocks(claims: PrintableClaim[]): PdfBlock[] {
+  const totals = new Map<Currency, { cash: number; voucher: number }>();
+  for (const { formData } of claims) {
+    const total = totals.get(formData.currency) ?? { cash: 0, voucher: 0 };
+    total.cash += Math.round(formData.eligibleCashAmount * 100);
+    total.voucher += Math.round(formData.eligibleVoucherAmount * 100);
+    totals.set(formData.currency, total);
+  }
+
+  return [
+    { type: 'heading', level: 1, text: 'Eurostar Claim Pack' },
+    { type: 'paragraph', text: `${claims.length} claims, each on its own pages after this summary.`, muted: true },
+    {
+      type: 'table',
+      columns: [
+        { header: 'Passenger', width: 3 },
+        { header: 'Booking', width: 1.4 },
+        { header: 'Train', width: 1 },
+        { header: 'Journey Date', width: 1.8 },
+        { header: 'Status', width: 2.4 },
+        { header: 'Cash', width: 1.4, align: 'right' },
+        { header: 'Voucher', width: 1.4, align: 'right' },
+      ],
+      rows: claims.map(({ claim, formData }) => [
+        formatPassengerName(formData),
+        formData.pnr,
+        formData.trainNumber,
+        formData.journeyDate,
+        STATUS_LABELS[claim.status],
+        formatCompensationAmount(formData.eligibleCashAmount, formData.currency),
+        formatCompensationAmount(formData.eligibleVoucherAmount, formData.currency),
+      ]),
+    },
+    {
+      type: 'fields',
+      fields: [...totals].flatMap(([currency, total]) => [
+        {
+          label: `Total Cash (${currency})`,
+          value: formatCompensationAmount(total.cash / 100, currency),
+        },
+        {
+          label: `Total Voucher (${currency})`,
+          value: formatCompensationAmount(total.voucher / 100, currency),
+        },
+      ]),
+    },
+  ];
+}
+
+/**
+ * Renders a claim pack PDF: one claim's pages, or a summary page followed
+ * by each claim's pages.
+ *
+ * @param claims - The claims to include, in order
+ * @param generatedAt - When the pack is prepared (default: now)
+ * @returns The PDF file bytes
+ */
+export function renderClaimPackPdf(claims: PrintableClaim[], generatedAt: Date = new Date()): Buffer {
+  const prepared = `prepared ${formatEvidenceTimestamp(generatedAt.toISOString())}`;
+  const single = claims.length === 1 ? claims[0] : undefined;
+
+  if (single) {
+    const name = formatPassengerName(single.formData);
+    return writePdf({
+      title: `Eurostar claim ${single.formData.pnr} - ${name}`,
+      footer: `Claim pack for ${name}, booking ${single.formData.pnr}, ${prepared}`,
+      createdAt: generatedAt,
+      blocks: claimBlocks(single, generatedAt),
+    });
+  }
+
+  return writePdf({
+    title: 'Eurostar claim pack',
+    footer: `Eurostar claim pack, ${claims.length} claims, ${prepared}`,
+    createdAt: generatedAt,
+    blocks: [
+      ...summaryBlocks(claims),
+      ...claims.flatMap((printable): PdfBlock[] => [
+        { type: 'pageBreak' },
+        ...claimBlocks(printable, generatedAt),
+      ]),
+    ],
+  });
+}
@@ -0,0 +1,139 @@
+/**
+ * Matching Eurostar's replies to the claims they are about.
+ */
+
+import type { Claim, ClaimReplyReviewReason, ClaimStatus } from '@eurostar/core/db';
+import type { ParsedClaimReply } from '../reply-parser/types.js';
+import { canTransitionClaim } from './status.js';
+
+/** Claims still waiting for Eurostar's decision */
+const AWAITING_DECISION_STATUSES: ClaimStatus[] = ['pending', 'eligible', 'submitted'];
+
+/**
+ * A claim a reply might be about, with its booking reference.
+ */
+export interface ClaimReplyCandidate {
+  claim: Claim;
+  pnr: string;
+}
+
+/**
+ * The claim a reply is about, or why it couldn't be told.
+ */
+export type ClaimReplyMatch =
+  | { matched: true; claim: Claim }
+  | { matched: false; reason: 'no_match' | 'ambiguous'; candidates: Claim[] };
+
+/**
+ * What to do with a reply to a claim.
+ */
+export type ClaimReplyPlan =
+  | { action: 'apply' }
+  | { action: 'unchanged' }
+  | { action: 'review'; reason: Extract<ClaimReplyReviewReason, 'incomplete' | 'invalid_status'> };
+
+/**
+ * Gets the amount a claim expected for a payout type, as a number.
+ */
+function getEligibleAmount(claim: Claim, payoutType: 'cash' | 'voucher'): number {
+  const amount = payoutType === 'cash' ? claim.eligibleCashAmount : claim.eligibleVoucherAmount;
+  return amount ? parseFloat(amount) : 0;
+}
+
+/**
+ * Finds the claim a reply is about among the user's claims on the reply's
+ * booking or with its case number.
+ *
+ * A claim already holding the reply's case number is the match. Otherwise
+ * the claims on the booking are narrowed to those awaiting a decision (and
+ * not tied to another case), then to the one whose eligible amount is the
+ * amount paid. A booking with several passengers usually needs the user
+ * to pick the claim.
+ *
+ * @param reply - The parsed reply
+ * @param candidates - The user's claims with the reply's booking reference or case number
+ * @returns The matched claim, or the reason for review with the claims it might be
+ */
+export function matchClaimReply(
+  reply: ParsedClaimReply,
+  candidates: ClaimReplyCandidate[]
+): ClaimReplyMatch {
+  const reference = reply.caseReference;
+  if (reference) {
+    const byReference = candidates.filter(
+      ({ claim }) => claim.eurostarReference?.toUpperCase() === reference
+    );
+    if (byReference.length === 1) {
+      return { matched: true, claim: byReference[0]!.claim };
+    }
+  }
+
+  const onBooking = reply.pnr
+    ? candidates
+        .filter(({ pnr }) => pnr === reply.pnr)
+        .map(({ claim }) => claim)
+        .filter((claim) => !reference || !claim.eurostarReference || claim.eurostarReference.toUpperCase() === reference)
+    : [];
+  if (onBooking.length <= 1) {
+    return onBooking.length === 1
+      ? { matched: true, claim: onBooking[0]! }
+      : { matched: false, reason: 'no_match', candidates: [] };
+  }
+
+  let awaiting = onBooking.filter((claim) => AWAITING_DECISION_STATUSES.includes(claim.status));
+  if (awaiting.length > 1 && reply.amount !== null && reply.payoutType) {
+    const { amount, payoutType } = reply;
+    const byAmount = awaiting.filter(
+      (claim) =>
+        claim.currency === reply.currency &&
+        Math.abs(getEligibleAmount(claim, payoutType) - amount) < 0.005
+    );
+    if (byAmount.length === 1) {
+      awaiting = byAmount;
+    }
+  }
+
+  return awaiting.length === 1
+    ? { matched: true, claim: awaiting[0]! }
+    : { matched: false, reason: 'ambiguous', candidates: awaiting.length > 0 ? awaiting : onBooking };
+}
+
+/**
+ * Works out what a reply does to the claim it is about.
+ *
+ * Eurostar only replies to submitted claims, so a reply to a pending or
+ * eligible claim also marks it submitted. A reply repeating what the claim
+ * already records changes nothing. Approvals are applied only with the
+ * amount, in the claim currency, and payout type.
+ *
+ * @param claim - The claim the reply is about
+ * @param reply - The parsed reply
+ */
+export function planClaimReply(claim: Claim, reply: ParsedClaimReply): ClaimReplyPlan {
+  const newReference = reply.caseReference !== null && reply.caseReference !== claim.eurostarReference;
+
+  if (reply.kind === 'acknowledged') {
+    if (claim.status === 'pending' || claim.status === 'eligible') {
+      return { action: 'apply' };
+    }
+    return claim.status === 'submitted' && newReference ? { action: 'apply' } : { action: 'unchanged' };
+  }
+
+  if (claim.status === reply.kind) {
+    return { action: 'unchanged' };
+  }
+
+  const submitted = claim.status === 'submitted' || canTransitionClaim(claim.status, 'submitted');
+  if (!submitted) {
+    return { action: 'review', reason: 'invalid_status' };
+  }
+
+  if (
+    reply.kind === 'approved' &&
+    (reply.amount === null || !reply.payoutType || reply.currency !== claim.currency)
+  ) {
+    return { action: 'review', reason: 'incomplete' };
+  }
+
+  return { action: 'apply' };
+}
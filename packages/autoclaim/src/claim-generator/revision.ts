@@ -0,0 +1,44 @@
+/**
+ * Revising claims after their booking changes.
+ */
+
+import type { Claim, ClaimStatus } from '@eurostar/core/db';
+import type { EligibilityStatus } from '../eligibility/types.js';
+
+/** Claims that have not been sent to Eurostar yet, so can still change */
+export const OPEN_CLAIM_STATUSES: ClaimStatus[] = ['pending', 'eligible'];
+
+/** Claims filed with Eurostar, whose booking's journey and passenger are fixed */
+export const FILED_CLAIM_STATUSES: ClaimStatus[] = ['submitted', 'approved', 'rejected'];
+
+/**
+ * The values of a claim that follow from its passenger's eligibility.
+ */
+export type ClaimRevision = Pick<
+  Claim,
+  'claimType' | 'delayMinutes' | 'eligibleCashAmount' | 'eligibleVoucherAmount' | 'currency'
+>;
+
+/**
+ * Works out what an open claim should become once its booking's journey
+ * has changed. Claims in OPEN_CLAIM_STATUSES are the only ones revised.
+ *
+ * @param eligibility - The passenger's eligibility for the booking as it now is
+ * @returns The claim's new values (unchanged ones included), or null if the
+ *   passenger is no longer eligible and the claim should be withdrawn
+ */
+export function reviseClaim(
+  eligibility: EligibilityStatus | null
+): ClaimRevision | null {
+  if (!eligibility?.eligible || !eligibility.compensation) {
+    return null;
+  }
+
+  return {
+    claimType: eligibility.claimType,
+    delayMinutes: eligibility.compensation.delayMinutes,
+    eligibleCashAmount: String(eligibility.compensation.cashAmount),
+    eligibleVoucherAmount: String(eligibility.compensation.voucherAmount),
+    currency: eligibility.compensation.currency,
+  };
+}
@@ -6,34 +6,165 @@
  * everything and the user clicks through to Eurostar portal.
  */
 
-import { eq, and, desc } from 'drizzle-orm';
+import { eq, and, asc, desc, inArray, ne, or } from 'drizzle-orm';
 import type { Database } from '@eurostar/core/db';
-import { claims, bookings, users, type Claim, type Booking } from '@eurostar/core/db';
+import {
+  claims,
+  claimEvidence,
+  claimStatusEvents,
+  claimReplyReviews,
+  bookings,
+  bookingPassengers,
+  users,
+  type Claim,
+  type ClaimEvidence,
+  type ClaimEvidenceSnapshot,
+  type ClaimReplyReviewReason,
+  type ClaimStatus,
+  type ClaimStatusEvent,
+  type Booking,
+  type BookingPassenger,
+  type Currency,
+} from '@eurostar/core/db';
+import type { ExchangeRateProvider } from '@eurostar/core/exchange-rates';
 import { Result, ok, err } from '@eurostar/core/result';
 import type { EligibilityStatus } from '../eligibility/types.js';
 import { getClaimDeadline } from '../eligibility/deadline.js';
+import {
+  EligibilityService,
+  type CheckEligibilityOptions,
+} from '../eligibility/service.js';
+import { resolveEurToGbpRate } from '../eligibility/rates.js';
+import { findDelayCause } from '../delay-monitor/causes.js';
 import {
   type ClaimGenerationResult,
+  type ClaimPack,
+  type ClaimOutcome,
+  type ClaimReplyImport,
+  type ClaimReevaluationResult,
+  type ClaimStatusChange,
   type ClaimWithFormData,
   type ClaimGeneratorError,
   type ListClaimsOptions,
+  type PrintableClaim,
+  type UserClaimsSummary,
   ClaimGeneratorErrorCode,
   createClaimGeneratorError,
 } from './types.js';
 import {
   buildClaimFormData,
+  buildClaimPack,
   generateClaimPortalUrl,
 } from './form-data.js';
 import { ClaimEventEmitter, createClaimEventEmitter } from './events.js';
+import { summarizeClaims } from './summary.js';
+import {
+  FILED_CLAIM_STATUSES,
+  OPEN_CLAIM_STATUSES,
+  reviseClaim,
+  type ClaimRevision,
+} from './revision.js';
+import { canTransitionClaim } from './status.js';
+import { matchClaimReply, planClaimReply } from './replies.js';
+import { collectClaimEvidence, hashClaimEvidence } from './evidence.js';
+import { buildCompensationBreakdown } from './pdf.js';
+import type { ParsedClaimReply } from '../reply-parser/types.js';
+
+/**
+ * Options for creating a ClaimGeneratorService.
+ */
+export interface ClaimGeneratorServiceOptions {
+  events?: ClaimEventEmitter;
+  eligibilityService?: EligibilityService;
+  /** Historical EUR/GBP rates (fixed fallback rate if omitted) */
+  exchangeRates?: ExchangeRateProvider | undefined;
+}
+
+/** A database transaction */
+type Transaction = Parameters<Parameters<Database['transaction']>[0]>[0];
+
+/**
+ * A status a claim is moved to, who moved it and why, and the other
+ * columns set with it.
+ */
+interface ClaimStatusStep {
+  status: ClaimStatus;
+  change: ClaimStatusChange;
+  values?: Partial<
+    Pick<
+      Claim,
+      | 'submittedAt'
+      | 'decidedAt'
+      | 'receivedAmount'
+      | 'payoutType'
+      | 'rejectionReason'
+      | 'eurostarReference'
+      | 'voucherCode'
+    > &
+      ClaimRevision
+  >;
+}
+
+/**
+ * Builds the status change recording Eurostar's decision on a claim. An
+ * approval must come with the amount received and the payout type.
+ */
+function toOutcomeStep(
+  claim: Claim,
+  outcome: ClaimOutcome,
+  change: ClaimStatusChange
+): ClaimStatusStep {
+  const approved = outcome.decision === 'approved';
+  const receivedAmount = approved ? outcome.receivedAmount!.toFixed(2) : null;
+  const note = approved
+    ? `Paid ${receivedAmount} ${claim.currency} as ${outcome.payoutType === 'voucher' ? 'a voucher' : 'cash'}`
+    : outcome.rejectionReason;
+
+  return {
+    status: outcome.decision,
+    change: { note, ...change },
+    values: {
+      decidedAt: outcome.decidedAt ?? new Date(),
+      receivedAmount,
+      payoutType: approved ? outcome.payoutType! : null,
+      rejectionReason: approved ? null : (outcome.rejectionReason ?? null),
+      eurostarReference: outcome.eurostarReference ?? claim.eurostarReference,
+      voucherCode: approved && outcome.payoutType === 'voucher' ? (outcome.voucherCode ?? null) : null,
+    },
+  };
+}
+
+/**
+ * Replaces a claim's evidence with a snapshot taken for its revised journey.
+ *
+ * @param tx - Transaction the claim is revised in
+ * @param claimId - The claim ID
+ * @param evidence - What is recorded about the claim's new train
+ */
+async function replaceClaimEvidence(
+  tx: Transaction,
+  claimId: string,
+  evidence: ClaimEvidenceSnapshot
+): Promise<void> {
+  const values = { snapshot: evidence, contentHash: hashClaimEvidence(evidence) };
+  await tx
+    .insert(claimEvidence)
+    .values({ claimId, ...values })
+    .onConflictDoUpdate({ target: claimEvidence.claimId, set: values });
+}
 
 /**
  * Service for generating and managing compensation claims.
  */
 export class ClaimGeneratorService {
   private readonly events: ClaimEventEmitter;
+  private readonly eligibility: EligibilityService;
+  private readonly exchangeRates: ExchangeRateProvider | undefined;
 
-  constructor(options: { events?: ClaimEventEmitter } = {}) {
+  constructor(options: ClaimGeneratorServiceOptions = {}) {
     this.events = options.events ?? createClaimEventEmitter();
+    this.eligibility = options.eligibilityService ?? new EligibilityService();
+    this.exchangeRates = options.exchangeRates;
   }
 
   /**
@@ -44,9 +175,10 @@ export class ClaimGeneratorService {
   }
 
   /**
-   * Creates a new claim for a booking.
+   * Creates a new claim for one passenger on a booking.
    *
-   * @param booking - The booking to create a claim for
+   * @param booking - The booking the passenger travelled on
+   * @param passenger - The passenger to create a claim for
    * @param eligibility - The eligibility status with compensation amounts
    * @param userEmail - The user's email address
    * @param db - Database connection
@@ -54,11 +186,12 @@ export class ClaimGeneratorService {
    */
   async createClaim(
     booking: Booking,
+    passenger: BookingPassenger,
     eligibility: EligibilityStatus,
     userEmail: string,
     db: Database
   ): Promise<Result<ClaimGenerationResult, ClaimGeneratorError>> {
-    // Verify eligibility
+    // Verify eligibility (cancellations are eligible for refund/re-route)
     if (!eligibility.eligible || !eligibility.compensation) {
       return err(
         createClaimGeneratorError(
@@ -73,30 +206,61 @@ export class ClaimGeneratorService {
     const existingClaim = await db
       .select()
       .from(claims)
-      .where(eq(claims.bookingId, booking.id))
+      .where(eq(claims.passengerId, passenger.id))
       .limit(1);
 
     if (existingClaim.length > 0) {
       return err(
         createClaimGeneratorError(
           ClaimGeneratorErrorCode.CLAIM_ALREADY_EXISTS,
-          'A claim already exists for this booking',
+          'A claim already exists for this passenger',
           { claimId: existingClaim[0]!.id }
         )
       );
     }
 
-    // Create the claim record
-    const [newClaim] = await db
-      .insert(claims)
-      .values({
-        bookingId: booking.id,
-        delayMinutes: eligibility.compensation.delayMinutes,
-        eligibleCashAmount: String(eligibility.compensation.cashAmount),
-        eligibleVoucherAmount: String(eligibility.compensation.voucherAmount),
-        status: 'eligible',
-      })
-      .returning();
+    // Freeze what the feed says about the train now; later polls overwrite it
+    const { compensation } = eligibility;
+    const evidence = await collectClaimEvidence(
+      booking,
+      { claimType: eligibility.claimType, delayMinutes: compensation.delayMinutes },
+      db
+    );
+
+    // Create the claim record with its evidence and start its status history
+    const newClaim = await db.transaction(async (tx) => {
+      const [created] = await tx
+        .insert(claims)
+        .values({
+          bookingId: booking.id,
+          passengerId: passenger.id,
+          claimType: eligibility.claimType,
+          delayMinutes: compensation.delayMinutes,
+          eligibleCashAmount: String(compensation.cashAmount),
+          eligibleVoucherAmount: String(compensation.voucherAmount),
+          currency: compensation.currency,
+          status: 'eligible',
+        })
+        .returning();
+
+      if (created) {
+        await tx.insert(claimStatusEvents).values({
+          claimId: created.id,
+          toStatus: created.status,
+          actor: 'system',
+          note:
+            created.claimType === 'cancellation'
+              ? 'Train cancelled'
+              : `Train arrived ${created.delayMinutes} min late`,
+        });
+        await tx.insert(claimEvidence).values({
+          claimId: created.id,
+          snapshot: evidence,
+          contentHash: hashClaimEvidence(evidence),
+        });
+      }
+      return created;
+    });
 
     if (!newClaim) {
       return err(
@@ -108,8 +272,8 @@ export class ClaimGeneratorService {
     }
 
     // Build form data
-    const formData = buildClaimFormData(booking, newClaim, userEmail);
-    const claimPortalUrl = generateClaimPortalUrl();
+    const formData = buildClaimFormData(booking, passenger, newClaim, userEmail);
+    const claimPortalUrl = generateClaimPortalUrl(newClaim.claimType);
     const deadline = getClaimDeadline(booking.journeyDate);
 
     // Emit claim created event
@@ -131,6 +295,270 @@ export class ClaimGeneratorService {
     return ok(result);
   }
 
+  /**
+   * Creates a claim for each passenger on a booking using their own fare.
+   *
+   * Compensation is computed from each passenger's ticketPrice in their
+   * ticketCurrency, so the amounts on each claim match what that traveller
+   * actually paid. The minimum payout uses the exchange rate on the journey
+   * date, and the delay cause is loaded from the train unless given in options.
+   *
+   * Passengers who already have a claim keep it; passengers whose fare is
+   * unknown or below the minimum payout are skipped.
+   *
+   * @param booking - The booking to create claims for
+   * @param passengers - The booking's passengers, lead booker first
+   * @param userEmail - The lead booker's email address
+   * @param db - Database connection
+   * @param options - Optional eligibility configuration (e.g. current time)
+   * @returns Result with the claim pack for the lead booker, or error
+   */
+  async generateClaimsForBooking(
+    booking: Booking,
+    passengers: BookingPassenger[],
+    userEmail: string,
+    db: Database,
+    options: Omit<CheckEligibilityOptions, 'currency'> = {}
+  ): Promise<Result<ClaimPack, ClaimGeneratorError>> {
+    const priced = passengers.filter(
+      (passenger) => passenger.ticketPrice !== null && passenger.ticketCurrency !== null
+    );
+    if (priced.length === 0) {
+      return err(
+        createClaimGeneratorError(
+          ClaimGeneratorErrorCode.MISSING_DATA,
+          'No passenger has a ticket price; add the fares paid to calculate compensation',
+          { bookingId: booking.id, field: 'ticketPrice' }
+        )
+      );
+    }
+
+    if (booking.finalDelayMinutes === null && !booking.cancelledAt) {
+      return err(
+        createClaimGeneratorError(
+          ClaimGeneratorErrorCode.NOT_ELIGIBLE,
+          'Journey delay is not known yet',
+          { bookingId: booking.id }
+        )
+      );
+    }
+
+    const exchangeRate =
+      options.exchangeRate ??
+      (await resolveEurToGbpRate(this.exchangeRates, booking.journeyDate));
+    // Cancellations are refunded whatever the cause
+    const delayCause =
+      options.delayCause === undefined && !booking.cancelledAt
+        ? await findDelayCause(booking, db)
+        : options.delayCause;
+
+    let lastIneligible: EligibilityStatus | null = null;
+
+    for (const passenger of priced) {
+      const eligibility = this.eligibility.checkPassengerEligibility(booking, passenger, {
+        ...options,
+        exchangeRate,
+        delayCause,
+      });
+      if (!eligibility?.eligible) {
+        lastIneligible = eligibility;
+        continue;
+      }
+
+      const result = await this.createClaim(booking, passenger, eligibility, userEmail, db);
+      if (result.isErr()) {
+        if (result.error.code === ClaimGeneratorErrorCode.CLAIM_ALREADY_EXISTS) {
+          continue;
+        }
+        return err(result.error);
+      }
+    }
+
+    const pack = await this.getClaimPack(booking.id, db);
+    if (pack.isErr()) {
+      return err(pack.error);
+    }
+    if (pack.value.claims.length === 0) {
+      return err(
+        createClaimGeneratorError(
+          ClaimGeneratorErrorCode.NOT_ELIGIBLE,
+          'Booking is not eligible for compensation',
+          { bookingId: booking.id, reason: lastIneligible?.reason }
+        )
+      );
+    }
+
+    return ok(pack.value);
+  }
+
+  /**
+   * Re-evaluates a booking's open claims after its journey or delay cause
+   * was changed.
+   *
+   * Each pending or eligible claim is recalculated from its passenger's
+   * eligibility for the booking as it now is. Claims whose passenger is no
+   * longer eligible (including while the new journey's delay is unknown)
+   * are withdrawn, and withdrawn claims become eligible again once their
+   * passenger is. Both changes are recorded in the claim's status history.
+   * A recalculated claim's evidence is taken again for the new train.
+   * Submitted and settled claims are left alone, as are claims whose
+   * status changes while they are re-evaluated.
+   *
+   * @param booking - The booking as updated
+   * @param db - Database connection
+   * @param options - Optional eligibility configuration (e.g. current time)
+   * @returns Result with the updated and withdrawn claims, or error
+   */
+  async reevaluateClaims(
+    booking: Booking,
+    db: Database,
+    options: Omit<CheckEligibilityOptions, 'currency'> = {}
+  ): Promise<Result<ClaimReevaluationResult, ClaimGeneratorError>> {
+    const open = await db
+      .select({ claim: claims, passenger: bookingPassengers })
+      .from(claims)
+      .innerJoin(bookingPassengers, eq(claims.passengerId, bookingPassengers.id))
+      .where(
+        and(
+          eq(claims.bookingId, booking.id),
+          inArray(claims.status, [...OPEN_CLAIM_STATUSES, 'withdrawn'])
+        )
+      );
+
+    const result: ClaimReevaluationResult = { updated: [], withdrawn: [] };
+    if (open.length === 0) {
+      return ok(result);
+    }
+
+    const delayKnown = booking.finalDelayMinutes !== null || booking.cancelledAt !== null;
+    const exchangeRate =
+      options.exchangeRate ??
+      (await resolveEurToGbpRate(this.exchangeRates, booking.journeyDate));
+    const delayCause =
+      options.delayCause === undefined && delayKnown && !booking.cancelledAt
+        ? await findDelayCause(booking, db)
+        : options.delayCause;
+
+    for (const { claim, passenger } of open) {
+      const eligibility = delayKnown
+        ? this.eligibility.checkPassengerEligibility(booking, passenger, {
+            ...options,
+            exchangeRate,
+            delayCause,
+          })
+        : null;
+      const revision = reviseClaim(eligibility);
+
+      if (!revision && claim.status === 'withdrawn') {
+        continue;
+      }
+
+      const evidence = revision ? await collectClaimEvidence(booking, revision, db) : undefined;
+
+      if (!revision || claim.status === 'withdrawn') {
+        const newStatus = revision ? 'eligible' : 'withdrawn';
+        const note = revision
+          ? 'Booking changed and is eligible again'
+          : delayKnown
+            ? 'Booking changed and is no longer eligible'
+            : "Booking changed; its delay isn't known yet";
+
+        const changed = await this.transitionClaim(
+          claim,
+          [{ status: newStatus, change: { note }, values: revision ?? {} }],
+          db,
+          evidence
+        );
+        if (changed.isErr()) {
+          // Its status changed since it was read, e.g. it was just submitted
+          if (changed.error.code === ClaimGeneratorErrorCode.INVALID_STATUS_TRANSITION) {
+            continue;
+          }
+          return err(changed.error);
+        }
+
+        this.events.emitStatusChanged({
+          claimId: claim.id,
+          previousStatus: claim.status,
+          newStatus,
+          userId: booking.userId,
+        });
+        (revision ? result.updated : result.withdrawn).push(changed.value);
+        continue;
+      }
+
+      const updated = await db.transaction(async (tx) => {
+        const [row] = await tx
+          .update(claims)
+          .set(revision)
+          .where(and(eq(claims.id, claim.id), eq(claims.status, claim.status)))
+          .returning();
+
+        if (row && evidence) {
+          await replaceClaimEvidence(tx, claim.id, evidence);
+        }
+        return row;
+      });
+
+      // Left alone if its status changed since it was read
+      if (updated) {
+        result.updated.push(updated);
+      }
+    }
+
+    return ok(result);
+  }
+
+  /**
+   * Gets every passenger's claim on a booking as a claim pack for the
+   * lead booker. Withdrawn claims are left out, as they can't be filed.
+   *
+   * @param bookingId - The booking ID
+   * @param db - Database connection
+   * @returns Result with the claim pack (possibly without claims), or error
+   */
+  async getClaimPack(
+    bookingId: string,
+    db: Database
+  ): Promise<Result<ClaimPack, ClaimGeneratorError>> {
+    const [owner] = await db
+      .select({ booking: bookings, userEmail: users.email })
+      .from(bookings)
+      .innerJoin(users, eq(bookings.userId, users.id))
+      .where(eq(bookings.id, bookingId))
+      .limit(1);
+
+    if (!owner) {
+      return err(
+        createClaimGeneratorError(
+          ClaimGeneratorErrorCode.BOOKING_NOT_FOUND,
+          'Booking not found',
+          { bookingId }
+        )
+      );
+    }
+
+    const results = await db
+      .select({ claim: claims, passenger: bookingPassengers })
+      .from(claims)
+      .innerJoin(bookingPassengers, eq(claims.passengerId, bookingPassengers.id))
+      .where(and(eq(claims.bookingId, bookingId), ne(claims.status, 'withdrawn')))
+      .orderBy(asc(bookingPassengers.position));
+
+    const { booking, userEmail } = owner;
+    return ok(
+      buildClaimPack(
+        booking,
+        userEmail,
+        results.map(({ claim, passenger }) => ({
+          claim,
+          formData: buildClaimFormData(booking, passenger, claim, userEmail),
+          claimPortalUrl: generateClaimPortalUrl(claim.claimType),
+        }))
+      )
+    );
+  }
+
   /**
    * Retrieves a claim with its form data.
    *
@@ -142,15 +570,17 @@ export class ClaimGeneratorService {
     claimId: string,
     db: Database
   ): Promise<Result<ClaimWithFormData, ClaimGeneratorError>> {
-    // Get claim with booking
+    // Get claim with booking and passenger
     const result = await db
       .select({
         claim: claims,
         booking: bookings,
+        passenger: bookingPassengers,
         userEmail: users.email,
       })
       .from(claims)
       .innerJoin(bookings, eq(claims.bookingId, bookings.id))
+      .innerJoin(bookingPassengers, eq(claims.passengerId, bookingPassengers.id))
       .innerJoin(users, eq(bookings.userId, users.id))
       .where(eq(claims.id, claimId))
       .limit(1);
@@ -165,9 +595,9 @@ export class ClaimGeneratorService {
       );
     }
 
-    const { claim, booking, userEmail } = result[0]!;
-    const formData = buildClaimFormData(booking, claim, userEmail);
-    const claimPortalUrl = generateClaimPortalUrl();
+    const { claim, booking, passenger, userEmail } = result[0]!;
+    const formData = buildClaimFormData(booking, passenger, claim, userEmail);
+    const claimPortalUrl = generateClaimPortalUrl(claim.claimType);
 
     return ok({
       claim,
@@ -184,11 +614,13 @@ export class ClaimGeneratorService {
    *
    * @param claimId - The claim ID
    * @param db - Database connection
+   * @param change - Who submitted it, for the status history (default: the account holder)
    * @returns Result with updated claim, or error
    */
   async markAsSubmitted(
     claimId: string,
-    db: Database
+    db: Database,
+    change: ClaimStatusChange = {}
   ): Promise<Result<Claim, ClaimGeneratorError>> {
     // Get current claim
     const existingResult = await db
@@ -212,37 +644,26 @@ export class ClaimGeneratorService {
     }
 
     const { claim: existingClaim, booking } = existingResult[0]!;
-
-    // Validate status transition
-    if (existingClaim.status !== 'eligible' && existingClaim.status !== 'pending') {
-      return err(
-        createClaimGeneratorError(
-          ClaimGeneratorErrorCode.INVALID_STATUS_TRANSITION,
-          `Cannot mark claim as submitted from status: ${existingClaim.status}`,
-          { currentStatus: existingClaim.status }
-        )
-      );
-    }
-
     const submittedAt = new Date();
 
-    // Update claim status
-    const [updatedClaim] = await db
-      .update(claims)
-      .set({
-        status: 'submitted',
-        submittedAt,
-      })
-      .where(eq(claims.id, claimId))
-      .returning();
-
-    if (!updatedClaim) {
-      return err(
-        createClaimGeneratorError(
-          ClaimGeneratorErrorCode.DATABASE_ERROR,
-          'Failed to update claim status'
-        )
-      );
+    const updated = await this.transitionClaim(
+      existingClaim,
+      [
+        {
+          status: 'submitted',
+          change: {
+            actor: 'user',
+            actorUserId: booking.userId,
+            note: 'Submitted on the Eurostar portal',
+            ...change,
+          },
+          values: { submittedAt },
+        },
+      ],
+      db
+    );
+    if (updated.isErr()) {
+      return err(updated.error);
     }
 
     // Emit status changed event
@@ -261,7 +682,7 @@ export class ClaimGeneratorService {
       submittedAt,
     });
 
-    return ok(updatedClaim);
+    return ok(updated.value);
   }
 
   /**
@@ -293,9 +714,11 @@ export class ClaimGeneratorService {
       .select({
         claim: claims,
         booking: bookings,
+        passenger: bookingPassengers,
       })
       .from(claims)
       .innerJoin(bookings, eq(claims.bookingId, bookings.id))
+      .innerJoin(bookingPassengers, eq(claims.passengerId, bookingPassengers.id))
       .where(eq(bookings.userId, userId))
       .orderBy(desc(claims.createdAt))
       .$dynamic();
@@ -318,15 +741,44 @@ export class ClaimGeneratorService {
     const results = await query;
 
     // Build form data for each claim
-    return results.map(({ claim, booking }) => ({
+    return results.map(({ claim, booking, passenger }) => ({
       claim,
-      formData: buildClaimFormData(booking, claim, user.email),
-      claimPortalUrl: generateClaimPortalUrl(),
+      formData: buildClaimFormData(booking, passenger, claim, user.email),
+      claimPortalUrl: generateClaimPortalUrl(claim.claimType),
     }));
   }
 
   /**
-   * Gets a claim by booking ID.
+   * Summarises a user's claims with totals in one currency.
+   *
+   * Claims in another currency are converted at the exchange rate for their
+   * journey date.
+   *
+   * @param userId - The user ID
+   * @param db - Database connection
+   * @param currency - Currency to report totals in (default: EUR)
+   * @returns Claim counts and compensation totals
+   */
+  async getUserClaimsSummary(
+    userId: string,
+    db: Database,
+    currency: Currency = 'EUR'
+  ): Promise<UserClaimsSummary> {
+    const results = await db
+      .select({
+        claim: claims,
+        journeyDate: bookings.journeyDate,
+      })
+      .from(claims)
+      .innerJoin(bookings, eq(claims.bookingId, bookings.id))
+      .where(eq(bookings.userId, userId));
+
+    return summarizeClaims(results, currency, this.exchangeRates);
+  }
+
+  /**
+   * Gets the lead booker's claim by booking ID.
+   * Use getClaimPack for every passenger's claim.
    *
    * @param bookingId - The booking ID
    * @param db - Database connection
@@ -340,12 +792,15 @@ export class ClaimGeneratorService {
       .select({
         claim: claims,
         booking: bookings,
+        passenger: bookingPassengers,
         userEmail: users.email,
       })
       .from(claims)
       .innerJoin(bookings, eq(claims.bookingId, bookings.id))
+      .innerJoin(bookingPassengers, eq(claims.passengerId, bookingPassengers.id))
       .innerJoin(users, eq(bookings.userId, users.id))
       .where(eq(claims.bookingId, bookingId))
+      .orderBy(asc(bookingPassengers.position))
       .limit(1);
 
     if (result.length === 0) {
@@ -358,9 +813,9 @@ export class ClaimGeneratorService {
       );
     }
 
-    const { claim, booking, userEmail } = result[0]!;
-    const formData = buildClaimFormData(booking, claim, userEmail);
-    const claimPortalUrl = generateClaimPortalUrl();
+    const { claim, booking, passenger, userEmail } = result[0]!;
+    const formData = buildClaimFormData(booking, passenger, claim, userEmail);
+    const claimPortalUrl = generateClaimPortalUrl(claim.claimType);
 
     return ok({
       claim,
@@ -375,12 +830,14 @@ export class ClaimGeneratorService {
    * @param claimId - The claim ID
    * @param newStatus - The new status
    * @param db - Database connection
+   * @param change - Who changed it and why, for the status history (default: system)
    * @returns Result with updated claim, or error
    */
   async updateStatus(
     claimId: string,
     newStatus: 'approved' | 'rejected' | 'expired',
-    db: Database
+    db: Database,
+    change: ClaimStatusChange = {}
   ): Promise<Result<Claim, ClaimGeneratorError>> {
     // Get current claim
     const existingResult = await db
@@ -405,30 +862,579 @@ export class ClaimGeneratorService {
 
     const { claim: existingClaim, booking } = existingResult[0]!;
 
-    // Update claim status
-    const [updatedClaim] = await db
-      .update(claims)
-      .set({ status: newStatus })
+    const updated = await this.transitionClaim(existingClaim, [{ status: newStatus, change }], db);
+    if (updated.isErr()) {
+      return err(updated.error);
+    }
+
+    // Emit status changed event
+    this.events.emitStatusChanged({
+      claimId,
+      previousStatus: existingClaim.status,
+      newStatus,
+      userId: booking.userId,
+    });
+
+    return ok(updated.value);
+  }
+
+  /**
+   * Records Eurostar's decision on a submitted claim: the amount and payout
+   * type of an approval, or the reason for a rejection.
+   *
+   * @param claimId - The claim ID
+   * @param outcome - Eurostar's decision
+   * @param db - Database connection
+   * @param change - Who recorded it, for the status history (default: system)
+   * @returns Result with updated claim, or error
+   */
+  async recordOutcome(
+    claimId: string,
+    outcome: ClaimOutcome,
+    db: Database,
+    change: ClaimStatusChange = {}
+  ): Promise<Result<Claim, ClaimGeneratorError>> {
+    const approved = outcome.decision === 'approved';
+    if (approved && (outcome.receivedAmount === undefined || !outcome.payoutType)) {
+      return err(
+        createClaimGeneratorError(
+          ClaimGeneratorErrorCode.MISSING_DATA,
+          'An approval needs the amount received and whether it was cash or a voucher',
+          { claimId, field: outcome.receivedAmount === undefined ? 'receivedAmount' : 'payoutType' }
+        )
+      );
+    }
+
+    const existingResult = await db
+      .select({
+        claim: claims,
+        booking: bookings,
+      })
+      .from(claims)
+      .innerJoin(bookings, eq(claims.bookingId, bookings.id))
       .where(eq(claims.id, claimId))
-      .returning();
+      .limit(1);
 
-    if (!updatedClaim) {
+    if (existingResult.length === 0) {
       return err(
         createClaimGeneratorError(
-          ClaimGeneratorErrorCode.DATABASE_ERROR,
-          'Failed to update claim status'
+          ClaimGeneratorErrorCode.CLAIM_NOT_FOUND,
+          'Claim not found',
+          { claimId }
         )
       );
     }
 
-    // Emit status changed event
+    const { claim: existingClaim, booking } = existingResult[0]!;
+
+    const updated = await this.transitionClaim(
+      existingClaim,
+      [toOutcomeStep(existingClaim, outcome, change)],
+      db
+    );
+    if (updated.isErr()) {
+      return err(updated.error);
+    }
+
     this.events.emitStatusChanged({
       claimId,
       previousStatus: existingClaim.status,
-      newStatus,
+      newStatus: outcome.decision,
       userId: booking.userId,
     });
 
+    return ok(updated.value);
+  }
+
+  /**
+   * Records or clears the case number Eurostar gave a claim. Only claims
+   * filed with Eurostar (submitted, approved or rejected) have one.
+   *
+   * @param claimId - The claim ID
+   * @param eurostarReference - The case number, or null to clear it
+   * @param db - Database connection
+   * @returns Result with updated claim, or error
+   */
+  async setEurostarReference(
+    claimId: string,
+    eurostarReference: string | null,
+    db: Database
+  ): Promise<Result<Claim, ClaimGeneratorError>> {
+    const [updated] = await db
+      .update(claims)
+      .set({ eurostarReference })
+      .where(and(eq(claims.id, claimId), inArray(claims.status, FILED_CLAIM_STATUSES)))
+      .returning();
+
+    if (updated) {
+      return ok(updated);
+    }
+
+    const [existing] = await db
+      .select({ status: claims.status })
+      .from(claims)
+      .where(eq(claims.id, claimId))
+      .limit(1);
+
+    if (!existing) {
+      return err(
+        createClaimGeneratorError(
+          ClaimGeneratorErrorCode.CLAIM_NOT_FOUND,
+          'Claim not found',
+          { claimId }
+        )
+      );
+    }
+
+    return err(
+      createClaimGeneratorError(
+        ClaimGeneratorErrorCode.INVALID_STATUS_TRANSITION,
+        `A case number can't be recorded for a claim that is ${existing.status}`,
+        { claimId, status: existing.status }
+      )
+    );
+  }
+
+  /**
+   * Imports a reply from Eurostar customer care to one of a user's claims.
+   *
+   * The reply is matched to a claim by its case number or booking
+   * reference and applied as an update by email. Replies that match no
+   * claim or several, lack the amount paid, or don't fit the claim's status
+   * are queued for the user to review instead, as are replies not known to
+   * come from Eurostar.
+   *
+   * @param userId - The user the reply was forwarded by
+   * @param reply - The parsed reply
+   * @param db - Database connection
+   * @param subject - The email's subject, shown in the review queue
+   * @param fromEurostar - Whether the reply is known to be Eurostar's (false
+   *   for a forwarded email whose sender couldn't be verified)
+   * @returns What happened to the reply
+   */
+  async importClaimReply(
+    userId: string,
+    reply: ParsedClaimReply,
+    db: Database,
+    subject: string | null = null,
+    fromEurostar = true
+  ): Promise<ClaimReplyImport> {
+    const conditions = [
+      reply.pnr ? eq(bookings.pnr, reply.pnr) : undefined,
+      reply.caseReference ? eq(claims.eurostarReference, reply.caseReference) : undefined,
+    ].filter((condition) => condition !== undefined);
+
+    const candidates =
+      conditions.length === 0
+        ? []
+        : await db
+            .select({ claim: claims, pnr: bookings.pnr })
+            .from(claims)
+            .innerJoin(bookings, eq(claims.bookingId, bookings.id))
+            .where(and(eq(bookings.userId, userId), or(...conditions)));
+
+    const match = matchClaimReply(reply, candidates);
+    if (!match.matched) {
+      return this.queueClaimReplyReview(userId, reply, db, {
+        reason: match.reason,
+        candidateClaimIds: match.candidates.map((claim) => claim.id),
+        subject,
+      });
+    }
+
+    const { claim } = match;
+    const plan = planClaimReply(claim, reply);
+    if (plan.action === 'unchanged') {
+      return { status: 'unchanged', claimId: claim.id, reviewId: null };
+    }
+    if (plan.action === 'apply' && !fromEurostar) {
+      return this.queueClaimReplyReview(userId, reply, db, {
+        reason: 'unverified_sender',
+        candidateClaimIds: [claim.id],
+        subject,
+      });
+    }
+
+    const applied = plan.action === 'apply' ? await this.applyPlannedReply(claim, reply, db) : null;
+    if (!applied || applied.isErr()) {
+      return this.queueClaimReplyReview(userId, reply, db, {
+        reason: plan.action === 'review' ? plan.reason : 'invalid_status',
+        candidateClaimIds: [claim.id],
+        subject,
+      });
+    }
+
+    return { status: 'updated', claimId: claim.id, reviewId: null };
+  }
+
+  /**
+   * Applies a Eurostar reply to a claim the user picked, such as one from
+   * the review queue with the amount filled in.
+   *
+   * @param claimId - The claim the reply is about
+   * @param reply - The reply, with any details the user added
+   * @param db - Database connection
+   * @returns Result with the updated claim (unchanged if it already
+   *   recorded the reply), or error if the reply doesn't fit the claim
+   */
+  async applyClaimReply(
+    claimId: string,
+    reply: ParsedClaimReply,
+    db: Database
+  ): Promise<Result<Claim, ClaimGeneratorError>> {
+    const [claim] = await db.select().from(claims).where(eq(claims.id, claimId)).limit(1);
+
+    if (!claim) {
+      return err(
+        createClaimGeneratorError(
+          ClaimGeneratorErrorCode.CLAIM_NOT_FOUND,
+          'Claim not found',
+          { claimId }
+        )
+      );
+    }
+
+    const plan = planClaimReply(claim, reply);
+    if (plan.action === 'unchanged') {
+      return ok(claim);
+    }
+    if (plan.action === 'review') {
+      return err(
+        plan.reason === 'incomplete'
+          ? createClaimGeneratorError(
+              ClaimGeneratorErrorCode.MISSING_DATA,
+              `An approval needs the amount received in ${claim.currency} and whether it was cash or a voucher`,
+              { claimId }
+            )
+          : createClaimGeneratorError(
+              ClaimGeneratorErrorCode.INVALID_STATUS_TRANSITION,
+              `Cannot change claim status from ${claim.status} to ${reply.kind}`,
+              { currentStatus: claim.status, requestedStatus: reply.kind }
+            )
+      );
+    }
+
+    return this.applyPlannedReply(claim, reply, db);
+  }
+
+  /**
+   * Gets a claim's status history, oldest first.
+   *
+   * @param claimId - The claim ID
+   * @param db - Database connection
+   * @returns Result with the claim's status events, or error if not found
+   */
+  async getClaimHistory(
+    claimId: string,
+    db: Database
+  ): Promise<Result<ClaimStatusEvent[], ClaimGeneratorError>> {
+    const [claim] = await db
+      .select({ id: claims.id })
+      .from(claims)
+      .where(eq(claims.id, claimId))
+      .limit(1);
+
+    if (!claim) {
+      return err(
+        createClaimGeneratorError(
+          ClaimGeneratorErrorCode.CLAIM_NOT_FOUND,
+          'Claim not found',
+          { claimId }
+        )
+      );
+    }
+
+    const events = await db
+      .select()
+      .from(claimStatusEvents)
+      .where(eq(claimStatusEvents.claimId, claimId))
+      .orderBy(asc(claimStatusEvents.createdAt));
+
+    return ok(events);
+  }
+
+  /**
+   * Applies a reply that planClaimReply accepted: a reply to a claim not
+   * marked submitted yet marks it submitted first, in the same transaction
+   * as the decision it brings.
+   */
+  private async applyPlannedReply(
+    claim: Claim,
+    reply: ParsedClaimReply,
+    db: Database
+  ): Promise<Result<Claim, ClaimGeneratorError>> {
+    const change: ClaimStatusChange = { actor: 'email', actorUserId: undefined };
+    const caseReference = reply.caseReference ?? undefined;
+    const submittedAt = new Date();
+    const steps: ClaimStatusStep[] = [];
+
+    if (claim.status === 'pending' || claim.status === 'eligible') {
+      steps.push({
+        status: 'submitted',
+        change: {
+          ...change,
+          note:
+            reply.kind === 'acknowledged'
+              ? 'Eurostar acknowledged the claim'
+              : 'Eurostar replied to the claim',
+        },
+        values: {
+          submittedAt,
+          ...(reply.kind === 'acknowledged' && caseReference && { eurostarReference: caseReference }),
+        },
+      });
+    }
+
+    if (reply.kind !== 'acknowledged') {
+      steps.push(
+        toOutcomeStep(
+          claim,
+          {
+            decision: reply.kind,
+            receivedAmount: reply.amount ?? undefined,
+            payoutType: reply.payoutType ?? undefined,
+            rejectionReason: reply.rejectionReason ?? undefined,
+            eurostarReference: caseReference,
+            voucherCode: reply.voucherCode ?? undefined,
+          },
+          change
+        )
+      );
+    } else if (steps.length === 0) {
+      return caseReference && caseReference !== claim.eurostarReference
+        ? this.setEurostarReference(claim.id, caseReference, db)
+        : ok(claim);
+    }
+
+    const [owner] = await db
+      .select({ userId: bookings.userId })
+      .from(bookings)
+      .where(eq(bookings.id, claim.bookingId))
+      .limit(1);
+
+    const updated = await this.transitionClaim(claim, steps, db);
+    if (updated.isErr()) {
+      return updated;
+    }
+
+    if (owner) {
+      let previousStatus = claim.status;
+      for (const { status } of steps) {
+        this.events.emitStatusChanged({
+          claimId: claim.id,
+          previousStatus,
+          newStatus: status,
+          userId: owner.userId,
+        });
+        if (status === 'submitted') {
+          this.events.emitClaimSubmitted({
+            claimId: claim.id,
+            userId: owner.userId,
+            bookingId: claim.bookingId,
+            submittedAt,
+          });
+        }
+        previousStatus = status;
+      }
+    }
+
+    return updated;
+  }
+
+  /**
+   * Queues a reply for the user to match to a claim or dismiss.
+   */
+  private async queueClaimReplyReview(
+    userId: string,
+    reply: ParsedClaimReply,
+    db: Database,
+    review: {
+      reason: ClaimReplyReviewReason;
+      candidateClaimIds: string[];
+      subject: string | null;
+    }
+  ): Promise<ClaimReplyImport> {
+    const [queued] = await db
+      .insert(claimReplyReviews)
+      .values({ userId, reply, ...review })
+      .returning({ id: claimReplyReviews.id });
+
+    return { status: 'needs_review', claimId: null, reviewId: queued?.id ?? null };
+  }
+
+  /**
+   * Gets the delay evidence frozen when a claim was created, or when it
+   * was last recalculated for a changed journey.
+   *
+   * @param claimId - The claim ID
+   * @param db - Database connection
+   * @returns Result with the evidence, or error if the claim or its evidence is missing
+   */
+  async getClaimEvidence(
+    claimId: string,
+    db: Database
+  ): Promise<Result<ClaimEvidence, ClaimGeneratorError>> {
+    const [row] = await db
+      .select({ id: claims.id, evidence: claimEvidence })
+      .from(claims)
+      .leftJoin(claimEvidence, eq(claimEvidence.claimId, claims.id))
+      .where(eq(claims.id, claimId))
+      .limit(1);
+
+    if (!row) {
+      return err(
+        createClaimGeneratorError(
+          ClaimGeneratorErrorCode.CLAIM_NOT_FOUND,
+          'Claim not found',
+          { claimId }
+        )
+      );
+    }
+
+    if (!row.evidence) {
+      return err(
+        createClaimGeneratorError(
+          ClaimGeneratorErrorCode.EVIDENCE_NOT_FOUND,
+          'No delay evidence was recorded for this claim',
+          { claimId }
+        )
+      );
+    }
+
+    return ok(row.evidence);
+  }
+
+  /**
+   * Gets everything printed in the claim pack PDF of each claim: its form
+   * data, compensation breakdown, deadline and delay evidence.
+   *
+   * @param claimIds - The claim IDs, in the order to print them
+   * @param db - Database connection
+   * @returns Result with the claims in the order given, or error if any is missing
+   */
+  async getPrintableClaims(
+    claimIds: string[],
+    db: Database
+  ): Promise<Result<PrintableClaim[], ClaimGeneratorError>> {
+    const rows =
+      claimIds.length === 0
+        ? []
+        : await db
+            .select({
+              claim: claims,
+              booking: bookings,
+              passenger: bookingPassengers,
+              userEmail: users.email,
+              evidence: claimEvidence,
+            })
+            .from(claims)
+            .innerJoin(bookings, eq(claims.bookingId, bookings.id))
+            .innerJoin(bookingPassengers, eq(claims.passengerId, bookingPassengers.id))
+            .innerJoin(users, eq(bookings.userId, users.id))
+            .leftJoin(claimEvidence, eq(claimEvidence.claimId, claims.id))
+            .where(inArray(claims.id, claimIds));
+
+    const byId = new Map(rows.map((row) => [row.claim.id, row]));
+    const missing = claimIds.filter((id) => !byId.has(id));
+    if (missing.length > 0) {
+      return err(
+        createClaimGeneratorError(
+          ClaimGeneratorErrorCode.CLAIM_NOT_FOUND,
+          'Claim not found',
+          { claimIds: missing }
+        )
+      );
+    }
+
+    return ok(
+      claimIds.map((id) => {
+        const { claim, booking, passenger, userEmail, evidence } = byId.get(id)!;
+        const policy = this.eligibility.getPolicyForBooking(booking);
+        return {
+          claim,
+          formData: buildClaimFormData(booking, passenger, claim, userEmail),
+          claimPortalUrl: generateClaimPortalUrl(claim.claimType),
+          breakdown: buildCompensationBreakdown(passenger, claim, policy),
+          deadline: getClaimDeadline(booking.journeyDate, policy.claimDeadlineMonths),
+          evidence,
+        };
+      })
+    );
+  }
+
+  /**
+   * Moves a claim through one or more statuses in a single transaction and
+   * records each change in its status history. Transitions the state
+   * machine doesn't allow are rejected, as are claims whose status changed
+   * since they were read (e.g. by a reply email arriving at the same time),
+   * so each change is recorded once.
+   *
+   * @param claim - The claim as it is now
+   * @param steps - The statuses to move it to, in order
+   * @param db - Database connection
+   * @param evidence - New evidence for a claim revised with the change
+   * @returns Result with updated claim, or error
+   */
+  private async transitionClaim(
+    claim: Claim,
+    steps: ClaimStatusStep[],
+    db: Database,
+    evidence?: ClaimEvidenceSnapshot
+  ): Promise<Result<Claim, ClaimGeneratorError>> {
+    let from = claim.status;
+    for (const { status } of steps) {
+      if (!canTransitionClaim(from, status)) {
+        return err(
+          createClaimGeneratorError(
+            ClaimGeneratorErrorCode.INVALID_STATUS_TRANSITION,
+            `Cannot change claim status from ${from} to ${status}`,
+            { currentStatus: from, requestedStatus: status }
+          )
+        );
+      }
+      from = status;
+    }
+
+    // Only the first update can miss: it locks the row for the rest
+    const updatedClaim = await db.transaction(async (tx) => {
+      let current: Claim = claim;
+      for (const { status, change, values } of steps) {
+        const [updated] = await tx
+          .update(claims)
+          .set({ status, ...values })
+          .where(and(eq(claims.id, claim.id), eq(claims.status, current.status)))
+          .returning();
+
+        if (!updated) {
+          return undefined;
+        }
+        await tx.insert(claimStatusEvents).values({
+          claimId: claim.id,
+          fromStatus: current.status,
+          toStatus: status,
+          actor: change.actor ?? 'system',
+          actorUserId: change.actorUserId ?? null,
+          note: change.note ?? null,
+        });
+        current = updated;
+      }
+
+      if (evidence) {
+        await replaceClaimEvidence(tx, claim.id, evidence);
+      }
+      return current;
+    });
+
+    if (!updatedClaim) {
+      return err(
+        createClaimGeneratorError(
+          ClaimGeneratorErrorCode.INVALID_STATUS_TRANSITION,
+          `Claim status changed from ${claim.status} before it could be changed to ${from}`,
+          { currentStatus: claim.status, requestedStatus: from }
+        )
+      );
+    }
+
     return ok(updatedClaim);
   }
 }
@@ -437,7 +1443,7 @@ export class ClaimGeneratorService {
  * Creates a new ClaimGeneratorService instance.
  */
 export function createClaimGeneratorService(
-  options: { events?: ClaimEventEmitter } = {}
+  options: ClaimGeneratorServiceOptions = {}
 ): ClaimGeneratorService {
   return new ClaimGeneratorService(options);
 }
@@ -0,0 +1,35 @@
+/**
+ * Claim status state machine.
+ *
+ * Every status change goes through canTransitionClaim and is recorded in
+ * the claim's status history.
+ */
+
+import type { ClaimStatus } from '@eurostar/core/db';
+
+/**
+ * The statuses a claim may move to from each status. Approved, rejected
+ * and expired claims are settled and never change again. Open claims are
+ * withdrawn when their passenger is no longer eligible after a journey
+ * change, and become eligible again if a later change makes them so.
+ */
+export const CLAIM_STATUS_TRANSITIONS: Record<ClaimStatus, readonly ClaimStatus[]> = {
+  pending: ['eligible', 'submitted', 'expired', 'withdrawn'],
+  eligible: ['submitted', 'expired', 'withdrawn'],
+  submitted: ['approved', 'rejected'],
+  approved: [],
+  rejected: [],
+  expired: [],
+  withdrawn: ['eligible'],
+};
+
+/**
+ * Checks whether a claim may move from one status to another.
+ *
+ * @param from - The claim's current status
+ * @param to - The requested status
+ * @returns True if the transition is allowed
+ */
+export function canTransitionClaim(from: ClaimStatus, to: ClaimStatus): boolean {
+  return CLAIM_STATUS_TRANSITIONS[from].includes(to);
+}
@@ -0,0 +1,122 @@
+/**
+ * Claim totals across currencies.
+ */
+
+import type { Claim, ClaimStatus, Currency } from '@eurostar/core/db';
+import type { ExchangeRateProvider } from '@eurostar/core/exchange-rates';
+import { convertEurToGbp, convertGbpToEur } from '../eligibility/calculator.js';
+import { resolveEurToGbpRate } from '../eligibility/rates.js';
+import type { UserClaimsSummary } from './types.js';
+
+/**
+ * A claim with the journey date its amounts should be converted at.
+ */
+export interface ClaimForSummary {
+  claim: Claim;
+  journeyDate: Date;
+}
+
+/** Claims that can no longer pay out */
+const CLOSED_STATUSES: ClaimStatus[] = ['rejected', 'expired', 'withdrawn'];
+
+/**
+ * Converts an amount into the reporting currency at a EUR to GBP rate.
+ */
+function toCurrency(amount: number, from: Currency, to: Currency, eurToGbp: number): number {
+  if (from === to) {
+    return amount;
+  }
+  return to === 'GBP' ? convertEurToGbp(amount, eurToGbp) : convertGbpToEur(amount, eurToGbp);
+}
+
+/**
+ * Summarises claims in a single currency.
+ *
+ * Each claim is converted at the reference rate for its journey date, so a
+ * total stays the same no matter when it is viewed. Approved claims with a
+ * recorded payout are also reconciled against what they were expected to pay.
+ *
+ * @param entries - Claims with their journey dates
+ * @param currency - Currency to report totals in
+ * @param exchangeRates - Source of historical rates (fixed fallback rate if omitted)
+ */
+export async function summarizeClaims(
+  entries: ClaimForSummary[],
+  currency: Currency,
+  exchangeRates?: ExchangeRateProvider
+): Promise<UserClaimsSummary> {
+  const summary: UserClaimsSummary = {
+    total: entries.length,
+    byStatus: {
+      pending: 0,
+      eligible: 0,
+      submitted: 0,
+      approved: 0,
+      rejected: 0,
+      expired: 0,
+      withdrawn: 0,
+    },
+    currency,
+    totalCashAmount: 0,
+    totalVoucherAmount: 0,
+    payouts: {
+      count: 0,
+      expectedAmount: 0,
+      receivedAmount: 0,
+      difference: 0,
+      underpaidCount: 0,
+    },
+  };
+
+  let cashCents = 0;
+  let voucherCents = 0;
+  let expectedCents = 0;
+  let receivedCents = 0;
+
+  for (const { claim, journeyDate } of entries) {
+    summary.byStatus[claim.status] += 1;
+    if (CLOSED_STATUSES.includes(claim.status)) {
+      continue;
+    }
+
+    const rate =
+      claim.currency === currency ? 1 : await resolveEurToGbpRate(exchangeRates, journeyDate);
+    const cash = toCurrency(
+      claim.eligibleCashAmount ? parseFloat(claim.eligibleCashAmount) : 0,
+      claim.currency,
+      currency,
+      rate
+    );
+    const voucher = toCurrency(
+      claim.eligibleVoucherAmount ? parseFloat(claim.eligibleVoucherAmount) : 0,
+      claim.currency,
+      currency,
+      rate
+    );
+
+    // Sum in cents to avoid floating point drift
+    cashCents += Math.round(cash * 100);
+    voucherCents += Math.round(voucher * 100);
+
+    if (claim.status === 'approved' && claim.receivedAmount !== null && claim.payoutType) {
+      const expected = Math.round((claim.payoutType === 'voucher' ? voucher : cash) * 100);
+      const received = Math.round(
+        toCurrency(parseFloat(claim.receivedAmount), claim.currency, currency, rate) * 100
+      );
+
+      summary.payouts.count += 1;
+      expectedCents += expected;
+      receivedCents += received;
+      if (received < expected) {
+        summary.payouts.underpaidCount += 1;
+      }
+    }
+  }
+
+  summary.totalCashAmount = cashCents / 100;
+  summary.totalVoucherAmount = voucherCents / 100;
+  summary.payouts.expectedAmount = expectedCents / 100;
+  summary.payouts.receivedAmount = receivedCents / 100;
+  summary.payouts.difference = (receivedCents - expectedCents) / 100;
+  return summary;
+}
@@ -2,12 +2,23 @@
  * Types for the claim generator service.
  */
 
-import type { Claim, ClaimStatus } from '@eurostar/core/db';
+import type {
+  Claim,
+  ClaimEvidence,
+  ClaimEventActor,
+  ClaimStatus,
+  ClaimType,
+  CompensationType,
+  Currency,
+} from '@eurostar/core/db';
+import type { AppliedPolicy, CompensationTier } from '../eligibility/types.js';
 
 /**
  * All fields needed to populate Eurostar's claim form.
  */
 export interface ClaimFormData {
+  /** Delay compensation, or refund/re-route for a cancelled journey */
+  claimType: ClaimType;
   /** Booking Reference (PNR) - 6 alphanumeric characters */
   pnr: string;
   /** Ticket Control Number - IV + 9 digits OR 15 + 9 digits */
@@ -26,12 +37,14 @@ export interface ClaimFormData {
   origin: string;
   /** Destination station name */
   destination: string;
-  /** Actual delay in minutes */
+  /** Actual delay in minutes (0 for cancellations) */
   delayMinutes: number;
   /** Cash compensation amount eligible */
   eligibleCashAmount: number;
   /** Voucher compensation amount eligible */
   eligibleVoucherAmount: number;
+  /** Currency of the compensation amounts (that of the fare paid) */
+  currency: Currency;
 }
 
 /**
@@ -66,6 +79,8 @@ export const ClaimGeneratorErrorCode = {
   INVALID_STATUS_TRANSITION: 'INVALID_STATUS_TRANSITION',
   /** Missing required data */
   MISSING_DATA: 'MISSING_DATA',
+  /** Claim has no delay evidence (created before evidence was recorded) */
+  EVIDENCE_NOT_FOUND: 'EVIDENCE_NOT_FOUND',
   /** Database operation failed */
   DATABASE_ERROR: 'DATABASE_ERROR',
 } as const;
@@ -108,6 +123,54 @@ export interface ClaimWithFormData {
   claimPortalUrl: string;
 }
 
+/**
+ * Every passenger's claim on a booking, for the lead booker to submit.
+ */
+export interface ClaimPack {
+  /** The booking ID */
+  bookingId: string;
+  /** Booking Reference (PNR) shared by all passengers */
+  pnr: string;
+  /** Lead booker's name */
+  leadPassengerName: string;
+  /** Lead booker's email address, used on every claim */
+  email: string;
+  /** One claim per passenger, in booking order */
+  claims: ClaimWithFormData[];
+  /** Currency of the totals (that of the fare paid) */
+  currency: Currency;
+  /** Total cash compensation across passengers */
+  totalCashAmount: number;
+  /** Total voucher compensation across passengers */
+  totalVoucherAmount: number;
+}
+
+/**
+ * How a claim's compensation was worked out.
+ */
+export interface CompensationBreakdown {
+  /** Policy in force on the journey date */
+  policy: AppliedPolicy;
+  /** Fare the amounts are a share of, null if the fare is unknown */
+  ticketPrice: number | null;
+  /** Tier the delay falls in, null for cancellations */
+  tier: CompensationTier | null;
+}
+
+/**
+ * Everything printed in a claim's PDF claim pack.
+ */
+export interface PrintableClaim {
+  claim: Claim;
+  formData: ClaimFormData;
+  claimPortalUrl: string;
+  breakdown: CompensationBreakdown;
+  /** Last day to submit the claim under the policy */
+  deadline: Date;
+  /** Delay evidence frozen when the claim was created, if any */
+  evidence: ClaimEvidence | null;
+}
+
 /**
  * Summary of a user's claims.
  */
@@ -116,10 +179,88 @@ export interface UserClaimsSummary {
   total: number;
   /** Claims by status */
   byStatus: Record<ClaimStatus, number>;
-  /** Total potential cash compensation */
+  /** Currency the totals are reported in */
+  currency: Currency;
+  /** Total potential cash compensation (excludes rejected, expired and withdrawn claims) */
   totalCashAmount: number;
-  /** Total potential voucher compensation */
+  /** Total potential voucher compensation (excludes rejected, expired and withdrawn claims) */
   totalVoucherAmount: number;
+  /** Expected against received compensation for approved claims */
+  payouts: PayoutReconciliation;
+}
+
+/**
+ * What approved claims were expected to pay against what Eurostar paid.
+ * Each claim is expected to pay its eligible amount for the payout type
+ * it was paid in.
+ */
+export interface PayoutReconciliation {
+  /** Approved claims with a received amount */
+  count: number;
+  /** Compensation those claims were expected to pay */
+  expectedAmount: number;
+  /** Compensation actually received */
+  receivedAmount: number;
+  /** Received minus expected; negative when Eurostar paid less */
+  difference: number;
+  /** Approved claims paid less than expected */
+  underpaidCount: number;
+}
+
+/**
+ * A booking's open claims after its journey or delay cause was changed.
+ */
+export interface ClaimReevaluationResult {
+  /** Claims recalculated for the new journey, including reopened ones */
+  updated: Claim[];
+  /** Claims withdrawn because their passenger is no longer eligible */
+  withdrawn: Claim[];
+}
+
+/**
+ * Who changed a claim's status and why, for its status history.
+ */
+export interface ClaimStatusChange {
+  /** The account holder or an automatic update (default: system) */
+  actor?: ClaimEventActor;
+  /** User who made the change, for changes by a user */
+  actorUserId?: string | undefined;
+  /** Explanation shown in the claim's timeline */
+  note?: string | undefined;
+}
+
+/**
+ * Eurostar's decision on a submitted claim.
+ */
+export interface ClaimOutcome {
+  decision: 'approved' | 'rejected';
+  /** Amount paid, in the claim currency (required when approved) */
+  receivedAmount?: number | undefined;
+  /** Whether it was paid as cash or a voucher (required when approved) */
+  payoutType?: CompensationType | undefined;
+  /** Reason Eurostar gave for rejecting the claim */
+  rejectionReason?: string | undefined;
+  /** Eurostar's case number, if not recorded yet */
+  eurostarReference?: string | undefined;
+  /** E-voucher code, when paid as a voucher */
+  voucherCode?: string | undefined;
+  /** When Eurostar decided (default: now) */
+  decidedAt?: Date | undefined;
+}
+
+/**
+ * What importing a Eurostar reply did.
+ */
+export interface ClaimReplyImport {
+  /**
+   * updated: the reply was applied to its claim; unchanged: the claim
+   * already recorded it; needs_review: it was queued for the user
+   */
+  status: 'updated' | 'unchanged' | 'needs_review';
+  /** The claim the reply was applied to, or null */
+  claimId: string | null;
+  /** The queued review, or null */
+  reviewId: string | null;
 }
 
 /**
@@ -159,3 +300,8 @@ export const STATION_NAMES: Record<string, string> = {
  * Eurostar claim portal base URL.
  */
 export const EUROSTAR_CLAIM_PORTAL_URL = 'https://www.eurostar.com/uk-en/travel-info/service-information/delay-compensation';
+
+/**
+ * Eurostar manage-booking URL, where cancelled journeys are refunded or exchanged.
+ */
+export const EUROSTAR_REFUND_PORTAL_URL = 'https://www.eurostar.com/uk-en/manage-booking';
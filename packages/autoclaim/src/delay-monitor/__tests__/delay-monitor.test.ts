@@ -1,22 +1,31 @@
-import { describe, it, expect } from 'vitest';
+import { describe, it, expect, vi } from 'vitest';
+import { ok } from '@eurostar/core/result';
 import {
   normalizeTrainNumber,
   formatDateForTripId,
   buildTripId,
   isSameDay,
+  resolveStationCode,
 } from '../matcher.js';
 import {
   checkJourneyStatus,
   calculateDelayMinutes,
+  calculateDestinationDelayMinutes,
   isEligibleForCompensation,
   isJourneyComplete,
+  isJourneyCancelled,
+  isCancellationReinstated,
   COMPENSATION_THRESHOLD_MINUTES,
 } from '../checker.js';
 import { JourneyStatus } from '../types.js';
+import { DelayMonitorService } from '../service.js';
+import { ClaimGeneratorService } from '../../claim-generator/index.js';
+import { createMockClaim, createMockDb, createMockPassenger } from '../../api/__tests__/fixtures.js';
 import {
   createMockBooking,
   createMockTrain,
   createDelayedTrain,
+  createMockStopEvent,
   FIXED_TEST_DATE,
   BEFORE_DEPARTURE_DATE,
   DURING_JOURNEY_DATE,
@@ -84,6 +93,16 @@ describe('Matcher', () => {
   });
 });
 
+describe('resolveStationCode', () => {
+  it('keeps station codes', () => {
+    expect(resolveStationCode('FRLIL')).toBe('FRLIL');
+  });
+
+  it('resolves station names to codes', () => {
+    expect(resolveStationCode('London St Pancras International')).toBe('GBSPX');
+  });
+});
+
 describe('Checker', () => {
   describe('checkJourneyStatus', () => {
     // Test 9: Journey complete status
@@ -141,6 +160,36 @@ describe('Checker', () => {
       expect(result.status).toBe(JourneyStatus.PENDING);
     });
 
+    it('uses the destination stop delay when completed', () => {
+      const booking = createMockBooking({ origin: 'GBSPX', destination: 'FRLIL' });
+      const train = createDelayedTrain(120);
+      const destinationStop = createMockStopEvent({ arrivalDelayMinutes: 45 });
+
+      const result = checkJourneyStatus(booking, train, FIXED_TEST_DATE, destinationStop);
+
+      expect(result.status).toBe(JourneyStatus.COMPLETED);
+      expect(result.delayMinutes).toBe(45);
+    });
+
+    it('returns CANCELLED for a cancelled train before departure', () => {
+      const booking = createMockBooking();
+
+      const result = checkJourneyStatus(booking, TEST_TRAINS.cancelled, BEFORE_DEPARTURE_DATE);
+
+      expect(result.status).toBe(JourneyStatus.CANCELLED);
+      expect(result.delayMinutes).toBeNull();
+    });
+
+    it('returns CANCELLED when the destination stop is skipped', () => {
+      const booking = createMockBooking({ origin: 'GBSPX', destination: 'FRLIL' });
+      const train = createMockTrain();
+      const destinationStop = createMockStopEvent({ scheduleRelationship: 'skipped' });
+
+      const result = checkJourneyStatus(booking, train, FIXED_TEST_DATE, destinationStop);
+
+      expect(result.status).toBe(JourneyStatus.CANCELLED);
+    });
+
     // Test 14: No train data unknown
     it('returns UNKNOWN when no train and journey date has passed', () => {
       const booking = createMockBooking();
@@ -152,6 +201,46 @@ describe('Checker', () => {
     });
   });
 
+  describe('isJourneyCancelled', () => {
+    it('is false for a scheduled train with served stops', () => {
+      expect(isJourneyCancelled(createMockTrain(), createMockStopEvent(), createMockStopEvent())).toBe(false);
+    });
+
+    it('is true when the origin stop is skipped', () => {
+      const originStop = createMockStopEvent({ stationCode: 'GBSPX', scheduleRelationship: 'skipped' });
+      expect(isJourneyCancelled(createMockTrain(), originStop, null)).toBe(true);
+    });
+
+    it('ignores stops without real-time data', () => {
+      const stop = createMockStopEvent({ scheduleRelationship: 'no_data' });
+      expect(isJourneyCancelled(createMockTrain(), stop, stop)).toBe(false);
+    });
+  });
+
+  describe('isCancellationReinstated', () => {
+    const cancelledBooking = createMockBooking({ cancelledAt: BEFORE_DEPARTURE_DATE });
+
+    it('is true when a cancelled trip is scheduled again before it runs', () => {
+      expect(isCancellationReinstated(cancelledBooking, createMockTrain(), BEFORE_DEPARTURE_DATE)).toBe(true);
+      expect(isCancellationReinstated(cancelledBooking, createMockTrain(), DURING_JOURNEY_DATE)).toBe(true);
+    });
+
+    it('is false while the trip is still reported cancelled', () => {
+      const train = createMockTrain({ scheduleRelationship: 'canceled' });
+      const skipped = createMockStopEvent({ scheduleRelationship: 'skipped' });
+
+      expect(isCancellationReinstated(cancelledBooking, train, BEFORE_DEPARTURE_DATE)).toBe(false);
+      expect(
+        isCancellationReinstated(cancelledBooking, createMockTrain(), BEFORE_DEPARTURE_DATE, null, skipped)
+      ).toBe(false);
+    });
+
+    it('is false once the train has run or the booking was never cancelled', () => {
+      expect(isCancellationReinstated(cancelledBooking, createMockTrain(), FIXED_TEST_DATE)).toBe(false);
+      expect(isCancellationReinstated(createMockBooking(), createMockTrain(), BEFORE_DEPARTURE_DATE)).toBe(false);
+    });
+  });
+
   describe('calculateDelayMinutes', () => {
     // Test 15: Delay from actual arrival
     it('calculates delay from actual arrival time', () => {
@@ -172,6 +261,24 @@ describe('Checker', () => {
     });
   });
 
+  describe('calculateDestinationDelayMinutes', () => {
+    it('prefers the destination stop arrival delay', () => {
+      const train = createDelayedTrain(30);
+      const stop = createMockStopEvent({ arrivalDelayMinutes: 75 });
+      expect(calculateDestinationDelayMinutes(train, stop)).toBe(75);
+    });
+
+    it('clamps early arrivals at the destination to 0', () => {
+      const stop = createMockStopEvent({ arrivalDelayMinutes: -3 });
+      expect(calculateDestinationDelayMinutes(createMockTrain(), stop)).toBe(0);
+    });
+
+    it('falls back to the train delay without a stop event', () => {
+      const train = createDelayedTrain(90);
+      expect(calculateDestinationDelayMinutes(train, null)).toBe(90);
+    });
+  });
+
   describe('isEligibleForCompensation', () => {
     // Test 18: Below threshold
     it('returns false for delays below 60 minutes', () => {
@@ -264,3 +371,56 @@ describe('Integration scenarios', () => {
     expect(tripId).toBe(TEST_TRAINS.onTime.tripId);
   });
 });
+
+describe('DelayMonitorService', () => {
+  it('withdraws the refund claim of a cancelled trip that is reinstated before it runs', async () => {
+    const booking = createMockBooking({ cancelledAt: BEFORE_DEPARTURE_DATE });
+    const claim = createMockClaim({ bookingId: booking.id, claimType: 'cancellation', status: 'eligible' });
+    // The train, no stop events, clearing the cancellation, then the open claims
+    const { db, writes } = createMockDb([
+      [createMockTrain()],
+      [],
+      [],
+      [],
+      [{ claim, passenger: createMockPassenger({ bookingId: booking.id }) }],
+      [{ ...claim, status: 'withdrawn' }],
+    ]);
+    const monitor = new DelayMonitorService({ claimService: new ClaimGeneratorService() });
+
+    const completed = await monitor.checkBooking(booking, db, BEFORE_DEPARTURE_DATE);
+
+    expect(completed).toBeNull();
+    expect(writes).toEqual([
+      { kind: 'set', value: { cancelledAt: null } },
+      { kind: 'set', value: { status: 'withdrawn' } },
+      {
+        kind: 'values',
+        value: expect.objectContaining({
+          claimId: claim.id,
+          fromStatus: 'eligible',
+          toStatus: 'withdrawn',
+          note: "Booking changed; its delay isn't known yet",
+        }),
+      },
+    ]);
+  });
+
+  it("records the delay once the trip runs and re-evaluates the booking's claims", async () => {
+    const claimService = new ClaimGeneratorService();
+    const reevaluateClaims = vi
+      .spyOn(claimService, 'reevaluateClaims')
+      .mockResolvedValue(ok({ updated: [], withdrawn: [] }));
+    const train = createDelayedTrain(90);
+    const { db, writes } = createMockDb([[train], [], [], []]);
+    const monitor = new DelayMonitorService({ claimService });
+
+    const completed = await monitor.checkBooking(createMockBooking(), db, FIXED_TEST_DATE);
+
+    expect(completed).toMatchObject({ delayMinutes: 90, cancelled: false });
+    expect(writes).toEqual([{ kind: 'set', value: { finalDelayMinutes: 90, trainId: train.id } }]);
+    expect(reevaluateClaims).toHaveBeenCalledWith(
+      expect.objectContaining({ finalDelayMinutes: 90, trainId: train.id, cancelledAt: null }),
+      expect.anything()
+    );
+  });
+});
@@ -1,4 +1,4 @@
-import type { Booking, Train, TrainType } from '@eurostar/core/db';
+import type { Booking, Train, TrainStopEvent, TrainType } from '@eurostar/core/db';
 
 /**
  * Creates a mock booking for testing.
@@ -20,6 +20,12 @@ export function createMockBooking(overrides: Partial<Booking> = {}): Booking {
     coach: '5',
     seat: '23',
     finalDelayMinutes: null,
+    cancelledAt: null,
+    delayCauseOverride: null,
+    ticketPrice: null,
+    ticketCurrency: null,
+    tripGroupId: null,
+    tripLeg: null,
     createdAt: new Date(),
     updatedAt: new Date(),
     ...overrides,
@@ -43,7 +49,9 @@ export function createMockTrain(overrides: Partial<Train> = {}): Train {
     scheduledArrival,
     actualArrival: null,
     delayMinutes: 0,
+    scheduleRelationship: 'scheduled',
     trainType: 'e320' as TrainType,
+    delayCauseOverride: null,
     createdAt: new Date(),
     updatedAt: new Date(),
     ...overrides,
@@ -65,6 +73,25 @@ export function createDelayedTrain(delayMinutes: number, overrides: Partial<Trai
   };
 }
 
+/**
+ * Creates a stop event for testing (train-001 arriving at Lille).
+ */
+export function createMockStopEvent(overrides: Partial<TrainStopEvent> = {}): TrainStopEvent {
+  return {
+    id: 'stop-event-001',
+    trainId: 'train-001',
+    stationCode: 'FRLIL',
+    stopSequence: 2,
+    scheduleRelationship: 'scheduled',
+    scheduledArrival: new Date(Date.UTC(2026, 0, 5, 9, 30)),
+    arrivalDelayMinutes: 0,
+    departureDelayMinutes: 0,
+    observedAt: new Date(Date.UTC(2026, 0, 5, 9, 45)),
+    feedTimestamp: new Date(Date.UTC(2026, 0, 5, 9, 44, 30)),
+    ...overrides,
+  };
+}
+
 /**
  * Fixed date for testing - January 5, 2026 at 14:00 UTC.
  * This is after the train arrival (11:00) + 1 hour buffer (12:00).
@@ -144,6 +171,12 @@ export const TEST_TRAINS = {
   /** Train with 2+ hour delay */
   severeDelay: createDelayedTrain(150, { id: 'train-severe' }),
 
+  /** Cancelled train */
+  cancelled: createMockTrain({
+    id: 'train-cancelled',
+    scheduleRelationship: 'canceled',
+  }),
+
   /** Yesterday's train */
   yesterday: createMockTrain({
     id: 'train-yesterday',
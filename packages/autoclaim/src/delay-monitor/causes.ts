@@ -0,0 +1,56 @@
+import { eq } from 'drizzle-orm';
+import type { Database } from '@eurostar/core/db';
+import { serviceAlerts, trainAlerts, trains, type Booking } from '@eurostar/core/db';
+import { classifyDelayCause } from '../eligibility/causes.js';
+import type { DelayCauseClassification } from '../eligibility/types.js';
+import { matchBookingToTrain } from './matcher.js';
+
+/**
+ * Loads the classified delay cause for a booking's train.
+ *
+ * Uses the cause the user set on the booking if any, then the manual
+ * override on the train, otherwise the causes of the service alerts
+ * linked to it.
+ *
+ * @param booking - The booking
+ * @param db - Database connection
+ * @returns The classification, or null if the train or its cause is unknown
+ */
+export async function findDelayCause(
+  booking: Booking,
+  db: Database
+): Promise<DelayCauseClassification | null> {
+  if (booking.delayCauseOverride) {
+    return classifyDelayCause(booking.delayCauseOverride, []);
+  }
+
+  let trainId = booking.trainId;
+  let override: string | null = null;
+
+  if (trainId) {
+    const [train] = await db
+      .select({ delayCauseOverride: trains.delayCauseOverride })
+      .from(trains)
+      .where(eq(trains.id, trainId))
+      .limit(1);
+    override = train?.delayCauseOverride ?? null;
+  } else {
+    const match = await matchBookingToTrain(booking, db);
+    if (!match.train) {
+      return null;
+    }
+    trainId = match.train.id;
+    override = match.train.delayCauseOverride;
+  }
+
+  const alerts = await db
+    .select({ cause: serviceAlerts.cause })
+    .from(trainAlerts)
+    .innerJoin(serviceAlerts, eq(trainAlerts.alertId, serviceAlerts.id))
+    .where(eq(trainAlerts.trainId, trainId));
+
+  return classifyDelayCause(
+    override,
+    alerts.map((alert) => alert.cause)
+  );
+}
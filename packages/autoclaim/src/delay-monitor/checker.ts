@@ -1,4 +1,4 @@
-import type { Booking, Train } from '@eurostar/core/db';
+import type { Booking, Train, TrainStopEvent } from '@eurostar/core/db';
 import { JourneyStatus, type DelayCheckResult } from './types.js';
 
 /**
@@ -44,6 +44,73 @@ export function calculateDelayMinutes(train: Train): number {
   return train.delayMinutes ?? 0;
 }
 
+/**
+ * Calculates the delay at the passenger's destination station.
+ * Passengers are compensated on their own arrival, not the terminus,
+ * so the destination stop event wins over the train-level delay.
+ *
+ * @param train - The train record
+ * @param destinationStop - Latest stop event at the booking's destination
+ * @returns Delay in minutes at the destination
+ */
+export function calculateDestinationDelayMinutes(
+  train: Train,
+  destinationStop: TrainStopEvent | null
+): number {
+  if (destinationStop) {
+    return Math.max(0, destinationStop.arrivalDelayMinutes);
+  }
+
+  return calculateDelayMinutes(train);
+}
+
+/**
+ * Determines if the passenger's journey was cancelled: either the whole
+ * trip was cancelled, or the train skips their origin or destination.
+ *
+ * @param train - The train record
+ * @param originStop - Latest stop event at the booking's origin, if any
+ * @param destinationStop - Latest stop event at the booking's destination, if any
+ * @returns true if the passenger cannot make the booked journey
+ */
+export function isJourneyCancelled(
+  train: Train,
+  originStop: TrainStopEvent | null = null,
+  destinationStop: TrainStopEvent | null = null
+): boolean {
+  return (
+    train.scheduleRelationship === 'canceled' ||
+    originStop?.scheduleRelationship === 'skipped' ||
+    destinationStop?.scheduleRelationship === 'skipped'
+  );
+}
+
+/**
+ * Determines if a booking marked cancelled has been reinstated: the feed no
+ * longer reports its journey cancelled and the train hasn't finished its
+ * run yet, so the cancellation wasn't final.
+ *
+ * @param booking - The booking, with cancelledAt set when it was marked cancelled
+ * @param train - The matched train record
+ * @param currentTime - Current time
+ * @param originStop - Latest stop event at the booking's origin, if any
+ * @param destinationStop - Latest stop event at the booking's destination, if any
+ * @returns true if the booking's cancellation should be cleared
+ */
+export function isCancellationReinstated(
+  booking: Booking,
+  train: Train,
+  currentTime: Date,
+  originStop: TrainStopEvent | null = null,
+  destinationStop: TrainStopEvent | null = null
+): boolean {
+  return (
+    booking.cancelledAt !== null &&
+    !isJourneyCancelled(train, originStop, destinationStop) &&
+    !isJourneyComplete(train, currentTime)
+  );
+}
+
 /**
  * Checks the journey status for a booking based on train data.
  *
@@ -51,17 +118,22 @@ export function calculateDelayMinutes(train: Train): number {
  * - PENDING: Journey date hasn't arrived yet
  * - IN_PROGRESS: Journey is happening now (between departure and arrival + buffer)
  * - COMPLETED: Journey has finished (past arrival + buffer)
+ * - CANCELLED: Train cancelled or the passenger's stop skipped (at any time)
  * - UNKNOWN: Cannot determine (usually when train data is missing)
  *
  * @param booking - The booking to check
  * @param train - The matched train record (may be null)
  * @param currentTime - Current time (defaults to now, injectable for testing)
+ * @param destinationStop - Latest stop event at the booking's destination, if any
+ * @param originStop - Latest stop event at the booking's origin, if any
  * @returns DelayCheckResult with status and delay info
  */
 export function checkJourneyStatus(
   booking: Booking,
   train: Train | null,
-  currentTime: Date = new Date()
+  currentTime: Date = new Date(),
+  destinationStop: TrainStopEvent | null = null,
+  originStop: TrainStopEvent | null = null
 ): DelayCheckResult {
   const result: DelayCheckResult = {
     bookingId: booking.id,
@@ -84,6 +156,12 @@ export function checkJourneyStatus(
     return result;
   }
 
+  // Cancellations are announced ahead of time, so don't wait for arrival
+  if (isJourneyCancelled(train, originStop, destinationStop)) {
+    result.status = JourneyStatus.CANCELLED;
+    return result;
+  }
+
   // We have train data - use scheduled times
   const scheduledDeparture = train.scheduledDeparture;
   const scheduledArrival = train.scheduledArrival;
@@ -100,7 +178,7 @@ export function checkJourneyStatus(
   } else {
     // After arrival + buffer - journey is complete
     result.status = JourneyStatus.COMPLETED;
-    result.delayMinutes = calculateDelayMinutes(train);
+    result.delayMinutes = calculateDestinationDelayMinutes(train, destinationStop);
   }
 
   return result;
@@ -12,17 +12,26 @@ export {
 export {
   matchBookingToTrain,
   matchBookingsToTrains,
+  findDestinationStopEvent,
+  findOriginStopEvent,
+  resolveStationCode,
   normalizeTrainNumber,
   formatDateForTripId,
   buildTripId,
   isSameDay,
 } from './matcher.js';
 
+// Delay causes
+export { findDelayCause } from './causes.js';
+
 // Checker
 export {
   checkJourneyStatus,
   isJourneyComplete,
+  isJourneyCancelled,
+  isCancellationReinstated,
   calculateDelayMinutes,
+  calculateDestinationDelayMinutes,
   isEligibleForCompensation,
   COMPENSATION_THRESHOLD_MINUTES,
   getCompletionBufferMs,
@@ -33,6 +42,7 @@ export {
   DelayMonitorService,
   createDelayMonitorService,
   type BookingCompletedHandler,
+  type DelayMonitorServiceOptions,
 } from './service.js';
 
 // Worker
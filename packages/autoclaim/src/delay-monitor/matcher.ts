@@ -1,6 +1,13 @@
-import { eq, and } from 'drizzle-orm';
+import { eq, and, desc } from 'drizzle-orm';
 import type { Database } from '@eurostar/core/db';
-import { trains, type Booking, type Train } from '@eurostar/core/db';
+import {
+  trains,
+  trainStopEvents,
+  type Booking,
+  type Train,
+  type TrainStopEvent,
+} from '@eurostar/core/db';
+import { findStation } from '@eurostar/core';
 import type { MatchResult } from './types.js';
 
 /**
@@ -103,6 +110,69 @@ export async function matchBookingToTrain(
   };
 }
 
+/**
+ * Resolves a booking's station (code or name) to its GTFS stop code.
+ */
+export function resolveStationCode(station: string): string {
+  return findStation(station)?.code ?? station.toUpperCase();
+}
+
+/**
+ * Finds the most recent stop event recorded for a train at a station.
+ */
+async function findLatestStopEvent(
+  station: string,
+  trainId: string,
+  db: Database
+): Promise<TrainStopEvent | null> {
+  const [event] = await db
+    .select()
+    .from(trainStopEvents)
+    .where(
+      and(
+        eq(trainStopEvents.trainId, trainId),
+        eq(trainStopEvents.stationCode, resolveStationCode(station))
+      )
+    )
+    .orderBy(desc(trainStopEvents.observedAt))
+    .limit(1);
+
+  return event ?? null;
+}
+
+/**
+ * Finds the most recent stop event recorded at the booking's destination.
+ *
+ * @param booking - The booking whose destination to look up
+ * @param trainId - The matched train
+ * @param db - Database connection
+ * @returns Latest stop event at the destination, or null if none was recorded
+ */
+export async function findDestinationStopEvent(
+  booking: Booking,
+  trainId: string,
+  db: Database
+): Promise<TrainStopEvent | null> {
+  return findLatestStopEvent(booking.destination, trainId, db);
+}
+
+/**
+ * Finds the most recent stop event recorded at the booking's origin.
+ * Used to detect a skipped boarding stop.
+ *
+ * @param booking - The booking whose origin to look up
+ * @param trainId - The matched train
+ * @param db - Database connection
+ * @returns Latest stop event at the origin, or null if none was recorded
+ */
+export async function findOriginStopEvent(
+  booking: Booking,
+  trainId: string,
+  db: Database
+): Promise<TrainStopEvent | null> {
+  return findLatestStopEvent(booking.origin, trainId, db);
+}
+
 /**
  * Matches multiple bookings to their trains in a single operation.
  * More efficient than calling matchBookingToTrain repeatedly.
@@ -1,9 +1,15 @@
 import { eq, and, isNull, gte, lte, sql } from 'drizzle-orm';
 import type { Database } from '@eurostar/core/db';
 import { bookings, type Booking } from '@eurostar/core/db';
-import { matchBookingToTrain } from './matcher.js';
+import type { ClaimGeneratorService } from '../claim-generator/service.js';
+import {
+  matchBookingToTrain,
+  findDestinationStopEvent,
+  findOriginStopEvent,
+} from './matcher.js';
 import {
   checkJourneyStatus,
+  isCancellationReinstated,
   isEligibleForCompensation,
 } from './checker.js';
 import {
@@ -15,6 +21,15 @@ import {
 
 export type BookingCompletedHandler = (event: BookingCompletedEvent) => void | Promise<void>;
 
+/**
+ * Delay monitor options.
+ */
+export interface DelayMonitorServiceOptions {
+  onBookingCompleted?: BookingCompletedHandler;
+  /** Re-evaluates a booking's claims once its delay is known or its cancellation is reinstated */
+  claimService?: ClaimGeneratorService | undefined;
+}
+
 /**
  * Service for monitoring booking delays and detecting completed journeys.
  *
@@ -22,14 +37,22 @@ export type BookingCompletedHandler = (event: BookingCompletedEvent) => void | P
  * 1. Queries unprocessed bookings (journey today/yesterday, no final_delay_minutes)
  * 2. Matches each booking to its train record
  * 3. Checks if the journey is complete
- * 4. Updates final_delay_minutes for completed journeys
- * 5. Emits events for bookings eligible for compensation
+ * 4. Updates final_delay_minutes for completed journeys, using the delay
+ *    recorded at the booking's destination stop
+ * 5. Marks cancelled journeys (cancelled train or skipped stop) so they are
+ *    claimed as a refund/re-route instead of a delay
+ * 6. Emits events for bookings eligible for compensation
+ *
+ * With a claim service, the booking's claims are re-evaluated whenever its
+ * delay or cancellation changes.
  */
 export class DelayMonitorService {
   private readonly onBookingCompleted: BookingCompletedHandler | null;
+  private readonly claimService: ClaimGeneratorService | null;
 
-  constructor(options: { onBookingCompleted?: BookingCompletedHandler } = {}) {
+  constructor(options: DelayMonitorServiceOptions = {}) {
     this.onBookingCompleted = options.onBookingCompleted ?? null;
+    this.claimService = options.claimService ?? null;
   }
 
   /**
@@ -93,6 +116,9 @@ export class DelayMonitorService {
    * Queries for bookings where:
    * - journey_date is within the check window (yesterday to today)
    * - final_delay_minutes is NULL
+   *
+   * Bookings already marked cancelled are included, since the trip may be
+   * reinstated before it runs.
    */
   private async getPendingBookings(
     db: Database,
@@ -123,7 +149,7 @@ export class DelayMonitorService {
   /**
    * Processes a single booking to check for completion.
    *
-   * @returns CompletedBooking if the journey completed, null otherwise
+   * @returns CompletedBooking if the journey completed or was cancelled, null otherwise
    */
   private async processBooking(
     booking: Booking,
@@ -138,39 +164,82 @@ export class DelayMonitorService {
       return null;
     }
 
+    // Delay is measured at the passenger's destination, not the terminus;
+    // the origin is checked too since a skipped boarding stop cancels the journey
+    const destinationStop = await findDestinationStopEvent(
+      booking,
+      matchResult.train.id,
+      db
+    );
+    const originStop = await findOriginStopEvent(
+      booking,
+      matchResult.train.id,
+      db
+    );
+
+    // A cancellation is already recorded: if the trip was reinstated, clear
+    // it, re-evaluate the refund claims and check the journey as usual
+    if (booking.cancelledAt) {
+      if (
+        !isCancellationReinstated(booking, matchResult.train, currentTime, originStop, destinationStop)
+      ) {
+        return null;
+      }
+
+      await db
+        .update(bookings)
+        .set({ cancelledAt: null })
+        .where(eq(bookings.id, booking.id));
+      booking = { ...booking, cancelledAt: null };
+      await this.reevaluateClaims(booking, db);
+    }
+
     // Check journey status
-    const checkResult = checkJourneyStatus(booking, matchResult.train, currentTime);
+    const checkResult = checkJourneyStatus(
+      booking,
+      matchResult.train,
+      currentTime,
+      destinationStop,
+      originStop
+    );
 
-    if (checkResult.status !== JourneyStatus.COMPLETED) {
+    const cancelled = checkResult.status === JourneyStatus.CANCELLED;
+    if (!cancelled && checkResult.status !== JourneyStatus.COMPLETED) {
       // Journey not complete yet
       return null;
     }
 
     const delayMinutes = checkResult.delayMinutes ?? 0;
 
-    // Update the booking with final delay
+    // Update the booking with final delay, or mark it cancelled
+    const values = {
+      ...(cancelled
+        ? { cancelledAt: currentTime }
+        : { finalDelayMinutes: delayMinutes }),
+      trainId: matchResult.train.id,
+    };
     await db
       .update(bookings)
-      .set({
-        finalDelayMinutes: delayMinutes,
-        trainId: matchResult.train.id,
-      })
+      .set(values)
       .where(eq(bookings.id, booking.id));
+    await this.reevaluateClaims({ ...booking, ...values }, db);
 
     const completedBooking: CompletedBooking = {
       booking,
       train: matchResult.train,
       delayMinutes,
+      cancelled,
       completedAt: currentTime,
     };
 
-    // Emit event for eligible bookings
+    // Emit event for eligible bookings (cancellations are always claimable)
     if (this.onBookingCompleted) {
       const event: BookingCompletedEvent = {
         bookingId: booking.id,
         trainId: matchResult.train.id,
         delayMinutes,
-        isEligibleForClaim: isEligibleForCompensation(delayMinutes),
+        cancelled,
+        isEligibleForClaim: cancelled || isEligibleForCompensation(delayMinutes),
         completedAt: currentTime,
       };
 
@@ -180,6 +249,38 @@ export class DelayMonitorService {
     return completedBooking;
   }
 
+  /**
+   * Re-evaluates a booking's claims for its delay or cancellation as now
+   * recorded, if the service was given a claim service.
+   */
+  private async reevaluateClaims(booking: Booking, db: Database): Promise<void> {
+    if (!this.claimService) {
+      return;
+    }
+
+    const result = await this.claimService.reevaluateClaims(booking, db);
+    if (result.isErr()) {
+      throw new Error(result.error.message);
+    }
+  }
+
+  /**
+   * Checks a single booking straight away, e.g. after its train or date was
+   * changed. Unlike processBookings it is not limited to recent journeys.
+   *
+   * @param booking - The booking, with any previous delay result cleared
+   * @param db - Database connection
+   * @param currentTime - Current time (defaults to now, injectable for testing)
+   * @returns The completed journey, or null if the train isn't known or hasn't arrived yet
+   */
+  async checkBooking(
+    booking: Booking,
+    db: Database,
+    currentTime: Date = new Date()
+  ): Promise<CompletedBooking | null> {
+    return this.processBooking(booking, db, currentTime);
+  }
+
   /**
    * Gets statistics about pending bookings.
    * Useful for monitoring and dashboards.
@@ -205,6 +306,7 @@ export class DelayMonitorService {
       .where(
         and(
           isNull(bookings.finalDelayMinutes),
+          isNull(bookings.cancelledAt),
           gte(bookings.journeyDate, yesterday),
           lte(bookings.journeyDate, today)
         )
@@ -246,7 +348,7 @@ export class DelayMonitorService {
  * Creates a new DelayMonitorService instance.
  */
 export function createDelayMonitorService(
-  options: { onBookingCompleted?: BookingCompletedHandler } = {}
+  options: DelayMonitorServiceOptions = {}
 ): DelayMonitorService {
   return new DelayMonitorService(options);
 }
@@ -10,6 +10,8 @@ export const JourneyStatus = {
   IN_PROGRESS: 'in_progress',
   /** Journey has completed (past scheduled arrival + buffer) */
   COMPLETED: 'completed',
+  /** Train cancelled, or it skips the passenger's origin or destination */
+  CANCELLED: 'cancelled',
   /** Cannot determine status (e.g., missing train data) */
   UNKNOWN: 'unknown',
 } as const;
@@ -51,6 +53,8 @@ export interface CompletedBooking {
   booking: Booking;
   train: Train;
   delayMinutes: number;
+  /** Journey was cancelled - a refund/re-route case, delay is 0 */
+  cancelled: boolean;
   completedAt: Date;
 }
 
@@ -77,6 +81,7 @@ export interface BookingCompletedEvent {
   bookingId: string;
   trainId: string;
   delayMinutes: number;
+  cancelled: boolean;
   isEligibleForClaim: boolean;
   completedAt: Date;
 }
@@ -1,6 +1,7 @@
 import { Worker, Queue, Job, type ConnectionOptions } from 'bullmq';
 import type { Redis } from 'ioredis';
 import type { Database } from '@eurostar/core/db';
+import type { ClaimGeneratorService } from '../claim-generator/service.js';
 import { createDelayMonitorService, type BookingCompletedHandler } from './service.js';
 
 export const DELAY_MONITOR_QUEUE_NAME = 'delay-monitor';
@@ -22,6 +23,7 @@ export interface DelayMonitorJobResult {
   completed: number;
   skipped: number;
   inProgress: number;
+  cancelled: number;
   eligibleForClaim: number;
   error?: string;
 }
@@ -33,6 +35,7 @@ export interface DelayMonitorMetrics {
   completed: number;
   skipped: number;
   inProgress: number;
+  cancelled: number;
   eligibleForClaim: number;
   errorMessage?: string;
 }
@@ -45,21 +48,25 @@ export interface DelayMonitorMetrics {
  * 2. Matches bookings to trains
  * 3. Updates final_delay_minutes for completed journeys
  * 4. Emits 'booking-completed' events for eligible claims
+ * 5. Re-evaluates the claims of bookings whose delay or cancellation changed
  *
  * @param connection - Redis connection
  * @param db - Database connection
  * @param onBookingCompleted - Callback when a booking journey completes
  * @param onMetrics - Callback for metrics logging
+ * @param claimService - Re-evaluates claims (claims are left alone if omitted)
  */
 export function createDelayMonitorWorker(
   connection: Redis,
   db: Database,
   onBookingCompleted?: BookingCompletedHandler,
-  onMetrics?: (metrics: DelayMonitorMetrics) => void
+  onMetrics?: (metrics: DelayMonitorMetrics) => void,
+  claimService?: ClaimGeneratorService
 ): Worker<DelayMonitorJobData, DelayMonitorJobResult> {
-  const service = onBookingCompleted
-    ? createDelayMonitorService({ onBookingCompleted })
-    : createDelayMonitorService();
+  const service = createDelayMonitorService({
+    ...(onBookingCompleted && { onBookingCompleted }),
+    claimService,
+  });
 
   const worker = new Worker<DelayMonitorJobData, DelayMonitorJobResult>(
     DELAY_MONITOR_QUEUE_NAME,
@@ -72,6 +79,7 @@ export function createDelayMonitorWorker(
         completed: 0,
         skipped: 0,
         inProgress: 0,
+        cancelled: 0,
         eligibleForClaim: 0,
       };
 
@@ -83,8 +91,9 @@ export function createDelayMonitorWorker(
         metrics.completed = result.completed.length;
         metrics.skipped = result.skipped;
         metrics.inProgress = result.inProgress;
+        metrics.cancelled = result.completed.filter((c) => c.cancelled).length;
         metrics.eligibleForClaim = result.completed.filter(
-          (c) => c.delayMinutes >= 60
+          (c) => c.cancelled || c.delayMinutes >= 60
         ).length;
         metrics.durationMs = Date.now() - startTime;
 
@@ -111,6 +120,7 @@ export function createDelayMonitorWorker(
           completed: metrics.completed,
           skipped: metrics.skipped,
           inProgress: metrics.inProgress,
+          cancelled: metrics.cancelled,
           eligibleForClaim: metrics.eligibleForClaim,
         };
       } catch (error) {
@@ -134,6 +144,7 @@ export function createDelayMonitorWorker(
           completed: metrics.completed,
           skipped: metrics.skipped,
           inProgress: metrics.inProgress,
+          cancelled: metrics.cancelled,
           eligibleForClaim: metrics.eligibleForClaim,
           error: metrics.errorMessage,
         };
@@ -309,6 +320,7 @@ function logMetrics(metrics: DelayMonitorMetrics, jobId?: string): void {
     `completed=${metrics.completed}`,
     `skipped=${metrics.skipped}`,
     `in_progress=${metrics.inProgress}`,
+    `cancelled=${metrics.cancelled}`,
     `eligible=${metrics.eligibleForClaim}`,
   ];
 
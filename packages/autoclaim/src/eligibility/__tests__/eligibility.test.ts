@@ -1,4 +1,5 @@
 import { describe, it, expect } from 'vitest';
+import { InMemoryExchangeRateProvider } from '@eurostar/core/exchange-rates';
 import {
   getTierForDelay,
   isDelayCompensable,
@@ -9,8 +10,16 @@ import {
   convertEurToGbp,
   convertGbpToEur,
   meetsMinimumPayout,
+  getMinimumPayout,
   formatCompensationAmount,
 } from '../calculator.js';
+import { resolveEurToGbpRate } from '../rates.js';
+import { classifyDelayCause, getForceMajeureReason } from '../causes.js';
+import {
+  CompensationPolicyRegistry,
+  EUROSTAR_1371_2007_POLICY,
+  EUROSTAR_2021_782_POLICY,
+} from '../policies.js';
 import {
   isClaimWindowOpen,
   hoursUntilClaimWindowOpens,
@@ -20,7 +29,7 @@ import {
   formatTimeUntilDeadline,
 } from '../deadline.js';
 import { EligibilityService, checkEligibility } from '../service.js';
-import { Currency, EligibilityReason } from '../types.js';
+import { Currency, DEFAULT_EUR_TO_GBP_RATE, EligibilityReason } from '../types.js';
 import {
   createMockBooking,
   AFTER_WINDOW_OPENS,
@@ -159,6 +168,14 @@ describe('Calculator', () => {
       const result = calculateCompensation(60, 33);
       expect(result?.cashAmount).toBe(8.25);
     });
+
+    it('uses the exchange rate for the GBP minimum payout', () => {
+      // £6 fare: £1.50 cash, £3.60 voucher; EUR 4 minimum is £3.36 at 0.84
+      expect(calculateCompensation(60, 6, Currency.GBP)).toBeNull();
+      expect(
+        calculateCompensation(60, 6, Currency.GBP, { exchangeRate: 0.84 })?.voucherAmount
+      ).toBe(3.6);
+    });
   });
 
   describe('calculateCompensationDetailed', () => {
@@ -193,6 +210,36 @@ describe('Calculator', () => {
     it('returns true for amounts at minimum', () => {
       expect(meetsMinimumPayout(4, Currency.EUR)).toBe(true);
     });
+
+    it('converts the EUR minimum for GBP when a rate is given', () => {
+      expect(getMinimumPayout(Currency.GBP, 0.84)).toBe(3.36);
+      expect(meetsMinimumPayout(3.5, Currency.GBP, 0.84)).toBe(true);
+      expect(meetsMinimumPayout(3.5, Currency.GBP)).toBe(false);
+    });
+
+    it('ignores the rate for EUR', () => {
+      expect(getMinimumPayout(Currency.EUR, 0.84)).toBe(4);
+    });
+  });
+
+  describe('resolveEurToGbpRate', () => {
+    const provider = new InMemoryExchangeRateProvider([
+      { date: new Date(Date.UTC(2026, 0, 2)), currency: 'GBP', rate: 0.8312 },
+    ]);
+
+    it('returns the reference rate for the journey date', async () => {
+      // Jan 5 is a Monday; the last published rate is Friday Jan 2
+      expect(await resolveEurToGbpRate(provider, new Date(Date.UTC(2026, 0, 5)))).toBe(0.8312);
+    });
+
+    it('falls back to the default rate', async () => {
+      expect(await resolveEurToGbpRate(provider, new Date(Date.UTC(2025, 0, 5)))).toBe(
+        DEFAULT_EUR_TO_GBP_RATE
+      );
+      expect(await resolveEurToGbpRate(undefined, new Date(Date.UTC(2026, 0, 5)))).toBe(
+        DEFAULT_EUR_TO_GBP_RATE
+      );
+    });
   });
 
   describe('formatCompensationAmount', () => {
@@ -382,6 +429,92 @@ describe('EligibilityService', () => {
     });
   });
 
+  describe('checkCancellationEligibility', () => {
+    it('offers a full refund without waiting for the claim window', () => {
+      const booking = createMockBooking();
+      const status = service.checkCancellationEligibility(
+        booking,
+        TICKET_PRICES.MEDIUM,
+        { currentTime: BEFORE_WINDOW_OPENS }
+      );
+
+      expect(status.eligible).toBe(true);
+      expect(status.reason).toBe(EligibilityReason.TRAIN_CANCELLED);
+      expect(status.claimType).toBe('cancellation');
+      expect(status.compensation?.cashAmount).toBe(TICKET_PRICES.MEDIUM);
+      expect(status.compensation?.delayMinutes).toBe(0);
+    });
+
+    it('rejects when past deadline', () => {
+      const booking = createMockBooking();
+      const status = service.checkCancellationEligibility(
+        booking,
+        TICKET_PRICES.MEDIUM,
+        { currentTime: AFTER_DEADLINE }
+      );
+
+      expect(status.eligible).toBe(false);
+      expect(status.reason).toBe(EligibilityReason.DEADLINE_EXPIRED);
+    });
+
+    it('is used for cancelled bookings by checkEligibilityFromBooking', () => {
+      const booking = createMockBooking({ cancelledAt: new Date() });
+      const status = service.checkEligibilityFromBooking(
+        booking,
+        TICKET_PRICES.MEDIUM,
+        { currentTime: AFTER_WINDOW_OPENS }
+      );
+
+      expect(status?.claimType).toBe('cancellation');
+      expect(status?.eligible).toBe(true);
+    });
+  });
+
+  describe('checkBookingEligibility', () => {
+    it('computes compensation from the stored fare and currency', () => {
+      const booking = createMockBooking({
+        finalDelayMinutes: 90,
+        ticketPrice: '180.00',
+        ticketCurrency: 'GBP',
+      });
+      const status = service.checkBookingEligibility(booking, {
+        currentTime: AFTER_WINDOW_OPENS,
+      });
+
+      expect(status?.eligible).toBe(true);
+      expect(status?.compensation?.ticketPrice).toBe(180);
+      expect(status?.compensation?.currency).toBe(Currency.GBP);
+      expect(status?.compensation?.cashAmount).toBe(45);
+    });
+
+    it('applies the exchange rate to the GBP minimum payout', () => {
+      const booking = createMockBooking({
+        finalDelayMinutes: 90,
+        ticketPrice: '6.00',
+        ticketCurrency: 'GBP',
+      });
+
+      expect(
+        service.checkBookingEligibility(booking, { currentTime: AFTER_WINDOW_OPENS })?.reason
+      ).toBe(EligibilityReason.BELOW_MINIMUM_PAYOUT);
+      expect(
+        service.checkBookingEligibility(booking, {
+          currentTime: AFTER_WINDOW_OPENS,
+          exchangeRate: 0.84,
+        })?.eligible
+      ).toBe(true);
+    });
+
+    it('returns null when the booking has no fare', () => {
+      const booking = createMockBooking({ finalDelayMinutes: 90 });
+      const status = service.checkBookingEligibility(booking, {
+        currentTime: AFTER_WINDOW_OPENS,
+      });
+
+      expect(status).toBeNull();
+    });
+  });
+
   describe('isDelayEligible', () => {
     // Test 41: Quick delay check
     it('performs quick delay eligibility check', () => {
@@ -401,6 +534,218 @@ describe('EligibilityService', () => {
   });
 });
 
+describe('Compensation policies', () => {
+  const registry = new CompensationPolicyRegistry();
+
+  it('applies 1371/2007 to journeys before 7 June 2023', () => {
+    expect(registry.getPolicy(new Date(Date.UTC(2023, 5, 6))).id).toBe('eurostar-1371-2007');
+  });
+
+  it('applies 2021/782 from 7 June 2023', () => {
+    expect(registry.getPolicy(new Date(Date.UTC(2023, 5, 7))).id).toBe('eurostar-2021-782');
+    expect(registry.getPolicy(new Date(Date.UTC(2026, 0, 5))).version).toBe(2);
+  });
+
+  it('scopes policies by operator', () => {
+    expect(registry.findPolicy(new Date(Date.UTC(2026, 0, 5)), 'thalys')).toBeNull();
+    expect(() => registry.getPolicy(new Date(Date.UTC(2026, 0, 5)), 'thalys')).toThrow(
+      /No compensation policy for thalys/
+    );
+  });
+
+  it('rejects overlapping policies for the same operator', () => {
+    expect(
+      () =>
+        new CompensationPolicyRegistry([
+          EUROSTAR_1371_2007_POLICY,
+          { ...EUROSTAR_2021_782_POLICY, effectiveFrom: new Date(Date.UTC(2023, 0, 1)) },
+        ])
+    ).toThrow(/overlap/);
+  });
+
+  it('allows the same period for different operators', () => {
+    const other = new CompensationPolicyRegistry([
+      EUROSTAR_2021_782_POLICY,
+      { ...EUROSTAR_2021_782_POLICY, id: 'other-2021-782', operator: 'other' },
+    ]);
+    expect(other.listPolicies('other')).toHaveLength(1);
+  });
+
+  describe('EligibilityService', () => {
+    const booking = createMockBooking();
+
+    it('reports the policy it applied', () => {
+      const status = new EligibilityService().checkEligibility(booking, 90, 100, {
+        currentTime: AFTER_WINDOW_OPENS,
+      });
+
+      expect(status.policy).toEqual({
+        id: 'eurostar-2021-782',
+        version: 2,
+        name: 'Eurostar Customer Charter (EU 2021/782)',
+      });
+    });
+
+    it('uses the thresholds of the policy in force', () => {
+      const service = new EligibilityService({
+        policies: new CompensationPolicyRegistry([
+          {
+            ...EUROSTAR_2021_782_POLICY,
+            id: 'test-policy',
+            version: 3,
+            minimumDelayMinutes: 30,
+            claimDeadlineMonths: 1,
+            tiers: [
+              {
+                name: 'Short',
+                minDelayMinutes: 30,
+                maxDelayMinutes: null,
+                cashPercentage: 0.1,
+                voucherPercentage: 0.2,
+              },
+            ],
+          },
+        ]),
+      });
+
+      const status = service.checkEligibility(booking, 45, 100, {
+        currentTime: AFTER_WINDOW_OPENS,
+      });
+      expect(status.eligible).toBe(true);
+      expect(status.compensation?.cashAmount).toBe(10);
+      expect(status.deadline?.toISOString()).toBe('2026-02-05T23:59:59.999Z');
+      expect(status.policy.id).toBe('test-policy');
+
+      const late = service.checkEligibility(booking, 45, 100, { currentTime: WITHIN_DEADLINE });
+      expect(late.reason).toBe(EligibilityReason.DEADLINE_EXPIRED);
+    });
+  });
+});
+
+describe('Delay causes', () => {
+  describe('classifyDelayCause', () => {
+    it('prefers a manual override', () => {
+      expect(classifyDelayCause('weather', ['technical_problem'])).toEqual({
+        causes: ['weather'],
+        source: 'manual',
+      });
+    });
+
+    it('uses known alert causes without duplicates', () => {
+      expect(
+        classifyDelayCause(null, ['weather', 'unknown_cause', 'weather', 'police_activity'])
+      ).toEqual({ causes: ['weather', 'police_activity'], source: 'alert' });
+    });
+
+    it('ignores unrecognised overrides', () => {
+      expect(classifyDelayCause('aliens', ['strike'])).toEqual({
+        causes: ['strike'],
+        source: 'alert',
+      });
+    });
+
+    it('returns null when no specific cause is known', () => {
+      expect(classifyDelayCause(null, [])).toBeNull();
+      expect(classifyDelayCause(null, ['unknown_cause', 'other_cause'])).toBeNull();
+    });
+  });
+
+  describe('getForceMajeureReason', () => {
+    it('maps excluded causes to their reason', () => {
+      expect(
+        getForceMajeureReason(EUROSTAR_2021_782_POLICY, { causes: ['weather'], source: 'alert' })
+      ).toBe(EligibilityReason.EXTRAORDINARY_CIRCUMSTANCES);
+      expect(
+        getForceMajeureReason(EUROSTAR_2021_782_POLICY, {
+          causes: ['medical_emergency'],
+          source: 'manual',
+        })
+      ).toBe(EligibilityReason.THIRD_PARTY_BEHAVIOUR);
+    });
+
+    it('does not exclude when any cause is the operator\'s responsibility', () => {
+      expect(
+        getForceMajeureReason(EUROSTAR_2021_782_POLICY, {
+          causes: ['weather', 'technical_problem'],
+          source: 'alert',
+        })
+      ).toBeNull();
+    });
+
+    it('excludes nothing under 1371/2007', () => {
+      expect(
+        getForceMajeureReason(EUROSTAR_1371_2007_POLICY, { causes: ['weather'], source: 'alert' })
+      ).toBeNull();
+    });
+  });
+
+  describe('EligibilityService', () => {
+    const service = new EligibilityService();
+    const booking = createMockBooking();
+    const weather = { causes: ['weather' as const], source: 'alert' as const };
+
+    it('excludes compensation for force majeure and suggests goodwill', () => {
+      const status = service.checkEligibility(booking, 90, 100, {
+        currentTime: AFTER_WINDOW_OPENS,
+        delayCause: weather,
+      });
+
+      expect(status.eligible).toBe(false);
+      expect(status.reason).toBe(EligibilityReason.EXTRAORDINARY_CIRCUMSTANCES);
+      expect(status.compensation).toBeNull();
+      expect(status.goodwill).toMatchObject({
+        reason: EligibilityReason.EXTRAORDINARY_CIRCUMSTANCES,
+        delayCause: weather,
+        voucherAmount: 60,
+        currency: 'EUR',
+      });
+    });
+
+    it('ignores the cause when the delay is too short', () => {
+      const status = service.checkEligibility(booking, 30, 100, {
+        currentTime: AFTER_WINDOW_OPENS,
+        delayCause: weather,
+      });
+
+      expect(status.failedChecks).toEqual([EligibilityReason.INSUFFICIENT_DELAY]);
+      expect(status.goodwill).toBeNull();
+    });
+
+    it('offers no goodwill after the deadline', () => {
+      const status = service.checkEligibility(booking, 90, 100, {
+        currentTime: AFTER_DEADLINE,
+        delayCause: weather,
+      });
+
+      expect(status.failedChecks).toEqual([
+        EligibilityReason.EXTRAORDINARY_CIRCUMSTANCES,
+        EligibilityReason.DEADLINE_EXPIRED,
+      ]);
+      expect(status.goodwill).toBeNull();
+    });
+
+    it('compensates delays with a non-excluded cause', () => {
+      const status = service.checkEligibility(booking, 90, 100, {
+        currentTime: AFTER_WINDOW_OPENS,
+        delayCause: { causes: ['strike'], source: 'manual' },
+      });
+
+      expect(status.eligible).toBe(true);
+      expect(status.goodwill).toBeNull();
+    });
+
+    it('still refunds cancellations', () => {
+      const status = service.checkCancellationEligibility(booking, 100, {
+        currentTime: AFTER_WINDOW_OPENS,
+        delayCause: weather,
+      });
+
+      expect(status.eligible).toBe(true);
+      expect(status.reason).toBe(EligibilityReason.TRAIN_CANCELLED);
+    });
+  });
+});
+
 describe('checkEligibility convenience function', () => {
   // Test 43: Works without service instance
   it('works as standalone function', () => {
@@ -20,6 +20,12 @@ export function createMockBooking(overrides: Partial<Booking> = {}): Booking {
     coach: '5',
     seat: '23',
     finalDelayMinutes: null,
+    cancelledAt: null,
+    delayCauseOverride: null,
+    ticketPrice: null,
+    ticketCurrency: null,
+    tripGroupId: null,
+    tripLeg: null,
     createdAt: new Date(),
     updatedAt: new Date(),
     ...overrides,
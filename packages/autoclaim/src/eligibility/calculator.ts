@@ -2,6 +2,7 @@ import {
   Currency,
   MINIMUM_PAYOUT,
   DEFAULT_EUR_TO_GBP_RATE,
+  type CompensationPolicy,
   type CompensationResult,
 } from './types.js';
 import { getTierForDelay } from './tiers.js';
@@ -10,8 +11,13 @@ import { getTierForDelay } from './tiers.js';
  * Options for compensation calculation.
  */
 export interface CalculateCompensationOptions {
-  /** Custom EUR to GBP exchange rate (default: 0.85) */
+  /**
+   * EUR to GBP rate on the journey date, used for the GBP minimum payout.
+   * Without it the fixed GBP minimum is used.
+   */
   exchangeRate?: number;
+  /** Policy in force on the journey date (default: current Eurostar tiers and minimums) */
+  policy?: Pick<CompensationPolicy, 'tiers' | 'minimumPayout'>;
 }
 
 /**
@@ -43,10 +49,10 @@ export function calculateCompensation(
   delayMinutes: number,
   ticketPrice: number,
   currency: Currency = Currency.EUR,
-  _options: CalculateCompensationOptions = {}
+  options: CalculateCompensationOptions = {}
 ): CompensationResult | null {
   // Get applicable tier
-  const tier = getTierForDelay(delayMinutes);
+  const tier = getTierForDelay(delayMinutes, options.policy?.tiers);
 
   // Not eligible if no tier applies (delay < 60 minutes)
   if (!tier) {
@@ -62,7 +68,11 @@ export function calculateCompensation(
   const voucherAmount = roundToTwoDecimals(rawVoucherAmount);
 
   // Check minimum payout threshold
-  const minimumPayout = MINIMUM_PAYOUT[currency];
+  const minimumPayout = getMinimumPayout(
+    currency,
+    options.exchangeRate,
+    options.policy?.minimumPayout
+  );
   if (cashAmount < minimumPayout && voucherAmount < minimumPayout) {
     // Both amounts are below minimum, not eligible
     return null;
@@ -89,14 +99,16 @@ export function calculateCompensation(
  * @param delayMinutes - The delay in minutes
  * @param ticketPrice - The ticket price
  * @param currency - The currency (default: EUR)
+ * @param options - Optional calculation options
  * @returns CompensationResult (eligible may be false)
  */
 export function calculateCompensationDetailed(
   delayMinutes: number,
   ticketPrice: number,
-  currency: Currency = Currency.EUR
+  currency: Currency = Currency.EUR,
+  options: CalculateCompensationOptions = {}
 ): CompensationResult {
-  const tier = getTierForDelay(delayMinutes);
+  const tier = getTierForDelay(delayMinutes, options.policy?.tiers);
 
   // Base result for ineligible cases
   const baseResult: CompensationResult = {
@@ -121,7 +133,11 @@ export function calculateCompensationDetailed(
   const voucherAmount = roundToTwoDecimals(rawVoucherAmount);
 
   // Check minimum payout
-  const minimumPayout = MINIMUM_PAYOUT[currency];
+  const minimumPayout = getMinimumPayout(
+    currency,
+    options.exchangeRate,
+    options.policy?.minimumPayout
+  );
   const meetsMinimum = cashAmount >= minimumPayout || voucherAmount >= minimumPayout;
 
   return {
@@ -168,20 +184,39 @@ export function convertGbpToEur(
  *
  * @param amount - The compensation amount
  * @param currency - The currency
+ * @param exchangeRate - EUR to GBP rate on the journey date (see getMinimumPayout)
+ * @param thresholds - Minimums of the policy in force (default: MINIMUM_PAYOUT)
  * @returns true if amount meets or exceeds minimum
  */
-export function meetsMinimumPayout(amount: number, currency: Currency): boolean {
-  return amount >= MINIMUM_PAYOUT[currency];
+export function meetsMinimumPayout(
+  amount: number,
+  currency: Currency,
+  exchangeRate?: number,
+  thresholds: Readonly<Record<Currency, number>> = MINIMUM_PAYOUT
+): boolean {
+  return amount >= getMinimumPayout(currency, exchangeRate, thresholds);
 }
 
 /**
  * Gets the minimum payout threshold for a currency.
  *
+ * With an exchange rate, the GBP threshold is the EUR minimum converted at
+ * that rate, so both currencies share the same threshold on any given day.
+ *
  * @param currency - The currency
+ * @param exchangeRate - EUR to GBP rate on the journey date (optional)
+ * @param thresholds - Minimums of the policy in force (default: MINIMUM_PAYOUT)
  * @returns Minimum payout amount
  */
-export function getMinimumPayout(currency: Currency): number {
-  return MINIMUM_PAYOUT[currency];
+export function getMinimumPayout(
+  currency: Currency,
+  exchangeRate?: number,
+  thresholds: Readonly<Record<Currency, number>> = MINIMUM_PAYOUT
+): number {
+  if (currency === Currency.GBP && exchangeRate !== undefined) {
+    return convertEurToGbp(thresholds.EUR, exchangeRate);
+  }
+  return thresholds[currency];
 }
 
 /**
@@ -0,0 +1,81 @@
+import { AlertCause } from '@eurostar/core/gtfs';
+import type {
+  CompensationPolicy,
+  DelayCauseClassification,
+  ForceMajeureReason,
+} from './types.js';
+
+const ALERT_CAUSES = new Set<string>(Object.values(AlertCause));
+
+/** Causes that say nothing about who is responsible */
+const UNCLASSIFIED_CAUSES = new Set<string>([
+  AlertCause.UNKNOWN_CAUSE,
+  AlertCause.OTHER_CAUSE,
+]);
+
+/**
+ * Alert causes specific enough to classify a delay, e.g. to set as the
+ * manual override on a booking.
+ */
+export const CLASSIFIED_DELAY_CAUSES: readonly AlertCause[] = Object.values(AlertCause).filter(
+  (cause) => !UNCLASSIFIED_CAUSES.has(cause)
+);
+
+/**
+ * Checks if a value is a known, specific alert cause.
+ */
+export function isClassifiedCause(value: string): value is AlertCause {
+  return ALERT_CAUSES.has(value) && !UNCLASSIFIED_CAUSES.has(value);
+}
+
+/**
+ * Classifies the cause of a train's delay.
+ *
+ * A manual override wins over alert causes. Unknown and unrecognised
+ * causes are ignored.
+ *
+ * @param override - Cause set manually on the booking or train (delayCauseOverride)
+ * @param alertCauses - Causes of the service alerts linked to the train
+ * @returns The classification, or null if no specific cause is known
+ */
+export function classifyDelayCause(
+  override: string | null,
+  alertCauses: readonly string[]
+): DelayCauseClassification | null {
+  if (override && isClassifiedCause(override)) {
+    return { causes: [override], source: 'manual' };
+  }
+
+  const causes = [...new Set(alertCauses)].filter(isClassifiedCause);
+  if (causes.length === 0) {
+    return null;
+  }
+
+  return { causes, source: 'alert' };
+}
+
+/**
+ * Gets the reason a policy excludes compensation for a delay cause.
+ *
+ * Compensation is only excluded when every known cause is excluded; if the
+ * operator was at least partly responsible, the passenger is still owed it.
+ *
+ * @param policy - The policy in force on the journey date
+ * @param delayCause - The classified delay cause
+ * @returns The exclusion reason of the first cause, or null if compensable
+ */
+export function getForceMajeureReason(
+  policy: CompensationPolicy,
+  delayCause: DelayCauseClassification | null | undefined
+): ForceMajeureReason | null {
+  if (!delayCause || delayCause.causes.length === 0) {
+    return null;
+  }
+
+  const reasons = delayCause.causes.map((cause) => policy.forceMajeure.exclusions[cause]);
+  if (reasons.some((reason) => reason === undefined)) {
+    return null;
+  }
+
+  return reasons[0] ?? null;
+}
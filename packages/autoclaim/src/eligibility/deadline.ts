@@ -18,6 +18,7 @@ const MS_PER_DAY = 24 * MS_PER_HOUR;
  *
  * @param journeyDate - The date of the journey
  * @param currentTime - Current time (defaults to now, injectable for testing)
+ * @param windowHours - Claim window of the policy in force (default: 24)
  * @returns true if 24+ hours have passed since the journey date
  *
  * @example
@@ -29,9 +30,10 @@ const MS_PER_DAY = 24 * MS_PER_HOUR;
  */
 export function isClaimWindowOpen(
   journeyDate: Date,
-  currentTime: Date = new Date()
+  currentTime: Date = new Date(),
+  windowHours: number = CLAIM_WINDOW_HOURS
 ): boolean {
-  const windowOpenTime = getClaimWindowOpenTime(journeyDate);
+  const windowOpenTime = getClaimWindowOpenTime(journeyDate, windowHours);
   return currentTime >= windowOpenTime;
 }
 
@@ -39,10 +41,14 @@ export function isClaimWindowOpen(
  * Gets the time when the claim window opens (24 hours after journey).
  *
  * @param journeyDate - The date of the journey
+ * @param windowHours - Claim window of the policy in force (default: 24)
  * @returns Date when claims can be submitted
  */
-export function getClaimWindowOpenTime(journeyDate: Date): Date {
-  return new Date(journeyDate.getTime() + CLAIM_WINDOW_HOURS * MS_PER_HOUR);
+export function getClaimWindowOpenTime(
+  journeyDate: Date,
+  windowHours: number = CLAIM_WINDOW_HOURS
+): Date {
+  return new Date(journeyDate.getTime() + windowHours * MS_PER_HOUR);
 }
 
 /**
@@ -74,6 +80,7 @@ export function hoursUntilClaimWindowOpens(
  *
  * @param journeyDate - The date of the journey
  * @param currentTime - Current time (defaults to now, injectable for testing)
+ * @param deadlineMonths - Claim deadline of the policy in force (default: 3)
  * @returns true if within the 3-month window
  *
  * @example
@@ -85,9 +92,10 @@ export function hoursUntilClaimWindowOpens(
  */
 export function isWithinClaimWindow(
   journeyDate: Date,
-  currentTime: Date = new Date()
+  currentTime: Date = new Date(),
+  deadlineMonths: number = CLAIM_DEADLINE_MONTHS
 ): boolean {
-  const deadline = getClaimDeadline(journeyDate);
+  const deadline = getClaimDeadline(journeyDate, deadlineMonths);
   return currentTime <= deadline;
 }
 
@@ -95,6 +103,7 @@ export function isWithinClaimWindow(
  * Gets the claim deadline (3 months from journey date).
  *
  * @param journeyDate - The date of the journey
+ * @param deadlineMonths - Claim deadline of the policy in force (default: 3)
  * @returns The deadline date (end of day, 3 months from journey)
  *
  * @example
@@ -102,11 +111,14 @@ export function isWithinClaimWindow(
  * getClaimDeadline(new Date('2026-01-15'))
  * // => April 15, 2026 23:59:59.999
  */
-export function getClaimDeadline(journeyDate: Date): Date {
+export function getClaimDeadline(
+  journeyDate: Date,
+  deadlineMonths: number = CLAIM_DEADLINE_MONTHS
+): Date {
   const deadline = new Date(journeyDate);
 
   // Add 3 months
-  deadline.setUTCMonth(deadline.getUTCMonth() + CLAIM_DEADLINE_MONTHS);
+  deadline.setUTCMonth(deadline.getUTCMonth() + deadlineMonths);
 
   // Set to end of day for more lenient deadline
   deadline.setUTCHours(23, 59, 59, 999);
@@ -119,6 +131,7 @@ export function getClaimDeadline(journeyDate: Date): Date {
  *
  * @param journeyDate - The date of the journey
  * @param currentTime - Current time (defaults to now)
+ * @param deadlineMonths - Claim deadline of the policy in force (default: 3)
  * @returns Days remaining (negative if past deadline)
  *
  * @example
@@ -130,9 +143,10 @@ export function getClaimDeadline(journeyDate: Date): Date {
  */
 export function daysUntilDeadline(
   journeyDate: Date,
-  currentTime: Date = new Date()
+  currentTime: Date = new Date(),
+  deadlineMonths: number = CLAIM_DEADLINE_MONTHS
 ): number {
-  const deadline = getClaimDeadline(journeyDate);
+  const deadline = getClaimDeadline(journeyDate, deadlineMonths);
   const diffMs = deadline.getTime() - currentTime.getTime();
 
   // For positive: floor (full days remaining)
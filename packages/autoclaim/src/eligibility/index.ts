@@ -9,6 +9,14 @@ export {
   MINIMUM_DELAY_MINUTES,
   type CompensationTier,
   type CompensationResult,
+  type CompensationPolicy,
+  type ForceMajeureRules,
+  type ForceMajeureReason,
+  type GoodwillRules,
+  type DelayCauseSource,
+  type DelayCauseClassification,
+  type GoodwillAssessment,
+  type AppliedPolicy,
   type EligibilityStatus,
 } from './types.js';
 
@@ -21,6 +29,25 @@ export {
   getTierBoundaries,
 } from './tiers.js';
 
+// Policies
+export {
+  DEFAULT_OPERATOR,
+  EUROSTAR_1371_2007_POLICY,
+  EUROSTAR_2021_782_POLICY,
+  COMPENSATION_POLICIES,
+  CompensationPolicyRegistry,
+  defaultPolicyRegistry,
+  toAppliedPolicy,
+} from './policies.js';
+
+// Delay causes
+export {
+  CLASSIFIED_DELAY_CAUSES,
+  classifyDelayCause,
+  getForceMajeureReason,
+  isClassifiedCause,
+} from './causes.js';
+
 // Calculator
 export {
   calculateCompensation,
@@ -46,10 +73,14 @@ export {
   formatTimeUntilDeadline,
 } from './deadline.js';
 
+// Exchange rates
+export { resolveEurToGbpRate } from './rates.js';
+
 // Service
 export {
   EligibilityService,
   createEligibilityService,
   checkEligibility,
   type CheckEligibilityOptions,
+  type EligibilityServiceOptions,
 } from './service.js';
@@ -0,0 +1,195 @@
+import { COMPENSATION_TIERS } from './tiers.js';
+import {
+  CLAIM_DEADLINE_MONTHS,
+  CLAIM_WINDOW_HOURS,
+  MINIMUM_DELAY_MINUTES,
+  MINIMUM_PAYOUT,
+  EligibilityReason,
+  type AppliedPolicy,
+  type CompensationPolicy,
+} from './types.js';
+
+/**
+ * Operator used when a booking doesn't say otherwise.
+ */
+export const DEFAULT_OPERATOR = 'eurostar';
+
+/**
+ * Date EU Regulation 2021/782 replaced 1371/2007.
+ */
+const REGULATION_2021_782_IN_FORCE = new Date(Date.UTC(2023, 5, 7));
+
+/**
+ * Eurostar under EU Regulation 1371/2007.
+ *
+ * The old regulation had no force-majeure exemption for delay compensation
+ * (CJEU C-509/11, ÖBB-Personenverkehr), so every cause is compensable.
+ */
+export const EUROSTAR_1371_2007_POLICY: CompensationPolicy = {
+  id: 'eurostar-1371-2007',
+  version: 1,
+  name: 'Eurostar Customer Charter (EU 1371/2007)',
+  operator: DEFAULT_OPERATOR,
+  effectiveFrom: null,
+  effectiveTo: REGULATION_2021_782_IN_FORCE,
+  tiers: COMPENSATION_TIERS,
+  minimumDelayMinutes: MINIMUM_DELAY_MINUTES,
+  minimumPayout: MINIMUM_PAYOUT,
+  claimWindowHours: CLAIM_WINDOW_HOURS,
+  claimDeadlineMonths: CLAIM_DEADLINE_MONTHS,
+  forceMajeure: {
+    exclusions: {},
+    goodwill: null,
+  },
+};
+
+/**
+ * Eurostar under EU Regulation 2021/782.
+ *
+ * Article 19(10) excludes compensation for extraordinary circumstances
+ * (extreme weather, natural disasters, public health crises) and for
+ * third-party behaviour the operator could not avoid (persons on the
+ * track, on-board emergencies, law enforcement, sabotage). Strikes by
+ * railway staff are not excluded.
+ */
+export const EUROSTAR_2021_782_POLICY: CompensationPolicy = {
+  id: 'eurostar-2021-782',
+  version: 2,
+  name: 'Eurostar Customer Charter (EU 2021/782)',
+  operator: DEFAULT_OPERATOR,
+  effectiveFrom: REGULATION_2021_782_IN_FORCE,
+  effectiveTo: null,
+  tiers: COMPENSATION_TIERS,
+  minimumDelayMinutes: MINIMUM_DELAY_MINUTES,
+  minimumPayout: MINIMUM_PAYOUT,
+  claimWindowHours: CLAIM_WINDOW_HOURS,
+  claimDeadlineMonths: CLAIM_DEADLINE_MONTHS,
+  forceMajeure: {
+    exclusions: {
+      weather: EligibilityReason.EXTRAORDINARY_CIRCUMSTANCES,
+      police_activity: EligibilityReason.THIRD_PARTY_BEHAVIOUR,
+      medical_emergency: EligibilityReason.THIRD_PARTY_BEHAVIOUR,
+      demonstration: EligibilityReason.THIRD_PARTY_BEHAVIOUR,
+    },
+    goodwill: {
+      voucherShare: 1,
+      description:
+        'Eurostar is not obliged to compensate for this delay, but usually offers ' +
+        'the e-voucher for your delay band as a goodwill gesture if you ask. ' +
+        'Submit the claim through the Eurostar delay form as normal.',
+    },
+  },
+};
+
+/**
+ * Built-in policies, oldest first.
+ */
+export const COMPENSATION_POLICIES: readonly CompensationPolicy[] = [
+  EUROSTAR_1371_2007_POLICY,
+  EUROSTAR_2021_782_POLICY,
+];
+
+/**
+ * Checks if a policy covers a journey date.
+ */
+function isInForce(policy: CompensationPolicy, journeyDate: Date): boolean {
+  const time = journeyDate.getTime();
+  if (policy.effectiveFrom && time < policy.effectiveFrom.getTime()) {
+    return false;
+  }
+  if (policy.effectiveTo && time >= policy.effectiveTo.getTime()) {
+    return false;
+  }
+  return true;
+}
+
+/**
+ * Checks if two policies' effective periods overlap.
+ */
+function overlaps(a: CompensationPolicy, b: CompensationPolicy): boolean {
+  const aStart = a.effectiveFrom?.getTime() ?? -Infinity;
+  const aEnd = a.effectiveTo?.getTime() ?? Infinity;
+  const bStart = b.effectiveFrom?.getTime() ?? -Infinity;
+  const bEnd = b.effectiveTo?.getTime() ?? Infinity;
+  return aStart < bEnd && bStart < aEnd;
+}
+
+/**
+ * Looks up the compensation policy in force for an operator on a journey date.
+ *
+ * Policies for the same operator must not overlap, so at most one applies
+ * to any journey.
+ */
+export class CompensationPolicyRegistry {
+  private readonly policies: readonly CompensationPolicy[];
+
+  /**
+   * @param policies - Policies to register (default: built-in policies)
+   * @throws Error if two policies for the same operator overlap
+   */
+  constructor(policies: readonly CompensationPolicy[] = COMPENSATION_POLICIES) {
+    policies.forEach((policy, i) => {
+      const clash = policies
+        .slice(i + 1)
+        .find((other) => other.operator === policy.operator && overlaps(policy, other));
+      if (clash) {
+        throw new Error(
+          `Compensation policies ${policy.id} and ${clash.id} overlap for ${policy.operator}`
+        );
+      }
+    });
+    this.policies = policies;
+  }
+
+  /**
+   * Finds the policy in force on a journey date.
+   *
+   * @param journeyDate - The journey date
+   * @param operator - The operator (default: eurostar)
+   * @returns The policy, or null if none covers the date
+   */
+  findPolicy(journeyDate: Date, operator: string = DEFAULT_OPERATOR): CompensationPolicy | null {
+    return (
+      this.policies.find(
+        (policy) => policy.operator === operator && isInForce(policy, journeyDate)
+      ) ?? null
+    );
+  }
+
+  /**
+   * Gets the policy in force on a journey date.
+   *
+   * @param journeyDate - The journey date
+   * @param operator - The operator (default: eurostar)
+   * @returns The policy
+   * @throws Error if no policy covers the date
+   */
+  getPolicy(journeyDate: Date, operator: string = DEFAULT_OPERATOR): CompensationPolicy {
+    const policy = this.findPolicy(journeyDate, operator);
+    if (!policy) {
+      throw new Error(
+        `No compensation policy for ${operator} on ${journeyDate.toISOString().slice(0, 10)}`
+      );
+    }
+    return policy;
+  }
+
+  /**
+   * Lists registered policies, optionally for one operator.
+   */
+  listPolicies(operator?: string): CompensationPolicy[] {
+    return this.policies.filter((policy) => !operator || policy.operator === operator);
+  }
+}
+
+/**
+ * Gets the reference reported with an eligibility result.
+ */
+export function toAppliedPolicy(policy: CompensationPolicy): AppliedPolicy {
+  return { id: policy.id, version: policy.version, name: policy.name };
+}
+
+/**
+ * Registry of the built-in policies.
+ */
+export const defaultPolicyRegistry = new CompensationPolicyRegistry();
@@ -0,0 +1,22 @@
+import type { ExchangeRateProvider } from '@eurostar/core/exchange-rates';
+import { DEFAULT_EUR_TO_GBP_RATE } from './types.js';
+
+/**
+ * Resolves the EUR to GBP reference rate for a journey date.
+ *
+ * Falls back to DEFAULT_EUR_TO_GBP_RATE when there is no provider or no
+ * rate has been imported for that date.
+ *
+ * @param provider - Source of historical rates (optional)
+ * @param journeyDate - The journey date
+ * @returns Units of GBP per 1 EUR
+ */
+export async function resolveEurToGbpRate(
+  provider: ExchangeRateProvider | undefined,
+  journeyDate: Date
+): Promise<number> {
+  if (!provider) {
+    return DEFAULT_EUR_TO_GBP_RATE;
+  }
+  return (await provider.getRate('GBP', journeyDate)) ?? DEFAULT_EUR_TO_GBP_RATE;
+}
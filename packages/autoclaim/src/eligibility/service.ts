@@ -1,11 +1,22 @@
-import type { Booking } from '@eurostar/core/db';
+import type { Booking, BookingPassenger } from '@eurostar/core/db';
 import {
   Currency,
   EligibilityReason,
-  MINIMUM_DELAY_MINUTES,
+  type CompensationPolicy,
+  type CompensationResult,
+  type DelayCauseClassification,
   type EligibilityStatus,
+  type ForceMajeureReason,
+  type GoodwillAssessment,
 } from './types.js';
 import { calculateCompensationDetailed } from './calculator.js';
+import { getForceMajeureReason } from './causes.js';
+import {
+  CompensationPolicyRegistry,
+  DEFAULT_OPERATOR,
+  defaultPolicyRegistry,
+  toAppliedPolicy,
+} from './policies.js';
 import { isDelayCompensable } from './tiers.js';
 import {
   isClaimWindowOpen,
@@ -22,6 +33,20 @@ export interface CheckEligibilityOptions {
   currentTime?: Date;
   /** Currency for compensation calculation (defaults to EUR) */
   currency?: Currency;
+  /** EUR to GBP rate on the journey date (see resolveEurToGbpRate) */
+  exchangeRate?: number;
+  /** Operator whose policy applies (defaults to eurostar) */
+  operator?: string;
+  /** Classified cause of the delay (see classifyDelayCause) */
+  delayCause?: DelayCauseClassification | null | undefined;
+}
+
+/**
+ * Options for creating an EligibilityService.
+ */
+export interface EligibilityServiceOptions {
+  /** Compensation policies by operator and date (defaults to the built-in policies) */
+  policies?: CompensationPolicyRegistry;
 }
 
 /**
@@ -29,11 +54,34 @@ export interface CheckEligibilityOptions {
  *
  * Combines all eligibility checks:
  * - Delay threshold (>= 60 minutes)
+ * - Delay cause not excluded (force majeure under 2021/782)
  * - Claim window open (24h after journey)
  * - Within deadline (< 3 months)
  * - Above minimum payout (>= €4/£4)
+ *
+ * Thresholds come from the compensation policy in force on the journey date.
  */
 export class EligibilityService {
+  private readonly policies: CompensationPolicyRegistry;
+
+  constructor(options: EligibilityServiceOptions = {}) {
+    this.policies = options.policies ?? defaultPolicyRegistry;
+  }
+
+  /**
+   * Gets the compensation policy in force for a booking's journey date.
+   *
+   * @param booking - The booking
+   * @param operator - The operator (defaults to eurostar)
+   * @returns The policy applied to the booking
+   */
+  getPolicyForBooking(
+    booking: Booking,
+    operator: string = DEFAULT_OPERATOR
+  ): CompensationPolicy {
+    return this.policies.getPolicy(booking.journeyDate, operator);
+  }
+
   /**
    * Checks if a booking is eligible for compensation.
    *
@@ -61,22 +109,39 @@ export class EligibilityService {
   ): EligibilityStatus {
     const currentTime = options.currentTime ?? new Date();
     const currency = options.currency ?? Currency.EUR;
+    const policy = this.getPolicyForBooking(booking, options.operator);
     const failedChecks: EligibilityReason[] = [];
 
     // Check 1: Is delay sufficient? (>= 60 min)
-    const delaySufficient = isDelayCompensable(delayMinutes);
+    const delaySufficient = isDelayCompensable(delayMinutes, policy.minimumDelayMinutes);
     if (!delaySufficient) {
       failedChecks.push(EligibilityReason.INSUFFICIENT_DELAY);
     }
 
+    // Check 1b: Is the delay cause excluded by the policy?
+    const exclusion = delaySufficient
+      ? getForceMajeureReason(policy, options.delayCause)
+      : null;
+    if (exclusion) {
+      failedChecks.push(exclusion);
+    }
+
     // Check 2: Is claim window open? (24h passed)
-    const windowOpen = isClaimWindowOpen(booking.journeyDate, currentTime);
+    const windowOpen = isClaimWindowOpen(
+      booking.journeyDate,
+      currentTime,
+      policy.claimWindowHours
+    );
     if (!windowOpen) {
       failedChecks.push(EligibilityReason.CLAIM_WINDOW_NOT_OPEN);
     }
 
     // Check 3: Is within deadline? (< 3 months)
-    const withinDeadline = isWithinClaimWindow(booking.journeyDate, currentTime);
+    const withinDeadline = isWithinClaimWindow(
+      booking.journeyDate,
+      currentTime,
+      policy.claimDeadlineMonths
+    );
     if (!withinDeadline) {
       failedChecks.push(EligibilityReason.DEADLINE_EXPIRED);
     }
@@ -85,11 +150,14 @@ export class EligibilityService {
     const compensation = calculateCompensationDetailed(
       delayMinutes,
       ticketPrice,
-      currency
+      currency,
+      options.exchangeRate !== undefined
+        ? { policy, exchangeRate: options.exchangeRate }
+        : { policy }
     );
 
     // Check 4: Is above minimum payout?
-    if (delaySufficient && !compensation.eligible) {
+    if (delaySufficient && !exclusion && !compensation.eligible) {
       failedChecks.push(EligibilityReason.BELOW_MINIMUM_PAYOUT);
     }
 
@@ -102,20 +170,116 @@ export class EligibilityService {
     return {
       eligible,
       reason,
+      claimType: 'delay',
       failedChecks,
       compensation: eligible ? compensation : null,
-      deadline: getClaimDeadline(booking.journeyDate),
-      daysUntilDeadline: daysUntilDeadline(booking.journeyDate, currentTime),
+      deadline: getClaimDeadline(booking.journeyDate, policy.claimDeadlineMonths),
+      daysUntilDeadline: daysUntilDeadline(
+        booking.journeyDate,
+        currentTime,
+        policy.claimDeadlineMonths
+      ),
       claimWindowOpen: windowOpen,
+      policy: toAppliedPolicy(policy),
+      goodwill:
+        exclusion && options.delayCause && withinDeadline
+          ? this.assessGoodwill(policy, exclusion, options.delayCause, compensation)
+          : null,
+    };
+  }
+
+  /**
+   * Works out the goodwill request to file when compensation is excluded.
+   *
+   * @returns The assessment, or null if the operator offers no goodwill
+   */
+  private assessGoodwill(
+    policy: CompensationPolicy,
+    reason: ForceMajeureReason,
+    delayCause: DelayCauseClassification,
+    compensation: CompensationResult
+  ): GoodwillAssessment | null {
+    const goodwill = policy.forceMajeure.goodwill;
+    if (!goodwill || !compensation.tier) {
+      return null;
+    }
+
+    return {
+      reason,
+      delayCause,
+      voucherAmount: Math.round(compensation.voucherAmount * goodwill.voucherShare * 100) / 100,
+      currency: compensation.currency,
+      description: goodwill.description,
+    };
+  }
+
+  /**
+   * Checks refund/re-route eligibility for a cancelled journey.
+   *
+   * A cancelled train (or a skipped origin/destination stop) entitles the
+   * passenger to a full refund or re-routing, so the delay threshold,
+   * delay cause, 24h window and minimum payout don't apply. Only the
+   * deadline does.
+   *
+   * @param booking - The cancelled booking
+   * @param ticketPrice - The ticket price (refunded in full)
+   * @param options - Optional configuration
+   * @returns Full eligibility status
+   */
+  checkCancellationEligibility(
+    booking: Booking,
+    ticketPrice: number,
+    options: CheckEligibilityOptions = {}
+  ): EligibilityStatus {
+    const currentTime = options.currentTime ?? new Date();
+    const currency = options.currency ?? Currency.EUR;
+    const policy = this.getPolicyForBooking(booking, options.operator);
+    const withinDeadline = isWithinClaimWindow(
+      booking.journeyDate,
+      currentTime,
+      policy.claimDeadlineMonths
+    );
+    const failedChecks: EligibilityReason[] = withinDeadline
+      ? []
+      : [EligibilityReason.DEADLINE_EXPIRED];
+
+    return {
+      eligible: withinDeadline,
+      reason: withinDeadline
+        ? EligibilityReason.TRAIN_CANCELLED
+        : EligibilityReason.DEADLINE_EXPIRED,
+      claimType: 'cancellation',
+      failedChecks,
+      compensation: withinDeadline
+        ? {
+            eligible: true,
+            cashAmount: ticketPrice,
+            voucherAmount: 0,
+            tier: null,
+            currency,
+            ticketPrice,
+            delayMinutes: 0,
+          }
+        : null,
+      deadline: getClaimDeadline(booking.journeyDate, policy.claimDeadlineMonths),
+      daysUntilDeadline: daysUntilDeadline(
+        booking.journeyDate,
+        currentTime,
+        policy.claimDeadlineMonths
+      ),
+      claimWindowOpen: true,
+      policy: toAppliedPolicy(policy),
+      goodwill: null,
     };
   }
 
   /**
    * Checks eligibility using booking data only (when delay is already known).
    *
-   * Uses booking.finalDelayMinutes if available.
+   * Uses booking.finalDelayMinutes if available. Cancelled bookings are
+   * checked for refund/re-route instead.
    *
-   * @param booking - The booking with finalDelayMinutes set
+   * @param booking - The booking with finalDelayMinutes or cancelledAt set
    * @param ticketPrice - The ticket price
    * @param options - Optional configuration
    * @returns Full eligibility status or null if no delay data
@@ -125,6 +289,10 @@ export class EligibilityService {
     ticketPrice: number,
     options: CheckEligibilityOptions = {}
   ): EligibilityStatus | null {
+    if (booking.cancelledAt) {
+      return this.checkCancellationEligibility(booking, ticketPrice, options);
+    }
+
     if (booking.finalDelayMinutes === null) {
       return null;
     }
@@ -137,15 +305,65 @@ export class EligibilityService {
     );
   }
 
+  /**
+   * Checks eligibility using the fare stored on the booking.
+   *
+   * Compensation is computed from booking.ticketPrice in booking.ticketCurrency.
+   *
+   * @param booking - The booking with ticketPrice and ticketCurrency set
+   * @param options - Optional configuration (currency comes from the booking)
+   * @returns Full eligibility status, or null if the fare or delay is unknown
+   */
+  checkBookingEligibility(
+    booking: Booking,
+    options: Omit<CheckEligibilityOptions, 'currency'> = {}
+  ): EligibilityStatus | null {
+    if (booking.ticketPrice === null || booking.ticketCurrency === null) {
+      return null;
+    }
+
+    return this.checkEligibilityFromBooking(
+      booking,
+      parseFloat(booking.ticketPrice),
+      { ...options, currency: booking.ticketCurrency }
+    );
+  }
+
+  /**
+   * Checks eligibility for one traveller on a booking, using their own fare.
+   *
+   * @param booking - The booking with finalDelayMinutes or cancelledAt set
+   * @param passenger - The passenger with ticketPrice and ticketCurrency set
+   * @param options - Optional configuration (currency comes from the passenger)
+   * @returns Full eligibility status, or null if the fare or delay is unknown
+   */
+  checkPassengerEligibility(
+    booking: Booking,
+    passenger: BookingPassenger,
+    options: Omit<CheckEligibilityOptions, 'currency'> = {}
+  ): EligibilityStatus | null {
+    if (passenger.ticketPrice === null || passenger.ticketCurrency === null) {
+      return null;
+    }
+
+    return this.checkEligibilityFromBooking(
+      booking,
+      parseFloat(passenger.ticketPrice),
+      { ...options, currency: passenger.ticketCurrency }
+    );
+  }
+
   /**
    * Quick check if a delay qualifies for compensation.
    * Does not check timing or minimum payout.
    *
    * @param delayMinutes - The delay in minutes
-   * @returns true if delay >= 60 minutes
+   * @param journeyDate - Journey date whose policy applies (defaults to today)
+   * @returns true if delay meets the policy threshold (60 minutes)
    */
-  isDelayEligible(delayMinutes: number): boolean {
-    return delayMinutes >= MINIMUM_DELAY_MINUTES;
+  isDelayEligible(delayMinutes: number, journeyDate: Date = new Date()): boolean {
+    const policy = this.policies.getPolicy(journeyDate);
+    return isDelayCompensable(delayMinutes, policy.minimumDelayMinutes);
   }
 
   /**
@@ -157,8 +375,17 @@ export class EligibilityService {
    * @returns true if within claim window and before deadline
    */
   canClaimNow(booking: Booking, currentTime: Date = new Date()): boolean {
-    const windowOpen = isClaimWindowOpen(booking.journeyDate, currentTime);
-    const withinDeadline = isWithinClaimWindow(booking.journeyDate, currentTime);
+    const policy = this.getPolicyForBooking(booking);
+    const windowOpen = isClaimWindowOpen(
+      booking.journeyDate,
+      currentTime,
+      policy.claimWindowHours
+    );
+    const withinDeadline = isWithinClaimWindow(
+      booking.journeyDate,
+      currentTime,
+      policy.claimDeadlineMonths
+    );
     return windowOpen && withinDeadline;
   }
 }
@@ -166,8 +393,10 @@ export class EligibilityService {
 /**
  * Creates a new EligibilityService instance.
  */
-export function createEligibilityService(): EligibilityService {
-  return new EligibilityService();
+export function createEligibilityService(
+  options: EligibilityServiceOptions = {}
+): EligibilityService {
+  return new EligibilityService(options);
 }
 
 /**
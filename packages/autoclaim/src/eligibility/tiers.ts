@@ -1,4 +1,4 @@
-import type { CompensationTier } from './types.js';
+import { MINIMUM_DELAY_MINUTES, type CompensationTier } from './types.js';
 
 /**
  * Compensation tiers as defined by Eurostar's Customer Charter
@@ -10,7 +10,8 @@ import type { CompensationTier } from './types.js';
  * - Minimum payout threshold: EUR 4
  *
  * Eurostar offers enhanced voucher rates above EU minimums.
- * Tiers are ordered from lowest to highest delay.
+ * Tiers are ordered from lowest to highest delay. Policies in policies.ts
+ * reference these tiers for the journey dates they cover.
  */
 export const COMPENSATION_TIERS: readonly CompensationTier[] = [
   {
@@ -40,7 +41,8 @@ export const COMPENSATION_TIERS: readonly CompensationTier[] = [
  * Gets the applicable compensation tier for a given delay duration.
  *
  * @param delayMinutes - The delay in minutes
- * @returns The applicable tier, or null if delay is below minimum (60 minutes)
+ * @param tiers - Tiers of the policy in force (default: current Eurostar tiers)
+ * @returns The applicable tier, or null if delay is below the lowest tier
  *
  * @example
  * getTierForDelay(45)   // null (below threshold)
@@ -51,15 +53,13 @@ export const COMPENSATION_TIERS: readonly CompensationTier[] = [
  * getTierForDelay(180)  // Severe tier (50% cash, 75% voucher)
  * getTierForDelay(300)  // Severe tier
  */
-export function getTierForDelay(delayMinutes: number): CompensationTier | null {
-  // Below minimum threshold
-  if (delayMinutes < 60) {
-    return null;
-  }
-
+export function getTierForDelay(
+  delayMinutes: number,
+  tiers: readonly CompensationTier[] = COMPENSATION_TIERS
+): CompensationTier | null {
   // Find the applicable tier (iterate in reverse to find highest matching tier)
-  for (let i = COMPENSATION_TIERS.length - 1; i >= 0; i--) {
-    const tier = COMPENSATION_TIERS[i];
+  for (let i = tiers.length - 1; i >= 0; i--) {
+    const tier = tiers[i];
     if (tier && delayMinutes >= tier.minDelayMinutes) {
       return tier;
     }
@@ -83,10 +83,14 @@ export function getTierName(delayMinutes: number): string | null {
  * Checks if a delay qualifies for any compensation.
  *
  * @param delayMinutes - The delay in minutes
- * @returns true if delay is >= 60 minutes
+ * @param minimumDelayMinutes - Threshold of the policy in force (default: 60)
+ * @returns true if delay is >= the threshold
  */
-export function isDelayCompensable(delayMinutes: number): boolean {
-  return delayMinutes >= 60;
+export function isDelayCompensable(
+  delayMinutes: number,
+  minimumDelayMinutes: number = MINIMUM_DELAY_MINUTES
+): boolean {
+  return delayMinutes >= minimumDelayMinutes;
 }
 
 /**
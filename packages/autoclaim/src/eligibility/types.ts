@@ -1,3 +1,6 @@
+import type { ClaimType } from '@eurostar/core/db';
+import type { AlertCause } from '@eurostar/core/gtfs';
+
 /**
  * Supported currencies for compensation calculations.
  * EUR is the base currency; GBP requires conversion.
@@ -11,7 +14,7 @@ export type Currency = (typeof Currency)[keyof typeof Currency];
 
 /**
  * Defines a compensation tier based on delay duration.
- * Per Eurostar's compensation policy (EU Regulation 1371/2007).
+ * Per Eurostar's compensation policy (see policies.ts for the regulation in force).
  */
 export interface CompensationTier {
   /** Minimum delay in minutes (inclusive) */
@@ -46,6 +49,72 @@ export interface CompensationResult {
   delayMinutes: number;
 }
 
+/**
+ * Eligibility reasons for a delay the operator is not liable for.
+ */
+export type ForceMajeureReason =
+  | typeof EligibilityReason.EXTRAORDINARY_CIRCUMSTANCES
+  | typeof EligibilityReason.THIRD_PARTY_BEHAVIOUR;
+
+/**
+ * What an operator offers on request when compensation is excluded.
+ */
+export interface GoodwillRules {
+  /** Share of the tier's e-voucher offered (1 = full voucher) */
+  voucherShare: number;
+  /** Explanation shown to the passenger */
+  description: string;
+}
+
+/**
+ * Causes that exclude compensation under a policy.
+ */
+export interface ForceMajeureRules {
+  /** Alert causes treated as circumstances the operator could not avoid */
+  exclusions: Readonly<Partial<Record<AlertCause, ForceMajeureReason>>>;
+  /** Goodwill gesture for excluded delays, null if the operator offers none */
+  goodwill: GoodwillRules | null;
+}
+
+/**
+ * A compensation policy: the rules in force for one operator over a
+ * period of journey dates.
+ */
+export interface CompensationPolicy {
+  /** Stable identifier, e.g. "eurostar-2021-782" */
+  id: string;
+  /** Increases each time the operator's rules change */
+  version: number;
+  /** Human-readable name */
+  name: string;
+  /** Operator the policy applies to (e.g. "eurostar") */
+  operator: string;
+  /** First journey date covered (inclusive), null for no lower bound */
+  effectiveFrom: Date | null;
+  /** Journey date the policy stops applying (exclusive), null if still in force */
+  effectiveTo: Date | null;
+  /** Tiers ordered from lowest to highest delay */
+  tiers: readonly CompensationTier[];
+  /** Minimum delay in minutes to be eligible */
+  minimumDelayMinutes: number;
+  /** Minimum payout thresholds by currency */
+  minimumPayout: Readonly<Record<Currency, number>>;
+  /** Hours to wait after the journey before claiming */
+  claimWindowHours: number;
+  /** Months after the journey to submit a claim */
+  claimDeadlineMonths: number;
+  forceMajeure: ForceMajeureRules;
+}
+
+/**
+ * The policy an eligibility check was assessed under.
+ */
+export interface AppliedPolicy {
+  id: string;
+  version: number;
+  name: string;
+}
+
 /**
  * Eligibility check reasons.
  */
@@ -60,11 +129,49 @@ export const EligibilityReason = {
   BELOW_MINIMUM_PAYOUT: 'below_minimum_payout',
   /** All checks passed */
   ELIGIBLE: 'eligible',
+  /** Train cancelled or passenger's stop skipped - refund or re-route */
+  TRAIN_CANCELLED: 'train_cancelled',
+  /** Delay caused by extreme weather or a natural disaster */
+  EXTRAORDINARY_CIRCUMSTANCES: 'extraordinary_circumstances',
+  /** Delay caused by trespassers, emergencies or police on the line */
+  THIRD_PARTY_BEHAVIOUR: 'third_party_behaviour',
 } as const;
 
 export type EligibilityReason =
   (typeof EligibilityReason)[keyof typeof EligibilityReason];
 
+/**
+ * Where a delay cause classification came from.
+ * - manual: set on the train by an operator
+ * - alert: taken from GTFS-RT service alerts linked to the train
+ */
+export type DelayCauseSource = 'manual' | 'alert';
+
+/**
+ * Classified cause of a train's delay.
+ */
+export interface DelayCauseClassification {
+  /** Known causes, without unknown_cause/other_cause */
+  causes: AlertCause[];
+  source: DelayCauseSource;
+}
+
+/**
+ * Goodwill request worth filing when compensation is excluded.
+ */
+export interface GoodwillAssessment {
+  /** Why compensation is excluded */
+  reason: ForceMajeureReason;
+  /** Cause classification the exclusion is based on */
+  delayCause: DelayCauseClassification;
+  /** E-voucher the operator usually offers */
+  voucherAmount: number;
+  /** Currency of the voucher amount */
+  currency: Currency;
+  /** Explanation shown to the passenger */
+  description: string;
+}
+
 /**
  * Full eligibility status with all check results.
  */
@@ -73,6 +180,8 @@ export interface EligibilityStatus {
   eligible: boolean;
   /** Primary reason for eligibility/ineligibility */
   reason: EligibilityReason;
+  /** Delay compensation, or refund/re-route for a cancelled journey */
+  claimType: ClaimType;
   /** All failed checks */
   failedChecks: EligibilityReason[];
   /** Compensation calculation (if eligible or for reference) */
@@ -83,6 +192,10 @@ export interface EligibilityStatus {
   daysUntilDeadline: number | null;
   /** Whether claim window is open (24h passed) */
   claimWindowOpen: boolean;
+  /** Policy in force on the journey date */
+  policy: AppliedPolicy;
+  /** Goodwill request to file instead, when the delay cause excludes compensation */
+  goodwill: GoodwillAssessment | null;
 }
 
 /**
@@ -95,8 +208,8 @@ export const MINIMUM_PAYOUT: Record<Currency, number> = {
 };
 
 /**
- * Default EUR to GBP exchange rate.
- * In production, this should be fetched from an exchange rate API.
+ * Fallback EUR to GBP exchange rate.
+ * Used when no reference rate is known for the journey date.
  */
 export const DEFAULT_EUR_TO_GBP_RATE = 0.85;
 
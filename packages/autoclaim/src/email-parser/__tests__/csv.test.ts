@@ -0,0 +1,177 @@
+/**
+ * Tests for bulk booking import from spreadsheets.
+ */
+
+import { describe, it, expect } from 'vitest';
+import { parseBookingCsv, parseCsvDate, parseCsvStation } from '../csv.js';
+import { ParseErrorCode } from '../types.js';
+
+const HEADER = 'Booking Ref,Ticket Number,Train,Travel Date,Passenger,From,To,Coach,Seat,Fare,Currency';
+
+function csv(...rows: string[]): string {
+  return [HEADER, ...rows].join('\n');
+}
+
+describe('parseCsvDate', () => {
+  it('reads ISO dates and day-first dates by default', () => {
+    expect(parseCsvDate('2026-03-12')).toEqual(new Date(Date.UTC(2026, 2, 12)));
+    expect(parseCsvDate('12/03/2026 08:01')).toEqual(new Date(Date.UTC(2026, 2, 12)));
+    expect(parseCsvDate('12.03.2026')).toEqual(new Date(Date.UTC(2026, 2, 12)));
+  });
+
+  it('reads month-first dates when asked', () => {
+    expect(parseCsvDate('03/12/2026', 'MM/DD/YYYY')).toEqual(new Date(Date.UTC(2026, 2, 12)));
+    expect(parseCsvDate('2026-03-12', 'MM/DD/YYYY')).toBeNull();
+  });
+
+  it('rejects dates that do not exist', () => {
+    expect(parseCsvDate('31/02/2026')).toBeNull();
+    expect(parseCsvDate('next week')).toBeNull();
+  });
+});
+
+describe('parseCsvStation', () => {
+  it('accepts codes, names, cities and aliases', () => {
+    expect(parseCsvStation('gbspx').unwrap()).toBe('GBSPX');
+    expect(parseCsvStation('Paris Gare du Nord').unwrap()).toBe('FRPLY');
+    expect(parseCsvStation('Brussels').unwrap()).toBe('BEBMI');
+    expect(parseCsvStation('St Pancras').unwrap()).toBe('GBSPX');
+  });
+
+  it('rejects unknown stations', () => {
+    const result = parseCsvStation('Hogwarts');
+
+    expect(result.isErr()).toBe(true);
+    if (result.isErr()) {
+      expect(result.error).toBe('Unknown station "Hogwarts"');
+    }
+  });
+});
+
+describe('parseBookingCsv', () => {
+  it('groups the rows of a PNR into one booking per train', () => {
+    const result = parseBookingCsv(
+      csv(
+        'CSV123,15123456789,ES 9014,12/03/2026,MR JOHN SMITH,London,Paris,5,61,89.50,GBP',
+        'CSV123,15123456790,ES 9014,12/03/2026,MRS JANE SMITH,London,Paris,5,62,89.50,GBP',
+        'CSV123,15123456789,9047,15/03/2026,MR JOHN SMITH,Paris,London,,,€102,'
+      )
+    );
+
+    expect(result.isOk()).toBe(true);
+    if (result.isOk()) {
+      expect(result.value.errors).toEqual([]);
+      expect(result.value.bookings).toHaveLength(1);
+
+      const [booking] = result.value.bookings;
+      expect(booking!.rows).toEqual([2, 3, 4]);
+      expect(booking!.legs).toHaveLength(2);
+      expect(booking!.legs[0]).toMatchObject({
+        pnr: 'CSV123',
+        tcn: '15123456789',
+        trainNumber: '9014',
+        journeyDate: new Date(Date.UTC(2026, 2, 12)),
+        passengerName: 'Mr John Smith',
+        origin: 'GBSPX',
+        destination: 'FRPLY',
+        seat: '61',
+        ticketPrice: 89.5,
+        currency: 'GBP',
+      });
+      expect(booking!.legs[0]!.passengers.map((p) => [p.passengerName, p.seat])).toEqual([
+        ['Mr John Smith', '61'],
+        ['Mrs Jane Smith', '62'],
+      ]);
+      expect(booking!.legs[1]).toMatchObject({ trainNumber: '9047', ticketPrice: 102, currency: 'EUR' });
+    }
+  });
+
+  it('uses mapped columns, date format and delimiter', () => {
+    const text = [
+      'Dossier;Billet;Train;Jour;Voyageur;Depart;Arrivee',
+      'MAP123;15123456789;9014;03/12/2026;Anna de Vries;Amsterdam Centraal;Brussels Midi',
+    ].join('\n');
+
+    const result = parseBookingCsv(text, {
+      delimiter: ';',
+      dateFormat: 'MM/DD/YYYY',
+      columns: {
+        pnr: 'Dossier',
+        tcn: 'Billet',
+        journeyDate: 'Jour',
+        passengerName: 'Voyageur',
+        origin: 'Depart',
+        destination: 'Arrivee',
+      },
+    });
+
+    expect(result.isOk()).toBe(true);
+    if (result.isOk()) {
+      expect(result.value.bookings[0]!.legs[0]).toMatchObject({
+        journeyDate: new Date(Date.UTC(2026, 2, 12)),
+        passengerName: 'Anna de Vries',
+        origin: 'NLAMA',
+        destination: 'BEBMI',
+      });
+    }
+  });
+
+  it('reports every problem in a row and leaves its PNR out', () => {
+    const result = parseBookingCsv(
+      csv(
+        'BAD123,15123456789,9014,31/02/2026,Mr John Smith,Hogwarts,Paris,,,,',
+        'BAD123,15123456790,9014,12/03/2026,Mrs Jane Smith,London,Paris,,,,',
+        'OKA123,15123456791,9014,12/03/2026,Mr Bob Jones,London,Paris,,,50,'
+      )
+    );
+
+    expect(result.isOk()).toBe(true);
+    if (result.isOk()) {
+      expect(result.value.bookings).toEqual([]);
+      expect(result.value.errors.map((e) => [e.row, e.field, e.code])).toEqual([
+        [2, 'journeyDate', ParseErrorCode.INVALID_DATE],
+        [2, 'origin', ParseErrorCode.VALIDATION_FAILED],
+        [4, 'currency', ParseErrorCode.VALIDATION_FAILED],
+      ]);
+      expect(result.value.errors[1]).toMatchObject({ message: 'Unknown station "Hogwarts"', rawValue: 'Hogwarts' });
+    }
+  });
+
+  it('reports empty required cells', () => {
+    const result = parseBookingCsv(csv('NOT123,,9014,12/03/2026,Mr John Smith,London,Paris,,,,'));
+
+    expect(result.isOk()).toBe(true);
+    if (result.isOk()) {
+      expect(result.value.errors).toMatchObject([{ row: 2, field: 'tcn', code: ParseErrorCode.MISSING_TCN }]);
+    }
+  });
+
+  it('rejects a file without a required column', () => {
+    const result = parseBookingCsv('PNR,Train\nABC123,9014');
+
+    expect(result.isErr()).toBe(true);
+    if (result.isErr()) {
+      expect(result.error).toMatchObject({ code: ParseErrorCode.INVALID_CSV_FILE, field: 'tcn' });
+    }
+  });
+
+  it('rejects a mapped column that is not in the file', () => {
+    const result = parseBookingCsv(csv('CSV123,15123456789,9014,12/03/2026,Mr John Smith,London,Paris,,,,'), {
+      columns: { pnr: 'Dossier' },
+    });
+
+    expect(result.isErr()).toBe(true);
+    if (result.isErr()) {
+      expect(result.error).toMatchObject({ code: ParseErrorCode.INVALID_CSV_FILE, rawValue: 'Dossier' });
+    }
+  });
+
+  it('rejects a file with only a header', () => {
+    const result = parseBookingCsv(csv());
+
+    expect(result.isErr()).toBe(true);
+    if (result.isErr()) {
+      expect(result.error.code).toBe(ParseErrorCode.EMPTY_INPUT);
+    }
+  });
+});
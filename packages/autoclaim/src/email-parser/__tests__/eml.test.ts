@@ -0,0 +1,137 @@
+/**
+ * Tests for booking import from raw .eml files.
+ */
+
+import { describe, it, expect } from 'vitest';
+import { parseBookingEml } from '../eml.js';
+import { ParseErrorCode } from '../types.js';
+import { VALID_HTML_EMAIL, VALID_PLAIN_TEXT_EMAIL } from './fixtures.js';
+
+/**
+ * Wraps a body in a minimal single-part message.
+ */
+function singlePart(contentType: string, encoding: string, body: string): Buffer {
+  return Buffer.from(
+    [
+      'From: Eurostar <noreply@eurostar.com>',
+      'Subject: Your Eurostar booking confirmation',
+      'MIME-Version: 1.0',
+      `Content-Type: ${contentType}`,
+      `Content-Transfer-Encoding: ${encoding}`,
+      '',
+      body,
+    ].join('\r\n')
+  );
+}
+
+describe('parseBookingEml', () => {
+  it('prefers the HTML part of a multipart/alternative message', () => {
+    const raw = Buffer.from(
+      [
+        'Subject: Your Eurostar booking confirmation',
+        'Content-Type: multipart/alternative; boundary="b1"',
+        '',
+        '--b1',
+        'Content-Type: text/plain; charset=utf-8',
+        '',
+        VALID_PLAIN_TEXT_EMAIL,
+        '--b1',
+        'Content-Type: text/html; charset=utf-8',
+        'Content-Transfer-Encoding: base64',
+        '',
+        Buffer.from(VALID_HTML_EMAIL).toString('base64').replace(/.{76}/g, '$&\r\n'),
+        '--b1--',
+      ].join('\r\n')
+    );
+
+    const result = parseBookingEml(raw);
+
+    expect(result.isOk()).toBe(true);
+    if (result.isOk()) {
+      expect(result.value.pnr).toBe('XYZ789');
+      expect(result.value.trainNumber).toBe('9015');
+    }
+  });
+
+  it('falls back to the plain-text part', () => {
+    const result = parseBookingEml(
+      singlePart('text/plain; charset=utf-8', '7bit', VALID_PLAIN_TEXT_EMAIL)
+    );
+
+    expect(result.isOk()).toBe(true);
+    if (result.isOk()) {
+      expect(result.value.pnr).toBe('ABC123');
+    }
+  });
+
+  it('decodes quoted-printable bodies in a legacy charset', () => {
+    const body = VALID_PLAIN_TEXT_EMAIL.replace(
+      'Booking Reference: ABC123',
+      'Booking Reference: =\r\nDEF=3456'
+    ).replace('Best regards', 'Bon voyage et =E0 bient=F4t');
+
+    const result = parseBookingEml(singlePart('text/plain; charset=iso-8859-1', 'quoted-printable', body));
+
+    expect(result.isOk()).toBe(true);
+    if (result.isOk()) {
+      expect(result.value.pnr).toBe('DEF456');
+    }
+  });
+
+  it('reads a confirmation forwarded as an attachment', () => {
+    const raw = Buffer.from(
+      [
+        'Subject: Fwd: Your Eurostar booking confirmation',
+        'Content-Type: multipart/mixed; boundary="fwd"',
+        '',
+        '--fwd',
+        'Content-Type: text/plain',
+        '',
+        'Here is my booking.',
+        '--fwd',
+        'Content-Type: message/rfc822',
+        'Content-Disposition: attachment; filename="booking.eml"',
+        '',
+        'Subject: Your Eurostar booking confirmation',
+        'Content-Type: text/html; charset=utf-8',
+        '',
+        VALID_HTML_EMAIL,
+        '--fwd--',
+      ].join('\r\n')
+    );
+
+    const result = parseBookingEml(raw);
+
+    expect(result.isOk()).toBe(true);
+    if (result.isOk()) {
+      expect(result.value.pnr).toBe('XYZ789');
+    }
+  });
+
+  it('returns INVALID_EMAIL_FILE for files that are not MIME messages', () => {
+    const result = parseBookingEml(Buffer.from('%PDF-1.4\nnot an email'));
+
+    expect(result.isErr()).toBe(true);
+    if (result.isErr()) {
+      expect(result.error.code).toBe(ParseErrorCode.INVALID_EMAIL_FILE);
+    }
+  });
+
+  it('returns EMPTY_INPUT for messages without a text body', () => {
+    const result = parseBookingEml(singlePart('image/png', 'base64', 'iVBORw0KGgo='));
+
+    expect(result.isErr()).toBe(true);
+    if (result.isErr()) {
+      expect(result.error.code).toBe(ParseErrorCode.EMPTY_INPUT);
+    }
+  });
+
+  it('returns the parser error when no message holds a booking', () => {
+    const result = parseBookingEml(singlePart('text/plain', '7bit', 'Hello, see you soon!'));
+
+    expect(result.isErr()).toBe(true);
+    if (result.isErr()) {
+      expect(result.error.code).toBe(ParseErrorCode.MISSING_PNR);
+    }
+  });
+});
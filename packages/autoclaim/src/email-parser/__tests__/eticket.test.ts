@@ -0,0 +1,215 @@
+/**
+ * Tests for booking import from PDF e-tickets.
+ */
+
+import { describe, it, expect } from 'vitest';
+import { buildETicketBooking, parseETicketPage, parseETicketPdf } from '../eticket.js';
+import { ParseErrorCode, type ParsedETicket } from '../types.js';
+
+/**
+ * Builds a minimal PDF with one page per entry, each line drawn as its own
+ * text run from the top of the page.
+ */
+function buildPdf(pages: string[]): Buffer {
+  const objects = ['<< /Type /Catalog /Pages 2 0 R >>', ''];
+  const kids: string[] = [];
+
+  for (const page of pages) {
+    const content = [
+      'BT /F1 11 Tf',
+      ...page.split('\n').map((line, i) => `1 0 0 1 40 ${800 - i * 18} Tm (${line.replace(/[\\()]/g, '\\$&')}) Tj`),
+      'ET',
+    ].join('\n');
+    objects.push(`<< /Length ${Buffer.byteLength(content, 'latin1')} >>\nstream\n${content}\nendstream`);
+    objects.push(`<< /Type /Page /Parent 2 0 R /Contents ${objects.length} 0 R >>`);
+    kids.push(`${objects.length} 0 R`);
+  }
+
+  objects[1] =
+    `<< /Type /Pages /Kids [${kids.join(' ')}] /Count ${kids.length} ` +
+    '/Resources << /Font << /F1 << /Type /Font /Subtype /Type1 /BaseFont /Helvetica >> >> >> >>';
+
+  const body = objects.map((object, i) => `${i + 1} 0 obj\n${object}\nendobj`).join('\n');
+  return Buffer.from(`%PDF-1.4\n${body}\n%%EOF\n`, 'latin1');
+}
+
+function ticketPage(passenger: string, tcn: string, train: string, date: string, seat: string): string {
+  return [
+    'EUROSTAR E-TICKET',
+    'Booking reference ETK123',
+    `Passenger ${passenger}`,
+    `Ticket number ${tcn}`,
+    "From London St Pancras Int'l",
+    'To Paris Gare du Nord',
+    `Train ${train} ${date}`,
+    'Departure 08:01 Arrival 11:20',
+    `Coach 05 Seat ${seat} Standard`,
+  ].join('\n');
+}
+
+const TERMS_PAGE = 'Conditions of carriage\nTickets are non-transferable.';
+
+describe('parseETicketPage', () => {
+  it('reads a ticket page', () => {
+    const result = parseETicketPage(ticketPage('MR JOHN SMITH', '15123456789', '9014', '12 Mar 2026', '061'));
+
+    expect(result.isOk()).toBe(true);
+    if (result.isOk()) {
+      expect(result.value).toEqual({
+        pnr: 'ETK123',
+        tcn: '15123456789',
+        passengerName: 'Mr John Smith',
+        trainNumber: '9014',
+        journeyDate: new Date(Date.UTC(2026, 2, 12)),
+        origin: 'London St Pancras',
+        destination: 'Paris Gare du Nord',
+        coach: '5',
+        seat: '61',
+      });
+    }
+  });
+
+  it('reads a route line and a labelled name', () => {
+    const result = parseETicketPage(
+      [
+        'Booking ref. ETK123',
+        'Name: MR JOHN SMITH Ticket 15123456789',
+        "Paris Gare du Nord → London St Pancras Int'l",
+        'Train n° 9039 15/03/2026',
+      ].join('\n')
+    );
+
+    expect(result.isOk()).toBe(true);
+    if (result.isOk()) {
+      expect(result.value).toMatchObject({
+        passengerName: 'Mr John Smith',
+        trainNumber: '9039',
+        journeyDate: new Date(Date.UTC(2026, 2, 15)),
+        origin: 'Paris Gare du Nord',
+        destination: 'London St Pancras',
+      });
+    }
+  });
+
+  it('reads From / To lines and full month names', () => {
+    const result = parseETicketPage(
+      [
+        'Booking ref. ETK123',
+        "MS MARY O'BRIEN-JONES",
+        'TCN IV987654321',
+        'From Brussels Midi/Zuid',
+        'To London St Pancras',
+        'Train no. 9117',
+        '4 April 2026',
+      ].join('\n')
+    );
+
+    expect(result.isOk()).toBe(true);
+    if (result.isOk()) {
+      expect(result.value.passengerName).toBe("Ms Mary O'Brien-Jones");
+      expect(result.value.origin).toBe('Brussels Midi/Zuid');
+      expect(result.value.journeyDate).toEqual(new Date(Date.UTC(2026, 3, 4)));
+      expect(result.value.coach).toBeUndefined();
+    }
+  });
+
+  it('reports the first missing field', () => {
+    const result = parseETicketPage('Booking reference ETK123\nTicket number 15123456789');
+
+    expect(result.isErr()).toBe(true);
+    if (result.isErr()) {
+      expect(result.error.code).toBe(ParseErrorCode.MISSING_PASSENGER);
+    }
+  });
+});
+
+describe('buildETicketBooking', () => {
+  const ticket = (overrides: Partial<ParsedETicket>): ParsedETicket => ({
+    pnr: 'ETK123',
+    tcn: '15123456789',
+    passengerName: 'Mr John Smith',
+    trainNumber: '9014',
+    journeyDate: new Date(Date.UTC(2026, 2, 12)),
+    origin: 'London St Pancras',
+    destination: 'Paris Gare du Nord',
+    coach: '5',
+    seat: '61',
+    ...overrides,
+  });
+
+  it('groups tickets into passengers and legs', () => {
+    const inbound = {
+      trainNumber: '9039',
+      journeyDate: new Date(Date.UTC(2026, 2, 15)),
+      origin: 'Paris Gare du Nord',
+      destination: 'London St Pancras',
+    };
+    const result = buildETicketBooking([
+      ticket({ ...inbound, coach: '12', seat: '33' }),
+      ticket({}),
+      ticket({ tcn: '15123456790', passengerName: 'Mrs Jane Smith', seat: '62' }),
+    ]);
+
+    expect(result.isOk()).toBe(true);
+    if (result.isOk()) {
+      const booking = result.value;
+      expect(booking.trainNumber).toBe('9014');
+      expect(booking.passengers.map((p) => [p.tcn, p.seat])).toEqual([
+        ['15123456789', '61'],
+        ['15123456790', '62'],
+      ]);
+      expect(booking.legs.map((leg) => [leg.trainNumber, leg.coach, leg.seat])).toEqual([
+        ['9014', '5', '61'],
+        ['9039', '12', '33'],
+      ]);
+    }
+  });
+});
+
+describe('parseETicketPdf', () => {
+  it('parses an e-ticket PDF, skipping non-ticket pages', () => {
+    const pdf = buildPdf([
+      ticketPage('MR JOHN SMITH', '15123456789', '9014', '12 Mar 2026', '061'),
+      ticketPage('MRS JANE SMITH', '15123456790', '9014', '12 Mar 2026', '062'),
+      TERMS_PAGE,
+    ]);
+
+    const result = parseETicketPdf(pdf);
+
+    expect(result.isOk()).toBe(true);
+    if (result.isOk()) {
+      expect(result.value.pnr).toBe('ETK123');
+      expect(result.value.passengerName).toBe('Mr John Smith');
+      expect(result.value.coach).toBe('5');
+      expect(result.value.passengers).toHaveLength(2);
+      expect(result.value.legs).toHaveLength(1);
+    }
+  });
+
+  it('returns INVALID_PDF_FILE for files that are not PDFs', () => {
+    const result = parseETicketPdf(Buffer.from('From: someone@example.com\r\n\r\nhello'));
+
+    expect(result.isErr()).toBe(true);
+    if (result.isErr()) {
+      expect(result.error.code).toBe(ParseErrorCode.INVALID_PDF_FILE);
+    }
+  });
+
+  it('returns MISSING_PNR when no page is a ticket', () => {
+    const result = parseETicketPdf(buildPdf([TERMS_PAGE]));
+
+    expect(result.isErr()).toBe(true);
+    if (result.isErr()) {
+      expect(result.error.code).toBe(ParseErrorCode.MISSING_PNR);
+    }
+  });
+
+  it('returns EMPTY_INPUT for image-only PDFs', () => {
+    const result = parseETicketPdf(buildPdf(['']));
+
+    expect(result.isErr()).toBe(true);
+    if (result.isErr()) {
+      expect(result.error.code).toBe(ParseErrorCode.EMPTY_INPUT);
+    }
+  });
+});
@@ -248,6 +248,143 @@ Arrives: Brussels 15:57
 Passenger: Prof Richard Feynman
 `;
 
+/**
+ * Email with per-passenger fare and booking total (GBP).
+ */
+export const PRICE_PER_PASSENGER_EMAIL = `
+Your Eurostar booking confirmation
+
+Booking Reference: PRC111
+Ticket Number: IV111222333
+
+Train: Eurostar 9014
+Date: 12 March 2026
+Departs: London St Pancras 09:01
+Arrives: Paris Gare du Nord 12:20
+
+Passenger: Ms Ada Lovelace
+Coach: 7
+Seat: 42
+
+Price per passenger: £120.50
+Total paid: £241.00
+`;
+
+/**
+ * Email with only a booking total, currency after the amount and a comma decimal.
+ */
+export const PRICE_TOTAL_EUR_EMAIL = `
+Eurostar - Booking confirmed
+
+Booking Reference: PRC222
+Ticket Number: 15987654321
+
+Train: Eurostar 9315
+Date: 20 April 2026
+Departs: Brussels 08:52
+Arrives: Amsterdam 10:45
+
+Passenger: Mr Hendrik Lorentz
+
+Total: 1.089,50 €
+`;
+
+/**
+ * Email with a price line but no recognisable currency.
+ */
+export const PRICE_NO_CURRENCY_EMAIL = `
+Booking Reference: PRC333
+Ticket Number: IV444555666
+Train: Eurostar 9024
+Date: 02 May 2026
+Departs: London St Pancras 10:24
+Arrives: Brussels 13:52
+Passenger: Mrs Marie Curie
+Total: 89.00
+`;
+
+/**
+ * Email for three travellers, each with their own ticket, seat and fare.
+ */
+export const MULTI_PASSENGER_EMAIL = `
+Your Eurostar booking confirmation
+
+Booking Reference: FAM456
+
+Train: Eurostar 9024
+Date: 18 July 2026
+Departs: London St Pancras 10:24
+Arrives: Brussels Midi 13:52
+
+Passenger 1: Mr Isambard Brunel
+Ticket Number: IV100200300
+Coach: 12
+Seat: 61
+Fare: £89.00
+
+Passenger 2: Mrs Mary Brunel
+Ticket Number: IV100200301
+Coach: 12
+Seat: 62
+Fare: £89.00
+
+Passenger 3: Miss Sophia Brunel
+Ticket Number: IV100200302
+Coach: 12
+Seat: 63
+Fare: £45.00
+
+Total paid: £223.00
+`;
+
+/**
+ * Email for two travellers with the tickets listed apart from the names
+ * and only a booking total.
+ */
+export const MULTI_PASSENGER_TOTAL_EMAIL = `
+Booking Reference: DUO789
+Train: Eurostar 9043
+Date: 03 August 2026
+Departs: Paris Gare du Nord 13:13
+Arrives: London St Pancras 14:30
+
+Passenger 1: Mr Gustave Eiffel
+Passenger 2: Mrs Marguerite Eiffel
+
+Ticket numbers: 15123456789, 15123456790
+
+Total: 250,00 €
+`;
+
+/**
+ * Return booking with an outbound and an inbound leg.
+ */
+export const RETURN_JOURNEY_EMAIL = `
+Your Eurostar booking confirmation
+
+Booking Reference: RTN321
+Ticket Number: IV555666777
+Passenger: Ms Grace Hopper
+
+Outbound
+Train: Eurostar 9014
+Date: 10 September 2026
+Departs: London St Pancras 09:01
+Arrives: Paris Gare du Nord 12:20
+Coach: 3
+Seat: 21
+
+Return
+Train: Eurostar 9051
+Date: 14 September 2026
+Departs: Paris Gare du Nord 17:13
+Arrives: London St Pancras 18:30
+Coach: 9
+Seat: 44
+
+Total paid: £198.00
+`;
+
 /**
  * Email with minimal formatting.
  */
@@ -314,6 +451,101 @@ export const COMPLEX_HTML_EMAIL = `
 </html>
 `;
 
+/**
+ * French confirmation from eurostar.com/fr-fr, with French typography
+ * (space before colons, "1er", times as 08h13).
+ */
+export const FRENCH_EMAIL = `
+Confirmation de votre réservation Eurostar
+
+Merci d'avoir réservé avec Eurostar !
+
+Référence de réservation : FRA123
+Numéro de billet : IV321654987
+
+Trajet aller
+Train n° 9014
+Date : 1er mars 2026
+Départ : Paris Gare du Nord 08h13
+Arrivée : Londres St Pancras 09h30
+
+Passager : Mme Hélène Dupont
+Voiture : 4
+Place : 27
+
+Prix total : 112,00 €
+`;
+
+/**
+ * French return booking with "Aller" and "Retour" legs.
+ */
+export const FRENCH_RETURN_EMAIL = `
+Référence de réservation : ALR246
+Numéro de billet : 15246813579
+Passager : M. Victor Hugo
+
+Aller
+Train n° 9008
+Date : 10 novembre 2026
+Départ : Londres St Pancras 07h01
+Arrivée : Paris Gare du Nord 10h20
+
+Retour
+Train n° 9047
+Date : 15 novembre 2026
+Départ : Paris-Nord 18h13
+Arrivée : Londres 19h30
+
+Montant total : 240,00 €
+`;
+
+/**
+ * Dutch HTML confirmation from eurostar.com/nl-nl.
+ */
+export const DUTCH_EMAIL = `
+<html>
+<body>
+  <h1>Bevestiging van je Eurostar-reservering</h1>
+  <p>Bedankt voor je boeking bij Eurostar!</p>
+  <table>
+    <tr><td>Boekingsreferentie:</td><td>NLD456</td></tr>
+    <tr><td>Ticketnummer:</td><td>15123987654</td></tr>
+    <tr><td>Trein:</td><td>Eurostar 9316</td></tr>
+    <tr><td>Datum:</td><td>12 november 2026</td></tr>
+    <tr><td>Vertrek:</td><td>Amsterdam Centraal 08:16</td></tr>
+    <tr><td>Aankomst:</td><td>Brussel-Zuid 10:08</td></tr>
+    <tr><td>Reiziger:</td><td>Dhr. Pieter de Vries</td></tr>
+    <tr><td>Rijtuig:</td><td>7</td></tr>
+    <tr><td>Stoel:</td><td>54</td></tr>
+    <tr><td>Totaalbedrag:</td><td>&euro; 59,00</td></tr>
+  </table>
+</body>
+</html>
+`;
+
+/**
+ * German confirmation from eurostar.com/de-de.
+ */
+export const GERMAN_EMAIL = `
+Ihre Eurostar-Buchungsbestätigung
+
+Vielen Dank für Ihre Buchung!
+
+Buchungsnummer: DEU789
+Ticketnummer: IV987123654
+
+Zug: Eurostar 9114
+Datum: 5. März 2026
+Abfahrt: Brüssel-Süd 10:56
+Ankunft: London St Pancras 11:57
+
+Reisender: Herr Jürgen Müller
+Wagen: 11
+Sitzplatz: 32
+
+Preis pro Person: 78,00 €
+`;
+
 /**
  * Empty email body.
  */
@@ -6,7 +6,14 @@
  */
 
 import { describe, it, expect } from 'vitest';
-import { parseBookingEmail, stripHtml, cleanForwardedEmail, preprocessEmail } from '../parser.js';
+import {
+  parseBookingEmail,
+  detectEmailLanguage,
+  splitJourneyLegs,
+  stripHtml,
+  cleanForwardedEmail,
+  preprocessEmail,
+} from '../parser.js';
 import { ParseErrorCode } from '../types.js';
 import {
   VALID_PLAIN_TEXT_EMAIL,
@@ -26,6 +33,16 @@ import {
   COMPLEX_HTML_EMAIL,
   EMPTY_EMAIL,
   WHITESPACE_EMAIL,
+  PRICE_PER_PASSENGER_EMAIL,
+  MULTI_PASSENGER_EMAIL,
+  MULTI_PASSENGER_TOTAL_EMAIL,
+  RETURN_JOURNEY_EMAIL,
+  PRICE_TOTAL_EUR_EMAIL,
+  PRICE_NO_CURRENCY_EMAIL,
+  FRENCH_EMAIL,
+  FRENCH_RETURN_EMAIL,
+  DUTCH_EMAIL,
+  GERMAN_EMAIL,
 } from './fixtures.js';
 
 describe('parseBookingEmail', () => {
@@ -155,6 +172,284 @@ describe('parseBookingEmail', () => {
     });
   });
 
+  describe('ticket price', () => {
+    it('should prefer the per-passenger price over the total', () => {
+      const result = parseBookingEmail(PRICE_PER_PASSENGER_EMAIL);
+
+      expect(result.isOk()).toBe(true);
+      if (result.isOk()) {
+        expect(result.value.ticketPrice).toBe(120.5);
+        expect(result.value.currency).toBe('GBP');
+      }
+    });
+
+    it('should fall back to the total with currency after a comma-decimal amount', () => {
+      const result = parseBookingEmail(PRICE_TOTAL_EUR_EMAIL);
+
+      expect(result.isOk()).toBe(true);
+      if (result.isOk()) {
+        expect(result.value.ticketPrice).toBe(1089.5);
+        expect(result.value.currency).toBe('EUR');
+      }
+    });
+
+    it('should leave price unset when no currency is given', () => {
+      const result = parseBookingEmail(PRICE_NO_CURRENCY_EMAIL);
+
+      expect(result.isOk()).toBe(true);
+      if (result.isOk()) {
+        expect(result.value.ticketPrice).toBeUndefined();
+        expect(result.value.currency).toBeUndefined();
+      }
+    });
+
+    it('should leave price unset when the email has no price line', () => {
+      const result = parseBookingEmail(VALID_PLAIN_TEXT_EMAIL);
+
+      expect(result.isOk()).toBe(true);
+      if (result.isOk()) {
+        expect(result.value.ticketPrice).toBeUndefined();
+      }
+    });
+  });
+
+  describe('multiple passengers', () => {
+    it('returns a single passenger for a one-traveller booking', () => {
+      const result = parseBookingEmail(PRICE_PER_PASSENGER_EMAIL);
+
+      expect(result.isOk()).toBe(true);
+      if (result.isOk()) {
+        expect(result.value.passengers).toEqual([
+          {
+            passengerName: result.value.passengerName,
+            tcn: 'IV111222333',
+            coach: '7',
+            seat: '42',
+            ticketPrice: 120.5,
+            currency: 'GBP',
+          },
+        ]);
+      }
+    });
+
+    it('extracts every traveller with their own ticket, seat and fare', () => {
+      const result = parseBookingEmail(MULTI_PASSENGER_EMAIL);
+
+      expect(result.isOk()).toBe(true);
+      if (result.isOk()) {
+        const { passengers } = result.value;
+        expect(passengers).toHaveLength(3);
+        expect(passengers.map((p) => p.tcn)).toEqual([
+          'IV100200300',
+          'IV100200301',
+          'IV100200302',
+        ]);
+        expect(passengers.map((p) => p.seat)).toEqual(['61', '62', '63']);
+        expect(passengers[2]).toMatchObject({
+          coach: '12',
+          ticketPrice: 45,
+          currency: 'GBP',
+        });
+      }
+    });
+
+    it('uses the lead booker for the booking-level fields', () => {
+      const result = parseBookingEmail(MULTI_PASSENGER_EMAIL);
+
+      expect(result.isOk()).toBe(true);
+      if (result.isOk()) {
+        expect(result.value.passengerName).toBe(result.value.passengers[0]!.passengerName);
+        expect(result.value.tcn).toBe('IV100200300');
+        expect(result.value.ticketPrice).toBe(89);
+      }
+    });
+
+    it('pairs listed tickets with passengers in order and splits the total', () => {
+      const result = parseBookingEmail(MULTI_PASSENGER_TOTAL_EMAIL);
+
+      expect(result.isOk()).toBe(true);
+      if (result.isOk()) {
+        const { passengers } = result.value;
+        expect(passengers.map((p) => p.tcn)).toEqual(['15123456789', '15123456790']);
+        expect(passengers.every((p) => p.ticketPrice === 125 && p.currency === 'EUR')).toBe(
+          true
+        );
+      }
+    });
+
+    it('fails when a traveller has no ticket number', () => {
+      const email = MULTI_PASSENGER_TOTAL_EMAIL.replace(', 15123456790', '');
+      const result = parseBookingEmail(email);
+
+      expect(result.isErr()).toBe(true);
+      if (result.isErr()) {
+        expect(result.error.code).toBe(ParseErrorCode.MISSING_TCN);
+        expect(result.error.field).toBe('passengers.1.tcn');
+      }
+    });
+  });
+
+  describe('return journeys', () => {
+    it('returns a single leg for a one-way booking', () => {
+      const result = parseBookingEmail(VALID_PLAIN_TEXT_EMAIL);
+
+      expect(result.isOk()).toBe(true);
+      if (result.isOk()) {
+        expect(result.value.legs).toHaveLength(1);
+        expect(result.value.legs[0]!.trainNumber).toBe(result.value.trainNumber);
+        expect(splitJourneyLegs(result.value)).toEqual([result.value]);
+      }
+    });
+
+    it('extracts the outbound and return legs', () => {
+      const result = parseBookingEmail(RETURN_JOURNEY_EMAIL);
+
+      expect(result.isOk()).toBe(true);
+      if (result.isOk()) {
+        const { legs } = result.value;
+        expect(legs.map((leg) => leg.trainNumber)).toEqual(['9014', '9051']);
+        expect(legs[1]!.journeyDate).toEqual(new Date(Date.UTC(2026, 8, 14)));
+        expect(legs[1]!.origin).toBe('Paris Gare du Nord');
+        expect(legs[1]!.destination).toBe('London St Pancras');
+        expect(legs[1]!).toMatchObject({ coach: '9', seat: '44' });
+        // Top-level journey fields describe the outbound leg
+        expect(result.value.trainNumber).toBe('9014');
+      }
+    });
+
+    it('splits into one booking per leg with a share of the fare', () => {
+      const result = parseBookingEmail(RETURN_JOURNEY_EMAIL);
+
+      expect(result.isOk()).toBe(true);
+      if (result.isOk()) {
+        const [outbound, inbound] = splitJourneyLegs(result.value);
+        expect(outbound).toMatchObject({ trainNumber: '9014', seat: '21', ticketPrice: 99 });
+        expect(inbound).toMatchObject({
+          pnr: 'RTN321',
+          tcn: 'IV555666777',
+          trainNumber: '9051',
+          coach: '9',
+          seat: '44',
+          ticketPrice: 99,
+          currency: 'GBP',
+        });
+        expect(inbound!.passengers[0]).toMatchObject({ seat: '44', ticketPrice: 99 });
+        expect(inbound!.legs).toHaveLength(1);
+      }
+    });
+
+    it('fails when a leg has no train number', () => {
+      const email = RETURN_JOURNEY_EMAIL.replace('Train: Eurostar 9051\n', '');
+      const result = parseBookingEmail(email);
+
+      expect(result.isErr()).toBe(true);
+      if (result.isErr()) {
+        expect(result.error.code).toBe(ParseErrorCode.MISSING_TRAIN_NUMBER);
+        expect(result.error.field).toBe('legs.1.trainNumber');
+      }
+    });
+  });
+
+  describe('other languages', () => {
+    it('parses a French confirmation', () => {
+      const result = parseBookingEmail(FRENCH_EMAIL);
+
+      expect(result.isOk()).toBe(true);
+      if (result.isOk()) {
+        expect(result.value).toMatchObject({
+          pnr: 'FRA123',
+          tcn: 'IV321654987',
+          trainNumber: '9014',
+          journeyDate: new Date(Date.UTC(2026, 2, 1)),
+          passengerName: 'Mme Hélène Dupont',
+          origin: 'Paris Gare du Nord',
+          destination: 'London St Pancras',
+          coach: '4',
+          seat: '27',
+          ticketPrice: 112,
+          currency: 'EUR',
+        });
+      }
+    });
+
+    it('splits a French return booking on "Aller" and "Retour"', () => {
+      const result = parseBookingEmail(FRENCH_RETURN_EMAIL);
+
+      expect(result.isOk()).toBe(true);
+      if (result.isOk()) {
+        expect(result.value.passengerName).toBe('M. Victor Hugo');
+        const [outbound, inbound] = splitJourneyLegs(result.value);
+        expect(outbound).toMatchObject({ trainNumber: '9008', destination: 'Paris Gare du Nord', ticketPrice: 120 });
+        expect(inbound).toMatchObject({
+          trainNumber: '9047',
+          journeyDate: new Date(Date.UTC(2026, 10, 15)),
+          origin: 'Paris Gare du Nord',
+          destination: 'London St Pancras',
+        });
+      }
+    });
+
+    it('parses a Dutch HTML confirmation', () => {
+      const result = parseBookingEmail(DUTCH_EMAIL);
+
+      expect(result.isOk()).toBe(true);
+      if (result.isOk()) {
+        expect(result.value).toMatchObject({
+          pnr: 'NLD456',
+          tcn: '15123987654',
+          trainNumber: '9316',
+          journeyDate: new Date(Date.UTC(2026, 10, 12)),
+          passengerName: 'Dhr. Pieter de Vries',
+          origin: 'Amsterdam Centraal',
+          destination: 'Brussels Midi/Zuid',
+          coach: '7',
+          seat: '54',
+          ticketPrice: 59,
+          currency: 'EUR',
+        });
+      }
+    });
+
+    it('parses a German confirmation', () => {
+      const result = parseBookingEmail(GERMAN_EMAIL);
+
+      expect(result.isOk()).toBe(true);
+      if (result.isOk()) {
+        expect(result.value).toMatchObject({
+          pnr: 'DEU789',
+          tcn: 'IV987123654',
+          trainNumber: '9114',
+          journeyDate: new Date(Date.UTC(2026, 2, 5)),
+          passengerName: 'Herr Jürgen Müller',
+          origin: 'Brussels Midi/Zuid',
+          destination: 'London St Pancras',
+          coach: '11',
+          seat: '32',
+          ticketPrice: 78,
+          currency: 'EUR',
+        });
+      }
+    });
+
+    it('parses German numeric dates', () => {
+      const result = parseBookingEmail(GERMAN_EMAIL.replace('5. März 2026', '05.03.2026'));
+
+      expect(result.isOk()).toBe(true);
+      if (result.isOk()) {
+        expect(result.value.journeyDate).toEqual(new Date(Date.UTC(2026, 2, 5)));
+      }
+    });
+
+    it('reports localized emails missing a field', () => {
+      const result = parseBookingEmail(GERMAN_EMAIL.replace('Zug: Eurostar 9114\n', ''));
+
+      expect(result.isErr()).toBe(true);
+      if (result.isErr()) {
+        expect(result.error.code).toBe(ParseErrorCode.MISSING_TRAIN_NUMBER);
+      }
+    });
+  });
+
   describe('invalid emails - missing required fields', () => {
     it('should return error for missing PNR', () => {
       const result = parseBookingEmail(MISSING_PNR_EMAIL);
@@ -238,6 +533,19 @@ describe('parseBookingEmail', () => {
   });
 });
 
+describe('detectEmailLanguage', () => {
+  it('detects the language from the email labels', () => {
+    expect(detectEmailLanguage(VALID_PLAIN_TEXT_EMAIL)).toBe('en');
+    expect(detectEmailLanguage(FRENCH_EMAIL)).toBe('fr');
+    expect(detectEmailLanguage(DUTCH_EMAIL)).toBe('nl');
+    expect(detectEmailLanguage(GERMAN_EMAIL)).toBe('de');
+  });
+
+  it('falls back to English without any labels', () => {
+    expect(detectEmailLanguage('ABC123 IV123456789')).toBe('en');
+  });
+});
+
 describe('stripHtml', () => {
   it('should remove HTML tags', () => {
     const html = '<p>Hello <strong>World</strong></p>';
@@ -287,6 +595,13 @@ describe('cleanForwardedEmail', () => {
     expect(result).not.toContain('To:');
     expect(result).toContain('Actual content');
   });
+
+  it('should remove French, Dutch and German forwarded headers', () => {
+    const text =
+      'De : sender@example.com\nObjet : Réservation\nVan: sender@example.com\nBetreff: Buchung\n\nDate : 1er mars 2026';
+    const result = cleanForwardedEmail(text);
+    expect(result).toBe('Date : 1er mars 2026');
+  });
 });
 
 describe('preprocessEmail', () => {
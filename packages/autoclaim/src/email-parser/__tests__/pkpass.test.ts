@@ -0,0 +1,166 @@
+/**
+ * Tests for booking import from Wallet passes.
+ */
+
+import { createHash } from 'node:crypto';
+import { describe, it, expect } from 'vitest';
+import { parseBookingPkpass } from '../pkpass.js';
+import { ParseErrorCode } from '../types.js';
+
+/**
+ * Builds an uncompressed ZIP archive.
+ */
+function buildZip(files: Record<string, string | Buffer>): Buffer {
+  const local: Buffer[] = [];
+  const central: Buffer[] = [];
+  let offset = 0;
+
+  for (const [fileName, content] of Object.entries(files)) {
+    const name = Buffer.from(fileName);
+    const data = Buffer.isBuffer(content) ? content : Buffer.from(content);
+
+    const header = Buffer.alloc(30);
+    header.writeUInt32LE(0x04034b50, 0);
+    header.writeUInt32LE(data.length, 18);
+    header.writeUInt32LE(data.length, 22);
+    header.writeUInt16LE(name.length, 26);
+    local.push(header, name, data);
+
+    const entry = Buffer.alloc(46);
+    entry.writeUInt32LE(0x02014b50, 0);
+    entry.writeUInt32LE(data.length, 20);
+    entry.writeUInt32LE(data.length, 24);
+    entry.writeUInt16LE(name.length, 28);
+    entry.writeUInt32LE(offset, 42);
+    central.push(entry, name);
+
+    offset += header.length + name.length + data.length;
+  }
+
+  const directory = Buffer.concat(central);
+  const end = Buffer.alloc(22);
+  end.writeUInt32LE(0x06054b50, 0);
+  end.writeUInt16LE(Object.keys(files).length, 8);
+  end.writeUInt16LE(Object.keys(files).length, 10);
+  end.writeUInt32LE(directory.length, 12);
+  end.writeUInt32LE(offset, 16);
+
+  return Buffer.concat([...local, directory, end]);
+}
+
+/**
+ * Builds a .pkpass with a manifest matching its pass.json.
+ */
+function buildPkpass(pass: object): Buffer {
+  const passJson = JSON.stringify(pass);
+  const manifest = { 'pass.json': createHash('sha1').update(passJson).digest('hex') };
+  return buildZip({ 'pass.json': passJson, 'manifest.json': JSON.stringify(manifest), signature: '' });
+}
+
+function eurostarPass(overrides: { tcn?: string; passenger?: string; seat?: string } = {}) {
+  return {
+    formatVersion: 1,
+    passTypeIdentifier: 'pass.com.eurostar.boardingpass',
+    serialNumber: 'PKP123-1',
+    relevantDate: '2026-03-12T08:01:00+00:00',
+    barcodes: [{ format: 'PKBarcodeFormatAztec', message: `PKP123 ${overrides.tcn ?? '15123456789'} 9014 12032026` }],
+    boardingPass: {
+      transitType: 'PKTransitTypeTrain',
+      headerFields: [{ key: 'train', label: 'TRAIN', value: '9014' }],
+      primaryFields: [
+        { key: 'departure', label: 'LONDON', value: 'St Pancras' },
+        { key: 'arrival', label: 'PARIS', value: 'Gare du Nord' },
+      ],
+      secondaryFields: [{ key: 'passenger', label: 'PASSENGER', value: overrides.passenger ?? 'MR JOHN SMITH' }],
+      auxiliaryFields: [
+        { key: 'coach', label: 'COACH', value: '05' },
+        { key: 'seat', label: 'SEAT', value: overrides.seat ?? '061' },
+        { key: 'class', label: 'CLASS', value: 'Standard' },
+      ],
+      backFields: [{ key: 'bookingReference', label: 'Booking reference', value: 'PKP123' }],
+    },
+  };
+}
+
+describe('parseBookingPkpass', () => {
+  it('maps a boarding pass to a booking', () => {
+    const result = parseBookingPkpass(buildPkpass(eurostarPass()));
+
+    expect(result.isOk()).toBe(true);
+    if (result.isOk()) {
+      expect(result.value).toMatchObject({
+        pnr: 'PKP123',
+        tcn: '15123456789',
+        trainNumber: '9014',
+        journeyDate: new Date(Date.UTC(2026, 2, 12)),
+        passengerName: 'Mr John Smith',
+        origin: 'London St Pancras',
+        destination: 'Paris Gare du Nord',
+        coach: '5',
+        seat: '61',
+      });
+    }
+  });
+
+  it('combines the passes in a .pkpasses bundle', () => {
+    const bundle = buildZip({
+      'john.pkpass': buildPkpass(eurostarPass()),
+      'jane.pkpass': buildPkpass(eurostarPass({ tcn: '15123456790', passenger: 'Mrs Jane Smith', seat: '62' })),
+    });
+
+    const result = parseBookingPkpass(bundle);
+
+    expect(result.isOk()).toBe(true);
+    if (result.isOk()) {
+      expect(result.value.passengers.map((p) => [p.passengerName, p.tcn, p.seat])).toEqual([
+        ['Mr John Smith', '15123456789', '61'],
+        ['Mrs Jane Smith', '15123456790', '62'],
+      ]);
+      expect(result.value.legs).toHaveLength(1);
+    }
+  });
+
+  it('returns INVALID_PASS_FILE when pass.json does not match the manifest', () => {
+    const pass = JSON.stringify(eurostarPass());
+    const manifest = JSON.stringify({ 'pass.json': createHash('sha1').update('tampered').digest('hex') });
+
+    const result = parseBookingPkpass(buildZip({ 'pass.json': pass, 'manifest.json': manifest }));
+
+    expect(result.isErr()).toBe(true);
+    if (result.isErr()) {
+      expect(result.error.code).toBe(ParseErrorCode.INVALID_PASS_FILE);
+      expect(result.error.message).toMatch(/manifest/);
+    }
+  });
+
+  it('returns INVALID_PASS_FILE for other kinds of pass', () => {
+    const flight = { ...eurostarPass(), boardingPass: { ...eurostarPass().boardingPass, transitType: 'PKTransitTypeAir' } };
+    const coupon = { formatVersion: 1, coupon: { primaryFields: [] } };
+
+    for (const pass of [flight, coupon]) {
+      const result = parseBookingPkpass(buildPkpass(pass));
+      expect(result.isErr() && result.error.code).toBe(ParseErrorCode.INVALID_PASS_FILE);
+    }
+  });
+
+  it('returns INVALID_PASS_FILE for files that are not archives', () => {
+    const result = parseBookingPkpass(Buffer.from('{"formatVersion": 1}'));
+
+    expect(result.isErr()).toBe(true);
+    if (result.isErr()) {
+      expect(result.error.code).toBe(ParseErrorCode.INVALID_PASS_FILE);
+    }
+  });
+
+  it('returns the missing field for incomplete passes', () => {
+    const pass = eurostarPass();
+    pass.boardingPass.headerFields = [];
+
+    const result = parseBookingPkpass(buildPkpass(pass));
+
+    expect(result.isErr()).toBe(true);
+    if (result.isErr()) {
+      expect(result.error.code).toBe(ParseErrorCode.MISSING_TRAIN_NUMBER);
+    }
+  });
+});
@@ -0,0 +1,100 @@
+/**
+ * Tests for field-by-field parse reports.
+ */
+
+import { describe, it, expect } from 'vitest';
+import { buildParseReport } from '../report.js';
+import { ParseErrorCode } from '../types.js';
+import {
+  VALID_PLAIN_TEXT_EMAIL,
+  MISSING_TCN_EMAIL,
+  MISSING_PNR_EMAIL,
+  SLASH_DATE_EMAIL,
+  FRENCH_EMAIL,
+  PRICE_TOTAL_EUR_EMAIL,
+  EMPTY_EMAIL,
+} from './fixtures.js';
+
+describe('buildParseReport', () => {
+  it('reports every field of a complete email with its source line', () => {
+    const report = buildParseReport(VALID_PLAIN_TEXT_EMAIL);
+
+    expect(report.booking?.pnr).toBe('ABC123');
+    expect(report.error).toBeNull();
+    expect(report.needsReview).toEqual([]);
+    expect(report.fields.pnr).toEqual({
+      value: 'ABC123',
+      confidence: 'high',
+      pattern: 'pnr',
+      snippet: 'Booking Reference: ABC123',
+      issue: null,
+    });
+    expect(report.fields.journeyDate).toMatchObject({
+      value: new Date(Date.UTC(2026, 0, 5)),
+      pattern: 'dmyLong',
+      snippet: 'Date: 05 January 2026',
+    });
+    expect(report.fields.origin).toMatchObject({ value: 'London St Pancras', confidence: 'high' });
+    expect(report.fields.ticketPrice).toMatchObject({ value: null, confidence: 'none', issue: null });
+  });
+
+  it('keeps the other fields when one required field is missing', () => {
+    const report = buildParseReport(MISSING_TCN_EMAIL);
+
+    expect(report.booking).toBeNull();
+    expect(report.error?.code).toBe(ParseErrorCode.MISSING_TCN);
+    expect(report.needsReview).toEqual(['tcn']);
+    expect(report.fields.tcn).toMatchObject({ value: null, confidence: 'none', issue: 'Not found' });
+    expect(report.fields.pnr.value).toBe('ABC123');
+    expect(report.fields.trainNumber.value).toBe('9007');
+    expect(report.fields.passengerName.value).toBe('Mr John Smith');
+    expect(report.fields.destination.value).toBe('Paris Gare du Nord');
+  });
+
+  it('marks a guessed booking reference for review', () => {
+    const report = buildParseReport(MISSING_PNR_EMAIL.replace('Ticket Number', 'Your code XYZ789\nTicket Number'));
+
+    expect(report.fields.pnr).toMatchObject({ value: 'XYZ789', confidence: 'low', pattern: 'pnrGuess' });
+    expect(report.needsReview).toEqual(['pnr']);
+  });
+
+  it('flags values that fail validation', () => {
+    const report = buildParseReport(VALID_PLAIN_TEXT_EMAIL.replace('05 January 2026', '05 January 2019'));
+
+    expect(report.booking).toBeNull();
+    expect(report.fields.journeyDate.issue).toBe('Journey date must be within one year of today');
+    expect(report.needsReview).toEqual(['journeyDate']);
+  });
+
+  it('gives looser patterns medium confidence', () => {
+    const slash = buildParseReport(SLASH_DATE_EMAIL);
+    const total = buildParseReport(PRICE_TOTAL_EUR_EMAIL);
+
+    expect(slash.fields.journeyDate).toMatchObject({ confidence: 'medium', pattern: 'DMY_SLASH' });
+    expect(total.fields.ticketPrice).toMatchObject({ confidence: 'medium', pattern: 'TOTAL' });
+    expect(total.fields.currency.value).toBe('EUR');
+  });
+
+  it('reads localized emails with their own labels', () => {
+    const report = buildParseReport(FRENCH_EMAIL);
+
+    expect(report.language).toBe('fr');
+    expect(report.booking).not.toBeNull();
+    expect(report.needsReview).toEqual([]);
+  });
+
+  it('reports every required field as missing for an empty email', () => {
+    const report = buildParseReport(EMPTY_EMAIL);
+
+    expect(report.error?.code).toBe(ParseErrorCode.EMPTY_INPUT);
+    expect(report.needsReview).toEqual([
+      'pnr',
+      'tcn',
+      'trainNumber',
+      'journeyDate',
+      'passengerName',
+      'origin',
+      'destination',
+    ]);
+  });
+});
@@ -0,0 +1,465 @@
+/**
+ * Bulk booking import from spreadsheets (.csv).
+ *
+ * Travel agencies export one row per passenger per train. Rows sharing a
+ * PNR form one booking, with one leg per train and date and one passenger
+ * per TCN. Columns are found by their usual headers unless mapped, and
+ * stations are resolved to their codes by name, city or alias.
+ */
+
+import type { z } from 'zod';
+import { Result, ok, err } from '@eurostar/core/result';
+import { parseCsvRows } from '@eurostar/core/formats';
+import { STATIONS, searchStations, type Station } from '@eurostar/core';
+import {
+  CsvBooking,
+  CsvBookingField,
+  CsvBookingImport,
+  CsvDateFormat,
+  CsvImportOptions,
+  CsvRowError,
+  ParsedBooking,
+  ParsedPassenger,
+  ParseError,
+  ParseErrorCode,
+  createParseError,
+} from './types.js';
+import { CURRENCY_MAP } from './patterns.js';
+import { parseAmount } from './parser.js';
+import { toNameCase } from './eticket.js';
+import {
+  CoachSchema,
+  CurrencySchema,
+  JourneyDateSchema,
+  PassengerNameSchema,
+  PnrSchema,
+  SeatSchema,
+  TcnSchema,
+  TicketPriceSchema,
+  TrainNumberSchema,
+  safeValidateBooking,
+} from './validator.js';
+
+/**
+ * Usual headers for each field, compared without case, spaces or punctuation.
+ */
+const COLUMN_ALIASES: Record<CsvBookingField, string[]> = {
+  pnr: ['pnr', 'bookingreference', 'bookingref', 'reference', 'ref'],
+  tcn: ['tcn', 'ticketcontrolnumber', 'ticketnumber', 'ticketno', 'ticket'],
+  trainNumber: ['trainnumber', 'trainno', 'train'],
+  journeyDate: ['journeydate', 'traveldate', 'departuredate', 'date'],
+  passengerName: ['passengername', 'passenger', 'travellername', 'traveller', 'traveler', 'name'],
+  origin: ['origin', 'from', 'departurestation', 'departure'],
+  destination: ['destination', 'to', 'arrivalstation', 'arrival'],
+  coach: ['coach', 'carriage'],
+  seat: ['seat'],
+  ticketPrice: ['ticketprice', 'price', 'fare', 'amount'],
+  currency: ['currency'],
+};
+
+const REQUIRED_FIELDS: CsvBookingField[] = [
+  'pnr',
+  'tcn',
+  'trainNumber',
+  'journeyDate',
+  'passengerName',
+  'origin',
+  'destination',
+];
+
+/**
+ * Date patterns with the capture groups holding the day, month and year.
+ */
+const DATE_FORMATS: Record<CsvDateFormat, { regex: RegExp; order: [number, number, number] }> = {
+  'YYYY-MM-DD': { regex: /^(\d{4})[-/.](\d{1,2})[-/.](\d{1,2})$/, order: [3, 2, 1] },
+  'DD/MM/YYYY': { regex: /^(\d{1,2})[-/.](\d{1,2})[-/.](\d{4})$/, order: [1, 2, 3] },
+  'MM/DD/YYYY': { regex: /^(\d{1,2})[-/.](\d{1,2})[-/.](\d{4})$/, order: [2, 1, 3] },
+};
+
+/** Errors for required fields with no value */
+const MISSING_CODES: Partial<Record<CsvBookingField, ParseErrorCode>> = {
+  pnr: ParseErrorCode.MISSING_PNR,
+  tcn: ParseErrorCode.MISSING_TCN,
+  trainNumber: ParseErrorCode.MISSING_TRAIN_NUMBER,
+  journeyDate: ParseErrorCode.MISSING_DATE,
+  passengerName: ParseErrorCode.MISSING_PASSENGER,
+  origin: ParseErrorCode.MISSING_ORIGIN,
+  destination: ParseErrorCode.MISSING_DESTINATION,
+};
+
+/**
+ * One row read into booking fields.
+ */
+interface CsvTicket {
+  row: number;
+  pnr: string;
+  tcn: string;
+  trainNumber: string;
+  journeyDate: Date;
+  passengerName: string;
+  origin: string;
+  destination: string;
+  coach: string | undefined;
+  seat: string | undefined;
+  ticketPrice: number | undefined;
+  currency: 'EUR' | 'GBP' | undefined;
+}
+
+function normalizeHeader(header: string): string {
+  return header.toLowerCase().replace(/[^a-z0-9]/g, '');
+}
+
+/**
+ * Finds the column index of each field from the header row.
+ */
+function mapColumns(
+  header: string[],
+  columns: CsvImportOptions['columns'] = {}
+): Result<Partial<Record<CsvBookingField, number>>, ParseError> {
+  const headers = header.map(normalizeHeader);
+  const indexes: Partial<Record<CsvBookingField, number>> = {};
+
+  for (const field of Object.keys(COLUMN_ALIASES) as CsvBookingField[]) {
+    const mapped = columns[field];
+    if (mapped !== undefined) {
+      const index = headers.indexOf(normalizeHeader(mapped));
+      if (index === -1) {
+        return err(
+          createParseError(ParseErrorCode.INVALID_CSV_FILE, `Column "${mapped}" is not in the file`, field, mapped)
+        );
+      }
+      indexes[field] = index;
+      continue;
+    }
+
+    const index = COLUMN_ALIASES[field]
+      .map((alias) => headers.indexOf(alias))
+      .find((i) => i !== -1);
+    if (index !== undefined) {
+      indexes[field] = index;
+    }
+  }
+
+  const missing = REQUIRED_FIELDS.find((field) => indexes[field] === undefined);
+  if (missing) {
+    return err(createParseError(ParseErrorCode.INVALID_CSV_FILE, `No column found for ${missing}`, missing));
+  }
+
+  return ok(indexes);
+}
+
+/**
+ * Parses a spreadsheet date, ignoring any time after it. Without a format,
+ * ISO dates are read as such and other numeric dates day first.
+ */
+export function parseCsvDate(value: string, format?: CsvDateFormat): Date | null {
+  const text = value.trim().split(/[\sT]/)[0] ?? '';
+  const formats = format
+    ? [DATE_FORMATS[format]]
+    : [DATE_FORMATS['YYYY-MM-DD'], DATE_FORMATS['DD/MM/YYYY']];
+
+  for (const { regex, order } of formats) {
+    const match = text.match(regex);
+    const [day, month, year] = order.map((group) => parseInt(match?.[group] ?? '', 10));
+    if (!match || day === undefined || month === undefined || year === undefined) continue;
+
+    const date = new Date(Date.UTC(year, month - 1, day));
+    // Reject dates that roll over, like 31/02
+    if (date.getUTCDate() === day && date.getUTCMonth() === month - 1) {
+      return date;
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Parses a CSV station cell written as a code, name, city or alias to its code.
+ * Partial names are accepted when they fit exactly one station.
+ */
+export function parseCsvStation(value: string): Result<string, string> {
+  const query = value.trim().toLowerCase();
+  const exact = STATIONS.find(
+    (station) =>
+      station.code.toLowerCase() === query ||
+      station.name.toLowerCase() === query ||
+      station.city.toLowerCase() === query ||
+      station.aliases.some((alias) => alias.toLowerCase() === query)
+  );
+  if (exact) {
+    return ok(exact.code);
+  }
+
+  const matches: Station[] = searchStations(value);
+  if (matches.length === 1) {
+    return ok(matches[0]!.code);
+  }
+  return err(
+    matches.length === 0
+      ? `Unknown station "${value.trim()}"`
+      : `"${value.trim()}" could be ${matches.map((station) => station.name).join(', ')}`
+  );
+}
+
+/**
+ * Reads a price cell such as "89.50", "€89,50" or "GBP 89".
+ */
+function parsePriceCell(value: string): { amount: number | null; currency: 'EUR' | 'GBP' | undefined } {
+  const marker = value.match(/£|€|\b(?:gbp|eur)\b/i)?.[0].toLowerCase();
+  const digits = value.replace(/[^\d.,]/g, '');
+  return {
+    amount: digits ? parseAmount(digits) : null,
+    currency: marker ? CURRENCY_MAP[marker] : undefined,
+  };
+}
+
+/**
+ * Reads one row, reporting every field that is missing or invalid.
+ */
+function readRow(
+  fields: string[],
+  row: number,
+  columns: Partial<Record<CsvBookingField, number>>,
+  options: CsvImportOptions
+): Result<CsvTicket, CsvRowError[]> {
+  const errors: CsvRowError[] = [];
+  const cell = (field: CsvBookingField) => {
+    const index = columns[field];
+    return index === undefined ? '' : (fields[index] ?? '').trim();
+  };
+  const fail = (field: CsvBookingField, message: string, code: ParseErrorCode = ParseErrorCode.VALIDATION_FAILED) => {
+    const value = cell(field);
+    errors.push({ ...createParseError(code, message, field, value === '' ? undefined : value), row });
+  };
+  const check = <T>(field: CsvBookingField, schema: z.ZodType<T>, value: unknown): T | undefined => {
+    const result = schema.safeParse(value);
+    if (result.success) return result.data;
+    fail(field, result.error.issues[0]?.message ?? 'Invalid value');
+    return undefined;
+  };
+
+  for (const field of REQUIRED_FIELDS) {
+    if (cell(field) === '') {
+      fail(field, `${field} is empty`, MISSING_CODES[field]);
+    }
+  }
+
+  const present = (field: CsvBookingField) => cell(field) !== '';
+
+  const pnr = present('pnr') ? check('pnr', PnrSchema, cell('pnr').toUpperCase()) : undefined;
+  const tcn = present('tcn') ? check('tcn', TcnSchema, cell('tcn').toUpperCase().replace(/\s/g, '')) : undefined;
+  // Agencies often prefix the operator, e.g. "ES 9014"
+  const trainNumber = present('trainNumber')
+    ? check('trainNumber', TrainNumberSchema, cell('trainNumber').match(/\d{4}/)?.[0] ?? cell('trainNumber'))
+    : undefined;
+  const name = cell('passengerName');
+  const passengerName = present('passengerName')
+    ? check('passengerName', PassengerNameSchema, name === name.toUpperCase() ? toNameCase(name) : name)
+    : undefined;
+
+  let journeyDate: Date | undefined;
+  if (present('journeyDate')) {
+    const parsed = parseCsvDate(cell('journeyDate'), options.dateFormat);
+    if (parsed) {
+      journeyDate = check('journeyDate', JourneyDateSchema, parsed);
+    } else {
+      fail('journeyDate', `Date is not in ${options.dateFormat ?? 'YYYY-MM-DD or DD/MM/YYYY'} format`, ParseErrorCode.INVALID_DATE);
+    }
+  }
+
+  const station = (field: 'origin' | 'destination') => {
+    if (!present(field)) return undefined;
+    const code = parseCsvStation(cell(field));
+    if (code.isErr()) {
+      fail(field, code.error);
+      return undefined;
+    }
+    return code.value;
+  };
+  const origin = station('origin');
+  const destination = station('destination');
+  if (origin && origin === destination) {
+    fail('destination', 'Origin and destination are the same station');
+  }
+
+  const coach = present('coach') ? check('coach', CoachSchema, cell('coach').replace(/^0+(?=\d)/, '')) : undefined;
+  const seat = present('seat') ? check('seat', SeatSchema, cell('seat').replace(/^0+(?=\d)/, '')) : undefined;
+
+  let ticketPrice: number | undefined;
+  let currency: 'EUR' | 'GBP' | undefined;
+  if (present('ticketPrice')) {
+    const price = parsePriceCell(cell('ticketPrice'));
+    if (price.amount === null) {
+      fail('ticketPrice', 'Price is not a number');
+    } else {
+      ticketPrice = check('ticketPrice', TicketPriceSchema, price.amount);
+    }
+    currency = price.currency;
+  }
+  if (present('currency')) {
+    const marker = cell('currency').toLowerCase();
+    currency = check('currency', CurrencySchema, CURRENCY_MAP[marker] ?? marker.toUpperCase());
+  }
+  if (ticketPrice !== undefined && currency === undefined) {
+    fail('currency', 'A price needs a currency');
+  }
+
+  if (
+    errors.length > 0 ||
+    !pnr ||
+    !tcn ||
+    !trainNumber ||
+    !journeyDate ||
+    !passengerName ||
+    !origin ||
+    !destination
+  ) {
+    return err(errors);
+  }
+
+  return ok({
+    row,
+    pnr,
+    tcn,
+    trainNumber,
+    journeyDate,
+    passengerName,
+    origin,
+    destination,
+    coach,
+    seat,
+    ticketPrice,
+    currency: ticketPrice === undefined ? undefined : currency,
+  });
+}
+
+/**
+ * Builds the bookings for one PNR: one per train and date, with a
+ * passenger per TCN. The lead booker is the first passenger in the file.
+ */
+function buildCsvBooking(tickets: CsvTicket[]): Result<CsvBooking, CsvRowError> {
+  const first = tickets[0]!;
+  const leadTcn = first.tcn;
+  const trains = new Map<string, CsvTicket[]>();
+  for (const ticket of [...tickets].sort((a, b) => a.journeyDate.getTime() - b.journeyDate.getTime())) {
+    const key = `${ticket.trainNumber}|${ticket.journeyDate.getTime()}`;
+    trains.set(key, [...(trains.get(key) ?? []), ticket]);
+  }
+
+  const legs: ParsedBooking[] = [];
+  for (const legTickets of trains.values()) {
+    const passengers: ParsedPassenger[] = [];
+    // Lead booker first, then in file order; a TCN listed twice counts once
+    for (const ticket of [...legTickets].sort((a, b) => Number(b.tcn === leadTcn) - Number(a.tcn === leadTcn))) {
+      if (passengers.some((passenger) => passenger.tcn === ticket.tcn)) continue;
+      passengers.push({
+        passengerName: ticket.passengerName,
+        tcn: ticket.tcn,
+        coach: ticket.coach,
+        seat: ticket.seat,
+        ticketPrice: ticket.ticketPrice,
+        currency: ticket.currency,
+      });
+    }
+
+    const leg = legTickets[0]!;
+    const lead = passengers[0]!;
+    const booking: ParsedBooking = {
+      pnr: first.pnr,
+      tcn: lead.tcn,
+      trainNumber: leg.trainNumber,
+      journeyDate: leg.journeyDate,
+      passengerName: lead.passengerName,
+      origin: leg.origin,
+      destination: leg.destination,
+      coach: lead.coach,
+      seat: lead.seat,
+      ticketPrice: lead.ticketPrice,
+      currency: lead.currency,
+      passengers,
+      legs: [
+        {
+          trainNumber: leg.trainNumber,
+          journeyDate: leg.journeyDate,
+          origin: leg.origin,
+          destination: leg.destination,
+          coach: lead.coach,
+          seat: lead.seat,
+        },
+      ],
+    };
+
+    const validation = safeValidateBooking(booking);
+    if (!validation.success) {
+      const issue = validation.error.issues[0];
+      return err({
+        ...createParseError(
+          ParseErrorCode.VALIDATION_FAILED,
+          issue?.message ?? 'Validation failed',
+          issue?.path.join('.')
+        ),
+        row: leg.row,
+      });
+    }
+    legs.push(booking);
+  }
+
+  return ok({ rows: tickets.map((ticket) => ticket.row), legs });
+}
+
+/**
+ * Reads bookings from a spreadsheet exported as CSV.
+ *
+ * Every row is checked on its own, so the errors list each problem in the
+ * file. A PNR with any invalid row is left out of the bookings.
+ *
+ * @param text - The CSV text, with a header row
+ * @param options - Column mapping, date format and delimiter
+ * @returns The bookings and row errors, or why the file can't be read at all
+ */
+export function parseBookingCsv(
+  text: string,
+  options: CsvImportOptions = {}
+): Result<CsvBookingImport, ParseError> {
+  const [header, ...rows] = parseCsvRows(text, options.delimiter ? { delimiter: options.delimiter } : {});
+  if (!header || rows.length === 0) {
+    return err(createParseError(ParseErrorCode.EMPTY_INPUT, 'The file has no bookings'));
+  }
+
+  const columns = mapColumns(header, options.columns);
+  if (columns.isErr()) {
+    return err(columns.error);
+  }
+
+  const errors: CsvRowError[] = [];
+  const byPnr = new Map<string, CsvTicket[]>();
+  const invalidPnrs = new Set<string>();
+
+  rows.forEach((fields, index) => {
+    const row = index + 2;
+    const ticket = readRow(fields, row, columns.value, options);
+    if (ticket.isErr()) {
+      errors.push(...ticket.error);
+      const pnrIndex = columns.value.pnr;
+      const pnr = pnrIndex === undefined ? '' : (fields[pnrIndex] ?? '').trim().toUpperCase();
+      if (pnr) invalidPnrs.add(pnr);
+      return;
+    }
+    byPnr.set(ticket.value.pnr, [...(byPnr.get(ticket.value.pnr) ?? []), ticket.value]);
+  });
+
+  const bookings: CsvBooking[] = [];
+  for (const [pnr, tickets] of byPnr) {
+    if (invalidPnrs.has(pnr)) continue;
+
+    const booking = buildCsvBooking(tickets);
+    if (booking.isErr()) {
+      errors.push(booking.error);
+      continue;
+    }
+    bookings.push(booking.value);
+  }
+
+  errors.sort((a, b) => a.row - b.row);
+  return ok({ bookings, errors });
+}
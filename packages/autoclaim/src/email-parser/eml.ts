@@ -0,0 +1,61 @@
+/**
+ * Booking import from raw email files (.eml).
+ */
+
+import { Result, err } from '@eurostar/core/result';
+import {
+  getMimeBody,
+  MimeFormatError,
+  parseMimeMessage,
+  type MimeMessage,
+} from '@eurostar/core/formats';
+import { parseBookingEmail } from './parser.js';
+import { ParsedBooking, ParseError, ParseErrorCode, createParseError } from './types.js';
+
+/**
+ * Lists a message and the messages attached to it, outermost first.
+ */
+function collectMessages(message: MimeMessage): MimeMessage[] {
+  return [message, ...message.attachedMessages.flatMap(collectMessages)];
+}
+
+/**
+ * Parses a booking from a raw MIME email, such as a saved .eml file.
+ *
+ * The HTML body is preferred, with the plain-text body as a fallback. When
+ * the confirmation was forwarded as an attachment, the attached messages
+ * are tried after the outer one.
+ *
+ * @param raw - The raw message bytes
+ * @returns The parsed booking, or the error from the first message with a body
+ */
+export function parseBookingEml(raw: Buffer): Result<ParsedBooking, ParseError> {
+  let message: MimeMessage;
+  try {
+    message = parseMimeMessage(raw);
+  } catch (error) {
+    if (error instanceof MimeFormatError) {
+      return err(createParseError(ParseErrorCode.INVALID_EMAIL_FILE, error.message));
+    }
+    throw error;
+  }
+
+  let firstError: ParseError | undefined;
+  for (const candidate of collectMessages(message)) {
+    const body = getMimeBody(candidate);
+    const content = body.html ?? body.text;
+    if (!content?.trim()) {
+      continue;
+    }
+
+    const result = parseBookingEmail(content);
+    if (result.isOk()) {
+      return result;
+    }
+    firstError ??= result.error;
+  }
+
+  return err(
+    firstError ?? createParseError(ParseErrorCode.EMPTY_INPUT, 'Email has no text or HTML body')
+  );
+}
@@ -0,0 +1,277 @@
+/**
+ * Booking import from PDF e-tickets.
+ *
+ * Each page of a Eurostar e-ticket is one passenger's ticket for one train,
+ * and carries the TCN, coach and seat more reliably than the confirmation
+ * email.
+ */
+
+import { Result, ok, err } from '@eurostar/core/result';
+import { extractPdfText, PdfFormatError } from '@eurostar/core/formats';
+import {
+  ParsedBooking,
+  ParsedETicket,
+  ParsedJourneyLeg,
+  ParsedPassenger,
+  ParseError,
+  ParseErrorCode,
+  createParseError,
+} from './types.js';
+import { DATE_PATTERNS, ETICKET_PATTERNS, MONTH_MAP, TCN_PATTERN, normalizeStation } from './patterns.js';
+import { safeValidateBooking } from './validator.js';
+
+/**
+ * Turns a name printed in capitals into "Mr John Smith" form.
+ */
+export function toNameCase(name: string): string {
+  return name
+    .toLowerCase()
+    .replace(/\s+/g, ' ')
+    .replace(/(^|[ '-])(\p{L})/gu, (_, boundary: string, letter: string) => boundary + letter.toUpperCase());
+}
+
+/**
+ * Parses the journey date printed on a ticket.
+ */
+export function parseTicketDate(text: string): Date | null {
+  let match = text.match(ETICKET_PATTERNS.DATE);
+  if (match?.[1] && match[2] && match[3]) {
+    const prefix = match[2].toLowerCase();
+    const month = Object.entries(MONTH_MAP).find(([name]) => name.startsWith(prefix))?.[1];
+    if (month !== undefined) {
+      return new Date(Date.UTC(parseInt(match[3], 10), month, parseInt(match[1], 10)));
+    }
+  }
+
+  match = text.match(DATE_PATTERNS.ISO);
+  if (match?.[1] && match[2] && match[3]) {
+    return new Date(Date.UTC(parseInt(match[1], 10), parseInt(match[2], 10) - 1, parseInt(match[3], 10)));
+  }
+
+  match = text.match(DATE_PATTERNS.DMY_SLASH);
+  if (match?.[1] && match[2] && match[3]) {
+    return new Date(Date.UTC(parseInt(match[3], 10), parseInt(match[2], 10) - 1, parseInt(match[1], 10)));
+  }
+
+  return null;
+}
+
+/**
+ * Finds the origin and destination, from "From" / "To" lines or a
+ * "Origin → Destination" line.
+ */
+function extractRoute(text: string): { origin: string; destination: string } | null {
+  const from = text.match(ETICKET_PATTERNS.FROM)?.[1];
+  const to = text.match(ETICKET_PATTERNS.TO)?.[1];
+  if (from && to) {
+    return { origin: normalizeStation(from), destination: normalizeStation(to) };
+  }
+
+  const route = text.match(ETICKET_PATTERNS.ROUTE);
+  if (route?.[1] && route[2]) {
+    return { origin: normalizeStation(route[1]), destination: normalizeStation(route[2]) };
+  }
+
+  return null;
+}
+
+/**
+ * Parses the text of one e-ticket page.
+ *
+ * @param text - Text of the page, one printed line per line
+ * @returns The ticket, or the first required field that is missing
+ */
+export function parseETicketPage(text: string): Result<ParsedETicket, ParseError> {
+  const pnr = text.match(ETICKET_PATTERNS.PNR)?.[1]?.toUpperCase();
+  if (!pnr) {
+    return err(createParseError(ParseErrorCode.MISSING_PNR, 'Could not find booking reference (PNR)', 'pnr'));
+  }
+
+  const tcn = text.match(TCN_PATTERN)?.[1]?.toUpperCase();
+  if (!tcn) {
+    return err(createParseError(ParseErrorCode.MISSING_TCN, 'Could not find ticket control number (TCN)', 'tcn'));
+  }
+
+  const passengerName = text.match(ETICKET_PATTERNS.PASSENGER)?.[1];
+  if (!passengerName) {
+    return err(
+      createParseError(ParseErrorCode.MISSING_PASSENGER, 'Could not find passenger name', 'passengerName')
+    );
+  }
+
+  const trainNumber = text.match(ETICKET_PATTERNS.TRAIN)?.[1];
+  if (!trainNumber) {
+    return err(
+      createParseError(ParseErrorCode.MISSING_TRAIN_NUMBER, 'Could not find train number', 'trainNumber')
+    );
+  }
+
+  const journeyDate = parseTicketDate(text);
+  if (!journeyDate) {
+    return err(createParseError(ParseErrorCode.MISSING_DATE, 'Could not find journey date', 'journeyDate'));
+  }
+
+  const route = extractRoute(text);
+  if (!route) {
+    return err(createParseError(ParseErrorCode.MISSING_ORIGIN, 'Could not find origin station', 'origin'));
+  }
+
+  return ok({
+    pnr,
+    tcn,
+    passengerName: toNameCase(passengerName),
+    trainNumber,
+    journeyDate,
+    ...route,
+    coach: text.match(ETICKET_PATTERNS.COACH)?.[1],
+    seat: text.match(ETICKET_PATTERNS.SEAT)?.[1],
+  });
+}
+
+/**
+ * Reads every ticket in a PDF e-ticket file.
+ *
+ * Pages without a booking reference and TCN (terms and conditions, maps)
+ * are skipped, as are tickets for a different booking than the first.
+ *
+ * @param raw - The raw PDF bytes
+ * @returns The tickets in page order
+ */
+export function extractETickets(raw: Buffer): Result<ParsedETicket[], ParseError> {
+  let pages: string[];
+  try {
+    pages = extractPdfText(raw).pages;
+  } catch (error) {
+    if (error instanceof PdfFormatError) {
+      return err(createParseError(ParseErrorCode.INVALID_PDF_FILE, error.message));
+    }
+    throw error;
+  }
+
+  if (pages.every((page) => page.trim().length === 0)) {
+    return err(
+      createParseError(ParseErrorCode.EMPTY_INPUT, 'PDF has no text; scanned tickets are not supported')
+    );
+  }
+
+  const tickets: ParsedETicket[] = [];
+  let firstError: ParseError | undefined;
+  for (const page of pages) {
+    const result = parseETicketPage(page);
+    if (result.isOk()) {
+      if (!tickets[0] || tickets[0].pnr === result.value.pnr) {
+        tickets.push(result.value);
+      }
+    } else if (result.error.code !== ParseErrorCode.MISSING_PNR && result.error.code !== ParseErrorCode.MISSING_TCN) {
+      // A page that looks like a ticket but can't be read
+      return err(result.error);
+    } else {
+      firstError ??= result.error;
+    }
+  }
+
+  if (tickets.length === 0) {
+    return err(firstError ?? createParseError(ParseErrorCode.MISSING_PNR, 'PDF contains no tickets'));
+  }
+
+  return ok(tickets);
+}
+
+/**
+ * Combines the tickets of one booking (e-ticket pages or Wallet passes)
+ * into a ParsedBooking.
+ *
+ * Passengers are told apart by TCN and legs by train and date. A leg's
+ * coach and seat are the lead passenger's; each passenger's are from
+ * their first leg.
+ *
+ * @param tickets - Tickets with the same PNR
+ * @returns The booking, validated like a parsed email
+ */
+export function buildETicketBooking(tickets: ParsedETicket[]): Result<ParsedBooking, ParseError> {
+  const byDate = [...tickets].sort((a, b) => a.journeyDate.getTime() - b.journeyDate.getTime());
+  const first = byDate[0];
+  if (!first) {
+    return err(createParseError(ParseErrorCode.EMPTY_INPUT, 'No tickets to import'));
+  }
+
+  const passengers: ParsedPassenger[] = [];
+  const legs: ParsedJourneyLeg[] = [];
+  for (const ticket of byDate) {
+    if (!passengers.some((passenger) => passenger.tcn === ticket.tcn)) {
+      passengers.push({
+        passengerName: ticket.passengerName,
+        tcn: ticket.tcn,
+        coach: ticket.coach,
+        seat: ticket.seat,
+      });
+    }
+    if (
+      !legs.some(
+        (leg) =>
+          leg.trainNumber === ticket.trainNumber && leg.journeyDate.getTime() === ticket.journeyDate.getTime()
+      )
+    ) {
+      legs.push({
+        trainNumber: ticket.trainNumber,
+        journeyDate: ticket.journeyDate,
+        origin: ticket.origin,
+        destination: ticket.destination,
+      });
+    }
+  }
+
+  // Leg seats are the lead passenger's
+  const lead = passengers[0]!;
+  for (const leg of legs) {
+    const ticket = byDate.find(
+      (t) =>
+        t.tcn === lead.tcn &&
+        t.trainNumber === leg.trainNumber &&
+        t.journeyDate.getTime() === leg.journeyDate.getTime()
+    );
+    leg.coach = ticket?.coach;
+    leg.seat = ticket?.seat;
+  }
+  const firstLeg = legs[0]!;
+
+  const booking: ParsedBooking = {
+    pnr: first.pnr,
+    tcn: lead.tcn,
+    trainNumber: firstLeg.trainNumber,
+    journeyDate: firstLeg.journeyDate,
+    passengerName: lead.passengerName,
+    origin: firstLeg.origin,
+    destination: firstLeg.destination,
+    coach: lead.coach,
+    seat: lead.seat,
+    passengers,
+    legs,
+  };
+
+  const validation = safeValidateBooking(booking);
+  if (!validation.success) {
+    const firstIssue = validation.error.issues[0];
+    return err(
+      createParseError(
+        ParseErrorCode.VALIDATION_FAILED,
+        firstIssue?.message ?? 'Validation failed',
+        firstIssue?.path.join('.'),
+        undefined
+      )
+    );
+  }
+
+  return ok(booking);
+}
+
+/**
+ * Parses a booking from a PDF e-ticket file.
+ *
+ * @param raw - The raw PDF bytes
+ * @returns The parsed booking, or why the file couldn't be read
+ */
+export function parseETicketPdf(raw: Buffer): Result<ParsedBooking, ParseError> {
+  const tickets = extractETickets(raw);
+  return tickets.isOk() ? buildETicketBooking(tickets.value) : err(tickets.error);
+}
@@ -2,15 +2,46 @@
  * Email parser module for extracting booking information from Eurostar emails.
  */
 
-export { parseBookingEmail, preprocessEmail, stripHtml, cleanForwardedEmail } from './parser.js';
+export {
+  parseBookingEmail,
+  detectEmailLanguage,
+  splitJourneyLegs,
+  preprocessEmail,
+  stripHtml,
+  cleanForwardedEmail,
+} from './parser.js';
+export { buildParseReport } from './report.js';
+export { parseBookingEml } from './eml.js';
+export { parseETicketPdf, parseETicketPage, extractETickets, buildETicketBooking } from './eticket.js';
+export { parseBookingPkpass } from './pkpass.js';
+export { parseBookingCsv, parseCsvDate, parseCsvStation } from './csv.js';
 export { ParseErrorCode, createParseError } from './types.js';
-export type { ParsedBooking, ParseError } from './types.js';
+export type {
+  CsvBooking,
+  CsvBookingField,
+  CsvBookingImport,
+  CsvDateFormat,
+  CsvImportOptions,
+  CsvRowError,
+  FieldConfidence,
+  ParsedBooking,
+  ParsedETicket,
+  ParsedJourneyLeg,
+  ParsedPassenger,
+  ParseError,
+  ParseReport,
+  ReportField,
+} from './types.js';
 export {
   ParsedBookingSchema,
+  ParsedJourneyLegSchema,
+  ParsedPassengerSchema,
   PnrSchema,
   TcnSchema,
   TrainNumberSchema,
   JourneyDateSchema,
+  TicketPriceSchema,
+  CurrencySchema,
   validateBooking,
   safeValidateBooking,
 } from './validator.js';
@@ -18,11 +49,20 @@ export type { SafeParseResult } from './validator.js';
 export {
   PNR_PATTERN,
   TCN_PATTERN,
+  TCN_LIST_PATTERN,
   TRAIN_NUMBER_PATTERN,
   DATE_PATTERNS,
   COACH_PATTERN,
   SEAT_PATTERN,
+  PRICE_PATTERNS,
+  PASSENGER_LIST_PATTERN,
+  JOURNEY_LEG_PATTERN,
   STATION_MAP,
   STATION_ALIASES,
+  LANGUAGE_PATTERNS,
+  ETICKET_PATTERNS,
+  PASS_FIELD_PATTERNS,
+  detectLanguage,
   normalizeStation,
 } from './patterns.js';
+export type { EmailLanguage, LanguagePatterns } from './patterns.js';
@@ -6,21 +6,26 @@
  */
 
 import { Result, ok, err } from '@eurostar/core/result';
-import { ParsedBooking, ParseError, ParseErrorCode, createParseError } from './types.js';
 import {
-  PNR_PATTERN,
+  FieldMatch,
+  ParsedBooking,
+  ParsedJourneyLeg,
+  ParsedPassenger,
+  ParseError,
+  ParseErrorCode,
+  createParseError,
+} from './types.js';
+import {
   TCN_PATTERN,
-  TRAIN_NUMBER_PATTERN,
-  TRAIN_NUMBER_ALT_PATTERN,
+  TCN_LIST_PATTERN,
   DATE_PATTERNS,
-  MONTH_MAP,
-  COACH_PATTERN,
-  SEAT_PATTERN,
-  PASSENGER_PATTERN,
-  PASSENGER_ALT_PATTERN,
-  DEPARTS_PATTERN,
-  ARRIVES_PATTERN,
+  CURRENCY_MAP,
+  LANGUAGE_PATTERNS,
+  STATION_ALIASES,
+  detectLanguage,
   normalizeStation,
+  type EmailLanguage,
+  type LanguagePatterns,
 } from './patterns.js';
 import { safeValidateBooking } from './validator.js';
 
@@ -47,6 +52,8 @@ function stripHtml(html: string): string {
       .replace(/&gt;/gi, '>')
       .replace(/&quot;/gi, '"')
       .replace(/&#39;/gi, "'")
+      .replace(/&euro;/gi, '€')
+      .replace(/&pound;/gi, '£')
       // Clean up horizontal whitespace only (preserve newlines)
       .replace(/[ \t]+/g, ' ')
       .replace(/\n[ \t]+/g, '\n')
@@ -71,9 +78,12 @@ function cleanForwardedEmail(text: string): string {
       .replace(/^_{3,}.*$/gm, '')
       // Remove "On ... wrote:" lines
       .replace(/^On .+ wrote:$/gm, '')
-      // Remove "From:", "Sent:", "To:", "Subject:" header lines (common in forwarded emails)
+      .replace(/^(?:Le .+ a écrit|Op .+ schreef .+|Am .+ schrieb .+)\s?:$/gm, '')
+      // Remove "From:", "Sent:", "To:", "Subject:" header lines (common in forwarded emails),
+      // and their French, Dutch and German equivalents
       // Be careful not to remove "Date:" from booking content
       .replace(/^(From|Sent|To|Subject):\s*.+$/gm, '')
+      .replace(/^(De|Envoyé|À|Objet|Van|Verzonden|Aan|Onderwerp|Von|Gesendet|An|Betreff)\s?:\s*.+$/gm, '')
       // Only remove Date: header if it looks like an email header (has email-style date format)
       .replace(/^Date:\s*[A-Z][a-z]{2},\s+[A-Z][a-z]{2}\s+\d{1,2},\s+\d{4}\s+at\s+\d{1,2}:\d{2}\s*(AM|PM)?.*$/gim, '')
       // Clean up multiple blank lines
@@ -96,84 +106,105 @@ function preprocessEmail(emailBody: string): string {
   return text;
 }
 
+/**
+ * Finds PNR (Booking Reference) in email text.
+ */
+export function findPnr(text: string, patterns: LanguagePatterns): FieldMatch<string> | null {
+  const match = text.match(patterns.pnr);
+  return match?.[1] ? { value: match[1].toUpperCase(), pattern: 'pnr', confidence: 'high', match } : null;
+}
+
 /**
  * Extracts PNR (Booking Reference) from email text.
  */
-function extractPnr(text: string): string | null {
-  const match = text.match(PNR_PATTERN);
-  return match?.[1]?.toUpperCase() ?? null;
+function extractPnr(text: string, patterns: LanguagePatterns): string | null {
+  return findPnr(text, patterns)?.value ?? null;
+}
+
+/**
+ * Finds TCN (Ticket Control Number) in email text.
+ */
+export function findTcn(text: string): FieldMatch<string> | null {
+  const match = text.match(TCN_PATTERN);
+  return match?.[1] ? { value: match[1].toUpperCase(), pattern: 'tcn', confidence: 'high', match } : null;
 }
 
 /**
  * Extracts TCN (Ticket Control Number) from email text.
  */
 function extractTcn(text: string): string | null {
-  const match = text.match(TCN_PATTERN);
-  return match?.[1]?.toUpperCase() ?? null;
+  return findTcn(text)?.value ?? null;
 }
 
 /**
- * Extracts train number from email text.
+ * Finds the train number in email text. A bare number before "departs"
+ * is less certain than a labelled one.
  */
-function extractTrainNumber(text: string): string | null {
-  let match = text.match(TRAIN_NUMBER_PATTERN);
-  if (match?.[1]) return match[1];
+export function findTrainNumber(text: string, patterns: LanguagePatterns): FieldMatch<string> | null {
+  let match = text.match(patterns.trainNumber);
+  if (match?.[1]) return { value: match[1], pattern: 'trainNumber', confidence: 'high', match };
+
+  match = text.match(patterns.trainNumberAlt);
+  return match?.[1] ? { value: match[1], pattern: 'trainNumberAlt', confidence: 'medium', match } : null;
+}
 
-  match = text.match(TRAIN_NUMBER_ALT_PATTERN);
-  return match?.[1] ?? null;
+/**
+ * Extracts train number from email text.
+ */
+function extractTrainNumber(text: string, patterns: LanguagePatterns): string | null {
+  return findTrainNumber(text, patterns)?.value ?? null;
 }
 
 /**
- * Parses a date string in various formats.
+ * Numeric date formats, tried after the language's month-name formats.
+ * `order` lists the capture groups holding the day, month and year.
  */
-function parseDate(text: string): Date | null {
-  // Try DMY long format: 05 January 2026
-  let match = text.match(DATE_PATTERNS.DMY_LONG);
+const NUMERIC_DATE_FORMATS = [
+  { pattern: 'ISO', regex: DATE_PATTERNS.ISO, order: [3, 2, 1] },
+  { pattern: 'DMY_SLASH', regex: DATE_PATTERNS.DMY_SLASH, order: [1, 2, 3] },
+  { pattern: 'DMY_DASH', regex: DATE_PATTERNS.DMY_DASH, order: [1, 2, 3] },
+  { pattern: 'DMY_DOT', regex: DATE_PATTERNS.DMY_DOT, order: [1, 2, 3] },
+] as const;
+
+/**
+ * Finds the journey date in email text. Dates with a month name or in ISO
+ * form are unambiguous; other numeric dates are read day first.
+ */
+export function findJourneyDate(text: string, patterns: LanguagePatterns): FieldMatch<Date> | null {
+  // Try DMY long format: 05 January 2026, 1er mars 2026, 5. März 2026
+  let match = text.match(patterns.dmyLong);
   if (match?.[1] && match[2] && match[3]) {
     const day = parseInt(match[1], 10);
-    const month = MONTH_MAP[match[2].toLowerCase()];
+    const month = patterns.months[match[2].toLowerCase()];
     const year = parseInt(match[3], 10);
     if (month !== undefined) {
-      return new Date(Date.UTC(year, month, day));
+      return { value: new Date(Date.UTC(year, month, day)), pattern: 'dmyLong', confidence: 'high', match };
     }
   }
 
   // Try MDY long format: January 05, 2026
-  match = text.match(DATE_PATTERNS.MDY_LONG);
+  match = patterns.mdyLong ? text.match(patterns.mdyLong) : null;
   if (match?.[1] && match[2] && match[3]) {
-    const month = MONTH_MAP[match[1].toLowerCase()];
+    const month = patterns.months[match[1].toLowerCase()];
     const day = parseInt(match[2], 10);
     const year = parseInt(match[3], 10);
     if (month !== undefined) {
-      return new Date(Date.UTC(year, month, day));
+      return { value: new Date(Date.UTC(year, month, day)), pattern: 'mdyLong', confidence: 'high', match };
     }
   }
 
-  // Try ISO format: 2026-01-05
-  match = text.match(DATE_PATTERNS.ISO);
-  if (match?.[1] && match[2] && match[3]) {
-    const year = parseInt(match[1], 10);
-    const month = parseInt(match[2], 10) - 1;
-    const day = parseInt(match[3], 10);
-    return new Date(Date.UTC(year, month, day));
-  }
-
-  // Try DMY slash format: 05/01/2026
-  match = text.match(DATE_PATTERNS.DMY_SLASH);
-  if (match?.[1] && match[2] && match[3]) {
-    const day = parseInt(match[1], 10);
-    const month = parseInt(match[2], 10) - 1;
-    const year = parseInt(match[3], 10);
-    return new Date(Date.UTC(year, month, day));
-  }
-
-  // Try DMY dash format: 05-01-2026
-  match = text.match(DATE_PATTERNS.DMY_DASH);
-  if (match?.[1] && match[2] && match[3]) {
-    const day = parseInt(match[1], 10);
-    const month = parseInt(match[2], 10) - 1;
-    const year = parseInt(match[3], 10);
-    return new Date(Date.UTC(year, month, day));
+  // Try numeric formats: 2026-01-05, 05/01/2026, 05-01-2026, 05.01.2026
+  for (const { pattern, regex, order } of NUMERIC_DATE_FORMATS) {
+    const numeric = text.match(regex);
+    const [day, month, year] = order.map((group) => numeric?.[group]);
+    if (numeric && day && month && year) {
+      return {
+        value: new Date(Date.UTC(parseInt(year, 10), parseInt(month, 10) - 1, parseInt(day, 10))),
+        pattern,
+        confidence: pattern === 'ISO' ? 'high' : 'medium',
+        match: numeric,
+      };
+    }
   }
 
   return null;
@@ -182,76 +213,411 @@ function parseDate(text: string): Date | null {
 /**
  * Extracts journey date from email text.
  */
-function extractDate(text: string): Date | null {
-  return parseDate(text);
+function extractDate(text: string, patterns: LanguagePatterns): Date | null {
+  return findJourneyDate(text, patterns)?.value ?? null;
+}
+
+/**
+ * Finds the coach number in email text.
+ */
+export function findCoach(text: string, patterns: LanguagePatterns): FieldMatch<string> | null {
+  const match = text.match(patterns.coach);
+  return match?.[1] ? { value: match[1], pattern: 'coach', confidence: 'high', match } : null;
 }
 
 /**
  * Extracts coach number from email text.
  */
-function extractCoach(text: string): string | null {
-  const match = text.match(COACH_PATTERN);
-  return match?.[1] ?? null;
+function extractCoach(text: string, patterns: LanguagePatterns): string | null {
+  return findCoach(text, patterns)?.value ?? null;
+}
+
+/**
+ * Finds the seat number in email text.
+ */
+export function findSeat(text: string, patterns: LanguagePatterns): FieldMatch<string> | null {
+  const match = text.match(patterns.seat);
+  return match?.[1] ? { value: match[1], pattern: 'seat', confidence: 'high', match } : null;
 }
 
 /**
  * Extracts seat number from email text.
  */
-function extractSeat(text: string): string | null {
-  const match = text.match(SEAT_PATTERN);
-  return match?.[1] ?? null;
+function extractSeat(text: string, patterns: LanguagePatterns): string | null {
+  return findSeat(text, patterns)?.value ?? null;
 }
 
 /**
- * Extracts passenger name from email text.
+ * Parses an amount written with either "." or "," as the decimal separator.
+ * A separator followed by 1-2 trailing digits is the decimal point; any other
+ * separator groups thousands.
  */
-function extractPassengerName(text: string): string | null {
-  let match = text.match(PASSENGER_PATTERN);
-  if (match?.[1]) return match[1].trim();
+export function parseAmount(raw: string): number | null {
+  const trimmed = raw.replace(/[.,]+$/, '');
+  const decimalMatch = trimmed.match(/^(.*)[.,](\d{1,2})$/);
+  const whole = (decimalMatch?.[1] ?? trimmed).replace(/[.,]/g, '');
+  const fraction = decimalMatch?.[2] ?? '0';
+
+  if (!/^\d+$/.test(whole)) return null;
 
-  match = text.match(PASSENGER_ALT_PATTERN);
-  return match?.[1]?.trim() ?? null;
+  const amount = parseFloat(`${whole}.${fraction}`);
+  return Number.isFinite(amount) ? amount : null;
 }
 
 /**
- * Extracts origin station from email text.
+ * A fare with its currency.
+ */
+export interface Fare {
+  ticketPrice: number;
+  currency: 'EUR' | 'GBP';
+}
+
+/**
+ * Matches a price pattern in email text, with the matched text.
+ * Returns null unless both an amount and a currency are found.
  */
-function extractOrigin(text: string): string | null {
-  const match = text.match(DEPARTS_PATTERN);
-  if (match?.[1]) {
-    return normalizeStation(match[1]);
+function matchPriceText(text: string, pattern: RegExp): { fare: Fare; match: RegExpMatchArray } | null {
+  const match = text.match(pattern);
+  if (!match?.[2]) return null;
+
+  const marker = (match[1] ?? match[3])?.toLowerCase();
+  const currency = marker ? CURRENCY_MAP[marker] : undefined;
+  const ticketPrice = parseAmount(match[2]);
+
+  if (currency && ticketPrice !== null && ticketPrice > 0) {
+    return { fare: { ticketPrice, currency }, match };
   }
   return null;
 }
 
+/**
+ * Matches a price pattern in email text.
+ * Returns null unless both an amount and a currency are found.
+ */
+function matchPrice(text: string, pattern: RegExp): Fare | null {
+  return matchPriceText(text, pattern)?.fare ?? null;
+}
+
+/**
+ * Finds the fare paid in email text.
+ * Prefers a per-passenger price line; the booking total is only the fare
+ * for single-passenger bookings, so is less certain.
+ * Returns null unless both an amount and a currency are found.
+ */
+export function findPrice(text: string, patterns: LanguagePatterns): FieldMatch<Fare> | null {
+  const perPassenger = matchPriceText(text, patterns.prices.PER_PASSENGER);
+  if (perPassenger) {
+    return { value: perPassenger.fare, pattern: 'PER_PASSENGER', confidence: 'high', match: perPassenger.match };
+  }
+
+  const total = matchPriceText(text, patterns.prices.TOTAL);
+  return total ? { value: total.fare, pattern: 'TOTAL', confidence: 'medium', match: total.match } : null;
+}
+
+/**
+ * Extracts the fare paid from email text.
+ * Prefers a per-passenger price line and falls back to the booking total.
+ * Returns null unless both an amount and a currency are found.
+ */
+function extractPrice(text: string, patterns: LanguagePatterns): Fare | null {
+  return findPrice(text, patterns)?.value ?? null;
+}
+
+/**
+ * Extracts the fare that applies to each of several passengers without
+ * their own fare line: the per-passenger price, or the total split evenly.
+ */
+function extractSharedPrice(
+  text: string,
+  passengerCount: number,
+  patterns: LanguagePatterns
+): Fare | null {
+  const perPassenger = matchPrice(text, patterns.prices.PER_PASSENGER);
+  if (perPassenger) return perPassenger;
+
+  const total = matchPrice(text, patterns.prices.TOTAL);
+  if (!total) return null;
+
+  return {
+    ticketPrice: Math.round((total.ticketPrice / passengerCount) * 100) / 100,
+    currency: total.currency,
+  };
+}
+
+/**
+ * Finds the lead passenger's name in email text. A name found by its
+ * title ("Mr", "Mme") rather than a label is less certain.
+ */
+export function findPassengerName(text: string, patterns: LanguagePatterns): FieldMatch<string> | null {
+  let match = text.match(patterns.passenger);
+  if (match?.[1]) return { value: match[1].trim(), pattern: 'passenger', confidence: 'high', match };
+
+  match = text.match(patterns.passengerAlt);
+  return match?.[1] ? { value: match[1].trim(), pattern: 'passengerAlt', confidence: 'medium', match } : null;
+}
+
+/**
+ * Extracts passenger name from email text.
+ */
+function extractPassengerName(text: string, patterns: LanguagePatterns): string | null {
+  return findPassengerName(text, patterns)?.value ?? null;
+}
+
+/**
+ * Splits email text into one section per labelled passenger.
+ * Each section runs from the passenger's name to the next passenger.
+ */
+function findPassengerSections(
+  text: string,
+  patterns: LanguagePatterns
+): Array<{ passengerName: string; section: string }> {
+  const matches = [...text.matchAll(patterns.passengerList)];
+  return matches.map((match, i) => ({
+    passengerName: match[1]!.trim(),
+    section: text.slice(match.index ?? 0, matches[i + 1]?.index ?? text.length),
+  }));
+}
+
+/**
+ * Finds the distinct TCNs in email text, in order of appearance.
+ */
+function extractAllTcns(text: string): string[] {
+  return [...new Set([...text.matchAll(TCN_LIST_PATTERN)].map((match) => match[1]!.toUpperCase()))];
+}
+
+/**
+ * Extracts every passenger from a multi-passenger booking.
+ *
+ * Ticket, seat and fare are read from each passenger's own section. A
+ * passenger whose section doesn't hold exactly one TCN takes the TCN in the
+ * same position among all TCNs in the email. Passengers repeated with the
+ * same name and TCN (e.g. listed in a summary and again in the details) are
+ * kept once.
+ *
+ * @param text - Preprocessed email text
+ * @param lead - The lead booker, returned alone for single-passenger bookings
+ * @param patterns - Patterns for the email's language
+ * @returns All passengers, lead booker first
+ */
+function extractPassengers(
+  text: string,
+  lead: ParsedPassenger,
+  patterns: LanguagePatterns
+): Result<ParsedPassenger[], ParseError> {
+  const sections = findPassengerSections(text, patterns);
+  if (sections.length < 2) {
+    return ok([lead]);
+  }
+
+  const allTcns = extractAllTcns(text);
+  const sharedPrice = extractSharedPrice(text, sections.length, patterns);
+  const passengers: ParsedPassenger[] = [];
+  // Passenger name by TCN
+  const seen = new Map<string, string>();
+
+  for (const [i, { passengerName, section }] of sections.entries()) {
+    const sectionTcns = extractAllTcns(section);
+    const tcn = sectionTcns.length === 1 ? sectionTcns[0] : allTcns[i];
+    const holder = tcn ? seen.get(tcn) : undefined;
+    if (holder === passengerName) continue;
+    if (!tcn || holder) {
+      return err(
+        createParseError(
+          ParseErrorCode.MISSING_TCN,
+          `Could not find ticket control number (TCN) for ${passengerName}`,
+          `passengers.${i}.tcn`
+        )
+      );
+    }
+    seen.set(tcn, passengerName);
+
+    const price = matchPrice(section, patterns.prices.PASSENGER_FARE) ?? sharedPrice;
+    passengers.push({
+      passengerName,
+      tcn,
+      coach: extractCoach(section, patterns) ?? undefined,
+      seat: extractSeat(section, patterns) ?? undefined,
+      ticketPrice: price?.ticketPrice,
+      currency: price?.currency,
+    });
+  }
+
+  return ok(passengers);
+}
+
+/**
+ * Finds a labelled station in email text. Names that aren't a known
+ * station or alias are kept as written, with medium confidence.
+ */
+function findStation(text: string, pattern: RegExp, name: string): FieldMatch<string> | null {
+  const match = text.match(pattern);
+  if (!match?.[1]) return null;
+
+  const known = STATION_ALIASES[match[1].toLowerCase().trim()] !== undefined;
+  return { value: normalizeStation(match[1]), pattern: name, confidence: known ? 'high' : 'medium', match };
+}
+
+/**
+ * Finds the origin station in email text.
+ */
+export function findOrigin(text: string, patterns: LanguagePatterns): FieldMatch<string> | null {
+  return findStation(text, patterns.departs, 'departs');
+}
+
+/**
+ * Finds the destination station in email text.
+ */
+export function findDestination(text: string, patterns: LanguagePatterns): FieldMatch<string> | null {
+  return findStation(text, patterns.arrives, 'arrives');
+}
+
+/**
+ * Extracts origin station from email text.
+ */
+function extractOrigin(text: string, patterns: LanguagePatterns): string | null {
+  return findOrigin(text, patterns)?.value ?? null;
+}
+
 /**
  * Extracts destination station from email text.
  */
-function extractDestination(text: string): string | null {
-  const match = text.match(ARRIVES_PATTERN);
-  if (match?.[1]) {
-    return normalizeStation(match[1]);
+function extractDestination(text: string, patterns: LanguagePatterns): string | null {
+  return findDestination(text, patterns)?.value ?? null;
+}
+
+/**
+ * Extracts every journey leg from a return booking.
+ *
+ * Each leg runs from its heading ("Outbound", "Return", ...) to the next
+ * heading, and must name its own train, date and stations.
+ *
+ * @param text - Preprocessed email text
+ * @param patterns - Patterns for the email's language
+ * @returns The legs in order, or an empty array unless the email has at least two
+ */
+function extractJourneyLegs(
+  text: string,
+  patterns: LanguagePatterns
+): Result<ParsedJourneyLeg[], ParseError> {
+  const headings = [...text.matchAll(patterns.journeyLeg)];
+  if (headings.length < 2) {
+    return ok([]);
   }
-  return null;
+
+  const legs: ParsedJourneyLeg[] = [];
+  for (const [i, heading] of headings.entries()) {
+    const section = text.slice(heading.index ?? 0, headings[i + 1]?.index ?? text.length);
+    const label = heading[1]!.toLowerCase();
+
+    const trainNumber = extractTrainNumber(section, patterns);
+    if (!trainNumber) {
+      return err(
+        createParseError(
+          ParseErrorCode.MISSING_TRAIN_NUMBER,
+          `Could not find train number for ${label} journey`,
+          `legs.${i}.trainNumber`
+        )
+      );
+    }
+
+    const journeyDate = extractDate(section, patterns);
+    if (!journeyDate) {
+      return err(
+        createParseError(
+          ParseErrorCode.MISSING_DATE,
+          `Could not find journey date for ${label} journey`,
+          `legs.${i}.journeyDate`
+        )
+      );
+    }
+
+    const origin = extractOrigin(section, patterns);
+    if (!origin) {
+      return err(
+        createParseError(
+          ParseErrorCode.MISSING_ORIGIN,
+          `Could not find origin station for ${label} journey`,
+          `legs.${i}.origin`
+        )
+      );
+    }
+
+    const destination = extractDestination(section, patterns);
+    if (!destination) {
+      return err(
+        createParseError(
+          ParseErrorCode.MISSING_DESTINATION,
+          `Could not find destination station for ${label} journey`,
+          `legs.${i}.destination`
+        )
+      );
+    }
+
+    legs.push({
+      trainNumber,
+      journeyDate,
+      origin,
+      destination,
+      coach: extractCoach(section, patterns) ?? undefined,
+      seat: extractSeat(section, patterns) ?? undefined,
+    });
+  }
+
+  return ok(legs);
 }
 
 /**
- * Parses a Eurostar booking confirmation email.
+ * Splits a parsed booking into one booking per journey leg.
  *
- * @param emailBody - The raw email body (HTML or plain text)
- * @returns Result containing ParsedBooking or ParseError
+ * Fares on a confirmation cover the whole trip, so each leg is given an
+ * equal share of every passenger's fare. Coach and seat are taken from the
+ * leg for a single traveller; on multi-passenger bookings the seats listed
+ * per passenger are kept for the first leg only, since the email doesn't
+ * say which leg they belong to.
+ *
+ * @param booking - A parsed booking
+ * @returns One booking per leg with a single entry in `legs`, outbound first
  */
-export function parseBookingEmail(emailBody: string): Result<ParsedBooking, ParseError> {
-  // Validate input
-  if (!emailBody || typeof emailBody !== 'string' || emailBody.trim().length === 0) {
-    return err(createParseError(ParseErrorCode.EMPTY_INPUT, 'Email body is empty or invalid'));
+export function splitJourneyLegs(booking: ParsedBooking): ParsedBooking[] {
+  if (booking.legs.length < 2) {
+    return [booking];
   }
 
-  // Preprocess the email
-  const text = preprocessEmail(emailBody);
+  const legCount = booking.legs.length;
+  const share = (price: number | undefined) =>
+    price === undefined ? undefined : Math.round((price / legCount) * 100) / 100;
+  const singleTraveller = booking.passengers.length === 1;
+
+  return booking.legs.map((leg, i) => {
+    const passengers = booking.passengers.map((passenger) => ({
+      ...passenger,
+      coach: singleTraveller ? leg.coach : i === 0 ? passenger.coach : undefined,
+      seat: singleTraveller ? leg.seat : i === 0 ? passenger.seat : undefined,
+      ticketPrice: share(passenger.ticketPrice),
+    }));
+    const lead = passengers[0]!;
+
+    return {
+      ...booking,
+      trainNumber: leg.trainNumber,
+      journeyDate: leg.journeyDate,
+      origin: leg.origin,
+      destination: leg.destination,
+      coach: lead.coach,
+      seat: lead.seat,
+      ticketPrice: lead.ticketPrice,
+      passengers,
+      legs: [leg],
+    };
+  });
+}
 
+/**
+ * Parses preprocessed email text with one language's patterns.
+ */
+function parseWithPatterns(text: string, patterns: LanguagePatterns): Result<ParsedBooking, ParseError> {
   // Extract required fields
-  const pnr = extractPnr(text);
+  const pnr = extractPnr(text, patterns);
   if (!pnr) {
     return err(createParseError(ParseErrorCode.MISSING_PNR, 'Could not find booking reference (PNR)', 'pnr'));
   }
@@ -261,31 +627,31 @@ export function parseBookingEmail(emailBody: string): Result<ParsedBooking, Pars
     return err(createParseError(ParseErrorCode.MISSING_TCN, 'Could not find ticket control number (TCN)', 'tcn'));
   }
 
-  const trainNumber = extractTrainNumber(text);
+  const trainNumber = extractTrainNumber(text, patterns);
   if (!trainNumber) {
     return err(
       createParseError(ParseErrorCode.MISSING_TRAIN_NUMBER, 'Could not find train number', 'trainNumber')
     );
   }
 
-  const journeyDate = extractDate(text);
+  const journeyDate = extractDate(text, patterns);
   if (!journeyDate) {
     return err(createParseError(ParseErrorCode.MISSING_DATE, 'Could not find journey date', 'journeyDate'));
   }
 
-  const passengerName = extractPassengerName(text);
+  const passengerName = extractPassengerName(text, patterns);
   if (!passengerName) {
     return err(
       createParseError(ParseErrorCode.MISSING_PASSENGER, 'Could not find passenger name', 'passengerName')
     );
   }
 
-  const origin = extractOrigin(text);
+  const origin = extractOrigin(text, patterns);
   if (!origin) {
     return err(createParseError(ParseErrorCode.MISSING_ORIGIN, 'Could not find origin station', 'origin'));
   }
 
-  const destination = extractDestination(text);
+  const destination = extractDestination(text, patterns);
   if (!destination) {
     return err(
       createParseError(ParseErrorCode.MISSING_DESTINATION, 'Could not find destination station', 'destination')
@@ -293,20 +659,52 @@ export function parseBookingEmail(emailBody: string): Result<ParsedBooking, Pars
   }
 
   // Extract optional fields
-  const coach = extractCoach(text) ?? undefined;
-  const seat = extractSeat(text) ?? undefined;
+  const price = extractPrice(text, patterns);
+
+  // Extract every traveller; the first is the lead booker
+  const passengersResult = extractPassengers(
+    text,
+    {
+      passengerName,
+      tcn,
+      coach: extractCoach(text, patterns) ?? undefined,
+      seat: extractSeat(text, patterns) ?? undefined,
+      ticketPrice: price?.ticketPrice,
+      currency: price?.currency,
+    },
+    patterns
+  );
+  if (passengersResult.isErr()) {
+    return err(passengersResult.error);
+  }
+  const passengers = passengersResult.value;
+  const lead = passengers[0]!;
+
+  // Extract the outbound and return legs; a one-way trip has a single leg
+  const legsResult = extractJourneyLegs(text, patterns);
+  if (legsResult.isErr()) {
+    return err(legsResult.error);
+  }
+  const legs = legsResult.value.length > 0
+    ? legsResult.value
+    : [{ trainNumber, journeyDate, origin, destination, coach: lead.coach, seat: lead.seat }];
+  const firstLeg = legs[0]!;
 
   // Build the booking object
   const booking: ParsedBooking = {
     pnr,
-    tcn,
-    trainNumber,
-    journeyDate,
-    passengerName,
-    origin,
-    destination,
-    coach,
-    seat,
+    tcn: lead.tcn,
+    trainNumber: firstLeg.trainNumber,
+    journeyDate: firstLeg.journeyDate,
+    passengerName: lead.passengerName,
+    origin: firstLeg.origin,
+    destination: firstLeg.destination,
+    coach: lead.coach,
+    seat: lead.seat,
+    ticketPrice: lead.ticketPrice,
+    currency: lead.currency,
+    passengers,
+    legs,
   };
 
   // Validate with Zod schema
@@ -326,5 +724,44 @@ export function parseBookingEmail(emailBody: string): Result<ParsedBooking, Pars
   return ok(booking);
 }
 
+/**
+ * Detects the language of a confirmation email.
+ *
+ * @param emailBody - The raw email body (HTML or plain text)
+ * @returns The detected language, English when unsure
+ */
+export function detectEmailLanguage(emailBody: string): EmailLanguage {
+  return detectLanguage(preprocessEmail(emailBody));
+}
+
+/**
+ * Parses a Eurostar booking confirmation email.
+ *
+ * The email's language is detected from its labels and parsed with that
+ * language's patterns. If that fails, the English patterns are tried before
+ * giving up, since some localized emails keep English labels.
+ *
+ * @param emailBody - The raw email body (HTML or plain text)
+ * @returns Result containing ParsedBooking or ParseError
+ */
+export function parseBookingEmail(emailBody: string): Result<ParsedBooking, ParseError> {
+  // Validate input
+  if (!emailBody || typeof emailBody !== 'string' || emailBody.trim().length === 0) {
+    return err(createParseError(ParseErrorCode.EMPTY_INPUT, 'Email body is empty or invalid'));
+  }
+
+  // Preprocess the email
+  const text = preprocessEmail(emailBody);
+
+  const language = detectLanguage(text);
+  const result = parseWithPatterns(text, LANGUAGE_PATTERNS[language]);
+  if (result.isOk() || language === 'en') {
+    return result;
+  }
+
+  const english = parseWithPatterns(text, LANGUAGE_PATTERNS.en);
+  return english.isOk() ? english : result;
+}
+
 // Re-export utilities for testing
 export { preprocessEmail, stripHtml, cleanForwardedEmail };
@@ -15,6 +15,11 @@ export const PNR_PATTERN = /(?:booking\s*reference|collection\s*reference|refere
  */
 export const TCN_PATTERN = /\b(IV\d{9}|15\d{9})\b/i;
 
+/**
+ * Pattern to match every TCN in an email (one per passenger).
+ */
+export const TCN_LIST_PATTERN = new RegExp(TCN_PATTERN.source, 'gi');
+
 /**
  * Pattern to match train number.
  * Matches 4 digits after "eurostar", "train", or "service".
@@ -47,6 +52,8 @@ export const DATE_PATTERNS = {
   ISO: /\b(\d{4})-(\d{2})-(\d{2})\b/,
   /** DD-MM-YYYY */
   DMY_DASH: /\b(\d{1,2})-(\d{1,2})-(\d{4})\b/,
+  /** DD.MM.YYYY, as written in German emails */
+  DMY_DOT: /\b(\d{1,2})\.(\d{1,2})\.(\d{4})\b/,
 } as const;
 
 /**
@@ -77,12 +84,69 @@ export const COACH_PATTERN = /\bcoach[:\s]*(\d{1,2})\b/i;
  */
 export const SEAT_PATTERN = /\bseat[:\s]*(\d{1,3})\b/i;
 
+/**
+ * Currency markers accepted around a price: symbol or ISO code.
+ */
+const CURRENCY = '(£|€|GBP|EUR)';
+
+/**
+ * Amount with optional thousands separators and decimals (1,234.50 or 1.234,50).
+ * Separators are resolved by the parser.
+ */
+const AMOUNT = '(\\d[\\d.,]*)';
+
+/**
+ * Patterns for fare extraction.
+ * The currency may come before or after the amount: "£245.00", "EUR 89", "89,50 €".
+ */
+export const PRICE_PATTERNS = {
+  /** Per-passenger fare: "Price per passenger: £120.00", "Fare per adult: 89,50 €" */
+  PER_PASSENGER: new RegExp(
+    `(?:price|fare|cost)\\s+per\\s+(?:passenger|person|adult|traveller)[:\\s]*${CURRENCY}?\\s*${AMOUNT}[ \\t]*${CURRENCY}?`,
+    'i'
+  ),
+  /** Booking total: "Total: £245.00", "Total paid: EUR 178.00", "Amount paid: 178,00 €" */
+  TOTAL: new RegExp(
+    `(?:total(?:\\s+(?:price|paid|cost|amount))?|amount\\s+paid)[:\\s]*${CURRENCY}?\\s*${AMOUNT}[ \\t]*${CURRENCY}?`,
+    'i'
+  ),
+  /** Fare line within one passenger's details: "Fare: £89.00", "Ticket price: 45,00 €" */
+  PASSENGER_FARE: new RegExp(
+    `^[ \\t]*(?:fare|price|ticket\\s+price)[:\\s]*${CURRENCY}?\\s*${AMOUNT}[ \\t]*${CURRENCY}?`,
+    'im'
+  ),
+} as const;
+
+/**
+ * Currency marker to ISO code mapping.
+ */
+export const CURRENCY_MAP: Record<string, 'EUR' | 'GBP'> = {
+  '£': 'GBP',
+  gbp: 'GBP',
+  '€': 'EUR',
+  eur: 'EUR',
+};
+
 /**
  * Pattern to match passenger name.
  * Matches common title prefixes followed by name, stopping at known keywords.
  */
 export const PASSENGER_PATTERN = /\b(?:passenger|name|traveller)[:\s]*((?:Mr|Mrs|Ms|Miss|Dr|Prof)?\.?\s*[A-Z][a-z]+(?:\s+[A-Z][a-z]+)+?)(?=\s*(?:$|\n|Coach|Seat|Class|Train|Date|Departs|Arrives))/i;
 
+/**
+ * Pattern to match every labelled passenger on a multi-passenger booking:
+ * "Passenger 1: Mr John Smith", "Traveller: Ms Ada Lovelace".
+ * Each match starts that passenger's details.
+ */
+export const PASSENGER_LIST_PATTERN = /\b(?:passenger|traveller)(?:\s*\d+|\s+name)?[:\s]*((?:Mr|Mrs|Ms|Miss|Dr|Prof)?\.?\s*[A-Z][a-z]+(?:\s+[A-Z][a-z]+)+?)(?=\s*(?:$|\n|Coach|Seat|Class|Ticket|Fare|Price|Train|Date|Departs|Arrives))/gi;
+
+/**
+ * Pattern to match the heading of each journey leg on a return booking:
+ * "Outbound", "Outbound journey:", "Return", "Inbound journey".
+ * Only matches a heading on its own line. Each match starts that leg's details.
+ */
+export const JOURNEY_LEG_PATTERN = /^[ \t]*(outbound|inbound|return)(?:[ \t]+journey)?[ \t]*:?[ \t]*$/gim;
+
 /**
  * Alternative pattern for passenger - matches title + name directly.
  * Stops at common booking keywords.
@@ -116,17 +180,37 @@ export const STATION_ALIASES: Record<string, string> = {
   'london st pancras': 'London St Pancras',
   'st pancras': 'London St Pancras',
   'st pancras international': 'London St Pancras',
+  'london st pancras international': 'London St Pancras',
+  "london st pancras int'l": 'London St Pancras',
   'london': 'London St Pancras',
   // Paris
   'paris gare du nord': 'Paris Gare du Nord',
   'paris nord': 'Paris Gare du Nord',
   'gare du nord': 'Paris Gare du Nord',
   'paris': 'Paris Gare du Nord',
+  'paris-nord': 'Paris Gare du Nord',
+  'parijs': 'Paris Gare du Nord',
+  'londres': 'London St Pancras',
+  'londres st pancras': 'London St Pancras',
+  'londres saint-pancras': 'London St Pancras',
+  'londen': 'London St Pancras',
+  'londen st pancras': 'London St Pancras',
+  'london st. pancras': 'London St Pancras',
   // Brussels
   'brussels midi': 'Brussels Midi/Zuid',
   'brussels zuid': 'Brussels Midi/Zuid',
+  'brussels midi/zuid': 'Brussels Midi/Zuid',
+  'brussels-midi/zuid': 'Brussels Midi/Zuid',
   'bruxelles midi': 'Brussels Midi/Zuid',
+  'bruxelles-midi': 'Brussels Midi/Zuid',
+  'brussel zuid': 'Brussels Midi/Zuid',
+  'brussel-zuid': 'Brussels Midi/Zuid',
+  'brüssel süd': 'Brussels Midi/Zuid',
+  'brüssel-süd': 'Brussels Midi/Zuid',
   'brussels': 'Brussels Midi/Zuid',
+  'bruxelles': 'Brussels Midi/Zuid',
+  'brussel': 'Brussels Midi/Zuid',
+  'brüssel': 'Brussels Midi/Zuid',
   // Amsterdam
   'amsterdam centraal': 'Amsterdam Centraal',
   'amsterdam': 'Amsterdam Centraal',
@@ -135,6 +219,7 @@ export const STATION_ALIASES: Record<string, string> = {
   'rotterdam': 'Rotterdam Centraal',
   // Lille
   'lille europe': 'Lille Europe',
+  'lille-europe': 'Lille Europe',
   'lille': 'Lille Europe',
   // Ebbsfleet
   'ebbsfleet': 'Ebbsfleet International',
@@ -172,3 +257,299 @@ export function normalizeStation(name: string): string {
   const normalized = name.toLowerCase().trim();
   return STATION_ALIASES[normalized] ?? name.trim();
 }
+
+/**
+ * Languages that booking confirmations are parsed in.
+ */
+export type EmailLanguage = 'en' | 'fr' | 'nl' | 'de';
+
+/**
+ * The patterns used to read one language's confirmation emails.
+ */
+export interface LanguagePatterns {
+  pnr: RegExp;
+  trainNumber: RegExp;
+  trainNumberAlt: RegExp;
+  /** Day month year with a month name */
+  dmyLong: RegExp;
+  /** Month day, year with a month name, where the language uses it */
+  mdyLong: RegExp | null;
+  /** Month name to number (0-11), keyed in lowercase */
+  months: Record<string, number>;
+  coach: RegExp;
+  seat: RegExp;
+  prices: { PER_PASSENGER: RegExp; TOTAL: RegExp; PASSENGER_FARE: RegExp };
+  passenger: RegExp;
+  passengerAlt: RegExp;
+  /** Global: one match per passenger */
+  passengerList: RegExp;
+  /** Global and multiline: one match per journey leg heading */
+  journeyLeg: RegExp;
+  departs: RegExp;
+  arrives: RegExp;
+}
+
+/**
+ * The labels that differ between languages, used to build their patterns.
+ * Longer labels go first where one is a prefix of another.
+ */
+interface LanguageLabels {
+  /** Words that mark an email as written in the language */
+  markers: string[];
+  reference: string[];
+  train: string[];
+  coach: string[];
+  seat: string[];
+  passenger: string[];
+  titles: string[];
+  class: string[];
+  date: string[];
+  departs: string[];
+  arrives: string[];
+  /** Journey leg headings, outbound first */
+  legs: string[];
+  perPassenger: string[];
+  total: string[];
+  fare: string[];
+  /** Month names, January first; alternate spellings follow the twelve */
+  months: string[];
+  /** Month of each alternate spelling */
+  monthVariants: Record<string, number>;
+}
+
+const FRENCH_LABELS: LanguageLabels = {
+  markers: ['réservation', 'voiture', 'place', 'passager', 'voyageur', 'départ', 'arrivée', 'aller', 'merci', 'billet'],
+  reference: ['référence de (?:la )?réservation', 'référence (?:du|de) dossier', 'numéro de réservation', 'référence'],
+  train: ['eurostar', 'train'],
+  coach: ['voiture'],
+  seat: ['siège', 'place'],
+  passenger: ['passager', 'voyageur', 'nom'],
+  titles: ['Mme', 'Mlle', 'M', 'Dr'],
+  class: ['classe'],
+  date: ['date'],
+  departs: ['départ'],
+  arrives: ['arrivée'],
+  legs: ['(?:trajet|voyage) aller', 'aller', '(?:trajet|voyage) retour', 'retour'],
+  perPassenger: ['(?:prix|tarif) par (?:passager|personne|adulte|voyageur)'],
+  total: ['montant total', 'montant payé', 'prix total', 'total payé', 'total'],
+  fare: ['prix du billet', 'tarif', 'prix'],
+  months: ['janvier', 'février', 'mars', 'avril', 'mai', 'juin', 'juillet', 'août', 'septembre', 'octobre', 'novembre', 'décembre', 'fevrier', 'aout', 'decembre'],
+  monthVariants: { fevrier: 1, aout: 7, decembre: 11 },
+};
+
+const DUTCH_LABELS: LanguageLabels = {
+  markers: ['boekingsreferentie', 'reservering', 'rijtuig', 'stoel', 'reiziger', 'vertrek', 'aankomst', 'heenreis', 'terugreis', 'bedankt'],
+  reference: ['boekingsreferentie', 'boekingsnummer', 'reserveringsnummer', 'referentie'],
+  train: ['eurostar', 'treinnummer', 'trein'],
+  coach: ['rijtuig'],
+  seat: ['zitplaats', 'stoel'],
+  passenger: ['reiziger', 'passagier', 'naam'],
+  titles: ['Dhr', 'Mevr', 'Mw', 'Dr'],
+  class: ['klasse'],
+  date: ['datum'],
+  departs: ['vertrek'],
+  arrives: ['aankomst'],
+  legs: ['heenreis', 'terugreis'],
+  perPassenger: ['prijs per (?:reiziger|persoon|volwassene|passagier)'],
+  total: ['totaalbedrag', 'totaalprijs', 'totaal betaald', 'betaald bedrag', 'totaal'],
+  fare: ['ticketprijs', 'tarief', 'prijs'],
+  months: ['januari', 'februari', 'maart', 'april', 'mei', 'juni', 'juli', 'augustus', 'september', 'oktober', 'november', 'december'],
+  monthVariants: {},
+};
+
+const GERMAN_LABELS: LanguageLabels = {
+  markers: ['buchungsnummer', 'buchung', 'wagen', 'sitzplatz', 'reisender', 'abfahrt', 'ankunft', 'hinfahrt', 'rückfahrt', 'vielen dank', 'fahrkarte'],
+  reference: ['buchungsnummer', 'buchungsreferenz', 'buchungscode', 'referenz'],
+  train: ['eurostar', 'zugnummer', 'zug'],
+  coach: ['wagen'],
+  seat: ['sitzplatz', 'platz'],
+  passenger: ['reisender', 'reisende', 'fahrgast', 'passagier', 'name'],
+  titles: ['Herr', 'Frau', 'Dr'],
+  class: ['klasse'],
+  date: ['datum'],
+  departs: ['abfahrt'],
+  arrives: ['ankunft'],
+  legs: ['hinfahrt', 'rückfahrt'],
+  perPassenger: ['preis pro (?:person|reisendem|reisender|erwachsenem|erwachsener|fahrgast)'],
+  total: ['gesamtbetrag', 'gesamtpreis', 'gesamtsumme', 'bezahlter betrag', 'gesamt', 'summe'],
+  fare: ['fahrpreis', 'ticketpreis', 'tarif', 'preis'],
+  months: ['januar', 'februar', 'märz', 'april', 'mai', 'juni', 'juli', 'august', 'september', 'oktober', 'november', 'dezember', 'maerz', 'marz'],
+  monthVariants: { maerz: 2, marz: 2 },
+};
+
+/**
+ * Letters allowed in localized names and stations, including Latin-1 accents.
+ */
+const LETTERS = 'A-Za-zÀ-ÖØ-öø-ÿ';
+
+/**
+ * One word of a name: "Dupont", "Hélène", "Jean-Pierre".
+ */
+const NAME_WORD = '[A-ZÀ-ÖØ-Þ][a-zß-öø-ÿ]+(?:-[A-ZÀ-ÖØ-Þ][a-zß-öø-ÿ]+)?';
+
+/**
+ * Spaces between an amount and a trailing currency, including the
+ * non-breaking spaces French emails put before "€".
+ */
+const PRICE_GAP = '[ \\t\\u00a0\\u202f]*';
+
+/**
+ * Matches any of the given labels as whole words.
+ * `\b` only knows ASCII letters, so accented labels need explicit guards.
+ */
+function word(labels: string[]): string {
+  return `(?<![${LETTERS}])(?:${labels.join('|')})(?![${LETTERS}])`;
+}
+
+/**
+ * Builds a language's patterns from its labels.
+ */
+function buildLanguagePatterns(labels: LanguageLabels): LanguagePatterns {
+  const titles = `(?:${labels.titles.join('|')})`;
+  const name = `${NAME_WORD}(?:\\s+${NAME_WORD})+?`;
+  const stop = (extra: string[]) =>
+    `(?=\\s*(?:$|\\n|${word([
+      ...labels.coach,
+      ...labels.seat,
+      ...labels.class,
+      ...labels.train,
+      ...labels.date,
+      ...labels.departs,
+      ...labels.arrives,
+      ...extra,
+      'coach',
+      'seat',
+    ])}))`;
+  const station = `([${LETTERS}\\s.'-]+?)(?:\\s+\\d{1,2}[:h\\d]*|\\s*$)`;
+  const price = (label: string) =>
+    `${label}[:\\s]*${CURRENCY}?\\s*${AMOUNT}${PRICE_GAP}${CURRENCY}?`;
+
+  return {
+    pnr: new RegExp(`${word(labels.reference)}[:\\s]*([A-Z0-9]{6})\\b`, 'i'),
+    trainNumber: new RegExp(`${word(labels.train)}(?:\\s*(?:n[°o]|nr)\\.?)?[:\\s#]*(\\d{4})\\b`, 'i'),
+    trainNumberAlt: new RegExp(`\\b(\\d{4})\\b(?=[ \\t]*${word(labels.departs)})`, 'i'),
+    dmyLong: new RegExp(`(?<!\\d)(\\d{1,2})(?:er|\\.)?\\s+(${labels.months.join('|')})\\s+(\\d{4})\\b`, 'i'),
+    mdyLong: null,
+    months: {
+      ...Object.fromEntries(labels.months.slice(0, 12).map((month, i) => [month, i])),
+      ...labels.monthVariants,
+    },
+    coach: new RegExp(`${word(labels.coach)}[:\\s]*(\\d{1,2})\\b`, 'i'),
+    seat: new RegExp(`${word(labels.seat)}[:\\s]*(\\d{1,3})\\b`, 'i'),
+    prices: {
+      PER_PASSENGER: new RegExp(price(word(labels.perPassenger)), 'i'),
+      TOTAL: new RegExp(price(word(labels.total)), 'i'),
+      PASSENGER_FARE: new RegExp(`^[ \\t]*${price(word(labels.fare))}`, 'im'),
+    },
+    passenger: new RegExp(`${word(labels.passenger)}[:\\s]*((?:${titles}\\.?\\s+)?${name})${stop([])}`, 'i'),
+    passengerAlt: new RegExp(`(?<![${LETTERS}])(${titles}\\.?\\s+${name})${stop([])}`, 'i'),
+    passengerList: new RegExp(
+      `${word(labels.passenger)}(?:\\s*\\d+)?[:\\s]*((?:${titles}\\.?\\s+)?${name})${stop([...labels.fare, 'billet', 'ticket'])}`,
+      'gi'
+    ),
+    journeyLeg: new RegExp(`^[ \\t]*(${labels.legs.join('|')})[ \\t]*:?[ \\t]*$`, 'gim'),
+    departs: new RegExp(`${word(labels.departs)}[:\\s]*${station}`, 'i'),
+    arrives: new RegExp(`${word(labels.arrives)}[:\\s]*${station}`, 'i'),
+  };
+}
+
+/**
+ * Pattern sets by language.
+ */
+export const LANGUAGE_PATTERNS: Record<EmailLanguage, LanguagePatterns> = {
+  en: {
+    pnr: PNR_PATTERN,
+    trainNumber: TRAIN_NUMBER_PATTERN,
+    trainNumberAlt: TRAIN_NUMBER_ALT_PATTERN,
+    dmyLong: DATE_PATTERNS.DMY_LONG,
+    mdyLong: DATE_PATTERNS.MDY_LONG,
+    months: MONTH_MAP,
+    coach: COACH_PATTERN,
+    seat: SEAT_PATTERN,
+    prices: PRICE_PATTERNS,
+    passenger: PASSENGER_PATTERN,
+    passengerAlt: PASSENGER_ALT_PATTERN,
+    passengerList: PASSENGER_LIST_PATTERN,
+    journeyLeg: JOURNEY_LEG_PATTERN,
+    departs: DEPARTS_PATTERN,
+    arrives: ARRIVES_PATTERN,
+  },
+  fr: buildLanguagePatterns(FRENCH_LABELS),
+  nl: buildLanguagePatterns(DUTCH_LABELS),
+  de: buildLanguagePatterns(GERMAN_LABELS),
+};
+
+/**
+ * Words that mark an email as written in each language.
+ */
+const LANGUAGE_MARKERS: Record<EmailLanguage, RegExp> = {
+  en: new RegExp(
+    word(['booking reference', 'coach', 'seat', 'passenger', 'departs', 'arrives', 'outbound', 'thank you']),
+    'gi'
+  ),
+  fr: new RegExp(word(FRENCH_LABELS.markers), 'gi'),
+  nl: new RegExp(word(DUTCH_LABELS.markers), 'gi'),
+  de: new RegExp(word(GERMAN_LABELS.markers), 'gi'),
+};
+
+/**
+ * Detects the language of a confirmation email from its labels.
+ * The language with the most marker words wins; ties go to English.
+ *
+ * @param text - Preprocessed email text
+ */
+export function detectLanguage(text: string): EmailLanguage {
+  let best: EmailLanguage = 'en';
+  let bestCount = 0;
+
+  for (const [language, pattern] of Object.entries(LANGUAGE_MARKERS) as Array<[EmailLanguage, RegExp]>) {
+    const count = text.match(pattern)?.length ?? 0;
+    if (count > bestCount) {
+      best = language;
+      bestCount = count;
+    }
+  }
+
+  return best;
+}
+
+/**
+ * Patterns for the text of PDF e-tickets. Each page is one passenger's
+ * ticket for one train, with the name printed in capitals and dates
+ * using abbreviated months.
+ */
+export const ETICKET_PATTERNS = {
+  /** Booking reference: "Booking ref. ABC123", "PNR ABC123" */
+  PNR: /\b(?:booking\s*ref(?:erence)?|reference|pnr)\.?[:\s]*([A-Z0-9]{6})\b/i,
+  /** Passenger line: "MR JOHN SMITH", optionally labelled */
+  PASSENGER: /^[ \t]*(?:(?:passenger|traveller|name)[:\s]+)?((?:MR|MRS|MS|MISS|DR|PROF)\.?[ \t]+[A-Z][A-Za-z'-]+(?:[ \t]+[A-Z][A-Za-z'-]+)+?)(?=[ \t]*(?:$|(?:ticket|tcn|coach|seat|class)\b))/im,
+  /** Train: "Train 9014", "Train no. 9014", "Train n° 9014" */
+  TRAIN: /\btrain(?:\s*(?:no\.?|number|n°))?[:\s]*(\d{4})\b/i,
+  /** Date with a full or abbreviated month: "12 Mar 2026", "12 March 2026" */
+  DATE: /\b(\d{1,2})\s+(Jan|Feb|Mar|Apr|May|Jun|Jul|Aug|Sep|Oct|Nov|Dec)[a-z]*\.?\s+(\d{4})\b/i,
+  /** Origin line: "From London St Pancras Int'l" */
+  FROM: /^[ \t]*(?:from|departure\s+station|departs?)[:\s]+(.+?)(?:[ \t]+\d{1,2}[:.h]\d{2})?[ \t]*$/im,
+  /** Destination line: "To Paris Gare du Nord" */
+  TO: /^[ \t]*(?:to|arrival\s+station|arrives?)[:\s]+(.+?)(?:[ \t]+\d{1,2}[:.h]\d{2})?[ \t]*$/im,
+  /** Route line: "London St Pancras Int'l → Paris Gare du Nord" */
+  ROUTE: /^[ \t]*(.+?)[ \t]*(?:→|->|>)[ \t]*(.+?)[ \t]*$/m,
+  /** Coach, ignoring zero padding: "Coach 05" */
+  COACH: /\bcoach[:\s]*0*(\d{1,2})\b/i,
+  /** Seat, ignoring zero padding: "Seat 061" */
+  SEAT: /\bseat[:\s]*0*(\d{1,3})\b/i,
+} as const;
+
+/**
+ * Patterns matched against the key or label of Wallet pass fields.
+ */
+export const PASS_FIELD_PATTERNS = {
+  PNR: /booking|reference|\bref\b|pnr/i,
+  TCN: /tcn|ticket\s*(?:number|no)|ticketnumber/i,
+  PASSENGER: /passenger|traveller|^name$/i,
+  TRAIN: /train/i,
+  DATE: /date/i,
+  ORIGIN: /origin|^from$|departure\s*station|departurestation/i,
+  DESTINATION: /destination|^to$|arrival\s*station|arrivalstation/i,
+  COACH: /coach|carriage/i,
+  SEAT: /seat/i,
+} as const;
@@ -0,0 +1,283 @@
+/**
+ * Booking import from Apple Wallet passes (.pkpass).
+ *
+ * A pass is a ZIP archive holding pass.json, a manifest of SHA-1 hashes and
+ * a signature. Eurostar issues one boarding pass per passenger per train; a
+ * .pkpasses bundle holds several. Google Wallet also saves passes in this
+ * format. The signature is not checked.
+ */
+
+import { createHash } from 'node:crypto';
+import { z } from 'zod';
+import { Result, ok, err } from '@eurostar/core/result';
+import { readZipEntries, ZipFormatError, type ZipEntry } from '@eurostar/core/formats';
+import {
+  ParsedBooking,
+  ParsedETicket,
+  ParseError,
+  ParseErrorCode,
+  createParseError,
+} from './types.js';
+import {
+  PASS_FIELD_PATTERNS,
+  PNR_PATTERN,
+  STATION_ALIASES,
+  STATION_MAP,
+  TCN_PATTERN,
+  normalizeStation,
+} from './patterns.js';
+import { buildETicketBooking, parseTicketDate, toNameCase } from './eticket.js';
+
+/**
+ * A field on the front or back of a pass.
+ */
+const PassFieldSchema = z.object({
+  key: z.string(),
+  label: z.string().optional(),
+  value: z.union([z.string(), z.number()]),
+});
+
+type PassField = z.infer<typeof PassFieldSchema>;
+
+/**
+ * The parts of pass.json used for import.
+ */
+const PassSchema = z.object({
+  formatVersion: z.literal(1),
+  serialNumber: z.string().optional(),
+  relevantDate: z.string().optional(),
+  barcode: z.object({ message: z.string() }).optional(),
+  barcodes: z.array(z.object({ message: z.string() })).optional(),
+  boardingPass: z.object({
+    transitType: z.string(),
+    headerFields: z.array(PassFieldSchema).optional(),
+    primaryFields: z.array(PassFieldSchema).optional(),
+    secondaryFields: z.array(PassFieldSchema).optional(),
+    auxiliaryFields: z.array(PassFieldSchema).optional(),
+    backFields: z.array(PassFieldSchema).optional(),
+  }),
+});
+
+type Pass = z.infer<typeof PassSchema>;
+
+const KNOWN_STATIONS = new Set(Object.values(STATION_MAP));
+
+function invalidPass(message: string): ParseError {
+  return createParseError(ParseErrorCode.INVALID_PASS_FILE, message);
+}
+
+/**
+ * Reads a ZIP archive, reporting damaged files as INVALID_PASS_FILE.
+ */
+function readArchive(raw: Buffer): Result<ZipEntry[], ParseError> {
+  try {
+    return ok(readZipEntries(raw));
+  } catch (error) {
+    // Truncated archives fail with out-of-range reads before a format error
+    if (error instanceof ZipFormatError || error instanceof RangeError) {
+      return err(invalidPass(`Not a Wallet pass: ${error.message}`));
+    }
+    throw error;
+  }
+}
+
+/**
+ * Checks pass.json against the manifest and parses it.
+ */
+function readPassJson(files: Map<string, Buffer>): Result<Pass, ParseError> {
+  const passJson = files.get('pass.json');
+  if (!passJson) {
+    return err(invalidPass('Not a Wallet pass: pass.json is missing'));
+  }
+
+  const manifestJson = files.get('manifest.json');
+  if (manifestJson) {
+    let manifest: unknown;
+    try {
+      manifest = JSON.parse(manifestJson.toString('utf-8'));
+    } catch {
+      return err(invalidPass('Pass manifest is not valid JSON'));
+    }
+    const expected = (manifest as Record<string, unknown>)['pass.json'];
+    const actual = createHash('sha1').update(passJson).digest('hex');
+    if (typeof expected === 'string' && expected.toLowerCase() !== actual) {
+      return err(invalidPass('Pass is damaged: pass.json does not match its manifest'));
+    }
+  }
+
+  let json: unknown;
+  try {
+    // Passes may start with a byte order mark
+    json = JSON.parse(passJson.toString('utf-8').replace(/^\uFEFF/, ''));
+  } catch {
+    return err(invalidPass('pass.json is not valid JSON'));
+  }
+
+  const pass = PassSchema.safeParse(json);
+  if (!pass.success) {
+    return err(invalidPass('Not a boarding pass'));
+  }
+  if (!/^PKTransitType(?:Train|Generic)$/.test(pass.data.boardingPass.transitType)) {
+    return err(invalidPass('Not a train boarding pass'));
+  }
+
+  return ok(pass.data);
+}
+
+/**
+ * Finds the first field whose key or label matches a pattern.
+ */
+function findField(fields: PassField[], pattern: RegExp): string | undefined {
+  const field = fields.find((f) => pattern.test(f.key) || (f.label !== undefined && pattern.test(f.label)));
+  return field === undefined ? undefined : String(field.value).trim();
+}
+
+/**
+ * Resolves a station field, where the city may be in the label and the
+ * station in the value ("LONDON" / "St Pancras"), or the value a code.
+ */
+function resolveStation(field: PassField): string {
+  const value = String(field.value).trim();
+  const code = STATION_MAP[value.toUpperCase()];
+  if (code) return code;
+
+  for (const candidate of [value, field.label, `${field.label ?? ''} ${value}`]) {
+    const station = candidate ? STATION_ALIASES[candidate.toLowerCase().trim()] : undefined;
+    if (station && KNOWN_STATIONS.has(station)) return station;
+  }
+
+  return normalizeStation(value);
+}
+
+/**
+ * Parses a pass date: a W3C date-time ("2026-03-12T08:01+01:00"), whose
+ * date part is the local departure date, or a date as printed.
+ */
+function parsePassDate(text: string): Date | null {
+  const dateTime = text.match(/^(\d{4})-(\d{2})-(\d{2})T/);
+  if (dateTime?.[1] && dateTime[2] && dateTime[3]) {
+    return new Date(Date.UTC(parseInt(dateTime[1], 10), parseInt(dateTime[2], 10) - 1, parseInt(dateTime[3], 10)));
+  }
+  return parseTicketDate(text);
+}
+
+/**
+ * Maps one pass to a ticket.
+ *
+ * Boarding passes show the origin and destination as the two primary
+ * fields; the other values are found by the key or label of their field,
+ * with the barcode message as a fallback for the PNR and TCN.
+ */
+function parsePass(pass: Pass): Result<ParsedETicket, ParseError> {
+  const { boardingPass } = pass;
+  const fields = [
+    ...(boardingPass.primaryFields ?? []),
+    ...(boardingPass.secondaryFields ?? []),
+    ...(boardingPass.auxiliaryFields ?? []),
+    ...(boardingPass.headerFields ?? []),
+    ...(boardingPass.backFields ?? []),
+  ];
+  const barcode = pass.barcodes?.[0]?.message ?? pass.barcode?.message ?? '';
+  const allText = [barcode, ...fields.map((f) => `${f.label ?? f.key}: ${f.value}`)].join('\n');
+
+  const pnrField = findField(fields, PASS_FIELD_PATTERNS.PNR);
+  const pnr = (/^[A-Z0-9]{6}$/i.test(pnrField ?? '') ? pnrField : allText.match(PNR_PATTERN)?.[1])?.toUpperCase();
+  if (!pnr) {
+    return err(createParseError(ParseErrorCode.MISSING_PNR, 'Could not find booking reference (PNR)', 'pnr'));
+  }
+
+  const tcn =
+    findField(fields, PASS_FIELD_PATTERNS.TCN)?.match(TCN_PATTERN)?.[1] ??
+    barcode.match(TCN_PATTERN)?.[1] ??
+    allText.match(TCN_PATTERN)?.[1];
+  if (!tcn) {
+    return err(createParseError(ParseErrorCode.MISSING_TCN, 'Could not find ticket control number (TCN)', 'tcn'));
+  }
+
+  const passengerName = findField(fields, PASS_FIELD_PATTERNS.PASSENGER);
+  if (!passengerName) {
+    return err(
+      createParseError(ParseErrorCode.MISSING_PASSENGER, 'Could not find passenger name', 'passengerName')
+    );
+  }
+
+  const trainNumber = findField(fields, PASS_FIELD_PATTERNS.TRAIN)?.match(/\b(\d{4})\b/)?.[1];
+  if (!trainNumber) {
+    return err(
+      createParseError(ParseErrorCode.MISSING_TRAIN_NUMBER, 'Could not find train number', 'trainNumber')
+    );
+  }
+
+  const dateText = findField(fields, PASS_FIELD_PATTERNS.DATE) ?? pass.relevantDate;
+  const journeyDate = dateText ? parsePassDate(dateText) : null;
+  if (!journeyDate) {
+    return err(createParseError(ParseErrorCode.MISSING_DATE, 'Could not find journey date', 'journeyDate'));
+  }
+
+  const primary = boardingPass.primaryFields ?? [];
+  const originField = fields.find((f) => PASS_FIELD_PATTERNS.ORIGIN.test(f.key)) ?? primary[0];
+  const destinationField = fields.find((f) => PASS_FIELD_PATTERNS.DESTINATION.test(f.key)) ?? primary[1];
+  if (!originField) {
+    return err(createParseError(ParseErrorCode.MISSING_ORIGIN, 'Could not find origin station', 'origin'));
+  }
+  if (!destinationField) {
+    return err(
+      createParseError(ParseErrorCode.MISSING_DESTINATION, 'Could not find destination station', 'destination')
+    );
+  }
+
+  return ok({
+    pnr,
+    tcn: tcn.toUpperCase(),
+    passengerName: passengerName === passengerName.toUpperCase() ? toNameCase(passengerName) : passengerName,
+    trainNumber,
+    journeyDate,
+    origin: resolveStation(originField),
+    destination: resolveStation(destinationField),
+    coach: findField(fields, PASS_FIELD_PATTERNS.COACH)?.match(/^0*(\d{1,2})$/)?.[1],
+    seat: findField(fields, PASS_FIELD_PATTERNS.SEAT)?.match(/^0*(\d{1,3})$/)?.[1],
+  });
+}
+
+/**
+ * Reads the ticket in a single pass archive.
+ */
+function readPass(entries: ZipEntry[]): Result<ParsedETicket, ParseError> {
+  const files = new Map(entries.map((entry) => [entry.name, entry.data]));
+  const pass = readPassJson(files);
+  return pass.isOk() ? parsePass(pass.value) : err(pass.error);
+}
+
+/**
+ * Parses a booking from a Wallet pass (.pkpass) or a bundle of passes
+ * (.pkpasses).
+ *
+ * Each pass is one passenger's ticket for one train; passes for a
+ * different booking than the first are ignored.
+ *
+ * @param raw - The raw file bytes
+ * @returns The parsed booking, or why the pass couldn't be read
+ */
+export function parseBookingPkpass(raw: Buffer): Result<ParsedBooking, ParseError> {
+  const archive = readArchive(raw);
+  if (archive.isErr()) {
+    return err(archive.error);
+  }
+
+  // A bundle is a ZIP of .pkpass files
+  const nested = archive.value.filter((entry) => entry.name.toLowerCase().endsWith('.pkpass'));
+  const passes = nested.length > 0 ? nested.map((entry) => readArchive(entry.data)) : [ok(archive.value)];
+
+  const tickets: ParsedETicket[] = [];
+  for (const entries of passes) {
+    const ticket = entries.isOk() ? readPass(entries.value) : err(entries.error);
+    if (ticket.isErr()) {
+      return err(ticket.error);
+    }
+    if (!tickets[0] || tickets[0].pnr === ticket.value.pnr) {
+      tickets.push(ticket.value);
+    }
+  }
+
+  return buildETicketBooking(tickets);
+}
@@ -0,0 +1,168 @@
+/**
+ * Field-by-field parse reports for confirmation emails.
+ *
+ * `parseBookingEmail` stops at the first required field it can't find. The
+ * report instead looks for every field on its own, so a form can be filled
+ * in with what was found and only the rest left for the user.
+ */
+
+import type { z } from 'zod';
+import { FieldMatch, ParsedBooking, ParseReport, ReportField } from './types.js';
+import { LANGUAGE_PATTERNS, detectLanguage, type LanguagePatterns } from './patterns.js';
+import {
+  findCoach,
+  findDestination,
+  findJourneyDate,
+  findOrigin,
+  findPassengerName,
+  findPnr,
+  findPrice,
+  findSeat,
+  findTcn,
+  findTrainNumber,
+  parseBookingEmail,
+  preprocessEmail,
+} from './parser.js';
+import {
+  CoachSchema,
+  CurrencySchema,
+  JourneyDateSchema,
+  PassengerNameSchema,
+  PnrSchema,
+  SeatSchema,
+  StationSchema,
+  TcnSchema,
+  TicketPriceSchema,
+  TrainNumberSchema,
+} from './validator.js';
+
+type ReportFields = ParseReport['fields'];
+
+/** Longest snippet kept from a line of the email */
+const MAX_SNIPPET_LENGTH = 120;
+
+/**
+ * A standalone 6-character code of capitals and digits, used as a guess
+ * when the booking reference isn't labelled.
+ */
+const PNR_GUESS_PATTERN = /\b((?=[A-Z0-9]{0,5}\d)(?=[A-Z0-9]{0,5}[A-Z])[A-Z0-9]{6})\b/;
+
+/**
+ * Guesses the booking reference from an unlabelled code.
+ */
+function guessPnr(text: string): FieldMatch<string> | null {
+  const match = text.match(PNR_GUESS_PATTERN);
+  return match?.[1] ? { value: match[1], pattern: 'pnrGuess', confidence: 'low', match } : null;
+}
+
+/**
+ * Returns the line of the searched text that a match is on.
+ */
+function snippetOf(match: RegExpMatchArray): string | null {
+  if (match.index === undefined || match.input === undefined) return null;
+
+  const start = match.input.lastIndexOf('\n', match.index) + 1;
+  const end = match.input.indexOf('\n', match.index + match[0].length);
+  const line = match.input.slice(start, end === -1 ? undefined : end).trim();
+  return line.length > MAX_SNIPPET_LENGTH ? `${line.slice(0, MAX_SNIPPET_LENGTH - 1)}…` : line;
+}
+
+/**
+ * Builds one report field.
+ *
+ * @param found - What the field's finder matched, if anything
+ * @param value - The value to report; the parsed booking's when there is one
+ * @param schema - The schema the value must pass
+ * @param required - Whether a booking can be created without the field
+ */
+function reportField<T>(
+  found: FieldMatch<unknown> | null,
+  value: T | null,
+  schema: z.ZodType,
+  required: boolean
+): ReportField<T> {
+  if (value === null) {
+    return { value: null, confidence: 'none', pattern: null, snippet: null, issue: required ? 'Not found' : null };
+  }
+
+  const validation = schema.safeParse(value);
+  return {
+    value,
+    confidence: found?.confidence ?? 'medium',
+    pattern: found?.pattern ?? null,
+    snippet: found ? snippetOf(found.match) : null,
+    issue: validation.success ? null : (validation.error.issues[0]?.message ?? 'Invalid value'),
+  };
+}
+
+/**
+ * Builds a field-by-field parse report for a confirmation email.
+ *
+ * Each field is looked for with the patterns of the email's language, then
+ * the English patterns. Where the email parses as a whole the report's
+ * values are the booking's, so they agree with what would be imported.
+ *
+ * @param emailBody - The raw email body (HTML or plain text)
+ * @returns The report, with the booking or the reason parsing failed
+ */
+export function buildParseReport(emailBody: string): ParseReport {
+  const result = parseBookingEmail(emailBody);
+  const booking: ParsedBooking | null = result.isOk() ? result.value : null;
+
+  const text = typeof emailBody === 'string' ? preprocessEmail(emailBody) : '';
+  const language = detectLanguage(text);
+
+  const find = <T>(finder: (text: string, patterns: LanguagePatterns) => FieldMatch<T> | null) =>
+    finder(text, LANGUAGE_PATTERNS[language]) ?? (language === 'en' ? null : finder(text, LANGUAGE_PATTERNS.en));
+
+  const pnr = find(findPnr) ?? guessPnr(text);
+  const tcn = findTcn(text);
+  const trainNumber = find(findTrainNumber);
+  const journeyDate = find(findJourneyDate);
+  const passengerName = find(findPassengerName);
+  const origin = find(findOrigin);
+  const destination = find(findDestination);
+  const coach = find(findCoach);
+  const seat = find(findSeat);
+  const price = find(findPrice);
+
+  const pick = <K extends keyof ParsedBooking, T>(key: K, found: FieldMatch<T> | null) =>
+    booking ? (booking[key] ?? null) : (found?.value ?? null);
+
+  const fields: ReportFields = {
+    pnr: reportField(pnr, pick('pnr', pnr), PnrSchema, true),
+    tcn: reportField(tcn, pick('tcn', tcn), TcnSchema, true),
+    trainNumber: reportField(trainNumber, pick('trainNumber', trainNumber), TrainNumberSchema, true),
+    journeyDate: reportField(journeyDate, pick('journeyDate', journeyDate), JourneyDateSchema, true),
+    passengerName: reportField(passengerName, pick('passengerName', passengerName), PassengerNameSchema, true),
+    origin: reportField(origin, pick('origin', origin), StationSchema, true),
+    destination: reportField(destination, pick('destination', destination), StationSchema, true),
+    coach: reportField(coach, pick('coach', coach), CoachSchema, false),
+    seat: reportField(seat, pick('seat', seat), SeatSchema, false),
+    ticketPrice: reportField(
+      price,
+      booking ? (booking.ticketPrice ?? null) : (price?.value.ticketPrice ?? null),
+      TicketPriceSchema,
+      false
+    ),
+    currency: reportField(
+      price,
+      booking ? (booking.currency ?? null) : (price?.value.currency ?? null),
+      CurrencySchema,
+      false
+    ),
+  };
+
+  const needsReview = (Object.keys(fields) as Array<keyof ReportFields>).filter((name) => {
+    const field = fields[name];
+    return field.issue !== null || field.confidence === 'low';
+  });
+
+  return {
+    language,
+    fields,
+    needsReview,
+    booking,
+    error: result.isErr() ? result.error : null,
+  };
+}
@@ -2,8 +2,52 @@
  * Types for the booking email parser.
  */
 
+import type { EmailLanguage } from './patterns.js';
+
+/**
+ * A traveller on a booking. Each has their own ticket and fare.
+ */
+export interface ParsedPassenger {
+  /** Passenger name as shown on booking */
+  passengerName: string;
+  /** Ticket Control Number - IV + 9 digits OR 15 + 9 digits */
+  tcn: string;
+  /** Coach number (optional) */
+  coach?: string | undefined;
+  /** Seat number (optional) */
+  seat?: string | undefined;
+  /** Fare paid for this passenger (optional) */
+  ticketPrice?: number | undefined;
+  /** Currency of the fare, set together with ticketPrice (optional) */
+  currency?: 'EUR' | 'GBP' | undefined;
+}
+
+/**
+ * One train journey on a booking. Return bookings have an outbound and an
+ * inbound leg.
+ */
+export interface ParsedJourneyLeg {
+  /** 4-digit train number */
+  trainNumber: string;
+  /** Journey date (UTC) */
+  journeyDate: Date;
+  /** Origin station name or code */
+  origin: string;
+  /** Destination station name or code */
+  destination: string;
+  /** Coach number shown for this leg (optional) */
+  coach?: string | undefined;
+  /** Seat number shown for this leg (optional) */
+  seat?: string | undefined;
+}
+
 /**
  * Parsed booking information extracted from a Eurostar confirmation email.
+ *
+ * The top-level passenger fields describe the lead booker; `passengers`
+ * lists every traveller on the booking, lead booker first. The top-level
+ * journey fields describe the first leg; `legs` lists every leg in order,
+ * and fares cover the whole trip.
  */
 export interface ParsedBooking {
   /** Booking Reference (PNR) - 6 alphanumeric characters */
@@ -24,6 +68,161 @@ export interface ParsedBooking {
   coach?: string | undefined;
   /** Seat number (optional) */
   seat?: string | undefined;
+  /** Fare paid for this passenger (optional) */
+  ticketPrice?: number | undefined;
+  /** Currency of the fare, set together with ticketPrice (optional) */
+  currency?: 'EUR' | 'GBP' | undefined;
+  /** All travellers on the booking, lead booker first */
+  passengers: ParsedPassenger[];
+  /** All journey legs on the booking, outbound first */
+  legs: ParsedJourneyLeg[];
+}
+
+/**
+ * A single passenger's ticket for one train, from a page of a PDF e-ticket
+ * or a Wallet pass.
+ */
+export interface ParsedETicket {
+  /** Booking Reference (PNR) */
+  pnr: string;
+  /** Ticket Control Number */
+  tcn: string;
+  /** Passenger name as printed, e.g. "MR JOHN SMITH" */
+  passengerName: string;
+  /** 4-digit train number */
+  trainNumber: string;
+  /** Journey date (UTC) */
+  journeyDate: Date;
+  /** Origin station name */
+  origin: string;
+  /** Destination station name */
+  destination: string;
+  /** Coach number (optional) */
+  coach?: string | undefined;
+  /** Seat number (optional) */
+  seat?: string | undefined;
+}
+
+/**
+ * Booking fields that can be read from a spreadsheet column.
+ */
+export type CsvBookingField =
+  | 'pnr'
+  | 'tcn'
+  | 'trainNumber'
+  | 'journeyDate'
+  | 'passengerName'
+  | 'origin'
+  | 'destination'
+  | 'coach'
+  | 'seat'
+  | 'ticketPrice'
+  | 'currency';
+
+/**
+ * How numeric dates in a spreadsheet are written. "/", "-" and "." are all
+ * accepted as separators.
+ */
+export type CsvDateFormat = 'YYYY-MM-DD' | 'DD/MM/YYYY' | 'MM/DD/YYYY';
+
+/**
+ * Options for reading bookings from a spreadsheet.
+ */
+export interface CsvImportOptions {
+  /** Header of the column holding each field, where it isn't a usual name */
+  columns?: Partial<Record<CsvBookingField, string>> | undefined;
+  /** How dates are written (default: ISO, otherwise day first) */
+  dateFormat?: CsvDateFormat | undefined;
+  /** Field delimiter (default: ",") */
+  delimiter?: string | undefined;
+}
+
+/**
+ * A problem with one row of a spreadsheet.
+ */
+export interface CsvRowError extends ParseError {
+  /** Row number as shown in a spreadsheet, the header being row 1 */
+  row: number;
+}
+
+/**
+ * One booking read from a spreadsheet: the rows sharing a PNR.
+ */
+export interface CsvBooking {
+  /** Rows the booking was read from */
+  rows: number[];
+  /** One booking per train, outbound first, with each passenger's own seat and fare */
+  legs: ParsedBooking[];
+}
+
+/**
+ * Bookings read from a spreadsheet, with the rows that couldn't be read.
+ */
+export interface CsvBookingImport {
+  bookings: CsvBooking[];
+  errors: CsvRowError[];
+}
+
+/**
+ * How sure the parser is of a field: "high" for a labelled match, "medium"
+ * for a looser pattern or an unrecognised station, "low" for a guess and
+ * "none" when nothing was found.
+ */
+export type FieldConfidence = 'high' | 'medium' | 'low' | 'none';
+
+/**
+ * A value found in email text, with the pattern that found it.
+ */
+export interface FieldMatch<T> {
+  value: T;
+  /** Name of the pattern that matched, e.g. "pnr" or "trainNumberAlt" */
+  pattern: string;
+  confidence: Exclude<FieldConfidence, 'none'>;
+  /** The matched text and its position in the searched text */
+  match: RegExpMatchArray;
+}
+
+/**
+ * One field of a parse report.
+ */
+export interface ReportField<T> {
+  /** The value found, or null */
+  value: T | null;
+  confidence: FieldConfidence;
+  /** Name of the pattern that found the value, or null */
+  pattern: string | null;
+  /** The line of the email the value was found on, or null */
+  snippet: string | null;
+  /** Why the value can't be used as it is, or null */
+  issue: string | null;
+}
+
+/**
+ * Field-by-field result of parsing a confirmation email, kept even when
+ * the booking as a whole can't be parsed.
+ */
+export interface ParseReport {
+  /** Language the email was read in */
+  language: EmailLanguage;
+  fields: {
+    pnr: ReportField<string>;
+    tcn: ReportField<string>;
+    trainNumber: ReportField<string>;
+    journeyDate: ReportField<Date>;
+    passengerName: ReportField<string>;
+    origin: ReportField<string>;
+    destination: ReportField<string>;
+    coach: ReportField<string>;
+    seat: ReportField<string>;
+    ticketPrice: ReportField<number>;
+    currency: ReportField<'EUR' | 'GBP'>;
+  };
+  /** Fields the user must check or fill in: missing, guessed or invalid */
+  needsReview: Array<keyof ParseReport['fields']>;
+  /** The parsed booking, or null when parsing failed */
+  booking: ParsedBooking | null;
+  /** Why parsing failed, or null */
+  error: ParseError | null;
 }
 
 /**
@@ -54,6 +253,16 @@ export const ParseErrorCode = {
   MISSING_DESTINATION: 'MISSING_DESTINATION',
   /** Email body is empty or invalid */
   EMPTY_INPUT: 'EMPTY_INPUT',
+  /** Uploaded email file is not a readable MIME message */
+  INVALID_EMAIL_FILE: 'INVALID_EMAIL_FILE',
+  /** Uploaded e-ticket is not a readable PDF */
+  INVALID_PDF_FILE: 'INVALID_PDF_FILE',
+  /** Uploaded Wallet pass is not a readable, intact boarding pass */
+  INVALID_PASS_FILE: 'INVALID_PASS_FILE',
+  /** Uploaded spreadsheet has no header row or lacks a required column */
+  INVALID_CSV_FILE: 'INVALID_CSV_FILE',
+  /** Email is not a recognised reply from Eurostar customer care */
+  UNRECOGNIZED_REPLY: 'UNRECOGNIZED_REPLY',
   /** General validation failure */
   VALIDATION_FAILED: 'VALIDATION_FAILED',
 } as const;
@@ -94,6 +94,45 @@ export const SeatSchema = z
   )
   .optional();
 
+/**
+ * Ticket price validation (optional).
+ * Must be a positive amount.
+ */
+export const TicketPriceSchema = z
+  .number()
+  .positive('Ticket price must be positive')
+  .max(100000, 'Ticket price is too large')
+  .optional();
+
+/**
+ * Fare currency validation (optional).
+ */
+export const CurrencySchema = z.enum(['EUR', 'GBP']).optional();
+
+/**
+ * Validation schema for one passenger on a booking.
+ */
+export const ParsedPassengerSchema = z.object({
+  passengerName: PassengerNameSchema,
+  tcn: TcnSchema,
+  coach: CoachSchema,
+  seat: SeatSchema,
+  ticketPrice: TicketPriceSchema,
+  currency: CurrencySchema,
+});
+
+/**
+ * Validation schema for one journey leg on a booking.
+ */
+export const ParsedJourneyLegSchema = z.object({
+  trainNumber: TrainNumberSchema,
+  journeyDate: JourneyDateSchema,
+  origin: StationSchema,
+  destination: StationSchema,
+  coach: CoachSchema,
+  seat: SeatSchema,
+});
+
 /**
  * Complete ParsedBooking validation schema.
  */
@@ -107,6 +146,10 @@ export const ParsedBookingSchema = z.object({
   destination: StationSchema,
   coach: CoachSchema,
   seat: SeatSchema,
+  ticketPrice: TicketPriceSchema,
+  currency: CurrencySchema,
+  passengers: z.array(ParsedPassengerSchema).min(1, 'Booking must have at least one passenger'),
+  legs: z.array(ParsedJourneyLegSchema).min(1, 'Booking must have at least one journey leg'),
 });
 
 /**
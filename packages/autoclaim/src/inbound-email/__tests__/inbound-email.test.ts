@@ -0,0 +1,187 @@
+/**
+ * Tests for forwarding addresses and inbound webhook payloads.
+ */
+
+import { readFileSync } from 'node:fs';
+import { describe, it, expect } from 'vitest';
+import { extractInboundEmailToken, getInboundEmailAddress } from '../address.js';
+import { normalizeInboundEmail } from '../payload.js';
+import { isFromEurostar } from '../sender.js';
+import { parseBookingEmail } from '../../email-parser/index.js';
+
+const DOMAIN = 'in.eurostar.tools';
+
+const POSTMARK_PAYLOAD = JSON.parse(
+  readFileSync(new URL('./fixtures/postmark-inbound.json', import.meta.url), 'utf-8')
+) as Record<string, unknown>;
+
+describe('getInboundEmailAddress', () => {
+  it('joins the token and domain', () => {
+    expect(getInboundEmailAddress('a1b2c3d4e5f60718293a4b5c6d7e8f90', 'In.Eurostar.Tools')).toBe(
+      'a1b2c3d4e5f60718293a4b5c6d7e8f90@in.eurostar.tools'
+    );
+  });
+});
+
+describe('extractInboundEmailToken', () => {
+  it('finds the token on the inbound domain', () => {
+    expect(
+      extractInboundEmailToken(['me@example.com', 'A1B2C3D4E5F60718293A4B5C6D7E8F90@IN.eurostar.tools'], DOMAIN)
+    ).toBe('a1b2c3d4e5f60718293a4b5c6d7e8f90');
+  });
+
+  it('ignores a +tag suffix', () => {
+    expect(extractInboundEmailToken(['a1b2c3d4e5f60718293a4b5c6d7e8f90+work@in.eurostar.tools'], DOMAIN)).toBe(
+      'a1b2c3d4e5f60718293a4b5c6d7e8f90'
+    );
+  });
+
+  it('returns null for other domains and malformed local parts', () => {
+    expect(extractInboundEmailToken(['a1b2c3d4e5f60718293a4b5c6d7e8f90@eurostar.tools'], DOMAIN)).toBeNull();
+    expect(extractInboundEmailToken(['not-a-token@in.eurostar.tools'], DOMAIN)).toBeNull();
+    expect(extractInboundEmailToken(['a1b2c3d4e5f60718@in.eurostar.tools'], DOMAIN)).toBeNull();
+    expect(extractInboundEmailToken([], DOMAIN)).toBeNull();
+  });
+});
+
+describe('normalizeInboundEmail', () => {
+  it('reads a Postmark payload', () => {
+    const email = normalizeInboundEmail(POSTMARK_PAYLOAD);
+
+    expect(email.from).toBe('john.smith@example.com');
+    expect(email.recipients).toEqual(['a1b2c3d4e5f60718293a4b5c6d7e8f90@in.eurostar.tools']);
+    expect(email.subject).toBe('Fwd: Your Eurostar booking confirmation');
+    expect(email.html).toBeNull();
+    expect(email.text).toContain('Booking Reference: ABC123');
+    expect(parseBookingEmail(email.text!).isOk()).toBe(true);
+  });
+
+  it('reads a Mailgun payload', () => {
+    const email = normalizeInboundEmail({
+      sender: 'jane@example.com',
+      from: 'Jane Doe <jane@example.com>',
+      recipient: 'a1b2c3d4e5f60718293a4b5c6d7e8f90@in.eurostar.tools',
+      To: 'Imports <a1b2c3d4e5f60718293a4b5c6d7e8f90@in.eurostar.tools>',
+      subject: 'Fwd: Booking',
+      'body-plain': 'plain',
+      'body-html': '<p>html</p>',
+    });
+
+    expect(email).toEqual({
+      from: 'jane@example.com',
+      authenticatedDomains: [],
+      recipients: ['a1b2c3d4e5f60718293a4b5c6d7e8f90@in.eurostar.tools'],
+      subject: 'Fwd: Booking',
+      html: '<p>html</p>',
+      text: 'plain',
+    });
+  });
+
+  it('reads a generic payload with an envelope and address lists', () => {
+    const email = normalizeInboundEmail({
+      from: 'jane@example.com',
+      to: ['friend@example.com', { email: 'a1b2c3d4e5f60718293a4b5c6d7e8f90@in.eurostar.tools' }],
+      envelope: JSON.stringify({ to: ['a1b2c3d4e5f60718293a4b5c6d7e8f90+trips@in.eurostar.tools'] }),
+      text: 'body',
+    });
+
+    expect(email.recipients).toEqual([
+      'a1b2c3d4e5f60718293a4b5c6d7e8f90+trips@in.eurostar.tools',
+      'friend@example.com',
+      'a1b2c3d4e5f60718293a4b5c6d7e8f90@in.eurostar.tools',
+    ]);
+    expect(email.subject).toBeNull();
+    expect(extractInboundEmailToken(email.recipients, DOMAIN)).toBe('a1b2c3d4e5f60718293a4b5c6d7e8f90');
+  });
+
+  it('reads the domains the provider authenticated the sender for', () => {
+    const postmark = normalizeInboundEmail(
+      {
+        ...POSTMARK_PAYLOAD,
+        Headers: [
+          {
+            Name: 'Authentication-Results',
+            Value:
+              'mx.postmarkapp.com; spf=softfail smtp.mailfrom=bounce.example.net; dkim=pass header.d=Eurostar.com; dmarc=pass header.from=eurostar.com',
+          },
+        ],
+      },
+      ['mx.postmarkapp.com']
+    );
+    const mailgun = normalizeInboundEmail(
+      {
+        sender: 'bounces@mail.eurostar.com',
+        'X-Mailgun-Spf': 'Pass',
+        'message-headers': JSON.stringify([['Authentication-Results', 'mx; dkim=fail header.d=eurostar.com']]),
+      },
+      ['mx']
+    );
+    const sendgrid = normalizeInboundEmail({
+      dkim: '{@example.net : fail, @eurostar.com : pass}',
+      SPF: 'fail',
+      envelope: JSON.stringify({ from: 'care@eurostar.com', to: ['a@in.eurostar.tools'] }),
+    });
+
+    expect(postmark.authenticatedDomains).toEqual(['eurostar.com']);
+    expect(mailgun.authenticatedDomains).toEqual(['mail.eurostar.com']);
+    expect(sendgrid.authenticatedDomains).toEqual(['eurostar.com']);
+  });
+
+  it('ignores Authentication-Results headers the sender wrote into the message', () => {
+    const forged = 'mx.postmarkapp.com; dkim=pass header.d=eurostar.com';
+    const payload = (headers: Array<[string, string]>) => ({
+      ...POSTMARK_PAYLOAD,
+      From: 'Eurostar <customer.care@eurostar.com>',
+      Headers: headers.map(([Name, Value]) => ({ Name, Value })),
+    });
+
+    // Below the provider's own results
+    const below = normalizeInboundEmail(
+      payload([
+        ['Authentication-Results', 'mx.postmarkapp.com; dkim=none; spf=pass smtp.mailfrom=attacker.example'],
+        ['Authentication-Results', 'attacker.example; dkim=pass header.d=eurostar.com'],
+        ['Authentication-Results', forged],
+      ]),
+      ['mx.postmarkapp.com']
+    );
+    // The provider added none, so the sender's is on top
+    const top = normalizeInboundEmail(
+      payload([
+        ['Authentication-Results', 'attacker.example; dkim=pass header.d=eurostar.com'],
+        ['Authentication-Results', forged],
+      ]),
+      ['mx.postmarkapp.com']
+    );
+    // No authserv-id configured
+    const unconfigured = normalizeInboundEmail(payload([['Authentication-Results', forged]]));
+
+    expect(below.authenticatedDomains).toEqual(['attacker.example']);
+    expect(top.authenticatedDomains).toEqual([]);
+    expect(unconfigured.authenticatedDomains).toEqual([]);
+    expect([below, top, unconfigured].some(isFromEurostar)).toBe(false);
+  });
+});
+
+describe('isFromEurostar', () => {
+  const email = (from: string | null, authenticatedDomains: string[]) => ({
+    from,
+    authenticatedDomains,
+    recipients: [],
+    subject: null,
+    html: null,
+    text: null,
+  });
+
+  it('accepts a Eurostar address the provider authenticated', () => {
+    expect(isFromEurostar(email('customer.care@eurostar.com', ['eurostar.com']))).toBe(true);
+    expect(isFromEurostar(email('noreply@mail.eurostar.com', ['eurostar.com']))).toBe(true);
+  });
+
+  it('rejects spoofed, unauthenticated and hand-forwarded replies', () => {
+    expect(isFromEurostar(email('customer.care@eurostar.com', ['attacker.example']))).toBe(false);
+    expect(isFromEurostar(email('customer.care@eurostar.com', []))).toBe(false);
+    expect(isFromEurostar(email('customer.care@noteurostar.com', ['noteurostar.com']))).toBe(false);
+    expect(isFromEurostar(email('john.smith@example.com', ['example.com']))).toBe(false);
+    expect(isFromEurostar(email(null, ['eurostar.com']))).toBe(false);
+  });
+});
@@ -0,0 +1,49 @@
+/**
+ * Per-user forwarding addresses.
+ *
+ * Each user has a random token (users.inboundEmailToken) used as the local
+ * part of their address: "<token>@<domain>". A "+tag" suffix is ignored so
+ * users can label forwarding rules.
+ */
+
+/** Tokens are 128 random bits as lowercase hex (the users table default) */
+const TOKEN_PATTERN = /^[0-9a-f]{32}$/;
+
+/**
+ * Builds a user's forwarding address.
+ *
+ * @param token - The user's inbound email token
+ * @param domain - Domain that receives inbound mail
+ */
+export function getInboundEmailAddress(token: string, domain: string): string {
+  return `${token}@${domain.toLowerCase()}`;
+}
+
+/**
+ * Finds the user token among an email's recipients.
+ *
+ * @param recipients - Recipient addresses
+ * @param domain - Domain that receives inbound mail
+ * @returns The token of the first forwarding address, or null if none
+ */
+export function extractInboundEmailToken(
+  recipients: readonly string[],
+  domain: string
+): string | null {
+  const expectedDomain = domain.toLowerCase();
+
+  for (const recipient of recipients) {
+    const at = recipient.lastIndexOf('@');
+    if (at <= 0) continue;
+
+    const recipientDomain = recipient.slice(at + 1).toLowerCase();
+    if (recipientDomain !== expectedDomain) continue;
+
+    const token = recipient.slice(0, at).toLowerCase().split('+')[0]!;
+    if (TOKEN_PATTERN.test(token)) {
+      return token;
+    }
+  }
+
+  return null;
+}
@@ -0,0 +1,49 @@
+/**
+ * Inbound email fixture poster
+ *
+ * Posts a saved webhook payload to a running API, as the mail provider
+ * would, to test forwarding without real inbound mail.
+ *
+ * Usage: pnpm inbound:post <payload.json> [recipient]
+ *
+ * A sample Postmark payload is in src/inbound-email/__tests__/fixtures/.
+ * Pass your forwarding address as the recipient to import into your account.
+ *
+ * Environment variables:
+ * - INBOUND_EMAIL_SECRET: Webhook secret the API expects [REQUIRED]
+ * - API_URL: API base URL (default: http://localhost:3001)
+ */
+
+import { readFile } from 'node:fs/promises';
+
+async function main(): Promise<void> {
+  const [payloadPath, recipient] = process.argv.slice(2);
+  const secret = process.env['INBOUND_EMAIL_SECRET'];
+  if (!payloadPath || !secret) {
+    console.error('Usage: INBOUND_EMAIL_SECRET=... pnpm inbound:post <payload.json> [recipient]');
+    process.exit(1);
+  }
+
+  const payload = JSON.parse(await readFile(payloadPath, 'utf-8')) as Record<string, unknown>;
+  if (recipient) {
+    payload['OriginalRecipient'] = recipient;
+  }
+
+  const apiUrl = process.env['API_URL'] ?? 'http://localhost:3001';
+  const response = await fetch(`${apiUrl}/api/v1/inbound/email`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      'X-Inbound-Secret': secret,
+    },
+    body: JSON.stringify(payload),
+  });
+
+  console.log(`[Inbound] ${response.status} ${await response.text()}`);
+  process.exit(response.ok ? 0 : 1);
+}
+
+main().catch((error) => {
+  console.error('[Inbound] Post failed:', error);
+  process.exit(1);
+});
@@ -0,0 +1,8 @@
+/**
+ * Inbound email module: per-user forwarding addresses and webhook payloads.
+ */
+
+export type { InboundEmail } from './types.js';
+export { getInboundEmailAddress, extractInboundEmailToken } from './address.js';
+export { normalizeInboundEmail } from './payload.js';
+export { isFromEurostar, EUROSTAR_SENDER_DOMAINS } from './sender.js';
@@ -0,0 +1,219 @@
+/**
+ * Normalises inbound-mail webhook payloads.
+ *
+ * Mail providers post parsed messages as JSON with their own field names.
+ * Postmark (From, ToFull, HtmlBody...), Mailgun (sender, recipient,
+ * body-html...) and a generic shape (from, to, subject, html, text) are
+ * understood; fields from any of them may be mixed. The sender checks the
+ * provider ran are read from its own Authentication-Results headers,
+ * Mailgun's X-Mailgun-Spf and SendGrid's SPF and dkim fields.
+ */
+
+import type { InboundEmail } from './types.js';
+
+const EMAIL_ADDRESS_PATTERN = /[^\s<>,;:"'()[\]]+@[^\s<>,;:"'()[\]]+\.[^\s<>,;:"'()[\]]+/g;
+
+/** A passing check in an Authentication-Results header, with its properties */
+const AUTH_RESULT_PATTERN = /\b(?:spf|dkim|dmarc)=pass\b([^;]*)/gi;
+
+/** The property of a passing check that names the domain it vouched for */
+const AUTH_DOMAIN_PATTERN = /\b(?:header\.from|header\.d|header\.i|smtp\.mailfrom)=(?:[^\s;@]*@)?([^\s;]+)/i;
+
+/** A passing signature in SendGrid's dkim field, e.g. "{@eurostar.com : pass}" */
+const SENDGRID_DKIM_PATTERN = /@([^\s:,{}]+)\s*:\s*pass\b/gi;
+
+/**
+ * Gets the first non-empty string among several payload fields.
+ */
+function firstString(payload: Record<string, unknown>, keys: readonly string[]): string | null {
+  for (const key of keys) {
+    const value = payload[key];
+    if (typeof value === 'string' && value.trim() !== '') {
+      return value;
+    }
+  }
+  return null;
+}
+
+/**
+ * Collects email addresses from a payload field.
+ *
+ * Accepts header strings ("Name <a@b.com>, c@d.com"), arrays of strings
+ * and arrays of { Email } / { email } objects.
+ */
+function collectAddresses(value: unknown): string[] {
+  if (typeof value === 'string') {
+    return (value.match(EMAIL_ADDRESS_PATTERN) ?? []).map((address) => address.toLowerCase());
+  }
+  if (Array.isArray(value)) {
+    return value.flatMap((item: unknown) => {
+      if (item && typeof item === 'object') {
+        const record = item as Record<string, unknown>;
+        return collectAddresses(record['Email'] ?? record['email']);
+      }
+      return collectAddresses(item);
+    });
+  }
+  return [];
+}
+
+/**
+ * Reads the envelope sender of a SendGrid-style "envelope" JSON field.
+ */
+function collectEnvelopeSender(value: unknown): string | null {
+  if (typeof value !== 'string') {
+    return null;
+  }
+  try {
+    const envelope = JSON.parse(value) as { from?: unknown };
+    return typeof envelope.from === 'string' ? envelope.from : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Reads the envelope recipients of a SendGrid-style "envelope" JSON field.
+ */
+function collectEnvelopeRecipients(value: unknown): string[] {
+  if (typeof value !== 'string') {
+    return [];
+  }
+  try {
+    const envelope = JSON.parse(value) as { to?: unknown };
+    return collectAddresses(envelope.to);
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * Gets the values of a header from Postmark's Headers ([{ Name, Value }]),
+ * Mailgun's message-headers ([[name, value]] as JSON) or a field named
+ * after the header, top-most first.
+ */
+function collectHeaderValues(payload: Record<string, unknown>, name: string): string[] {
+  const values: string[] = [];
+  const add = (key: unknown, value: unknown) => {
+    if (typeof key === 'string' && key.toLowerCase() === name.toLowerCase() && typeof value === 'string') {
+      values.push(value);
+    }
+  };
+
+  add(name, payload[name]);
+
+  const postmark = payload['Headers'];
+  if (Array.isArray(postmark)) {
+    for (const header of postmark as unknown[]) {
+      if (header && typeof header === 'object') {
+        const record = header as Record<string, unknown>;
+        add(record['Name'], record['Value']);
+      }
+    }
+  }
+
+  const mailgun = payload['message-headers'];
+  if (typeof mailgun === 'string') {
+    try {
+      const headers = JSON.parse(mailgun) as unknown;
+      if (Array.isArray(headers)) {
+        for (const header of headers as unknown[]) {
+          if (Array.isArray(header)) {
+            add(header[0], header[1]);
+          }
+        }
+      }
+    } catch {
+      // Not JSON, so no headers to read
+    }
+  }
+
+  return values;
+}
+
+/**
+ * Gets the authserv-id an Authentication-Results header starts with, e.g.
+ * "mx.example.com" in "mx.example.com 1; dkim=pass header.d=example.com".
+ */
+function getAuthservId(header: string): string {
+  return header.split(';', 1)[0]!.trim().split(/\s+/, 1)[0]!.toLowerCase();
+}
+
+/**
+ * Collects the domains the provider's SPF, DKIM and DMARC checks passed for.
+ *
+ * The sender can write Authentication-Results headers into the message
+ * too. The provider adds its own above them, so headers are read from the
+ * top until one carries an authserv-id the provider doesn't use.
+ */
+function collectAuthenticatedDomains(
+  payload: Record<string, unknown>,
+  authservIds: readonly string[]
+): string[] {
+  const domains: string[] = [];
+  const trusted = new Set(authservIds.map((id) => id.toLowerCase()));
+
+  for (const header of collectHeaderValues(payload, 'Authentication-Results')) {
+    if (!trusted.has(getAuthservId(header))) {
+      break;
+    }
+    for (const [, properties] of header.matchAll(AUTH_RESULT_PATTERN)) {
+      const domain = AUTH_DOMAIN_PATTERN.exec(properties ?? '')?.[1];
+      if (domain) domains.push(domain.toLowerCase());
+    }
+  }
+
+  const dkim = payload['dkim'];
+  if (typeof dkim === 'string') {
+    for (const [, domain] of dkim.matchAll(SENDGRID_DKIM_PATTERN)) {
+      domains.push(domain!.toLowerCase());
+    }
+  }
+
+  // SPF vouches for the envelope sender: Mailgun's sender, SendGrid's envelope from
+  const spf = firstString(payload, ['X-Mailgun-Spf', 'SPF']);
+  if (spf?.trim().toLowerCase() === 'pass') {
+    const [sender] = collectAddresses(
+      firstString(payload, ['sender']) ?? collectEnvelopeSender(payload['envelope'])
+    );
+    if (sender) domains.push(sender.slice(sender.lastIndexOf('@') + 1));
+  }
+
+  return [...new Set(domains)];
+}
+
+/**
+ * Normalises an inbound-mail webhook payload.
+ *
+ * @param payload - The webhook JSON body
+ * @param authservIds - Authserv-ids the provider writes its Authentication-Results
+ *   headers with; with none, those headers are ignored
+ * @returns The email; recipients are deduplicated with the envelope first
+ */
+export function normalizeInboundEmail(
+  payload: Record<string, unknown>,
+  authservIds: readonly string[] = []
+): InboundEmail {
+  const recipients = [
+    ...collectAddresses(payload['OriginalRecipient']),
+    ...collectAddresses(payload['recipient']),
+    ...collectEnvelopeRecipients(payload['envelope']),
+    ...collectAddresses(payload['ToFull']),
+    ...collectAddresses(payload['To']),
+    ...collectAddresses(payload['to']),
+    ...collectAddresses(payload['CcFull']),
+    ...collectAddresses(payload['Cc']),
+    ...collectAddresses(payload['cc']),
+  ];
+
+  const from = firstString(payload, ['From', 'from', 'sender']);
+
+  return {
+    from: from ? (collectAddresses(from)[0] ?? null) : null,
+    authenticatedDomains: collectAuthenticatedDomains(payload, authservIds),
+    recipients: [...new Set(recipients)],
+    subject: firstString(payload, ['Subject', 'subject']),
+    html: firstString(payload, ['HtmlBody', 'body-html', 'html']),
+    text: firstString(payload, ['TextBody', 'body-plain', 'text']),
+  };
+}
@@ -0,0 +1,41 @@
+/**
+ * Checking who sent an inbound email.
+ *
+ * The From header can say anything, so a message only counts as
+ * Eurostar's when the provider's SPF, DKIM or DMARC checks passed for a
+ * Eurostar domain too. Replies forwarded by hand come from the user's own
+ * address, so are never taken as Eurostar's.
+ */
+
+import type { InboundEmail } from './types.js';
+
+/** Domains Eurostar customer care writes from */
+export const EUROSTAR_SENDER_DOMAINS: readonly string[] = ['eurostar.com'];
+
+/**
+ * Checks whether a domain is one of Eurostar's or a subdomain of one.
+ */
+function isEurostarDomain(domain: string): boolean {
+  return EUROSTAR_SENDER_DOMAINS.some(
+    (eurostar) => domain === eurostar || domain.endsWith(`.${eurostar}`)
+  );
+}
+
+/**
+ * Checks whether an inbound email was sent by Eurostar.
+ *
+ * @param email - The normalised email
+ * @returns True if it is from a Eurostar address that the provider
+ *   authenticated
+ */
+export function isFromEurostar(email: InboundEmail): boolean {
+  const at = email.from?.lastIndexOf('@') ?? -1;
+  if (at === -1) {
+    return false;
+  }
+
+  return (
+    isEurostarDomain(email.from!.slice(at + 1)) &&
+    email.authenticatedDomains.some(isEurostarDomain)
+  );
+}
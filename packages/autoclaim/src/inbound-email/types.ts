@@ -0,0 +1,21 @@
+/**
+ * Types for inbound (forwarded) booking emails.
+ */
+
+/**
+ * An inbound email, normalised from a mail provider's webhook payload.
+ */
+export interface InboundEmail {
+  /** Sender address, if given */
+  from: string | null;
+  /** Domains the provider's SPF, DKIM or DMARC checks passed for */
+  authenticatedDomains: string[];
+  /** Recipient addresses: envelope recipient, To and Cc */
+  recipients: string[];
+  /** Subject line, if given */
+  subject: string | null;
+  /** HTML body, if given */
+  html: string | null;
+  /** Plain-text body, if given */
+  text: string | null;
+}
@@ -5,12 +5,21 @@ export const VERSION = '0.0.1';
 // Email parser exports
 export {
   parseBookingEmail,
+  parseBookingEml,
+  parseETicketPdf,
+  parseBookingPkpass,
+  parseBookingCsv,
+  buildParseReport,
+  detectEmailLanguage,
+  splitJourneyLegs,
   preprocessEmail,
   stripHtml,
   cleanForwardedEmail,
   ParseErrorCode,
   createParseError,
   ParsedBookingSchema,
+  ParsedJourneyLegSchema,
+  ParsedPassengerSchema,
   PnrSchema,
   TcnSchema,
   TrainNumberSchema,
@@ -27,7 +36,34 @@ export {
   STATION_ALIASES,
   normalizeStation,
 } from './email-parser/index.js';
-export type { ParsedBooking, ParseError, SafeParseResult } from './email-parser/index.js';
+export type {
+  ParsedBooking,
+  ParsedETicket,
+  ParsedJourneyLeg,
+  ParsedPassenger,
+  ParseError,
+  ParseReport,
+  ReportField,
+  FieldConfidence,
+  CsvBooking,
+  CsvBookingImport,
+  CsvDateFormat,
+  CsvImportOptions,
+  CsvRowError,
+  SafeParseResult,
+  EmailLanguage,
+} from './email-parser/index.js';
+
+// Reply parser exports
+export {
+  parseClaimReplyEmail,
+  detectReplyLanguage,
+  REPLY_PATTERNS,
+  type ClaimReplyKind,
+  type ParsedClaimReply,
+  type ReplyLanguage,
+  type ReplyPatterns,
+} from './reply-parser/index.js';
 
 // Delay monitor exports
 export {
@@ -45,9 +81,13 @@ export {
   formatDateForTripId,
   buildTripId,
   isSameDay,
+  // Delay causes
+  findDelayCause,
   // Checker
   checkJourneyStatus,
   isJourneyComplete,
+  isJourneyCancelled,
+  isCancellationReinstated,
   calculateDelayMinutes,
   isEligibleForCompensation,
   COMPENSATION_THRESHOLD_MINUTES,
@@ -56,6 +96,7 @@ export {
   DelayMonitorService,
   createDelayMonitorService,
   type BookingCompletedHandler,
+  type DelayMonitorServiceOptions,
   // Worker
   createDelayMonitorWorker,
   createDelayMonitorQueue,
@@ -80,6 +121,14 @@ export {
   MINIMUM_DELAY_MINUTES,
   type CompensationTier,
   type CompensationResult,
+  type CompensationPolicy,
+  type ForceMajeureRules,
+  type ForceMajeureReason,
+  type GoodwillRules,
+  type DelayCauseSource,
+  type DelayCauseClassification,
+  type GoodwillAssessment,
+  type AppliedPolicy,
   type EligibilityStatus,
   // Tiers
   COMPENSATION_TIERS,
@@ -87,6 +136,19 @@ export {
   getTierName,
   isDelayCompensable,
   getTierBoundaries,
+  // Policies
+  DEFAULT_OPERATOR,
+  EUROSTAR_1371_2007_POLICY,
+  EUROSTAR_2021_782_POLICY,
+  COMPENSATION_POLICIES,
+  CompensationPolicyRegistry,
+  defaultPolicyRegistry,
+  toAppliedPolicy,
+  // Delay causes
+  CLASSIFIED_DELAY_CAUSES,
+  classifyDelayCause,
+  getForceMajeureReason,
+  isClassifiedCause,
   // Calculator
   calculateCompensation,
   calculateCompensationDetailed,
@@ -106,11 +168,14 @@ export {
   hasDeadlinePassed,
   getClaimTimingStatus,
   formatTimeUntilDeadline,
+  // Exchange rates
+  resolveEurToGbpRate,
   // Service
   EligibilityService,
   createEligibilityService,
   checkEligibility,
   type CheckEligibilityOptions,
+  type EligibilityServiceOptions,
 } from './eligibility/index.js';
 
 // Claim generator exports
@@ -119,17 +184,28 @@ export {
   type ClaimFormData,
   type ClaimGenerationResult,
   type ClaimWithFormData,
+  type ClaimPack,
+  type CompensationBreakdown,
+  type PrintableClaim,
+  type ClaimReevaluationResult,
   type ClaimGeneratorError,
   type ListClaimsOptions,
   type UserClaimsSummary,
+  type ClaimStatusChange,
+  type ClaimOutcome,
+  type PayoutReconciliation,
+  type ClaimReplyImport,
   ClaimGeneratorErrorCode,
   createClaimGeneratorError,
   STATION_NAMES,
   EUROSTAR_CLAIM_PORTAL_URL,
+  EUROSTAR_REFUND_PORTAL_URL,
   // Form data utilities
   buildClaimFormData,
   generateClaimPortalUrl,
   formatForClipboard,
+  buildClaimPack,
+  formatClaimPackForClipboard,
   formatAsJson,
   validateFormData,
   parsePassengerName,
@@ -149,9 +225,37 @@ export {
   ClaimEventEmitter,
   createClaimEventEmitter,
   claimEvents,
+  // Summary
+  summarizeClaims,
+  type ClaimForSummary,
+  // Revisions
+  reviseClaim,
+  FILED_CLAIM_STATUSES,
+  OPEN_CLAIM_STATUSES,
+  type ClaimRevision,
+  // Status transitions
+  CLAIM_STATUS_TRANSITIONS,
+  canTransitionClaim,
+  // Replies
+  matchClaimReply,
+  planClaimReply,
+  type ClaimReplyCandidate,
+  type ClaimReplyMatch,
+  type ClaimReplyPlan,
+  // Delay evidence
+  buildClaimEvidence,
+  collectClaimEvidence,
+  hashClaimEvidence,
+  toCanonicalJson,
+  formatClaimEvidenceReport,
+  type ClaimEvidenceSource,
+  // Claim pack PDFs
+  buildCompensationBreakdown,
+  renderClaimPackPdf,
   // Service
   ClaimGeneratorService,
   createClaimGeneratorService,
+  type ClaimGeneratorServiceOptions,
 } from './claim-generator/index.js';
 
 // Notification exports
@@ -163,11 +267,15 @@ export {
   type ClaimEligiblePayload,
   type ClaimReminderPayload,
   type DeadlineWarningPayload,
+  type BookingImportedPayload,
+  type BookingImportFailedPayload,
   type NotificationResult,
   type NotificationJobData,
   type NotificationJobResult,
   type ClaimEligibleEmailProps,
   type DeadlineWarningEmailProps,
+  type BookingImportedEmailProps,
+  type BookingImportFailedEmailProps,
   type BaseNotificationPayload,
   type SendNotificationOptions,
   // Email service
@@ -185,6 +293,7 @@ export {
   type NotificationServiceOptions,
   type ClaimNotificationData,
   type ClaimData,
+  type BookingImportNotificationData,
   NOTIFICATION_QUEUE_NAME,
   // Worker
   createNotificationWorker,
@@ -194,8 +303,23 @@ export {
   // Templates
   ClaimEligibleEmail,
   DeadlineWarningEmail,
+  BookingImportedEmail,
+  BookingImportFailedEmail,
 } from './notifications/index.js';
 
+// Calendar exports
+export {
+  buildCalendarFeed,
+  loadCalendarTrips,
+  describeTripStatus,
+  findTerminal,
+  serializeCalendar,
+  type CalendarTrip,
+  type CalendarFeedOptions,
+  type IcsCalendar,
+  type IcsEvent,
+} from './calendar/index.js';
+
 // API exports
 export {
   // App factory
@@ -215,11 +339,13 @@ export {
   type BookingDetailResponse,
   type ClaimResponse,
   type ClaimDetailResponse,
+  type ClaimStatusEventResponse,
   type HealthResponse,
   type ReadinessResponse,
   type LivenessResponse,
   toBookingResponse,
   toClaimResponse,
+  toClaimStatusEventResponse,
   // Schemas
   BookingParamsSchema,
   ClaimParamsSchema,
@@ -7,10 +7,12 @@ import {
   type ClaimEligiblePayload,
   type DeadlineWarningPayload,
   type ClaimReminderPayload,
+  type BookingImportedPayload,
+  type BookingImportFailedPayload,
   type ClaimEligibleEmailProps,
   type DeadlineWarningEmailProps,
 } from '../types.js';
-import type { ClaimNotificationData } from '../service.js';
+import type { BookingImportNotificationData, ClaimNotificationData } from '../service.js';
 
 /**
  * Fixed test dates for consistent testing.
@@ -126,6 +128,51 @@ export const CLAIM_REMINDER_PAYLOAD: ClaimReminderPayload = {
   daysUntilDeadline: 30,
 };
 
+/**
+ * Sample booking imported payload.
+ */
+export const BOOKING_IMPORTED_PAYLOAD: BookingImportedPayload = {
+  type: NotificationType.BOOKING_IMPORTED,
+  userId: TEST_USER.id,
+  email: TEST_USER.email,
+  firstName: TEST_USER.firstName,
+  bookingId: 'booking-789',
+  pnr: 'ABC123',
+  trainNumber: '9007',
+  origin: 'London St Pancras',
+  destination: 'Paris Gare du Nord',
+  journeyDate: 'Monday, 5 January 2026',
+  passengerCount: 2,
+};
+
+/**
+ * Sample booking import failed payload.
+ */
+export const BOOKING_IMPORT_FAILED_PAYLOAD: BookingImportFailedPayload = {
+  type: NotificationType.BOOKING_IMPORT_FAILED,
+  userId: TEST_USER.id,
+  email: TEST_USER.email,
+  firstName: '',
+  emailSubject: 'Fwd: Your receipt',
+  reason: 'Could not find booking reference (PNR)',
+};
+
+/**
+ * Booking import notification data for testing.
+ */
+export const TEST_BOOKING_IMPORT_DATA: BookingImportNotificationData = {
+  user: TEST_USER,
+  booking: {
+    id: 'booking-789',
+    pnr: 'ABC123',
+    trainNumber: '9007',
+    origin: 'GBSPX',
+    destination: 'FRPLY',
+    journeyDate: FIXED_JOURNEY_DATE,
+    passengerCount: 1,
+  },
+};
+
 /**
  * Email template props for claim eligible.
  */
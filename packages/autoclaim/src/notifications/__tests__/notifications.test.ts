@@ -17,6 +17,9 @@ import {
   DEADLINE_WARNING_PAYLOAD,
   CLAIM_REMINDER_PAYLOAD,
   CLAIM_ELIGIBLE_PAYLOAD_GBP,
+  BOOKING_IMPORTED_PAYLOAD,
+  BOOKING_IMPORT_FAILED_PAYLOAD,
+  TEST_BOOKING_IMPORT_DATA,
   TEST_NOTIFICATION_DATA,
   createClaimEligiblePayload,
   createTestNotificationData,
@@ -28,6 +31,8 @@ describe('NotificationType', () => {
     expect(NotificationType.CLAIM_ELIGIBLE).toBe('claim_eligible');
     expect(NotificationType.CLAIM_REMINDER).toBe('claim_reminder');
     expect(NotificationType.DEADLINE_WARNING).toBe('deadline_warning');
+    expect(NotificationType.BOOKING_IMPORTED).toBe('booking_imported');
+    expect(NotificationType.BOOKING_IMPORT_FAILED).toBe('booking_import_failed');
   });
 });
 
@@ -133,6 +138,23 @@ describe('renderNotificationEmail', () => {
     expect(html).toBeDefined();
   });
 
+  it('renders booking imported email with journey details', async () => {
+    const { subject, html } = await renderNotificationEmail(BOOKING_IMPORTED_PAYLOAD);
+
+    expect(subject).toContain('ABC123');
+    expect(subject).toContain('9007');
+    expect(html).toContain('John, your booking is in');
+    expect(html).toContain('2 travellers');
+  });
+
+  it('renders booking import failed email with the reason', async () => {
+    const { subject, html } = await renderNotificationEmail(BOOKING_IMPORT_FAILED_PAYLOAD);
+
+    expect(subject).toContain('Fwd: Your receipt');
+    expect(html).toContain('Could not find booking reference (PNR)');
+    expect(html).toContain('Sorry, we couldn');
+  });
+
   // Test 10: Formats GBP currency correctly
   it('formats GBP currency correctly in email', async () => {
     const { subject, html } = await renderNotificationEmail(CLAIM_ELIGIBLE_PAYLOAD_GBP);
@@ -253,6 +275,27 @@ describe('NotificationService', () => {
     expect(result.type).toBe(NotificationType.DEADLINE_WARNING);
   });
 
+  it('sends booking imported notification with station names', async () => {
+    const result = await service.sendBookingImported(TEST_BOOKING_IMPORT_DATA, { immediate: true });
+
+    expect(result.success).toBe(true);
+    expect(result.type).toBe(NotificationType.BOOKING_IMPORTED);
+    expect(mockEmailService.getLastEmail()?.email.html).toContain('Paris Gare du Nord');
+  });
+
+  it('sends booking import failed notification', async () => {
+    const result = await service.sendBookingImportFailed(
+      TEST_BOOKING_IMPORT_DATA.user,
+      'Fwd: Hello',
+      'Could not find train number',
+      { immediate: true }
+    );
+
+    expect(result.success).toBe(true);
+    expect(result.type).toBe(NotificationType.BOOKING_IMPORT_FAILED);
+    expect(mockEmailService.getLastEmail()?.email.to).toBe(TEST_BOOKING_IMPORT_DATA.user.email);
+  });
+
   // Test 17: Fails deadline warning when deadline passed
   it('fails deadline warning when deadline has passed', async () => {
     // Use a journey date from 4 months ago (past deadline)
@@ -9,6 +9,8 @@ import { Resend } from 'resend';
 import { render } from '@react-email/components';
 import { ClaimEligibleEmail } from './templates/claim-eligible.js';
 import { DeadlineWarningEmail } from './templates/deadline-warning.js';
+import { BookingImportedEmail } from './templates/booking-imported.js';
+import { BookingImportFailedEmail } from './templates/booking-import-failed.js';
 import {
   NotificationType,
   type NotificationPayload,
@@ -118,6 +120,36 @@ export async function renderNotificationEmail(
       };
     }
 
+    case NotificationType.BOOKING_IMPORTED: {
+      return {
+        subject: `Booking ${payload.pnr} added: train ${payload.trainNumber} on ${payload.journeyDate}`,
+        html: await render(
+          BookingImportedEmail({
+            firstName: payload.firstName,
+            pnr: payload.pnr,
+            trainNumber: payload.trainNumber,
+            origin: payload.origin,
+            destination: payload.destination,
+            journeyDate: payload.journeyDate,
+            passengerCount: payload.passengerCount,
+          })
+        ),
+      };
+    }
+
+    case NotificationType.BOOKING_IMPORT_FAILED: {
+      return {
+        subject: `We couldn't read your forwarded booking: ${payload.emailSubject}`,
+        html: await render(
+          BookingImportFailedEmail({
+            firstName: payload.firstName,
+            emailSubject: payload.emailSubject,
+            reason: payload.reason,
+          })
+        ),
+      };
+    }
+
     default: {
       const _exhaustive: never = payload;
       throw new Error(`Unknown notification type: ${(_exhaustive as NotificationPayload).type}`);
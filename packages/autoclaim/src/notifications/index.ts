@@ -8,11 +8,15 @@ export {
   type ClaimEligiblePayload,
   type ClaimReminderPayload,
   type DeadlineWarningPayload,
+  type BookingImportedPayload,
+  type BookingImportFailedPayload,
   type NotificationResult,
   type NotificationJobData,
   type NotificationJobResult,
   type ClaimEligibleEmailProps,
   type DeadlineWarningEmailProps,
+  type BookingImportedEmailProps,
+  type BookingImportFailedEmailProps,
   type BaseNotificationPayload,
   type SendNotificationOptions,
 } from './types.js';
@@ -36,6 +40,7 @@ export {
   type NotificationServiceOptions,
   type ClaimNotificationData,
   type ClaimData,
+  type BookingImportNotificationData,
   NOTIFICATION_QUEUE_NAME,
 } from './service.js';
 
@@ -50,3 +55,5 @@ export {
 // Templates
 export { ClaimEligibleEmail } from './templates/claim-eligible.js';
 export { DeadlineWarningEmail } from './templates/deadline-warning.js';
+export { BookingImportedEmail } from './templates/booking-imported.js';
+export { BookingImportFailedEmail } from './templates/booking-import-failed.js';
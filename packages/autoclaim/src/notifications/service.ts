@@ -14,6 +14,7 @@ import {
   type NotificationPayload,
   type ClaimEligiblePayload,
   type DeadlineWarningPayload,
+  type BookingImportedPayload,
   type NotificationJobData,
   type NotificationResult,
   type SendNotificationOptions,
@@ -69,6 +70,26 @@ export interface ClaimNotificationData {
   };
 }
 
+/**
+ * Information needed to confirm a booking imported from a forwarded email.
+ */
+export interface BookingImportNotificationData {
+  user: {
+    id: string;
+    email: string;
+    firstName: string;
+  };
+  booking: {
+    id: string;
+    pnr: string;
+    trainNumber: string;
+    origin: string;
+    destination: string;
+    journeyDate: Date;
+    passengerCount: number;
+  };
+}
+
 /**
  * Notification service for sending claim-related emails.
  *
@@ -152,6 +173,51 @@ export class NotificationService {
     return this.sendNotification(payload, options);
   }
 
+  /**
+   * Send a booking imported notification.
+   *
+   * Confirms that a forwarded confirmation email was turned into a booking.
+   *
+   * @param data - User and booking information
+   * @param options - Send options
+   */
+  async sendBookingImported(
+    data: BookingImportNotificationData,
+    options: SendNotificationOptions = {}
+  ): Promise<NotificationResult> {
+    const payload = this.buildBookingImportedPayload(data);
+    return this.sendNotification(payload, options);
+  }
+
+  /**
+   * Send a booking import failed notification.
+   *
+   * Tells the user a forwarded email could not be turned into a booking.
+   *
+   * @param user - The user who forwarded the email
+   * @param emailSubject - Subject of the forwarded email
+   * @param reason - Why the import failed
+   * @param options - Send options
+   */
+  async sendBookingImportFailed(
+    user: BookingImportNotificationData['user'],
+    emailSubject: string,
+    reason: string,
+    options: SendNotificationOptions = {}
+  ): Promise<NotificationResult> {
+    return this.sendNotification(
+      {
+        type: NotificationType.BOOKING_IMPORT_FAILED,
+        userId: user.id,
+        email: user.email,
+        firstName: user.firstName,
+        emailSubject,
+        reason,
+      },
+      options
+    );
+  }
+
   /**
    * Send a notification (queued or immediate).
    *
@@ -322,6 +388,27 @@ export class NotificationService {
     };
   }
 
+  /**
+   * Build payload for booking imported notification.
+   */
+  private buildBookingImportedPayload(data: BookingImportNotificationData): BookingImportedPayload {
+    const { user, booking } = data;
+
+    return {
+      type: NotificationType.BOOKING_IMPORTED,
+      userId: user.id,
+      email: user.email,
+      firstName: user.firstName,
+      bookingId: booking.id,
+      pnr: booking.pnr,
+      trainNumber: booking.trainNumber,
+      origin: getStationDisplayName(booking.origin),
+      destination: getStationDisplayName(booking.destination),
+      journeyDate: this.formatDate(booking.journeyDate),
+      passengerCount: booking.passengerCount,
+    };
+  }
+
   /**
    * Format a date for display in emails.
    */
@@ -0,0 +1,122 @@
+import {
+  Body,
+  Container,
+  Head,
+  Heading,
+  Hr,
+  Html,
+  Preview,
+  Section,
+  Text,
+} from '@react-email/components';
+import type { BookingImportFailedEmailProps } from '../types.js';
+
+const main = {
+  backgroundColor: '#f6f9fc',
+  fontFamily:
+    '-apple-system, BlinkMacSystemFont, "Segoe UI", Roboto, "Helvetica Neue", Ubuntu, sans-serif',
+};
+
+const container = {
+  backgroundColor: '#ffffff',
+  margin: '0 auto',
+  padding: '20px 0 48px',
+  marginBottom: '64px',
+};
+
+const heading = {
+  fontSize: '24px',
+  letterSpacing: '-0.5px',
+  lineHeight: '1.3',
+  fontWeight: '600',
+  color: '#1a1a1a',
+  padding: '17px 0 0',
+};
+
+const paragraph = {
+  margin: '0 0 15px',
+  fontSize: '15px',
+  lineHeight: '1.6',
+  color: '#3c4149',
+};
+
+const warningBox = {
+  backgroundColor: '#fff8e6',
+  borderRadius: '8px',
+  padding: '24px',
+  margin: '24px 0',
+  borderLeft: '4px solid #f5a623',
+};
+
+const warningHeading = {
+  fontSize: '16px',
+  fontWeight: '600',
+  color: '#8a5a00',
+  margin: '0 0 8px',
+};
+
+const warningText = {
+  fontSize: '14px',
+  color: '#8a5a00',
+  margin: '0',
+};
+
+const list = {
+  ...paragraph,
+  paddingLeft: '20px',
+};
+
+const hr = {
+  borderColor: '#e6ebf1',
+  margin: '20px 0',
+};
+
+const footer = {
+  color: '#8898aa',
+  fontSize: '12px',
+  lineHeight: '1.5',
+};
+
+export function BookingImportFailedEmail({
+  firstName,
+  emailSubject,
+  reason,
+}: BookingImportFailedEmailProps) {
+  return (
+    <Html>
+      <Head />
+      <Preview>We couldn&apos;t read the booking you forwarded</Preview>
+      <Body style={main}>
+        <Container style={container}>
+          <Heading style={heading}>
+            {firstName ? `Sorry ${firstName}, we couldn't read this email` : "Sorry, we couldn't read this email"}
+          </Heading>
+
+          <Section style={warningBox}>
+            <Text style={warningHeading}>&ldquo;{emailSubject}&rdquo;</Text>
+            <Text style={warningText}>{reason}</Text>
+          </Section>
+
+          <Text style={paragraph}>
+            No booking was added. A few things to try:
+          </Text>
+
+          <ul style={list}>
+            <li>Forward the original Eurostar confirmation, not a reply or a receipt</li>
+            <li>Forward it as an attachment if your mail app rewrites the message</li>
+            <li>Upload the saved .eml file or enter the booking by hand in the app</li>
+          </ul>
+
+          <Hr style={hr} />
+
+          <Text style={footer}>
+            This email was sent by Eurostar Tools because a message was forwarded to
+            your personal import address.
+          </Text>
+        </Container>
+      </Body>
+    </Html>
+  );
+}
+
+export default BookingImportFailedEmail;
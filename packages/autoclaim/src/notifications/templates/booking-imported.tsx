@@ -0,0 +1,169 @@
+import {
+  Body,
+  Container,
+  Head,
+  Heading,
+  Hr,
+  Html,
+  Preview,
+  Section,
+  Text,
+} from '@react-email/components';
+import type { BookingImportedEmailProps } from '../types.js';
+
+const main = {
+  backgroundColor: '#f6f9fc',
+  fontFamily:
+    '-apple-system, BlinkMacSystemFont, "Segoe UI", Roboto, "Helvetica Neue", Ubuntu, sans-serif',
+};
+
+const container = {
+  backgroundColor: '#ffffff',
+  margin: '0 auto',
+  padding: '20px 0 48px',
+  marginBottom: '64px',
+};
+
+const heading = {
+  fontSize: '24px',
+  letterSpacing: '-0.5px',
+  lineHeight: '1.3',
+  fontWeight: '600',
+  color: '#1a1a1a',
+  padding: '17px 0 0',
+};
+
+const paragraph = {
+  margin: '0 0 15px',
+  fontSize: '15px',
+  lineHeight: '1.6',
+  color: '#3c4149',
+};
+
+const successBox = {
+  backgroundColor: '#f0fff4',
+  borderRadius: '8px',
+  padding: '24px',
+  margin: '24px 0',
+  borderLeft: '4px solid #00a651',
+};
+
+const successText = {
+  fontSize: '16px',
+  fontWeight: '600',
+  color: '#00713a',
+  margin: '0',
+};
+
+const labelText = {
+  fontSize: '13px',
+  color: '#666',
+  margin: '0',
+  textTransform: 'uppercase' as const,
+  letterSpacing: '0.5px',
+};
+
+const detailsBox = {
+  backgroundColor: '#fafafa',
+  borderRadius: '8px',
+  padding: '20px',
+  margin: '24px 0',
+};
+
+const detailLabel = {
+  color: '#666',
+  fontSize: '14px',
+};
+
+const detailValue = {
+  color: '#1a1a1a',
+  fontSize: '14px',
+  fontWeight: '500',
+};
+
+const hr = {
+  borderColor: '#e6ebf1',
+  margin: '20px 0',
+};
+
+const footer = {
+  color: '#8898aa',
+  fontSize: '12px',
+  lineHeight: '1.5',
+};
+
+export function BookingImportedEmail({
+  firstName,
+  pnr,
+  trainNumber,
+  origin,
+  destination,
+  journeyDate,
+  passengerCount,
+}: BookingImportedEmailProps) {
+  const travellers = passengerCount === 1 ? '1 traveller' : `${passengerCount} travellers`;
+
+  return (
+    <Html>
+      <Head />
+      <Preview>
+        Booking {pnr} added: train {trainNumber} on {journeyDate}
+      </Preview>
+      <Body style={main}>
+        <Container style={container}>
+          <Heading style={heading}>
+            {firstName ? `${firstName}, your booking is in` : 'Your booking is in'}
+          </Heading>
+
+          <Section style={successBox}>
+            <Text style={successText}>
+              We&apos;ve added booking {pnr} to your account
+            </Text>
+          </Section>
+
+          <Text style={paragraph}>
+            Thanks for forwarding your confirmation. We&apos;ll keep an eye on this
+            journey and let you know if a delay makes you eligible for compensation.
+          </Text>
+
+          <Section style={detailsBox}>
+            <Text style={{ ...labelText, marginBottom: '16px' }}>Journey Details</Text>
+            <table style={{ width: '100%', borderCollapse: 'collapse' }}>
+              <tbody>
+                <tr>
+                  <td style={{ ...detailLabel, padding: '8px 0', borderBottom: '1px solid #eee' }}>Train</td>
+                  <td style={{ ...detailValue, padding: '8px 0', borderBottom: '1px solid #eee', textAlign: 'right' }}>{trainNumber}</td>
+                </tr>
+                <tr>
+                  <td style={{ ...detailLabel, padding: '8px 0', borderBottom: '1px solid #eee' }}>Route</td>
+                  <td style={{ ...detailValue, padding: '8px 0', borderBottom: '1px solid #eee', textAlign: 'right' }}>{origin} → {destination}</td>
+                </tr>
+                <tr>
+                  <td style={{ ...detailLabel, padding: '8px 0', borderBottom: '1px solid #eee' }}>Date</td>
+                  <td style={{ ...detailValue, padding: '8px 0', borderBottom: '1px solid #eee', textAlign: 'right' }}>{journeyDate}</td>
+                </tr>
+                <tr>
+                  <td style={{ ...detailLabel, padding: '8px 0' }}>Travellers</td>
+                  <td style={{ ...detailValue, padding: '8px 0', textAlign: 'right' }}>{travellers}</td>
+                </tr>
+              </tbody>
+            </table>
+          </Section>
+
+          <Text style={{ ...paragraph, fontSize: '14px', color: '#666' }}>
+            Something look wrong? You can edit the booking from your dashboard.
+          </Text>
+
+          <Hr style={hr} />
+
+          <Text style={footer}>
+            This email was sent by Eurostar Tools because a booking confirmation was
+            forwarded to your personal import address.
+          </Text>
+        </Container>
+      </Body>
+    </Html>
+  );
+}
+
+export default BookingImportedEmail;
@@ -1,2 +1,4 @@
 export { ClaimEligibleEmail } from './claim-eligible.js';
 export { DeadlineWarningEmail } from './deadline-warning.js';
+export { BookingImportedEmail } from './booking-imported.js';
+export { BookingImportFailedEmail } from './booking-import-failed.js';
@@ -15,6 +15,10 @@ export const NotificationType = {
   CLAIM_REMINDER: 'claim_reminder',
   /** Warning: deadline approaching (7 days) */
   DEADLINE_WARNING: 'deadline_warning',
+  /** Booking created from a forwarded confirmation email */
+  BOOKING_IMPORTED: 'booking_imported',
+  /** Forwarded email could not be turned into a booking */
+  BOOKING_IMPORT_FAILED: 'booking_import_failed',
 } as const;
 
 export type NotificationType = (typeof NotificationType)[keyof typeof NotificationType];
@@ -114,13 +118,47 @@ export interface DeadlineWarningPayload extends BaseNotificationPayload {
   daysRemaining: number;
 }
 
+/**
+ * Payload for booking imported notification.
+ */
+export interface BookingImportedPayload extends BaseNotificationPayload {
+  type: typeof NotificationType.BOOKING_IMPORTED;
+  /** Booking ID */
+  bookingId: string;
+  /** Booking reference */
+  pnr: string;
+  /** Train number */
+  trainNumber: string;
+  /** Origin station name */
+  origin: string;
+  /** Destination station name */
+  destination: string;
+  /** Journey date (formatted) */
+  journeyDate: string;
+  /** Number of travellers on the booking */
+  passengerCount: number;
+}
+
+/**
+ * Payload for booking import failed notification.
+ */
+export interface BookingImportFailedPayload extends BaseNotificationPayload {
+  type: typeof NotificationType.BOOKING_IMPORT_FAILED;
+  /** Subject of the forwarded email */
+  emailSubject: string;
+  /** Why the email could not be imported */
+  reason: string;
+}
+
 /**
  * Union type for all notification payloads.
  */
 export type NotificationPayload =
   | ClaimEligiblePayload
   | ClaimReminderPayload
-  | DeadlineWarningPayload;
+  | DeadlineWarningPayload
+  | BookingImportedPayload
+  | BookingImportFailedPayload;
 
 /**
  * Result of sending a notification.
@@ -196,6 +234,22 @@ export interface DeadlineWarningEmailProps {
   daysRemaining: number;
 }
 
+export interface BookingImportedEmailProps {
+  firstName: string;
+  pnr: string;
+  trainNumber: string;
+  origin: string;
+  destination: string;
+  journeyDate: string;
+  passengerCount: number;
+}
+
+export interface BookingImportFailedEmailProps {
+  firstName: string;
+  emailSubject: string;
+  reason: string;
+}
+
 /**
  * Notification sending status for tracking.
  */
@@ -0,0 +1,97 @@
+/**
+ * Test fixtures for Eurostar claim reply parser tests.
+ *
+ * TODO: Like the booking fixtures, these are mock replies in the usual
+ * customer care wording and need checking against real emails.
+ */
+
+/**
+ * Acknowledgement of a new claim.
+ */
+export const ACKNOWLEDGEMENT_EMAIL = `
+Dear Mr Smith,
+
+Thank you for your compensation request. We have received your claim and
+will reply within 28 days.
+
+Case number: CAS-1234567-K8L2M4
+Booking reference: ABC123
+
+Kind regards,
+Eurostar Customer Care
+`;
+
+/**
+ * Approval paid as cash, in HTML.
+ */
+export const CASH_APPROVAL_EMAIL = `
+<html><body>
+<p>Dear Mr Smith,</p>
+<p>We're pleased to confirm that your claim has been approved.</p>
+<p>A refund of £31.50 will be made to your original payment card within 7 working days.</p>
+<p>Case number: CAS-1234567-K8L2M4<br>Booking reference: ABC123</p>
+<p>Kind regards,<br>Eurostar Customer Care</p>
+</body></html>
+`;
+
+/**
+ * Approval paid as an e-voucher with a code.
+ */
+export const VOUCHER_APPROVAL_EMAIL = `
+Dear Ms Doe,
+
+Your claim has been approved and we have issued an e-voucher worth 60,00 €.
+
+E-voucher code: EV-9X7Y5Z3W
+Valid for 12 months on any Eurostar booking.
+
+Claim reference: 87654321
+Booking reference: XYZ789
+
+Eurostar Customer Care
+`;
+
+/**
+ * Rejection with the reason given.
+ */
+export const REJECTION_EMAIL = `
+Dear Mr Smith,
+
+Thank you for your claim regarding booking reference ABC123.
+
+Having checked the journey, we are unable to approve your claim as your train arrived 42 minutes late. Compensation starts at 60 minutes.
+
+Case number: CAS-7654321-A1B2C3
+
+Kind regards,
+Eurostar Customer Care
+`;
+
+/**
+ * Rejection in French.
+ */
+export const FRENCH_REJECTION_EMAIL = `
+Bonjour Madame Dupont,
+
+Nous vous remercions pour votre demande d'indemnisation.
+
+Après vérification, votre demande a été refusée car le retard était inférieur à 60 minutes.
+
+Numéro de dossier : 55512345
+Référence de réservation : QRS456
+
+Cordialement,
+Le service clients Eurostar
+`;
+
+/**
+ * A booking confirmation, which is not a reply to a claim.
+ */
+export const CONFIRMATION_EMAIL = `
+Your Eurostar booking confirmation
+
+Thank you for booking with Eurostar!
+
+Booking Reference: ABC123
+Train: Eurostar 9007
+`;
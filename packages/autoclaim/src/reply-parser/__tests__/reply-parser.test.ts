@@ -0,0 +1,108 @@
+/**
+ * Tests for the Eurostar claim reply parser.
+ */
+
+import { describe, it, expect } from 'vitest';
+import { parseClaimReplyEmail } from '../parser.js';
+import { detectReplyLanguage } from '../patterns.js';
+import { ParseErrorCode } from '../../email-parser/types.js';
+import {
+  ACKNOWLEDGEMENT_EMAIL,
+  CASH_APPROVAL_EMAIL,
+  VOUCHER_APPROVAL_EMAIL,
+  REJECTION_EMAIL,
+  FRENCH_REJECTION_EMAIL,
+  CONFIRMATION_EMAIL,
+} from './fixtures.js';
+
+describe('parseClaimReplyEmail', () => {
+  it('reads an acknowledgement with its case number and booking', () => {
+    const result = parseClaimReplyEmail(ACKNOWLEDGEMENT_EMAIL);
+
+    expect(result.isOk() && result.value).toEqual({
+      kind: 'acknowledged',
+      caseReference: 'CAS-1234567-K8L2M4',
+      pnr: 'ABC123',
+      amount: null,
+      currency: null,
+      payoutType: null,
+      voucherCode: null,
+      rejectionReason: null,
+    });
+  });
+
+  it('reads a cash approval from HTML', () => {
+    const result = parseClaimReplyEmail(CASH_APPROVAL_EMAIL);
+
+    expect(result.isOk()).toBe(true);
+    if (result.isOk()) {
+      expect(result.value).toMatchObject({
+        kind: 'approved',
+        caseReference: 'CAS-1234567-K8L2M4',
+        pnr: 'ABC123',
+        amount: 31.5,
+        currency: 'GBP',
+        payoutType: 'cash',
+        voucherCode: null,
+      });
+    }
+  });
+
+  it('reads a voucher approval with its code', () => {
+    const result = parseClaimReplyEmail(VOUCHER_APPROVAL_EMAIL);
+
+    expect(result.isOk()).toBe(true);
+    if (result.isOk()) {
+      expect(result.value).toMatchObject({
+        kind: 'approved',
+        caseReference: '87654321',
+        pnr: 'XYZ789',
+        amount: 60,
+        currency: 'EUR',
+        payoutType: 'voucher',
+        voucherCode: 'EV-9X7Y5Z3W',
+      });
+    }
+  });
+
+  it('reads a rejection before the thanks for the claim', () => {
+    const result = parseClaimReplyEmail(REJECTION_EMAIL);
+
+    expect(result.isOk()).toBe(true);
+    if (result.isOk()) {
+      expect(result.value).toMatchObject({
+        kind: 'rejected',
+        caseReference: 'CAS-7654321-A1B2C3',
+        pnr: 'ABC123',
+        amount: null,
+        payoutType: null,
+      });
+      expect(result.value.rejectionReason).toBe(
+        'Having checked the journey, we are unable to approve your claim as your train arrived 42 minutes late.'
+      );
+    }
+  });
+
+  it('reads a French rejection', () => {
+    expect(detectReplyLanguage(FRENCH_REJECTION_EMAIL)).toBe('fr');
+
+    const result = parseClaimReplyEmail(FRENCH_REJECTION_EMAIL);
+
+    expect(result.isOk()).toBe(true);
+    if (result.isOk()) {
+      expect(result.value).toMatchObject({
+        kind: 'rejected',
+        caseReference: '55512345',
+        pnr: 'QRS456',
+      });
+      expect(result.value.rejectionReason).toContain('le retard était inférieur à 60 minutes');
+    }
+  });
+
+  it('rejects emails that are not replies to a claim', () => {
+    const result = parseClaimReplyEmail(CONFIRMATION_EMAIL);
+
+    expect(result.isErr() && result.error.code).toBe(ParseErrorCode.UNRECOGNIZED_REPLY);
+    expect(parseClaimReplyEmail('   ').isErr()).toBe(true);
+  });
+});
@@ -0,0 +1,8 @@
+/**
+ * Reply parser module for reading Eurostar customer care replies to claims.
+ */
+
+export { parseClaimReplyEmail } from './parser.js';
+export { REPLY_PATTERNS, detectReplyLanguage } from './patterns.js';
+export type { ReplyLanguage, ReplyPatterns } from './patterns.js';
+export type { ClaimReplyKind, ParsedClaimReply } from './types.js';
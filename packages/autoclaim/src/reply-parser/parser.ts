@@ -0,0 +1,136 @@
+/**
+ * Parser for replies from Eurostar customer care about delay compensation
+ * claims: acknowledgements, approvals and rejections.
+ */
+
+import { Result, ok, err } from '@eurostar/core/result';
+import { parseAmount, preprocessEmail } from '../email-parser/parser.js';
+import { CURRENCY_MAP } from '../email-parser/patterns.js';
+import { ParseError, ParseErrorCode, createParseError } from '../email-parser/types.js';
+import type { ClaimReplyKind, ParsedClaimReply } from './types.js';
+import { REPLY_PATTERNS, detectReplyLanguage, type ReplyPatterns } from './patterns.js';
+
+/** Longest rejection reason the outcome endpoint accepts */
+const MAX_REASON_LENGTH = 1000;
+
+/**
+ * Finds what the reply says about the claim.
+ */
+function findKind(text: string, patterns: ReplyPatterns): { kind: ClaimReplyKind; match: RegExpMatchArray } | null {
+  for (const [kind, pattern] of patterns.kinds) {
+    const match = text.match(pattern);
+    if (match) {
+      return { kind, match };
+    }
+  }
+  return null;
+}
+
+/**
+ * Finds a case number. Case numbers always have a digit, which tells them
+ * apart from words following a "reference" label.
+ */
+function findCaseReference(text: string, patterns: ReplyPatterns): string | null {
+  const value = text.match(patterns.caseReference)?.[1]?.toUpperCase();
+  return value && /\d/.test(value) ? value : null;
+}
+
+/**
+ * Finds the amount paid. Returns null unless both an amount and a
+ * currency are found.
+ */
+function findAmount(
+  text: string,
+  patterns: ReplyPatterns
+): { amount: number; currency: 'EUR' | 'GBP' } | null {
+  const match = text.match(patterns.amount);
+  if (!match?.[2]) return null;
+
+  const marker = (match[1] ?? match[3])?.toLowerCase();
+  const currency = marker ? CURRENCY_MAP[marker] : undefined;
+  const amount = parseAmount(match[2]);
+
+  return currency && amount !== null && amount > 0 ? { amount, currency } : null;
+}
+
+/**
+ * Gets the sentence a match is in, for the reason given for a rejection.
+ */
+function getSentence(text: string, match: RegExpMatchArray): string {
+  const index = match.index ?? 0;
+  const before = text.slice(0, index);
+  const start = Math.max(before.lastIndexOf('. '), before.lastIndexOf('\n')) + 1;
+  const rest = text.slice(index);
+  const end = rest.search(/\.(?:\s|$)|\n/);
+  const sentence = text
+    .slice(start, end === -1 ? text.length : index + end + 1)
+    .replace(/\s+/g, ' ')
+    .trim();
+  return sentence.slice(0, MAX_REASON_LENGTH);
+}
+
+/**
+ * Reads a reply with one language's patterns.
+ */
+function parseWithPatterns(text: string, patterns: ReplyPatterns): ParsedClaimReply | null {
+  const found = findKind(text, patterns);
+  if (!found) {
+    return null;
+  }
+
+  const { kind } = found;
+  const approved = kind === 'approved';
+  const payment = approved ? findAmount(text, patterns) : null;
+  const voucherCode = approved ? (text.match(patterns.voucherCode)?.[1]?.toUpperCase() ?? null) : null;
+  const payoutType = !approved
+    ? null
+    : voucherCode || patterns.voucher.test(text)
+      ? 'voucher'
+      : patterns.cash.test(text)
+        ? 'cash'
+        : null;
+
+  return {
+    kind,
+    caseReference: findCaseReference(text, patterns),
+    pnr: text.match(patterns.pnr)?.[1]?.toUpperCase() ?? null,
+    amount: payment?.amount ?? null,
+    currency: payment?.currency ?? null,
+    payoutType,
+    voucherCode,
+    rejectionReason: kind === 'rejected' ? getSentence(text, found.match) : null,
+  };
+}
+
+/**
+ * Parses a reply from Eurostar customer care about a claim.
+ *
+ * The reply's language is detected from its wording, and English is tried
+ * as well when the detected language doesn't recognise it.
+ *
+ * @param emailBody - The raw email body (HTML or plain text)
+ * @returns Result containing the parsed reply, or UNRECOGNIZED_REPLY when
+ *   the email isn't an acknowledgement, approval or rejection of a claim
+ */
+export function parseClaimReplyEmail(emailBody: string): Result<ParsedClaimReply, ParseError> {
+  if (!emailBody || typeof emailBody !== 'string' || emailBody.trim().length === 0) {
+    return err(createParseError(ParseErrorCode.EMPTY_INPUT, 'Email body is empty or invalid'));
+  }
+
+  const text = preprocessEmail(emailBody);
+  const language = detectReplyLanguage(text);
+  const reply =
+    parseWithPatterns(text, REPLY_PATTERNS[language]) ??
+    (language === 'en' ? null : parseWithPatterns(text, REPLY_PATTERNS.en));
+
+  if (!reply) {
+    return err(
+      createParseError(
+        ParseErrorCode.UNRECOGNIZED_REPLY,
+        'Email is not an acknowledgement, approval or rejection of a claim from Eurostar'
+      )
+    );
+  }
+
+  return ok(reply);
+}
@@ -0,0 +1,131 @@
+/**
+ * Patterns for replies from Eurostar customer care about claims.
+ *
+ * TODO: Like the booking patterns, these follow the usual wording of
+ * customer care replies and need checking against real emails.
+ */
+
+import type { ClaimReplyKind } from './types.js';
+
+export type ReplyLanguage = 'en' | 'fr';
+
+/**
+ * The patterns for one language. Each captures its value in group 1,
+ * except the amount pattern: currency before (1) or after (3) the amount (2).
+ */
+export interface ReplyPatterns {
+  /** Words that mark a reply as written in the language */
+  markers: RegExp;
+  /** Phrases that say what the reply is, checked in this order */
+  kinds: Array<[ClaimReplyKind, RegExp]>;
+  caseReference: RegExp;
+  pnr: RegExp;
+  amount: RegExp;
+  voucherCode: RegExp;
+  /** Mentions of an e-voucher payout */
+  voucher: RegExp;
+  /** Mentions of a cash payout */
+  cash: RegExp;
+}
+
+/**
+ * Currency markers accepted around an amount: symbol or ISO code.
+ */
+const CURRENCY = '(£|€|GBP|EUR)';
+
+/**
+ * Amount with optional thousands separators and decimals, resolved by the
+ * booking parser's parseAmount.
+ */
+const AMOUNT = '(\\d[\\d.,]*)';
+
+/**
+ * Case numbers and voucher codes: letters, digits and dashes.
+ */
+const CODE = '([A-Z0-9][A-Z0-9-]{4,31})';
+
+/**
+ * Builds an amount pattern from the words that introduce it.
+ */
+function amountPattern(labels: string): RegExp {
+  return new RegExp(
+    `(?:${labels})[^\\d£€\\n]{0,30}?${CURRENCY}?[ \\t]*${AMOUNT}(?:[ \\t]*${CURRENCY})?`,
+    'i'
+  );
+}
+
+export const REPLY_PATTERNS: Record<ReplyLanguage, ReplyPatterns> = {
+  en: {
+    markers:
+      /\b(?:claim|request|compensation|received|approved|unable|voucher|refund|regards)\b/gi,
+    // A rejection often says it is unable to approve, so it is checked first
+    kinds: [
+      [
+        'rejected',
+        /\b(?:(?:unable|not able) to (?:approve|accept|offer|process|pay)|(?:is not|isn't|was not|wasn't|are not|aren't) eligible|not eligible for (?:compensation|delay compensation)|(?:has been|was) (?:rejected|declined|refused)|cannot offer (?:you )?(?:any )?compensation)\b/i,
+      ],
+      [
+        'approved',
+        /\b(?:(?:claim|request) has been (?:approved|accepted)|(?:pleased|happy) to (?:confirm|offer|let you know)|we have (?:approved|processed|issued|refunded)|(?:has|have) been (?:refunded|issued))\b/i,
+      ],
+      [
+        'acknowledged',
+        /\b(?:(?:we(?:'ve| have)|we've) received your (?:claim|request|compensation request)|thank you for (?:your|submitting your) (?:claim|request|compensation request)|your (?:claim|request) has been received)\b/i,
+      ],
+    ],
+    caseReference:
+      /\b(?:case|claim|request)\s*(?:number|no\.?|reference|ref\.?|id)\s*[:#]?\s*([A-Z0-9][A-Z0-9-]{4,31})\b/i,
+    pnr: /\b(?:booking\s*reference|PNR)\s*[:#]?\s*([A-Z0-9]{6})\b/i,
+    amount: amountPattern(
+      'compensation|refund|e-?voucher|voucher|amount|payment|sum'
+    ),
+    voucherCode: new RegExp(
+      `\\b(?:e-?voucher|voucher)\\s*(?:code|number)\\s*[:#]?\\s*${CODE}\\b`,
+      'i'
+    ),
+    voucher: /\be-?vouchers?\b/i,
+    cash: /\b(?:refund(?:ed)?|bank (?:account|transfer)|original (?:payment|card)|(?:credit|debit) card|cash)\b/i,
+  },
+  fr: {
+    markers:
+      /(?:\bvotre\b|\bdemande\b|réclamation|indemnisation|remboursement|cordialement|\bbonjour\b)/gi,
+    kinds: [
+      [
+        'rejected',
+        /(?:ne (?:pouvons|sommes) pas (?:en mesure )?(?:de |d')?(?:donner suite|accepter|vous proposer|vous offrir|vous verser)|n'(?:est|êtes) pas éligible|a été (?:refusée|rejetée))/i,
+      ],
+      [
+        'approved',
+        /(?:(?:demande|réclamation) a été (?:acceptée|approuvée|validée)|nous avons le plaisir de|nous avons (?:procédé au remboursement|émis|remboursé))/i,
+      ],
+      [
+        'acknowledged',
+        /(?:nous avons bien reçu votre (?:demande|réclamation)|merci pour votre (?:demande|réclamation))/i,
+      ],
+    ],
+    caseReference:
+      /(?:numéro de (?:dossier|demande|réclamation)|référence (?:du dossier|de (?:la |votre )?demande))\s*:?\s*([A-Z0-9][A-Z0-9-]{4,31})\b/i,
+    pnr: /(?:référence de (?:la |votre )?réservation|PNR)\s*:?\s*([A-Z0-9]{6})\b/i,
+    amount: amountPattern(
+      "indemnisation|compensation|remboursement|bon d'achat|e-?voucher|montant"
+    ),
+    voucherCode: new RegExp(
+      `(?:code (?:du |de l')?(?:e-?voucher|bon(?: d'achat)?)|code promo)\\s*:?\\s*${CODE}\\b`,
+      'i'
+    ),
+    voucher: /(?:e-?voucher|bon d'achat)/i,
+    cash: /(?:rembours|virement|carte bancaire)/i,
+  },
+};
+
+/**
+ * Detects the language of a reply: the language with the most marker
+ * words, English on a tie.
+ *
+ * @param text - Preprocessed email text
+ */
+export function detectReplyLanguage(text: string): ReplyLanguage {
+  const french = text.match(REPLY_PATTERNS.fr.markers)?.length ?? 0;
+  const english = text.match(REPLY_PATTERNS.en.markers)?.length ?? 0;
+  return french > english ? 'fr' : 'en';
+}
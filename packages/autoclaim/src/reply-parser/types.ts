@@ -0,0 +1,19 @@
+/**
+ * Types for the Eurostar claim reply parser.
+ */
+
+import type { ClaimReplyDetails } from '@eurostar/core/db';
+
+/**
+ * What a reply from Eurostar customer care says about a claim.
+ */
+export type ClaimReplyKind = ClaimReplyDetails['kind'];
+
+/**
+ * A reply from Eurostar customer care about a delay compensation claim:
+ * an acknowledgement, an approval or a rejection. Fields not found in the
+ * email are null.
+ *
+ * Amounts are as written in the email; currency is set with amount.
+ */
+export type ParsedClaimReply = ClaimReplyDetails;
@@ -16,6 +16,7 @@ dotenv.config({ path: path.resolve(__dirname, '../.env') });
 import type { Worker } from 'bullmq';
 import type { Redis } from 'ioredis';
 import { createDb, type Database } from '@eurostar/core/db';
+import { DatabaseExchangeRateProvider } from '@eurostar/core/exchange-rates';
 import {
   createGtfsWorker,
   createRedisConnection,
@@ -39,6 +40,7 @@ import {
   shutdownNotificationWorker,
 } from './notifications/worker.js';
 import { NotificationService } from './notifications/service.js';
+import { ClaimGeneratorService } from './claim-generator/index.js';
 import type { NotificationJobData, NotificationJobResult } from './notifications/types.js';
 
 /**
@@ -53,6 +55,9 @@ interface ServerConfig {
   corsOrigin: string | undefined;
   gtfsPollIntervalMs: number;
   delayMonitorIntervalMs: number;
+  inboundEmailDomain: string | undefined;
+  inboundEmailSecret: string | undefined;
+  inboundEmailAuthservIds: string[];
 }
 
 /**
@@ -89,6 +94,12 @@ function loadEnv(): ServerConfig {
     corsOrigin,
     gtfsPollIntervalMs,
     delayMonitorIntervalMs,
+    inboundEmailDomain: process.env['INBOUND_EMAIL_DOMAIN'],
+    inboundEmailSecret: process.env['INBOUND_EMAIL_SECRET'],
+    inboundEmailAuthservIds: (process.env['INBOUND_EMAIL_AUTHSERV_IDS'] ?? '')
+      .split(',')
+      .map((id) => id.trim())
+      .filter(Boolean),
   };
 }
 
@@ -130,7 +141,9 @@ async function startWorkers(
           'Booking eligible for claim'
         );
       }
-    }
+    },
+    undefined,
+    new ClaimGeneratorService({ exchangeRates: new DatabaseExchangeRateProvider(db) })
   );
   log.info('Delay monitor worker started');
 
@@ -248,6 +261,14 @@ async function main(): Promise<void> {
       origin: env.corsOrigin ?? true,
       credentials: true,
     },
+    inboundEmail:
+      env.inboundEmailDomain && env.inboundEmailSecret
+        ? {
+            domain: env.inboundEmailDomain,
+            secret: env.inboundEmailSecret,
+            authservIds: env.inboundEmailAuthservIds,
+          }
+        : undefined,
   });
 
   // Graceful shutdown handler
@@ -0,0 +1,93 @@
+CREATE TABLE "gtfs_agencies" (
+	"agency_id" varchar(64) PRIMARY KEY NOT NULL,
+	"name" varchar(255) NOT NULL,
+	"url" text,
+	"timezone" varchar(64) NOT NULL,
+	"lang" varchar(10),
+	"feed_version_id" uuid NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE "gtfs_calendar" (
+	"service_id" varchar(64) PRIMARY KEY NOT NULL,
+	"monday" boolean NOT NULL,
+	"tuesday" boolean NOT NULL,
+	"wednesday" boolean NOT NULL,
+	"thursday" boolean NOT NULL,
+	"friday" boolean NOT NULL,
+	"saturday" boolean NOT NULL,
+	"sunday" boolean NOT NULL,
+	"start_date" date NOT NULL,
+	"end_date" date NOT NULL,
+	"feed_version_id" uuid NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE "gtfs_calendar_dates" (
+	"service_id" varchar(64) NOT NULL,
+	"date" date NOT NULL,
+	"exception_type" integer NOT NULL,
+	"feed_version_id" uuid NOT NULL,
+	CONSTRAINT "gtfs_calendar_dates_service_id_date_pk" PRIMARY KEY("service_id","date")
+);
+--> statement-breakpoint
+CREATE TABLE "gtfs_feed_versions" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"content_hash" varchar(64) NOT NULL,
+	"feed_version" varchar(100),
+	"source" text NOT NULL,
+	"feed_start_date" date,
+	"feed_end_date" date,
+	"trip_count" integer DEFAULT 0 NOT NULL,
+	"stop_time_count" integer DEFAULT 0 NOT NULL,
+	"imported_at" timestamp with time zone DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE "gtfs_routes" (
+	"route_id" varchar(64) PRIMARY KEY NOT NULL,
+	"agency_id" varchar(64),
+	"short_name" varchar(100),
+	"long_name" varchar(255),
+	"route_type" integer NOT NULL,
+	"feed_version_id" uuid NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE "gtfs_stop_times" (
+	"trip_id" varchar(64) NOT NULL,
+	"stop_sequence" integer NOT NULL,
+	"stop_id" varchar(64) NOT NULL,
+	"arrival_time" varchar(8),
+	"departure_time" varchar(8),
+	"feed_version_id" uuid NOT NULL,
+	CONSTRAINT "gtfs_stop_times_trip_id_stop_sequence_pk" PRIMARY KEY("trip_id","stop_sequence")
+);
+--> statement-breakpoint
+CREATE TABLE "gtfs_stops" (
+	"stop_id" varchar(64) PRIMARY KEY NOT NULL,
+	"name" varchar(255) NOT NULL,
+	"lat" numeric(9, 6),
+	"lon" numeric(9, 6),
+	"timezone" varchar(64),
+	"parent_station" varchar(64),
+	"feed_version_id" uuid NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE "gtfs_trips" (
+	"trip_id" varchar(64) PRIMARY KEY NOT NULL,
+	"route_id" varchar(64) NOT NULL,
+	"service_id" varchar(64) NOT NULL,
+	"short_name" varchar(20),
+	"headsign" varchar(255),
+	"direction_id" integer,
+	"feed_version_id" uuid NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "gtfs_agencies" ADD CONSTRAINT "gtfs_agencies_feed_version_id_gtfs_feed_versions_id_fk" FOREIGN KEY ("feed_version_id") REFERENCES "public"."gtfs_feed_versions"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "gtfs_calendar" ADD CONSTRAINT "gtfs_calendar_feed_version_id_gtfs_feed_versions_id_fk" FOREIGN KEY ("feed_version_id") REFERENCES "public"."gtfs_feed_versions"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "gtfs_calendar_dates" ADD CONSTRAINT "gtfs_calendar_dates_feed_version_id_gtfs_feed_versions_id_fk" FOREIGN KEY ("feed_version_id") REFERENCES "public"."gtfs_feed_versions"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "gtfs_routes" ADD CONSTRAINT "gtfs_routes_feed_version_id_gtfs_feed_versions_id_fk" FOREIGN KEY ("feed_version_id") REFERENCES "public"."gtfs_feed_versions"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "gtfs_stop_times" ADD CONSTRAINT "gtfs_stop_times_feed_version_id_gtfs_feed_versions_id_fk" FOREIGN KEY ("feed_version_id") REFERENCES "public"."gtfs_feed_versions"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "gtfs_stops" ADD CONSTRAINT "gtfs_stops_feed_version_id_gtfs_feed_versions_id_fk" FOREIGN KEY ("feed_version_id") REFERENCES "public"."gtfs_feed_versions"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "gtfs_trips" ADD CONSTRAINT "gtfs_trips_feed_version_id_gtfs_feed_versions_id_fk" FOREIGN KEY ("feed_version_id") REFERENCES "public"."gtfs_feed_versions"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE UNIQUE INDEX "idx_gtfs_feed_versions_content_hash" ON "gtfs_feed_versions" USING btree ("content_hash");--> statement-breakpoint
+CREATE INDEX "idx_gtfs_stop_times_stop_id" ON "gtfs_stop_times" USING btree ("stop_id");--> statement-breakpoint
+CREATE INDEX "idx_gtfs_trips_short_name" ON "gtfs_trips" USING btree ("short_name");--> statement-breakpoint
+CREATE INDEX "idx_gtfs_trips_service_id" ON "gtfs_trips" USING btree ("service_id");
\ No newline at end of file
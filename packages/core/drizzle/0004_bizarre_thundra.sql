@@ -0,0 +1,13 @@
+CREATE TABLE "train_stop_events" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"train_id" uuid NOT NULL,
+	"station_code" varchar(64) NOT NULL,
+	"stop_sequence" integer,
+	"scheduled_arrival" timestamp with time zone,
+	"arrival_delay_minutes" integer NOT NULL,
+	"departure_delay_minutes" integer NOT NULL,
+	"observed_at" timestamp with time zone DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "train_stop_events" ADD CONSTRAINT "train_stop_events_train_id_trains_id_fk" FOREIGN KEY ("train_id") REFERENCES "public"."trains"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "idx_train_stop_events_train_station" ON "train_stop_events" USING btree ("train_id","station_code","observed_at");
\ No newline at end of file
@@ -0,0 +1,26 @@
+CREATE TABLE "service_alerts" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"alert_id" varchar(100) NOT NULL,
+	"cause" varchar(32) NOT NULL,
+	"effect" varchar(32) NOT NULL,
+	"header_text" jsonb NOT NULL,
+	"description_text" jsonb NOT NULL,
+	"url" text,
+	"active_periods" jsonb NOT NULL,
+	"informed_entities" jsonb NOT NULL,
+	"first_seen_at" timestamp with time zone DEFAULT now() NOT NULL,
+	"last_seen_at" timestamp with time zone DEFAULT now() NOT NULL,
+	CONSTRAINT "service_alerts_alert_id_unique" UNIQUE("alert_id")
+);
+--> statement-breakpoint
+CREATE TABLE "train_alerts" (
+	"train_id" uuid NOT NULL,
+	"alert_id" uuid NOT NULL,
+	"created_at" timestamp with time zone DEFAULT now() NOT NULL,
+	CONSTRAINT "train_alerts_train_id_alert_id_pk" PRIMARY KEY("train_id","alert_id")
+);
+--> statement-breakpoint
+ALTER TABLE "train_alerts" ADD CONSTRAINT "train_alerts_train_id_trains_id_fk" FOREIGN KEY ("train_id") REFERENCES "public"."trains"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "train_alerts" ADD CONSTRAINT "train_alerts_alert_id_service_alerts_id_fk" FOREIGN KEY ("alert_id") REFERENCES "public"."service_alerts"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "idx_service_alerts_last_seen_at" ON "service_alerts" USING btree ("last_seen_at");--> statement-breakpoint
+CREATE INDEX "idx_train_alerts_alert_id" ON "train_alerts" USING btree ("alert_id");
\ No newline at end of file
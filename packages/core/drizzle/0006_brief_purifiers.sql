@@ -0,0 +1,7 @@
+CREATE TYPE "public"."claim_type" AS ENUM('delay', 'cancellation');--> statement-breakpoint
+CREATE TYPE "public"."stop_schedule_relationship" AS ENUM('scheduled', 'skipped', 'no_data');--> statement-breakpoint
+CREATE TYPE "public"."trip_schedule_relationship" AS ENUM('scheduled', 'added', 'canceled');--> statement-breakpoint
+ALTER TABLE "bookings" ADD COLUMN "cancelled_at" timestamp with time zone;--> statement-breakpoint
+ALTER TABLE "claims" ADD COLUMN "claim_type" "claim_type" DEFAULT 'delay' NOT NULL;--> statement-breakpoint
+ALTER TABLE "train_stop_events" ADD COLUMN "schedule_relationship" "stop_schedule_relationship" DEFAULT 'scheduled' NOT NULL;--> statement-breakpoint
+ALTER TABLE "trains" ADD COLUMN "schedule_relationship" "trip_schedule_relationship" DEFAULT 'scheduled' NOT NULL;
\ No newline at end of file
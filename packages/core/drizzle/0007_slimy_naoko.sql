@@ -0,0 +1,4 @@
+CREATE TYPE "public"."currency" AS ENUM('EUR', 'GBP');--> statement-breakpoint
+ALTER TABLE "bookings" ADD COLUMN "ticket_price" numeric(10, 2);--> statement-breakpoint
+ALTER TABLE "bookings" ADD COLUMN "ticket_currency" "currency";--> statement-breakpoint
+ALTER TABLE "claims" ADD COLUMN "currency" "currency" DEFAULT 'EUR' NOT NULL;
\ No newline at end of file
@@ -0,0 +1,10 @@
+CREATE TABLE "exchange_rates" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"date" date NOT NULL,
+	"currency" "currency" NOT NULL,
+	"rate" numeric(12, 6) NOT NULL,
+	"source" text NOT NULL,
+	"imported_at" timestamp with time zone DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+CREATE UNIQUE INDEX "idx_exchange_rates_date_currency" ON "exchange_rates" USING btree ("date","currency");
\ No newline at end of file
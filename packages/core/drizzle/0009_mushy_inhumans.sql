@@ -0,0 +1 @@
+ALTER TABLE "trains" ADD COLUMN "delay_cause_override" varchar(32);
\ No newline at end of file
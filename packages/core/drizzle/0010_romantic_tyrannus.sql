@@ -0,0 +1,26 @@
+CREATE TABLE "booking_passengers" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"booking_id" uuid NOT NULL,
+	"position" integer NOT NULL,
+	"passenger_name" varchar(255) NOT NULL,
+	"tcn" varchar(12) NOT NULL,
+	"coach" varchar(3),
+	"seat" varchar(5),
+	"ticket_price" numeric(10, 2),
+	"ticket_currency" "currency",
+	"created_at" timestamp with time zone DEFAULT now() NOT NULL,
+	"updated_at" timestamp with time zone DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "claims" DROP CONSTRAINT "claims_booking_id_unique";--> statement-breakpoint
+ALTER TABLE "claims" ADD COLUMN "passenger_id" uuid;--> statement-breakpoint
+ALTER TABLE "booking_passengers" ADD CONSTRAINT "booking_passengers_booking_id_bookings_id_fk" FOREIGN KEY ("booking_id") REFERENCES "public"."bookings"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE UNIQUE INDEX "idx_booking_passengers_booking_position" ON "booking_passengers" USING btree ("booking_id","position");--> statement-breakpoint
+CREATE UNIQUE INDEX "idx_booking_passengers_booking_tcn" ON "booking_passengers" USING btree ("booking_id","tcn");--> statement-breakpoint
+-- Existing bookings become single-passenger bookings led by their booker
+INSERT INTO "booking_passengers" ("booking_id", "position", "passenger_name", "tcn", "coach", "seat", "ticket_price", "ticket_currency")
+SELECT "id", 0, "passenger_name", "tcn", "coach", "seat", "ticket_price", "ticket_currency" FROM "bookings";--> statement-breakpoint
+UPDATE "claims" SET "passenger_id" = "booking_passengers"."id" FROM "booking_passengers" WHERE "booking_passengers"."booking_id" = "claims"."booking_id";--> statement-breakpoint
+ALTER TABLE "claims" ALTER COLUMN "passenger_id" SET NOT NULL;--> statement-breakpoint
+ALTER TABLE "claims" ADD CONSTRAINT "claims_passenger_id_booking_passengers_id_fk" FOREIGN KEY ("passenger_id") REFERENCES "public"."booking_passengers"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "claims" ADD CONSTRAINT "claims_passenger_id_unique" UNIQUE("passenger_id");
\ No newline at end of file
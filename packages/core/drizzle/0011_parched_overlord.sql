@@ -0,0 +1,3 @@
+ALTER TABLE "bookings" ADD COLUMN "trip_group_id" uuid;--> statement-breakpoint
+ALTER TABLE "bookings" ADD COLUMN "trip_leg" integer;--> statement-breakpoint
+CREATE INDEX "idx_bookings_trip_group_id" ON "bookings" USING btree ("trip_group_id");
\ No newline at end of file
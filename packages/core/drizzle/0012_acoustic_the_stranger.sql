@@ -0,0 +1,4 @@
+CREATE EXTENSION IF NOT EXISTS pgcrypto;--> statement-breakpoint
+ALTER TABLE "users" ADD COLUMN "inbound_email_token" varchar(32) DEFAULT encode(gen_random_bytes(16), 'hex') NOT NULL;--> statement-breakpoint
+ALTER TABLE "users" ALTER COLUMN "inbound_email_token" DROP DEFAULT;--> statement-breakpoint
+ALTER TABLE "users" ADD CONSTRAINT "users_inbound_email_token_unique" UNIQUE("inbound_email_token");
\ No newline at end of file
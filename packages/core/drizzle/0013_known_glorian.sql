@@ -0,0 +1,3 @@
+ALTER TABLE "users" ADD COLUMN "calendar_token" varchar(64) DEFAULT encode(gen_random_bytes(16), 'hex') NOT NULL;--> statement-breakpoint
+ALTER TABLE "users" ALTER COLUMN "calendar_token" DROP DEFAULT;--> statement-breakpoint
+ALTER TABLE "users" ADD CONSTRAINT "users_calendar_token_unique" UNIQUE("calendar_token");
\ No newline at end of file
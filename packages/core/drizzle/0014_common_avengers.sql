@@ -0,0 +1,18 @@
+CREATE TYPE "public"."claim_event_actor" AS ENUM('user', 'system');--> statement-breakpoint
+CREATE TABLE "claim_status_events" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"claim_id" uuid NOT NULL,
+	"from_status" "claim_status",
+	"to_status" "claim_status" NOT NULL,
+	"actor" "claim_event_actor" NOT NULL,
+	"actor_user_id" uuid,
+	"note" text,
+	"created_at" timestamp with time zone DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "claim_status_events" ADD CONSTRAINT "claim_status_events_claim_id_claims_id_fk" FOREIGN KEY ("claim_id") REFERENCES "public"."claims"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "claim_status_events" ADD CONSTRAINT "claim_status_events_actor_user_id_users_id_fk" FOREIGN KEY ("actor_user_id") REFERENCES "public"."users"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "idx_claim_status_events_claim_id" ON "claim_status_events" USING btree ("claim_id","created_at");--> statement-breakpoint
+-- Existing claims start their history at the status they have now
+INSERT INTO "claim_status_events" ("claim_id", "from_status", "to_status", "actor", "note", "created_at")
+SELECT "id", NULL, "status", 'system', 'Status when claim history started', "updated_at" FROM "claims";
@@ -0,0 +1,5 @@
+ALTER TABLE "claims" ADD COLUMN "eurostar_reference" varchar(32);--> statement-breakpoint
+ALTER TABLE "claims" ADD COLUMN "decided_at" timestamp with time zone;--> statement-breakpoint
+ALTER TABLE "claims" ADD COLUMN "received_amount" numeric(10, 2);--> statement-breakpoint
+ALTER TABLE "claims" ADD COLUMN "payout_type" "compensation_type";--> statement-breakpoint
+ALTER TABLE "claims" ADD COLUMN "rejection_reason" text;
\ No newline at end of file
@@ -0,0 +1,20 @@
+CREATE TYPE "public"."claim_reply_review_reason" AS ENUM('no_match', 'ambiguous', 'incomplete', 'invalid_status');--> statement-breakpoint
+CREATE TYPE "public"."claim_reply_review_status" AS ENUM('pending', 'applied', 'dismissed');--> statement-breakpoint
+ALTER TYPE "public"."claim_event_actor" ADD VALUE 'email';--> statement-breakpoint
+CREATE TABLE "claim_reply_reviews" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"user_id" uuid NOT NULL,
+	"reason" "claim_reply_review_reason" NOT NULL,
+	"status" "claim_reply_review_status" DEFAULT 'pending' NOT NULL,
+	"subject" text,
+	"reply" jsonb NOT NULL,
+	"candidate_claim_ids" jsonb DEFAULT '[]'::jsonb NOT NULL,
+	"claim_id" uuid,
+	"resolved_at" timestamp with time zone,
+	"created_at" timestamp with time zone DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "claims" ADD COLUMN "voucher_code" varchar(32);--> statement-breakpoint
+ALTER TABLE "claim_reply_reviews" ADD CONSTRAINT "claim_reply_reviews_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "claim_reply_reviews" ADD CONSTRAINT "claim_reply_reviews_claim_id_claims_id_fk" FOREIGN KEY ("claim_id") REFERENCES "public"."claims"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "idx_claim_reply_reviews_user_status" ON "claim_reply_reviews" USING btree ("user_id","status");
\ No newline at end of file
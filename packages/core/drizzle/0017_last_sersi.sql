@@ -0,0 +1,11 @@
+CREATE TABLE "claim_evidence" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"claim_id" uuid NOT NULL,
+	"snapshot" jsonb NOT NULL,
+	"content_hash" varchar(64) NOT NULL,
+	"created_at" timestamp with time zone DEFAULT now() NOT NULL,
+	CONSTRAINT "claim_evidence_claim_id_unique" UNIQUE("claim_id")
+);
+--> statement-breakpoint
+ALTER TABLE "train_stop_events" ADD COLUMN "feed_timestamp" timestamp with time zone;--> statement-breakpoint
+ALTER TABLE "claim_evidence" ADD CONSTRAINT "claim_evidence_claim_id_claims_id_fk" FOREIGN KEY ("claim_id") REFERENCES "public"."claims"("id") ON DELETE cascade ON UPDATE no action;
\ No newline at end of file
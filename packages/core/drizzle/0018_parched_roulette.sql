@@ -0,0 +1 @@
+ALTER TYPE "public"."claim_status" ADD VALUE 'withdrawn';
\ No newline at end of file
@@ -0,0 +1 @@
+ALTER TYPE "public"."claim_reply_review_reason" ADD VALUE 'unverified_sender';
\ No newline at end of file
@@ -0,0 +1 @@
+ALTER TABLE "bookings" ADD COLUMN "delay_cause_override" varchar(32);
\ No newline at end of file
@@ -28,6 +28,8 @@ const mockUser: User = {
   passwordHash: '$2b$12$hashedpassword',
   emailVerified: false,
   verificationToken: null,
+  inboundEmailToken: 'a1b2c3d4e5f60718293a4b5c6d7e8f90',
+  calendarToken: '0f1e2d3c4b5a69788796a5b4c3d2e1f0',
   createdAt: new Date('2024-01-01T00:00:00Z'),
   updatedAt: new Date('2024-01-01T00:00:00Z'),
 };
@@ -11,7 +11,10 @@ import {
   boolean,
   text,
   jsonb,
+  primaryKey,
+  uniqueIndex,
 } from 'drizzle-orm/pg-core';
+import { randomBytes } from 'node:crypto';
 import { relations } from 'drizzle-orm';
 
 // Enums
@@ -29,8 +32,46 @@ export const claimStatusEnum = pgEnum('claim_status', [
   'approved',
   'rejected',
   'expired',
+  'withdrawn',
 ]);
 
+export const claimTypeEnum = pgEnum('claim_type', ['delay', 'cancellation']);
+
+// Who moved a claim to a new status: the account holder, us automatically,
+// or a Eurostar reply the user forwarded
+export const claimEventActorEnum = pgEnum('claim_event_actor', [
+  'user',
+  'system',
+  'email',
+]);
+
+// Why a Eurostar reply to a claim is waiting for the user
+export const claimReplyReviewReasonEnum = pgEnum('claim_reply_review_reason', [
+  'no_match', // no claim matches the reply
+  'ambiguous', // several claims match the reply
+  'incomplete', // the reply lacks the amount or payout type
+  'invalid_status', // the matched claim can't take the update
+  'unverified_sender', // a forwarded reply not shown to come from Eurostar
+]);
+
+export const claimReplyReviewStatusEnum = pgEnum('claim_reply_review_status', [
+  'pending',
+  'applied',
+  'dismissed',
+]);
+
+export const currencyEnum = pgEnum('currency', ['EUR', 'GBP']);
+
+export const tripScheduleRelationshipEnum = pgEnum(
+  'trip_schedule_relationship',
+  ['scheduled', 'added', 'canceled']
+);
+
+export const stopScheduleRelationshipEnum = pgEnum(
+  'stop_schedule_relationship',
+  ['scheduled', 'skipped', 'no_data']
+);
+
 export const compensationTypeEnum = pgEnum('compensation_type', [
   'cash',
   'voucher',
@@ -50,6 +91,16 @@ export const users = pgTable('users', {
   passwordHash: varchar('password_hash', { length: 255 }),
   emailVerified: boolean('email_verified').notNull().default(false),
   verificationToken: varchar('verification_token', { length: 255 }),
+  // Local part of the user's booking forwarding address; 128 random bits per user
+  inboundEmailToken: varchar('inbound_email_token', { length: 32 })
+    .notNull()
+    .unique()
+    .$defaultFn(() => randomBytes(16).toString('hex')),
+  // Secret in the user's calendar feed URL (128 random bits); replaced to revoke old subscriptions
+  calendarToken: varchar('calendar_token', { length: 64 })
+    .notNull()
+    .unique()
+    .$defaultFn(() => randomBytes(16).toString('hex')),
   createdAt: timestamp('created_at', { withTimezone: true })
     .notNull()
     .defaultNow(),
@@ -75,7 +126,12 @@ export const trains = pgTable(
     }).notNull(),
     actualArrival: timestamp('actual_arrival', { withTimezone: true }),
     delayMinutes: integer('delay_minutes'),
+    scheduleRelationship: tripScheduleRelationshipEnum('schedule_relationship')
+      .notNull()
+      .default('scheduled'),
     trainType: trainTypeEnum('train_type').notNull(),
+    // Manually classified delay cause (GTFS-RT alert cause value), overrides alert causes
+    delayCauseOverride: varchar('delay_cause_override', { length: 32 }),
     createdAt: timestamp('created_at', { withTimezone: true })
       .notNull()
       .defaultNow(),
@@ -90,6 +146,36 @@ export const trains = pgTable(
   ]
 );
 
+// Train stop events table (per-station delays observed on each GTFS-RT poll)
+export const trainStopEvents = pgTable(
+  'train_stop_events',
+  {
+    id: uuid('id').primaryKey().defaultRandom(),
+    trainId: uuid('train_id')
+      .notNull()
+      .references(() => trains.id, { onDelete: 'cascade' }),
+    stationCode: varchar('station_code', { length: 64 }).notNull(), // GTFS stop_id, e.g. "FRLIL"
+    stopSequence: integer('stop_sequence'),
+    scheduleRelationship: stopScheduleRelationshipEnum('schedule_relationship')
+      .notNull()
+      .default('scheduled'),
+    scheduledArrival: timestamp('scheduled_arrival', { withTimezone: true }), // from static GTFS, if known
+    arrivalDelayMinutes: integer('arrival_delay_minutes').notNull(),
+    departureDelayMinutes: integer('departure_delay_minutes').notNull(),
+    observedAt: timestamp('observed_at', { withTimezone: true })
+      .notNull()
+      .defaultNow(),
+    feedTimestamp: timestamp('feed_timestamp', { withTimezone: true }), // GTFS-RT header timestamp
+  },
+  (table) => [
+    index('idx_train_stop_events_train_station').on(
+      table.trainId,
+      table.stationCode,
+      table.observedAt
+    ),
+  ]
+);
+
 // Bookings table
 export const bookings = pgTable(
   'bookings',
@@ -107,10 +193,16 @@ export const bookings = pgTable(
     journeyDate: date('journey_date', { mode: 'date' }).notNull(), // for matching before train exists
     origin: varchar('origin', { length: 10 }).notNull(), // station code
     destination: varchar('destination', { length: 10 }).notNull(), // station code
-    passengerName: varchar('passenger_name', { length: 255 }).notNull(),
+    passengerName: varchar('passenger_name', { length: 255 }).notNull(), // lead booker
     coach: varchar('coach', { length: 3 }), // nullable
     seat: varchar('seat', { length: 5 }), // nullable
     finalDelayMinutes: integer('final_delay_minutes'), // populated after journey
+    cancelledAt: timestamp('cancelled_at', { withTimezone: true }), // train cancelled or passenger's stop skipped
+    delayCauseOverride: varchar('delay_cause_override', { length: 32 }), // cause the user classified for this journey, overrides the train's
+    ticketPrice: decimal('ticket_price', { precision: 10, scale: 2 }), // fare paid by the lead booker, nullable
+    ticketCurrency: currencyEnum('ticket_currency'), // nullable, set with ticketPrice
+    tripGroupId: uuid('trip_group_id'), // shared by the legs of a return journey, null for one-way
+    tripLeg: integer('trip_leg'), // leg within the trip group, 0 = outbound, null for one-way
     createdAt: timestamp('created_at', { withTimezone: true })
       .notNull()
       .defaultNow(),
@@ -124,6 +216,39 @@ export const bookings = pgTable(
     index('idx_bookings_pnr').on(table.pnr),
     index('idx_bookings_train_id').on(table.trainId),
     index('idx_bookings_journey_date').on(table.journeyDate),
+    index('idx_bookings_trip_group_id').on(table.tripGroupId),
+  ]
+);
+
+// Booking passengers table (one row per traveller on a PNR; position 0 is the lead booker)
+export const bookingPassengers = pgTable(
+  'booking_passengers',
+  {
+    id: uuid('id').primaryKey().defaultRandom(),
+    bookingId: uuid('booking_id')
+      .notNull()
+      .references(() => bookings.id, { onDelete: 'cascade' }),
+    position: integer('position').notNull(), // order on the confirmation, 0 = lead booker
+    passengerName: varchar('passenger_name', { length: 255 }).notNull(),
+    tcn: varchar('tcn', { length: 12 }).notNull(), // each traveller has their own ticket
+    coach: varchar('coach', { length: 3 }), // nullable
+    seat: varchar('seat', { length: 5 }), // nullable
+    ticketPrice: decimal('ticket_price', { precision: 10, scale: 2 }), // fare paid by this passenger, nullable
+    ticketCurrency: currencyEnum('ticket_currency'), // nullable, set with ticketPrice
+    createdAt: timestamp('created_at', { withTimezone: true })
+      .notNull()
+      .defaultNow(),
+    updatedAt: timestamp('updated_at', { withTimezone: true })
+      .notNull()
+      .defaultNow()
+      .$onUpdate(() => new Date()),
+  },
+  (table) => [
+    uniqueIndex('idx_booking_passengers_booking_position').on(
+      table.bookingId,
+      table.position
+    ),
+    uniqueIndex('idx_booking_passengers_booking_tcn').on(table.bookingId, table.tcn),
   ]
 );
 
@@ -134,8 +259,12 @@ export const claims = pgTable(
     id: uuid('id').primaryKey().defaultRandom(),
     bookingId: uuid('booking_id')
       .notNull()
-      .references(() => bookings.id, { onDelete: 'cascade' })
-      .unique(),
+      .references(() => bookings.id, { onDelete: 'cascade' }),
+    passengerId: uuid('passenger_id')
+      .notNull()
+      .references(() => bookingPassengers.id, { onDelete: 'cascade' })
+      .unique(), // one claim per traveller
+    claimType: claimTypeEnum('claim_type').notNull().default('delay'),
     delayMinutes: integer('delay_minutes').notNull(),
     eligibleCashAmount: decimal('eligible_cash_amount', {
       precision: 10,
@@ -145,8 +274,16 @@ export const claims = pgTable(
       precision: 10,
       scale: 2,
     }),
+    currency: currencyEnum('currency').notNull().default('EUR'),
     status: claimStatusEnum('status').notNull().default('pending'),
     submittedAt: timestamp('submitted_at', { withTimezone: true }),
+    // Eurostar's decision, recorded from their reply
+    eurostarReference: varchar('eurostar_reference', { length: 32 }), // case number
+    decidedAt: timestamp('decided_at', { withTimezone: true }),
+    receivedAmount: decimal('received_amount', { precision: 10, scale: 2 }), // in the claim currency
+    payoutType: compensationTypeEnum('payout_type'),
+    rejectionReason: text('rejection_reason'),
+    voucherCode: varchar('voucher_code', { length: 32 }), // e-voucher paid out
     createdAt: timestamp('created_at', { withTimezone: true })
       .notNull()
       .defaultNow(),
@@ -161,6 +298,148 @@ export const claims = pgTable(
   ]
 );
 
+// Claim status events table (status history)
+export const claimStatusEvents = pgTable(
+  'claim_status_events',
+  {
+    id: uuid('id').primaryKey().defaultRandom(),
+    claimId: uuid('claim_id')
+      .notNull()
+      .references(() => claims.id, { onDelete: 'cascade' }),
+    fromStatus: claimStatusEnum('from_status'), // null when the claim was created
+    toStatus: claimStatusEnum('to_status').notNull(),
+    actor: claimEventActorEnum('actor').notNull(),
+    actorUserId: uuid('actor_user_id').references(() => users.id, {
+      onDelete: 'set null',
+    }),
+    note: text('note'),
+    createdAt: timestamp('created_at', { withTimezone: true })
+      .notNull()
+      .defaultNow(),
+  },
+  (table) => [
+    index('idx_claim_status_events_claim_id').on(table.claimId, table.createdAt),
+  ]
+);
+
+// Delay evidence frozen when a claim is created, since trains are overwritten on every poll
+export const claimEvidence = pgTable('claim_evidence', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  claimId: uuid('claim_id')
+    .notNull()
+    .references(() => claims.id, { onDelete: 'cascade' })
+    .unique(),
+  snapshot: jsonb('snapshot').$type<ClaimEvidenceSnapshot>().notNull(),
+  contentHash: varchar('content_hash', { length: 64 }).notNull(), // SHA-256 of the canonical snapshot JSON
+  createdAt: timestamp('created_at', { withTimezone: true })
+    .notNull()
+    .defaultNow(),
+});
+
+// What was known about the claim's train when the claim was created or last recalculated (timestamps as ISO strings)
+export interface ClaimEvidenceSnapshot {
+  capturedAt: string;
+  booking: {
+    pnr: string;
+    trainNumber: string;
+    journeyDate: string;
+    origin: string;
+    destination: string;
+  };
+  claim: {
+    claimType: 'delay' | 'cancellation';
+    delayMinutes: number;
+  };
+  // Null when the booking was never matched to a train in the feed
+  train: {
+    tripId: string;
+    trainNumber: string;
+    date: string;
+    scheduledDeparture: string;
+    scheduledArrival: string;
+    delayMinutes: number | null;
+    scheduleRelationship: 'scheduled' | 'added' | 'canceled';
+    delayCauseOverride: string | null;
+  } | null;
+  feed: {
+    observationCount: number;
+    firstObservedAt: string | null;
+    lastObservedAt: string | null;
+    firstFeedTimestamp: string | null;
+    lastFeedTimestamp: string | null;
+  };
+  stops: ClaimEvidenceStop[];
+  alerts: ClaimEvidenceAlert[];
+}
+
+// A station's delays as they changed across polls
+export interface ClaimEvidenceStop {
+  stationCode: string;
+  stopSequence: number | null;
+  scheduledArrival: string | null;
+  history: Array<{
+    observedAt: string;
+    feedTimestamp: string | null;
+    scheduleRelationship: 'scheduled' | 'skipped' | 'no_data';
+    arrivalDelayMinutes: number;
+    departureDelayMinutes: number;
+  }>;
+}
+
+// A service alert linked to the claim's train
+export interface ClaimEvidenceAlert {
+  alertId: string;
+  cause: string;
+  effect: string;
+  headerText: AlertText[];
+  descriptionText: AlertText[];
+  url: string | null;
+  activePeriods: AlertActivePeriod[];
+  firstSeenAt: string;
+  lastSeenAt: string;
+}
+
+// Eurostar replies to claims awaiting manual review
+export const claimReplyReviews = pgTable(
+  'claim_reply_reviews',
+  {
+    id: uuid('id').primaryKey().defaultRandom(),
+    userId: uuid('user_id')
+      .notNull()
+      .references(() => users.id, { onDelete: 'cascade' }),
+    reason: claimReplyReviewReasonEnum('reason').notNull(),
+    status: claimReplyReviewStatusEnum('status').notNull().default('pending'),
+    subject: text('subject'),
+    reply: jsonb('reply').$type<ClaimReplyDetails>().notNull(),
+    candidateClaimIds: jsonb('candidate_claim_ids')
+      .$type<string[]>()
+      .notNull()
+      .default([]),
+    claimId: uuid('claim_id').references(() => claims.id, {
+      onDelete: 'set null',
+    }), // set when applied
+    resolvedAt: timestamp('resolved_at', { withTimezone: true }),
+    createdAt: timestamp('created_at', { withTimezone: true })
+      .notNull()
+      .defaultNow(),
+  },
+  (table) => [
+    index('idx_claim_reply_reviews_user_status').on(table.userId, table.status),
+  ]
+);
+
+// What was read from a Eurostar reply (null = not found in the email)
+export interface ClaimReplyDetails {
+  kind: 'acknowledged' | 'approved' | 'rejected';
+  caseReference: string | null;
+  pnr: string | null;
+  amount: number | null;
+  currency: 'EUR' | 'GBP' | null;
+  payoutType: 'cash' | 'voucher' | null;
+  voucherCode: string | null;
+  rejectionReason: string | null;
+}
+
 // Sessions table
 export const sessions = pgTable(
   'sessions',
@@ -213,6 +492,218 @@ export interface SeatPreferences {
   powerSocket?: boolean;
 }
 
+// Service alerts table (GTFS-RT alert entities)
+export const serviceAlerts = pgTable(
+  'service_alerts',
+  {
+    id: uuid('id').primaryKey().defaultRandom(),
+    alertId: varchar('alert_id', { length: 100 }).notNull().unique(), // GTFS-RT entity id
+    cause: varchar('cause', { length: 32 }).notNull(),
+    effect: varchar('effect', { length: 32 }).notNull(),
+    headerText: jsonb('header_text').$type<AlertText[]>().notNull(),
+    descriptionText: jsonb('description_text').$type<AlertText[]>().notNull(),
+    url: text('url'),
+    activePeriods: jsonb('active_periods').$type<AlertActivePeriod[]>().notNull(),
+    informedEntities: jsonb('informed_entities')
+      .$type<AlertInformedEntity[]>()
+      .notNull(),
+    firstSeenAt: timestamp('first_seen_at', { withTimezone: true })
+      .notNull()
+      .defaultNow(),
+    lastSeenAt: timestamp('last_seen_at', { withTimezone: true })
+      .notNull()
+      .defaultNow(),
+  },
+  (table) => [index('idx_service_alerts_last_seen_at').on(table.lastSeenAt)]
+);
+
+// Links alerts to the trains they affect (via informed trip entities)
+export const trainAlerts = pgTable(
+  'train_alerts',
+  {
+    trainId: uuid('train_id')
+      .notNull()
+      .references(() => trains.id, { onDelete: 'cascade' }),
+    alertId: uuid('alert_id')
+      .notNull()
+      .references(() => serviceAlerts.id, { onDelete: 'cascade' }),
+    createdAt: timestamp('created_at', { withTimezone: true })
+      .notNull()
+      .defaultNow(),
+  },
+  (table) => [
+    primaryKey({ columns: [table.trainId, table.alertId] }),
+    index('idx_train_alerts_alert_id').on(table.alertId),
+  ]
+);
+
+// Alert text in one language (language null when unspecified)
+export interface AlertText {
+  text: string;
+  language: string | null;
+}
+
+// Alert active period as ISO timestamps (null = open-ended)
+export interface AlertActivePeriod {
+  start: string | null;
+  end: string | null;
+}
+
+// Entity affected by an alert
+export interface AlertInformedEntity {
+  agencyId: string | null;
+  routeId: string | null;
+  tripId: string | null;
+  stopId: string | null;
+}
+
+// Static GTFS feed versions (one row per imported timetable zip)
+export const gtfsFeedVersions = pgTable(
+  'gtfs_feed_versions',
+  {
+    id: uuid('id').primaryKey().defaultRandom(),
+    contentHash: varchar('content_hash', { length: 64 }).notNull(), // sha256 of the zip
+    feedVersion: varchar('feed_version', { length: 100 }), // from feed_info.txt, if present
+    source: text('source').notNull(), // path the feed was imported from
+    feedStartDate: date('feed_start_date', { mode: 'date' }),
+    feedEndDate: date('feed_end_date', { mode: 'date' }),
+    tripCount: integer('trip_count').notNull().default(0),
+    stopTimeCount: integer('stop_time_count').notNull().default(0),
+    importedAt: timestamp('imported_at', { withTimezone: true })
+      .notNull()
+      .defaultNow(),
+  },
+  (table) => [
+    uniqueIndex('idx_gtfs_feed_versions_content_hash').on(table.contentHash),
+  ]
+);
+
+// Static GTFS agency.txt
+export const gtfsAgencies = pgTable('gtfs_agencies', {
+  agencyId: varchar('agency_id', { length: 64 }).primaryKey(),
+  name: varchar('name', { length: 255 }).notNull(),
+  url: text('url'),
+  timezone: varchar('timezone', { length: 64 }).notNull(), // IANA zone, e.g. "Europe/London"
+  lang: varchar('lang', { length: 10 }),
+  feedVersionId: uuid('feed_version_id')
+    .notNull()
+    .references(() => gtfsFeedVersions.id, { onDelete: 'cascade' }),
+});
+
+// Static GTFS stops.txt
+export const gtfsStops = pgTable('gtfs_stops', {
+  stopId: varchar('stop_id', { length: 64 }).primaryKey(),
+  name: varchar('name', { length: 255 }).notNull(),
+  lat: decimal('lat', { precision: 9, scale: 6 }),
+  lon: decimal('lon', { precision: 9, scale: 6 }),
+  timezone: varchar('timezone', { length: 64 }),
+  parentStation: varchar('parent_station', { length: 64 }),
+  feedVersionId: uuid('feed_version_id')
+    .notNull()
+    .references(() => gtfsFeedVersions.id, { onDelete: 'cascade' }),
+});
+
+// Static GTFS routes.txt
+export const gtfsRoutes = pgTable('gtfs_routes', {
+  routeId: varchar('route_id', { length: 64 }).primaryKey(),
+  agencyId: varchar('agency_id', { length: 64 }),
+  shortName: varchar('short_name', { length: 100 }),
+  longName: varchar('long_name', { length: 255 }),
+  routeType: integer('route_type').notNull(),
+  feedVersionId: uuid('feed_version_id')
+    .notNull()
+    .references(() => gtfsFeedVersions.id, { onDelete: 'cascade' }),
+});
+
+// Static GTFS trips.txt
+export const gtfsTrips = pgTable(
+  'gtfs_trips',
+  {
+    tripId: varchar('trip_id', { length: 64 }).primaryKey(),
+    routeId: varchar('route_id', { length: 64 }).notNull(),
+    serviceId: varchar('service_id', { length: 64 }).notNull(),
+    shortName: varchar('short_name', { length: 20 }), // train number, e.g. "9007"
+    headsign: varchar('headsign', { length: 255 }),
+    directionId: integer('direction_id'),
+    feedVersionId: uuid('feed_version_id')
+      .notNull()
+      .references(() => gtfsFeedVersions.id, { onDelete: 'cascade' }),
+  },
+  (table) => [
+    index('idx_gtfs_trips_short_name').on(table.shortName),
+    index('idx_gtfs_trips_service_id').on(table.serviceId),
+  ]
+);
+
+// Static GTFS stop_times.txt
+// Times are kept as GTFS "HH:MM:SS" strings because they may exceed 24:00:00.
+export const gtfsStopTimes = pgTable(
+  'gtfs_stop_times',
+  {
+    tripId: varchar('trip_id', { length: 64 }).notNull(),
+    stopSequence: integer('stop_sequence').notNull(),
+    stopId: varchar('stop_id', { length: 64 }).notNull(),
+    arrivalTime: varchar('arrival_time', { length: 8 }),
+    departureTime: varchar('departure_time', { length: 8 }),
+    feedVersionId: uuid('feed_version_id')
+      .notNull()
+      .references(() => gtfsFeedVersions.id, { onDelete: 'cascade' }),
+  },
+  (table) => [
+    primaryKey({ columns: [table.tripId, table.stopSequence] }),
+    index('idx_gtfs_stop_times_stop_id').on(table.stopId),
+  ]
+);
+
+// Static GTFS calendar.txt
+export const gtfsCalendar = pgTable('gtfs_calendar', {
+  serviceId: varchar('service_id', { length: 64 }).primaryKey(),
+  monday: boolean('monday').notNull(),
+  tuesday: boolean('tuesday').notNull(),
+  wednesday: boolean('wednesday').notNull(),
+  thursday: boolean('thursday').notNull(),
+  friday: boolean('friday').notNull(),
+  saturday: boolean('saturday').notNull(),
+  sunday: boolean('sunday').notNull(),
+  startDate: date('start_date', { mode: 'date' }).notNull(),
+  endDate: date('end_date', { mode: 'date' }).notNull(),
+  feedVersionId: uuid('feed_version_id')
+    .notNull()
+    .references(() => gtfsFeedVersions.id, { onDelete: 'cascade' }),
+});
+
+// Static GTFS calendar_dates.txt (1 = service added, 2 = service removed)
+export const gtfsCalendarDates = pgTable(
+  'gtfs_calendar_dates',
+  {
+    serviceId: varchar('service_id', { length: 64 }).notNull(),
+    date: date('date', { mode: 'date' }).notNull(),
+    exceptionType: integer('exception_type').notNull(),
+    feedVersionId: uuid('feed_version_id')
+      .notNull()
+      .references(() => gtfsFeedVersions.id, { onDelete: 'cascade' }),
+  },
+  (table) => [primaryKey({ columns: [table.serviceId, table.date] })]
+);
+
+// Daily reference exchange rates, ECB style: units of `currency` per 1 EUR
+export const exchangeRates = pgTable(
+  'exchange_rates',
+  {
+    id: uuid('id').primaryKey().defaultRandom(),
+    date: date('date', { mode: 'date' }).notNull(),
+    currency: currencyEnum('currency').notNull(),
+    rate: decimal('rate', { precision: 12, scale: 6 }).notNull(),
+    source: text('source').notNull(), // file the rate was imported from
+    importedAt: timestamp('imported_at', { withTimezone: true })
+      .notNull()
+      .defaultNow(),
+  },
+  (table) => [
+    uniqueIndex('idx_exchange_rates_date_currency').on(table.date, table.currency),
+  ]
+);
+
 // Relations
 export const usersRelations = relations(users, ({ many, one }) => ({
   bookings: many(bookings),
@@ -222,9 +713,33 @@ export const usersRelations = relations(users, ({ many, one }) => ({
 
 export const trainsRelations = relations(trains, ({ many }) => ({
   bookings: many(bookings),
+  stopEvents: many(trainStopEvents),
+  alerts: many(trainAlerts),
+}));
+
+export const serviceAlertsRelations = relations(serviceAlerts, ({ many }) => ({
+  trains: many(trainAlerts),
+}));
+
+export const trainAlertsRelations = relations(trainAlerts, ({ one }) => ({
+  train: one(trains, {
+    fields: [trainAlerts.trainId],
+    references: [trains.id],
+  }),
+  alert: one(serviceAlerts, {
+    fields: [trainAlerts.alertId],
+    references: [serviceAlerts.id],
+  }),
 }));
 
-export const bookingsRelations = relations(bookings, ({ one }) => ({
+export const trainStopEventsRelations = relations(trainStopEvents, ({ one }) => ({
+  train: one(trains, {
+    fields: [trainStopEvents.trainId],
+    references: [trains.id],
+  }),
+}));
+
+export const bookingsRelations = relations(bookings, ({ one, many }) => ({
   user: one(users, {
     fields: [bookings.userId],
     references: [users.id],
@@ -233,14 +748,54 @@ export const bookingsRelations = relations(bookings, ({ one }) => ({
     fields: [bookings.trainId],
     references: [trains.id],
   }),
+  passengers: many(bookingPassengers),
+  claims: many(claims),
+}));
+
+export const bookingPassengersRelations = relations(bookingPassengers, ({ one }) => ({
+  booking: one(bookings, {
+    fields: [bookingPassengers.bookingId],
+    references: [bookings.id],
+  }),
   claim: one(claims),
 }));
 
-export const claimsRelations = relations(claims, ({ one }) => ({
+export const claimsRelations = relations(claims, ({ one, many }) => ({
   booking: one(bookings, {
     fields: [claims.bookingId],
     references: [bookings.id],
   }),
+  passenger: one(bookingPassengers, {
+    fields: [claims.passengerId],
+    references: [bookingPassengers.id],
+  }),
+  events: many(claimStatusEvents),
+  evidence: one(claimEvidence),
+}));
+
+export const claimEvidenceRelations = relations(claimEvidence, ({ one }) => ({
+  claim: one(claims, {
+    fields: [claimEvidence.claimId],
+    references: [claims.id],
+  }),
+}));
+
+export const claimStatusEventsRelations = relations(claimStatusEvents, ({ one }) => ({
+  claim: one(claims, {
+    fields: [claimStatusEvents.claimId],
+    references: [claims.id],
+  }),
+}));
+
+export const claimReplyReviewsRelations = relations(claimReplyReviews, ({ one }) => ({
+  user: one(users, {
+    fields: [claimReplyReviews.userId],
+    references: [users.id],
+  }),
+  claim: one(claims, {
+    fields: [claimReplyReviews.claimId],
+    references: [claims.id],
+  }),
 }));
 
 export const sessionsRelations = relations(sessions, ({ one }) => ({
@@ -264,19 +819,57 @@ export type NewUser = typeof users.$inferInsert;
 export type Train = typeof trains.$inferSelect;
 export type NewTrain = typeof trains.$inferInsert;
 
+export type TrainStopEvent = typeof trainStopEvents.$inferSelect;
+export type NewTrainStopEvent = typeof trainStopEvents.$inferInsert;
+
+export type ServiceAlert = typeof serviceAlerts.$inferSelect;
+export type NewServiceAlert = typeof serviceAlerts.$inferInsert;
+export type TrainAlert = typeof trainAlerts.$inferSelect;
+
 export type Booking = typeof bookings.$inferSelect;
 export type NewBooking = typeof bookings.$inferInsert;
 
+export type BookingPassenger = typeof bookingPassengers.$inferSelect;
+export type NewBookingPassenger = typeof bookingPassengers.$inferInsert;
+
 export type Claim = typeof claims.$inferSelect;
 export type NewClaim = typeof claims.$inferInsert;
 
+export type ClaimStatusEvent = typeof claimStatusEvents.$inferSelect;
+export type NewClaimStatusEvent = typeof claimStatusEvents.$inferInsert;
+
+export type ClaimEvidence = typeof claimEvidence.$inferSelect;
+export type NewClaimEvidence = typeof claimEvidence.$inferInsert;
+
+export type ClaimReplyReview = typeof claimReplyReviews.$inferSelect;
+export type NewClaimReplyReview = typeof claimReplyReviews.$inferInsert;
+
 export type Session = typeof sessions.$inferSelect;
 export type NewSession = typeof sessions.$inferInsert;
 
 export type TrainType = (typeof trainTypeEnum.enumValues)[number];
 export type ClaimStatus = (typeof claimStatusEnum.enumValues)[number];
+export type ClaimType = (typeof claimTypeEnum.enumValues)[number];
+export type ClaimEventActor = (typeof claimEventActorEnum.enumValues)[number];
+export type ClaimReplyReviewReason = (typeof claimReplyReviewReasonEnum.enumValues)[number];
+export type ClaimReplyReviewStatus = (typeof claimReplyReviewStatusEnum.enumValues)[number];
+export type Currency = (typeof currencyEnum.enumValues)[number];
 export type CompensationType = (typeof compensationTypeEnum.enumValues)[number];
 export type Terminal = (typeof terminalEnum.enumValues)[number];
 
 export type UserPreference = typeof userPreferences.$inferSelect;
 export type NewUserPreference = typeof userPreferences.$inferInsert;
+
+export type GtfsFeedVersion = typeof gtfsFeedVersions.$inferSelect;
+export type NewGtfsFeedVersion = typeof gtfsFeedVersions.$inferInsert;
+
+export type GtfsAgency = typeof gtfsAgencies.$inferSelect;
+export type GtfsStop = typeof gtfsStops.$inferSelect;
+export type GtfsRoute = typeof gtfsRoutes.$inferSelect;
+export type GtfsTrip = typeof gtfsTrips.$inferSelect;
+export type GtfsStopTime = typeof gtfsStopTimes.$inferSelect;
+export type GtfsCalendar = typeof gtfsCalendar.$inferSelect;
+export type GtfsCalendarDate = typeof gtfsCalendarDates.$inferSelect;
+
+export type ExchangeRateRow = typeof exchangeRates.$inferSelect;
+export type NewExchangeRate = typeof exchangeRates.$inferInsert;
@@ -1,5 +1,13 @@
 import { createConnectionPool } from './connection.js';
-import { users, trains, bookings, claims, userPreferences } from './schema.js';
+import {
+  users,
+  trains,
+  bookings,
+  bookingPassengers,
+  claims,
+  claimStatusEvents,
+  userPreferences,
+} from './schema.js';
 import bcrypt from 'bcrypt';
 
 export interface SeedOptions {
@@ -34,6 +42,7 @@ export async function seedDatabase(options: SeedOptions = {}): Promise<void> {
       }
       // Delete in reverse order of dependencies
       await db.delete(claims);
+      await db.delete(bookingPassengers);
       await db.delete(bookings);
       await db.delete(userPreferences);
       await db.delete(trains);
@@ -122,7 +131,7 @@ export async function seedDatabase(options: SeedOptions = {}): Promise<void> {
     }
 
     // Create bookings for test user
-    const [delayedBooking] = await db
+    const seededBookings = await db
       .insert(bookings)
       .values([
         {
@@ -155,18 +164,45 @@ export async function seedDatabase(options: SeedOptions = {}): Promise<void> {
         },
       ])
       .returning();
+    const [delayedBooking] = seededBookings;
+
+    // Each booking has a single traveller, the lead booker
+    const [delayedPassenger] = await db
+      .insert(bookingPassengers)
+      .values(
+        seededBookings.map((booking) => ({
+          bookingId: booking.id,
+          position: 0,
+          passengerName: booking.passengerName,
+          tcn: booking.tcn,
+          coach: booking.coach,
+          seat: booking.seat,
+        }))
+      )
+      .returning();
 
     if (options.verbose) {
       console.log('Seeding claims...');
     }
 
     // Create claim for delayed booking
-    await db.insert(claims).values({
-      bookingId: delayedBooking!.id,
-      delayMinutes: 75,
-      eligibleCashAmount: '25.00',
-      eligibleVoucherAmount: '37.50',
-      status: 'eligible',
+    const [delayedClaim] = await db
+      .insert(claims)
+      .values({
+        bookingId: delayedBooking!.id,
+        passengerId: delayedPassenger!.id,
+        delayMinutes: 75,
+        eligibleCashAmount: '25.00',
+        eligibleVoucherAmount: '37.50',
+        status: 'eligible',
+      })
+      .returning();
+
+    await db.insert(claimStatusEvents).values({
+      claimId: delayedClaim!.id,
+      toStatus: 'eligible',
+      actor: 'system',
+      note: 'Train arrived 75 min late',
     });
 
     if (options.verbose) {
@@ -0,0 +1,81 @@
+import { describe, it, expect } from 'vitest';
+import { parseEcbCsv, parseRateDate } from '../parser.js';
+import { ExchangeRateImportError } from '../types.js';
+
+/** eurofxref-hist.csv layout: ISO dates, N/A gaps, trailing comma */
+const HIST_CSV = [
+  'Date,USD,JPY,GBP,CHF,',
+  '2026-10-16,1.0837,162.51,0.8412,0.9401,',
+  '2026-10-15,1.0811,161.98,0.8397,0.9388,',
+  '2026-10-14,1.0790,161.20,N/A,0.9370,',
+].join('\n');
+
+/** eurofxref.csv layout: padded header cells and long-form dates */
+const DAILY_CSV = [
+  'Date, USD, JPY, GBP, ',
+  '16 October 2026, 1.0837, 162.51, 0.8412, ',
+].join('\n');
+
+/** ECB Data Portal export: one observation per row */
+const PORTAL_CSV = [
+  'KEY,FREQ,CURRENCY,CURRENCY_DENOM,EXR_TYPE,EXR_SUFFIX,TIME_PERIOD,OBS_VALUE',
+  'EXR.D.GBP.EUR.SP00.A,D,GBP,EUR,SP00,A,2026-10-15,0.8397',
+  'EXR.D.USD.EUR.SP00.A,D,USD,EUR,SP00,A,2026-10-15,1.0811',
+  'EXR.D.GBP.EUR.SP00.A,D,GBP,EUR,SP00,A,2026-10-16,0.8412',
+].join('\n');
+
+describe('parseRateDate', () => {
+  it('parses ISO and long-form dates to UTC midnight', () => {
+    expect(parseRateDate('2026-10-16')?.toISOString()).toBe('2026-10-16T00:00:00.000Z');
+    expect(parseRateDate(' 6 October 2026 ')?.toISOString()).toBe('2026-10-06T00:00:00.000Z');
+  });
+
+  it('returns null for invalid dates', () => {
+    expect(parseRateDate('2026-02-30')).toBeNull();
+    expect(parseRateDate('16 Octember 2026')).toBeNull();
+    expect(parseRateDate('16/10/2026')).toBeNull();
+  });
+});
+
+describe('parseEcbCsv', () => {
+  it('keeps only GBP rates from the history file, sorted by date', () => {
+    const rates = parseEcbCsv(HIST_CSV);
+
+    expect(rates).toEqual([
+      { date: new Date('2026-10-15T00:00:00Z'), currency: 'GBP', rate: 0.8397 },
+      { date: new Date('2026-10-16T00:00:00Z'), currency: 'GBP', rate: 0.8412 },
+    ]);
+  });
+
+  it('parses the daily file', () => {
+    expect(parseEcbCsv(DAILY_CSV)).toEqual([
+      { date: new Date('2026-10-16T00:00:00Z'), currency: 'GBP', rate: 0.8412 },
+    ]);
+  });
+
+  it('parses a Data Portal export', () => {
+    expect(parseEcbCsv(PORTAL_CSV)).toEqual([
+      { date: new Date('2026-10-15T00:00:00Z'), currency: 'GBP', rate: 0.8397 },
+      { date: new Date('2026-10-16T00:00:00Z'), currency: 'GBP', rate: 0.8412 },
+    ]);
+  });
+
+  it('keeps the last value for duplicate dates', () => {
+    const rates = parseEcbCsv('Date,GBP\n2026-10-16,0.8400\n2026-10-16,0.8412\n');
+    expect(rates).toHaveLength(1);
+    expect(rates[0]?.rate).toBe(0.8412);
+  });
+
+  it('rejects files without a GBP column', () => {
+    expect(() => parseEcbCsv('Date,USD\n2026-10-16,1.0837\n')).toThrow(ExchangeRateImportError);
+  });
+
+  it('rejects unrecognised layouts', () => {
+    expect(() => parseEcbCsv('day,rate\n2026-10-16,0.84\n')).toThrow(/Unrecognised rate file/);
+  });
+
+  it('reports the line of an invalid row', () => {
+    expect(() => parseEcbCsv('Date,GBP\n2026-10-16,0.84\nyesterday,0.85\n')).toThrow(/line 3/);
+    expect(() => parseEcbCsv('Date,GBP\n2026-10-16,abc\n')).toThrow(/Invalid rate "abc" on line 2/);
+  });
+});
@@ -0,0 +1,50 @@
+import { describe, it, expect } from 'vitest';
+import { InMemoryExchangeRateProvider } from '../providers.js';
+import { convertAmount } from '../convert.js';
+
+const provider = new InMemoryExchangeRateProvider([
+  { date: new Date('2026-10-16T00:00:00Z'), currency: 'GBP', rate: 0.8412 },
+  { date: new Date('2026-10-02T00:00:00Z'), currency: 'GBP', rate: 0.8350 },
+  { date: new Date('2026-10-15T00:00:00Z'), currency: 'GBP', rate: 0.8397 },
+]);
+
+describe('InMemoryExchangeRateProvider', () => {
+  it('returns 1 for EUR', async () => {
+    expect(await provider.getRate('EUR', new Date('2020-01-01T00:00:00Z'))).toBe(1);
+  });
+
+  it('returns the rate published for the day', async () => {
+    expect(await provider.getRate('GBP', new Date('2026-10-15T00:00:00Z'))).toBe(0.8397);
+  });
+
+  it('ignores the time of day', async () => {
+    expect(await provider.getRate('GBP', new Date('2026-10-15T22:30:00Z'))).toBe(0.8397);
+  });
+
+  it('falls back to the previous business day', async () => {
+    // Saturday 17 and Sunday 18 October use Friday's rate
+    expect(await provider.getRate('GBP', new Date('2026-10-18T00:00:00Z'))).toBe(0.8412);
+  });
+
+  it('returns null beyond the lookback window', async () => {
+    expect(await provider.getRate('GBP', new Date('2026-10-12T00:00:00Z'))).toBeNull();
+    expect(await provider.getRate('GBP', new Date('2026-10-01T00:00:00Z'))).toBeNull();
+  });
+});
+
+describe('convertAmount', () => {
+  const day = new Date('2026-10-16T00:00:00Z');
+
+  it('converts between EUR and GBP at the day rate', async () => {
+    expect(await convertAmount(provider, 100, 'EUR', 'GBP', day)).toBeCloseTo(84.12, 6);
+    expect(await convertAmount(provider, 84.12, 'GBP', 'EUR', day)).toBeCloseTo(100, 6);
+  });
+
+  it('returns the amount unchanged for the same currency', async () => {
+    expect(await convertAmount(provider, 42, 'GBP', 'GBP', day)).toBe(42);
+  });
+
+  it('returns null when no rate is known', async () => {
+    expect(await convertAmount(provider, 100, 'EUR', 'GBP', new Date('2025-01-01T00:00:00Z'))).toBeNull();
+  });
+});
@@ -0,0 +1,46 @@
+/**
+ * Exchange rate import CLI
+ *
+ * Usage: pnpm rates:import <path/to/eurofxref-hist.csv>
+ *
+ * Environment variables:
+ * - DATABASE_URL: PostgreSQL connection URL [REQUIRED]
+ * - EXCHANGE_RATES_PATH: Default CSV path if no argument is given
+ */
+
+import { createDbFromEnv } from '../db/index.js';
+import { importExchangeRates } from './importer.js';
+
+function formatDay(date: Date | null): string {
+  return date ? date.toISOString().slice(0, 10) : '-';
+}
+
+async function main(): Promise<void> {
+  const csvPath = process.argv[2] ?? process.env['EXCHANGE_RATES_PATH'];
+  if (!csvPath) {
+    console.error('Usage: pnpm rates:import <path/to/eurofxref-hist.csv>');
+    process.exit(1);
+  }
+
+  const db = createDbFromEnv();
+  const result = await importExchangeRates(db, csvPath);
+  await db.$client.end({ timeout: 5 });
+
+  if (result.isErr()) {
+    console.error(`[Rates] ${result.error.message}`);
+    process.exit(1);
+  }
+
+  const summary = result.value;
+  console.log(
+    `[Rates] Imported ${summary.rateCount} rates ` +
+      `(${formatDay(summary.firstDate)} to ${formatDay(summary.lastDate)})`
+  );
+
+  process.exit(0);
+}
+
+main().catch((error) => {
+  console.error('[Rates] Import failed:', error);
+  process.exit(1);
+});
@@ -0,0 +1,39 @@
+/**
+ * Currency conversion using historical reference rates.
+ */
+
+import type { Currency } from '../db/schema.js';
+import type { ExchangeRateProvider } from './types.js';
+
+/**
+ * Converts an amount between currencies at the rates for a given day,
+ * crossing through EUR. The result is not rounded.
+ *
+ * @param provider - Source of reference rates
+ * @param amount - Amount in `from`
+ * @param from - Currency of the amount
+ * @param to - Currency to convert into
+ * @param date - Day whose rates apply (e.g. the journey date)
+ * @returns The converted amount, or null if a rate is missing
+ */
+export async function convertAmount(
+  provider: ExchangeRateProvider,
+  amount: number,
+  from: Currency,
+  to: Currency,
+  date: Date
+): Promise<number | null> {
+  if (from === to) {
+    return amount;
+  }
+
+  const [fromRate, toRate] = await Promise.all([
+    provider.getRate(from, date),
+    provider.getRate(to, date),
+  ]);
+  if (fromRate === null || toRate === null) {
+    return null;
+  }
+
+  return (amount / fromRate) * toRate;
+}
@@ -0,0 +1,88 @@
+import { readFile } from 'fs/promises';
+import { sql } from 'drizzle-orm';
+import type { Database } from '../db/index.js';
+import { exchangeRates } from '../db/schema.js';
+import { err, ok, type Result } from '../result.js';
+import { loggers } from '../logging/logger.js';
+import { parseEcbCsv } from './parser.js';
+import { ExchangeRateImportError, type ExchangeRateImportResult } from './types.js';
+
+const log = loggers.db;
+
+/** Rows per INSERT statement, well under the Postgres parameter limit */
+const CHUNK_SIZE = 1000;
+
+/**
+ * Imports an ECB reference rate CSV into the exchange_rates table.
+ *
+ * Rates are upserted by (date, currency), so the full history file can be
+ * re-imported at any time and later files correct earlier values.
+ *
+ * @param db - Database connection
+ * @param csvPath - Path to a local ECB-style CSV
+ */
+export async function importExchangeRates(
+  db: Database,
+  csvPath: string
+): Promise<Result<ExchangeRateImportResult, ExchangeRateImportError>> {
+  let text: string;
+  try {
+    text = await readFile(csvPath, 'utf8');
+  } catch (error) {
+    return err(
+      new ExchangeRateImportError(
+        `Could not read ${csvPath}: ${error instanceof Error ? error.message : 'Unknown error'}`
+      )
+    );
+  }
+
+  let rates;
+  try {
+    rates = parseEcbCsv(text);
+  } catch (error) {
+    if (error instanceof ExchangeRateImportError) {
+      return err(error);
+    }
+    throw error;
+  }
+
+  const rows = rates.map((rate) => ({
+    date: rate.date,
+    currency: rate.currency,
+    rate: rate.rate.toFixed(6),
+    source: csvPath,
+  }));
+
+  try {
+    await db.transaction(async (tx) => {
+      for (let i = 0; i < rows.length; i += CHUNK_SIZE) {
+        await tx
+          .insert(exchangeRates)
+          .values(rows.slice(i, i + CHUNK_SIZE))
+          .onConflictDoUpdate({
+            target: [exchangeRates.date, exchangeRates.currency],
+            set: {
+              rate: sql`excluded.rate`,
+              source: sql`excluded.source`,
+              importedAt: sql`now()`,
+            },
+          });
+      }
+    });
+  } catch (error) {
+    return err(
+      new ExchangeRateImportError(
+        `Import failed: ${error instanceof Error ? error.message : 'Unknown error'}`
+      )
+    );
+  }
+
+  const result: ExchangeRateImportResult = {
+    rateCount: rates.length,
+    firstDate: rates[0]?.date ?? null,
+    lastDate: rates.at(-1)?.date ?? null,
+  };
+
+  log.info({ ...result, source: csvPath }, 'Exchange rates imported');
+  return ok(result);
+}
@@ -0,0 +1,24 @@
+// Types
+export {
+  type ExchangeRate,
+  type ExchangeRateProvider,
+  type ExchangeRateImportResult,
+  ExchangeRateImportError,
+  MAX_RATE_LOOKBACK_DAYS,
+} from './types.js';
+
+// Parser
+export { parseEcbCsv, parseRateDate } from './parser.js';
+
+// Providers
+export {
+  InMemoryExchangeRateProvider,
+  DatabaseExchangeRateProvider,
+  loadExchangeRateFile,
+} from './providers.js';
+
+// Conversion
+export { convertAmount } from './convert.js';
+
+// Importer
+export { importExchangeRates } from './importer.js';
@@ -0,0 +1,177 @@
+/**
+ * ECB reference rate CSV parser.
+ *
+ * Accepts the two layouts the ECB publishes:
+ * - Wide (eurofxref.csv / eurofxref-hist.csv): a `Date` column followed by
+ *   one column per currency, "N/A" where no rate was published.
+ * - Long (ECB Data Portal export): one observation per row with
+ *   `CURRENCY`, `TIME_PERIOD` and `OBS_VALUE` columns.
+ */
+
+import { parseCsvRows } from '../formats/csv.js';
+import { currencyEnum, type Currency } from '../db/schema.js';
+import { ExchangeRateImportError, type ExchangeRate } from './types.js';
+
+/** Currencies we keep rates for (EUR is the base and always 1) */
+const QUOTE_CURRENCIES: Currency[] = currencyEnum.enumValues.filter(
+  (currency) => currency !== 'EUR'
+);
+
+const MONTHS = [
+  'january',
+  'february',
+  'march',
+  'april',
+  'may',
+  'june',
+  'july',
+  'august',
+  'september',
+  'october',
+  'november',
+  'december',
+];
+
+function isQuoteCurrency(value: string): value is Currency {
+  return (QUOTE_CURRENCIES as string[]).includes(value);
+}
+
+/**
+ * Parses an ECB date, either ISO "2026-10-16" or "16 October 2026".
+ *
+ * @returns UTC midnight of that day, or null if not a valid date
+ */
+export function parseRateDate(value: string): Date | null {
+  const trimmed = value.trim();
+
+  let year: number;
+  let month: number;
+  let day: number;
+
+  const iso = /^(\d{4})-(\d{2})-(\d{2})$/.exec(trimmed);
+  const long = /^(\d{1,2}) ([A-Za-z]+) (\d{4})$/.exec(trimmed);
+  if (iso) {
+    year = Number(iso[1]);
+    month = Number(iso[2]) - 1;
+    day = Number(iso[3]);
+  } else if (long) {
+    year = Number(long[3]);
+    month = MONTHS.indexOf(long[2]!.toLowerCase());
+    day = Number(long[1]);
+    if (month === -1) {
+      return null;
+    }
+  } else {
+    return null;
+  }
+
+  const date = new Date(Date.UTC(year, month, day));
+  if (date.getUTCMonth() !== month || date.getUTCDate() !== day) {
+    return null;
+  }
+  return date;
+}
+
+function parseRateValue(value: string, line: number): number | null {
+  const trimmed = value.trim();
+  if (trimmed === '' || trimmed.toUpperCase() === 'N/A') {
+    return null;
+  }
+  const rate = Number(trimmed);
+  if (!Number.isFinite(rate) || rate <= 0) {
+    throw new ExchangeRateImportError(`Invalid rate "${trimmed}" on line ${line}`);
+  }
+  return rate;
+}
+
+function requireDate(value: string, line: number): Date {
+  const date = parseRateDate(value);
+  if (!date) {
+    throw new ExchangeRateImportError(`Invalid date "${value.trim()}" on line ${line}`);
+  }
+  return date;
+}
+
+function parseWide(header: string[], rows: string[][]): ExchangeRate[] {
+  const columns = header
+    .map((name, index) => ({ currency: name, index }))
+    .filter((column): column is { currency: Currency; index: number } =>
+      isQuoteCurrency(column.currency)
+    );
+
+  if (columns.length === 0) {
+    throw new ExchangeRateImportError(
+      `No ${QUOTE_CURRENCIES.join('/')} column in rate file`
+    );
+  }
+
+  const rates: ExchangeRate[] = [];
+  rows.forEach((row, i) => {
+    const line = i + 2;
+    const date = requireDate(row[0] ?? '', line);
+    for (const { currency, index } of columns) {
+      const rate = parseRateValue(row[index] ?? '', line);
+      if (rate !== null) {
+        rates.push({ date, currency, rate });
+      }
+    }
+  });
+  return rates;
+}
+
+function parseLong(header: string[], rows: string[][]): ExchangeRate[] {
+  const currencyIndex = header.indexOf('CURRENCY');
+  const dateIndex = header.indexOf('TIME_PERIOD');
+  const valueIndex = header.indexOf('OBS_VALUE');
+  const denomIndex = header.indexOf('CURRENCY_DENOM');
+
+  const rates: ExchangeRate[] = [];
+  rows.forEach((row, i) => {
+    const line = i + 2;
+    const currency = row[currencyIndex]?.trim() ?? '';
+    // Only EUR-based series; other denominations would need cross rates
+    if (!isQuoteCurrency(currency)) return;
+    if (denomIndex !== -1 && row[denomIndex]?.trim() !== 'EUR') return;
+
+    const rate = parseRateValue(row[valueIndex] ?? '', line);
+    if (rate !== null) {
+      rates.push({ date: requireDate(row[dateIndex] ?? '', line), currency, rate });
+    }
+  });
+  return rates;
+}
+
+/**
+ * Parses an ECB reference rate CSV into daily rates for the currencies we
+ * support. Duplicate (date, currency) pairs keep the last value.
+ *
+ * @returns Rates sorted by date
+ * @throws ExchangeRateImportError if the layout is not recognised or a row is invalid
+ */
+export function parseEcbCsv(text: string): ExchangeRate[] {
+  const [rawHeader, ...rows] = parseCsvRows(text);
+  if (!rawHeader) {
+    throw new ExchangeRateImportError('Rate file is empty');
+  }
+
+  // The daily file pads header cells with spaces and ends rows with a comma
+  const header = rawHeader.map((name) => name.trim().toUpperCase());
+
+  let rates: ExchangeRate[];
+  if (header[0] === 'DATE') {
+    rates = parseWide(header, rows);
+  } else if (['CURRENCY', 'TIME_PERIOD', 'OBS_VALUE'].every((name) => header.includes(name))) {
+    rates = parseLong(header, rows);
+  } else {
+    throw new ExchangeRateImportError(
+      'Unrecognised rate file: expected a Date column or CURRENCY/TIME_PERIOD/OBS_VALUE columns'
+    );
+  }
+
+  const byKey = new Map<string, ExchangeRate>();
+  for (const rate of rates) {
+    byKey.set(`${rate.currency}:${rate.date.getTime()}`, rate);
+  }
+
+  return [...byKey.values()].sort((a, b) => a.date.getTime() - b.date.getTime());
+}
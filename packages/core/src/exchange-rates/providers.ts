@@ -0,0 +1,164 @@
+/**
+ * Exchange rate providers.
+ *
+ * - InMemoryExchangeRateProvider: a fixed set of rates, e.g. loaded from a
+ *   local ECB CSV with {@link loadExchangeRateFile}
+ * - DatabaseExchangeRateProvider: rates imported into the exchange_rates table
+ */
+
+import { readFile } from 'fs/promises';
+import { and, desc, eq, gte, lte } from 'drizzle-orm';
+import type { Database } from '../db/index.js';
+import { exchangeRates, type Currency } from '../db/schema.js';
+import { err, ok, type Result } from '../result.js';
+import { parseEcbCsv } from './parser.js';
+import {
+  ExchangeRateImportError,
+  MAX_RATE_LOOKBACK_DAYS,
+  type ExchangeRate,
+  type ExchangeRateProvider,
+} from './types.js';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Truncates a date to UTC midnight.
+ */
+function toUtcDay(date: Date): Date {
+  return new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate()));
+}
+
+/**
+ * Serves rates from memory.
+ */
+export class InMemoryExchangeRateProvider implements ExchangeRateProvider {
+  /** Per-currency rates sorted by date */
+  private readonly series = new Map<Currency, ExchangeRate[]>();
+
+  constructor(rates: ExchangeRate[]) {
+    for (const rate of rates) {
+      const list = this.series.get(rate.currency) ?? [];
+      list.push({ ...rate, date: toUtcDay(rate.date) });
+      this.series.set(rate.currency, list);
+    }
+    for (const list of this.series.values()) {
+      list.sort((a, b) => a.date.getTime() - b.date.getTime());
+    }
+  }
+
+  getRate(currency: Currency, date: Date): Promise<number | null> {
+    if (currency === 'EUR') {
+      return Promise.resolve(1);
+    }
+
+    const list = this.series.get(currency);
+    if (!list) {
+      return Promise.resolve(null);
+    }
+
+    const day = toUtcDay(date).getTime();
+
+    // Binary search for the last rate on or before the day
+    let low = 0;
+    let high = list.length - 1;
+    let found: ExchangeRate | undefined;
+    while (low <= high) {
+      const mid = (low + high) >> 1;
+      const candidate = list[mid]!;
+      if (candidate.date.getTime() <= day) {
+        found = candidate;
+        low = mid + 1;
+      } else {
+        high = mid - 1;
+      }
+    }
+
+    if (!found || day - found.date.getTime() > MAX_RATE_LOOKBACK_DAYS * DAY_MS) {
+      return Promise.resolve(null);
+    }
+    return Promise.resolve(found.rate);
+  }
+}
+
+/**
+ * Loads a local ECB reference rate CSV into an in-memory provider.
+ *
+ * @param path - Path to an ECB-style CSV (see parseEcbCsv)
+ */
+export async function loadExchangeRateFile(
+  path: string
+): Promise<Result<InMemoryExchangeRateProvider, ExchangeRateImportError>> {
+  let text: string;
+  try {
+    text = await readFile(path, 'utf8');
+  } catch (error) {
+    return err(
+      new ExchangeRateImportError(
+        `Could not read ${path}: ${error instanceof Error ? error.message : 'Unknown error'}`
+      )
+    );
+  }
+
+  try {
+    return ok(new InMemoryExchangeRateProvider(parseEcbCsv(text)));
+  } catch (error) {
+    if (error instanceof ExchangeRateImportError) {
+      return err(error);
+    }
+    throw error;
+  }
+}
+
+/**
+ * Serves rates from the exchange_rates table.
+ * Published rates never change, so found rates are cached for the lifetime
+ * of the provider; misses are retried in case the rates are imported later.
+ */
+export class DatabaseExchangeRateProvider implements ExchangeRateProvider {
+  private readonly cache = new Map<string, Promise<number | null>>();
+
+  constructor(private readonly db: Database) {}
+
+  getRate(currency: Currency, date: Date): Promise<number | null> {
+    if (currency === 'EUR') {
+      return Promise.resolve(1);
+    }
+
+    const day = toUtcDay(date);
+    const key = `${currency}:${day.getTime()}`;
+    let rate = this.cache.get(key);
+    if (!rate) {
+      rate = this.lookup(currency, day).then(
+        (found) => {
+          if (found === null) {
+            this.cache.delete(key);
+          }
+          return found;
+        },
+        (error: unknown) => {
+          this.cache.delete(key);
+          throw error;
+        }
+      );
+      this.cache.set(key, rate);
+    }
+    return rate;
+  }
+
+  private async lookup(currency: Currency, day: Date): Promise<number | null> {
+    const [row] = await this.db
+      .select({ rate: exchangeRates.rate })
+      .from(exchangeRates)
+      .where(
+        and(
+          eq(exchangeRates.currency, currency),
+          lte(exchangeRates.date, day),
+          gte(exchangeRates.date, new Date(day.getTime() - MAX_RATE_LOOKBACK_DAYS * DAY_MS))
+        )
+      )
+      .orderBy(desc(exchangeRates.date))
+      .limit(1);
+
+    return row ? parseFloat(row.rate) : null;
+  }
+}
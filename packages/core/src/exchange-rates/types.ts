@@ -0,0 +1,52 @@
+/**
+ * Exchange rate types.
+ * Rates follow the ECB reference convention: units of a currency per 1 EUR.
+ */
+
+import type { Currency } from '../db/schema.js';
+
+/**
+ * A daily reference rate for one currency against EUR.
+ */
+export interface ExchangeRate {
+  /** Business day the rate was published for (UTC midnight) */
+  date: Date;
+  currency: Currency;
+  /** Units of `currency` per 1 EUR */
+  rate: number;
+}
+
+/**
+ * Source of historical EUR reference rates.
+ *
+ * Rates are looked up by the day they apply to; implementations fall back
+ * to the most recent published rate within {@link MAX_RATE_LOOKBACK_DAYS}
+ * so weekends and bank holidays resolve to the previous business day.
+ */
+export interface ExchangeRateProvider {
+  /**
+   * Gets the units of `currency` per 1 EUR on `date`.
+   * EUR always returns 1.
+   *
+   * @returns The rate, or null if none is known for that date
+   */
+  getRate(currency: Currency, date: Date): Promise<number | null>;
+}
+
+/**
+ * Days to look back for a published rate (covers long holiday weekends).
+ */
+export const MAX_RATE_LOOKBACK_DAYS = 7;
+
+export interface ExchangeRateImportResult {
+  rateCount: number;
+  firstDate: Date | null;
+  lastDate: Date | null;
+}
+
+export class ExchangeRateImportError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ExchangeRateImportError';
+  }
+}
@@ -0,0 +1,60 @@
+import { describe, it, expect } from 'vitest';
+import { parseCsv, parseCsvRows } from '../csv.js';
+
+describe('parseCsvRows', () => {
+  it('splits simple rows and fields', () => {
+    expect(parseCsvRows('a,b,c\n1,2,3')).toEqual([
+      ['a', 'b', 'c'],
+      ['1', '2', '3'],
+    ]);
+  });
+
+  it('handles quoted fields with delimiters, quotes and newlines', () => {
+    const text = 'name,note\n"Paris, Nord","He said ""hi""\nthen left"';
+    expect(parseCsvRows(text)).toEqual([
+      ['name', 'note'],
+      ['Paris, Nord', 'He said "hi"\nthen left'],
+    ]);
+  });
+
+  it('handles CRLF line endings and a trailing newline', () => {
+    expect(parseCsvRows('a,b\r\n1,2\r\n')).toEqual([
+      ['a', 'b'],
+      ['1', '2'],
+    ]);
+  });
+
+  it('strips a UTF-8 BOM', () => {
+    expect(parseCsvRows('\uFEFFa,b\n1,2')[0]).toEqual(['a', 'b']);
+  });
+
+  it('keeps empty fields and skips blank lines', () => {
+    expect(parseCsvRows('a,,c\n\n1,2,')).toEqual([
+      ['a', '', 'c'],
+      ['1', '2', ''],
+    ]);
+  });
+
+  it('supports a custom delimiter', () => {
+    expect(parseCsvRows('a;b\n1;2', { delimiter: ';' })).toEqual([
+      ['a', 'b'],
+      ['1', '2'],
+    ]);
+  });
+});
+
+describe('parseCsv', () => {
+  it('maps rows to records keyed by header', () => {
+    expect(parseCsv('stop_id, stop_name\nGBSPX,St Pancras')).toEqual([
+      { stop_id: 'GBSPX', stop_name: 'St Pancras' },
+    ]);
+  });
+
+  it('fills missing trailing fields with empty strings', () => {
+    expect(parseCsv('a,b,c\n1')).toEqual([{ a: '1', b: '', c: '' }]);
+  });
+
+  it('returns an empty array for empty input', () => {
+    expect(parseCsv('')).toEqual([]);
+  });
+});
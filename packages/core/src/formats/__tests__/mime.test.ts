@@ -0,0 +1,144 @@
+import { describe, it, expect } from 'vitest';
+import { getMimeBody, MimeFormatError, parseMimeMessage } from '../mime.js';
+
+const ALTERNATIVE_EMAIL = [
+  'From: Eurostar <noreply@eurostar.com>',
+  'Subject: =?utf-8?Q?Your_booking_confirmation_=E2=80=93_ABC123?=',
+  'MIME-Version: 1.0',
+  'Content-Type: multipart/alternative;',
+  ' boundary="alt-boundary"',
+  '',
+  'This is a multi-part message in MIME format.',
+  '--alt-boundary',
+  'Content-Type: text/plain; charset=iso-8859-1',
+  'Content-Transfer-Encoding: quoted-printable',
+  '',
+  'Caf=E9 car: coach 5, a long line that is soft-wrapped by the =',
+  'encoder',
+  '--alt-boundary',
+  'Content-Type: text/html; charset="utf-8"',
+  'Content-Transfer-Encoding: base64',
+  '',
+  Buffer.from('<p>Booking ref: <b>ABC123</b> – Paris Nord</p>').toString(
+    'base64'
+  ),
+  '--alt-boundary--',
+  '',
+].join('\r\n');
+
+describe('parseMimeMessage', () => {
+  it('decodes multipart/alternative with quoted-printable and base64 parts', () => {
+    const message = parseMimeMessage(ALTERNATIVE_EMAIL);
+
+    expect(message.subject).toBe('Your booking confirmation – ABC123');
+    expect(message.headers['from']).toBe('Eurostar <noreply@eurostar.com>');
+    expect(message.parts.map((part) => part.contentType)).toEqual([
+      'text/plain',
+      'text/html',
+    ]);
+
+    const body = getMimeBody(message);
+    expect(body.text).toBe(
+      'Café car: coach 5, a long line that is soft-wrapped by the encoder'
+    );
+    expect(body.html).toBe('<p>Booking ref: <b>ABC123</b> – Paris Nord</p>');
+  });
+
+  it('flattens nested multiparts and skips attachments for the body', () => {
+    const raw = [
+      'Subject: Nested',
+      'Content-Type: multipart/mixed; boundary=outer',
+      '',
+      '--outer',
+      'Content-Type: multipart/related; boundary=inner',
+      '',
+      '--inner',
+      'Content-Type: text/html',
+      '',
+      '<p>Inline body</p>',
+      '--inner',
+      'Content-Type: image/png',
+      'Content-ID: <logo@eurostar>',
+      'Content-Disposition: inline',
+      'Content-Transfer-Encoding: base64',
+      '',
+      'iVBORw0KGgo=',
+      '--inner--',
+      '--outer',
+      'Content-Type: text/html; name="terms.html"',
+      "Content-Disposition: attachment; filename*=utf-8''conditions%20g%C3%A9n%C3%A9rales.html",
+      '',
+      '<p>Terms</p>',
+      '--outer--',
+    ].join('\n');
+
+    const message = parseMimeMessage(raw);
+    const [html, image, attachment] = message.parts;
+
+    expect(message.parts).toHaveLength(3);
+    expect(image!.contentId).toBe('logo@eurostar');
+    expect(image!.content.subarray(1, 4).toString()).toBe('PNG');
+    expect(attachment!.disposition).toBe('attachment');
+    expect(attachment!.filename).toBe('conditions générales.html');
+    expect(html!.contentType).toBe('text/html');
+
+    expect(getMimeBody(message)).toEqual({
+      html: '<p>Inline body</p>',
+      text: null,
+    });
+  });
+
+  it('parses forwarded message/rfc822 parts', () => {
+    const raw = [
+      'Subject: Fwd: Booking',
+      'Content-Type: multipart/mixed; boundary=fwd',
+      '',
+      '--fwd',
+      'Content-Type: text/plain',
+      '',
+      'See below',
+      '--fwd',
+      'Content-Type: message/rfc822',
+      '',
+      'Subject: Booking',
+      'Content-Type: text/plain; charset=utf-8',
+      '',
+      'PNR: ABC123',
+      '--fwd--',
+    ].join('\r\n');
+
+    const message = parseMimeMessage(Buffer.from(raw));
+
+    expect(getMimeBody(message).text).toBe('See below');
+    expect(message.attachedMessages).toHaveLength(1);
+    expect(message.attachedMessages[0]!.subject).toBe('Booking');
+    expect(getMimeBody(message.attachedMessages[0]!).text).toBe('PNR: ABC123');
+  });
+
+  it('treats a message without Content-Type as plain text', () => {
+    const message = parseMimeMessage('Subject: Hi\n\nHello');
+
+    expect(getMimeBody(message)).toEqual({ html: null, text: 'Hello' });
+  });
+
+  it('falls back to UTF-8 for unknown charsets', () => {
+    const message = parseMimeMessage(
+      'Content-Type: text/plain; charset=x-unknown\n\nCafé'
+    );
+
+    expect(getMimeBody(message).text).toBe('Café');
+  });
+
+  it('throws MimeFormatError for input that is not a message', () => {
+    expect(() =>
+      parseMimeMessage('Just some pasted text\nwith no headers')
+    ).toThrow(MimeFormatError);
+    expect(() => parseMimeMessage('   ')).toThrow(MimeFormatError);
+  });
+
+  it('throws MimeFormatError for multiparts without a boundary', () => {
+    expect(() =>
+      parseMimeMessage('Content-Type: multipart/mixed\n\nbody')
+    ).toThrow(MimeFormatError);
+  });
+});
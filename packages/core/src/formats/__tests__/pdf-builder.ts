@@ -0,0 +1,123 @@
+/**
+ * Builds PDF files in memory for tests.
+ */
+
+import { deflateSync } from 'zlib';
+
+export interface PdfBuilderOptions {
+  /** Deflate content streams */
+  compress?: boolean;
+  /** Draw text with a two-byte font mapped through a ToUnicode CMap */
+  toUnicode?: boolean;
+}
+
+/**
+ * Encodes text for a literal string in the WinAnsi font.
+ */
+function literal(text: string): string {
+  return `(${text.replace(/[\\()]/g, '\\$&')})`;
+}
+
+/**
+ * Encodes text as two-byte codes: each char's code point plus 0x100.
+ */
+function twoByte(text: string): string {
+  return `<${[...text].map((c) => (c.charCodeAt(0) + 0x100).toString(16).padStart(4, '0')).join('')}>`;
+}
+
+function toUnicodeCmap(): string {
+  return [
+    '/CIDInit /ProcSet findresource begin',
+    'begincmap',
+    '1 begincodespacerange',
+    '<0000> <FFFF>',
+    'endcodespacerange',
+    '1 beginbfrange',
+    '<0100> <01FF> <0000>',
+    'endbfrange',
+    'endcmap',
+  ].join('\n');
+}
+
+/**
+ * Builds a PDF with one page per entry. Each line of a page's text is
+ * drawn as its own text run, 20pt apart, starting at the top.
+ */
+export function buildPdf(pages: string[][], options: PdfBuilderOptions = {}): Buffer {
+  const objects: Array<string | Buffer> = [];
+  const add = (body: string | Buffer) => {
+    objects.push(body);
+    return objects.length;
+  };
+
+  const stream = (content: string, extra = '') => {
+    const data = options.compress ? deflateSync(Buffer.from(content, 'latin1')) : Buffer.from(content, 'latin1');
+    const filter = options.compress ? ' /Filter /FlateDecode' : '';
+    return Buffer.concat([
+      Buffer.from(`<< /Length ${data.length}${filter}${extra} >>\nstream\n`, 'latin1'),
+      data,
+      Buffer.from('\nendstream', 'latin1'),
+    ]);
+  };
+
+  const catalog = add('');
+  const pagesRoot = add('');
+  const font = options.toUnicode
+    ? add(`<< /Type /Font /Subtype /Type0 /BaseFont /Test /Encoding /Identity-H /ToUnicode ${objects.length + 2} 0 R >>`)
+    : add('<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>');
+  if (options.toUnicode) {
+    add(stream(toUnicodeCmap()));
+  }
+
+  const pageIds: number[] = [];
+  for (const lines of pages) {
+    const content = [
+      'BT',
+      '/F1 12 Tf',
+      ...lines.map((line, i) => {
+        const text = options.toUnicode ? twoByte(line) : literal(line);
+        return `1 0 0 1 50 ${780 - i * 20} Tm ${text} Tj`;
+      }),
+      'ET',
+    ].join('\n');
+    const contents = add(stream(content));
+    pageIds.push(
+      add(
+        `<< /Type /Page /Parent ${pagesRoot} 0 R /MediaBox [0 0 595 842] /Contents ${contents} 0 R >>`
+      )
+    );
+  }
+
+  objects[catalog - 1] = `<< /Type /Catalog /Pages ${pagesRoot} 0 R >>`;
+  objects[pagesRoot - 1] =
+    `<< /Type /Pages /Kids [${pageIds.map((id) => `${id} 0 R`).join(' ')}] /Count ${pageIds.length} ` +
+    `/Resources << /Font << /F1 ${font} 0 R >> >> >>`;
+
+  const parts: Buffer[] = [Buffer.from('%PDF-1.4\n%\xe2\xe3\xcf\xd3\n', 'latin1')];
+  const offsets: number[] = [];
+  let length = parts[0]!.length;
+  objects.forEach((body, i) => {
+    const part = Buffer.concat([
+      Buffer.from(`${i + 1} 0 obj\n`, 'latin1'),
+      Buffer.isBuffer(body) ? body : Buffer.from(body, 'latin1'),
+      Buffer.from('\nendobj\n', 'latin1'),
+    ]);
+    offsets.push(length);
+    parts.push(part);
+    length += part.length;
+  });
+
+  const xref = [
+    'xref',
+    `0 ${objects.length + 1}`,
+    '0000000000 65535 f ',
+    ...offsets.map((offset) => `${String(offset).padStart(10, '0')} 00000 n `),
+    'trailer',
+    `<< /Size ${objects.length + 1} /Root ${catalog} 0 R >>`,
+    'startxref',
+    String(length),
+    '%%EOF',
+  ].join('\n');
+
+  return Buffer.concat([...parts, Buffer.from(xref, 'latin1')]);
+}
@@ -0,0 +1,86 @@
+import { describe, it, expect } from 'vitest';
+import { extractPdfText } from '../pdf.js';
+import { writePdf } from '../pdf-writer.js';
+
+describe('writePdf', () => {
+  it('writes blocks that read back in order', () => {
+    const pdf = writePdf({
+      title: 'Claim pack',
+      blocks: [
+        { type: 'heading', text: 'Claim Pack', level: 1 },
+        { type: 'paragraph', text: 'Booking ABC123' },
+        { type: 'fields', fields: [{ label: 'Train Number', value: '9014' }] },
+        {
+          type: 'table',
+          columns: [
+            { header: 'Station', width: 2 },
+            { header: 'Delay', width: 1, align: 'right' },
+          ],
+          rows: [['Paris Gare du Nord', '+75 min']],
+        },
+      ],
+    });
+
+    expect(pdf.subarray(0, 8).toString('latin1')).toBe('%PDF-1.4');
+    expect(extractPdfText(pdf).pages).toEqual([
+      'Claim Pack\nBooking ABC123\nTrain Number 9014\nStation Delay\nParis Gare du Nord +75 min\nPage 1 of 1',
+    ]);
+  });
+
+  it('encodes WinAnsi characters and replaces the rest', () => {
+    const pdf = writePdf({
+      title: 'Test',
+      blocks: [{ type: 'paragraph', text: 'Cash: £25.00 (€30.00) – Brüssel-Süd, Łódź ✓' }],
+    });
+
+    expect(extractPdfText(pdf).pages[0]).toBe('Cash: £25.00 (€30.00) – Brüssel-Süd, ?ódz ?\nPage 1 of 1');
+  });
+
+  it('wraps long paragraphs within the page width', () => {
+    const text = Array.from({ length: 60 }, (_, i) => `word${i}`).join(' ');
+    const pdf = writePdf({ title: 'Test', blocks: [{ type: 'paragraph', text }] }, { compress: false });
+
+    const lines = extractPdfText(pdf).pages[0]!.split('\n');
+    expect(lines.length).toBeGreaterThan(3);
+    expect(lines.slice(0, -1).join(' ')).toBe(text);
+  });
+
+  it('starts new pages when content overflows, repeating table headers', () => {
+    const rows = Array.from({ length: 80 }, (_, i) => [`Row ${i + 1}`]);
+    const pdf = writePdf({
+      title: 'Test',
+      footer: 'Claim pack ABC123',
+      blocks: [{ type: 'table', columns: [{ header: 'Entry', width: 1 }], rows }],
+    });
+
+    const { pages } = extractPdfText(pdf);
+    expect(pages).toHaveLength(2);
+    expect(pages[0]!.startsWith('Entry\nRow 1\n')).toBe(true);
+    expect(pages[1]!.startsWith('Entry\n')).toBe(true);
+    expect(pages[1]!.endsWith('Row 80\nClaim pack ABC123 Page 2 of 2')).toBe(true);
+  });
+
+  it('honours page breaks', () => {
+    const pdf = writePdf({
+      title: 'Test',
+      blocks: [
+        { type: 'paragraph', text: 'First' },
+        { type: 'pageBreak' },
+        { type: 'pageBreak' },
+        { type: 'paragraph', text: 'Second' },
+      ],
+    });
+
+    expect(extractPdfText(pdf).pages).toEqual(['First\nPage 1 of 2', 'Second\nPage 2 of 2']);
+  });
+
+  it('stores the title and creation date', () => {
+    const pdf = writePdf(
+      { title: 'Claim (ABC123)', blocks: [], createdAt: new Date('2024-03-15T13:05:00Z') },
+      { compress: false }
+    ).toString('latin1');
+
+    expect(pdf).toContain('/Title (Claim \\(ABC123\\))');
+    expect(pdf).toContain('/CreationDate (D:20240315130500Z)');
+  });
+});
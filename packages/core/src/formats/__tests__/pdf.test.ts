@@ -0,0 +1,70 @@
+import { describe, it, expect } from 'vitest';
+import { extractPdfText, PdfFormatError } from '../pdf.js';
+import { buildPdf } from './pdf-builder.js';
+
+describe('extractPdfText', () => {
+  it('reads text from uncompressed pages', () => {
+    const pdf = buildPdf([['Booking reference: ABC123', 'Coach 5 Seat 61'], ['Second page']]);
+
+    const { pages, text } = extractPdfText(pdf);
+    expect(pages).toEqual(['Booking reference: ABC123\nCoach 5 Seat 61', 'Second page']);
+    expect(text).toBe('Booking reference: ABC123\nCoach 5 Seat 61\n\nSecond page');
+  });
+
+  it('inflates FlateDecode content streams', () => {
+    const pdf = buildPdf([['Train 9014', 'Départ (Paris) 08:01']], { compress: true });
+
+    expect(extractPdfText(pdf).pages).toEqual(['Train 9014\nDépart (Paris) 08:01']);
+  });
+
+  it('maps two-byte fonts through a ToUnicode CMap', () => {
+    const pdf = buildPdf([['MR JOHN SMITH', 'Brüssel-Süd']], { toUnicode: true, compress: true });
+
+    expect(extractPdfText(pdf).pages).toEqual(['MR JOHN SMITH\nBrüssel-Süd']);
+  });
+
+  it('orders runs by position and joins TJ arrays', () => {
+    const content = [
+      'BT /F1 10 Tf',
+      '1 0 0 1 300 700 Tm (right) Tj',
+      '1 0 0 1 50 700 Tm (left) Tj',
+      '1 0 0 1 50 800 Tm [(Co) 20 (ach) -400 (5)] TJ',
+      'ET',
+    ].join('\n');
+    const pdf = Buffer.from(
+      [
+        '%PDF-1.4',
+        '1 0 obj << /Type /Catalog /Pages 2 0 R >> endobj',
+        '2 0 obj << /Type /Pages /Kids [3 0 R] /Count 1 >> endobj',
+        '3 0 obj << /Type /Page /Parent 2 0 R /Contents 4 0 R',
+        '/Resources << /Font << /F1 5 0 R >> >> >> endobj',
+        `4 0 obj << /Length ${content.length} >>`,
+        'stream',
+        content,
+        'endstream endobj',
+        '5 0 obj << /Type /Font /Subtype /Type1 /BaseFont /Helvetica >> endobj',
+        '%%EOF',
+      ].join('\n'),
+      'latin1'
+    );
+
+    expect(extractPdfText(pdf).pages).toEqual(['Coach 5\nleft right']);
+  });
+
+  it('throws PdfFormatError for non-PDF data', () => {
+    expect(() => extractPdfText(Buffer.from('not a pdf at all'))).toThrow(PdfFormatError);
+  });
+
+  it('throws PdfFormatError for encrypted files', () => {
+    const pdf = Buffer.concat([
+      buildPdf([['secret']]),
+      Buffer.from('\ntrailer\n<< /Root 1 0 R /Encrypt 9 0 R >>\n', 'latin1'),
+    ]);
+
+    expect(() => extractPdfText(pdf)).toThrow(/Encrypted/);
+  });
+
+  it('throws PdfFormatError when there are no pages', () => {
+    expect(() => extractPdfText(Buffer.from('%PDF-1.4\n%%EOF'))).toThrow(PdfFormatError);
+  });
+});
@@ -0,0 +1,46 @@
+import { describe, it, expect } from 'vitest';
+import { readZipEntries, readZipFiles, ZipFormatError } from '../zip.js';
+import { buildZip } from './zip-builder.js';
+
+describe('readZipEntries', () => {
+  it('reads deflated and stored entries', () => {
+    const zip = buildZip([
+      { name: 'a.txt', content: 'hello '.repeat(50) },
+      { name: 'b.txt', content: 'stored', store: true },
+    ]);
+
+    const entries = readZipEntries(zip);
+    expect(entries.map((entry) => entry.name)).toEqual(['a.txt', 'b.txt']);
+    expect(entries[0]!.data.toString()).toBe('hello '.repeat(50));
+    expect(entries[1]!.data.toString()).toBe('stored');
+  });
+
+  it('skips directory entries', () => {
+    const zip = buildZip([
+      { name: 'feed/', content: '', store: true },
+      { name: 'feed/stops.txt', content: 'stop_id' },
+    ]);
+
+    expect(readZipEntries(zip).map((entry) => entry.name)).toEqual(['feed/stops.txt']);
+  });
+
+  it('throws ZipFormatError for non-zip data', () => {
+    expect(() => readZipEntries(Buffer.from('not a zip file at all, just text'))).toThrow(
+      ZipFormatError
+    );
+  });
+
+  it('throws ZipFormatError for tiny buffers', () => {
+    expect(() => readZipEntries(Buffer.alloc(4))).toThrow(ZipFormatError);
+  });
+});
+
+describe('readZipFiles', () => {
+  it('keys files by base name', () => {
+    const zip = buildZip([{ name: 'gtfs/trips.txt', content: 'trip_id' }]);
+
+    const files = readZipFiles(zip);
+    expect([...files.keys()]).toEqual(['trips.txt']);
+    expect(files.get('trips.txt')!.toString()).toBe('trip_id');
+  });
+});
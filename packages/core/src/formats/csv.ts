@@ -0,0 +1,111 @@
+/**
+ * Minimal RFC 4180 CSV reader.
+ *
+ * Handles quoted fields, escaped quotes (""), embedded newlines,
+ * CRLF/LF line endings and a leading UTF-8 BOM.
+ */
+
+export interface CsvOptions {
+  /** Field delimiter (default: ",") */
+  delimiter?: string;
+}
+
+/**
+ * Parses CSV text into rows of raw string fields.
+ * Blank lines are skipped.
+ *
+ * @example
+ * parseCsvRows('a,b\n"x, y",z') // [['a', 'b'], ['x, y', 'z']]
+ */
+export function parseCsvRows(text: string, options: CsvOptions = {}): string[][] {
+  const delimiter = options.delimiter ?? ',';
+  const input = text.charCodeAt(0) === 0xfeff ? text.slice(1) : text;
+
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+  let i = 0;
+
+  const endRow = () => {
+    row.push(field);
+    field = '';
+    // Skip blank lines (a single empty field)
+    if (row.length > 1 || row[0] !== '') {
+      rows.push(row);
+    }
+    row = [];
+  };
+
+  while (i < input.length) {
+    const char = input[i]!;
+
+    if (inQuotes) {
+      if (char === '"') {
+        if (input[i + 1] === '"') {
+          field += '"';
+          i += 2;
+          continue;
+        }
+        inQuotes = false;
+        i++;
+        continue;
+      }
+      field += char;
+      i++;
+      continue;
+    }
+
+    if (char === '"' && field === '') {
+      inQuotes = true;
+      i++;
+    } else if (char === delimiter) {
+      row.push(field);
+      field = '';
+      i++;
+    } else if (char === '\r') {
+      endRow();
+      i += input[i + 1] === '\n' ? 2 : 1;
+    } else if (char === '\n') {
+      endRow();
+      i++;
+    } else {
+      field += char;
+      i++;
+    }
+  }
+
+  if (field !== '' || row.length > 0) {
+    endRow();
+  }
+
+  return rows;
+}
+
+/**
+ * Parses CSV text with a header row into records keyed by column name.
+ * Header names are trimmed; missing trailing fields become empty strings.
+ *
+ * @example
+ * parseCsv('stop_id,stop_name\nGBSPX,St Pancras')
+ * // [{ stop_id: 'GBSPX', stop_name: 'St Pancras' }]
+ */
+export function parseCsv(
+  text: string,
+  options: CsvOptions = {}
+): Record<string, string>[] {
+  const [header, ...rows] = parseCsvRows(text, options);
+  if (!header) {
+    return [];
+  }
+
+  const columns = header.map((name) => name.trim());
+
+  return rows.map((fields) => {
+    const record: Record<string, string> = {};
+    columns.forEach((column, index) => {
+      record[column] = fields[index] ?? '';
+    });
+    return record;
+  });
+}
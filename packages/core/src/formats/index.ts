@@ -0,0 +1,32 @@
+// CSV
+export { parseCsv, parseCsvRows, type CsvOptions } from './csv.js';
+
+// ZIP
+export {
+  readZipEntries,
+  readZipFiles,
+  ZipFormatError,
+  type ZipEntry,
+} from './zip.js';
+
+// MIME
+export {
+  decodeMimeText,
+  getMimeBody,
+  parseMimeMessage,
+  MimeFormatError,
+  type MimeBody,
+  type MimeMessage,
+  type MimePart,
+} from './mime.js';
+
+// PDF
+export { extractPdfText, PdfFormatError, type PdfText } from './pdf.js';
+export {
+  writePdf,
+  type PdfBlock,
+  type PdfDocumentContent,
+  type PdfField,
+  type PdfTableColumn,
+  type PdfWriterOptions,
+} from './pdf-writer.js';
@@ -0,0 +1,362 @@
+/**
+ * Minimal MIME message (.eml) reader.
+ *
+ * Handles nested multipart bodies, base64 and quoted-printable transfer
+ * encodings, RFC 2047 encoded header words, RFC 2231 parameters and charset
+ * conversion via TextDecoder. Messages attached as message/rfc822 parts
+ * (forwarded emails) are parsed too.
+ */
+
+/** Deepest multipart/message nesting accepted */
+const MAX_DEPTH = 10;
+
+/**
+ * Error thrown when a message cannot be read.
+ */
+export class MimeFormatError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'MimeFormatError';
+  }
+}
+
+/**
+ * A leaf part of a MIME message.
+ */
+export interface MimePart {
+  /** Lowercased media type, e.g. "text/html" */
+  contentType: string;
+  /** Lowercased charset parameter, or null if none was given */
+  charset: string | null;
+  /** Lowercased Content-Disposition ("inline", "attachment"), or null if absent */
+  disposition: string | null;
+  /** Attachment file name, or null */
+  filename: string | null;
+  /** Content-ID without angle brackets, or null */
+  contentId: string | null;
+  /** Body with the transfer encoding removed */
+  content: Buffer;
+}
+
+/**
+ * A parsed MIME message.
+ */
+export interface MimeMessage {
+  /** Headers by lowercased name (first occurrence), unfolded and decoded */
+  headers: Record<string, string>;
+  /** Decoded Subject header, or null */
+  subject: string | null;
+  /** Leaf parts in document order; multipart containers are flattened */
+  parts: MimePart[];
+  /** Messages attached as message/rfc822 parts, e.g. a forwarded email */
+  attachedMessages: MimeMessage[];
+}
+
+/**
+ * Text bodies of a message.
+ */
+export interface MimeBody {
+  html: string | null;
+  text: string | null;
+}
+
+interface HeaderValue {
+  value: string;
+  params: Record<string, string>;
+}
+
+/**
+ * Decodes bytes in a charset, falling back to UTF-8 for unknown charsets.
+ */
+function decodeCharset(bytes: Buffer, charset: string | null): string {
+  try {
+    return new TextDecoder(charset ?? 'utf-8').decode(bytes);
+  } catch {
+    return new TextDecoder('utf-8').decode(bytes);
+  }
+}
+
+/**
+ * Decodes quoted-printable text held as a binary (latin1) string.
+ */
+function decodeQuotedPrintable(raw: string): Buffer {
+  const unwrapped = raw.replace(/=\r?\n/g, '');
+  const bytes: number[] = [];
+  for (let i = 0; i < unwrapped.length; i++) {
+    const char = unwrapped[i]!;
+    const hex = unwrapped.slice(i + 1, i + 3);
+    if (char === '=' && /^[0-9A-Fa-f]{2}$/.test(hex)) {
+      bytes.push(parseInt(hex, 16));
+      i += 2;
+    } else {
+      bytes.push(unwrapped.charCodeAt(i) & 0xff);
+    }
+  }
+  return Buffer.from(bytes);
+}
+
+/**
+ * Removes a Content-Transfer-Encoding from a body held as a binary string.
+ */
+function decodeTransferEncoding(
+  body: string,
+  encoding: string | undefined
+): Buffer {
+  switch (encoding?.toLowerCase()) {
+    case 'base64':
+      return Buffer.from(body.replace(/[^A-Za-z0-9+/=]/g, ''), 'base64');
+    case 'quoted-printable':
+      return decodeQuotedPrintable(body);
+    default:
+      return Buffer.from(body, 'latin1');
+  }
+}
+
+/**
+ * Decodes RFC 2047 encoded words: "=?utf-8?Q?Caf=C3=A9?=".
+ * Whitespace between adjacent encoded words is dropped.
+ */
+function decodeEncodedWords(value: string): string {
+  return value
+    .replace(/(=\?[^?]+\?[BbQq]\?[^?]*\?=)\s+(?==\?)/g, '$1')
+    .replace(
+      /=\?([^?*]+)(?:\*[^?]*)?\?([BbQq])\?([^?]*)\?=/g,
+      (_, charset: string, encoding: string, text: string) => {
+        const bytes =
+          encoding.toUpperCase() === 'B'
+            ? Buffer.from(text, 'base64')
+            : decodeQuotedPrintable(text.replace(/_/g, ' '));
+        return decodeCharset(bytes, charset.toLowerCase());
+      }
+    );
+}
+
+/**
+ * Splits a header value into its main value and parameters.
+ * Supports RFC 2231 extended (name*=utf-8''...) and continued (name*0=...) parameters.
+ */
+function parseHeaderValue(raw: string): HeaderValue {
+  const [main = '', ...rest] = raw.split(/;(?=(?:[^"]*"[^"]*")*[^"]*$)/);
+  const params: Record<string, string> = {};
+  const continuations: Record<
+    string,
+    Array<{ index: number; value: string; extended: boolean }>
+  > = {};
+
+  for (const segment of rest) {
+    const eq = segment.indexOf('=');
+    if (eq === -1) continue;
+    const key = segment.slice(0, eq).trim().toLowerCase();
+    let value = segment.slice(eq + 1).trim();
+    if (value.startsWith('"') && value.endsWith('"')) {
+      value = value.slice(1, -1).replace(/\\(.)/g, '$1');
+    }
+
+    const continued = key.match(/^(.+)\*(\d+)(\*)?$/);
+    if (continued) {
+      const name = continued[1]!;
+      (continuations[name] ??= []).push({
+        index: parseInt(continued[2]!, 10),
+        value,
+        extended: continued[3] !== undefined,
+      });
+    } else if (key.endsWith('*')) {
+      params[key.slice(0, -1)] = decodeExtendedParam(value);
+    } else {
+      params[key] = decodeEncodedWords(value);
+    }
+  }
+
+  for (const [name, pieces] of Object.entries(continuations)) {
+    pieces.sort((a, b) => a.index - b.index);
+    const joined = pieces.map((piece) => piece.value).join('');
+    params[name] = pieces[0]?.extended ? decodeExtendedParam(joined) : joined;
+  }
+
+  return { value: main.trim().toLowerCase(), params };
+}
+
+/**
+ * Decodes an RFC 2231 extended parameter value: charset'language'percent-encoded.
+ */
+function decodeExtendedParam(value: string): string {
+  const match = value.match(/^([^']*)'[^']*'(.*)$/);
+  const charset = match?.[1] || 'utf-8';
+  const encoded = match ? match[2]! : value;
+  const bytes = Buffer.from(
+    encoded.replace(/%([0-9A-Fa-f]{2})/g, (_, hex: string) =>
+      String.fromCharCode(parseInt(hex, 16))
+    ),
+    'latin1'
+  );
+  return decodeCharset(bytes, charset.toLowerCase());
+}
+
+/**
+ * Splits an entity (headers + body) held as a binary string.
+ *
+ * @throws MimeFormatError if the entity doesn't start with a header block
+ */
+function splitEntity(raw: string): {
+  headers: Record<string, string>;
+  body: string;
+} {
+  const separator = raw.match(/\r?\n\r?\n/);
+  const headerBlock = separator ? raw.slice(0, separator.index) : raw;
+  const body = separator
+    ? raw.slice((separator.index ?? 0) + separator[0].length)
+    : '';
+
+  const headers: Record<string, string> = {};
+  const lines = headerBlock.replace(/\r?\n[ \t]+/g, ' ').split(/\r?\n/);
+  for (const line of lines) {
+    if (line.trim() === '') continue;
+    const colon = line.indexOf(':');
+    if (colon <= 0 || /\s/.test(line.slice(0, colon))) {
+      throw new MimeFormatError(
+        `Not a MIME message: invalid header line "${line.slice(0, 40)}"`
+      );
+    }
+    const name = line.slice(0, colon).toLowerCase();
+    headers[name] ??= line.slice(colon + 1).trim();
+  }
+
+  return { headers, body };
+}
+
+/**
+ * Splits a multipart body into its parts (without the preamble and epilogue).
+ */
+function splitMultipart(body: string, boundary: string): string[] {
+  const delimiter = '--' + boundary;
+  const parts: string[] = [];
+  let current: string[] | null = null;
+
+  for (const line of body.split(/\r?\n/)) {
+    const trimmed = line.trimEnd();
+    if (trimmed === delimiter + '--') {
+      break;
+    }
+    if (trimmed === delimiter) {
+      if (current) parts.push(current.join('\n'));
+      current = [];
+    } else if (current) {
+      current.push(line);
+    }
+  }
+  if (current) parts.push(current.join('\n'));
+
+  return parts;
+}
+
+/**
+ * Parses an entity into a message, appending leaf parts and attached messages.
+ */
+function parseEntity(raw: string, message: MimeMessage, depth: number): void {
+  if (depth > MAX_DEPTH) {
+    throw new MimeFormatError('Message is nested too deeply');
+  }
+
+  const { headers, body } = splitEntity(raw);
+  const contentType = parseHeaderValue(headers['content-type'] ?? 'text/plain');
+  const mediaType = contentType.value || 'text/plain';
+
+  if (mediaType.startsWith('multipart/')) {
+    const boundary = contentType.params['boundary'];
+    if (!boundary) {
+      throw new MimeFormatError(
+        `Multipart part without a boundary (${mediaType})`
+      );
+    }
+    for (const part of splitMultipart(body, boundary)) {
+      parseEntity(part, message, depth + 1);
+    }
+    return;
+  }
+
+  const content = decodeTransferEncoding(
+    body,
+    headers['content-transfer-encoding']
+  );
+
+  if (mediaType === 'message/rfc822') {
+    message.attachedMessages.push(
+      parseMessage(content.toString('latin1'), depth + 1)
+    );
+    return;
+  }
+
+  const disposition = headers['content-disposition']
+    ? parseHeaderValue(headers['content-disposition'])
+    : null;
+
+  message.parts.push({
+    contentType: mediaType,
+    charset: contentType.params['charset']?.toLowerCase() ?? null,
+    disposition: disposition?.value || null,
+    filename:
+      disposition?.params['filename'] ?? contentType.params['name'] ?? null,
+    contentId: headers['content-id']?.replace(/^<|>$/g, '') ?? null,
+    content,
+  });
+}
+
+function parseMessage(raw: string, depth: number): MimeMessage {
+  const { headers } = splitEntity(raw);
+  const decoded: Record<string, string> = {};
+  for (const [name, value] of Object.entries(headers)) {
+    decoded[name] = decodeEncodedWords(value);
+  }
+
+  const message: MimeMessage = {
+    headers: decoded,
+    subject: decoded['subject'] ?? null,
+    parts: [],
+    attachedMessages: [],
+  };
+  parseEntity(raw, message, depth);
+  return message;
+}
+
+/**
+ * Parses a raw MIME message, such as the contents of an .eml file.
+ *
+ * @throws MimeFormatError if the message is malformed
+ */
+export function parseMimeMessage(raw: Buffer | string): MimeMessage {
+  const binary =
+    typeof raw === 'string'
+      ? Buffer.from(raw, 'utf-8').toString('latin1')
+      : raw.toString('latin1');
+  if (binary.trim() === '') {
+    throw new MimeFormatError('Message is empty');
+  }
+  return parseMessage(binary.replace(/^\s+/, ''), 0);
+}
+
+/**
+ * Decodes a text part into a string using its charset.
+ */
+export function decodeMimeText(part: MimePart): string {
+  return decodeCharset(part.content, part.charset);
+}
+
+/**
+ * Gets the HTML and plain-text bodies of a message.
+ *
+ * Uses the first text/html and text/plain parts that aren't attachments, so
+ * both alternatives of a multipart/alternative body are returned. Attached
+ * messages are not searched.
+ */
+export function getMimeBody(message: MimeMessage): MimeBody {
+  const inline = message.parts.filter(
+    (part) => part.disposition !== 'attachment'
+  );
+  const html = inline.find((part) => part.contentType === 'text/html');
+  const text = inline.find((part) => part.contentType === 'text/plain');
+
+  return {
+    html: html ? decodeMimeText(html) : null,
+    text: text ? decodeMimeText(text) : null,
+  };
+}
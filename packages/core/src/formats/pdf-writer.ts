@@ -0,0 +1,510 @@
+/**
+ * Minimal PDF writer built on node:zlib.
+ *
+ * Lays out simple documents (headings, paragraphs, label/value fields and
+ * tables) on A4 pages in the standard Helvetica fonts, wrapping lines and
+ * starting new pages as needed. Text is WinAnsi-encoded: accented letters
+ * outside it lose their accent and anything else is printed as "?".
+ */
+
+import { deflateSync } from 'zlib';
+import { WIN_ANSI_HIGH } from './pdf.js';
+
+/** A4 in points */
+const PAGE_WIDTH = 595;
+const PAGE_HEIGHT = 842;
+const MARGIN = 50;
+const CONTENT_WIDTH = PAGE_WIDTH - 2 * MARGIN;
+
+/** Lowest point body text may reach, leaving room for the footer */
+const CONTENT_BOTTOM = 60;
+const FOOTER_BASELINE = 30;
+
+const BODY_SIZE = 10;
+const BODY_LEADING = 14;
+const TABLE_SIZE = 9;
+const TABLE_LEADING = 12;
+const FOOTER_SIZE = 8;
+const FIELD_LABEL_WIDTH = 150;
+const CELL_PADDING = 4;
+const ROW_GAP = 3;
+
+const MUTED_GRAY = 0.4;
+const RULE_GRAY = 0.75;
+
+/**
+ * A piece of document content, laid out top to bottom.
+ */
+export type PdfBlock =
+  | { type: 'heading'; text: string; level?: 1 | 2 }
+  | { type: 'paragraph'; text: string; muted?: boolean }
+  | { type: 'fields'; fields: PdfField[] }
+  | { type: 'table'; columns: PdfTableColumn[]; rows: string[][] }
+  | { type: 'pageBreak' };
+
+/**
+ * A label and its value, printed side by side.
+ */
+export interface PdfField {
+  label: string;
+  value: string;
+}
+
+/**
+ * A table column.
+ */
+export interface PdfTableColumn {
+  header: string;
+  /** Share of the page width, relative to the other columns */
+  width: number;
+  align?: 'left' | 'right';
+}
+
+/**
+ * A document to write.
+ */
+export interface PdfDocumentContent {
+  /** Stored in the document properties */
+  title: string;
+  blocks: PdfBlock[];
+  /** Printed at the foot of every page, next to the page number */
+  footer?: string;
+  /** Stored in the document properties */
+  createdAt?: Date;
+}
+
+export interface PdfWriterOptions {
+  /** Deflate content streams (default: true) */
+  compress?: boolean;
+}
+
+// ---------------------------------------------------------------------------
+// Fonts
+// ---------------------------------------------------------------------------
+
+type PdfFont = 'regular' | 'bold';
+
+const FONT_RESOURCES: Record<PdfFont, string> = { regular: 'F1', bold: 'F2' };
+
+const BASE_FONTS: Record<PdfFont, string> = { regular: 'Helvetica', bold: 'Helvetica-Bold' };
+
+/** Glyph widths for characters 0x20-0x7e, in thousandths of an em */
+const ASCII_WIDTHS: Record<PdfFont, readonly number[]> = {
+  regular: [
+    278, 278, 355, 556, 556, 889, 667, 191, 333, 333, 389, 584, 278, 333, 278, 278,
+    556, 556, 556, 556, 556, 556, 556, 556, 556, 556, 278, 278, 584, 584, 584, 556,
+    1015, 667, 667, 722, 722, 667, 611, 778, 722, 278, 500, 667, 556, 833, 722, 778,
+    667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 278, 278, 278, 469, 556,
+    333, 556, 556, 500, 556, 556, 278, 556, 556, 222, 222, 500, 222, 833, 556, 556,
+    556, 556, 333, 500, 278, 556, 500, 722, 500, 500, 500, 334, 260, 334, 584,
+  ],
+  bold: [
+    278, 333, 474, 556, 556, 889, 722, 238, 333, 333, 389, 584, 278, 333, 278, 278,
+    556, 556, 556, 556, 556, 556, 556, 556, 556, 556, 333, 333, 584, 584, 584, 611,
+    975, 722, 722, 722, 722, 667, 611, 778, 722, 278, 556, 722, 611, 833, 722, 778,
+    667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 333, 278, 333, 584, 556,
+    333, 556, 611, 556, 611, 556, 333, 611, 611, 278, 278, 556, 278, 889, 611, 611,
+    611, 611, 389, 556, 333, 611, 556, 778, 556, 556, 500, 389, 280, 389, 584,
+  ],
+};
+
+/** Widths of punctuation whose width differs from the fallback, as [regular, bold] */
+const SYMBOL_WIDTHS: Record<string, readonly [number, number]> = {
+  '\u00a0': [278, 278],
+  '‘': [222, 278],
+  '’': [222, 278],
+  '“': [333, 500],
+  '”': [333, 500],
+  '•': [350, 350],
+  '…': [1000, 1000],
+  '—': [1000, 1000],
+  '°': [400, 400],
+  '×': [584, 584],
+  '·': [278, 278],
+};
+
+/** Width of other WinAnsi characters, which are mostly letter-sized */
+const FALLBACK_WIDTH = 556;
+
+const isAsciiPrintable = (code: number) => code >= 0x20 && code <= 0x7e;
+
+/**
+ * Replaces each character the fonts can't print: tabs become spaces,
+ * accented letters lose their accent and anything else becomes "?".
+ */
+function toWinAnsi(text: string): string {
+  let result = '';
+  for (const char of text) {
+    const code = char.codePointAt(0)!;
+    const encodable =
+      isAsciiPrintable(code) ||
+      (code >= 0xa0 && code <= 0xff) ||
+      (code > 0xff && WIN_ANSI_HIGH.includes(char));
+    if (encodable) {
+      result += char;
+    } else if (char === '\t') {
+      result += ' ';
+    } else {
+      const base = char.normalize('NFD').charCodeAt(0);
+      result += isAsciiPrintable(base) ? String.fromCharCode(base) : '?';
+    }
+  }
+  return result;
+}
+
+function charWidth(char: string, font: PdfFont): number {
+  const code = char.charCodeAt(0);
+  if (isAsciiPrintable(code)) {
+    return ASCII_WIDTHS[font][code - 0x20]!;
+  }
+  const symbol = SYMBOL_WIDTHS[char];
+  if (symbol) {
+    return symbol[font === 'regular' ? 0 : 1];
+  }
+  const base = char.normalize('NFD').charCodeAt(0);
+  return isAsciiPrintable(base) ? ASCII_WIDTHS[font][base - 0x20]! : FALLBACK_WIDTH;
+}
+
+/**
+ * Measures WinAnsi text, in points.
+ */
+function measure(text: string, font: PdfFont, size: number): number {
+  let width = 0;
+  for (const char of text) {
+    width += charWidth(char, font);
+  }
+  return (width * size) / 1000;
+}
+
+/**
+ * Encodes WinAnsi text as a literal string, one byte per character.
+ */
+function literal(text: string): string {
+  let result = '';
+  for (const char of text) {
+    const code = char.charCodeAt(0);
+    const byte = code <= 0xff ? code : 0x80 + WIN_ANSI_HIGH.indexOf(char);
+    result += char === '(' || char === ')' || char === '\\' ? `\\${char}` : String.fromCharCode(byte);
+  }
+  return `(${result})`;
+}
+
+/**
+ * Wraps text into lines no wider than `width`. Explicit line breaks are
+ * kept, and words too long for a line are split.
+ */
+function wrapText(text: string, font: PdfFont, size: number, width: number): string[] {
+  const lines: string[] = [];
+
+  for (const paragraph of toWinAnsi(text).split(/\r?\n/)) {
+    let line = '';
+    for (const word of paragraph.split(' ')) {
+      const candidate = line ? `${line} ${word}` : word;
+      if (measure(candidate, font, size) <= width) {
+        line = candidate;
+        continue;
+      }
+
+      if (line) lines.push(line);
+      line = word;
+      while (line.length > 1 && measure(line, font, size) > width) {
+        let fits = 1;
+        while (fits < line.length && measure(line.slice(0, fits + 1), font, size) <= width) {
+          fits++;
+        }
+        lines.push(line.slice(0, fits));
+        line = line.slice(fits);
+      }
+    }
+    lines.push(line);
+  }
+
+  return lines;
+}
+
+// ---------------------------------------------------------------------------
+// Layout
+// ---------------------------------------------------------------------------
+
+interface TextStyle {
+  font?: PdfFont;
+  size?: number;
+  muted?: boolean;
+}
+
+/**
+ * Draws onto pages from the top down, starting a page when one fills up.
+ */
+class PageLayout {
+  readonly pages: string[][] = [];
+  /** Top of the next line */
+  y = 0;
+  private ops: string[] = [];
+
+  constructor() {
+    this.addPage();
+  }
+
+  get atTop(): boolean {
+    return this.y === PAGE_HEIGHT - MARGIN;
+  }
+
+  addPage(): void {
+    this.ops = [];
+    this.pages.push(this.ops);
+    this.y = PAGE_HEIGHT - MARGIN;
+  }
+
+  /**
+   * Starts a new page unless `height` fits on this one.
+   */
+  reserve(height: number): void {
+    if (this.y - height < CONTENT_BOTTOM && !this.atTop) {
+      this.addPage();
+    }
+  }
+
+  /**
+   * Draws one line of WinAnsi text with its baseline at `baseline`.
+   */
+  text(text: string, x: number, baseline: number, style: TextStyle = {}): void {
+    if (!text) return;
+    const font = style.font ?? 'regular';
+    const size = style.size ?? BODY_SIZE;
+    const color = style.muted ? MUTED_GRAY : 0;
+    this.ops.push(
+      `BT /${FONT_RESOURCES[font]} ${size} Tf ${color} g 1 0 0 1 ${round(x)} ${round(baseline)} Tm ${literal(text)} Tj ET`
+    );
+  }
+
+  rule(y: number, x1 = MARGIN, x2 = PAGE_WIDTH - MARGIN): void {
+    this.ops.push(`${RULE_GRAY} G 0.5 w ${round(x1)} ${round(y)} m ${round(x2)} ${round(y)} l S`);
+  }
+}
+
+const round = (value: number) => Math.round(value * 100) / 100;
+
+function layoutHeading(layout: PageLayout, text: string, level: 1 | 2): void {
+  const size = level === 1 ? 16 : 12;
+  const leading = level === 1 ? 22 : 17;
+  const lines = wrapText(text, 'bold', size, CONTENT_WIDTH);
+
+  // Keep the heading with the first line after it
+  layout.reserve((level === 1 ? 0 : 12) + lines.length * leading + 6 + BODY_LEADING);
+  if (!layout.atTop) {
+    layout.y -= level === 1 ? 18 : 12;
+  }
+
+  for (const line of lines) {
+    layout.text(line, MARGIN, layout.y - size, { font: 'bold', size });
+    layout.y -= leading;
+  }
+  if (level === 2) {
+    layout.rule(layout.y + 2);
+  }
+  layout.y -= 6;
+}
+
+function layoutParagraph(layout: PageLayout, text: string, muted: boolean): void {
+  for (const line of wrapText(text, 'regular', BODY_SIZE, CONTENT_WIDTH)) {
+    layout.reserve(BODY_LEADING);
+    layout.text(line, MARGIN, layout.y - BODY_SIZE, { muted });
+    layout.y -= BODY_LEADING;
+  }
+  layout.y -= 4;
+}
+
+function layoutFields(layout: PageLayout, fields: PdfField[]): void {
+  const valueWidth = CONTENT_WIDTH - FIELD_LABEL_WIDTH;
+
+  for (const field of fields) {
+    const labels = wrapText(field.label, 'regular', BODY_SIZE, FIELD_LABEL_WIDTH - 10);
+    const values = wrapText(field.value, 'regular', BODY_SIZE, valueWidth);
+    const lineCount = Math.max(labels.length, values.length);
+
+    layout.reserve(lineCount * BODY_LEADING);
+    for (let i = 0; i < lineCount; i++) {
+      const baseline = layout.y - i * BODY_LEADING - BODY_SIZE;
+      layout.text(labels[i] ?? '', MARGIN, baseline, { muted: true });
+      layout.text(values[i] ?? '', MARGIN + FIELD_LABEL_WIDTH, baseline);
+    }
+    layout.y -= lineCount * BODY_LEADING;
+  }
+  layout.y -= 4;
+}
+
+function layoutTable(layout: PageLayout, columns: PdfTableColumn[], rows: string[][]): void {
+  const totalShare = columns.reduce((sum, column) => sum + column.width, 0);
+  const widths = columns.map((column) => (column.width / totalShare) * CONTENT_WIDTH);
+  const lefts = widths.map((_, i) => MARGIN + widths.slice(0, i).reduce((sum, width) => sum + width, 0));
+
+  const wrapRow = (cells: string[], font: PdfFont) =>
+    columns.map((_, c) => wrapText(cells[c] ?? '', font, TABLE_SIZE, widths[c]! - 2 * CELL_PADDING));
+  const rowHeight = (wrapped: string[][]) =>
+    Math.max(1, ...wrapped.map((lines) => lines.length)) * TABLE_LEADING + ROW_GAP;
+
+  const drawRow = (wrapped: string[][], font: PdfFont) => {
+    wrapped.forEach((lines, c) => {
+      lines.forEach((line, i) => {
+        const x =
+          columns[c]!.align === 'right'
+            ? lefts[c]! + widths[c]! - CELL_PADDING - measure(line, font, TABLE_SIZE)
+            : lefts[c]! + CELL_PADDING;
+        layout.text(line, x, layout.y - i * TABLE_LEADING - TABLE_SIZE, { font, size: TABLE_SIZE });
+      });
+    });
+    layout.y -= rowHeight(wrapped);
+  };
+
+  // The header is repeated on each page the table continues onto
+  const header = wrapRow(
+    columns.map((column) => column.header),
+    'bold'
+  );
+  const drawHeader = () => {
+    drawRow(header, 'bold');
+    layout.rule(layout.y + 1);
+    layout.y -= 2;
+  };
+
+  layout.reserve(rowHeight(header) + TABLE_LEADING);
+  drawHeader();
+
+  for (const row of rows) {
+    const wrapped = wrapRow(row, 'regular');
+    if (layout.y - rowHeight(wrapped) < CONTENT_BOTTOM) {
+      layout.addPage();
+      drawHeader();
+    }
+    drawRow(wrapped, 'regular');
+  }
+  layout.y -= 6;
+}
+
+function layoutFooters(pages: string[][], footer: string | undefined): void {
+  const text = footer ? toWinAnsi(footer) : '';
+  pages.forEach((ops, i) => {
+    const pageNumber = `Page ${i + 1} of ${pages.length}`;
+    const style = `/${FONT_RESOURCES.regular} ${FOOTER_SIZE} Tf ${MUTED_GRAY} g`;
+    const right = PAGE_WIDTH - MARGIN - measure(pageNumber, 'regular', FOOTER_SIZE);
+    if (text) {
+      ops.push(`BT ${style} 1 0 0 1 ${MARGIN} ${FOOTER_BASELINE} Tm ${literal(text)} Tj ET`);
+    }
+    ops.push(`BT ${style} 1 0 0 1 ${round(right)} ${FOOTER_BASELINE} Tm ${literal(pageNumber)} Tj ET`);
+  });
+}
+
+// ---------------------------------------------------------------------------
+// File
+// ---------------------------------------------------------------------------
+
+/**
+ * Formats a date for the document properties, e.g. "D:20240315130500Z".
+ */
+function formatPdfDate(date: Date): string {
+  return `D:${date.toISOString().replace(/[-:T]/g, '').slice(0, 14)}Z`;
+}
+
+/**
+ * Writes a document as a PDF file.
+ *
+ * @param content - The document's blocks and properties
+ * @param options - Writer options
+ * @returns The file bytes
+ */
+export function writePdf(content: PdfDocumentContent, options: PdfWriterOptions = {}): Buffer {
+  const compress = options.compress ?? true;
+
+  const layout = new PageLayout();
+  for (const block of content.blocks) {
+    switch (block.type) {
+      case 'heading':
+        layoutHeading(layout, block.text, block.level ?? 2);
+        break;
+      case 'paragraph':
+        layoutParagraph(layout, block.text, block.muted ?? false);
+        break;
+      case 'fields':
+        layoutFields(layout, block.fields);
+        break;
+      case 'table':
+        layoutTable(layout, block.columns, block.rows);
+        break;
+      case 'pageBreak':
+        if (!layout.atTop) layout.addPage();
+        break;
+    }
+  }
+  layoutFooters(layout.pages, content.footer);
+
+  const objects: Array<string | Buffer> = [];
+  const add = (body: string | Buffer) => {
+    objects.push(body);
+    return objects.length;
+  };
+
+  const stream = (data: string) => {
+    const raw = Buffer.from(data, 'latin1');
+    const bytes = compress ? deflateSync(raw) : raw;
+    return Buffer.concat([
+      Buffer.from(`<< /Length ${bytes.length}${compress ? ' /Filter /FlateDecode' : ''} >>\nstream\n`, 'latin1'),
+      bytes,
+      Buffer.from('\nendstream', 'latin1'),
+    ]);
+  };
+
+  const catalog = add('');
+  const pagesRoot = add('');
+  const fonts = (Object.keys(FONT_RESOURCES) as PdfFont[]).map(
+    (font) =>
+      `/${FONT_RESOURCES[font]} ${add(
+        `<< /Type /Font /Subtype /Type1 /BaseFont /${BASE_FONTS[font]} /Encoding /WinAnsiEncoding >>`
+      )} 0 R`
+  );
+  const info = add(
+    `<< /Title ${literal(toWinAnsi(content.title))}` +
+      (content.createdAt ? ` /CreationDate (${formatPdfDate(content.createdAt)})` : '') +
+      ' >>'
+  );
+
+  const pageIds = layout.pages.map((ops) => {
+    const contents = add(stream(ops.join('\n')));
+    return add(
+      `<< /Type /Page /Parent ${pagesRoot} 0 R /MediaBox [0 0 ${PAGE_WIDTH} ${PAGE_HEIGHT}] /Contents ${contents} 0 R >>`
+    );
+  });
+
+  objects[catalog - 1] = `<< /Type /Catalog /Pages ${pagesRoot} 0 R >>`;
+  objects[pagesRoot - 1] =
+    `<< /Type /Pages /Kids [${pageIds.map((id) => `${id} 0 R`).join(' ')}] /Count ${pageIds.length} ` +
+    `/Resources << /Font << ${fonts.join(' ')} >> >> >>`;
+
+  const parts: Buffer[] = [Buffer.from('%PDF-1.4\n%\xe2\xe3\xcf\xd3\n', 'latin1')];
+  const offsets: number[] = [];
+  let length = parts[0]!.length;
+  objects.forEach((body, i) => {
+    const part = Buffer.concat([
+      Buffer.from(`${i + 1} 0 obj\n`, 'latin1'),
+      Buffer.isBuffer(body) ? body : Buffer.from(body, 'latin1'),
+      Buffer.from('\nendobj\n', 'latin1'),
+    ]);
+    offsets.push(length);
+    parts.push(part);
+    length += part.length;
+  });
+
+  const xref = [
+    'xref',
+    `0 ${objects.length + 1}`,
+    '0000000000 65535 f ',
+    ...offsets.map((offset) => `${String(offset).padStart(10, '0')} 00000 n `),
+    'trailer',
+    `<< /Size ${objects.length + 1} /Root ${catalog} 0 R /Info ${info} 0 R >>`,
+    'startxref',
+    String(length),
+    '%%EOF',
+    '',
+  ].join('\n');
+
+  return Buffer.concat([...parts, Buffer.from(xref, 'latin1')]);
+}
@@ -0,0 +1,1016 @@
+/**
+ * Minimal PDF text extractor built on node:zlib.
+ *
+ * Reads the text drawn on each page: unfiltered, FlateDecode and
+ * ASCIIHexDecode content streams, object streams, form XObjects, and fonts
+ * with a ToUnicode CMap or a WinAnsi-style encoding. Text runs are ordered
+ * top to bottom, left to right, with line breaks and spaces inferred from
+ * their positions. Encrypted files and scanned (image-only) pages are not
+ * supported.
+ */
+
+import { inflateSync, constants as zlibConstants } from 'zlib';
+
+/** Deepest page-tree, form XObject or reference nesting followed */
+const MAX_DEPTH = 10;
+
+/** Largest ToUnicode bfrange expanded, in codes */
+const MAX_CMAP_RANGE = 0x10000;
+
+/** Kerning adjustment (thousandths of an em) treated as a word space in TJ arrays */
+const TJ_SPACE_THRESHOLD = -200;
+
+/** Average glyph width used to estimate where a run ends, in ems */
+const AVERAGE_GLYPH_WIDTH = 0.5;
+
+/**
+ * Error thrown when a file cannot be read.
+ */
+export class PdfFormatError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'PdfFormatError';
+  }
+}
+
+/**
+ * Text extracted from a PDF.
+ */
+export interface PdfText {
+  /** Text of each page in page order, lines separated by "\n" */
+  pages: string[];
+  /** All pages, separated by blank lines */
+  text: string;
+}
+
+// ---------------------------------------------------------------------------
+// Objects
+// ---------------------------------------------------------------------------
+
+class PdfName {
+  constructor(readonly name: string) {}
+}
+
+class PdfRef {
+  constructor(
+    readonly num: number,
+    readonly gen: number
+  ) {}
+}
+
+class PdfOperator {
+  constructor(readonly op: string) {}
+}
+
+class PdfDict {
+  constructor(readonly entries: Map<string, PdfValue>) {}
+
+  get(key: string): PdfValue | undefined {
+    return this.entries.get(key);
+  }
+}
+
+class PdfStream {
+  constructor(
+    readonly dict: PdfDict,
+    readonly raw: Buffer
+  ) {}
+}
+
+type PdfValue =
+  | number
+  | boolean
+  | null
+  | Buffer
+  | PdfName
+  | PdfRef
+  | PdfDict
+  | PdfStream
+  | PdfValue[];
+
+type Matrix = [number, number, number, number, number, number];
+
+const IDENTITY: Matrix = [1, 0, 0, 1, 0, 0];
+
+function multiply(m1: Matrix, m2: Matrix): Matrix {
+  return [
+    m1[0] * m2[0] + m1[1] * m2[2],
+    m1[0] * m2[1] + m1[1] * m2[3],
+    m1[2] * m2[0] + m1[3] * m2[2],
+    m1[2] * m2[1] + m1[3] * m2[3],
+    m1[4] * m2[0] + m1[5] * m2[2] + m2[4],
+    m1[4] * m2[1] + m1[5] * m2[3] + m2[5],
+  ];
+}
+
+function translate(tx: number, ty: number, m: Matrix): Matrix {
+  return multiply([1, 0, 0, 1, tx, ty], m);
+}
+
+// ---------------------------------------------------------------------------
+// Lexer / parser
+// ---------------------------------------------------------------------------
+
+const WHITESPACE = new Set(['\0', '\t', '\n', '\f', '\r', ' ']);
+const DELIMITERS = new Set(['(', ')', '<', '>', '[', ']', '{', '}', '/', '%']);
+
+const STRING_ESCAPES: Record<string, number> = { n: 0x0a, r: 0x0d, t: 0x09, b: 0x08, f: 0x0c };
+
+function isRegular(char: string | undefined): boolean {
+  return char !== undefined && !WHITESPACE.has(char) && !DELIMITERS.has(char);
+}
+
+/**
+ * Reads PDF objects from a latin1 string, where each char is one byte.
+ */
+class PdfParser {
+  pos: number;
+
+  constructor(
+    private readonly src: string,
+    start = 0
+  ) {
+    this.pos = start;
+  }
+
+  skipWhitespace(): void {
+    while (this.pos < this.src.length) {
+      const char = this.src[this.pos]!;
+      if (WHITESPACE.has(char)) {
+        this.pos++;
+      } else if (char === '%') {
+        while (this.pos < this.src.length && this.src[this.pos] !== '\n' && this.src[this.pos] !== '\r') {
+          this.pos++;
+        }
+      } else {
+        break;
+      }
+    }
+  }
+
+  atEnd(): boolean {
+    this.skipWhitespace();
+    return this.pos >= this.src.length;
+  }
+
+  /**
+   * Parses the next value. Bare keywords are returned as operators.
+   */
+  parseValue(): PdfValue | PdfOperator {
+    this.skipWhitespace();
+    const char = this.src[this.pos];
+
+    if (char === undefined) {
+      throw new PdfFormatError('Unexpected end of data');
+    }
+    if (char === '<' && this.src[this.pos + 1] === '<') {
+      return this.parseDict();
+    }
+    if (char === '<') {
+      return this.parseHexString();
+    }
+    if (char === '(') {
+      return this.parseLiteralString();
+    }
+    if (char === '[') {
+      return this.parseArray();
+    }
+    if (char === '/') {
+      return this.parseName();
+    }
+    if (char === ']' || char === '>' || char === ')' || char === '{' || char === '}') {
+      // Stray delimiter: skip it as a no-op operator
+      this.pos++;
+      return new PdfOperator(char);
+    }
+
+    const token = this.readToken();
+    if (/^[+-]?(?:\d+\.?\d*|\.\d+)$/.test(token)) {
+      const value = parseFloat(token);
+      if (/^\d+$/.test(token)) {
+        return this.tryReference(value);
+      }
+      return value;
+    }
+    if (token === 'true') return true;
+    if (token === 'false') return false;
+    if (token === 'null') return null;
+    return new PdfOperator(token);
+  }
+
+  /**
+   * Parses a value that must not be an operator.
+   */
+  parseObject(): PdfValue {
+    const value = this.parseValue();
+    if (value instanceof PdfOperator) {
+      throw new PdfFormatError(`Unexpected keyword "${value.op}"`);
+    }
+    return value;
+  }
+
+  private readToken(): string {
+    const start = this.pos;
+    while (isRegular(this.src[this.pos])) {
+      this.pos++;
+    }
+    if (this.pos === start) {
+      // Unknown single character; consume it so parsing advances
+      this.pos++;
+    }
+    return this.src.slice(start, this.pos);
+  }
+
+  private tryReference(num: number): PdfValue {
+    const saved = this.pos;
+    this.skipWhitespace();
+    const genStart = this.pos;
+    while (/\d/.test(this.src[this.pos] ?? '')) this.pos++;
+    if (this.pos > genStart) {
+      const gen = parseInt(this.src.slice(genStart, this.pos), 10);
+      this.skipWhitespace();
+      if (this.src[this.pos] === 'R' && !isRegular(this.src[this.pos + 1])) {
+        this.pos++;
+        return new PdfRef(num, gen);
+      }
+    }
+    this.pos = saved;
+    return num;
+  }
+
+  private parseDict(): PdfValue {
+    this.pos += 2;
+    const entries = new Map<string, PdfValue>();
+    for (;;) {
+      this.skipWhitespace();
+      if (this.pos >= this.src.length) {
+        throw new PdfFormatError('Unterminated dictionary');
+      }
+      if (this.src.startsWith('>>', this.pos)) {
+        this.pos += 2;
+        return new PdfDict(entries);
+      }
+      const key = this.parseValue();
+      if (!(key instanceof PdfName)) {
+        throw new PdfFormatError('Dictionary key is not a name');
+      }
+      entries.set(key.name, this.parseObject());
+    }
+  }
+
+  private parseArray(): PdfValue[] {
+    this.pos++;
+    const items: PdfValue[] = [];
+    for (;;) {
+      this.skipWhitespace();
+      if (this.pos >= this.src.length) {
+        throw new PdfFormatError('Unterminated array');
+      }
+      if (this.src[this.pos] === ']') {
+        this.pos++;
+        return items;
+      }
+      const value = this.parseValue();
+      if (!(value instanceof PdfOperator)) {
+        items.push(value);
+      }
+    }
+  }
+
+  private parseName(): PdfName {
+    this.pos++;
+    const raw = this.readName();
+    return new PdfName(raw.replace(/#([0-9A-Fa-f]{2})/g, (_, hex: string) => String.fromCharCode(parseInt(hex, 16))));
+  }
+
+  private readName(): string {
+    const start = this.pos;
+    while (isRegular(this.src[this.pos])) {
+      this.pos++;
+    }
+    return this.src.slice(start, this.pos);
+  }
+
+  private parseHexString(): Buffer {
+    const end = this.src.indexOf('>', this.pos);
+    if (end === -1) {
+      throw new PdfFormatError('Unterminated hex string');
+    }
+    let hex = this.src.slice(this.pos + 1, end).replace(/[^0-9A-Fa-f]/g, '');
+    if (hex.length % 2 === 1) hex += '0';
+    this.pos = end + 1;
+    return Buffer.from(hex, 'hex');
+  }
+
+  private parseLiteralString(): Buffer {
+    this.pos++;
+    const bytes: number[] = [];
+    let depth = 1;
+
+    while (this.pos < this.src.length) {
+      const char = this.src[this.pos++]!;
+      if (char === '\\') {
+        const next = this.src[this.pos++];
+        const escaped = next === undefined ? undefined : STRING_ESCAPES[next];
+        if (escaped !== undefined) {
+          bytes.push(escaped);
+        } else if (next === '\r') {
+          // Line continuation
+          if (this.src[this.pos] === '\n') this.pos++;
+        } else if (next !== undefined && /[0-7]/.test(next)) {
+          let octal = next;
+          while (octal.length < 3 && /[0-7]/.test(this.src[this.pos] ?? '')) {
+            octal += this.src[this.pos++];
+          }
+          bytes.push(parseInt(octal, 8) & 0xff);
+        } else if (next !== undefined && next !== '\n') {
+          bytes.push(next.charCodeAt(0));
+        }
+      } else if (char === '(') {
+        depth++;
+        bytes.push(0x28);
+      } else if (char === ')') {
+        depth--;
+        if (depth === 0) {
+          return Buffer.from(bytes);
+        }
+        bytes.push(0x29);
+      } else {
+        bytes.push(char.charCodeAt(0));
+      }
+    }
+
+    throw new PdfFormatError('Unterminated string');
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Document
+// ---------------------------------------------------------------------------
+
+function nameOf(value: PdfValue | undefined): string | null {
+  return value instanceof PdfName ? value.name : null;
+}
+
+function decodeAsciiHex(data: Buffer): Buffer {
+  let hex = data.toString('latin1').replace(/>.*$/s, '').replace(/[^0-9A-Fa-f]/g, '');
+  if (hex.length % 2 === 1) hex += '0';
+  return Buffer.from(hex, 'hex');
+}
+
+/**
+ * The indirect objects of a PDF file.
+ */
+class PdfDocument {
+  private readonly objects = new Map<number, PdfValue>();
+
+  constructor(private readonly buffer: Buffer) {
+    const src = buffer.toString('latin1');
+    if (!/%PDF-\d\.\d/.test(src.slice(0, 1024))) {
+      throw new PdfFormatError('Not a PDF file');
+    }
+    if (/\/Encrypt\s*(?:\d+\s+\d+\s+R|<<)/.test(src)) {
+      throw new PdfFormatError('Encrypted PDFs are not supported');
+    }
+
+    this.readObjects(src);
+    this.readObjectStreams();
+  }
+
+  /**
+   * Scans the file for "n g obj" definitions. Scanning rather than reading
+   * the xref table copes with damaged offsets; later definitions win, as in
+   * incremental updates.
+   */
+  private readObjects(src: string): void {
+    const header = /(\d+)\s+(\d+)\s+obj\b/g;
+    let match: RegExpExecArray | null;
+
+    while ((match = header.exec(src)) !== null) {
+      const parser = new PdfParser(src, header.lastIndex);
+      let value: PdfValue;
+      try {
+        value = parser.parseObject();
+      } catch {
+        continue;
+      }
+
+      parser.skipWhitespace();
+      if (value instanceof PdfDict && src.startsWith('stream', parser.pos)) {
+        let start = parser.pos + 'stream'.length;
+        if (src[start] === '\r') start++;
+        if (src[start] === '\n') start++;
+
+        const length = value.get('Length');
+        let end = typeof length === 'number' ? start + length : -1;
+        if (end < 0 || !/^\s*endstream/.test(src.slice(end, end + 20))) {
+          end = src.indexOf('endstream', start);
+          if (end === -1) continue;
+          // Drop the end-of-line before "endstream"
+          if (src[end - 1] === '\n') end--;
+          if (src[end - 1] === '\r') end--;
+        }
+
+        value = new PdfStream(value, this.buffer.subarray(start, end));
+        header.lastIndex = end;
+      } else {
+        header.lastIndex = parser.pos;
+      }
+
+      this.objects.set(parseInt(match[1]!, 10), value);
+    }
+  }
+
+  /**
+   * Adds the objects packed into compressed object streams (PDF 1.5+).
+   */
+  private readObjectStreams(): void {
+    for (const value of [...this.objects.values()]) {
+      if (!(value instanceof PdfStream) || nameOf(value.dict.get('Type')) !== 'ObjStm') {
+        continue;
+      }
+
+      const data = this.decodeStream(value);
+      const count = this.resolve(value.dict.get('N'));
+      const first = this.resolve(value.dict.get('First'));
+      if (!data || typeof count !== 'number' || typeof first !== 'number') {
+        continue;
+      }
+
+      const src = data.toString('latin1');
+      const offsets = src.slice(0, first).trim().split(/\s+/).map(Number);
+      for (let i = 0; i < count; i++) {
+        const num = offsets[i * 2];
+        const offset = offsets[i * 2 + 1];
+        if (num === undefined || offset === undefined || this.objects.has(num)) {
+          continue;
+        }
+        try {
+          this.objects.set(num, new PdfParser(src, first + offset).parseObject());
+        } catch {
+          // Skip unreadable entries
+        }
+      }
+    }
+  }
+
+  resolve(value: PdfValue | undefined, depth = 0): PdfValue | undefined {
+    if (value instanceof PdfRef) {
+      if (depth >= MAX_DEPTH) return undefined;
+      return this.resolve(this.objects.get(value.num), depth + 1);
+    }
+    return value;
+  }
+
+  dict(value: PdfValue | undefined): PdfDict | null {
+    const resolved = this.resolve(value);
+    if (resolved instanceof PdfDict) return resolved;
+    if (resolved instanceof PdfStream) return resolved.dict;
+    return null;
+  }
+
+  /**
+   * Removes a stream's filters. Returns null for unsupported filters.
+   */
+  decodeStream(stream: PdfStream): Buffer | null {
+    const filter = this.resolve(stream.dict.get('Filter'));
+    const filters = Array.isArray(filter) ? filter.map((f) => this.resolve(f)) : filter ? [filter] : [];
+
+    let data = stream.raw;
+    for (const entry of filters) {
+      switch (nameOf(entry)) {
+        case 'FlateDecode':
+        case 'Fl':
+          try {
+            // Tolerate truncated streams, which some generators write
+            data = inflateSync(data, { finishFlush: zlibConstants.Z_SYNC_FLUSH });
+          } catch {
+            return null;
+          }
+          break;
+        case 'ASCIIHexDecode':
+        case 'AHx':
+          data = decodeAsciiHex(data);
+          break;
+        default:
+          return null;
+      }
+    }
+    return data;
+  }
+
+  /**
+   * Lists the pages in order, each with its inherited resources.
+   * Falls back to every Page object in file order if the page tree is broken.
+   */
+  pages(): Array<{ page: PdfDict; resources: PdfDict | null }> {
+    const pages: Array<{ page: PdfDict; resources: PdfDict | null }> = [];
+    const visited = new Set<PdfDict>();
+
+    const walk = (node: PdfDict | null, resources: PdfDict | null, depth: number) => {
+      if (!node || visited.has(node) || depth > MAX_DEPTH * 4) return;
+      visited.add(node);
+
+      const own = this.dict(node.get('Resources')) ?? resources;
+      if (nameOf(node.get('Type')) === 'Page' || node.get('Contents') !== undefined) {
+        pages.push({ page: node, resources: own });
+        return;
+      }
+
+      const kids = this.resolve(node.get('Kids'));
+      if (Array.isArray(kids)) {
+        for (const kid of kids) walk(this.dict(kid), own, depth + 1);
+      }
+    };
+
+    for (const value of this.objects.values()) {
+      if (value instanceof PdfDict && nameOf(value.get('Type')) === 'Catalog') {
+        walk(this.dict(value.get('Pages')), null, 0);
+        break;
+      }
+    }
+
+    if (pages.length === 0) {
+      for (const value of this.objects.values()) {
+        if (value instanceof PdfDict && nameOf(value.get('Type')) === 'Page') {
+          pages.push({ page: value, resources: this.dict(value.get('Resources')) });
+        }
+      }
+    }
+
+    return pages;
+  }
+
+  /**
+   * Concatenates a page's content streams.
+   */
+  contents(page: PdfDict): Buffer {
+    const contents = this.resolve(page.get('Contents'));
+    const streams = Array.isArray(contents) ? contents.map((c) => this.resolve(c)) : [contents];
+    const parts: Buffer[] = [];
+    for (const stream of streams) {
+      if (stream instanceof PdfStream) {
+        const data = this.decodeStream(stream);
+        if (data) parts.push(data, Buffer.from('\n'));
+      }
+    }
+    return Buffer.concat(parts);
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Fonts
+// ---------------------------------------------------------------------------
+
+/** Windows-1252 characters for bytes 0x80-0x9f */
+export const WIN_ANSI_HIGH =
+  '€\u0081‚ƒ„…†‡ˆ‰Š‹Œ\u008dŽ\u008f\u0090‘’“”•–—˜™š›œ\u009džŸ';
+
+/** Glyph names that aren't a single character or uniXXXX */
+const GLYPH_NAMES: Record<string, string> = {
+  space: ' ', exclam: '!', quotedbl: '"', numbersign: '#', dollar: '$', percent: '%',
+  ampersand: '&', quotesingle: "'", parenleft: '(', parenright: ')', asterisk: '*',
+  plus: '+', comma: ',', hyphen: '-', period: '.', slash: '/', colon: ':', semicolon: ';',
+  less: '<', equal: '=', greater: '>', question: '?', at: '@', bracketleft: '[',
+  backslash: '\\', bracketright: ']', underscore: '_', quoteleft: '‘', quoteright: '’',
+  quotedblleft: '“', quotedblright: '”', endash: '–', emdash: '—', bullet: '•',
+  sterling: '£', Euro: '€', euro: '€', degree: '°', germandbls: 'ß', ordmasculine: 'º',
+  zero: '0', one: '1', two: '2', three: '3', four: '4', five: '5', six: '6', seven: '7',
+  eight: '8', nine: '9', nbspace: ' ', ellipsis: '…', numero: '№', oe: 'œ', OE: 'Œ',
+  ae: 'æ', AE: 'Æ', oslash: 'ø', Oslash: 'Ø', aring: 'å', Aring: 'Å',
+};
+
+const ACCENTS: Record<string, string> = {
+  acute: '́',
+  grave: '̀',
+  circumflex: '̂',
+  dieresis: '̈',
+  cedilla: '̧',
+  tilde: '̃',
+};
+
+function glyphToUnicode(name: string): string {
+  if (name.length === 1) return name;
+  const known = GLYPH_NAMES[name];
+  if (known) return known;
+
+  const uni = name.match(/^uni([0-9A-Fa-f]{4})/) ?? name.match(/^u([0-9A-Fa-f]{4,6})$/);
+  if (uni) return String.fromCodePoint(parseInt(uni[1]!, 16));
+
+  // eacute, Udieresis, ccedilla...
+  const accented = name.match(/^([A-Za-z])(acute|grave|circumflex|dieresis|cedilla|tilde)$/);
+  if (accented) return (accented[1]! + ACCENTS[accented[2]!]!).normalize('NFC');
+
+  return '';
+}
+
+interface CodespaceRange {
+  length: number;
+  low: number;
+  high: number;
+}
+
+/**
+ * Maps the character codes of a font to text.
+ */
+interface FontDecoder {
+  decode(bytes: Buffer): string;
+  /** Bytes per code for width estimates (1 for simple fonts) */
+  codeLength: number;
+}
+
+function readCode(bytes: Buffer, offset: number, length: number): number {
+  let code = 0;
+  for (let i = 0; i < length; i++) code = code * 256 + (bytes[offset + i] ?? 0);
+  return code;
+}
+
+function utf16(hex: string): string {
+  return new TextDecoder('utf-16be').decode(Buffer.from(hex, 'hex'));
+}
+
+/**
+ * Parses a ToUnicode CMap into a code-to-text table.
+ */
+function parseToUnicode(cmap: string): { ranges: CodespaceRange[]; map: Map<number, string> } {
+  const ranges: CodespaceRange[] = [];
+  const map = new Map<number, string>();
+
+  for (const block of cmap.matchAll(/begincodespacerange([\s\S]*?)endcodespacerange/g)) {
+    for (const [, low, high] of block[1]!.matchAll(/<([0-9A-Fa-f]+)>\s*<([0-9A-Fa-f]+)>/g)) {
+      ranges.push({ length: low!.length / 2, low: parseInt(low!, 16), high: parseInt(high!, 16) });
+    }
+  }
+
+  for (const block of cmap.matchAll(/beginbfchar([\s\S]*?)endbfchar/g)) {
+    for (const [, src, dst] of block[1]!.matchAll(/<([0-9A-Fa-f]+)>\s*<([0-9A-Fa-f]*)>/g)) {
+      map.set(parseInt(src!, 16), utf16(dst!));
+    }
+  }
+
+  for (const block of cmap.matchAll(/beginbfrange([\s\S]*?)endbfrange/g)) {
+    const entries = /<([0-9A-Fa-f]+)>\s*<([0-9A-Fa-f]+)>\s*(?:<([0-9A-Fa-f]*)>|\[([^\]]*)\])/g;
+    for (const [, lowHex, highHex, dst, list] of block[1]!.matchAll(entries)) {
+      const low = parseInt(lowHex!, 16);
+      const high = Math.min(parseInt(highHex!, 16), low + MAX_CMAP_RANGE);
+      if (list !== undefined) {
+        const targets = [...list.matchAll(/<([0-9A-Fa-f]*)>/g)];
+        for (let code = low; code <= high; code++) {
+          const target = targets[code - low];
+          if (target) map.set(code, utf16(target[1]!));
+        }
+      } else if (dst) {
+        // Increment the last UTF-16 unit across the range
+        const prefix = dst.slice(0, -4);
+        const last = parseInt(dst.slice(-4), 16);
+        for (let code = low; code <= high; code++) {
+          map.set(code, utf16(prefix + (last + code - low).toString(16).padStart(4, '0')));
+        }
+      }
+    }
+  }
+
+  return { ranges, map };
+}
+
+function createFontDecoder(doc: PdfDocument, font: PdfDict): FontDecoder {
+  const toUnicode = doc.resolve(font.get('ToUnicode'));
+  const composite = nameOf(font.get('Subtype')) === 'Type0';
+
+  if (toUnicode instanceof PdfStream) {
+    const data = doc.decodeStream(toUnicode);
+    if (data) {
+      const { ranges, map } = parseToUnicode(data.toString('latin1'));
+      const fallbackLength = ranges[0]?.length ?? (composite ? 2 : 1);
+      return {
+        codeLength: fallbackLength,
+        decode(bytes) {
+          let text = '';
+          let offset = 0;
+          while (offset < bytes.length) {
+            let length = fallbackLength;
+            for (const range of ranges) {
+              const code = readCode(bytes, offset, range.length);
+              if (offset + range.length <= bytes.length && code >= range.low && code <= range.high) {
+                length = range.length;
+                break;
+              }
+            }
+            const code = readCode(bytes, offset, length);
+            text += map.get(code) ?? (length === 1 ? String.fromCharCode(code) : '');
+            offset += length;
+          }
+          return text;
+        },
+      };
+    }
+  }
+
+  if (composite) {
+    // Identity-encoded CIDs without a ToUnicode map can't be read
+    return { codeLength: 2, decode: () => '' };
+  }
+
+  // Simple font: WinAnsi-style bytes, with any /Differences applied
+  const differences = new Map<number, string>();
+  const encoding = doc.dict(font.get('Encoding'));
+  const diffs = encoding ? doc.resolve(encoding.get('Differences')) : undefined;
+  if (Array.isArray(diffs)) {
+    let code = 0;
+    for (const entry of diffs) {
+      if (typeof entry === 'number') {
+        code = entry;
+      } else if (entry instanceof PdfName) {
+        differences.set(code++, glyphToUnicode(entry.name));
+      }
+    }
+  }
+
+  return {
+    codeLength: 1,
+    decode(bytes) {
+      let text = '';
+      for (const byte of bytes) {
+        const diff = differences.get(byte);
+        if (diff !== undefined) {
+          text += diff;
+        } else if (byte >= 0x80 && byte <= 0x9f) {
+          text += WIN_ANSI_HIGH[byte - 0x80];
+        } else {
+          text += String.fromCharCode(byte);
+        }
+      }
+      return text;
+    },
+  };
+}
+
+const LATIN1_DECODER: FontDecoder = {
+  codeLength: 1,
+  decode: (bytes) => bytes.toString('latin1'),
+};
+
+// ---------------------------------------------------------------------------
+// Content streams
+// ---------------------------------------------------------------------------
+
+/**
+ * A piece of text drawn at one position.
+ */
+interface TextRun {
+  text: string;
+  x: number;
+  y: number;
+  /** Rendered font size */
+  size: number;
+  /** Estimated rendered width */
+  width: number;
+}
+
+interface GraphicsState {
+  ctm: Matrix;
+}
+
+/**
+ * Runs a content stream and collects the text it draws.
+ */
+class TextCollector {
+  readonly runs: TextRun[] = [];
+  private readonly fontCache = new Map<PdfDict, FontDecoder>();
+
+  constructor(private readonly doc: PdfDocument) {}
+
+  run(content: Buffer, resources: PdfDict | null, ctm: Matrix, depth: number): void {
+    const src = content.toString('latin1');
+    const parser = new PdfParser(src);
+    const stack: GraphicsState[] = [];
+    const operands: PdfValue[] = [];
+
+    let state: GraphicsState = { ctm };
+    let tm: Matrix = IDENTITY;
+    let tlm: Matrix = IDENTITY;
+    let font: FontDecoder = LATIN1_DECODER;
+    let fontSize = 12;
+    let leading = 0;
+
+    const num = (i: number) => {
+      const value = operands[operands.length - i];
+      return typeof value === 'number' ? value : 0;
+    };
+
+    const nextLine = (tx: number, ty: number) => {
+      tlm = translate(tx, ty, tlm);
+      tm = tlm;
+    };
+
+    const show = (items: PdfValue[]) => {
+      const start = multiply(tm, state.ctm);
+      let text = '';
+      let advance = 0;
+
+      for (const item of items) {
+        if (Buffer.isBuffer(item)) {
+          const decoded = font.decode(item);
+          text += decoded;
+          advance += (item.length / font.codeLength) * AVERAGE_GLYPH_WIDTH * fontSize;
+        } else if (typeof item === 'number') {
+          if (item < TJ_SPACE_THRESHOLD && text && !text.endsWith(' ')) {
+            text += ' ';
+          }
+          advance -= (item / 1000) * fontSize;
+        }
+      }
+
+      tm = translate(advance, 0, tm);
+      if (!text.trim()) return;
+
+      this.runs.push({
+        text,
+        x: start[4],
+        y: start[5],
+        size: fontSize * Math.hypot(start[2], start[3]),
+        width: advance * Math.hypot(start[0], start[1]),
+      });
+    };
+
+    while (!parser.atEnd()) {
+      let token: PdfValue | PdfOperator;
+      try {
+        token = parser.parseValue();
+      } catch {
+        break;
+      }
+
+      if (!(token instanceof PdfOperator)) {
+        operands.push(token);
+        continue;
+      }
+
+      switch (token.op) {
+        case 'q':
+          stack.push(state);
+          state = { ...state };
+          break;
+        case 'Q':
+          state = stack.pop() ?? state;
+          break;
+        case 'cm':
+          state.ctm = multiply([num(6), num(5), num(4), num(3), num(2), num(1)], state.ctm);
+          break;
+        case 'BT':
+          tm = IDENTITY;
+          tlm = IDENTITY;
+          break;
+        case 'Tf': {
+          const fontDict = this.fontFor(resources, nameOf(operands[operands.length - 2]));
+          font = fontDict ? this.decoderFor(fontDict) : LATIN1_DECODER;
+          fontSize = num(1);
+          break;
+        }
+        case 'TL':
+          leading = num(1);
+          break;
+        case 'Td':
+          nextLine(num(2), num(1));
+          break;
+        case 'TD':
+          leading = -num(1);
+          nextLine(num(2), num(1));
+          break;
+        case 'Tm':
+          tlm = [num(6), num(5), num(4), num(3), num(2), num(1)];
+          tm = tlm;
+          break;
+        case 'T*':
+          nextLine(0, -leading);
+          break;
+        case 'Tj': {
+          const value = operands[operands.length - 1];
+          if (Buffer.isBuffer(value)) show([value]);
+          break;
+        }
+        case "'":
+        case '"': {
+          nextLine(0, -leading);
+          const value = operands[operands.length - 1];
+          if (Buffer.isBuffer(value)) show([value]);
+          break;
+        }
+        case 'TJ': {
+          const value = operands[operands.length - 1];
+          if (Array.isArray(value)) show(value);
+          break;
+        }
+        case 'Do':
+          if (depth < MAX_DEPTH) {
+            this.runForm(resources, nameOf(operands[operands.length - 1]), state.ctm, depth);
+          }
+          break;
+        case 'ID': {
+          // Skip inline image data up to "EI"
+          const end = src.slice(parser.pos).search(/\sEI(?![^\s])/);
+          parser.pos = end === -1 ? src.length : parser.pos + end + 3;
+          break;
+        }
+      }
+
+      operands.length = 0;
+    }
+  }
+
+  private fontFor(resources: PdfDict | null, name: string | null): PdfDict | null {
+    if (!resources || !name) return null;
+    const fonts = this.doc.dict(resources.get('Font'));
+    return fonts ? this.doc.dict(fonts.get(name)) : null;
+  }
+
+  private decoderFor(font: PdfDict): FontDecoder {
+    let decoder = this.fontCache.get(font);
+    if (!decoder) {
+      decoder = createFontDecoder(this.doc, font);
+      this.fontCache.set(font, decoder);
+    }
+    return decoder;
+  }
+
+  private runForm(resources: PdfDict | null, name: string | null, ctm: Matrix, depth: number): void {
+    if (!resources || !name) return;
+    const xobjects = this.doc.dict(resources.get('XObject'));
+    const form = xobjects ? this.doc.resolve(xobjects.get(name)) : undefined;
+    if (!(form instanceof PdfStream) || nameOf(form.dict.get('Subtype')) !== 'Form') return;
+
+    const content = this.doc.decodeStream(form);
+    if (!content) return;
+
+    const matrix = this.doc.resolve(form.dict.get('Matrix'));
+    const formMatrix =
+      Array.isArray(matrix) && matrix.length === 6 && matrix.every((v) => typeof v === 'number')
+        ? (matrix as Matrix)
+        : IDENTITY;
+
+    this.run(
+      content,
+      this.doc.dict(form.dict.get('Resources')) ?? resources,
+      multiply(formMatrix, ctm),
+      depth + 1
+    );
+  }
+}
+
+/**
+ * Orders runs into lines, top to bottom and left to right.
+ */
+function layoutRuns(runs: TextRun[]): string {
+  const sorted = [...runs].sort((a, b) => b.y - a.y || a.x - b.x);
+  const lines: TextRun[][] = [];
+
+  for (const run of sorted) {
+    const line = lines[lines.length - 1];
+    const first = line?.[0];
+    if (line && first && Math.abs(first.y - run.y) <= Math.max(first.size, run.size) * 0.5) {
+      line.push(run);
+    } else {
+      lines.push([run]);
+    }
+  }
+
+  return lines
+    .map((line) => {
+      line.sort((a, b) => a.x - b.x);
+      let text = '';
+      let end = -Infinity;
+      for (const run of line) {
+        const gap = run.x - end;
+        if (text && gap > run.size * 0.15 && !text.endsWith(' ') && !run.text.startsWith(' ')) {
+          text += ' ';
+        }
+        text += run.text;
+        end = Math.max(end, run.x + run.width);
+      }
+      return text.replace(/\s+/g, ' ').trim();
+    })
+    .filter((line) => line.length > 0)
+    .join('\n');
+}
+
+/**
+ * Extracts the text of every page of a PDF.
+ *
+ * @param data - The raw file bytes
+ * @returns The text per page, in reading order
+ * @throws PdfFormatError if the data is not a readable PDF
+ */
+export function extractPdfText(data: Buffer): PdfText {
+  const doc = new PdfDocument(data);
+  const pages = doc.pages().map(({ page, resources }) => {
+    const collector = new TextCollector(doc);
+    collector.run(doc.contents(page), resources, IDENTITY, 0);
+    return layoutRuns(collector.runs);
+  });
+
+  if (pages.length === 0) {
+    throw new PdfFormatError('PDF has no pages');
+  }
+
+  return { pages, text: pages.join('\n\n') };
+}
@@ -0,0 +1,138 @@
+/**
+ * Minimal ZIP archive reader built on node:zlib.
+ *
+ * Supports stored (0) and deflated (8) entries, which covers GTFS feeds
+ * and Wallet passes. ZIP64 and encrypted archives are not supported.
+ */
+
+import { inflateRawSync } from 'zlib';
+
+const END_OF_CENTRAL_DIRECTORY_SIGNATURE = 0x06054b50;
+const CENTRAL_DIRECTORY_SIGNATURE = 0x02014b50;
+const LOCAL_FILE_HEADER_SIGNATURE = 0x04034b50;
+
+/** Fixed part of the end-of-central-directory record (without comment) */
+const EOCD_MIN_SIZE = 22;
+/** Maximum archive comment length allowed by the format */
+const MAX_COMMENT_SIZE = 0xffff;
+
+const COMPRESSION_STORED = 0;
+const COMPRESSION_DEFLATE = 8;
+
+/**
+ * Error thrown when an archive cannot be read.
+ */
+export class ZipFormatError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ZipFormatError';
+  }
+}
+
+/**
+ * A file extracted from a ZIP archive.
+ */
+export interface ZipEntry {
+  /** Path inside the archive, e.g. "gtfs/stops.txt" */
+  name: string;
+  /** Uncompressed file contents */
+  data: Buffer;
+}
+
+function findEndOfCentralDirectory(buffer: Buffer): number {
+  const lowerBound = Math.max(0, buffer.length - EOCD_MIN_SIZE - MAX_COMMENT_SIZE);
+  for (let offset = buffer.length - EOCD_MIN_SIZE; offset >= lowerBound; offset--) {
+    if (buffer.readUInt32LE(offset) === END_OF_CENTRAL_DIRECTORY_SIGNATURE) {
+      return offset;
+    }
+  }
+  throw new ZipFormatError('Not a ZIP archive: end of central directory not found');
+}
+
+/**
+ * Reads all file entries from a ZIP archive held in memory.
+ * Directory entries are skipped.
+ *
+ * @throws ZipFormatError if the archive is malformed or uses unsupported features
+ */
+export function readZipEntries(buffer: Buffer): ZipEntry[] {
+  if (buffer.length < EOCD_MIN_SIZE) {
+    throw new ZipFormatError('Not a ZIP archive: file too small');
+  }
+
+  const eocd = findEndOfCentralDirectory(buffer);
+  const entryCount = buffer.readUInt16LE(eocd + 10);
+  let offset = buffer.readUInt32LE(eocd + 16);
+
+  const entries: ZipEntry[] = [];
+
+  for (let i = 0; i < entryCount; i++) {
+    if (buffer.readUInt32LE(offset) !== CENTRAL_DIRECTORY_SIGNATURE) {
+      throw new ZipFormatError('Corrupt central directory');
+    }
+
+    const flags = buffer.readUInt16LE(offset + 8);
+    const method = buffer.readUInt16LE(offset + 10);
+    const compressedSize = buffer.readUInt32LE(offset + 20);
+    const uncompressedSize = buffer.readUInt32LE(offset + 24);
+    const nameLength = buffer.readUInt16LE(offset + 28);
+    const extraLength = buffer.readUInt16LE(offset + 30);
+    const commentLength = buffer.readUInt16LE(offset + 32);
+    const localHeaderOffset = buffer.readUInt32LE(offset + 42);
+    const name = buffer
+      .subarray(offset + 46, offset + 46 + nameLength)
+      .toString('utf8');
+
+    offset += 46 + nameLength + extraLength + commentLength;
+
+    if (name.endsWith('/')) {
+      continue;
+    }
+
+    if (flags & 0x1) {
+      throw new ZipFormatError(`Encrypted entry not supported: ${name}`);
+    }
+    if (compressedSize === 0xffffffff || localHeaderOffset === 0xffffffff) {
+      throw new ZipFormatError(`ZIP64 entry not supported: ${name}`);
+    }
+
+    if (buffer.readUInt32LE(localHeaderOffset) !== LOCAL_FILE_HEADER_SIGNATURE) {
+      throw new ZipFormatError(`Corrupt local header for ${name}`);
+    }
+
+    const localNameLength = buffer.readUInt16LE(localHeaderOffset + 26);
+    const localExtraLength = buffer.readUInt16LE(localHeaderOffset + 28);
+    const dataStart = localHeaderOffset + 30 + localNameLength + localExtraLength;
+    const raw = buffer.subarray(dataStart, dataStart + compressedSize);
+
+    let data: Buffer;
+    if (method === COMPRESSION_STORED) {
+      data = Buffer.from(raw);
+    } else if (method === COMPRESSION_DEFLATE) {
+      data = inflateRawSync(raw);
+    } else {
+      throw new ZipFormatError(`Unsupported compression method ${method} for ${name}`);
+    }
+
+    if (data.length !== uncompressedSize) {
+      throw new ZipFormatError(`Size mismatch for ${name}`);
+    }
+
+    entries.push({ name, data });
+  }
+
+  return entries;
+}
+
+/**
+ * Reads a ZIP archive into a map keyed by file name without directories
+ * (e.g. "gtfs/stops.txt" → "stops.txt"). Later duplicates win.
+ */
+export function readZipFiles(buffer: Buffer): Map<string, Buffer> {
+  const files = new Map<string, Buffer>();
+  for (const entry of readZipEntries(buffer)) {
+    const baseName = entry.name.split('/').pop() ?? entry.name;
+    files.set(baseName, entry.data);
+  }
+  return files;
+}
@@ -0,0 +1,72 @@
+import { describe, it, expect } from 'vitest';
+import { isAlertActive, isAlertActiveBetween, pickTranslation } from '../alerts.js';
+
+describe('isAlertActive', () => {
+  const alert = {
+    activePeriods: [{ start: '2026-01-05T08:00:00.000Z', end: '2026-01-05T12:00:00.000Z' }],
+  };
+
+  it('is active inside a period', () => {
+    expect(isAlertActive(alert, new Date('2026-01-05T10:00:00Z'))).toBe(true);
+  });
+
+  it('is inactive outside all periods', () => {
+    expect(isAlertActive(alert, new Date('2026-01-05T13:00:00Z'))).toBe(false);
+  });
+
+  it('treats open-ended periods as unbounded', () => {
+    const openEnded = { activePeriods: [{ start: '2026-01-05T08:00:00.000Z', end: null }] };
+    expect(isAlertActive(openEnded, new Date('2026-02-01T00:00:00Z'))).toBe(true);
+  });
+
+  it('is always active without periods', () => {
+    expect(isAlertActive({ activePeriods: [] })).toBe(true);
+  });
+});
+
+describe('isAlertActiveBetween', () => {
+  const alert = {
+    activePeriods: [{ start: '2026-01-05T08:00:00.000Z', end: '2026-01-05T12:00:00.000Z' }],
+  };
+
+  it('detects overlapping windows', () => {
+    expect(
+      isAlertActiveBetween(alert, new Date('2026-01-05T00:00:00Z'), new Date('2026-01-06T00:00:00Z'))
+    ).toBe(true);
+  });
+
+  it('rejects windows that do not overlap', () => {
+    expect(
+      isAlertActiveBetween(alert, new Date('2026-01-06T00:00:00Z'), new Date('2026-01-07T00:00:00Z'))
+    ).toBe(false);
+  });
+});
+
+describe('pickTranslation', () => {
+  const texts = [
+    { text: 'Signalling fault', language: 'en' },
+    { text: 'Panne de signalisation', language: 'fr' },
+    { text: 'Seinstoring', language: 'nl-NL' },
+  ];
+
+  it('picks the requested language', () => {
+    expect(pickTranslation(texts, 'fr')).toBe('Panne de signalisation');
+  });
+
+  it('matches regional language tags', () => {
+    expect(pickTranslation(texts, 'nl')).toBe('Seinstoring');
+  });
+
+  it('falls back to English', () => {
+    expect(pickTranslation(texts, 'de')).toBe('Signalling fault');
+  });
+
+  it('falls back to untagged text, then the first entry', () => {
+    expect(pickTranslation([{ text: 'Delay', language: null }], 'fr')).toBe('Delay');
+    expect(pickTranslation([{ text: 'Retard', language: 'fr' }], 'de')).toBe('Retard');
+  });
+
+  it('returns null when there is no text', () => {
+    expect(pickTranslation([])).toBeNull();
+  });
+});
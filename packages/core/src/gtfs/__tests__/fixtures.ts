@@ -163,3 +163,104 @@ export const emptyFeed: GtfsFeedMessage = {
   },
   entity: [],
 };
+
+/**
+ * Feed with a cancelled train and a train that skips its terminus.
+ */
+export const cancelledFeed: GtfsFeedMessage = {
+  header: {
+    gtfsRealtimeVersion: '2.0',
+    timestamp: 1704441600,
+  },
+  entity: [
+    {
+      id: '9031-0105',
+      tripUpdate: {
+        trip: {
+          tripId: '9031-0105',
+          startDate: '20260105',
+          scheduleRelationship: 3, // CANCELED
+        },
+        stopTimeUpdate: [],
+      },
+    },
+    {
+      id: '9116-0105',
+      tripUpdate: {
+        trip: {
+          tripId: '9116-0105',
+          startDate: '20260105',
+        },
+        stopTimeUpdate: [
+          {
+            stopSequence: 1,
+            stopId: 'GBSPX',
+            departure: { delay: 1200 },
+          },
+          {
+            stopSequence: 2,
+            stopId: 'FRLIL',
+            arrival: { delay: 2700 },
+            departure: { delay: 2700 },
+          },
+          {
+            stopSequence: 3,
+            stopId: 'BEBMI',
+            scheduleRelationship: 1, // SKIPPED
+          },
+        ],
+      },
+    },
+  ],
+};
+
+/**
+ * Feed with a trip update and a translated service alert.
+ * The alert is in raw protobuf form (Long timestamps, snake_case).
+ */
+export const alertFeed: GtfsFeedMessage = {
+  header: {
+    gtfsRealtimeVersion: '2.0',
+    timestamp: 1767614400,
+  },
+  entity: [
+    {
+      id: '9007-0105',
+      tripUpdate: {
+        trip: {
+          tripId: '9007-0105',
+          startDate: '20260105',
+        },
+        stopTimeUpdate: [
+          { stopSequence: 1, stopId: 'GBSPX', departure: { delay: 0 } },
+          { stopSequence: 2, stopId: 'FRPLY', arrival: { delay: 5400 } }, // 90 min
+        ],
+      },
+    },
+    {
+      id: 'alert-001',
+      alert: {
+        active_period: [{ start: { low: 1767600000, high: 0 }, end: 1767657600 }],
+        informed_entity: [{ trip: { trip_id: '9007-0105' } }, { stop_id: 'FRPLY' }],
+        cause: 3, // TECHNICAL_PROBLEM
+        effect: 3, // SIGNIFICANT_DELAYS
+        header_text: {
+          translation: [
+            { text: 'Signalling fault near Lille', language: 'en' },
+            { text: 'Panne de signalisation près de Lille', language: 'fr' },
+          ],
+        },
+        description_text: {
+          translation: [{ text: 'Trains are running up to 90 minutes late.' }],
+        },
+      },
+    } as unknown as GtfsFeedMessage['entity'][number],
+    {
+      id: 'alert-002',
+      alert: {
+        activePeriod: [],
+        informedEntity: [{ agencyId: 'ES' }],
+      },
+    },
+  ],
+};
@@ -1,12 +1,21 @@
 import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
-import { parseTripId, extractDelays, filterSignificantDelays } from '../parser.js';
+import {
+  parseTripId,
+  extractDelays,
+  extractAlerts,
+  filterSignificantDelays,
+  getFeedTimestamp,
+} from '../parser.js';
 import {
   onTimeFeed,
   delayedFeed,
   multipleFeed,
   invalidTripIdFeed,
   emptyFeed,
+  cancelledFeed,
+  alertFeed,
 } from './fixtures.js';
+import type { GtfsFeedMessage } from '../types.js';
 
 describe('parseTripId', () => {
   beforeEach(() => {
@@ -134,6 +143,54 @@ describe('extractDelays', () => {
     const delays = extractDelays(feed);
     expect(delays[0].finalDelayMinutes).toBe(1);
   });
+
+  it('defaults trips and stops to scheduled', () => {
+    const delays = extractDelays(onTimeFeed);
+
+    expect(delays[0].scheduleRelationship).toBe('scheduled');
+    expect(delays[0].stops.every((s) => s.scheduleRelationship === 'scheduled')).toBe(true);
+  });
+
+  it('marks cancelled trips', () => {
+    const delays = extractDelays(cancelledFeed);
+
+    expect(delays[0].tripId).toBe('9031-0105');
+    expect(delays[0].scheduleRelationship).toBe('canceled');
+    expect(delays[0].stops).toHaveLength(0);
+  });
+
+  it('marks skipped stops and takes the final delay from the last served stop', () => {
+    const delays = extractDelays(cancelledFeed);
+
+    expect(delays[1].stops.map((s) => s.scheduleRelationship)).toEqual([
+      'scheduled',
+      'scheduled',
+      'skipped',
+    ]);
+    expect(delays[1].finalDelayMinutes).toBe(45);
+  });
+
+  it('accepts enum names from snake_case decoders', () => {
+    const feed = {
+      header: { gtfsRealtimeVersion: '2.0', timestamp: 1 },
+      entity: [
+        {
+          id: '9001-0101',
+          tripUpdate: {
+            trip: { trip_id: '9001-0101', schedule_relationship: 'ADDED' },
+            stop_time_update: [
+              { stop_sequence: 1, stop_id: 'GBSPX', schedule_relationship: 'NO_DATA' },
+            ],
+          },
+        },
+      ],
+    } as unknown as GtfsFeedMessage;
+
+    const delays = extractDelays(feed);
+    expect(delays[0].scheduleRelationship).toBe('added');
+    expect(delays[0].stops[0].scheduleRelationship).toBe('no_data');
+    expect(delays[0].finalDelayMinutes).toBe(0);
+  });
 });
 
 describe('filterSignificantDelays', () => {
@@ -176,3 +233,76 @@ describe('filterSignificantDelays', () => {
     expect(significant).toHaveLength(0);
   });
 });
+
+describe('getFeedTimestamp', () => {
+  it('reads the header timestamp', () => {
+    expect(getFeedTimestamp(onTimeFeed)).toEqual(new Date('2024-01-05T08:00:00Z'));
+  });
+
+  it('reads a timestamp decoded as a Long', () => {
+    const feed = {
+      ...onTimeFeed,
+      header: { gtfsRealtimeVersion: '2.0', timestamp: { low: 1704441600, high: 0 } },
+    } as unknown as GtfsFeedMessage;
+
+    expect(getFeedTimestamp(feed)).toEqual(new Date('2024-01-05T08:00:00Z'));
+  });
+
+  it('returns null when the header has no timestamp', () => {
+    const feed: GtfsFeedMessage = { ...onTimeFeed, header: { gtfsRealtimeVersion: '2.0', timestamp: 0 } };
+
+    expect(getFeedTimestamp(feed)).toBeNull();
+  });
+});
+
+describe('extractAlerts', () => {
+  it('parses cause, effect and active periods', () => {
+    const [alert] = extractAlerts(alertFeed);
+
+    expect(alert.alertId).toBe('alert-001');
+    expect(alert.cause).toBe('technical_problem');
+    expect(alert.effect).toBe('significant_delays');
+    expect(alert.activePeriods).toEqual([
+      {
+        start: new Date(1767600000 * 1000),
+        end: new Date(1767657600 * 1000),
+      },
+    ]);
+  });
+
+  it('parses informed entities from snake_case fields', () => {
+    const [alert] = extractAlerts(alertFeed);
+
+    expect(alert.informedEntities).toEqual([
+      { agencyId: null, routeId: null, tripId: '9007-0105', stopId: null },
+      { agencyId: null, routeId: null, tripId: null, stopId: 'FRPLY' },
+    ]);
+  });
+
+  it('keeps all translations with their language', () => {
+    const [alert] = extractAlerts(alertFeed);
+
+    expect(alert.headerText).toEqual([
+      { text: 'Signalling fault near Lille', language: 'en' },
+      { text: 'Panne de signalisation près de Lille', language: 'fr' },
+    ]);
+    expect(alert.descriptionText).toEqual([
+      { text: 'Trains are running up to 90 minutes late.', language: null },
+    ]);
+    expect(alert.url).toBeNull();
+  });
+
+  it('defaults missing cause and effect to unknown', () => {
+    const alerts = extractAlerts(alertFeed);
+
+    expect(alerts[1].cause).toBe('unknown_cause');
+    expect(alerts[1].effect).toBe('unknown_effect');
+    expect(alerts[1].activePeriods).toEqual([]);
+    expect(alerts[1].headerText).toEqual([]);
+  });
+
+  it('ignores trip updates', () => {
+    expect(extractAlerts(multipleFeed)).toEqual([]);
+    expect(extractDelays(alertFeed)).toHaveLength(1);
+  });
+});
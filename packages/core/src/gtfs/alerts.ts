@@ -0,0 +1,157 @@
+import { inArray } from 'drizzle-orm';
+import type { Database } from '../db/index.js';
+import {
+  serviceAlerts,
+  trainAlerts,
+  trains,
+  type AlertActivePeriod,
+  type AlertText,
+  type ServiceAlert,
+} from '../db/schema.js';
+import type { ParsedAlert } from './types.js';
+
+export interface AlertSyncResult {
+  upserted: number;
+  linkedTrains: number;
+  errors: Array<{ alertId: string; error: string }>;
+}
+
+/**
+ * Syncs service alerts to the database and links them to affected trains.
+ *
+ * Alerts are keyed by their feed entity id. Each poll refreshes last_seen_at,
+ * so alerts that drop out of the feed stop being reported as current.
+ * Train links are made for informed entities that name a trip; trains that
+ * show up after the alert are linked on a later poll.
+ */
+export async function syncAlertsToDb(
+  alerts: ParsedAlert[],
+  db: Database,
+  seenAt: Date = new Date()
+): Promise<AlertSyncResult> {
+  const result: AlertSyncResult = {
+    upserted: 0,
+    linkedTrains: 0,
+    errors: [],
+  };
+
+  for (const alert of alerts) {
+    try {
+      const values = {
+        alertId: alert.alertId,
+        cause: alert.cause,
+        effect: alert.effect,
+        headerText: alert.headerText,
+        descriptionText: alert.descriptionText,
+        url: alert.url,
+        activePeriods: alert.activePeriods.map(
+          (period): AlertActivePeriod => ({
+            start: period.start?.toISOString() ?? null,
+            end: period.end?.toISOString() ?? null,
+          })
+        ),
+        informedEntities: alert.informedEntities,
+        lastSeenAt: seenAt,
+      };
+
+      const [stored] = await db
+        .insert(serviceAlerts)
+        .values(values)
+        .onConflictDoUpdate({
+          target: serviceAlerts.alertId,
+          set: values,
+        })
+        .returning({ id: serviceAlerts.id });
+
+      if (!stored) {
+        continue;
+      }
+      result.upserted++;
+
+      const tripIds = alert.informedEntities
+        .map((entity) => entity.tripId)
+        .filter((tripId): tripId is string => tripId !== null);
+
+      if (tripIds.length === 0) {
+        continue;
+      }
+
+      const affected = await db
+        .select({ id: trains.id })
+        .from(trains)
+        .where(inArray(trains.tripId, tripIds));
+
+      if (affected.length > 0) {
+        const linked = await db
+          .insert(trainAlerts)
+          .values(affected.map((train) => ({ trainId: train.id, alertId: stored.id })))
+          .onConflictDoNothing()
+          .returning({ trainId: trainAlerts.trainId });
+        result.linkedTrains += linked.length;
+      }
+    } catch (error) {
+      result.errors.push({
+        alertId: alert.alertId,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Checks whether an alert applies at a given instant.
+ * Alerts without active periods are always active.
+ */
+export function isAlertActive(
+  alert: Pick<ServiceAlert, 'activePeriods'>,
+  at: Date = new Date()
+): boolean {
+  if (alert.activePeriods.length === 0) {
+    return true;
+  }
+
+  return alert.activePeriods.some(
+    (period) =>
+      (period.start === null || new Date(period.start) <= at) &&
+      (period.end === null || new Date(period.end) >= at)
+  );
+}
+
+/**
+ * Checks whether an alert's active periods overlap a time window.
+ */
+export function isAlertActiveBetween(
+  alert: Pick<ServiceAlert, 'activePeriods'>,
+  from: Date,
+  to: Date
+): boolean {
+  if (alert.activePeriods.length === 0) {
+    return true;
+  }
+
+  return alert.activePeriods.some(
+    (period) =>
+      (period.start === null || new Date(period.start) <= to) &&
+      (period.end === null || new Date(period.end) >= from)
+  );
+}
+
+/**
+ * Picks the translation for a language, falling back to English,
+ * then untagged text, then whatever comes first.
+ *
+ * @example
+ * pickTranslation([{ text: 'Retard', language: 'fr' }, { text: 'Delay', language: 'en' }], 'fr') // 'Retard'
+ */
+export function pickTranslation(texts: AlertText[], language = 'en'): string | null {
+  const lang = language.toLowerCase();
+  const match =
+    texts.find((t) => t.language?.toLowerCase() === lang) ??
+    texts.find((t) => t.language?.toLowerCase().startsWith(`${lang}-`)) ??
+    texts.find((t) => t.language?.toLowerCase() === 'en') ??
+    texts.find((t) => t.language === null) ??
+    texts[0];
+  return match?.text ?? null;
+}
@@ -8,6 +8,13 @@ export {
   type ParsedTrainDelay,
   type ParsedStopDelay,
   type GtfsUpdateEvent,
+  type GtfsAlert,
+  type ParsedAlert,
+  type AlertTranslation,
+  AlertCause,
+  AlertEffect,
+  TripScheduleRelationship,
+  StopScheduleRelationship,
   GtfsFetchError,
   GtfsParseError,
 } from './types.js';
@@ -23,6 +30,8 @@ export {
 export {
   parseTripId,
   extractDelays,
+  extractAlerts,
+  getFeedTimestamp,
   filterSignificantDelays,
 } from './parser.js';
 
@@ -43,3 +52,30 @@ export {
   syncTrainsToDbBatch,
   type SyncResult,
 } from './sync.js';
+
+// Alerts
+export {
+  syncAlertsToDb,
+  isAlertActive,
+  isAlertActiveBetween,
+  pickTranslation,
+  type AlertSyncResult,
+} from './alerts.js';
+
+// Static timetable
+export {
+  importStaticGtfs,
+  findScheduledTrip,
+  parseStaticGtfs,
+  parseStaticGtfsFiles,
+  parseGtfsDate,
+  parseGtfsTime,
+  gtfsTimeToDate,
+  isServiceActive,
+  GtfsStaticImportError,
+  type ScheduleLookup,
+  type ScheduledTrip,
+  type ScheduledStop,
+  type StaticGtfsFeed,
+  type StaticImportResult,
+} from './static/index.js';
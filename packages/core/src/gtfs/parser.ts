@@ -1,9 +1,17 @@
-import type {
-  GtfsFeedMessage,
-  ParsedTrainDelay,
-  ParsedStopDelay,
-  RawGtfsTripUpdate,
-  RawGtfsStopTimeUpdate,
+import {
+  AlertCause,
+  AlertEffect,
+  StopScheduleRelationship,
+  TripScheduleRelationship,
+  type AlertTranslation,
+  type GtfsFeedMessage,
+  type ParsedAlert,
+  type ParsedTrainDelay,
+  type ParsedStopDelay,
+  type RawGtfsAlert,
+  type RawGtfsTranslatedString,
+  type RawGtfsTripUpdate,
+  type RawGtfsStopTimeUpdate,
 } from './types.js';
 
 /**
@@ -68,10 +76,63 @@ function getStopId(stu: RawGtfsStopTimeUpdate): string {
   );
 }
 
+/**
+ * GTFS-RT TripDescriptor.ScheduleRelationship values, indexed by protobuf
+ * number and by enum name (decoders may return either).
+ */
+const TRIP_SCHEDULE_RELATIONSHIPS: Record<string, TripScheduleRelationship> = {
+  0: TripScheduleRelationship.SCHEDULED,
+  1: TripScheduleRelationship.ADDED,
+  2: TripScheduleRelationship.SCHEDULED, // UNSCHEDULED
+  3: TripScheduleRelationship.CANCELED,
+  5: TripScheduleRelationship.SCHEDULED, // REPLACEMENT
+  6: TripScheduleRelationship.ADDED, // DUPLICATED
+  7: TripScheduleRelationship.CANCELED, // DELETED
+  SCHEDULED: TripScheduleRelationship.SCHEDULED,
+  ADDED: TripScheduleRelationship.ADDED,
+  UNSCHEDULED: TripScheduleRelationship.SCHEDULED,
+  CANCELED: TripScheduleRelationship.CANCELED,
+  REPLACEMENT: TripScheduleRelationship.SCHEDULED,
+  DUPLICATED: TripScheduleRelationship.ADDED,
+  DELETED: TripScheduleRelationship.CANCELED,
+};
+
+/**
+ * GTFS-RT StopTimeUpdate.ScheduleRelationship values, indexed by protobuf
+ * number and by enum name.
+ */
+const STOP_SCHEDULE_RELATIONSHIPS: Record<string, StopScheduleRelationship> = {
+  0: StopScheduleRelationship.SCHEDULED,
+  1: StopScheduleRelationship.SKIPPED,
+  2: StopScheduleRelationship.NO_DATA,
+  3: StopScheduleRelationship.SCHEDULED, // UNSCHEDULED
+  SCHEDULED: StopScheduleRelationship.SCHEDULED,
+  SKIPPED: StopScheduleRelationship.SKIPPED,
+  NO_DATA: StopScheduleRelationship.NO_DATA,
+  UNSCHEDULED: StopScheduleRelationship.SCHEDULED,
+};
+
+function getTripScheduleRelationship(
+  trip: RawGtfsTripUpdate['trip']
+): TripScheduleRelationship {
+  const value = trip.scheduleRelationship ?? trip.schedule_relationship ?? 0;
+  return TRIP_SCHEDULE_RELATIONSHIPS[value] ?? TripScheduleRelationship.SCHEDULED;
+}
+
+function getStopScheduleRelationship(
+  stu: RawGtfsStopTimeUpdate
+): StopScheduleRelationship {
+  const value = stu.scheduleRelationship ?? stu.schedule_relationship ?? 0;
+  return STOP_SCHEDULE_RELATIONSHIPS[value] ?? StopScheduleRelationship.SCHEDULED;
+}
+
 /**
  * Extracts train delays from a GTFS-RT feed message.
  * Converts raw GTFS data into normalized ParsedTrainDelay objects.
  * Handles both camelCase and snake_case field names from protobuf.
+ *
+ * The final delay is taken from the last stop served with real-time data,
+ * so a skipped or NO_DATA terminus doesn't mask the delay before it.
  */
 export function extractDelays(feed: GtfsFeedMessage): ParsedTrainDelay[] {
   return feed.entity
@@ -85,16 +146,21 @@ export function extractDelays(feed: GtfsFeedMessage): ParsedTrainDelay[] {
       const stopTimeUpdates = getStopTimeUpdates(tripUpdate);
       const stops: ParsedStopDelay[] = stopTimeUpdates.map((stu) => ({
         stationCode: getStopId(stu),
+        stopSequence: stu.stopSequence ?? stu.stop_sequence ?? null,
+        scheduleRelationship: getStopScheduleRelationship(stu),
         arrivalDelayMinutes: Math.round((stu.arrival?.delay ?? 0) / 60),
         departureDelayMinutes: Math.round((stu.departure?.delay ?? 0) / 60),
       }));
 
-      const lastStop = stops[stops.length - 1];
+      const lastStop = stops
+        .filter((stop) => stop.scheduleRelationship === StopScheduleRelationship.SCHEDULED)
+        .at(-1);
 
       return {
         tripId,
         trainNumber: parsed.trainNumber,
         date: parsed.date,
+        scheduleRelationship: getTripScheduleRelationship(tripUpdate.trip),
         stops,
         finalDelayMinutes: lastStop?.arrivalDelayMinutes ?? 0,
       };
@@ -102,6 +168,100 @@ export function extractDelays(feed: GtfsFeedMessage): ParsedTrainDelay[] {
     .filter((d): d is ParsedTrainDelay => d !== null);
 }
 
+/**
+ * GTFS-RT Alert.Cause enum values, indexed by protobuf number.
+ */
+const ALERT_CAUSES: Record<number, AlertCause> = {
+  1: AlertCause.UNKNOWN_CAUSE,
+  2: AlertCause.OTHER_CAUSE,
+  3: AlertCause.TECHNICAL_PROBLEM,
+  4: AlertCause.STRIKE,
+  5: AlertCause.DEMONSTRATION,
+  6: AlertCause.ACCIDENT,
+  7: AlertCause.HOLIDAY,
+  8: AlertCause.WEATHER,
+  9: AlertCause.MAINTENANCE,
+  10: AlertCause.CONSTRUCTION,
+  11: AlertCause.POLICE_ACTIVITY,
+  12: AlertCause.MEDICAL_EMERGENCY,
+};
+
+/**
+ * GTFS-RT Alert.Effect enum values, indexed by protobuf number.
+ */
+const ALERT_EFFECTS: Record<number, AlertEffect> = {
+  1: AlertEffect.NO_SERVICE,
+  2: AlertEffect.REDUCED_SERVICE,
+  3: AlertEffect.SIGNIFICANT_DELAYS,
+  4: AlertEffect.DETOUR,
+  5: AlertEffect.ADDITIONAL_SERVICE,
+  6: AlertEffect.MODIFIED_SERVICE,
+  7: AlertEffect.OTHER_EFFECT,
+  8: AlertEffect.UNKNOWN_EFFECT,
+  9: AlertEffect.STOP_MOVED,
+  10: AlertEffect.NO_EFFECT,
+  11: AlertEffect.ACCESSIBILITY_ISSUE,
+};
+
+/**
+ * Converts a protobuf uint64 (number or Long) unix timestamp to a Date.
+ * Zero or missing means "open-ended" per the GTFS-RT spec.
+ */
+function toDate(value: number | { low: number; high: number } | undefined): Date | null {
+  if (value === undefined) return null;
+  const seconds =
+    typeof value === 'number' ? value : value.high * 2 ** 32 + (value.low >>> 0);
+  return seconds > 0 ? new Date(seconds * 1000) : null;
+}
+
+function toTranslations(value: RawGtfsTranslatedString | undefined): AlertTranslation[] {
+  return (value?.translation ?? [])
+    .filter((t) => t.text)
+    .map((t) => ({ text: t.text!, language: t.language || null }));
+}
+
+/**
+ * Extracts service alerts from a GTFS-RT feed message.
+ * Handles both camelCase and snake_case field names from protobuf.
+ */
+export function extractAlerts(feed: GtfsFeedMessage): ParsedAlert[] {
+  return feed.entity
+    .filter((e) => e.alert)
+    .map((e) => {
+      const alert = e.alert as unknown as RawGtfsAlert;
+      const periods = alert.activePeriod ?? alert.active_period ?? [];
+      const entities = alert.informedEntity ?? alert.informed_entity ?? [];
+
+      return {
+        alertId: e.id,
+        cause: ALERT_CAUSES[alert.cause ?? 1] ?? AlertCause.UNKNOWN_CAUSE,
+        effect: ALERT_EFFECTS[alert.effect ?? 8] ?? AlertEffect.UNKNOWN_EFFECT,
+        activePeriods: periods.map((period) => ({
+          start: toDate(period.start),
+          end: toDate(period.end),
+        })),
+        informedEntities: entities.map((entity) => ({
+          agencyId: entity.agencyId ?? entity.agency_id ?? null,
+          routeId: entity.routeId ?? entity.route_id ?? null,
+          tripId: entity.trip?.tripId ?? entity.trip?.trip_id ?? null,
+          stopId: entity.stopId ?? entity.stop_id ?? null,
+        })),
+        headerText: toTranslations(alert.headerText ?? alert.header_text),
+        descriptionText: toTranslations(alert.descriptionText ?? alert.description_text),
+        url: toTranslations(alert.url)[0]?.text ?? null,
+      };
+    });
+}
+
+/**
+ * Gets the time the producer generated a GTFS-RT feed, from its header.
+ * Returns null if the header has no timestamp.
+ */
+export function getFeedTimestamp(feed: GtfsFeedMessage): Date | null {
+  // protobufjs may decode the uint64 as a Long despite the declared type
+  return toDate(feed.header?.timestamp as number | { low: number; high: number } | undefined);
+}
+
 /**
  * Filters delays to only include significantly delayed trains (>= threshold).
  * Default threshold is 60 minutes (Eurostar compensation threshold).
@@ -1,6 +1,6 @@
 import { EventEmitter } from 'events';
 import { fetchGtfsRealtimeWithRetry } from './client.js';
-import { extractDelays } from './parser.js';
+import { extractDelays, extractAlerts } from './parser.js';
 import { GtfsFeedMessage, GtfsUpdateEvent, ParsedTrainDelay, GtfsFetchError } from './types.js';
 
 const DEFAULT_POLL_INTERVAL_MS = 30_000;
@@ -363,11 +363,13 @@ export class GtfsPoller extends EventEmitter {
     }
 
     const delays = extractDelays(feed);
+    const alerts = extractAlerts(feed);
 
     const updateEvent: GtfsUpdateEvent = {
       timestamp: new Date(),
       entityCount: feed.entity.length,
       delays,
+      alerts,
     };
 
     this.emit('update', updateEvent);
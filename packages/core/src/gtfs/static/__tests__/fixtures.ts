@@ -0,0 +1,53 @@
+/**
+ * Static GTFS fixture feed: one London → Paris train (9007) running
+ * weekdays in January 2026, except on 2026-01-07.
+ */
+
+import { buildZip } from '../../../formats/__tests__/zip-builder.js';
+
+export const feedFiles: Record<string, string> = {
+  'agency.txt': [
+    'agency_id,agency_name,agency_url,agency_timezone,agency_lang',
+    'ES,Eurostar,https://www.eurostar.com,Europe/London,en',
+  ].join('\n'),
+  'stops.txt': [
+    'stop_id,stop_name,stop_lat,stop_lon,stop_timezone',
+    'GBSPX,London St Pancras International,51.531921,-0.126361,Europe/London',
+    'FRPNO,Paris Gare du Nord,48.880556,2.355000,Europe/Paris',
+  ].join('\n'),
+  'routes.txt': [
+    'route_id,agency_id,route_short_name,route_long_name,route_type',
+    'LON-PAR,ES,,London - Paris,2',
+  ].join('\n'),
+  'trips.txt': [
+    'route_id,service_id,trip_id,trip_short_name,trip_headsign,direction_id',
+    'LON-PAR,WEEKDAY,9007-WD,9007,Paris Gare du Nord,0',
+  ].join('\n'),
+  'stop_times.txt': [
+    'trip_id,arrival_time,departure_time,stop_id,stop_sequence',
+    '9007-WD,08:01:00,08:01:00,GBSPX,1',
+    '9007-WD,10:20:00,10:20:00,FRPNO,2',
+  ].join('\n'),
+  'calendar.txt': [
+    'service_id,monday,tuesday,wednesday,thursday,friday,saturday,sunday,start_date,end_date',
+    'WEEKDAY,1,1,1,1,1,0,0,20260101,20260131',
+  ].join('\n'),
+  'calendar_dates.txt': [
+    'service_id,date,exception_type',
+    'WEEKDAY,20260107,2',
+    'WEEKDAY,20260110,1',
+  ].join('\n'),
+  'feed_info.txt': [
+    'feed_publisher_name,feed_publisher_url,feed_lang,feed_start_date,feed_end_date,feed_version',
+    'Eurostar,https://www.eurostar.com,en,20260101,20260131,2026-01',
+  ].join('\n'),
+};
+
+export function buildFeedZip(overrides: Record<string, string | null> = {}): Buffer {
+  const files = { ...feedFiles, ...overrides };
+  return buildZip(
+    Object.entries(files)
+      .filter((entry): entry is [string, string] => entry[1] !== null)
+      .map(([name, content]) => ({ name, content }))
+  );
+}
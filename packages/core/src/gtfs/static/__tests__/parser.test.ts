@@ -0,0 +1,186 @@
+import { describe, it, expect } from 'vitest';
+import {
+  parseStaticGtfs,
+  parseGtfsDate,
+  parseGtfsTime,
+  gtfsTimeToDate,
+  isServiceActive,
+} from '../parser.js';
+import { GtfsStaticImportError } from '../types.js';
+import { buildFeedZip } from './fixtures.js';
+
+describe('parseGtfsDate', () => {
+  it('parses YYYYMMDD to UTC midnight', () => {
+    expect(parseGtfsDate('20260105')?.toISOString()).toBe('2026-01-05T00:00:00.000Z');
+  });
+
+  it('returns null for invalid dates', () => {
+    expect(parseGtfsDate('2026-01-05')).toBeNull();
+    expect(parseGtfsDate('')).toBeNull();
+  });
+});
+
+describe('parseGtfsTime', () => {
+  it('parses times to seconds', () => {
+    expect(parseGtfsTime('08:01:00')).toBe(8 * 3600 + 60);
+    expect(parseGtfsTime('7:05:30')).toBe(7 * 3600 + 5 * 60 + 30);
+  });
+
+  it('allows hours past 24 for overnight trips', () => {
+    expect(parseGtfsTime('25:10:00')).toBe(25 * 3600 + 10 * 60);
+  });
+
+  it('returns null for invalid times', () => {
+    expect(parseGtfsTime('08:61:00')).toBeNull();
+    expect(parseGtfsTime('0800')).toBeNull();
+  });
+});
+
+describe('gtfsTimeToDate', () => {
+  const serviceDate = new Date('2026-01-05T00:00:00Z');
+
+  it('converts winter London time (UTC+0)', () => {
+    expect(gtfsTimeToDate(serviceDate, '08:01:00', 'Europe/London')?.toISOString()).toBe(
+      '2026-01-05T08:01:00.000Z'
+    );
+  });
+
+  it('converts winter Paris time (UTC+1)', () => {
+    expect(gtfsTimeToDate(serviceDate, '10:20:00', 'Europe/Paris')?.toISOString()).toBe(
+      '2026-01-05T09:20:00.000Z'
+    );
+  });
+
+  it('converts summer London time (UTC+1)', () => {
+    const summer = new Date('2026-07-01T00:00:00Z');
+    expect(gtfsTimeToDate(summer, '08:01:00', 'Europe/London')?.toISOString()).toBe(
+      '2026-07-01T07:01:00.000Z'
+    );
+  });
+
+  it('rolls times past 24:00 into the next day', () => {
+    expect(gtfsTimeToDate(serviceDate, '25:10:00', 'Europe/London')?.toISOString()).toBe(
+      '2026-01-06T01:10:00.000Z'
+    );
+  });
+
+  it('measures from noon minus 12h on DST change days', () => {
+    // Clocks go forward at 01:00 UTC on 2026-03-29, so the service day
+    // starts at 23:00 UTC the evening before
+    const dstDay = new Date('2026-03-29T00:00:00Z');
+    expect(gtfsTimeToDate(dstDay, '12:00:00', 'Europe/London')?.toISOString()).toBe(
+      '2026-03-29T11:00:00.000Z'
+    );
+  });
+
+  it('returns null for invalid times', () => {
+    expect(gtfsTimeToDate(serviceDate, 'soon', 'Europe/London')).toBeNull();
+  });
+});
+
+describe('isServiceActive', () => {
+  const calendar = {
+    monday: true,
+    tuesday: true,
+    wednesday: true,
+    thursday: true,
+    friday: true,
+    saturday: false,
+    sunday: false,
+    startDate: new Date('2026-01-01T00:00:00Z'),
+    endDate: new Date('2026-01-31T00:00:00Z'),
+  };
+
+  it('follows the weekly pattern within the date range', () => {
+    expect(isServiceActive(new Date('2026-01-05T00:00:00Z'), calendar, [])).toBe(true); // Monday
+    expect(isServiceActive(new Date('2026-01-04T00:00:00Z'), calendar, [])).toBe(false); // Sunday
+  });
+
+  it('is inactive outside the date range', () => {
+    expect(isServiceActive(new Date('2026-02-02T00:00:00Z'), calendar, [])).toBe(false);
+  });
+
+  it('applies removed and added exceptions', () => {
+    const exceptions = [
+      { date: new Date('2026-01-07T00:00:00Z'), exceptionType: 2 },
+      { date: new Date('2026-01-10T00:00:00Z'), exceptionType: 1 },
+    ];
+    expect(isServiceActive(new Date('2026-01-07T00:00:00Z'), calendar, exceptions)).toBe(false);
+    expect(isServiceActive(new Date('2026-01-10T00:00:00Z'), calendar, exceptions)).toBe(true);
+  });
+
+  it('supports services defined only by calendar_dates', () => {
+    const exceptions = [{ date: new Date('2026-01-10T00:00:00Z'), exceptionType: 1 }];
+    expect(isServiceActive(new Date('2026-01-10T00:00:00Z'), undefined, exceptions)).toBe(true);
+    expect(isServiceActive(new Date('2026-01-11T00:00:00Z'), undefined, exceptions)).toBe(false);
+  });
+});
+
+describe('parseStaticGtfs', () => {
+  it('parses all feed files', () => {
+    const feed = parseStaticGtfs(buildFeedZip());
+
+    expect(feed.feedVersion).toBe('2026-01');
+    expect(feed.feedStartDate?.toISOString()).toBe('2026-01-01T00:00:00.000Z');
+    expect(feed.agencies).toEqual([
+      {
+        agencyId: 'ES',
+        name: 'Eurostar',
+        url: 'https://www.eurostar.com',
+        timezone: 'Europe/London',
+        lang: 'en',
+      },
+    ]);
+    expect(feed.stops).toHaveLength(2);
+    expect(feed.stops[1]).toMatchObject({ stopId: 'FRPNO', timezone: 'Europe/Paris' });
+    expect(feed.routes[0]).toMatchObject({ routeId: 'LON-PAR', shortName: null, routeType: 2 });
+    expect(feed.trips[0]).toEqual({
+      tripId: '9007-WD',
+      routeId: 'LON-PAR',
+      serviceId: 'WEEKDAY',
+      shortName: '9007',
+      headsign: 'Paris Gare du Nord',
+      directionId: 0,
+    });
+    expect(feed.stopTimes).toHaveLength(2);
+    expect(feed.stopTimes[0]).toEqual({
+      tripId: '9007-WD',
+      stopSequence: 1,
+      stopId: 'GBSPX',
+      arrivalTime: '08:01:00',
+      departureTime: '08:01:00',
+    });
+    expect(feed.calendar[0]).toMatchObject({ serviceId: 'WEEKDAY', monday: true, saturday: false });
+    expect(feed.calendarDates).toHaveLength(2);
+    expect(feed.calendarDates[0]).toMatchObject({ serviceId: 'WEEKDAY', exceptionType: 2 });
+  });
+
+  it('accepts feeds without feed_info.txt', () => {
+    const feed = parseStaticGtfs(buildFeedZip({ 'feed_info.txt': null }));
+    expect(feed.feedVersion).toBeNull();
+    expect(feed.feedStartDate).toBeNull();
+  });
+
+  it('rejects feeds missing a required file', () => {
+    expect(() => parseStaticGtfs(buildFeedZip({ 'stop_times.txt': null }))).toThrow(
+      /stop_times\.txt/
+    );
+  });
+
+  it('rejects feeds without any calendar', () => {
+    expect(() =>
+      parseStaticGtfs(buildFeedZip({ 'calendar.txt': null, 'calendar_dates.txt': null }))
+    ).toThrow(GtfsStaticImportError);
+  });
+
+  it('rejects rows missing required fields', () => {
+    const trips = 'route_id,service_id,trip_id\nLON-PAR,WEEKDAY,';
+    expect(() => parseStaticGtfs(buildFeedZip({ 'trips.txt': trips }))).toThrow(/trip_id/);
+  });
+
+  it('wraps invalid archives in GtfsStaticImportError', () => {
+    expect(() => parseStaticGtfs(Buffer.from('definitely not a zip archive'))).toThrow(
+      GtfsStaticImportError
+    );
+  });
+});
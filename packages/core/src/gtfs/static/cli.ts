@@ -0,0 +1,46 @@
+/**
+ * Static GTFS import CLI
+ *
+ * Usage: pnpm gtfs:import <path/to/gtfs.zip>
+ *
+ * Environment variables:
+ * - DATABASE_URL: PostgreSQL connection URL [REQUIRED]
+ * - GTFS_STATIC_PATH: Default zip path if no argument is given
+ */
+
+import { createDbFromEnv } from '../../db/index.js';
+import { importStaticGtfs } from './importer.js';
+
+async function main(): Promise<void> {
+  const zipPath = process.argv[2] ?? process.env['GTFS_STATIC_PATH'];
+  if (!zipPath) {
+    console.error('Usage: pnpm gtfs:import <path/to/gtfs.zip>');
+    process.exit(1);
+  }
+
+  const db = createDbFromEnv();
+  const result = await importStaticGtfs(db, zipPath);
+  await db.$client.end({ timeout: 5 });
+
+  if (result.isErr()) {
+    console.error(`[GTFS] ${result.error.message}`);
+    process.exit(1);
+  }
+
+  const summary = result.value;
+  if (summary.skipped) {
+    console.log(`[GTFS] Feed unchanged (${summary.contentHash.slice(0, 12)}), nothing to import`);
+  } else {
+    console.log(
+      `[GTFS] Imported ${summary.tripCount} trips and ${summary.stopTimeCount} stop times ` +
+        `(removed ${summary.removedCount} stale rows)`
+    );
+  }
+
+  process.exit(0);
+}
+
+main().catch((error) => {
+  console.error('[GTFS] Import failed:', error);
+  process.exit(1);
+});
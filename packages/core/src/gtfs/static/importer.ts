@@ -0,0 +1,204 @@
+import { createHash } from 'crypto';
+import { readFile } from 'fs/promises';
+import { eq, getTableColumns, ne, sql, type SQL } from 'drizzle-orm';
+import type { PgColumn, PgTable } from 'drizzle-orm/pg-core';
+import type { Database } from '../../db/index.js';
+import {
+  gtfsAgencies,
+  gtfsCalendar,
+  gtfsCalendarDates,
+  gtfsFeedVersions,
+  gtfsRoutes,
+  gtfsStops,
+  gtfsStopTimes,
+  gtfsTrips,
+} from '../../db/schema.js';
+import { err, ok, type Result } from '../../result.js';
+import { loggers } from '../../logging/logger.js';
+import { parseStaticGtfs } from './parser.js';
+import { GtfsStaticImportError, type StaticImportResult } from './types.js';
+
+const log = loggers.gtfs;
+
+/** Rows per INSERT statement, well under the Postgres parameter limit */
+const CHUNK_SIZE = 1000;
+
+type Transaction = Parameters<Parameters<Database['transaction']>[0]>[0];
+
+/**
+ * Builds an ON CONFLICT update set that copies every non-key column
+ * from the incoming row (`excluded.*`).
+ */
+function excludedColumns<T extends PgTable>(
+  table: T,
+  keys: string[]
+): Record<string, SQL> {
+  const columns = getTableColumns(table) as Record<string, PgColumn>;
+  const set: Record<string, SQL> = {};
+  for (const [property, column] of Object.entries(columns)) {
+    if (!keys.includes(property)) {
+      set[property] = sql.raw(`excluded."${column.name}"`);
+    }
+  }
+  return set;
+}
+
+async function upsertChunked<T extends PgTable>(
+  tx: Transaction,
+  table: T,
+  target: PgColumn[],
+  keys: string[],
+  rows: T['$inferInsert'][]
+): Promise<void> {
+  const set = excludedColumns(table, keys);
+  for (let i = 0; i < rows.length; i += CHUNK_SIZE) {
+    await tx
+      .insert(table)
+      .values(rows.slice(i, i + CHUNK_SIZE))
+      .onConflictDoUpdate({ target, set });
+  }
+}
+
+/**
+ * Imports a static GTFS zip into the gtfs_* tables.
+ *
+ * Feeds are identified by the sha256 of the zip, so re-running the import
+ * with an unchanged file is a no-op. A new feed version is upserted in a
+ * single transaction and rows that only existed in older versions are
+ * removed, leaving the tables matching the latest feed.
+ *
+ * @param db - Database connection
+ * @param zipPath - Path to a local GTFS zip file
+ */
+export async function importStaticGtfs(
+  db: Database,
+  zipPath: string
+): Promise<Result<StaticImportResult, GtfsStaticImportError>> {
+  let zip: Buffer;
+  try {
+    zip = await readFile(zipPath);
+  } catch (error) {
+    return err(
+      new GtfsStaticImportError(
+        `Could not read ${zipPath}: ${error instanceof Error ? error.message : 'Unknown error'}`
+      )
+    );
+  }
+
+  const contentHash = createHash('sha256').update(zip).digest('hex');
+
+  const [existing] = await db
+    .select()
+    .from(gtfsFeedVersions)
+    .where(eq(gtfsFeedVersions.contentHash, contentHash))
+    .limit(1);
+
+  if (existing) {
+    log.info({ feedVersionId: existing.id, contentHash }, 'Static GTFS feed already imported');
+    return ok({
+      feedVersionId: existing.id,
+      contentHash,
+      skipped: true,
+      tripCount: existing.tripCount,
+      stopTimeCount: existing.stopTimeCount,
+      removedCount: 0,
+    });
+  }
+
+  let feed;
+  try {
+    feed = parseStaticGtfs(zip);
+  } catch (error) {
+    if (error instanceof GtfsStaticImportError) {
+      return err(error);
+    }
+    throw error;
+  }
+
+  try {
+    const result = await db.transaction(async (tx) => {
+      const [version] = await tx
+        .insert(gtfsFeedVersions)
+        .values({
+          contentHash,
+          feedVersion: feed.feedVersion,
+          source: zipPath,
+          feedStartDate: feed.feedStartDate,
+          feedEndDate: feed.feedEndDate,
+          tripCount: feed.trips.length,
+          stopTimeCount: feed.stopTimes.length,
+        })
+        .returning({ id: gtfsFeedVersions.id });
+
+      const feedVersionId = version!.id;
+      const withVersion = <T extends object>(rows: T[]) =>
+        rows.map((row) => ({ ...row, feedVersionId }));
+
+      await upsertChunked(tx, gtfsAgencies, [gtfsAgencies.agencyId], ['agencyId'], withVersion(feed.agencies));
+      await upsertChunked(tx, gtfsStops, [gtfsStops.stopId], ['stopId'], withVersion(feed.stops));
+      await upsertChunked(tx, gtfsRoutes, [gtfsRoutes.routeId], ['routeId'], withVersion(feed.routes));
+      await upsertChunked(tx, gtfsTrips, [gtfsTrips.tripId], ['tripId'], withVersion(feed.trips));
+      await upsertChunked(
+        tx,
+        gtfsStopTimes,
+        [gtfsStopTimes.tripId, gtfsStopTimes.stopSequence],
+        ['tripId', 'stopSequence'],
+        withVersion(feed.stopTimes)
+      );
+      await upsertChunked(tx, gtfsCalendar, [gtfsCalendar.serviceId], ['serviceId'], withVersion(feed.calendar));
+      await upsertChunked(
+        tx,
+        gtfsCalendarDates,
+        [gtfsCalendarDates.serviceId, gtfsCalendarDates.date],
+        ['serviceId', 'date'],
+        withVersion(feed.calendarDates)
+      );
+
+      // Drop rows that are no longer part of the feed
+      let removedCount = 0;
+      for (const table of [
+        gtfsStopTimes,
+        gtfsCalendarDates,
+        gtfsCalendar,
+        gtfsTrips,
+        gtfsRoutes,
+        gtfsStops,
+        gtfsAgencies,
+      ]) {
+        const removed = await tx
+          .delete(table)
+          .where(ne(table.feedVersionId, feedVersionId))
+          .returning({ feedVersionId: table.feedVersionId });
+        removedCount += removed.length;
+      }
+
+      return { feedVersionId, removedCount };
+    });
+
+    log.info(
+      {
+        feedVersionId: result.feedVersionId,
+        contentHash,
+        tripCount: feed.trips.length,
+        stopTimeCount: feed.stopTimes.length,
+        removedCount: result.removedCount,
+      },
+      'Static GTFS feed imported'
+    );
+
+    return ok({
+      feedVersionId: result.feedVersionId,
+      contentHash,
+      skipped: false,
+      tripCount: feed.trips.length,
+      stopTimeCount: feed.stopTimes.length,
+      removedCount: result.removedCount,
+    });
+  } catch (error) {
+    return err(
+      new GtfsStaticImportError(
+        `Import failed: ${error instanceof Error ? error.message : 'Unknown error'}`
+      )
+    );
+  }
+}
@@ -0,0 +1,31 @@
+// Types
+export {
+  type StaticAgency,
+  type StaticStop,
+  type StaticRoute,
+  type StaticTrip,
+  type StaticStopTime,
+  type StaticCalendar,
+  type StaticCalendarDate,
+  type StaticGtfsFeed,
+  type StaticImportResult,
+  type ScheduledStop,
+  type ScheduledTrip,
+  GtfsStaticImportError,
+} from './types.js';
+
+// Parser
+export {
+  parseStaticGtfs,
+  parseStaticGtfsFiles,
+  parseGtfsDate,
+  parseGtfsTime,
+  gtfsTimeToDate,
+  isServiceActive,
+} from './parser.js';
+
+// Importer
+export { importStaticGtfs } from './importer.js';
+
+// Schedule lookup
+export { findScheduledTrip, type ScheduleLookup } from './schedule.js';
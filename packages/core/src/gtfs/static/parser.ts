@@ -0,0 +1,327 @@
+import { parseCsv } from '../../formats/csv.js';
+import { readZipFiles } from '../../formats/zip.js';
+import {
+  GtfsStaticImportError,
+  type StaticAgency,
+  type StaticCalendar,
+  type StaticCalendarDate,
+  type StaticGtfsFeed,
+  type StaticRoute,
+  type StaticStop,
+  type StaticStopTime,
+  type StaticTrip,
+} from './types.js';
+
+const REQUIRED_FILES = [
+  'agency.txt',
+  'stops.txt',
+  'routes.txt',
+  'trips.txt',
+  'stop_times.txt',
+] as const;
+
+const SECONDS_PER_HOUR = 3600;
+const MS_PER_HOUR = SECONDS_PER_HOUR * 1000;
+
+function optional(value: string | undefined): string | null {
+  const trimmed = value?.trim();
+  return trimmed ? trimmed : null;
+}
+
+function required(
+  record: Record<string, string>,
+  field: string,
+  file: string
+): string {
+  const value = record[field]?.trim();
+  if (!value) {
+    throw new GtfsStaticImportError(`${file}: missing required field "${field}"`);
+  }
+  return value;
+}
+
+function optionalInt(value: string | undefined): number | null {
+  const trimmed = value?.trim();
+  if (!trimmed) {
+    return null;
+  }
+  const parsed = parseInt(trimmed, 10);
+  return Number.isNaN(parsed) ? null : parsed;
+}
+
+/**
+ * Parses a GTFS date ("YYYYMMDD") to a Date at UTC midnight.
+ *
+ * @example
+ * parseGtfsDate('20260105') // 2026-01-05T00:00:00.000Z
+ */
+export function parseGtfsDate(value: string): Date | null {
+  const match = /^(\d{4})(\d{2})(\d{2})$/.exec(value.trim());
+  if (!match) {
+    return null;
+  }
+  const [, year, month, day] = match;
+  return new Date(Date.UTC(parseInt(year!), parseInt(month!) - 1, parseInt(day!)));
+}
+
+/**
+ * Parses a GTFS time ("HH:MM:SS") to seconds since the start of the service day.
+ * Hours may exceed 23 for trips running past midnight.
+ *
+ * @example
+ * parseGtfsTime('07:01:00') // 25260
+ * parseGtfsTime('25:10:00') // 90600
+ */
+export function parseGtfsTime(value: string): number | null {
+  const match = /^(\d{1,3}):([0-5]\d):([0-5]\d)$/.exec(value.trim());
+  if (!match) {
+    return null;
+  }
+  const [, hours, minutes, seconds] = match;
+  return parseInt(hours!) * SECONDS_PER_HOUR + parseInt(minutes!) * 60 + parseInt(seconds!);
+}
+
+/**
+ * Returns the UTC offset of a timezone at the given instant, in milliseconds.
+ */
+function getTimezoneOffsetMs(instant: Date, timeZone: string): number {
+  const parts = new Intl.DateTimeFormat('en-GB', {
+    timeZone,
+    hourCycle: 'h23',
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+    hour: '2-digit',
+    minute: '2-digit',
+    second: '2-digit',
+  }).formatToParts(instant);
+
+  const get = (type: Intl.DateTimeFormatPartTypes) =>
+    parseInt(parts.find((part) => part.type === type)?.value ?? '0');
+
+  const asUtc = Date.UTC(
+    get('year'),
+    get('month') - 1,
+    get('day'),
+    get('hour'),
+    get('minute'),
+    get('second')
+  );
+
+  return asUtc - (instant.getTime() - instant.getMilliseconds());
+}
+
+/**
+ * Converts a GTFS stop time on a service date to an absolute instant.
+ *
+ * Per the GTFS spec, times are measured from "noon minus 12h" in the
+ * agency timezone, which keeps DST-change days correct.
+ *
+ * @param serviceDate - Service day (UTC midnight of the calendar date)
+ * @param time - GTFS "HH:MM:SS" time
+ * @param timeZone - IANA timezone of the agency, e.g. "Europe/London"
+ */
+export function gtfsTimeToDate(
+  serviceDate: Date,
+  time: string,
+  timeZone: string
+): Date | null {
+  const seconds = parseGtfsTime(time);
+  if (seconds === null) {
+    return null;
+  }
+
+  const noonUtc = Date.UTC(
+    serviceDate.getUTCFullYear(),
+    serviceDate.getUTCMonth(),
+    serviceDate.getUTCDate(),
+    12
+  );
+  const noonLocal = noonUtc - getTimezoneOffsetMs(new Date(noonUtc), timeZone);
+  const dayStart = noonLocal - 12 * MS_PER_HOUR;
+
+  return new Date(dayStart + seconds * 1000);
+}
+
+const WEEKDAYS = [
+  'sunday',
+  'monday',
+  'tuesday',
+  'wednesday',
+  'thursday',
+  'friday',
+  'saturday',
+] as const;
+
+/**
+ * Checks whether a service runs on a given date.
+ * calendar_dates exceptions take precedence over the weekly calendar.
+ *
+ * @param date - Service date (UTC midnight)
+ * @param calendar - Weekly pattern for the service, if any
+ * @param exceptions - calendar_dates rows for the service
+ */
+export function isServiceActive(
+  date: Date,
+  calendar: Omit<StaticCalendar, 'serviceId'> | undefined,
+  exceptions: Array<Pick<StaticCalendarDate, 'date' | 'exceptionType'>>
+): boolean {
+  const exception = exceptions.find(
+    (entry) => entry.date.getTime() === date.getTime()
+  );
+  if (exception) {
+    return exception.exceptionType === 1;
+  }
+
+  if (!calendar) {
+    return false;
+  }
+
+  if (date < calendar.startDate || date > calendar.endDate) {
+    return false;
+  }
+
+  return calendar[WEEKDAYS[date.getUTCDay()]!];
+}
+
+function parseFile(files: Map<string, Buffer>, name: string): Record<string, string>[] {
+  const data = files.get(name);
+  return data ? parseCsv(data.toString('utf8')) : [];
+}
+
+function parseRequiredDate(value: string | undefined, field: string, file: string): Date {
+  const date = value ? parseGtfsDate(value) : null;
+  if (!date) {
+    throw new GtfsStaticImportError(`${file}: invalid date in "${field}": ${value ?? ''}`);
+  }
+  return date;
+}
+
+/**
+ * Parses the CSV files of a static GTFS feed.
+ *
+ * @param files - Map of file name (e.g. "trips.txt") to contents
+ * @throws GtfsStaticImportError if a required file or field is missing
+ */
+export function parseStaticGtfsFiles(files: Map<string, Buffer>): StaticGtfsFeed {
+  for (const name of REQUIRED_FILES) {
+    if (!files.has(name)) {
+      throw new GtfsStaticImportError(`Feed is missing required file ${name}`);
+    }
+  }
+  if (!files.has('calendar.txt') && !files.has('calendar_dates.txt')) {
+    throw new GtfsStaticImportError(
+      'Feed must contain calendar.txt or calendar_dates.txt'
+    );
+  }
+
+  const agencies: StaticAgency[] = parseFile(files, 'agency.txt').map((row, index) => ({
+    // agency_id is optional for single-agency feeds
+    agencyId: optional(row['agency_id']) ?? `agency-${index + 1}`,
+    name: required(row, 'agency_name', 'agency.txt'),
+    url: optional(row['agency_url']),
+    timezone: required(row, 'agency_timezone', 'agency.txt'),
+    lang: optional(row['agency_lang']),
+  }));
+
+  if (agencies.length === 0) {
+    throw new GtfsStaticImportError('agency.txt contains no agencies');
+  }
+
+  const stops: StaticStop[] = parseFile(files, 'stops.txt').map((row) => ({
+    stopId: required(row, 'stop_id', 'stops.txt'),
+    name: optional(row['stop_name']) ?? required(row, 'stop_id', 'stops.txt'),
+    lat: optional(row['stop_lat']),
+    lon: optional(row['stop_lon']),
+    timezone: optional(row['stop_timezone']),
+    parentStation: optional(row['parent_station']),
+  }));
+
+  const routes: StaticRoute[] = parseFile(files, 'routes.txt').map((row) => ({
+    routeId: required(row, 'route_id', 'routes.txt'),
+    agencyId: optional(row['agency_id']),
+    shortName: optional(row['route_short_name']),
+    longName: optional(row['route_long_name']),
+    routeType: optionalInt(row['route_type']) ?? 2, // 2 = rail
+  }));
+
+  const trips: StaticTrip[] = parseFile(files, 'trips.txt').map((row) => ({
+    tripId: required(row, 'trip_id', 'trips.txt'),
+    routeId: required(row, 'route_id', 'trips.txt'),
+    serviceId: required(row, 'service_id', 'trips.txt'),
+    shortName: optional(row['trip_short_name']),
+    headsign: optional(row['trip_headsign']),
+    directionId: optionalInt(row['direction_id']),
+  }));
+
+  const stopTimes: StaticStopTime[] = parseFile(files, 'stop_times.txt').map((row) => {
+    const sequence = optionalInt(row['stop_sequence']);
+    if (sequence === null) {
+      throw new GtfsStaticImportError('stop_times.txt: missing required field "stop_sequence"');
+    }
+    return {
+      tripId: required(row, 'trip_id', 'stop_times.txt'),
+      stopSequence: sequence,
+      stopId: required(row, 'stop_id', 'stop_times.txt'),
+      arrivalTime: optional(row['arrival_time']),
+      departureTime: optional(row['departure_time']),
+    };
+  });
+
+  const calendar: StaticCalendar[] = parseFile(files, 'calendar.txt').map((row) => ({
+    serviceId: required(row, 'service_id', 'calendar.txt'),
+    monday: row['monday']?.trim() === '1',
+    tuesday: row['tuesday']?.trim() === '1',
+    wednesday: row['wednesday']?.trim() === '1',
+    thursday: row['thursday']?.trim() === '1',
+    friday: row['friday']?.trim() === '1',
+    saturday: row['saturday']?.trim() === '1',
+    sunday: row['sunday']?.trim() === '1',
+    startDate: parseRequiredDate(row['start_date'], 'start_date', 'calendar.txt'),
+    endDate: parseRequiredDate(row['end_date'], 'end_date', 'calendar.txt'),
+  }));
+
+  const calendarDates: StaticCalendarDate[] = parseFile(files, 'calendar_dates.txt').map(
+    (row) => ({
+      serviceId: required(row, 'service_id', 'calendar_dates.txt'),
+      date: parseRequiredDate(row['date'], 'date', 'calendar_dates.txt'),
+      exceptionType: optionalInt(row['exception_type']) ?? 1,
+    })
+  );
+
+  const [feedInfo] = parseFile(files, 'feed_info.txt');
+
+  return {
+    feedVersion: optional(feedInfo?.['feed_version']),
+    feedStartDate: feedInfo?.['feed_start_date']
+      ? parseGtfsDate(feedInfo['feed_start_date'])
+      : null,
+    feedEndDate: feedInfo?.['feed_end_date']
+      ? parseGtfsDate(feedInfo['feed_end_date'])
+      : null,
+    agencies,
+    stops,
+    routes,
+    trips,
+    stopTimes,
+    calendar,
+    calendarDates,
+  };
+}
+
+/**
+ * Parses a static GTFS zip archive held in memory.
+ *
+ * @throws GtfsStaticImportError if the archive or its contents are invalid
+ */
+export function parseStaticGtfs(zip: Buffer): StaticGtfsFeed {
+  let files: Map<string, Buffer>;
+  try {
+    files = readZipFiles(zip);
+  } catch (error) {
+    throw new GtfsStaticImportError(
+      `Could not read GTFS zip: ${error instanceof Error ? error.message : 'Unknown error'}`
+    );
+  }
+  return parseStaticGtfsFiles(files);
+}
@@ -0,0 +1,126 @@
+import { and, asc, eq, inArray, or } from 'drizzle-orm';
+import type { Database } from '../../db/index.js';
+import {
+  gtfsAgencies,
+  gtfsCalendar,
+  gtfsCalendarDates,
+  gtfsRoutes,
+  gtfsStopTimes,
+  gtfsTrips,
+} from '../../db/schema.js';
+import { gtfsTimeToDate, isServiceActive } from './parser.js';
+import type { ScheduledStop, ScheduledTrip } from './types.js';
+
+/** Fallback when the feed has no usable agency timezone */
+const DEFAULT_TIMEZONE = 'Europe/London';
+
+export interface ScheduleLookup {
+  /** GTFS-RT trip id, e.g. "9007-0105" */
+  tripId: string;
+  /** Train number, matched against trips.trip_short_name */
+  trainNumber: string;
+  /** Service date (UTC midnight) */
+  date: Date;
+}
+
+/**
+ * Finds the static timetable entry for a train on a given date and
+ * resolves its stop times to absolute instants.
+ *
+ * Trips are matched by exact trip_id first, then by trip_short_name
+ * (train number) among services running on that date.
+ *
+ * @returns The scheduled trip, or null if the timetable has no match
+ */
+export async function findScheduledTrip(
+  db: Database,
+  lookup: ScheduleLookup
+): Promise<ScheduledTrip | null> {
+  const candidates = await db
+    .select({
+      tripId: gtfsTrips.tripId,
+      serviceId: gtfsTrips.serviceId,
+      shortName: gtfsTrips.shortName,
+      agencyId: gtfsRoutes.agencyId,
+    })
+    .from(gtfsTrips)
+    .leftJoin(gtfsRoutes, eq(gtfsTrips.routeId, gtfsRoutes.routeId))
+    .where(
+      or(
+        eq(gtfsTrips.tripId, lookup.tripId),
+        eq(gtfsTrips.shortName, lookup.trainNumber)
+      )
+    );
+
+  if (candidates.length === 0) {
+    return null;
+  }
+
+  const serviceIds = [...new Set(candidates.map((trip) => trip.serviceId))];
+
+  const [calendars, exceptions] = await Promise.all([
+    db.select().from(gtfsCalendar).where(inArray(gtfsCalendar.serviceId, serviceIds)),
+    db
+      .select()
+      .from(gtfsCalendarDates)
+      .where(
+        and(
+          inArray(gtfsCalendarDates.serviceId, serviceIds),
+          eq(gtfsCalendarDates.date, lookup.date)
+        )
+      ),
+  ]);
+
+  const runsOnDate = (serviceId: string) =>
+    isServiceActive(
+      lookup.date,
+      calendars.find((calendar) => calendar.serviceId === serviceId),
+      exceptions.filter((exception) => exception.serviceId === serviceId)
+    );
+
+  const active = candidates.filter((trip) => runsOnDate(trip.serviceId));
+  const trip =
+    active.find((candidate) => candidate.tripId === lookup.tripId) ?? active[0];
+
+  if (!trip) {
+    return null;
+  }
+
+  const [agency] = await db
+    .select({ timezone: gtfsAgencies.timezone })
+    .from(gtfsAgencies)
+    .where(trip.agencyId ? eq(gtfsAgencies.agencyId, trip.agencyId) : undefined)
+    .limit(1);
+  const timeZone = agency?.timezone ?? DEFAULT_TIMEZONE;
+
+  const stopTimes = await db
+    .select()
+    .from(gtfsStopTimes)
+    .where(eq(gtfsStopTimes.tripId, trip.tripId))
+    .orderBy(asc(gtfsStopTimes.stopSequence));
+
+  const toDate = (time: string | null) =>
+    time ? gtfsTimeToDate(lookup.date, time, timeZone) : null;
+
+  const stops: ScheduledStop[] = stopTimes.map((stopTime) => ({
+    stopId: stopTime.stopId,
+    stopSequence: stopTime.stopSequence,
+    arrival: toDate(stopTime.arrivalTime ?? stopTime.departureTime),
+    departure: toDate(stopTime.departureTime ?? stopTime.arrivalTime),
+  }));
+
+  const first = stops[0];
+  const last = stops[stops.length - 1];
+  if (!first?.departure || !last?.arrival) {
+    return null;
+  }
+
+  return {
+    tripId: trip.tripId,
+    trainNumber: trip.shortName,
+    serviceDate: lookup.date,
+    scheduledDeparture: first.departure,
+    scheduledArrival: last.arrival,
+    stops,
+  };
+}
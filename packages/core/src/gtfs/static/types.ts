@@ -0,0 +1,127 @@
+/**
+ * Static GTFS types.
+ * Rows are normalized from the CSV files in a GTFS zip
+ * (agency, stops, routes, trips, stop_times, calendar, calendar_dates).
+ */
+
+export interface StaticAgency {
+  agencyId: string;
+  name: string;
+  url: string | null;
+  timezone: string;
+  lang: string | null;
+}
+
+export interface StaticStop {
+  stopId: string;
+  name: string;
+  lat: string | null;
+  lon: string | null;
+  timezone: string | null;
+  parentStation: string | null;
+}
+
+export interface StaticRoute {
+  routeId: string;
+  agencyId: string | null;
+  shortName: string | null;
+  longName: string | null;
+  routeType: number;
+}
+
+export interface StaticTrip {
+  tripId: string;
+  routeId: string;
+  serviceId: string;
+  shortName: string | null;
+  headsign: string | null;
+  directionId: number | null;
+}
+
+export interface StaticStopTime {
+  tripId: string;
+  stopSequence: number;
+  stopId: string;
+  /** GTFS "HH:MM:SS", may exceed 24:00:00 for trips past midnight */
+  arrivalTime: string | null;
+  departureTime: string | null;
+}
+
+export interface StaticCalendar {
+  serviceId: string;
+  monday: boolean;
+  tuesday: boolean;
+  wednesday: boolean;
+  thursday: boolean;
+  friday: boolean;
+  saturday: boolean;
+  sunday: boolean;
+  startDate: Date;
+  endDate: Date;
+}
+
+export interface StaticCalendarDate {
+  serviceId: string;
+  date: Date;
+  /** 1 = service added, 2 = service removed */
+  exceptionType: number;
+}
+
+/**
+ * A fully parsed static GTFS feed.
+ */
+export interface StaticGtfsFeed {
+  feedVersion: string | null;
+  feedStartDate: Date | null;
+  feedEndDate: Date | null;
+  agencies: StaticAgency[];
+  stops: StaticStop[];
+  routes: StaticRoute[];
+  trips: StaticTrip[];
+  stopTimes: StaticStopTime[];
+  calendar: StaticCalendar[];
+  calendarDates: StaticCalendarDate[];
+}
+
+/**
+ * Summary of a static GTFS import.
+ */
+export interface StaticImportResult {
+  feedVersionId: string;
+  contentHash: string;
+  /** True if this exact feed had already been imported and nothing changed */
+  skipped: boolean;
+  tripCount: number;
+  stopTimeCount: number;
+  /** Rows from previous feed versions that were removed */
+  removedCount: number;
+}
+
+/**
+ * Scheduled times for one stop of a trip, resolved to absolute instants.
+ */
+export interface ScheduledStop {
+  stopId: string;
+  stopSequence: number;
+  arrival: Date | null;
+  departure: Date | null;
+}
+
+/**
+ * A trip from the static timetable resolved for a specific service date.
+ */
+export interface ScheduledTrip {
+  tripId: string;
+  trainNumber: string | null;
+  serviceDate: Date;
+  scheduledDeparture: Date;
+  scheduledArrival: Date;
+  stops: ScheduledStop[];
+}
+
+export class GtfsStaticImportError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'GtfsStaticImportError';
+  }
+}
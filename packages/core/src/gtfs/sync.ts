@@ -1,7 +1,15 @@
 import { sql } from 'drizzle-orm';
 import type { Database } from '../db/index.js';
-import { trains, type TrainType } from '../db/schema.js';
+import {
+  trains,
+  trainStopEvents,
+  type NewTrain,
+  type NewTrainStopEvent,
+  type TrainType,
+} from '../db/schema.js';
 import type { ParsedTrainDelay } from './types.js';
+import { findScheduledTrip } from './static/schedule.js';
+import type { ScheduledTrip } from './static/types.js';
 
 /**
  * Maps train number ranges to train types.
@@ -30,23 +38,89 @@ function inferTrainType(trainNumber: string): TrainType {
 export interface SyncResult {
   inserted: number;
   updated: number;
+  stopEvents: number;
   errors: Array<{ tripId: string; error: string }>;
 }
 
+/**
+ * Looks up scheduled times from the static timetable.
+ * Returns null if no static feed has been imported or the trip is unknown.
+ */
+async function resolveSchedule(
+  delay: ParsedTrainDelay,
+  db: Database
+): Promise<ScheduledTrip | null> {
+  return findScheduledTrip(db, {
+    tripId: delay.tripId,
+    trainNumber: delay.trainNumber,
+    date: delay.date,
+  });
+}
+
+/**
+ * Builds one stop event per station in the trip update.
+ * Stops without a stop_id in the RT feed are resolved by stop_sequence
+ * against the static timetable; stops that can't be identified are dropped.
+ */
+function buildStopEvents(
+  trainId: string,
+  delay: ParsedTrainDelay,
+  schedule: ScheduledTrip | null,
+  observedAt: Date,
+  feedTimestamp: Date | null
+): NewTrainStopEvent[] {
+  const events: NewTrainStopEvent[] = [];
+
+  for (const stop of delay.stops) {
+    const scheduledStop = schedule?.stops.find((candidate) =>
+      stop.stopSequence !== null
+        ? candidate.stopSequence === stop.stopSequence
+        : candidate.stopId === stop.stationCode
+    );
+    const stationCode = stop.stationCode || scheduledStop?.stopId;
+
+    if (!stationCode) {
+      continue;
+    }
+
+    events.push({
+      trainId,
+      stationCode,
+      stopSequence: stop.stopSequence,
+      scheduleRelationship: stop.scheduleRelationship,
+      scheduledArrival: scheduledStop?.arrival ?? null,
+      arrivalDelayMinutes: stop.arrivalDelayMinutes,
+      departureDelayMinutes: stop.departureDelayMinutes,
+      observedAt,
+      feedTimestamp,
+    });
+  }
+
+  return events;
+}
+
 /**
  * Syncs train delays to the database using upsert.
  * Uses ON CONFLICT to update existing records.
  *
- * Note: This only updates delayMinutes from the GTFS feed.
- * Scheduled departure/arrival times need to come from the static GTFS feed.
+ * Scheduled departure/arrival times come from the static GTFS timetable
+ * (see importStaticGtfs). Trips missing from the timetable fall back to the
+ * journey date and keep any previously resolved times on update.
+ *
+ * Per-stop delays are appended to train_stop_events on every sync so
+ * compensation can be based on the passenger's own arrival station.
+ * Cancelled trips and skipped stops are recorded via schedule_relationship,
+ * and each event keeps the feed's header timestamp as claim evidence.
  */
 export async function syncTrainsToDb(
   delays: ParsedTrainDelay[],
-  db: Database
+  db: Database,
+  feedTimestamp: Date | null = null
 ): Promise<SyncResult> {
   const result: SyncResult = {
     inserted: 0,
     updated: 0,
+    stopEvents: 0,
     errors: [],
   };
 
@@ -54,8 +128,12 @@ export async function syncTrainsToDb(
     return result;
   }
 
+  const observedAt = new Date();
+
   for (const delay of delays) {
     try {
+      const schedule = await resolveSchedule(delay, db);
+
       // Use raw SQL for ON CONFLICT since Drizzle's onConflictDoUpdate
       // requires knowing if it's an insert or update
       const insertResult = await db
@@ -64,26 +142,39 @@ export async function syncTrainsToDb(
           tripId: delay.tripId,
           trainNumber: delay.trainNumber,
           date: delay.date,
-          // Placeholder times - should be updated from static GTFS
-          scheduledDeparture: delay.date,
-          scheduledArrival: delay.date,
+          // Journey date is only a fallback until the timetable is imported
+          scheduledDeparture: schedule?.scheduledDeparture ?? delay.date,
+          scheduledArrival: schedule?.scheduledArrival ?? delay.date,
           delayMinutes: delay.finalDelayMinutes,
+          scheduleRelationship: delay.scheduleRelationship,
           trainType: inferTrainType(delay.trainNumber),
         })
         .onConflictDoUpdate({
           target: trains.tripId,
           set: {
             delayMinutes: delay.finalDelayMinutes,
+            scheduleRelationship: delay.scheduleRelationship,
+            ...(schedule && {
+              scheduledDeparture: schedule.scheduledDeparture,
+              scheduledArrival: schedule.scheduledArrival,
+            }),
             updatedAt: new Date(),
           },
         })
         .returning({ id: trains.id });
 
       // If we got a result, count it
-      if (insertResult.length > 0) {
+      const train = insertResult[0];
+      if (train) {
         // We can't easily distinguish insert vs update with this approach
         // For now, just count as inserted
         result.inserted++;
+
+        const events = buildStopEvents(train.id, delay, schedule, observedAt, feedTimestamp);
+        if (events.length > 0) {
+          await db.insert(trainStopEvents).values(events);
+          result.stopEvents += events.length;
+        }
       }
     } catch (error) {
       result.errors.push({
@@ -102,11 +193,13 @@ export async function syncTrainsToDb(
  */
 export async function syncTrainsToDbBatch(
   delays: ParsedTrainDelay[],
-  db: Database
+  db: Database,
+  feedTimestamp: Date | null = null
 ): Promise<SyncResult> {
   const result: SyncResult = {
     inserted: 0,
     updated: 0,
+    stopEvents: 0,
     errors: [],
   };
 
@@ -115,31 +208,85 @@ export async function syncTrainsToDbBatch(
   }
 
   try {
-    // Prepare all values
-    const values = delays.map((delay) => ({
-      tripId: delay.tripId,
-      trainNumber: delay.trainNumber,
-      date: delay.date,
-      scheduledDeparture: delay.date,
-      scheduledArrival: delay.date,
-      delayMinutes: delay.finalDelayMinutes,
-      trainType: inferTrainType(delay.trainNumber),
-    }));
+    const observedAt = new Date();
+    const byTripId = new Map<
+      string,
+      { delay: ParsedTrainDelay; schedule: ScheduledTrip | null }
+    >();
+    const syncedTrains: Array<{ id: string; tripId: string }> = [];
+
+    // Prepare all values, split by whether the timetable knows the trip
+    const resolved: NewTrain[] = [];
+    const unresolved: NewTrain[] = [];
+
+    for (const delay of delays) {
+      const schedule = await resolveSchedule(delay, db);
+      byTripId.set(delay.tripId, { delay, schedule });
+      const value: NewTrain = {
+        tripId: delay.tripId,
+        trainNumber: delay.trainNumber,
+        date: delay.date,
+        scheduledDeparture: schedule?.scheduledDeparture ?? delay.date,
+        scheduledArrival: schedule?.scheduledArrival ?? delay.date,
+        delayMinutes: delay.finalDelayMinutes,
+        scheduleRelationship: delay.scheduleRelationship,
+        trainType: inferTrainType(delay.trainNumber),
+      };
+      (schedule ? resolved : unresolved).push(value);
+    }
 
     // Batch insert with conflict handling
-    const insertResult = await db
-      .insert(trains)
-      .values(values)
-      .onConflictDoUpdate({
-        target: trains.tripId,
-        set: {
-          delayMinutes: sql`excluded.delay_minutes`,
-          updatedAt: new Date(),
-        },
-      })
-      .returning({ id: trains.id });
-
-    result.inserted = insertResult.length;
+    if (resolved.length > 0) {
+      const insertResult = await db
+        .insert(trains)
+        .values(resolved)
+        .onConflictDoUpdate({
+          target: trains.tripId,
+          set: {
+            delayMinutes: sql`excluded.delay_minutes`,
+            scheduleRelationship: sql`excluded.schedule_relationship`,
+            scheduledDeparture: sql`excluded.scheduled_departure`,
+            scheduledArrival: sql`excluded.scheduled_arrival`,
+            updatedAt: new Date(),
+          },
+        })
+        .returning({ id: trains.id, tripId: trains.tripId });
+
+      syncedTrains.push(...insertResult);
+    }
+
+    // Don't overwrite previously resolved times with the fallback
+    if (unresolved.length > 0) {
+      const insertResult = await db
+        .insert(trains)
+        .values(unresolved)
+        .onConflictDoUpdate({
+          target: trains.tripId,
+          set: {
+            delayMinutes: sql`excluded.delay_minutes`,
+            scheduleRelationship: sql`excluded.schedule_relationship`,
+            updatedAt: new Date(),
+          },
+        })
+        .returning({ id: trains.id, tripId: trains.tripId });
+
+      syncedTrains.push(...insertResult);
+    }
+
+    result.inserted = syncedTrains.length;
+
+    // Record per-stop delays for every synced train
+    const events = syncedTrains.flatMap((train) => {
+      const entry = byTripId.get(train.tripId);
+      return entry
+        ? buildStopEvents(train.id, entry.delay, entry.schedule, observedAt, feedTimestamp)
+        : [];
+    });
+
+    if (events.length > 0) {
+      await db.insert(trainStopEvents).values(events);
+      result.stopEvents = events.length;
+    }
   } catch (error) {
     result.errors.push({
       tripId: 'batch',
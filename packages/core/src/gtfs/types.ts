@@ -14,6 +14,7 @@ export interface GtfsFeedMessage {
 export interface GtfsFeedEntity {
   id: string;
   tripUpdate?: GtfsTripUpdate;
+  alert?: GtfsAlert;
 }
 
 export interface GtfsTripUpdate {
@@ -21,6 +22,7 @@ export interface GtfsTripUpdate {
     tripId: string;
     routeId?: string;
     startDate?: string;
+    scheduleRelationship?: number;
   };
   stopTimeUpdate: GtfsStopTimeUpdate[];
 }
@@ -30,6 +32,7 @@ export interface GtfsStopTimeUpdate {
   stopId: string;
   arrival?: GtfsStopTimeEvent;
   departure?: GtfsStopTimeEvent;
+  scheduleRelationship?: number;
 }
 
 /**
@@ -43,6 +46,8 @@ export interface RawGtfsStopTimeUpdate {
   stop_id?: string;
   arrival?: RawGtfsStopTimeEvent;
   departure?: RawGtfsStopTimeEvent;
+  scheduleRelationship?: number | string;
+  schedule_relationship?: number | string;
   stopTimeProperties?: {
     assignedStopId?: string;
   };
@@ -64,6 +69,8 @@ export interface RawGtfsTripUpdate {
     route_id?: string;
     startDate?: string;
     start_date?: string;
+    scheduleRelationship?: number | string;
+    schedule_relationship?: number | string;
   };
   stopTimeUpdate?: RawGtfsStopTimeUpdate[];
   stop_time_update?: RawGtfsStopTimeUpdate[];
@@ -74,6 +81,169 @@ export interface GtfsStopTimeEvent {
   time?: number; // unix timestamp
 }
 
+/**
+ * How a trip relates to the static timetable (GTFS-RT TripDescriptor.ScheduleRelationship).
+ * DELETED is folded into CANCELED and DUPLICATED into ADDED.
+ */
+export const TripScheduleRelationship = {
+  SCHEDULED: 'scheduled',
+  ADDED: 'added',
+  CANCELED: 'canceled',
+} as const;
+
+export type TripScheduleRelationship =
+  (typeof TripScheduleRelationship)[keyof typeof TripScheduleRelationship];
+
+/**
+ * How a stop relates to the static timetable (GTFS-RT StopTimeUpdate.ScheduleRelationship).
+ */
+export const StopScheduleRelationship = {
+  SCHEDULED: 'scheduled',
+  SKIPPED: 'skipped',
+  NO_DATA: 'no_data',
+} as const;
+
+export type StopScheduleRelationship =
+  (typeof StopScheduleRelationship)[keyof typeof StopScheduleRelationship];
+
+/**
+ * Service alert entity (GTFS-RT Alert message).
+ */
+export interface GtfsAlert {
+  activePeriod: GtfsTimeRange[];
+  informedEntity: GtfsEntitySelector[];
+  cause?: number;
+  effect?: number;
+  url?: GtfsTranslatedString;
+  headerText?: GtfsTranslatedString;
+  descriptionText?: GtfsTranslatedString;
+}
+
+export interface GtfsTimeRange {
+  start?: number; // unix timestamp
+  end?: number; // unix timestamp
+}
+
+export interface GtfsEntitySelector {
+  agencyId?: string;
+  routeId?: string;
+  routeType?: number;
+  trip?: {
+    tripId?: string;
+    routeId?: string;
+    startDate?: string;
+  };
+  stopId?: string;
+}
+
+export interface GtfsTranslatedString {
+  translation: Array<{ text: string; language?: string }>;
+}
+
+/**
+ * Raw protobuf alert structure (camelCase or snake_case, 64-bit times as Long).
+ */
+type RawLong = number | { low: number; high: number };
+
+export interface RawGtfsAlert {
+  activePeriod?: Array<{ start?: RawLong; end?: RawLong }>;
+  active_period?: Array<{ start?: RawLong; end?: RawLong }>;
+  informedEntity?: RawGtfsEntitySelector[];
+  informed_entity?: RawGtfsEntitySelector[];
+  cause?: number;
+  effect?: number;
+  url?: RawGtfsTranslatedString;
+  headerText?: RawGtfsTranslatedString;
+  header_text?: RawGtfsTranslatedString;
+  descriptionText?: RawGtfsTranslatedString;
+  description_text?: RawGtfsTranslatedString;
+}
+
+export interface RawGtfsEntitySelector {
+  agencyId?: string;
+  agency_id?: string;
+  routeId?: string;
+  route_id?: string;
+  trip?: {
+    tripId?: string;
+    trip_id?: string;
+  };
+  stopId?: string;
+  stop_id?: string;
+}
+
+export interface RawGtfsTranslatedString {
+  translation?: Array<{ text?: string; language?: string }>;
+}
+
+/**
+ * Cause of a service alert (GTFS-RT Alert.Cause).
+ */
+export const AlertCause = {
+  UNKNOWN_CAUSE: 'unknown_cause',
+  OTHER_CAUSE: 'other_cause',
+  TECHNICAL_PROBLEM: 'technical_problem',
+  STRIKE: 'strike',
+  DEMONSTRATION: 'demonstration',
+  ACCIDENT: 'accident',
+  HOLIDAY: 'holiday',
+  WEATHER: 'weather',
+  MAINTENANCE: 'maintenance',
+  CONSTRUCTION: 'construction',
+  POLICE_ACTIVITY: 'police_activity',
+  MEDICAL_EMERGENCY: 'medical_emergency',
+} as const;
+
+export type AlertCause = (typeof AlertCause)[keyof typeof AlertCause];
+
+/**
+ * Effect of a service alert on passengers (GTFS-RT Alert.Effect).
+ */
+export const AlertEffect = {
+  NO_SERVICE: 'no_service',
+  REDUCED_SERVICE: 'reduced_service',
+  SIGNIFICANT_DELAYS: 'significant_delays',
+  DETOUR: 'detour',
+  ADDITIONAL_SERVICE: 'additional_service',
+  MODIFIED_SERVICE: 'modified_service',
+  OTHER_EFFECT: 'other_effect',
+  UNKNOWN_EFFECT: 'unknown_effect',
+  STOP_MOVED: 'stop_moved',
+  NO_EFFECT: 'no_effect',
+  ACCESSIBILITY_ISSUE: 'accessibility_issue',
+} as const;
+
+export type AlertEffect = (typeof AlertEffect)[keyof typeof AlertEffect];
+
+/**
+ * Text in one language. Language is null when the feed doesn't specify one.
+ */
+export interface AlertTranslation {
+  text: string;
+  language: string | null;
+}
+
+/**
+ * Parsed/normalized service alert for application use.
+ */
+export interface ParsedAlert {
+  /** Feed entity id, stable across polls */
+  alertId: string;
+  cause: AlertCause;
+  effect: AlertEffect;
+  /** Open-ended periods use null; no periods means always active */
+  activePeriods: Array<{ start: Date | null; end: Date | null }>;
+  informedEntities: Array<{
+    agencyId: string | null;
+    routeId: string | null;
+    tripId: string | null;
+    stopId: string | null;
+  }>;
+  headerText: AlertTranslation[];
+  descriptionText: AlertTranslation[];
+  url: string | null;
+}
+
 /**
  * Parsed/normalized train delay for application use.
  */
@@ -81,12 +251,15 @@ export interface ParsedTrainDelay {
   tripId: string;
   trainNumber: string;
   date: Date;
+  scheduleRelationship: TripScheduleRelationship;
   stops: ParsedStopDelay[];
   finalDelayMinutes: number;
 }
 
 export interface ParsedStopDelay {
   stationCode: string;
+  stopSequence: number | null;
+  scheduleRelationship: StopScheduleRelationship;
   arrivalDelayMinutes: number;
   departureDelayMinutes: number;
 }
@@ -98,6 +271,7 @@ export interface GtfsUpdateEvent {
   timestamp: Date;
   entityCount: number;
   delays: ParsedTrainDelay[];
+  alerts: ParsedAlert[];
 }
 
 /**
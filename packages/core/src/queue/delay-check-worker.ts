@@ -2,7 +2,7 @@ import { Worker, Job, type ConnectionOptions } from 'bullmq';
 import type { Redis } from 'ioredis';
 import { eq, and, isNull, lte } from 'drizzle-orm';
 import type { Database } from '../db/index.js';
-import { bookings, trains, claims } from '../db/schema.js';
+import { bookings, bookingPassengers, trains, claims, claimStatusEvents } from '../db/schema.js';
 
 export const DELAY_CHECK_QUEUE_NAME = 'delay-check';
 
@@ -37,9 +37,9 @@ const DELAY_THRESHOLD_MINUTES = 60; // Minimum delay for compensation eligibilit
  * Creates a BullMQ Worker for delay check jobs.
  *
  * The worker:
- * 1. Finds bookings with completed journeys that don't have claims
+ * 1. Finds passengers on completed journeys who don't have claims
  * 2. Checks if the associated train had a significant delay
- * 3. Creates claim records for eligible bookings
+ * 3. Creates a claim record for each eligible passenger
  *
  * @param connection - Redis connection
  * @param db - Database connection
@@ -65,16 +65,18 @@ export function createDelayCheckWorker(
       try {
         const { bookingId } = job.data;
 
-        // Find bookings to check
-        const bookingsToCheck = bookingId
+        // Find passengers to check (each traveller gets their own claim)
+        const passengersToCheck = bookingId
           ? await db
               .select({
                 booking: bookings,
+                passenger: bookingPassengers,
                 train: trains,
               })
-              .from(bookings)
+              .from(bookingPassengers)
+              .innerJoin(bookings, eq(bookingPassengers.bookingId, bookings.id))
               .leftJoin(trains, eq(bookings.trainId, trains.id))
-              .leftJoin(claims, eq(claims.bookingId, bookings.id))
+              .leftJoin(claims, eq(claims.passengerId, bookingPassengers.id))
               .where(
                 and(
                   eq(bookings.id, bookingId),
@@ -84,11 +86,13 @@ export function createDelayCheckWorker(
           : await db
               .select({
                 booking: bookings,
+                passenger: bookingPassengers,
                 train: trains,
               })
-              .from(bookings)
+              .from(bookingPassengers)
+              .innerJoin(bookings, eq(bookingPassengers.bookingId, bookings.id))
               .leftJoin(trains, eq(bookings.trainId, trains.id))
-              .leftJoin(claims, eq(claims.bookingId, bookings.id))
+              .leftJoin(claims, eq(claims.passengerId, bookingPassengers.id))
               .where(
                 and(
                   isNull(claims.id), // No existing claim
@@ -97,10 +101,19 @@ export function createDelayCheckWorker(
                 )
               );
 
-        metrics.bookingsChecked = bookingsToCheck.length;
+        metrics.bookingsChecked = new Set(
+          passengersToCheck.map(({ booking }) => booking.id)
+        ).size;
+        const delayedBookings = new Set<string>();
+        const finalizedBookings = new Set<string>();
+
+        // Process each passenger
+        for (const { booking, passenger, train } of passengersToCheck) {
+          // Cancellations are refund/re-route cases, not delays
+          if (train?.scheduleRelationship === 'canceled' || booking.cancelledAt) {
+            continue;
+          }
 
-        // Process each booking
-        for (const { booking, train } of bookingsToCheck) {
           // Determine delay from train data or booking's final delay
           const delayMinutes = train?.delayMinutes ?? booking.finalDelayMinutes;
 
@@ -109,27 +122,58 @@ export function createDelayCheckWorker(
           }
 
           // Update booking with final delay if not set
-          if (booking.finalDelayMinutes === null && train !== null && train.delayMinutes !== null) {
+          if (
+            booking.finalDelayMinutes === null &&
+            train !== null &&
+            train.delayMinutes !== null &&
+            !finalizedBookings.has(booking.id)
+          ) {
             await db
               .update(bookings)
               .set({ finalDelayMinutes: train.delayMinutes })
               .where(eq(bookings.id, booking.id));
+            finalizedBookings.add(booking.id);
           }
 
           // Check if delay meets threshold
           if (delayMinutes >= DELAY_THRESHOLD_MINUTES) {
-            metrics.delaysFound++;
+            if (!delayedBookings.has(booking.id)) {
+              delayedBookings.add(booking.id);
+              metrics.delaysFound++;
+            }
 
-            // Calculate compensation amounts based on delay
-            const { cashAmount, voucherAmount } = calculateCompensation(delayMinutes);
+            // Amounts are a share of the passenger's fare, so we can't claim without one
+            if (passenger.ticketPrice === null || passenger.ticketCurrency === null) {
+              continue;
+            }
 
-            // Create claim record
-            await db.insert(claims).values({
-              bookingId: booking.id,
+            const { cashAmount, voucherAmount } = calculateCompensation(
               delayMinutes,
-              eligibleCashAmount: cashAmount.toString(),
-              eligibleVoucherAmount: voucherAmount.toString(),
-              status: 'eligible',
+              parseFloat(passenger.ticketPrice)
+            );
+
+            // Create claim record and start its status history
+            const currency = passenger.ticketCurrency;
+            await db.transaction(async (tx) => {
+              const [claim] = await tx
+                .insert(claims)
+                .values({
+                  bookingId: booking.id,
+                  passengerId: passenger.id,
+                  delayMinutes,
+                  eligibleCashAmount: cashAmount.toFixed(2),
+                  eligibleVoucherAmount: voucherAmount.toFixed(2),
+                  currency,
+                  status: 'eligible',
+                })
+                .returning({ id: claims.id });
+
+              await tx.insert(claimStatusEvents).values({
+                claimId: claim!.id,
+                toStatus: 'eligible',
+                actor: 'system',
+                note: `Train arrived ${delayMinutes} min late`,
+              });
             });
 
             metrics.claimsCreated++;
@@ -200,29 +244,35 @@ export function createDelayCheckWorker(
 }
 
 /**
- * Calculate compensation amounts based on delay duration.
+ * Calculate compensation amounts from the fare paid and the delay duration.
  * Eurostar compensation rules:
- * - 60-119 minutes: 25% of ticket price
- * - 120+ minutes: 50% of ticket price
- * Voucher is typically 10% higher than cash
+ * - 60-119 minutes: 25% cash or 60% voucher
+ * - 120-179 minutes: 50% cash or 60% voucher
+ * - 180+ minutes: 50% cash or 75% voucher
  */
-function calculateCompensation(delayMinutes: number): {
+function calculateCompensation(
+  delayMinutes: number,
+  ticketPrice: number
+): {
   cashAmount: number;
   voucherAmount: number;
 } {
-  // Base compensation percentage
-  let percentage = 0;
+  let cashPercentage = 0;
+  let voucherPercentage = 0;
 
-  if (delayMinutes >= 120) {
-    percentage = 50;
+  if (delayMinutes >= 180) {
+    cashPercentage = 0.5;
+    voucherPercentage = 0.75;
+  } else if (delayMinutes >= 120) {
+    cashPercentage = 0.5;
+    voucherPercentage = 0.6;
   } else if (delayMinutes >= 60) {
-    percentage = 25;
+    cashPercentage = 0.25;
+    voucherPercentage = 0.6;
   }
 
-  // Placeholder: actual calculation would use ticket price from booking
-  // For now, use percentage as placeholder amounts
-  const cashAmount = percentage;
-  const voucherAmount = Math.round(percentage * 1.1);
+  const cashAmount = Math.round(ticketPrice * cashPercentage * 100) / 100;
+  const voucherAmount = Math.round(ticketPrice * voucherPercentage * 100) / 100;
 
   return { cashAmount, voucherAmount };
 }
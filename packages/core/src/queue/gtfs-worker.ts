@@ -1,8 +1,14 @@
 import { Worker, Job, type ConnectionOptions } from 'bullmq';
 import type { Redis } from 'ioredis';
 import { fetchGtfsRealtimeWithRetry } from '../gtfs/client.js';
-import { extractDelays, filterSignificantDelays } from '../gtfs/parser.js';
+import {
+  extractDelays,
+  extractAlerts,
+  filterSignificantDelays,
+  getFeedTimestamp,
+} from '../gtfs/parser.js';
 import { syncTrainsToDbBatch } from '../gtfs/sync.js';
+import { syncAlertsToDb } from '../gtfs/alerts.js';
 import type { Database } from '../db/index.js';
 import { loggers } from '../logging/logger.js';
 
@@ -22,6 +28,7 @@ export interface GtfsJobResult {
   delayCount: number;
   significantDelayCount: number;
   syncedCount: number;
+  alertCount: number;
   error?: string;
 }
 
@@ -32,6 +39,7 @@ export interface GtfsPollMetrics {
   delayCount: number;
   significantDelayCount: number;
   syncedCount: number;
+  alertCount: number;
   errorMessage?: string;
 }
 
@@ -40,7 +48,7 @@ export interface GtfsPollMetrics {
  *
  * The worker:
  * 1. Fetches GTFS-RT data from Eurostar
- * 2. Parses train delays
+ * 2. Parses train delays and service alerts
  * 3. Syncs to database
  * 4. Logs metrics
  *
@@ -64,6 +72,7 @@ export function createGtfsWorker(
         delayCount: 0,
         significantDelayCount: 0,
         syncedCount: 0,
+        alertCount: 0,
       };
 
       try {
@@ -85,9 +94,13 @@ export function createGtfsWorker(
         const significantDelays = filterSignificantDelays(delays);
         metrics.significantDelayCount = significantDelays.length;
 
+        // Parse service alerts
+        const alerts = extractAlerts(feed);
+        metrics.alertCount = alerts.length;
+
         // Sync to database if connection provided
         if (db) {
-          const syncResult = await syncTrainsToDbBatch(delays, db);
+          const syncResult = await syncTrainsToDbBatch(delays, db, getFeedTimestamp(feed));
           metrics.syncedCount = syncResult.inserted;
 
           if (syncResult.errors.length > 0) {
@@ -96,6 +109,15 @@ export function createGtfsWorker(
               'Sync errors encountered'
             );
           }
+
+          // Alerts are synced after trains so trip links can resolve
+          const alertResult = await syncAlertsToDb(alerts, db);
+          if (alertResult.errors.length > 0) {
+            log.warn(
+              { errorCount: alertResult.errors.length, errors: alertResult.errors.slice(0, 3) },
+              'Alert sync errors encountered'
+            );
+          }
         }
 
         metrics.durationMs = Date.now() - startTime;
@@ -115,6 +137,7 @@ export function createGtfsWorker(
           delayCount: metrics.delayCount,
           significantDelayCount: metrics.significantDelayCount,
           syncedCount: metrics.syncedCount,
+          alertCount: metrics.alertCount,
         };
       } catch (error) {
         metrics.durationMs = Date.now() - startTime;
@@ -137,6 +160,7 @@ export function createGtfsWorker(
           delayCount: metrics.delayCount,
           significantDelayCount: metrics.significantDelayCount,
           syncedCount: metrics.syncedCount,
+          alertCount: metrics.alertCount,
           error: metrics.errorMessage,
         };
       }
@@ -169,6 +193,7 @@ function logMetrics(metrics: GtfsPollMetrics, jobId?: string): void {
     delayCount: metrics.delayCount,
     significantDelayCount: metrics.significantDelayCount,
     syncedCount: metrics.syncedCount,
+    alertCount: metrics.alertCount,
   };
 
   if (metrics.errorMessage) {
@@ -12,6 +12,8 @@
  * - JWT_SECRET: JWT signing secret [REQUIRED]
  * - RESEND_API_KEY: Resend API key [REQUIRED]
  * - GTFS_POLL_INTERVAL_MS: Polling interval in ms (default: 30000)
+ * - GTFS_STATIC_PATH: Static GTFS zip to import for scheduled times (optional)
+ * - GTFS_STATIC_CHECK_INTERVAL_MS: Static feed re-check interval in ms (default: 21600000)
  */
 
 import { createRedisConnection } from './queue/connection.js';
@@ -19,12 +21,15 @@ import { createGtfsWorker } from './queue/gtfs-worker.js';
 import { GtfsScheduler } from './queue/gtfs-scheduler.js';
 import { createDb } from './db/index.js';
 import { validateEnv } from './config/env.js';
+import { importStaticGtfs } from './gtfs/static/importer.js';
 import type { Database } from './db/index.js';
 
 interface WorkerConfig {
   redisUrl: string;
   databaseUrl: string;
   gtfsPollIntervalMs: number;
+  gtfsStaticPath: string | undefined;
+  gtfsStaticCheckIntervalMs: number;
 }
 
 function loadConfig(): WorkerConfig {
@@ -38,9 +43,26 @@ function loadConfig(): WorkerConfig {
       process.env['GTFS_POLL_INTERVAL_MS'] ?? '30000',
       10
     ),
+    gtfsStaticPath: process.env['GTFS_STATIC_PATH'],
+    gtfsStaticCheckIntervalMs: parseInt(
+      process.env['GTFS_STATIC_CHECK_INTERVAL_MS'] ?? '21600000',
+      10
+    ),
   };
 }
 
+/**
+ * Imports the static timetable if the zip has changed since the last import.
+ */
+async function refreshStaticGtfs(db: Database, zipPath: string): Promise<void> {
+  const result = await importStaticGtfs(db, zipPath);
+  if (result.isErr()) {
+    console.error(`[Worker] Static GTFS import failed: ${result.error.message}`);
+  } else if (!result.value.skipped) {
+    console.log(`[Worker] Static GTFS imported (${result.value.tripCount} trips)`);
+  }
+}
+
 async function main(): Promise<void> {
   const config = loadConfig();
 
@@ -50,6 +72,7 @@ async function main(): Promise<void> {
   console.log(`Redis URL:     (configured)`);
   console.log(`Database URL:  (configured)`);
   console.log(`Poll interval: ${config.gtfsPollIntervalMs}ms`);
+  console.log(`Static GTFS:   ${config.gtfsStaticPath ?? '(not configured)'}`);
   console.log('━'.repeat(60));
 
   // Initialize Redis connection
@@ -60,6 +83,18 @@ async function main(): Promise<void> {
   console.log('[Worker] Connecting to database...');
   const db: Database = createDb(config.databaseUrl);
 
+  // Import static timetable before polling so new trains get real times
+  let staticGtfsTimer: NodeJS.Timeout | undefined;
+  if (config.gtfsStaticPath) {
+    const zipPath = config.gtfsStaticPath;
+    console.log('[Worker] Importing static GTFS timetable...');
+    await refreshStaticGtfs(db, zipPath);
+    staticGtfsTimer = setInterval(
+      () => void refreshStaticGtfs(db, zipPath),
+      config.gtfsStaticCheckIntervalMs
+    );
+  }
+
   // Create GTFS worker
   console.log('[Worker] Starting GTFS worker...');
   const gtfsWorker = createGtfsWorker(redis.duplicate(), db);
@@ -83,6 +118,7 @@ async function main(): Promise<void> {
 
     try {
       // Stop scheduler first (no new jobs)
+      clearInterval(staticGtfsTimer);
       await gtfsScheduler.close();
       console.log('[Worker] GTFS scheduler stopped');
 
@@ -8,8 +8,10 @@ export interface PeakHour {
 export interface TerminalConfig {
   code: Terminal;
   name: string;
+  stationCode: string; // e.g. "GBSPX"
   timezone: string;
   checkInOpenMinutes: number;
+  checkInCloseMinutes: number; // gates close this long before departure
   peakHours: {
     morning: PeakHour;
     evening: PeakHour;
@@ -20,8 +22,10 @@ export const terminalConfig: Record<Terminal, TerminalConfig> = {
   'st-pancras': {
     code: 'st-pancras',
     name: 'London St Pancras International',
+    stationCode: 'GBSPX',
     timezone: 'Europe/London', // UTC+0 (UTC+1 during BST)
     checkInOpenMinutes: 120,
+    checkInCloseMinutes: 30,
     peakHours: {
       morning: { start: 6, end: 9 }, // Morning departures
       evening: { start: 16, end: 19 }, // Evening returns
@@ -30,8 +34,10 @@ export const terminalConfig: Record<Terminal, TerminalConfig> = {
   'gare-du-nord': {
     code: 'gare-du-nord',
     name: 'Paris Gare du Nord',
+    stationCode: 'FRPLY',
     timezone: 'Europe/Paris', // UTC+1 (UTC+2 during DST)
     checkInOpenMinutes: 120,
+    checkInCloseMinutes: 30,
     peakHours: {
       morning: { start: 7, end: 10 },
       evening: { start: 17, end: 20 },
@@ -40,8 +46,10 @@ export const terminalConfig: Record<Terminal, TerminalConfig> = {
   'brussels-midi': {
     code: 'brussels-midi',
     name: 'Brussels Midi/Zuid',
+    stationCode: 'BEBMI',
     timezone: 'Europe/Brussels', // UTC+1 (UTC+2 during DST)
     checkInOpenMinutes: 120,
+    checkInCloseMinutes: 30,
     peakHours: {
       morning: { start: 7, end: 10 },
       evening: { start: 17, end: 20 },
@@ -50,8 +58,10 @@ export const terminalConfig: Record<Terminal, TerminalConfig> = {
   'amsterdam-centraal': {
     code: 'amsterdam-centraal',
     name: 'Amsterdam Centraal',
+    stationCode: 'NLAMA',
     timezone: 'Europe/Amsterdam', // UTC+1 (UTC+2 during DST)
     checkInOpenMinutes: 120,
+    checkInCloseMinutes: 30,
     peakHours: {
       morning: { start: 7, end: 10 },
       evening: { start: 17, end: 20 },